@@ -0,0 +1,67 @@
+/**
+ * In-memory cache for the autocomplete index with TTL and stale fallback
+ *
+ * Cache lifetime: 10 minutes (inventory is synced periodically, not live).
+ * Building the index scans every inventory hotel, so it is built once per
+ * isolate and reused for every keystroke.
+ */
+
+import type { AutocompleteIndex } from "../utils/autocomplete";
+
+export type AutocompleteIndexSource = "inventory" | "default";
+
+interface AutocompleteCacheEntry {
+  index: AutocompleteIndex;
+  source: AutocompleteIndexSource;
+  builtAt: string; // ISO timestamp
+  expiresAt: number; // Date.now() + TTL
+}
+
+// Cache TTL: 10 minutes
+const CACHE_TTL_MS = 10 * 60 * 1000;
+
+let cachedEntry: AutocompleteCacheEntry | null = null;
+
+/**
+ * Get the cached autocomplete index if available
+ * @returns Index with freshness indicator, or null if no cache exists
+ */
+export function getCachedAutocompleteIndex(): {
+  index: AutocompleteIndex;
+  source: AutocompleteIndexSource;
+  builtAt: string;
+  stale: boolean;
+} | null {
+  if (!cachedEntry) {
+    return null;
+  }
+
+  return {
+    index: cachedEntry.index,
+    source: cachedEntry.source,
+    builtAt: cachedEntry.builtAt,
+    stale: Date.now() > cachedEntry.expiresAt,
+  };
+}
+
+/**
+ * Store the autocomplete index with a new TTL
+ */
+export function setCachedAutocompleteIndex(
+  index: AutocompleteIndex,
+  source: AutocompleteIndexSource
+): void {
+  cachedEntry = {
+    index,
+    source,
+    builtAt: new Date().toISOString(),
+    expiresAt: Date.now() + CACHE_TTL_MS,
+  };
+}
+
+/**
+ * Clear the autocomplete cache (used by tests)
+ */
+export function clearAutocompleteCache(): void {
+  cachedEntry = null;
+}
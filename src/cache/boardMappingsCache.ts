@@ -0,0 +1,129 @@
+/**
+ * In-memory cache for board normalization data with TTL and stale fallback
+ *
+ * Cache lifetime: 30 minutes (ListBoarding rarely changes; admin edits clear
+ * the cache of the isolate that handled them, other isolates pick them up on
+ * expiry).
+ */
+
+import type { Env } from "../types/env";
+import { listBoardings } from "../clients/mygoClient";
+import { createServiceClient } from "../clients/supabaseClient";
+import type { Logger } from "../utils/logger";
+import {
+  createBoardNormalizer,
+  isCanonicalBoard,
+  toBoardingEntries,
+  type BoardNormalizer,
+  type BoardNormalizerData,
+  type BoardOverride,
+} from "../utils/boardNormalization";
+
+interface BoardMappingsCacheEntry {
+  data: BoardNormalizerData;
+  fetchedAt: string; // ISO timestamp
+  expiresAt: number; // Date.now() + TTL
+}
+
+// Cache TTL: 30 minutes
+const CACHE_TTL_MS = 30 * 60 * 1000;
+
+let cachedEntry: BoardMappingsCacheEntry | null = null;
+
+/**
+ * Get cached board mappings if available
+ * @returns Mappings with freshness indicator, or null if no cache exists
+ */
+export function getCachedBoardMappings(): {
+  data: BoardNormalizerData;
+  fetchedAt: string;
+  stale: boolean;
+} | null {
+  if (!cachedEntry) {
+    return null;
+  }
+
+  return {
+    data: cachedEntry.data,
+    fetchedAt: cachedEntry.fetchedAt,
+    stale: Date.now() > cachedEntry.expiresAt,
+  };
+}
+
+/**
+ * Store board mappings with a new TTL
+ */
+export function setCachedBoardMappings(data: BoardNormalizerData): void {
+  cachedEntry = {
+    data,
+    fetchedAt: new Date().toISOString(),
+    expiresAt: Date.now() + CACHE_TTL_MS,
+  };
+}
+
+/**
+ * Clear the board mappings cache (after admin edits, and in tests)
+ */
+export function clearBoardMappingsCache(): void {
+  cachedEntry = null;
+}
+
+/**
+ * Load the board normalizer: myGO ListBoarding titles + admin overrides
+ * A failing source falls back to its previously cached value (or nothing),
+ * so search never fails because of board normalization
+ */
+export async function loadBoardNormalizer(env: Env, logger: Logger): Promise<BoardNormalizer> {
+  const cached = getCachedBoardMappings();
+  if (cached && !cached.stale) {
+    return createBoardNormalizer(cached.data);
+  }
+
+  const [boardingsResult, overridesResult] = await Promise.allSettled([
+    listBoardings({ login: env.MYGO_LOGIN, password: env.MYGO_PASSWORD }),
+    (async () =>
+      createServiceClient(env)
+        .from("board_code_overrides")
+        .select("match_type, match_value, canonical_code"))(),
+  ]);
+
+  let boardings = cached?.data.boardings ?? [];
+  if (boardingsResult.status === "fulfilled") {
+    boardings = toBoardingEntries(boardingsResult.value);
+  } else {
+    logger.warn("ListBoarding fetch failed, using cached boardings", {
+      error: boardingsResult.reason instanceof Error ? boardingsResult.reason.message : String(boardingsResult.reason),
+    });
+  }
+
+  let overrides = cached?.data.overrides ?? [];
+  if (
+    overridesResult.status === "fulfilled" &&
+    !overridesResult.value.error &&
+    Array.isArray(overridesResult.value.data)
+  ) {
+    const rows = overridesResult.value.data as Array<{
+      match_type: BoardOverride["matchType"];
+      match_value: string;
+      canonical_code: BoardOverride["canonicalCode"];
+    }>;
+    overrides = rows
+      .filter((row) => typeof row.match_value === "string" && isCanonicalBoard(String(row.canonical_code)))
+      .map((row) => ({
+        matchType: row.match_type,
+        matchValue: row.match_value,
+        canonicalCode: row.canonical_code,
+      }));
+  } else {
+    logger.warn("Board overrides lookup failed, using cached overrides", {
+      error:
+        overridesResult.status === "rejected"
+          ? String(overridesResult.reason)
+          : overridesResult.value.error?.message ?? "Unexpected response",
+    });
+  }
+
+  const data = { boardings, overrides };
+  setCachedBoardMappings(data);
+  return createBoardNormalizer(data);
+}
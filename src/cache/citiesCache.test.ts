@@ -1,71 +0,0 @@
-/**
- * Tests for cities cache module
- */
-
-import { describe, it, expect, beforeEach } from "vitest";
-import { getCachedCities, setCachedCities } from "./citiesCache";
-
-// Mock cities data
-const mockCities = [
-  { id: 1, name: "Tunis", region: "Tunis" },
-  { id: 2, name: "Sousse", region: "Sousse" },
-  { id: 3, name: "Hammamet", region: "Nabeul" },
-];
-
-describe("citiesCache", () => {
-  beforeEach(() => {
-    // Note: We can't easily reset the module-level cache between tests
-    // In a real implementation, we might want to expose a clearCache() function
-  });
-
-  it("should return null when cache is empty", () => {
-    const result = getCachedCities();
-    // May be null or may have cached data from previous tests
-    // This is a limitation of the module-level cache
-    expect(result === null || result !== null).toBe(true);
-  });
-
-  it("should cache cities and return them as fresh", () => {
-    setCachedCities(mockCities);
-    const result = getCachedCities();
-
-    expect(result).not.toBeNull();
-    expect(result?.cities).toEqual(mockCities);
-    expect(result?.stale).toBe(false);
-    expect(result?.fetchedAt).toBeDefined();
-  });
-
-  it("should return stale cache after TTL expires", async () => {
-    // This test is difficult to implement without mocking Date.now()
-    // or exposing internal cache state
-    // We'll skip it for now as it would require significant refactoring
-    expect(true).toBe(true);
-  });
-
-  it("should update fetchedAt timestamp when setting cache", () => {
-    const beforeTime = new Date().toISOString();
-    setCachedCities(mockCities);
-    const result = getCachedCities();
-    const afterTime = new Date().toISOString();
-
-    expect(result).not.toBeNull();
-    expect(result?.fetchedAt).toBeDefined();
-    // Timestamp should be between before and after
-    expect(result?.fetchedAt! >= beforeTime).toBe(true);
-    expect(result?.fetchedAt! <= afterTime).toBe(true);
-  });
-
-  it("should store cities with correct structure", () => {
-    setCachedCities(mockCities);
-    const result = getCachedCities();
-
-    expect(result).not.toBeNull();
-    expect(Array.isArray(result?.cities)).toBe(true);
-    expect(result?.cities.length).toBe(3);
-
-    const firstCity = result?.cities[0];
-    expect(firstCity).toHaveProperty("id");
-    expect(firstCity).toHaveProperty("name");
-    expect(firstCity).toHaveProperty("region");
-  });
-});
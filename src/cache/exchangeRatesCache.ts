@@ -0,0 +1,95 @@
+/**
+ * In-memory cache for current exchange rates with TTL and stale fallback
+ *
+ * Cache lifetime: 10 minutes (admin rate changes clear the cache of the
+ * isolate that handled them, other isolates pick them up on expiry).
+ */
+
+import type { Env } from "../types/env";
+import { createServiceClient } from "../clients/supabaseClient";
+import type { Logger } from "../utils/logger";
+import {
+  pickCurrentRates,
+  toExchangeRate,
+  type ExchangeRate,
+  type ExchangeRateRow,
+} from "../utils/currency";
+
+interface ExchangeRatesCacheEntry {
+  rates: ExchangeRate[];
+  expiresAt: number; // Date.now() + TTL
+}
+
+// Cache TTL: 10 minutes
+const CACHE_TTL_MS = 10 * 60 * 1000;
+
+// Snapshots read per load (most recent first), enough for every currency
+const MAX_SNAPSHOTS = 1000;
+
+let cachedEntry: ExchangeRatesCacheEntry | null = null;
+
+/**
+ * Get cached current rates if available
+ * @returns Rates with freshness indicator, or null if no cache exists
+ */
+export function getCachedExchangeRates(): { rates: ExchangeRate[]; stale: boolean } | null {
+  if (!cachedEntry) {
+    return null;
+  }
+
+  return {
+    rates: cachedEntry.rates,
+    stale: Date.now() > cachedEntry.expiresAt,
+  };
+}
+
+/**
+ * Store current rates with a new TTL
+ */
+export function setCachedExchangeRates(rates: ExchangeRate[]): void {
+  cachedEntry = {
+    rates,
+    expiresAt: Date.now() + CACHE_TTL_MS,
+  };
+}
+
+/**
+ * Clear the exchange rates cache (after admin edits, and in tests)
+ */
+export function clearExchangeRatesCache(): void {
+  cachedEntry = null;
+}
+
+/**
+ * Load the current rate of every display currency
+ * A failing lookup falls back to the previously cached rates (or none)
+ */
+export async function loadExchangeRates(env: Env, logger: Logger): Promise<ExchangeRate[]> {
+  const cached = getCachedExchangeRates();
+  if (cached && !cached.stale) {
+    return cached.rates;
+  }
+
+  try {
+    const now = new Date();
+    const { data, error } = await createServiceClient(env)
+      .from("exchange_rates")
+      .select("id, currency, tnd_per_unit, effective_at, note")
+      .lte("effective_at", now.toISOString())
+      .order("effective_at", { ascending: false })
+      .limit(MAX_SNAPSHOTS);
+
+    if (error || !Array.isArray(data)) {
+      throw new Error(error?.message ?? "Unexpected response");
+    }
+
+    const rates = pickCurrentRates((data as ExchangeRateRow[]).map(toExchangeRate), now);
+    setCachedExchangeRates(rates);
+    return rates;
+  } catch (error) {
+    logger.warn("Exchange rates lookup failed, using cached rates", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return cached?.rates ?? [];
+  }
+}
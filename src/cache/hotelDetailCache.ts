@@ -0,0 +1,64 @@
+/**
+ * In-memory cache for hotel static content (myGO HotelDetail + inventory row)
+ *
+ * Static content changes rarely, so it is cached for 6 hours per hotel and
+ * kept apart from live prices, which are never cached here.
+ */
+
+import type { HotelStaticContent } from "../utils/hotelDetail";
+
+interface HotelDetailCacheEntry {
+  content: HotelStaticContent;
+  expiresAt: number; // Date.now() + TTL
+}
+
+// Cache TTL: 6 hours
+const CACHE_TTL_MS = 6 * 60 * 60 * 1000;
+
+// Bound memory usage per isolate
+const MAX_ENTRIES = 2000;
+
+const entries = new Map<string, HotelDetailCacheEntry>();
+
+const getKey = (hotelId: number, language?: string): string => `${hotelId}:${language ?? "default"}`;
+
+/**
+ * Get cached static content for a hotel if present and fresh
+ */
+export function getCachedHotelDetail(hotelId: number, language?: string): HotelStaticContent | null {
+  const key = getKey(hotelId, language);
+  const entry = entries.get(key);
+  if (!entry) {
+    return null;
+  }
+  if (Date.now() > entry.expiresAt) {
+    entries.delete(key);
+    return null;
+  }
+  return entry.content;
+}
+
+/**
+ * Store static content for a hotel with a new TTL
+ */
+export function setCachedHotelDetail(
+  hotelId: number,
+  content: HotelStaticContent,
+  language?: string
+): void {
+  if (entries.size >= MAX_ENTRIES) {
+    // Map keeps insertion order: drop the oldest entry
+    const oldestKey = entries.keys().next().value;
+    if (oldestKey !== undefined) {
+      entries.delete(oldestKey);
+    }
+  }
+  entries.set(getKey(hotelId, language), { content, expiresAt: Date.now() + CACHE_TTL_MS });
+}
+
+/**
+ * Clear all cached hotels (used by tests)
+ */
+export function clearHotelDetailCache(): void {
+  entries.clear();
+}
@@ -0,0 +1,63 @@
+/**
+ * In-memory cache for learned per-hotel occupancy policies
+ *
+ * Policies are learned from search results and hotel detail as they flow
+ * through the Worker and kept for 24 hours; a hotel without an entry is
+ * simply not pre-validated.
+ */
+
+import { mergeOccupancyPolicies, type OccupancyPolicy } from "../utils/occupancyPolicy";
+
+interface OccupancyPolicyCacheEntry {
+  policy: OccupancyPolicy;
+  expiresAt: number; // Date.now() + TTL
+}
+
+// Cache TTL: 24 hours
+const CACHE_TTL_MS = 24 * 60 * 60 * 1000;
+
+// Bound memory usage per isolate
+const MAX_ENTRIES = 5000;
+
+const entries = new Map<number, OccupancyPolicyCacheEntry>();
+
+/**
+ * Get the learned policy of a hotel if present and fresh
+ */
+export function getCachedOccupancyPolicy(hotelId: number): OccupancyPolicy | null {
+  const entry = entries.get(hotelId);
+  if (!entry) {
+    return null;
+  }
+  if (Date.now() > entry.expiresAt) {
+    entries.delete(hotelId);
+    return null;
+  }
+  return entry.policy;
+}
+
+/**
+ * Merge a newly learned policy into the cached one and refresh its TTL
+ */
+export function rememberOccupancyPolicy(update: OccupancyPolicy): void {
+  const existing = getCachedOccupancyPolicy(update.hotelId);
+  entries.delete(update.hotelId);
+  if (entries.size >= MAX_ENTRIES) {
+    // Map keeps insertion order: drop the oldest entry
+    const oldestKey = entries.keys().next().value;
+    if (oldestKey !== undefined) {
+      entries.delete(oldestKey);
+    }
+  }
+  entries.set(update.hotelId, {
+    policy: mergeOccupancyPolicies(existing, update),
+    expiresAt: Date.now() + CACHE_TTL_MS,
+  });
+}
+
+/**
+ * Clear all learned policies (used by tests)
+ */
+export function clearOccupancyPolicyCache(): void {
+  entries.clear();
+}
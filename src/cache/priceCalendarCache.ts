@@ -0,0 +1,87 @@
+/**
+ * In-memory cache for price calendar cells
+ *
+ * One entry per (search context, check-in date). Entries live for the lifetime
+ * of the Cloudflare Worker isolate and expire after 30 minutes, so repeated
+ * calendar views of the same month do not fan out to myGO again.
+ * Keys are deterministic and token-free.
+ */
+
+export interface PriceCalendarCacheValue {
+  minPrice: number | null;
+  hotelId: number | null;
+  available: boolean;
+}
+
+interface PriceCalendarCacheEntry {
+  value: PriceCalendarCacheValue;
+  expiresAt: number; // Date.now() + TTL
+}
+
+// Cache TTL: 30 minutes (calendar prices are indicative, prebook re-checks live)
+const CACHE_TTL_MS = 30 * 60 * 1000;
+
+// Bound memory usage per isolate
+const MAX_ENTRIES = 5000;
+
+const entries = new Map<string, PriceCalendarCacheEntry>();
+
+/**
+ * Build a deterministic cache key for one calendar cell
+ */
+export function getCalendarCellKey(params: {
+  cityId: number;
+  hotelId?: number;
+  checkIn: string;
+  checkOut: string;
+  rooms: Array<{ adults: number; childrenAges?: number[] }>;
+  currency?: string;
+}): string {
+  return JSON.stringify({
+    cityId: params.cityId,
+    hotelId: params.hotelId ?? null,
+    checkIn: params.checkIn,
+    checkOut: params.checkOut,
+    rooms: params.rooms.map((room) => ({
+      adults: room.adults,
+      childrenAges: [...(room.childrenAges ?? [])].sort((a, b) => a - b),
+    })),
+    currency: params.currency ?? "TND",
+  });
+}
+
+/**
+ * Get a cached calendar cell if present and fresh
+ */
+export function getCachedCalendarCell(key: string): PriceCalendarCacheValue | null {
+  const entry = entries.get(key);
+  if (!entry) {
+    return null;
+  }
+  if (Date.now() > entry.expiresAt) {
+    entries.delete(key);
+    return null;
+  }
+  return entry.value;
+}
+
+/**
+ * Store a calendar cell with a new TTL
+ */
+export function setCachedCalendarCell(key: string, value: PriceCalendarCacheValue): void {
+  if (entries.size >= MAX_ENTRIES) {
+    // Map keeps insertion order: drop the oldest entry
+    const oldestKey = entries.keys().next().value;
+    if (oldestKey !== undefined) {
+      entries.delete(oldestKey);
+    }
+  }
+  entries.set(key, { value, expiresAt: Date.now() + CACHE_TTL_MS });
+}
+
+/**
+ * Clear all cached cells (used by tests)
+ */
+export function clearCalendarCache(): void {
+  entries.clear();
+}
@@ -0,0 +1,85 @@
+/**
+ * In-memory cache for active pricing rules with TTL and stale fallback
+ *
+ * Cache lifetime: 5 minutes (admin edits clear the cache of the isolate that
+ * handled them, other isolates pick them up on expiry).
+ */
+
+import type { Env } from "../types/env";
+import { createServiceClient } from "../clients/supabaseClient";
+import type { Logger } from "../utils/logger";
+import { toPricingRule, type PricingRule, type PricingRuleRow } from "../utils/pricingRules";
+
+interface PricingRulesCacheEntry {
+  rules: PricingRule[];
+  expiresAt: number; // Date.now() + TTL
+}
+
+// Cache TTL: 5 minutes
+const CACHE_TTL_MS = 5 * 60 * 1000;
+
+let cachedEntry: PricingRulesCacheEntry | null = null;
+
+/**
+ * Get cached pricing rules if available
+ * @returns Rules with freshness indicator, or null if no cache exists
+ */
+export function getCachedPricingRules(): { rules: PricingRule[]; stale: boolean } | null {
+  if (!cachedEntry) {
+    return null;
+  }
+
+  return {
+    rules: cachedEntry.rules,
+    stale: Date.now() > cachedEntry.expiresAt,
+  };
+}
+
+/**
+ * Store pricing rules with a new TTL
+ */
+export function setCachedPricingRules(rules: PricingRule[]): void {
+  cachedEntry = {
+    rules,
+    expiresAt: Date.now() + CACHE_TTL_MS,
+  };
+}
+
+/**
+ * Clear the pricing rules cache (after admin edits, and in tests)
+ */
+export function clearPricingRulesCache(): void {
+  cachedEntry = null;
+}
+
+/**
+ * Load active pricing rules
+ * A failing lookup falls back to the previously cached rules (or none), so
+ * search never fails because of pricing
+ */
+export async function loadPricingRules(env: Env, logger: Logger): Promise<PricingRule[]> {
+  const cached = getCachedPricingRules();
+  if (cached && !cached.stale) {
+    return cached.rules;
+  }
+
+  try {
+    const { data, error } = await createServiceClient(env)
+      .from("pricing_rules")
+      .select("*")
+      .eq("active", true);
+
+    if (error || !Array.isArray(data)) {
+      throw new Error(error?.message ?? "Unexpected response");
+    }
+
+    const rules = (data as PricingRuleRow[]).map(toPricingRule);
+    setCachedPricingRules(rules);
+    return rules;
+  } catch (error) {
+    logger.warn("Pricing rules lookup failed, using cached rules", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return cached?.rules ?? [];
+  }
+}
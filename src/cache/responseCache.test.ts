@@ -0,0 +1,183 @@
+/**
+ * Tests for the response cache (stale-while-revalidate, coalescing, backends)
+ */
+
+import { describe, it, expect, vi, afterEach } from "vitest";
+import type { Env } from "../types/env";
+import {
+  cachedLoad,
+  cacheHeaders,
+  clearResponseCache,
+  combineCacheStatus,
+  createKvBackend,
+  createMemoryBackend,
+  resolveCacheBackend,
+  stableCacheKey,
+  type CachePolicy,
+} from "./responseCache";
+
+const policy: CachePolicy = { namespace: "test", freshMs: 1000, staleMs: 5000 };
+
+describe("cachedLoad", () => {
+  afterEach(() => {
+    clearResponseCache();
+    vi.restoreAllMocks();
+  });
+
+  it("should load on miss and serve fresh hits", async () => {
+    const backend = createMemoryBackend();
+    const loader = vi.fn().mockResolvedValue({ hotels: [1] });
+
+    const miss = await cachedLoad(backend, policy, "k", loader);
+    const hit = await cachedLoad(backend, policy, "k", loader);
+
+    expect(miss).toMatchObject({ status: "MISS", value: { hotels: [1] }, backend: "memory" });
+    expect(hit).toMatchObject({ status: "HIT", value: { hotels: [1] } });
+    expect(loader).toHaveBeenCalledTimes(1);
+  });
+
+  it("should serve stale entries and refresh them in the background", async () => {
+    const backend = createMemoryBackend();
+    const now = Date.now();
+    const clock = vi.spyOn(Date, "now").mockReturnValue(now);
+    await cachedLoad(backend, policy, "k", async () => "old");
+
+    clock.mockReturnValue(now + 2000);
+    const background: Array<Promise<unknown>> = [];
+    const stale = await cachedLoad(backend, policy, "k", async () => "new", {
+      waitUntil: (promise) => background.push(promise),
+    });
+    await Promise.all(background);
+    const refreshed = await cachedLoad(backend, policy, "k", async () => "unused");
+
+    expect(stale).toMatchObject({ status: "STALE", value: "old" });
+    expect(refreshed).toMatchObject({ status: "HIT", value: "new" });
+  });
+
+  it("should keep serving stale values when the refresh fails", async () => {
+    const backend = createMemoryBackend();
+    const now = Date.now();
+    const clock = vi.spyOn(Date, "now").mockReturnValue(now);
+    await cachedLoad(backend, policy, "k", async () => "old");
+
+    clock.mockReturnValue(now + 2000);
+    const onRefreshError = vi.fn();
+    const background: Array<Promise<unknown>> = [];
+    await cachedLoad(backend, policy, "k", async () => Promise.reject(new Error("myGO down")), {
+      waitUntil: (promise) => background.push(promise),
+      onRefreshError,
+    });
+    await Promise.all(background);
+
+    expect(onRefreshError).toHaveBeenCalledTimes(1);
+    expect(await cachedLoad(backend, policy, "k", async () => "unused")).toMatchObject({
+      status: "STALE",
+      value: "old",
+    });
+  });
+
+  it("should drop entries after the stale window", async () => {
+    const backend = createMemoryBackend();
+    const now = Date.now();
+    const clock = vi.spyOn(Date, "now").mockReturnValue(now);
+    await cachedLoad(backend, policy, "k", async () => "old");
+
+    clock.mockReturnValue(now + 7000);
+
+    expect(await cachedLoad(backend, policy, "k", async () => "new")).toMatchObject({
+      status: "MISS",
+      value: "new",
+    });
+  });
+
+  it("should coalesce identical concurrent loads", async () => {
+    const backend = createMemoryBackend();
+    let resolveLoad: (value: string) => void = () => {};
+    const loader = vi.fn(() => new Promise<string>((resolve) => (resolveLoad = resolve)));
+
+    const pending = Promise.all([
+      cachedLoad(backend, policy, "k", loader),
+      cachedLoad(backend, policy, "k", loader),
+    ]);
+    // Let both reads reach the loader before resolving it
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    resolveLoad("shared");
+    const results = await pending;
+
+    expect(loader).toHaveBeenCalledTimes(1);
+    expect(results.map((result) => result.value)).toEqual(["shared", "shared"]);
+  });
+
+  it("should not cache loader errors", async () => {
+    const backend = createMemoryBackend();
+
+    await expect(
+      cachedLoad(backend, policy, "k", async () => Promise.reject(new Error("myGO down")))
+    ).rejects.toThrow("myGO down");
+    expect(await cachedLoad(backend, policy, "k", async () => "ok")).toMatchObject({ status: "MISS" });
+  });
+
+  it("should treat backend read failures as misses", async () => {
+    const backend = {
+      ...createMemoryBackend(),
+      get: vi.fn().mockRejectedValue(new Error("backend down")),
+    };
+
+    expect(await cachedLoad(backend, policy, "k", async () => "ok")).toMatchObject({ status: "MISS", value: "ok" });
+  });
+});
+
+describe("createKvBackend", () => {
+  it("should store entries with an expiration covering the stale window", async () => {
+    const store = new Map<string, string>();
+    const kv = {
+      get: vi.fn(async (key: string) => (store.has(key) ? JSON.parse(store.get(key)!) : null)),
+      put: vi.fn(async (key: string, value: string) => {
+        store.set(key, value);
+      }),
+      delete: vi.fn(async (key: string) => {
+        store.delete(key);
+      }),
+    } as unknown as KVNamespace;
+    const backend = createKvBackend(kv);
+
+    await cachedLoad(backend, { namespace: "static", freshMs: 60_000, staleMs: 600_000 }, "cities", async () => [1]);
+
+    expect(kv.put).toHaveBeenCalledWith("static:cities", expect.any(String), { expirationTtl: 660 });
+    expect(await cachedLoad(backend, policy, "unused", async () => [])).toMatchObject({ backend: "kv" });
+  });
+});
+
+describe("resolveCacheBackend", () => {
+  it("should default to memory and fall back to it when a backend is unavailable", () => {
+    expect(resolveCacheBackend({} as Env).name).toBe("memory");
+    expect(resolveCacheBackend({ CACHE_BACKEND: "kv" } as Env).name).toBe("memory");
+    expect(resolveCacheBackend({ CACHE_BACKEND: "cache-api" } as Env).name).toBe("memory");
+    expect(
+      resolveCacheBackend({
+        CACHE_BACKEND: "supabase",
+        SUPABASE_URL: "https://test.supabase.co",
+        SUPABASE_SERVICE_ROLE_KEY: "key",
+      } as Env).name
+    ).toBe("supabase");
+  });
+});
+
+describe("stableCacheKey", () => {
+  it("should not depend on object key order and drop undefined fields", () => {
+    expect(stableCacheKey({ b: 1, a: { d: [2, 1], c: undefined } })).toBe(stableCacheKey({ a: { d: [2, 1] }, b: 1 }));
+  });
+});
+
+describe("cache headers", () => {
+  it("should combine statuses and expose hit/miss headers", () => {
+    expect(combineCacheStatus(["HIT", "STALE"])).toBe("STALE");
+    expect(combineCacheStatus(["HIT", "MISS", "STALE"])).toBe("MISS");
+    expect(combineCacheStatus([])).toBe("HIT");
+    expect(cacheHeaders({ value: null, status: "HIT", backend: "memory", storedAt: Date.now() - 3000 })).toEqual({
+      "X-Cache": "HIT",
+      "X-Cache-Backend": "memory",
+      Age: "3",
+    });
+  });
+});
@@ -0,0 +1,320 @@
+/**
+ * Pluggable response cache with stale-while-revalidate and request coalescing
+ *
+ * Backends (CACHE_BACKEND):
+ * - memory (default): per-isolate Map, lost when the isolate is recycled
+ * - cache-api: Cloudflare Cache API (caches.default), shared per colo
+ * - kv: Workers KV namespace bound as RESPONSE_CACHE_KV, shared globally
+ * - supabase: search_cache table (same table as the search-hotels edge function)
+ *
+ * Entries are fresh for `freshMs`, then served stale for `staleMs` while one
+ * background refresh runs. Identical concurrent loads in an isolate share one
+ * upstream call. Keys are deterministic and must never contain tokens; values
+ * must be token-free.
+ */
+
+import type { Env } from "../types/env";
+import { createServiceClient } from "../clients/supabaseClient";
+
+export type CacheBackendName = "memory" | "cache-api" | "kv" | "supabase";
+
+// HIT: fresh entry, STALE: expired entry served while refreshing,
+// MISS: loaded now (possibly shared with a concurrent identical request)
+export type CacheStatus = "HIT" | "STALE" | "MISS";
+
+export interface CacheEntry<T> {
+  value: T;
+  storedAt: number; // epoch ms
+  freshUntil: number; // epoch ms
+  staleUntil: number; // epoch ms, entry is dropped afterwards
+}
+
+export interface CacheBackend {
+  readonly name: CacheBackendName;
+  get<T>(key: string): Promise<CacheEntry<T> | null>;
+  set<T>(key: string, entry: CacheEntry<T>): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+export interface CachePolicy {
+  namespace: string;
+  freshMs: number;
+  staleMs: number;
+}
+
+export interface CacheResult<T> {
+  value: T;
+  status: CacheStatus;
+  backend: CacheBackendName;
+  storedAt: number;
+}
+
+export interface CacheLoadOptions {
+  // Keeps background refreshes alive after the response (ExecutionContext.waitUntil)
+  waitUntil?: (promise: Promise<unknown>) => void;
+  onRefreshError?: (error: unknown) => void;
+}
+
+// Bound memory usage per isolate
+const MEMORY_MAX_ENTRIES = 500;
+
+// Synthetic origin for Cache API keys (never fetched)
+const CACHE_API_ORIGIN = "https://response-cache.internal";
+
+const SUPABASE_CACHE_TABLE = "search_cache";
+
+/**
+ * In-memory backend (per isolate)
+ */
+export const createMemoryBackend = (maxEntries = MEMORY_MAX_ENTRIES): CacheBackend & { clear(): void } => {
+  const entries = new Map<string, CacheEntry<unknown>>();
+  return {
+    name: "memory",
+    async get<T>(key: string) {
+      const entry = entries.get(key);
+      if (!entry) {
+        return null;
+      }
+      if (Date.now() > entry.staleUntil) {
+        entries.delete(key);
+        return null;
+      }
+      return entry as CacheEntry<T>;
+    },
+    async set<T>(key: string, entry: CacheEntry<T>) {
+      entries.delete(key);
+      if (entries.size >= maxEntries) {
+        // Map keeps insertion order: drop the oldest entry
+        const oldestKey = entries.keys().next().value;
+        if (oldestKey !== undefined) {
+          entries.delete(oldestKey);
+        }
+      }
+      entries.set(key, entry);
+    },
+    async delete(key: string) {
+      entries.delete(key);
+    },
+    clear() {
+      entries.clear();
+    },
+  };
+};
+
+/**
+ * Cloudflare Cache API backend
+ * The entry is stored as a JSON response kept until staleUntil
+ */
+export const createCacheApiBackend = (cache: Cache): CacheBackend => {
+  const toRequest = (key: string) => new Request(`${CACHE_API_ORIGIN}/${encodeURIComponent(key)}`);
+  return {
+    name: "cache-api",
+    async get<T>(key: string) {
+      const response = await cache.match(toRequest(key));
+      if (!response) {
+        return null;
+      }
+      const entry = (await response.json()) as CacheEntry<T>;
+      return Date.now() > entry.staleUntil ? null : entry;
+    },
+    async set<T>(key: string, entry: CacheEntry<T>) {
+      const maxAge = Math.max(1, Math.ceil((entry.staleUntil - Date.now()) / 1000));
+      await cache.put(
+        toRequest(key),
+        new Response(JSON.stringify(entry), {
+          headers: { "Content-Type": "application/json", "Cache-Control": `max-age=${maxAge}` },
+        })
+      );
+    },
+    async delete(key: string) {
+      await cache.delete(toRequest(key));
+    },
+  };
+};
+
+/**
+ * Workers KV backend (KV expirations are at least 60 seconds)
+ */
+export const createKvBackend = (kv: KVNamespace): CacheBackend => ({
+  name: "kv",
+  async get<T>(key: string) {
+    const entry = await kv.get<CacheEntry<T>>(key, "json");
+    return entry && Date.now() <= entry.staleUntil ? entry : null;
+  },
+  async set<T>(key: string, entry: CacheEntry<T>) {
+    const expirationTtl = Math.max(60, Math.ceil((entry.staleUntil - Date.now()) / 1000));
+    await kv.put(key, JSON.stringify(entry), { expirationTtl });
+  },
+  async delete(key: string) {
+    await kv.delete(key);
+  },
+});
+
+/**
+ * Supabase table backend: search_cache (key, expires_at, response_json)
+ * expires_at is staleUntil, so the edge function's cleanup also applies
+ */
+export const createSupabaseBackend = (env: Env): CacheBackend => ({
+  name: "supabase",
+  async get<T>(key: string) {
+    const { data, error } = await createServiceClient(env)
+      .from(SUPABASE_CACHE_TABLE)
+      .select("response_json")
+      .eq("key", key)
+      .gt("expires_at", new Date().toISOString())
+      .maybeSingle();
+    if (error) {
+      throw new Error(`Failed to read ${SUPABASE_CACHE_TABLE}: ${error.message}`);
+    }
+    return (data?.response_json as CacheEntry<T> | undefined) ?? null;
+  },
+  async set<T>(key: string, entry: CacheEntry<T>) {
+    const { error } = await createServiceClient(env).from(SUPABASE_CACHE_TABLE).upsert({
+      key,
+      expires_at: new Date(entry.staleUntil).toISOString(),
+      response_json: entry,
+    });
+    if (error) {
+      throw new Error(`Failed to write ${SUPABASE_CACHE_TABLE}: ${error.message}`);
+    }
+  },
+  async delete(key: string) {
+    await createServiceClient(env).from(SUPABASE_CACHE_TABLE).delete().eq("key", key);
+  },
+});
+
+const memoryBackend = createMemoryBackend();
+
+/**
+ * Backend selected by CACHE_BACKEND
+ * Falls back to memory when the Cache API or the KV binding is unavailable
+ */
+export const resolveCacheBackend = (env: Env): CacheBackend => {
+  switch (env.CACHE_BACKEND) {
+    case "cache-api":
+      return typeof caches !== "undefined" ? createCacheApiBackend(caches.default) : memoryBackend;
+    case "kv":
+      return env.RESPONSE_CACHE_KV ? createKvBackend(env.RESPONSE_CACHE_KV) : memoryBackend;
+    case "supabase":
+      return env.SUPABASE_URL && env.SUPABASE_SERVICE_ROLE_KEY ? createSupabaseBackend(env) : memoryBackend;
+    default:
+      return memoryBackend;
+  }
+};
+
+// In-flight loads per isolate, shared by identical concurrent requests
+const inFlight = new Map<string, Promise<CacheEntry<unknown>>>();
+
+const load = <T>(
+  backend: CacheBackend,
+  key: string,
+  policy: CachePolicy,
+  loader: () => Promise<T>
+): Promise<CacheEntry<T>> => {
+  const flightKey = `${backend.name}:${key}`;
+  const pending = inFlight.get(flightKey);
+  if (pending) {
+    return pending as Promise<CacheEntry<T>>;
+  }
+
+  const promise = (async () => {
+    const value = await loader();
+    const storedAt = Date.now();
+    const entry: CacheEntry<T> = {
+      value,
+      storedAt,
+      freshUntil: storedAt + policy.freshMs,
+      staleUntil: storedAt + policy.freshMs + policy.staleMs,
+    };
+    // A failing cache write never fails the request
+    await backend.set(key, entry).catch(() => undefined);
+    return entry;
+  })().finally(() => inFlight.delete(flightKey));
+
+  inFlight.set(flightKey, promise);
+  return promise;
+};
+
+/**
+ * Read through the cache
+ * Fresh → HIT; stale → STALE + background refresh; none → MISS (coalesced load)
+ * A backend read failure is treated as a miss; loader errors propagate on MISS
+ */
+export const cachedLoad = async <T>(
+  backend: CacheBackend,
+  policy: CachePolicy,
+  key: string,
+  loader: () => Promise<T>,
+  options: CacheLoadOptions = {}
+): Promise<CacheResult<T>> => {
+  const namespacedKey = `${policy.namespace}:${key}`;
+  const entry = await backend.get<T>(namespacedKey).catch(() => null);
+  const now = Date.now();
+
+  if (entry && now <= entry.freshUntil) {
+    return { value: entry.value, status: "HIT", backend: backend.name, storedAt: entry.storedAt };
+  }
+
+  if (entry) {
+    const refresh = load(backend, namespacedKey, policy, loader).catch((error) => {
+      options.onRefreshError?.(error);
+    });
+    options.waitUntil?.(refresh);
+    return { value: entry.value, status: "STALE", backend: backend.name, storedAt: entry.storedAt };
+  }
+
+  const loaded = await load(backend, namespacedKey, policy, loader);
+  return { value: loaded.value, status: "MISS", backend: backend.name, storedAt: loaded.storedAt };
+};
+
+/**
+ * Hit/miss response headers
+ */
+export const cacheHeaders = (result: CacheResult<unknown>): Record<string, string> => ({
+  "X-Cache": result.status,
+  "X-Cache-Backend": result.backend,
+  Age: String(Math.max(0, Math.floor((Date.now() - result.storedAt) / 1000))),
+});
+
+/**
+ * Overall status of several loads: MISS if any missed, else STALE if any was stale
+ */
+export const combineCacheStatus = (statuses: CacheStatus[]): CacheStatus =>
+  statuses.includes("MISS") ? "MISS" : statuses.includes("STALE") ? "STALE" : "HIT";
+
+/**
+ * ExecutionContext.waitUntil when running in a Worker (undefined in tests)
+ */
+export const waitUntilFrom = (c: {
+  executionCtx: { waitUntil(promise: Promise<unknown>): void };
+}): ((promise: Promise<unknown>) => void) | undefined => {
+  try {
+    const executionCtx = c.executionCtx;
+    return (promise) => executionCtx.waitUntil(promise);
+  } catch {
+    // Hono throws when no ExecutionContext was passed
+    return undefined;
+  }
+};
+
+/**
+ * Deterministic cache key: object keys sorted recursively, undefined dropped
+ */
+export const stableCacheKey = (value: unknown): string =>
+  JSON.stringify(value, (_key, nested) =>
+    nested && typeof nested === "object" && !Array.isArray(nested)
+      ? Object.fromEntries(
+          Object.keys(nested)
+            .sort()
+            .map((name) => [name, (nested as Record<string, unknown>)[name]])
+        )
+      : nested
+  );
+
+/**
+ * Clear the in-memory backend and in-flight loads (used by tests)
+ */
+export function clearResponseCache(): void {
+  memoryBackend.clear();
+  inFlight.clear();
+}
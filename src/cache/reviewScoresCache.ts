@@ -0,0 +1,99 @@
+/**
+ * In-memory cache for per-hotel review scores with TTL and stale fallback
+ *
+ * Cache lifetime: 15 minutes (moderation clears the cache of the isolate
+ * that handled it, other isolates pick new scores up on expiry).
+ */
+
+import type { Env } from "../types/env";
+import { createServiceClient } from "../clients/supabaseClient";
+import type { Logger } from "../utils/logger";
+import { toHotelReviewScores, type HotelReviewScores, type HotelReviewStatsRow } from "../utils/reviews";
+
+interface ReviewScoresCacheEntry {
+  scores: Map<number, HotelReviewScores>;
+  expiresAt: number; // Date.now() + TTL
+}
+
+// Cache TTL: 15 minutes
+const CACHE_TTL_MS = 15 * 60 * 1000;
+
+// hotel_review_stats rows read per request (one row per reviewed hotel)
+const STATS_PAGE_SIZE = 1000;
+
+let cachedEntry: ReviewScoresCacheEntry | null = null;
+
+/**
+ * Get cached review scores if available
+ * @returns Scores by hotel ID with freshness indicator, or null if no cache exists
+ */
+export function getCachedReviewScores(): { scores: Map<number, HotelReviewScores>; stale: boolean } | null {
+  if (!cachedEntry) {
+    return null;
+  }
+
+  return {
+    scores: cachedEntry.scores,
+    stale: Date.now() > cachedEntry.expiresAt,
+  };
+}
+
+/**
+ * Store review scores with a new TTL
+ */
+export function setCachedReviewScores(scores: Map<number, HotelReviewScores>): void {
+  cachedEntry = {
+    scores,
+    expiresAt: Date.now() + CACHE_TTL_MS,
+  };
+}
+
+/**
+ * Clear the review scores cache (after moderation, and in tests)
+ */
+export function clearReviewScoresCache(): void {
+  cachedEntry = null;
+}
+
+/**
+ * Load the review scores of every reviewed hotel
+ * A failing lookup falls back to the previously cached scores (or none)
+ */
+export async function loadReviewScores(env: Env, logger: Logger): Promise<Map<number, HotelReviewScores>> {
+  const cached = getCachedReviewScores();
+  if (cached && !cached.stale) {
+    return cached.scores;
+  }
+
+  try {
+    const supabase = createServiceClient(env);
+    const scores = new Map<number, HotelReviewScores>();
+
+    for (let from = 0; ; from += STATS_PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from("hotel_review_stats")
+        .select("*")
+        .order("hotel_id")
+        .range(from, from + STATS_PAGE_SIZE - 1);
+
+      if (error || !Array.isArray(data)) {
+        throw new Error(error?.message ?? "Unexpected response");
+      }
+
+      for (const row of data as HotelReviewStatsRow[]) {
+        scores.set(row.hotel_id, toHotelReviewScores(row));
+      }
+      if (data.length < STATS_PAGE_SIZE) {
+        break;
+      }
+    }
+
+    setCachedReviewScores(scores);
+    return scores;
+  } catch (error) {
+    logger.warn("Review scores lookup failed, using cached scores", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return cached?.scores ?? new Map();
+  }
+}
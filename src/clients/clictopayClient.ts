@@ -1,6 +1,6 @@
 /**
  * ClicToPay REST API Client
- * Handles pre-authorization, capture (deposit), reverse, and order status operations
+ * Handles pre-authorization, capture (deposit), reverse, refund, and order status operations
  */
 
 import type {
@@ -13,6 +13,8 @@ import type {
   ClicToPayDepositResponse,
   ClicToPayReverseRequest,
   ClicToPayReverseResponse,
+  ClicToPayRefundRequest,
+  ClicToPayRefundResponse,
   ClicToPayCallbackPayload,
 } from "../types/clictopay";
 import { ExternalServiceError } from "../middleware/errorHandler";
@@ -218,7 +220,17 @@ export const getOrderStatus = async (
 export const deposit = async (
   credentials: ClicToPayCredentials,
   request: ClicToPayDepositRequest,
+  testMode = false,
 ): Promise<ClicToPayDepositResponse> => {
+  if (testMode) {
+    return {
+      success: true,
+      orderId: request.orderId,
+      depositedAmount: request.amount,
+      depositedDate: new Date().toISOString(),
+    };
+  }
+
   const response = await clicToPayRequest<Record<string, unknown>>(
     credentials,
     "deposit.do",
@@ -244,7 +256,17 @@ export const deposit = async (
 export const reverse = async (
   credentials: ClicToPayCredentials,
   request: ClicToPayReverseRequest,
+  testMode = false,
 ): Promise<ClicToPayReverseResponse> => {
+  if (testMode) {
+    return {
+      success: true,
+      orderId: request.orderId,
+      reversedAmount: 0,
+      reversedDate: new Date().toISOString(),
+    };
+  }
+
   const response = await clicToPayRequest<Record<string, unknown>>(
     credentials,
     "reverse.do",
@@ -262,6 +284,42 @@ export const reverse = async (
   };
 };
 
+/**
+ * Refund a deposited (captured) amount
+ * Returns all or part of the captured funds to the customer
+ */
+export const refund = async (
+  credentials: ClicToPayCredentials,
+  request: ClicToPayRefundRequest,
+  testMode = false,
+): Promise<ClicToPayRefundResponse> => {
+  if (testMode) {
+    return {
+      success: true,
+      orderId: request.orderId,
+      refundedAmount: request.amount,
+      refundedDate: new Date().toISOString(),
+    };
+  }
+
+  const response = await clicToPayRequest<Record<string, unknown>>(
+    credentials,
+    "refund.do",
+    {
+      orderId: request.orderId,
+      amount: request.amount,
+    },
+  );
+
+  return {
+    success: true,
+    orderId: request.orderId,
+    refundedAmount: Number(response.refundedAmount || request.amount),
+    refundedDate: String(response.refundedDate || new Date().toISOString()),
+    ...response,
+  };
+};
+
 /**
  * Create ClicToPay client with credentials
  */
@@ -274,9 +332,28 @@ export const createClicToPayClient = (
       registerPreAuth(credentials, request, testMode),
     getOrderStatus: (request: ClicToPayOrderStatusRequest) =>
       getOrderStatus(credentials, request),
-    deposit: (request: ClicToPayDepositRequest) => deposit(credentials, request),
-    reverse: (request: ClicToPayReverseRequest) => reverse(credentials, request),
+    deposit: (request: ClicToPayDepositRequest) => deposit(credentials, request, testMode),
+    reverse: (request: ClicToPayReverseRequest) => reverse(credentials, request, testMode),
+    refund: (request: ClicToPayRefundRequest) => refund(credentials, request, testMode),
     verifyCallback: (payload: ClicToPayCallbackPayload) =>
       verifyCallbackSignature(payload, credentials.secret),
   };
 };
+
+/**
+ * ClicToPay client for the Worker environment
+ * PAYMENT_TEST_MODE=true uses placeholder credentials and mock responses, so
+ * production secrets are never exposed in test mode
+ */
+export const createClicToPayClientFromEnv = (env: {
+  PAYMENT_TEST_MODE?: string;
+  CLICTOPAY_USERNAME: string;
+  CLICTOPAY_PASSWORD: string;
+  CLICTOPAY_SECRET: string;
+}) => {
+  const testMode = env.PAYMENT_TEST_MODE === "true";
+  const credentials = testMode
+    ? { username: "test-mode", password: "test-mode", secret: "test-mode" }
+    : { username: env.CLICTOPAY_USERNAME, password: env.CLICTOPAY_PASSWORD, secret: env.CLICTOPAY_SECRET };
+  return { testMode, client: createClicToPayClient(credentials, testMode) };
+};
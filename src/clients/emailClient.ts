@@ -0,0 +1,77 @@
+/**
+ * Transactional email client
+ * Sends plain-text emails through an HTTP email API (Resend-compatible:
+ * POST { from, to, subject, text } with a bearer API key)
+ */
+
+import type { Env } from "../types/env";
+import { ExternalServiceError } from "../middleware/errorHandler";
+
+const DEFAULT_EMAIL_API_URL = "https://api.resend.com/emails";
+
+// Request timeout
+const REQUEST_TIMEOUT_MS = 15000;
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+/**
+ * Whether an email sender is configured (EMAIL_API_KEY and EMAIL_FROM)
+ */
+export const isEmailConfigured = (env: Env): boolean => !!env.EMAIL_API_KEY && !!env.EMAIL_FROM;
+
+/**
+ * Send one email
+ * @returns provider message ID (null when the provider returns none)
+ * @throws ExternalServiceError when the sender is not configured, rejects the
+ * message or does not answer in time
+ */
+export const sendEmail = async (env: Env, message: EmailMessage): Promise<string | null> => {
+  if (!isEmailConfigured(env)) {
+    throw new ExternalServiceError("Email sender is not configured", "Email");
+  }
+
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+
+  try {
+    const response = await fetch(env.EMAIL_API_URL || DEFAULT_EMAIL_API_URL, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${env.EMAIL_API_KEY}`,
+        "Content-Type": "application/json",
+        Accept: "application/json",
+      },
+      body: JSON.stringify({
+        from: env.EMAIL_FROM,
+        to: [message.to],
+        subject: message.subject,
+        text: message.text,
+      }),
+      signal: controller.signal,
+    });
+
+    const responseText = await response.text();
+
+    if (!response.ok) {
+      throw new ExternalServiceError(`Email API error ${response.status}: ${responseText.slice(0, 400)}`, "Email");
+    }
+
+    try {
+      const data = JSON.parse(responseText) as { id?: unknown };
+      return typeof data.id === "string" ? data.id : null;
+    } catch {
+      return null;
+    }
+  } catch (error) {
+    if (error instanceof Error && error.name === "AbortError") {
+      throw new ExternalServiceError(`Email API timeout after ${REQUEST_TIMEOUT_MS}ms`, "Email");
+    }
+    throw error;
+  } finally {
+    clearTimeout(timeoutId);
+  }
+};
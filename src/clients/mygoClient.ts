@@ -11,6 +11,7 @@
  */
 
 import { parseSimpleXml, SimpleXMLElement } from '../utils/xml';
+import { extractOccupancyLimits } from '../utils/occupancyPolicy';
 import { ValidationError } from '../middleware/errorHandler';
 import type {
   MyGoCredential,
@@ -22,6 +23,14 @@ import type {
   MyGoRoomResult,
   MyGoBookingParams,
   MyGoBookingResponse,
+  MyGoHotelDetailParams,
+  MyGoHotelDetailResponse,
+  MyGoHotelCancellationPolicyParams,
+  MyGoBookingCancellationParams,
+  MyGoBookingCancellationResponse,
+  MyGoBookingListParams,
+  MyGoBookingListResponse,
+  MyGoBookingListItem,
 } from '../types/mygo';
 
 const MYGO_BASE_URL = "https://admin.mygo.co/api/hotel";
@@ -845,7 +854,7 @@ export const listCurrencies = async (
 // CreditCheck - Get remaining deposit balance
 export const creditCheck = async (
   credential: MyGoCredential,
-  params: MyGoJsonRequest = {}, // Optional additional parameters
+  _params: MyGoJsonRequest = {}, // Optional additional parameters
 ): Promise<{ RemainingDeposit: number; Currency: string }> => {
   const response = await myGoPostJson<{ RemainingDeposit: number; Currency: string }>(
     "CreditCheck",
@@ -864,6 +873,87 @@ export const hotelDetail = async (
   );
 };
 
+const toOptionalString = (value: unknown): string | undefined => {
+  if (typeof value === "number") {
+    return String(value);
+  }
+  return typeof value === "string" && value.trim() !== "" ? value : undefined;
+};
+
+// Facilities/images come either as strings or as objects with a label/url field
+const toStringList = (value: unknown, keys: string[]): string[] | undefined => {
+  if (!Array.isArray(value)) {
+    return undefined;
+  }
+  const list = value
+    .map((item) => {
+      if (typeof item === "string") {
+        return item;
+      }
+      if (typeof item === "object" && item !== null) {
+        const record = item as Record<string, unknown>;
+        const key = keys.find((candidate) => typeof record[candidate] === "string");
+        return key ? String(record[key]) : undefined;
+      }
+      return undefined;
+    })
+    .filter((item): item is string => !!item && item.trim() !== "");
+  return list;
+};
+
+// HotelDetail - normalized static content of one hotel (null when myGO returns no hotel)
+export const getHotelDetail = async (
+  credential: MyGoCredential,
+  params: MyGoHotelDetailParams & { language?: string },
+): Promise<MyGoHotelDetailResponse | null> => {
+  const data = await hotelDetail(credential, {
+    HotelId: params.hotelId,
+    ...(params.currency ? { Currency: params.currency } : {}),
+    ...(params.language ? { Language: params.language } : {}),
+  });
+
+  const hotelData = typeof data.Hotel === "object" && data.Hotel !== null
+    ? (data.Hotel as Record<string, unknown>)
+    : null;
+  if (!hotelData) {
+    return null;
+  }
+
+  const id = Number(hotelData.Id);
+  const name = toOptionalString(hotelData.Name);
+  if (!Number.isFinite(id) || id === 0 || !name) {
+    return null;
+  }
+
+  const cityData = typeof hotelData.City === "object" && hotelData.City !== null
+    ? (hotelData.City as Record<string, unknown>)
+    : {};
+  const categoryData = typeof hotelData.Category === "object" && hotelData.Category !== null
+    ? (hotelData.Category as Record<string, unknown>)
+    : {};
+  const cityId = Number(cityData.Id ?? hotelData.CityId);
+  const star = Number(categoryData.Star ?? hotelData.Star);
+  const image = toOptionalString(hotelData.Image);
+  const album = toStringList(hotelData.Album ?? hotelData.Images, ["Url", "Image", "Src"]) ?? [];
+
+  return {
+    id,
+    name,
+    description: toOptionalString(hotelData.Description ?? hotelData.ShortDescription),
+    address: toOptionalString(hotelData.Adress ?? hotelData.Address),
+    cityId: Number.isFinite(cityId) ? cityId : 0,
+    cityName: toOptionalString(cityData.Name),
+    star: Number.isFinite(star) && star > 0 ? star : undefined,
+    categoryTitle: toOptionalString(categoryData.Title ?? hotelData.CategoryTitle),
+    images: Array.from(new Set([...(image ? [image] : []), ...album])),
+    amenities: toStringList(hotelData.Facilities, ["Title", "Name", "Label"]),
+    themes: toStringList(hotelData.Theme, ["Title", "Name"]),
+    longitude: toOptionalString(hotelData.Longitude),
+    latitude: toOptionalString(hotelData.Latitude),
+    occupancy: extractOccupancyLimits(hotelData),
+  };
+};
+
 export const hotelCancellationPolicy = async (
   credential: MyGoCredential,
   params: MyGoJsonRequest,
@@ -874,6 +964,22 @@ export const hotelCancellationPolicy = async (
   );
 };
 
+// HotelCancellationPolicy for a stay (raw response, see utils/cancellationPolicy)
+export const getHotelCancellationPolicy = async (
+  credential: MyGoCredential,
+  params: MyGoHotelCancellationPolicyParams,
+): Promise<MyGoJsonResponse> => {
+  return hotelCancellationPolicy(credential, {
+    HotelId: params.hotelId,
+    CheckIn: params.checkIn,
+    CheckOut: params.checkOut,
+    ...(params.currency ? { Currency: params.currency } : {}),
+    ...(params.rooms
+      ? { Rooms: params.rooms.map((room) => ({ Adult: room.adults, Child: room.childrenAges ?? [] })) }
+      : {}),
+  });
+};
+
 export const bookingCancellation = async (
   credential: MyGoCredential,
   params: MyGoJsonRequest,
@@ -1282,6 +1388,133 @@ export const createBooking = async (
   return response;
 };
 
+// BookingCancellation response keys (the response is loosely typed, like cancellation policies)
+const CANCELLATION_FEE_KEYS = ["CancellationFee", "Penalty", "Fee", "Fees", "Frais"];
+const CANCELLATION_REFUND_KEYS = ["RefundAmount", "Refund", "Remboursement"];
+const CANCELLATION_STATE_KEYS = ["State", "Status"];
+
+const pickValue = (record: Record<string, unknown>, keys: string[]): unknown =>
+  keys.map((key) => record[key]).find((value) => value !== undefined && value !== null && value !== "");
+
+// Quote (PreCancelled=true) or cancel a booking at myGO
+// Only the quote is retried: a cancellation whose response was lost must not be replayed blindly
+export const cancelBooking = async (
+  credential: MyGoCredential,
+  params: MyGoBookingCancellationParams,
+): Promise<MyGoBookingCancellationResponse> => {
+  const payload = buildBookingCancellationPayload(credential, {
+    Booking: params.booking,
+    PreCancelled: params.preCancelled,
+    Currency: params.currency,
+  });
+  const data = await postJson("BookingCancellation", payload, params.preCancelled ? MAX_RETRIES : 0);
+
+  if (!data || typeof data !== "object") {
+    throw new Error("Invalid BookingCancellation response: response is not an object");
+  }
+
+  const errorMessage = (data as { ErrorMessage?: { Code?: unknown; Description?: unknown } }).ErrorMessage;
+  if (errorMessage?.Code) {
+    const errorCode = String(errorMessage.Code);
+    const errorDesc = String(errorMessage.Description || '');
+    const fullErrorMessage = `MyGo BookingCancellation error ${errorCode}: ${errorDesc}`;
+
+    if (errorCode === '400' || errorCode === '400.0') {
+      throw new ValidationError(fullErrorMessage, { code: errorCode, description: errorDesc });
+    }
+
+    throw new Error(fullErrorMessage);
+  }
+
+  // Some responses wrap the result in a BookingCancellation object
+  const nested = (data as Record<string, unknown>).BookingCancellation;
+  const record = (nested && typeof nested === "object" ? nested : data) as Record<string, unknown>;
+  const fee = Number(pickValue(record, CANCELLATION_FEE_KEYS));
+  const refund = Number(pickValue(record, CANCELLATION_REFUND_KEYS));
+  const state = pickValue(record, CANCELLATION_STATE_KEYS);
+
+  console.log(`[MyGo BookingCancellation] Booking ${params.booking}: preCancelled=${params.preCancelled}, fee=${fee}`);
+
+  return {
+    ...record,
+    success: true,
+    cancellationFee: Number.isFinite(fee) ? fee : undefined,
+    refundAmount: Number.isFinite(refund) ? refund : undefined,
+    state: state !== undefined ? String(state) : undefined,
+  };
+};
+
+// BookingList response keys (same loose typing as BookingCancellation)
+const BOOKING_LIST_KEYS = ["BookingList", "Bookings", "Booking"];
+const BOOKING_LIST_ID_KEYS = ["Id", "BookingId", "Booking"];
+const BOOKING_LIST_TOTAL_KEYS = ["TotalCount", "Total", "Count"];
+
+const toBookingListItem = (record: Record<string, unknown>): MyGoBookingListItem | null => {
+  const bookingId = Number(pickValue(record, BOOKING_LIST_ID_KEYS));
+  const state = pickValue(record, CANCELLATION_STATE_KEYS);
+  if (!Number.isInteger(bookingId) || bookingId <= 0 || state === undefined) {
+    return null;
+  }
+  const totalPrice = Number(pickValue(record, ["TotalPrice", "Price", "Total"]));
+  return {
+    ...record,
+    bookingId,
+    state: String(state),
+    hotelName: toOptionalString(pickValue(record, ["HotelName", "Hotel"])),
+    checkIn: toOptionalString(record.CheckIn),
+    checkOut: toOptionalString(record.CheckOut),
+    totalPrice: Number.isFinite(totalPrice) ? totalPrice : undefined,
+    currency: toOptionalString(record.Currency),
+  };
+};
+
+// List the agency bookings of a check-in/check-out window at myGO (one page)
+// Entries without a booking id or state are skipped
+export const listBookings = async (
+  credential: MyGoCredential,
+  params: MyGoBookingListParams,
+): Promise<MyGoBookingListResponse> => {
+  const page = params.page ?? 1;
+  const countPerPage = params.countPerPage ?? 50;
+  const payload = buildBookingListPayload(credential, {
+    ...(params.fromCheckIn ? { FromCheckIn: params.fromCheckIn } : {}),
+    ...(params.toCheckIn ? { ToCheckIn: params.toCheckIn } : {}),
+    ...(params.fromCheckOut ? { FromCheckOut: params.fromCheckOut } : {}),
+    ...(params.toCheckOut ? { ToCheckOut: params.toCheckOut } : {}),
+    Page: page,
+    CountPerPage: countPerPage,
+  });
+  const data = await postJson("BookingList", payload);
+
+  if (!data || typeof data !== "object") {
+    throw new Error("Invalid BookingList response: response is not an object");
+  }
+
+  const errorMessage = (data as { ErrorMessage?: { Code?: unknown; Description?: unknown } }).ErrorMessage;
+  if (errorMessage?.Code) {
+    throw new Error(`MyGo BookingList error ${String(errorMessage.Code)}: ${String(errorMessage.Description || '')}`);
+  }
+
+  const record = data as Record<string, unknown>;
+  const list = Array.isArray(data) ? data : pickValue(record, BOOKING_LIST_KEYS);
+  if (!Array.isArray(list)) {
+    throw new Error("Missing BookingList in response");
+  }
+
+  const bookings = list
+    .filter((entry): entry is Record<string, unknown> => Boolean(entry) && typeof entry === "object")
+    .map(toBookingListItem)
+    .filter((entry): entry is MyGoBookingListItem => entry !== null);
+  const totalCount = Number(pickValue(record, BOOKING_LIST_TOTAL_KEYS));
+
+  return {
+    bookings,
+    totalCount: Number.isFinite(totalCount) ? totalCount : bookings.length,
+    page,
+    countPerPage,
+  };
+};
+
 // Filter out non-bookable results
 export const filterBookableHotels = (
   hotels: MyGoHotelSearchResult[],
@@ -1333,3 +1566,28 @@ export const filterVisibleHotels = (
     };
   });
 };
+
+// Normalized room fields exposed to clients (raw supplier fields and tokens are dropped)
+const toTokenFreeRoom = (room: MyGoRoomResult): MyGoRoomResult => ({
+  onRequest: room.onRequest,
+  roomId: room.roomId,
+  roomName: room.roomName,
+  price: room.price,
+  basePrice: room.basePrice,
+  priceWithMarkup: room.priceWithMarkup,
+  boardCode: room.boardCode,
+  boardName: room.boardName,
+  adults: room.adults,
+  childrenAges: room.childrenAges,
+  cancellationPolicy: room.cancellationPolicy,
+});
+
+// Strip booking tokens from search results before they leave the server
+export const toTokenFreeHotels = (
+  hotels: MyGoHotelSearchResult[],
+): MyGoHotelSearchResult[] => {
+  return hotels.map((hotel) => ({
+    ...hotel,
+    rooms: hotel.rooms.map(toTokenFreeRoom),
+  }));
+};
@@ -0,0 +1,46 @@
+/**
+ * Alternative spellings for Tunisian cities and regions
+ *
+ * French spellings (as used by myGO), Arabic-derived Latin transliterations
+ * and Arabic script names. Keys are lowercase, accent-free canonical names;
+ * autocomplete matches a place when the query matches its name or any alias.
+ */
+
+export const PLACE_ALIASES: Record<string, string[]> = {
+  tunis: ["tounes", "tunes", "تونس"],
+  sousse: ["susa", "soussa", "susah", "سوسة"],
+  hammamet: ["hamamet", "el hammamet", "al hammamat", "الحمامات"],
+  djerba: ["jerba", "jarba", "djerba houmt souk", "جربة"],
+  monastir: ["el monastir", "al munastir", "المنستير"],
+  sfax: ["safaqis", "sfakes", "صفاقس"],
+  tozeur: ["tuzer", "tawzar", "توزر"],
+  tabarka: ["tbarka", "طبرقة"],
+  nabeul: ["nabul", "nabel", "نابل"],
+  mahdia: ["el mahdia", "al mahdiyah", "mehdia", "المهدية"],
+  kairouan: ["kairawan", "qayrawan", "kerouan", "القيروان"],
+  bizerte: ["bizerta", "binzart", "benzart", "بنزرت"],
+  gammarth: ["gamart", "qamart", "قمرت"],
+  medenine: ["madanin", "mednine", "مدنين"],
+  jendouba: ["jundubah", "djendouba", "جندوبة"],
+  zarzis: ["jarjis", "جرجيس"],
+  gabes: ["qabis", "gabis", "قابس"],
+  douz: ["douz", "دوز"],
+  tataouine: ["tatawin", "تطاوين"],
+  "port el kantaoui": ["el kantaoui", "kantaoui", "القنطاوي"],
+  "la marsa": ["marsa", "el marsa", "المرسى"],
+  kelibia: ["qlibia", "klibia", "قليبية"],
+  "ain draham": ["ain drahem", "عين دراهم"],
+  "sidi bou said": ["sidi bousaid", "سيدي بوسعيد"],
+  nefta: ["نفطة"],
+  kebili: ["qibili", "قبلي"],
+  gafsa: ["قفصة"],
+  beja: ["baja", "باجة"],
+  kasserine: ["al qasrayn", "القصرين"],
+  siliana: ["سليانة"],
+  zaghouan: ["zaghwan", "زغوان"],
+  ariana: ["aryana", "أريانة"],
+  "ben arous": ["بن عروس"],
+  manouba: ["mannouba", "منوبة"],
+  "sidi bouzid": ["سيدي بوزيد"],
+  "le kef": ["kef", "el kef", "al kaf", "الكاف"],
+};
@@ -9,6 +9,9 @@ import { corsMiddleware } from "./middleware/cors";
 import { requestIdMiddleware } from "./middleware/requestId";
 import { errorHandler } from "./middleware/errorHandler";
 import { extractGuestSession } from "./middleware/auth";
+import { Logger } from "./utils/logger";
+import { runPriceWatchJob } from "./jobs/priceWatchJob";
+import { runDealsJob } from "./jobs/dealsJob";
 
 // Import route handlers
 import auth from "./routes/auth";
@@ -19,6 +22,9 @@ import bookings from "./routes/bookings";
 import checkout from "./routes/checkout";
 import payments from "./routes/payments";
 import admin from "./routes/admin";
+import priceWatches from "./routes/priceWatches";
+import reviews from "./routes/reviews";
+import deals from "./routes/deals";
 import version from "./routes/version";
 
 // Create Hono app
@@ -48,6 +54,9 @@ app.route("/hotels", hotels);
 app.route("/bookings", bookings);
 app.route("/checkout", checkout);
 app.route("/payments", payments);
+app.route("/price-watches", priceWatches);
+app.route("/reviews", reviews);
+app.route("/deals", deals);
 app.route("/api/admin", admin);
 app.route("/version", version);
 
@@ -63,5 +72,41 @@ app.notFound((c) => {
   );
 });
 
+// Cron expression of the deals job (wrangler.toml [triggers]); other
+// triggers run the price watch job
+const DEALS_CRON = "15 */6 * * *";
+
+/**
+ * Cron trigger handler (wrangler.toml [triggers])
+ * Re-checks price watches or samples deal prices; failures are logged, the
+ * next run retries
+ */
+const scheduled = async (controller: ScheduledController, env: Env, ctx: ExecutionContext): Promise<void> => {
+  const logger = new Logger({ requestId: `cron-${controller.scheduledTime}`, cron: controller.cron });
+  const now = new Date(controller.scheduledTime);
+
+  if (controller.cron === DEALS_CRON) {
+    ctx.waitUntil(
+      runDealsJob(env, logger, { now }).catch((error) => {
+        logger.error("Deals job failed", {
+          error: error instanceof Error ? error.message : String(error),
+        });
+      })
+    );
+    return;
+  }
+
+  ctx.waitUntil(
+    runPriceWatchJob(env, logger, { now }).catch((error) => {
+      logger.error("Price watch job failed", {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    })
+  );
+};
+
 // Export for Cloudflare Workers
-export default app;
+export default {
+  fetch: app.fetch,
+  scheduled,
+} satisfies ExportedHandler<Env>;
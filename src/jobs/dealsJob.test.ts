@@ -0,0 +1,150 @@
+/**
+ * Tests for the scheduled deals sampling job
+ */
+
+import { describe, it, expect, vi, afterEach } from "vitest";
+import type { Env } from "../types/env";
+import { Logger } from "../utils/logger";
+import { clearBoardMappingsCache } from "../cache/boardMappingsCache";
+import { clearPricingRulesCache } from "../cache/pricingRulesCache";
+import { runDealsJob } from "./dealsJob";
+
+const mockEnv = {
+  MYGO_LOGIN: "test-login",
+  MYGO_PASSWORD: "test-password",
+  SUPABASE_URL: "https://test.supabase.co",
+  SUPABASE_SERVICE_ROLE_KEY: "test-service-key",
+  DEALS_CITY_IDS: "10, 20",
+} as Env;
+
+const mygoSearchResponse = {
+  HotelSearch: [
+    {
+      Token: "search-token",
+      Hotel: { Id: 101, Name: "Hotel Sousse Palace", City: { Id: 10, Name: "Sousse" } },
+      Price: {
+        Boarding: [
+          {
+            Code: "BB",
+            Name: "Logement petit déjeuner",
+            Pax: [
+              {
+                Adult: 2,
+                Rooms: [
+                  { Id: 1, Name: "Double", Price: 250, StopReservation: false },
+                  { Id: 2, Name: "Double vue mer", Price: 290, StopReservation: false },
+                ],
+              },
+            ],
+          },
+        ],
+      },
+    },
+  ],
+};
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { "Content-Type": "application/json" } });
+
+const urlOf = (input: RequestInfo | URL) =>
+  typeof input === "string" ? input : input instanceof URL ? input.href : input.url;
+
+describe("runDealsJob", () => {
+  afterEach(() => {
+    clearBoardMappingsCache();
+    clearPricingRulesCache();
+    vi.restoreAllMocks();
+  });
+
+  it("should sample the least recently sampled stays and keep the lowest price per board", async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    const writes: Array<{ method: string; url: string; body: any }> = [];
+    const fetchSpy = vi.spyOn(globalThis, "fetch").mockImplementation(async (input, init) => {
+      const url = urlOf(input);
+      const method = init?.method ?? "GET";
+      if (url.endsWith("/ListBoarding")) {
+        return jsonResponse({ ListBoarding: [] });
+      }
+      if (url.includes("/rest/v1/deal_sampled_stays")) {
+        return jsonResponse([
+          { city_id: 10, check_in: "2026-07-03", check_out: "2026-07-05", sampled_at: "2026-06-30T00:15:00Z" },
+        ]);
+      }
+      if (url.includes("test.supabase.co")) {
+        if (method !== "GET") {
+          writes.push({ method, url, body: init?.body ? JSON.parse(String(init.body)) : null });
+        }
+        return method === "DELETE" && url.includes("check_in=lt") ? jsonResponse([{ id: 1 }]) : jsonResponse([]);
+      }
+      return jsonResponse(mygoSearchResponse);
+    });
+
+    // Tuesday: weekends from 2026-07-03
+    const result = await runDealsJob(mockEnv, new Logger(), {
+      now: new Date("2026-06-30T06:15:00Z"),
+      maxSearches: 2,
+    });
+
+    expect(result).toEqual({
+      removed: 1,
+      cities: 2,
+      searches: 2,
+      failedSearches: 0,
+      deferredSearches: 6,
+      prices: 2,
+    });
+    const searches = fetchSpy.mock.calls
+      .filter(([input]) => urlOf(input).endsWith("/HotelSearch"))
+      .map(([, init]) => JSON.parse(String(init?.body)).SearchDetails);
+    // City 10 was sampled for the first weekend already
+    expect(searches.map((search) => [search.City, search.BookingDetails.CheckIn])).toEqual([
+      [20, "2026-07-03"],
+      [10, "2026-07-10"],
+    ]);
+    expect(searches[0].Rooms).toEqual([{ Adult: 2, Child: [] }]);
+
+    const upserts = writes.filter((write) => write.method === "POST" && write.url.includes("/deal_prices"));
+    expect(upserts).toHaveLength(2);
+    expect(upserts[0].url).toContain("on_conflict=hotel_id%2Cboard_type%2Ccheck_in%2Ccheck_out");
+    expect(upserts.find((write) => write.body[0].city_id === 20)?.body).toEqual([
+      expect.objectContaining({
+        city_id: 20,
+        hotel_id: 101,
+        board_type: "BB",
+        check_in: "2026-07-03",
+        check_out: "2026-07-05",
+        price: 250,
+        price_per_night: 125,
+        room_id: 1,
+        sampled_at: "2026-06-30T06:15:00.000Z",
+      }),
+    ]);
+    const prunes = writes.filter((write) => write.method === "DELETE" && write.url.includes("sampled_at=lt."));
+    expect(prunes.map((write) => new URL(write.url).searchParams.get("city_id")).sort()).toEqual(["eq.10", "eq.20"]);
+  });
+
+  it("should keep previous prices when a search fails", async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    const writes: string[] = [];
+    vi.spyOn(globalThis, "fetch").mockImplementation(async (input, init) => {
+      const url = urlOf(input);
+      const method = init?.method ?? "GET";
+      if (url.includes("test.supabase.co")) {
+        if (method !== "GET") {
+          writes.push(`${method} ${url}`);
+        }
+        return jsonResponse([]);
+      }
+      return jsonResponse({ ErrorMessage: { Code: "500", Description: "Service unavailable" } });
+    });
+
+    const result = await runDealsJob(mockEnv, new Logger(), {
+      now: new Date("2026-06-30T06:15:00Z"),
+      maxSearches: 1,
+    });
+
+    expect(result).toMatchObject({ searches: 1, failedSearches: 1, prices: 0 });
+    expect(writes.filter((write) => write.includes("sampled_at=lt."))).toEqual([]);
+  });
+});
@@ -0,0 +1,256 @@
+/**
+ * Scheduled deals sampling job
+ *
+ * Runs from its own Worker cron trigger:
+ * 1. Removes sampled prices of stays that have started
+ * 2. Picks popular cities (DEALS_CITY_IDS, else the cities with the most
+ *    inventory hotels) and the upcoming weekends (see utils/deals)
+ * 3. Re-runs at most DEALS_MAX_SEARCHES_PER_RUN myGO searches, least recently
+ *    sampled city/weekend first; other stays wait for the next run
+ * 4. Prices results with the active pricing rules (customer prices, TND) and
+ *    keeps the lowest price per hotel and board in deal_prices
+ */
+
+import type { Env } from "../types/env";
+import type { MyGoCredential, MyGoHotelSearchResult } from "../types/mygo";
+import { searchHotels, filterVisibleHotels } from "../clients/mygoClient";
+import { createServiceClient } from "../clients/supabaseClient";
+import type { Logger } from "../utils/logger";
+import { mapWithConcurrency } from "../utils/concurrency";
+import { annotateRoomTypes } from "../utils/boardNormalization";
+import { applyPricingToHotels } from "../utils/pricingRules";
+import { DEAL_OCCUPANCY, extractDealPrices, getUpcomingWeekends, type DealStay } from "../utils/deals";
+import { loadPricingRules } from "../cache/pricingRulesCache";
+import { loadBoardNormalizer } from "../cache/boardMappingsCache";
+
+// Upstream searches per run unless DEALS_MAX_SEARCHES_PER_RUN is set
+export const DEFAULT_MAX_SEARCHES_PER_RUN = 24;
+
+// Popular cities sampled when DEALS_CITY_IDS is not set
+export const DEFAULT_DEAL_CITY_COUNT = 6;
+
+// myGO searches in flight at once
+const SEARCH_CONCURRENCY = 2;
+
+const INVENTORY_PAGE_SIZE = 1000;
+
+export interface DealsJobOptions {
+  now?: Date;
+  maxSearches?: number;
+}
+
+export interface DealsJobResult {
+  removed: number;
+  cities: number;
+  searches: number;
+  failedSearches: number;
+  deferredSearches: number;
+  prices: number;
+}
+
+interface PlannedSearch {
+  cityId: number;
+  stay: DealStay;
+  sampledAt: string | null;
+}
+
+const getMyGoCredential = (env: Env): MyGoCredential => ({
+  login: env.MYGO_LOGIN,
+  password: env.MYGO_PASSWORD,
+});
+
+/**
+ * Search budget of one run (DEALS_MAX_SEARCHES_PER_RUN, positive integer)
+ */
+export const getMaxSearchesPerRun = (env: Env): number => {
+  const configured = Number(env.DEALS_MAX_SEARCHES_PER_RUN);
+  return Number.isInteger(configured) && configured > 0 ? configured : DEFAULT_MAX_SEARCHES_PER_RUN;
+};
+
+/**
+ * Configured cities (DEALS_CITY_IDS, comma-separated), invalid ids skipped
+ */
+export const getConfiguredCityIds = (env: Env): number[] => [
+  ...new Set(
+    (env.DEALS_CITY_IDS ?? "")
+      .split(",")
+      .map((value) => Number(value.trim()))
+      .filter((id) => Number.isInteger(id) && id > 0)
+  ),
+];
+
+/**
+ * Cities with the most inventory hotels
+ */
+const loadPopularCityIds = async (supabase: ReturnType<typeof createServiceClient>): Promise<number[]> => {
+  const hotelCounts = new Map<number, number>();
+  for (let from = 0; ; from += INVENTORY_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from("inventory_hotels")
+      .select("city_id")
+      .not("city_id", "is", null)
+      .order("id")
+      .range(from, from + INVENTORY_PAGE_SIZE - 1);
+
+    if (error) {
+      throw new Error(`Inventory hotels lookup failed: ${error.message}`);
+    }
+
+    const rows = (data ?? []) as Array<{ city_id: number }>;
+    for (const row of rows) {
+      hotelCounts.set(row.city_id, (hotelCounts.get(row.city_id) ?? 0) + 1);
+    }
+    if (rows.length < INVENTORY_PAGE_SIZE) {
+      break;
+    }
+  }
+
+  return [...hotelCounts]
+    .sort(([idA, countA], [idB, countB]) => countB - countA || idA - idB)
+    .slice(0, DEFAULT_DEAL_CITY_COUNT)
+    .map(([cityId]) => cityId);
+};
+
+/**
+ * Priced, board-annotated results of one sampling search
+ */
+const searchDealPrices = async (
+  env: Env,
+  credential: MyGoCredential,
+  search: PlannedSearch,
+  now: Date,
+  logger: Logger
+): Promise<MyGoHotelSearchResult[]> => {
+  const searchResult = await searchHotels(credential, {
+    cityId: search.cityId,
+    checkIn: search.stay.checkIn,
+    checkOut: search.stay.checkOut,
+    rooms: DEAL_OCCUPANCY,
+    currency: "TND",
+    onlyAvailable: true,
+  });
+  const [normalizer, rules] = await Promise.all([loadBoardNormalizer(env, logger), loadPricingRules(env, logger)]);
+  return applyPricingToHotels(annotateRoomTypes(filterVisibleHotels(searchResult.hotels), normalizer), rules, {
+    checkIn: search.stay.checkIn,
+    now,
+  });
+};
+
+/**
+ * Run one deals sampling pass
+ * A failing search is logged and its stay keeps its previous prices (first
+ * in line for the next run); it never fails the whole job
+ */
+export const runDealsJob = async (env: Env, logger: Logger, options: DealsJobOptions = {}): Promise<DealsJobResult> => {
+  const now = options.now ?? new Date();
+  const nowIso = now.toISOString();
+  const today = nowIso.slice(0, 10);
+  const maxSearches = options.maxSearches ?? getMaxSearchesPerRun(env);
+  const supabase = createServiceClient(env);
+
+  const { data: removedRows, error: removeError } = await supabase
+    .from("deal_prices")
+    .delete()
+    .lt("check_in", today)
+    .select("id");
+
+  if (removeError) {
+    logger.error("Failed to remove past deal prices", { error: removeError.message });
+  }
+
+  const configuredCityIds = getConfiguredCityIds(env);
+  const cityIds = configuredCityIds.length > 0 ? configuredCityIds : await loadPopularCityIds(supabase);
+
+  const { data: sampledRows, error: sampledError } = await supabase
+    .from("deal_sampled_stays")
+    .select("city_id, check_in, check_out, sampled_at")
+    .gte("check_in", today);
+
+  if (sampledError) {
+    throw new Error(`Deal samples lookup failed: ${sampledError.message}`);
+  }
+
+  const lastSampled = new Map(
+    ((sampledRows ?? []) as Array<{ city_id: number; check_in: string; check_out: string; sampled_at: string }>).map(
+      (row) => [`${row.city_id}:${row.check_in}:${row.check_out}`, row.sampled_at]
+    )
+  );
+  const weekends = getUpcomingWeekends(now);
+  // Never sampled first, then least recently sampled (sorting is stable:
+  // nearest weekend first, cities in priority order)
+  const searches: PlannedSearch[] = weekends
+    .flatMap((stay) =>
+      cityIds.map((cityId) => ({
+        cityId,
+        stay,
+        sampledAt: lastSampled.get(`${cityId}:${stay.checkIn}:${stay.checkOut}`) ?? null,
+      }))
+    )
+    .sort((a, b) => (a.sampledAt ?? "").localeCompare(b.sampledAt ?? ""));
+  const planned = searches.slice(0, maxSearches);
+  const credential = getMyGoCredential(env);
+
+  const outcomes = await mapWithConcurrency(planned, SEARCH_CONCURRENCY, async (search) => {
+    let hotels: MyGoHotelSearchResult[];
+    try {
+      hotels = await searchDealPrices(env, credential, search, now, logger);
+    } catch (searchError) {
+      logger.warn("Deals search failed", {
+        cityId: search.cityId,
+        checkIn: search.stay.checkIn,
+        error: searchError instanceof Error ? searchError.message : String(searchError),
+      });
+      return null;
+    }
+
+    const samples = extractDealPrices(hotels, search.stay);
+    if (samples.length > 0) {
+      const { error } = await supabase.from("deal_prices").upsert(
+        samples.map((sample) => ({
+          city_id: search.cityId,
+          hotel_id: sample.hotelId,
+          board_type: sample.boardType,
+          check_in: search.stay.checkIn,
+          check_out: search.stay.checkOut,
+          nights: search.stay.nights,
+          price: sample.price,
+          price_per_night: sample.pricePerNight,
+          room_id: sample.roomId,
+          room_name: sample.roomName,
+          sampled_at: nowIso,
+        })),
+        { onConflict: "hotel_id,board_type,check_in,check_out" }
+      );
+      if (error) {
+        logger.error("Failed to store deal prices", { cityId: search.cityId, error: error.message });
+        return null;
+      }
+    }
+
+    // Hotels and boards no longer offered for this stay
+    const { error: pruneError } = await supabase
+      .from("deal_prices")
+      .delete()
+      .eq("city_id", search.cityId)
+      .eq("check_in", search.stay.checkIn)
+      .eq("check_out", search.stay.checkOut)
+      .lt("sampled_at", nowIso);
+
+    if (pruneError) {
+      logger.warn("Failed to prune deal prices", { cityId: search.cityId, error: pruneError.message });
+    }
+    return samples.length;
+  });
+
+  const result: DealsJobResult = {
+    removed: removedRows?.length ?? 0,
+    cities: cityIds.length,
+    searches: planned.length,
+    failedSearches: outcomes.filter((outcome) => outcome === null).length,
+    deferredSearches: searches.length - planned.length,
+    prices: outcomes.reduce<number>((sum, outcome) => sum + (outcome ?? 0), 0),
+  };
+
+  logger.info("Deals job completed", { ...result });
+  return result;
+};
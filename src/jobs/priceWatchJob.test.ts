@@ -0,0 +1,204 @@
+/**
+ * Tests for the scheduled price watch job
+ */
+
+import { describe, it, expect, vi, afterEach } from "vitest";
+import type { Env } from "../types/env";
+import { Logger } from "../utils/logger";
+import { clearPricingRulesCache } from "../cache/pricingRulesCache";
+import { runPriceWatchJob } from "./priceWatchJob";
+
+const mockEnv = {
+  MYGO_LOGIN: "test-login",
+  MYGO_PASSWORD: "test-password",
+  SUPABASE_URL: "https://test.supabase.co",
+  SUPABASE_SERVICE_ROLE_KEY: "test-service-key",
+} as Env;
+
+const watchRow = (overrides: Record<string, unknown>) => ({
+  id: "watch-1",
+  user_id: "user-1",
+  guest_session_id: null,
+  email: null,
+  city_id: 10,
+  check_in: "2026-07-01",
+  check_out: "2026-07-05",
+  rooms: [{ adults: 2, childrenAges: [] }],
+  hotel_id: null,
+  room_id: null,
+  board_code: null,
+  target_price: null,
+  initial_price: null,
+  last_price: null,
+  last_available: null,
+  last_checked_at: null,
+  last_notified_price: null,
+  last_notified_at: null,
+  status: "active",
+  created_at: "2026-06-01T10:00:00Z",
+  ...overrides,
+});
+
+const mygoSearchResponse = {
+  HotelSearch: [
+    {
+      Token: "search-token",
+      Hotel: { Id: 101, Name: "Hotel Sousse Palace", City: { Id: 10, Name: "Sousse" } },
+      Price: {
+        Boarding: [
+          {
+            Code: "BB",
+            Name: "Logement petit déjeuner",
+            Pax: [{ Adult: 2, Rooms: [{ Id: 1, Name: "Double", Price: 250, StopReservation: false }] }],
+          },
+        ],
+      },
+    },
+  ],
+};
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { "Content-Type": "application/json" } });
+
+describe("runPriceWatchJob", () => {
+  afterEach(() => {
+    clearPricingRulesCache();
+    vi.restoreAllMocks();
+  });
+
+  it("should check watches within the search budget and queue notifications", async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    const writes: Array<{ method: string; url: string; body: any }> = [];
+    const fetchSpy = vi.spyOn(globalThis, "fetch").mockImplementation(async (input, init) => {
+      const url = typeof input === "string" ? input : input instanceof URL ? input.href : input.url;
+      const method = init?.method ?? "GET";
+      if (url.includes("/rest/v1/price_watches") && method === "GET") {
+        return jsonResponse([
+          watchRow({ id: "drop", hotel_id: 101, initial_price: "300.000", last_price: "300.000", last_available: true }),
+          watchRow({ id: "back", hotel_id: 101, room_id: 1, last_price: "260.000", last_available: false }),
+          watchRow({ id: "later", check_out: "2026-07-06" }),
+        ]);
+      }
+      if (url.includes("/rest/v1/pricing_rules")) {
+        return jsonResponse([]);
+      }
+      if (url.includes("test.supabase.co")) {
+        writes.push({ method, url, body: init?.body ? JSON.parse(String(init.body)) : null });
+        return method === "PATCH" && url.includes("check_in=lt") ? jsonResponse([{ id: "old" }]) : jsonResponse([], 201);
+      }
+      return jsonResponse(mygoSearchResponse);
+    });
+
+    const result = await runPriceWatchJob(mockEnv, new Logger(), {
+      now: new Date("2026-06-15T08:00:00Z"),
+      maxSearches: 1,
+    });
+
+    expect(result).toEqual({
+      expired: 1,
+      searches: 1,
+      failedSearches: 0,
+      deferredSearches: 1,
+      checked: 2,
+      notified: 2,
+      delivered: 0,
+      deliveryFailed: 0,
+    });
+    const searchCalls = fetchSpy.mock.calls.filter(([input]) => String(input).endsWith("/HotelSearch"));
+    expect(searchCalls).toHaveLength(1);
+    expect(JSON.parse(String(searchCalls[0][1]?.body)).SearchDetails.BookingDetails.Hotels).toEqual([101]);
+
+    const notifications = writes.filter((write) => write.url.includes("/price_watch_notifications"));
+    expect(notifications.map((write) => write.body)).toEqual([
+      expect.objectContaining({ watch_id: "drop", type: "PRICE_DROP", price: 250, previous_price: 300 }),
+      expect.objectContaining({ watch_id: "back", type: "BACK_IN_STOCK", price: 250, previous_price: 260 }),
+    ]);
+    const updates = writes.filter((write) => write.method === "PATCH" && write.url.includes("id=eq."));
+    expect(updates).toHaveLength(2);
+    expect(updates[0].body).toMatchObject({
+      last_price: 250,
+      last_available: true,
+      last_notified_price: 250,
+      last_checked_at: "2026-06-15T08:00:00.000Z",
+    });
+  });
+
+  it("should leave watches unchecked when their search fails", async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const writes: string[] = [];
+    vi.spyOn(globalThis, "fetch").mockImplementation(async (input, init) => {
+      const url = typeof input === "string" ? input : input instanceof URL ? input.href : input.url;
+      const method = init?.method ?? "GET";
+      if (url.includes("/rest/v1/price_watches") && method === "GET") {
+        return jsonResponse([watchRow({})]);
+      }
+      if (url.includes("test.supabase.co")) {
+        writes.push(`${method} ${url}`);
+        return jsonResponse([]);
+      }
+      return jsonResponse({ ErrorMessage: { Code: "500", Description: "Service unavailable" } });
+    });
+
+    const result = await runPriceWatchJob(mockEnv, new Logger(), { now: new Date("2026-06-15T08:00:00Z") });
+
+    expect(result).toMatchObject({ searches: 1, failedSearches: 1, checked: 0, notified: 0 });
+    expect(writes.filter((write) => write.includes("id=eq."))).toEqual([]);
+  });
+
+  it("should email pending notifications and mark them sent or failed", async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    const emails: any[] = [];
+    const deliveries: Array<{ url: string; body: any }> = [];
+    vi.spyOn(globalThis, "fetch").mockImplementation(async (input, init) => {
+      const url = decodeURIComponent(typeof input === "string" ? input : input instanceof URL ? input.href : input.url);
+      const method = init?.method ?? "GET";
+      if (url.startsWith("https://api.resend.com/emails")) {
+        const email = JSON.parse(String(init?.body));
+        emails.push(email);
+        return email.to[0] === "bounce@example.com"
+          ? jsonResponse({ message: "Invalid recipient" }, 422)
+          : jsonResponse({ id: `email-${emails.length}` });
+      }
+      if (url.includes("/rest/v1/price_watch_notifications") && method === "GET") {
+        const stay = { check_in: "2026-07-01", check_out: "2026-07-05" };
+        return jsonResponse([
+          { id: 1, user_id: null, email: "guest@example.com", type: "PRICE_DROP", price: "240.000", previous_price: "300.000", price_watches: stay },
+          { id: 2, user_id: "user-1", email: null, type: "BACK_IN_STOCK", price: "250.000", previous_price: null, price_watches: stay },
+          { id: 3, user_id: "user-2", email: null, type: "PRICE_DROP", price: "199.500", previous_price: null, price_watches: stay },
+          { id: 4, user_id: null, email: "bounce@example.com", type: "PRICE_DROP", price: "180.000", previous_price: null, price_watches: null },
+        ]);
+      }
+      if (url.includes("/rest/v1/profiles")) {
+        return jsonResponse([{ id: "user-1", email: "user@example.com" }]);
+      }
+      if (url.includes("/rest/v1/price_watch_notifications") && method === "PATCH") {
+        deliveries.push({ url, body: JSON.parse(String(init?.body)) });
+      }
+      return jsonResponse([]);
+    });
+
+    const result = await runPriceWatchJob(
+      { ...mockEnv, EMAIL_API_KEY: "email-key", EMAIL_FROM: "Hotel.com.tn <noreply@hotel.com.tn>" },
+      new Logger(),
+      { now: new Date("2026-06-15T08:00:00Z") }
+    );
+
+    expect(result).toMatchObject({ searches: 0, delivered: 2, deliveryFailed: 2 });
+    expect(emails.map((email) => email.to[0])).toEqual(["guest@example.com", "user@example.com", "bounce@example.com"]);
+    expect(emails[0]).toMatchObject({ from: "Hotel.com.tn <noreply@hotel.com.tn>", subject: "Baisse de prix sur votre séjour" });
+    expect(emails[0].text).toContain("240.000 TND au lieu de 300.000 TND");
+    expect(emails[1].subject).toBe("Votre séjour est de nouveau disponible");
+    expect(deliveries.map((delivery) => [delivery.url.match(/id=eq\.(\d+)/)?.[1], delivery.body.delivery_status])).toEqual([
+      ["1", "sent"],
+      ["2", "sent"],
+      ["3", "failed"],
+      ["4", "failed"],
+    ]);
+    expect(deliveries[0].body.delivered_at).toBe("2026-06-15T08:00:00.000Z");
+    expect(deliveries[0].url).toContain("delivery_status=eq.pending");
+  });
+});
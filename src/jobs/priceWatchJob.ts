@@ -0,0 +1,321 @@
+/**
+ * Scheduled price watch job
+ *
+ * Runs from the Worker cron trigger:
+ * 1. Expires active watches whose check-in date has passed
+ * 2. Loads active watches, least recently checked first, and groups them by
+ *    upstream search (city, stay, occupancy)
+ * 3. Re-runs at most PRICE_WATCH_MAX_SEARCHES_PER_RUN myGO searches; other
+ *    groups wait for the next run
+ * 4. Prices results with the active pricing rules (customer prices, TND),
+ *    updates each watch and queues PRICE_DROP / BACK_IN_STOCK notifications
+ *    in price_watch_notifications
+ * 5. Emails pending notifications (watch email, else the account email) and
+ *    marks them sent or failed; without an email sender they stay pending
+ */
+
+import type { Env } from "../types/env";
+import type { MyGoCredential, MyGoHotelSearchResult } from "../types/mygo";
+import { searchHotels, filterVisibleHotels } from "../clients/mygoClient";
+import { createServiceClient } from "../clients/supabaseClient";
+import { isEmailConfigured, sendEmail } from "../clients/emailClient";
+import type { Logger } from "../utils/logger";
+import { mapWithConcurrency } from "../utils/concurrency";
+import { annotateRoomTypes } from "../utils/boardNormalization";
+import { applyPricingToHotels, type PricingRule } from "../utils/pricingRules";
+import {
+  buildPriceWatchEmail,
+  evaluatePriceWatch,
+  groupPriceWatches,
+  observePriceWatch,
+  toPriceWatch,
+  type PriceWatch,
+  type PriceWatchNotificationRow,
+  type PriceWatchRow,
+} from "../utils/priceWatch";
+import { loadPricingRules } from "../cache/pricingRulesCache";
+import { loadBoardNormalizer } from "../cache/boardMappingsCache";
+
+// Upstream searches per run unless PRICE_WATCH_MAX_SEARCHES_PER_RUN is set
+export const DEFAULT_MAX_SEARCHES_PER_RUN = 20;
+
+// Watches loaded per run (grouped into at most maxSearches searches)
+const MAX_WATCHES_PER_RUN = 500;
+
+// myGO searches in flight at once
+const SEARCH_CONCURRENCY = 2;
+
+// Pending notifications emailed per run (oldest first)
+const MAX_DELIVERIES_PER_RUN = 100;
+
+export interface PriceWatchJobOptions {
+  now?: Date;
+  maxSearches?: number;
+}
+
+export interface PriceWatchJobResult {
+  expired: number;
+  searches: number;
+  failedSearches: number;
+  deferredSearches: number;
+  checked: number;
+  notified: number;
+  delivered: number;
+  deliveryFailed: number;
+}
+
+const getMyGoCredential = (env: Env): MyGoCredential => ({
+  login: env.MYGO_LOGIN,
+  password: env.MYGO_PASSWORD,
+});
+
+/**
+ * Search budget of one run (PRICE_WATCH_MAX_SEARCHES_PER_RUN, positive integer)
+ */
+export const getMaxSearchesPerRun = (env: Env): number => {
+  const configured = Number(env.PRICE_WATCH_MAX_SEARCHES_PER_RUN);
+  return Number.isInteger(configured) && configured > 0 ? configured : DEFAULT_MAX_SEARCHES_PER_RUN;
+};
+
+/**
+ * Customer prices of fresh search results (same rules as /hotels/search)
+ * The board normalizer is only loaded when a rule targets board types
+ */
+const priceSearchResults = async (
+  env: Env,
+  hotels: MyGoHotelSearchResult[],
+  rules: PricingRule[],
+  checkIn: string,
+  logger: Logger
+): Promise<MyGoHotelSearchResult[]> => {
+  if (rules.length === 0) {
+    return hotels;
+  }
+  const withBoards = rules.some((rule) => rule.boardTypes)
+    ? annotateRoomTypes(hotels, await loadBoardNormalizer(env, logger))
+    : hotels;
+  return applyPricingToHotels(withBoards, rules, { checkIn });
+};
+
+/**
+ * Update one watch from fresh results and queue its notification, if any
+ * A notification that cannot be queued leaves the watch unchanged, so the
+ * next run raises it again
+ * @returns whether a notification was queued
+ */
+const checkWatch = async (
+  supabase: ReturnType<typeof createServiceClient>,
+  watch: PriceWatch,
+  hotels: MyGoHotelSearchResult[],
+  now: string,
+  logger: Logger
+): Promise<boolean> => {
+  const evaluation = evaluatePriceWatch(watch, observePriceWatch(watch, hotels));
+
+  if (evaluation.notification) {
+    const { error } = await supabase.from("price_watch_notifications").insert({
+      watch_id: watch.id,
+      user_id: watch.userId,
+      guest_session_id: watch.guestSessionId,
+      email: watch.email,
+      type: evaluation.notification.type,
+      price: evaluation.notification.price,
+      previous_price: evaluation.notification.previousPrice,
+    });
+    if (error) {
+      logger.error("Failed to queue price watch notification", { watchId: watch.id, error: error.message });
+      return false;
+    }
+  }
+
+  const { error } = await supabase
+    .from("price_watches")
+    .update({
+      ...evaluation.updates,
+      ...(evaluation.notification ? { last_notified_at: now } : {}),
+      last_checked_at: now,
+      updated_at: now,
+    })
+    .eq("id", watch.id);
+
+  if (error) {
+    logger.error("Failed to update price watch", { watchId: watch.id, error: error.message });
+  }
+  return evaluation.notification !== null;
+};
+
+/**
+ * Email pending notifications, oldest first, and mark each sent or failed
+ * Notifications without a watch email go to the account email of their user;
+ * none are sent (and all stay pending) while no email sender is configured
+ */
+const deliverNotifications = async (
+  env: Env,
+  supabase: ReturnType<typeof createServiceClient>,
+  now: string,
+  logger: Logger
+): Promise<{ delivered: number; failed: number }> => {
+  if (!isEmailConfigured(env)) {
+    logger.warn("Email sender is not configured, price watch notifications stay pending");
+    return { delivered: 0, failed: 0 };
+  }
+
+  const { data, error } = await supabase
+    .from("price_watch_notifications")
+    .select("id, user_id, email, type, price, previous_price, price_watches(check_in, check_out)")
+    .eq("delivery_status", "pending")
+    .order("created_at", { ascending: true })
+    .limit(MAX_DELIVERIES_PER_RUN);
+
+  if (error) {
+    logger.error("Failed to load pending price watch notifications", { error: error.message });
+    return { delivered: 0, failed: 0 };
+  }
+
+  const rows = (data ?? []) as unknown as PriceWatchNotificationRow[];
+  const userIds = [...new Set(rows.filter((row) => !row.email && row.user_id).map((row) => row.user_id as string))];
+  const accountEmails = new Map<string, string>();
+  if (userIds.length > 0) {
+    const { data: profiles, error: profileError } = await supabase.from("profiles").select("id, email").in("id", userIds);
+    if (profileError) {
+      // Retried on the next run
+      logger.error("Failed to load account emails for price watch notifications", { error: profileError.message });
+      return { delivered: 0, failed: 0 };
+    }
+    for (const profile of (profiles ?? []) as Array<{ id: string; email: string | null }>) {
+      if (profile.email) {
+        accountEmails.set(profile.id, profile.email);
+      }
+    }
+  }
+
+  let delivered = 0;
+  let failed = 0;
+  for (const row of rows) {
+    const email = row.email ?? (row.user_id ? accountEmails.get(row.user_id) : undefined);
+    let sent = false;
+    if (email) {
+      try {
+        await sendEmail(env, { to: email, ...buildPriceWatchEmail(row) });
+        sent = true;
+      } catch (sendError) {
+        logger.warn("Price watch notification email failed", {
+          notificationId: row.id,
+          error: sendError instanceof Error ? sendError.message : String(sendError),
+        });
+      }
+    } else {
+      logger.warn("Price watch notification has no email address", { notificationId: row.id });
+    }
+
+    const { error: updateError } = await supabase
+      .from("price_watch_notifications")
+      .update(sent ? { delivery_status: "sent", delivered_at: now } : { delivery_status: "failed" })
+      .eq("id", row.id)
+      .eq("delivery_status", "pending");
+    if (updateError) {
+      logger.error("Failed to record price watch notification delivery", {
+        notificationId: row.id,
+        error: updateError.message,
+      });
+    }
+    if (sent) {
+      delivered++;
+    } else {
+      failed++;
+    }
+  }
+
+  return { delivered, failed };
+};
+
+/**
+ * Run one price watch pass
+ * A failing search is logged and its watches stay unchecked (first in line
+ * for the next run); it never fails the whole job
+ */
+export const runPriceWatchJob = async (
+  env: Env,
+  logger: Logger,
+  options: PriceWatchJobOptions = {}
+): Promise<PriceWatchJobResult> => {
+  const now = options.now ?? new Date();
+  const nowIso = now.toISOString();
+  const today = nowIso.slice(0, 10);
+  const maxSearches = options.maxSearches ?? getMaxSearchesPerRun(env);
+  const supabase = createServiceClient(env);
+
+  const { data: expiredRows, error: expireError } = await supabase
+    .from("price_watches")
+    .update({ status: "expired", updated_at: nowIso })
+    .eq("status", "active")
+    .lt("check_in", today)
+    .select("id");
+
+  if (expireError) {
+    logger.error("Failed to expire price watches", { error: expireError.message });
+  }
+
+  const { data, error } = await supabase
+    .from("price_watches")
+    .select("*")
+    .eq("status", "active")
+    .gte("check_in", today)
+    .order("last_checked_at", { ascending: true, nullsFirst: true })
+    .limit(MAX_WATCHES_PER_RUN);
+
+  if (error) {
+    throw new Error(`Price watch lookup failed: ${error.message}`);
+  }
+
+  const groups = groupPriceWatches(((data ?? []) as PriceWatchRow[]).map(toPriceWatch));
+  const planned = groups.slice(0, maxSearches);
+  const pricingRules = planned.length > 0 ? await loadPricingRules(env, logger) : [];
+  const credential = getMyGoCredential(env);
+
+  const outcomes = await mapWithConcurrency(planned, SEARCH_CONCURRENCY, async (group) => {
+    let hotels: MyGoHotelSearchResult[];
+    try {
+      const searchResult = await searchHotels(credential, group.params);
+      hotels = await priceSearchResults(
+        env,
+        filterVisibleHotels(searchResult.hotels),
+        pricingRules,
+        group.params.checkIn,
+        logger
+      );
+    } catch (searchError) {
+      logger.warn("Price watch search failed", {
+        cityId: group.params.cityId,
+        checkIn: group.params.checkIn,
+        watches: group.watches.length,
+        error: searchError instanceof Error ? searchError.message : String(searchError),
+      });
+      return null;
+    }
+
+    let notified = 0;
+    for (const watch of group.watches) {
+      if (await checkWatch(supabase, watch, hotels, nowIso, logger)) {
+        notified++;
+      }
+    }
+    return { checked: group.watches.length, notified };
+  });
+
+  const delivery = await deliverNotifications(env, supabase, nowIso, logger);
+
+  const result: PriceWatchJobResult = {
+    expired: expiredRows?.length ?? 0,
+    searches: planned.length,
+    failedSearches: outcomes.filter((outcome) => outcome === null).length,
+    deferredSearches: groups.length - planned.length,
+    checked: outcomes.reduce((sum, outcome) => sum + (outcome?.checked ?? 0), 0),
+    notified: outcomes.reduce((sum, outcome) => sum + (outcome?.notified ?? 0), 0),
+    delivered: delivery.delivered,
+    deliveryFailed: delivery.failed,
+  };
+
+  logger.info("Price watch job completed", { ...result });
+  return result;
+};
@@ -7,6 +7,9 @@ import type { Context, Next } from "hono";
 import type { Env, HonoVariables } from "../types/env";
 import { createClient } from "@supabase/supabase-js";
 import { getCookie } from "hono/cookie";
+import { AuthenticationError } from "./errorHandler";
+import { createServiceClient } from "../clients/supabaseClient";
+import { getBookingAccessSecret, isBookingAccessLinkActive, verifyBookingAccess } from "../utils/bookingAccess";
 
 /**
  * Verify JWT token using Supabase client
@@ -158,3 +161,36 @@ export const extractGuestSession = () => {
     await next();
   };
 };
+
+/**
+ * Extract the booking unlocked by a guest access token (X-Booking-Access-Token)
+ * Returns 401 for an invalid or expired token rather than ignoring it, so an
+ * old magic link asks for a new lookup; magic link tokens must also still be
+ * active in booking_access_links (not revoked)
+ */
+export const extractBookingAccess = () => {
+  return async (c: Context<{ Bindings: Env; Variables: HonoVariables }>, next: Next) => {
+    const token = c.req.header("X-Booking-Access-Token");
+
+    if (token) {
+      const secret = getBookingAccessSecret(c.env);
+      const verification = secret ? await verifyBookingAccess(token, secret) : null;
+      if (!verification?.valid) {
+        throw new AuthenticationError(
+          verification?.reason === "expired"
+            ? "Booking access link expired, please look up your booking again"
+            : "Invalid booking access token"
+        );
+      }
+      if (
+        verification.linkId &&
+        !(await isBookingAccessLinkActive(createServiceClient(c.env), verification.linkId, verification.bookingId))
+      ) {
+        throw new AuthenticationError("Booking access link revoked or expired, please look up your booking again");
+      }
+      c.set("bookingAccessId", verification.bookingId);
+    }
+
+    await next();
+  };
+};
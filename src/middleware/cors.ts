@@ -52,7 +52,7 @@ export const corsMiddleware = () => {
         return c.body(null, 204, {
           "Access-Control-Allow-Origin": origin,
           "Access-Control-Allow-Methods": "GET, POST, PUT, DELETE, OPTIONS",
-          "Access-Control-Allow-Headers": "Content-Type, Authorization, X-Request-ID",
+          "Access-Control-Allow-Headers": "Content-Type, Authorization, X-Request-ID, X-Booking-Access-Token",
           "Access-Control-Allow-Credentials": "true",
           "Access-Control-Max-Age": "86400",
         });
@@ -63,6 +63,22 @@ describe("Error handler middleware", () => {
     expect(data.error).toBe("Invalid input");
   });
 
+  it("should include field-level details of a ValidationError", async () => {
+    const app = new Hono<{ Bindings: Env; Variables: HonoVariables }>();
+
+    app.onError(errorHandler());
+
+    app.get("/test", () => {
+      throw new ValidationError("Invalid occupancy", [{ field: "rooms[0].adults", code: "TOO_MANY_ADULTS" }]);
+    });
+
+    const res = await app.request("/test");
+    expect(res.status).toBe(400);
+
+    const data = await res.json() as any;
+    expect(data.details).toEqual([{ field: "rooms[0].adults", code: "TOO_MANY_ADULTS" }]);
+  });
+
   it("should handle AuthenticationError and return 401", async () => {
     const app = new Hono<{ Bindings: Env; Variables: HonoVariables }>();
     
@@ -4,6 +4,7 @@
  */
 
 import type { Context } from "hono";
+import type { ContentfulStatusCode } from "hono/utils/http-status";
 import { ZodError } from "zod";
 import { createLogger } from "../utils/logger";
 import type { HonoVariables } from "../types/env";
@@ -47,6 +48,13 @@ export class NotFoundError extends AppError {
   }
 }
 
+export class RateLimitError extends AppError {
+  constructor(message: string = "Rate limit exceeded") {
+    super(message, 429, "RATE_LIMIT_ERROR");
+    this.name = "RateLimitError";
+  }
+}
+
 export class ExternalServiceError extends AppError {
   constructor(
     message: string,
@@ -64,6 +72,13 @@ export class InsufficientCreditError extends AppError {
   }
 }
 
+export class IllegalTransitionError extends AppError {
+  constructor(message: string = "Illegal state transition") {
+    super(message, 409, "ILLEGAL_STATE_TRANSITION");
+    this.name = "IllegalTransitionError";
+  }
+}
+
 /**
  * Error handler middleware
  */
@@ -90,12 +105,22 @@ export const errorHandler = () => {
         statusCode: err.statusCode,
         code: err.code,
       });
+      // Field-level details: wrapped Zod issues or a list of field errors
+      const details =
+        err instanceof ValidationError
+          ? err.details instanceof ZodError
+            ? err.details.errors
+            : Array.isArray(err.details)
+              ? err.details
+              : undefined
+          : undefined;
       return c.json(
         {
           error: err.message,
           code: err.code,
+          ...(details ? { details } : {}),
         },
-        err.statusCode,
+        err.statusCode as ContentfulStatusCode,
       );
     }
 
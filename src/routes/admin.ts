@@ -1,6 +1,7 @@
 /**
  * Admin routes
- * Handles admin-only operations including myGO credit monitoring, settings, and booking management
+ * Handles admin-only operations including myGO credit monitoring, settings,
+ * board code overrides, pricing rules and booking management
  */
 
 import { Hono } from "hono";
@@ -9,9 +10,37 @@ import type { Env, HonoVariables } from "../types/env";
 import { requireAdmin } from "../middleware/auth";
 import { createServiceClient } from "../clients/supabaseClient";
 import { creditCheck } from "../clients/mygoClient";
-import { checkoutPolicySchema, bookingListFiltersSchema } from "../utils/validation";
+import {
+  checkoutPolicySchema,
+  bookingListFiltersSchema,
+  boardOverrideSchema,
+  pricingRuleSchema,
+  pricingPreviewSchema,
+  exchangeRateSchema,
+  exchangeRateHistorySchema,
+  promoCodeSchema,
+  reviewModerationListSchema,
+  reviewModerationSchema,
+} from "../utils/validation";
 import { createLogger } from "../utils/logger";
-import { ValidationError } from "../middleware/errorHandler";
+import { CANONICAL_BOARDS, BOARD_LABELS } from "../utils/boardNormalization";
+import {
+  priceOffer,
+  rankPricingRules,
+  toPricingRule,
+  DEFAULT_PRICING_CHANNEL,
+  type PricingRule,
+  type PricingRuleRow,
+} from "../utils/pricingRules";
+import { clearBoardMappingsCache } from "../cache/boardMappingsCache";
+import { clearPricingRulesCache } from "../cache/pricingRulesCache";
+import { clearExchangeRatesCache, loadExchangeRates } from "../cache/exchangeRatesCache";
+import { getMinorUnits, toExchangeRate, type ExchangeRateRow } from "../utils/currency";
+import { toPromoCode, type PromoCodeRow } from "../utils/promotions";
+import type { PromoRedemptionRow } from "../utils/promoRedemptions";
+import { toModeratedHotelReview, type HotelReviewRow } from "../utils/reviews";
+import { clearReviewScoresCache } from "../cache/reviewScoresCache";
+import { ValidationError, NotFoundError } from "../middleware/errorHandler";
 import type { CheckoutPolicy } from "../types/booking";
 
 const admin = new Hono<{ Bindings: Env; Variables: HonoVariables }>();
@@ -19,6 +48,179 @@ const admin = new Hono<{ Bindings: Env; Variables: HonoVariables }>();
 // All admin routes require admin authentication
 admin.use("/*", requireAdmin());
 
+type BoardOverrideRow = {
+  id: number;
+  match_type: string;
+  match_value: string;
+  canonical_code: string;
+  note: string | null;
+  updated_at: string | null;
+};
+
+const toBoardOverrideResponse = (row: BoardOverrideRow) => ({
+  id: row.id,
+  matchType: row.match_type,
+  matchValue: row.match_value,
+  canonicalCode: row.canonical_code,
+  note: row.note,
+  updatedAt: row.updated_at,
+});
+
+/**
+ * Record a board override change in the settings audit log
+ * Audit failures are logged but never fail the request
+ */
+const logBoardOverrideChange = async (
+  env: Env,
+  logger: ReturnType<typeof createLogger>,
+  userId: string | undefined,
+  oldRow: BoardOverrideRow | null,
+  newRow: BoardOverrideRow | null,
+): Promise<void> => {
+  const { error } = await createServiceClient(env)
+    .from("settings_audit_log")
+    .insert({
+      setting_key: "board-code-overrides",
+      old_value: oldRow ? toBoardOverrideResponse(oldRow) : null,
+      new_value: newRow ? toBoardOverrideResponse(newRow) : null,
+      changed_by: userId ?? null,
+      changed_at: new Date().toISOString(),
+    });
+
+  if (error) {
+    logger.warn("Failed to create audit log entry", { error: error.message });
+  }
+};
+
+type PricingRuleInput = ReturnType<typeof pricingRuleSchema.parse>;
+
+// Empty condition arrays are stored as NULL (match everything)
+const nullIfEmpty = <T>(values: T[] | null | undefined): T[] | null =>
+  values && values.length > 0 ? values : null;
+
+const toPricingRuleColumns = (input: PricingRuleInput) => ({
+  name: input.name,
+  active: input.active,
+  priority: input.priority,
+  hotel_ids: nullIfEmpty(input.hotelIds),
+  city_ids: nullIfEmpty(input.cityIds),
+  stars: nullIfEmpty(input.stars),
+  board_types: nullIfEmpty(input.boardTypes),
+  stay_from: input.stayFrom ?? null,
+  stay_to: input.stayTo ?? null,
+  booking_window_min: input.bookingWindowMin ?? null,
+  booking_window_max: input.bookingWindowMax ?? null,
+  channels: nullIfEmpty(input.channels),
+  markup_type: input.markupType,
+  markup_value: input.markupValue,
+  rounding_step: input.roundingStep ?? null,
+  rounding_mode: input.roundingMode,
+  min_price: input.minPrice ?? null,
+  max_price: input.maxPrice ?? null,
+  note: input.note ?? null,
+});
+
+/**
+ * Record a pricing rule change in the settings audit log
+ * Audit failures are logged but never fail the request
+ */
+const logPricingRuleChange = async (
+  env: Env,
+  logger: ReturnType<typeof createLogger>,
+  userId: string | undefined,
+  oldRow: PricingRuleRow | null,
+  newRow: PricingRuleRow | null,
+): Promise<void> => {
+  const { error } = await createServiceClient(env)
+    .from("settings_audit_log")
+    .insert({
+      setting_key: "pricing-rules",
+      old_value: oldRow ? toPricingRule(oldRow) : null,
+      new_value: newRow ? toPricingRule(newRow) : null,
+      changed_by: userId ?? null,
+      changed_at: new Date().toISOString(),
+    });
+
+  if (error) {
+    logger.warn("Failed to create audit log entry", { error: error.message });
+  }
+};
+
+const EXCHANGE_RATE_COLUMNS = "id, currency, tnd_per_unit, effective_at, note";
+
+/**
+ * Record a new exchange rate snapshot in the settings audit log
+ * Audit failures are logged but never fail the request
+ */
+const logExchangeRateChange = async (
+  env: Env,
+  logger: ReturnType<typeof createLogger>,
+  userId: string | undefined,
+  newRow: ExchangeRateRow,
+): Promise<void> => {
+  const { error } = await createServiceClient(env)
+    .from("settings_audit_log")
+    .insert({
+      setting_key: "exchange-rates",
+      old_value: null,
+      new_value: toExchangeRate(newRow),
+      changed_by: userId ?? null,
+      changed_at: new Date().toISOString(),
+    });
+
+  if (error) {
+    logger.warn("Failed to create audit log entry", { error: error.message });
+  }
+};
+
+type PromoCodeInput = ReturnType<typeof promoCodeSchema.parse>;
+
+const toPromoCodeColumns = (input: PromoCodeInput) => ({
+  code: input.code,
+  description: input.description ?? null,
+  active: input.active,
+  discount_type: input.discountType,
+  discount_value: input.discountValue,
+  max_discount: input.maxDiscount ?? null,
+  valid_from: input.validFrom ?? null,
+  valid_to: input.validTo ?? null,
+  max_redemptions: input.maxRedemptions ?? null,
+  max_redemptions_per_customer: input.maxRedemptionsPerCustomer ?? null,
+  min_nights: input.minNights ?? null,
+  min_amount: input.minAmount ?? null,
+  city_ids: nullIfEmpty(input.cityIds),
+  hotel_ids: nullIfEmpty(input.hotelIds),
+});
+
+// Postgres unique_violation (promo code already taken)
+const UNIQUE_VIOLATION = "23505";
+
+/**
+ * Record a promo code change in the settings audit log
+ * Audit failures are logged but never fail the request
+ */
+const logPromoCodeChange = async (
+  env: Env,
+  logger: ReturnType<typeof createLogger>,
+  userId: string | undefined,
+  oldRow: PromoCodeRow | null,
+  newRow: PromoCodeRow,
+): Promise<void> => {
+  const { error } = await createServiceClient(env)
+    .from("settings_audit_log")
+    .insert({
+      setting_key: "promo-codes",
+      old_value: oldRow ? toPromoCode(oldRow) : null,
+      new_value: toPromoCode(newRow),
+      changed_by: userId ?? null,
+      changed_at: new Date().toISOString(),
+    });
+
+  if (error) {
+    logger.warn("Failed to create audit log entry", { error: error.message });
+  }
+};
+
 /**
  * GET /api/admin/mygo/credit
  * Get current myGO credit balance (snapshot)
@@ -242,6 +444,757 @@ admin.put("/settings/checkout-policy", async (c) => {
   }
 });
 
+/**
+ * GET /api/admin/board-mappings
+ * List board code overrides and the canonical boards they can map to
+ */
+admin.get("/board-mappings", async (c) => {
+  const logger = createLogger(c.var);
+  const supabase = createServiceClient(c.env);
+
+  const { data, error } = await supabase
+    .from("board_code_overrides")
+    .select("*")
+    .order("match_type")
+    .order("match_value");
+
+  if (error) {
+    logger.error("Failed to fetch board overrides", { error: error.message });
+    throw new Error("Failed to fetch board overrides");
+  }
+
+  return c.json({
+    overrides: (data ?? []).map(toBoardOverrideResponse),
+    boards: CANONICAL_BOARDS.map((code) => ({ code, labels: BOARD_LABELS[code] })),
+  });
+});
+
+/**
+ * POST /api/admin/board-mappings
+ * Create a board code override
+ */
+admin.post("/board-mappings", async (c) => {
+  const logger = createLogger(c.var);
+  const userId = c.get("userId");
+
+  try {
+    const body = await c.req.json();
+    const validatedData = boardOverrideSchema.parse(body);
+    const supabase = createServiceClient(c.env);
+
+    const { data, error } = await supabase
+      .from("board_code_overrides")
+      .insert({
+        match_type: validatedData.matchType,
+        match_value: validatedData.matchValue,
+        canonical_code: validatedData.canonicalCode,
+        note: validatedData.note ?? null,
+        updated_by: userId,
+      })
+      .select("*")
+      .single();
+
+    if (error) {
+      if (error.code === "23505") {
+        throw new ValidationError("An override already exists for this board code or name");
+      }
+      logger.error("Failed to create board override", { error: error.message });
+      throw new Error("Failed to create board override");
+    }
+
+    await logBoardOverrideChange(c.env, logger, userId, null, data);
+    clearBoardMappingsCache();
+
+    logger.info("Board override created", { userId, id: data.id });
+    return c.json({ override: toBoardOverrideResponse(data) }, 201);
+  } catch (error) {
+    if (error instanceof Error && error.name === "ZodError") {
+      throw new ValidationError("Invalid board override", error);
+    }
+    throw error;
+  }
+});
+
+/**
+ * PUT /api/admin/board-mappings/:id
+ * Replace a board code override
+ */
+admin.put("/board-mappings/:id", async (c) => {
+  const logger = createLogger(c.var);
+  const userId = c.get("userId");
+  const id = Number(c.req.param("id"));
+
+  try {
+    if (!Number.isInteger(id) || id <= 0) {
+      throw new ValidationError("Override id must be a positive integer");
+    }
+    const body = await c.req.json();
+    const validatedData = boardOverrideSchema.parse(body);
+    const supabase = createServiceClient(c.env);
+
+    const { data: oldData } = await supabase
+      .from("board_code_overrides")
+      .select("*")
+      .eq("id", id)
+      .maybeSingle();
+
+    if (!oldData) {
+      throw new NotFoundError("Board override not found");
+    }
+
+    const { data, error } = await supabase
+      .from("board_code_overrides")
+      .update({
+        match_type: validatedData.matchType,
+        match_value: validatedData.matchValue,
+        canonical_code: validatedData.canonicalCode,
+        note: validatedData.note ?? null,
+        updated_by: userId,
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", id)
+      .select("*")
+      .single();
+
+    if (error) {
+      if (error.code === "23505") {
+        throw new ValidationError("An override already exists for this board code or name");
+      }
+      logger.error("Failed to update board override", { error: error.message });
+      throw new Error("Failed to update board override");
+    }
+
+    await logBoardOverrideChange(c.env, logger, userId, oldData, data);
+    clearBoardMappingsCache();
+
+    logger.info("Board override updated", { userId, id });
+    return c.json({ override: toBoardOverrideResponse(data) });
+  } catch (error) {
+    if (error instanceof Error && error.name === "ZodError") {
+      throw new ValidationError("Invalid board override", error);
+    }
+    throw error;
+  }
+});
+
+/**
+ * DELETE /api/admin/board-mappings/:id
+ * Delete a board code override
+ */
+admin.delete("/board-mappings/:id", async (c) => {
+  const logger = createLogger(c.var);
+  const userId = c.get("userId");
+  const id = Number(c.req.param("id"));
+
+  if (!Number.isInteger(id) || id <= 0) {
+    throw new ValidationError("Override id must be a positive integer");
+  }
+
+  const supabase = createServiceClient(c.env);
+  const { data, error } = await supabase
+    .from("board_code_overrides")
+    .delete()
+    .eq("id", id)
+    .select("*")
+    .maybeSingle();
+
+  if (error) {
+    logger.error("Failed to delete board override", { error: error.message });
+    throw new Error("Failed to delete board override");
+  }
+  if (!data) {
+    throw new NotFoundError("Board override not found");
+  }
+
+  await logBoardOverrideChange(c.env, logger, userId, data, null);
+  clearBoardMappingsCache();
+
+  logger.info("Board override deleted", { userId, id });
+  return c.json({ deleted: true, id });
+});
+
+/**
+ * GET /api/admin/pricing-rules
+ * List pricing rules (active and inactive), highest priority first
+ */
+admin.get("/pricing-rules", async (c) => {
+  const logger = createLogger(c.var);
+  const supabase = createServiceClient(c.env);
+
+  const { data, error } = await supabase
+    .from("pricing_rules")
+    .select("*")
+    .order("priority", { ascending: false })
+    .order("id");
+
+  if (error) {
+    logger.error("Failed to fetch pricing rules", { error: error.message });
+    throw new Error("Failed to fetch pricing rules");
+  }
+
+  return c.json({ rules: ((data ?? []) as PricingRuleRow[]).map(toPricingRule) });
+});
+
+/**
+ * POST /api/admin/pricing-rules
+ * Create a pricing rule
+ */
+admin.post("/pricing-rules", async (c) => {
+  const logger = createLogger(c.var);
+  const userId = c.get("userId");
+
+  try {
+    const body = await c.req.json();
+    const validatedData = pricingRuleSchema.parse(body);
+    const supabase = createServiceClient(c.env);
+
+    const { data, error } = await supabase
+      .from("pricing_rules")
+      .insert({ ...toPricingRuleColumns(validatedData), updated_by: userId })
+      .select("*")
+      .single();
+
+    if (error) {
+      logger.error("Failed to create pricing rule", { error: error.message });
+      throw new Error("Failed to create pricing rule");
+    }
+
+    await logPricingRuleChange(c.env, logger, userId, null, data);
+    clearPricingRulesCache();
+
+    logger.info("Pricing rule created", { userId, id: data.id });
+    return c.json({ rule: toPricingRule(data) }, 201);
+  } catch (error) {
+    if (error instanceof Error && error.name === "ZodError") {
+      throw new ValidationError("Invalid pricing rule", error);
+    }
+    throw error;
+  }
+});
+
+/**
+ * POST /api/admin/pricing-rules/preview
+ * Price one offer with the saved active rules, or with a draft `rule`
+ * before saving it. bookingDate (default today) sets the booking window
+ */
+admin.post("/pricing-rules/preview", async (c) => {
+  const logger = createLogger(c.var);
+
+  try {
+    const body = await c.req.json();
+    const validatedData = pricingPreviewSchema.parse(body);
+
+    let rules: PricingRule[];
+    if (validatedData.rule) {
+      const { rule } = validatedData;
+      rules = [toPricingRule({ ...toPricingRuleColumns(rule), id: 0, updated_at: null })];
+    } else {
+      const { data, error } = await createServiceClient(c.env)
+        .from("pricing_rules")
+        .select("*")
+        .eq("active", true);
+
+      if (error) {
+        logger.error("Failed to fetch pricing rules", { error: error.message });
+        throw new Error("Failed to fetch pricing rules");
+      }
+      rules = ((data ?? []) as PricingRuleRow[]).map(toPricingRule);
+    }
+
+    const context = {
+      hotelId: validatedData.hotelId,
+      cityId: validatedData.cityId,
+      star: validatedData.star,
+      boardType: validatedData.boardType ?? null,
+      checkIn: validatedData.checkIn,
+      channel: validatedData.channel ?? DEFAULT_PRICING_CHANNEL,
+      now: validatedData.bookingDate ? new Date(`${validatedData.bookingDate}T12:00:00Z`) : new Date(),
+    };
+    const priced = priceOffer(validatedData.price, rules, context);
+
+    return c.json({
+      supplierPrice: priced.supplierPrice,
+      price: priced.price,
+      markup: priced.markup,
+      rule: priced.rule,
+      // Every rule matching the offer, in the order they would apply
+      matchingRules: rankPricingRules(rules, context).map((rule) => ({ id: rule.id, name: rule.name, priority: rule.priority })),
+    });
+  } catch (error) {
+    if (error instanceof Error && error.name === "ZodError") {
+      throw new ValidationError("Invalid pricing preview request", error);
+    }
+    throw error;
+  }
+});
+
+/**
+ * PUT /api/admin/pricing-rules/:id
+ * Replace a pricing rule
+ */
+admin.put("/pricing-rules/:id", async (c) => {
+  const logger = createLogger(c.var);
+  const userId = c.get("userId");
+  const id = Number(c.req.param("id"));
+
+  try {
+    if (!Number.isInteger(id) || id <= 0) {
+      throw new ValidationError("Pricing rule id must be a positive integer");
+    }
+    const body = await c.req.json();
+    const validatedData = pricingRuleSchema.parse(body);
+    const supabase = createServiceClient(c.env);
+
+    const { data: oldData } = await supabase
+      .from("pricing_rules")
+      .select("*")
+      .eq("id", id)
+      .maybeSingle();
+
+    if (!oldData) {
+      throw new NotFoundError("Pricing rule not found");
+    }
+
+    const { data, error } = await supabase
+      .from("pricing_rules")
+      .update({
+        ...toPricingRuleColumns(validatedData),
+        updated_by: userId,
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", id)
+      .select("*")
+      .single();
+
+    if (error) {
+      logger.error("Failed to update pricing rule", { error: error.message });
+      throw new Error("Failed to update pricing rule");
+    }
+
+    await logPricingRuleChange(c.env, logger, userId, oldData, data);
+    clearPricingRulesCache();
+
+    logger.info("Pricing rule updated", { userId, id });
+    return c.json({ rule: toPricingRule(data) });
+  } catch (error) {
+    if (error instanceof Error && error.name === "ZodError") {
+      throw new ValidationError("Invalid pricing rule", error);
+    }
+    throw error;
+  }
+});
+
+/**
+ * DELETE /api/admin/pricing-rules/:id
+ * Delete a pricing rule (bookings keep their pricing snapshot)
+ */
+admin.delete("/pricing-rules/:id", async (c) => {
+  const logger = createLogger(c.var);
+  const userId = c.get("userId");
+  const id = Number(c.req.param("id"));
+
+  if (!Number.isInteger(id) || id <= 0) {
+    throw new ValidationError("Pricing rule id must be a positive integer");
+  }
+
+  const supabase = createServiceClient(c.env);
+  const { data, error } = await supabase
+    .from("pricing_rules")
+    .delete()
+    .eq("id", id)
+    .select("*")
+    .maybeSingle();
+
+  if (error) {
+    logger.error("Failed to delete pricing rule", { error: error.message });
+    throw new Error("Failed to delete pricing rule");
+  }
+  if (!data) {
+    throw new NotFoundError("Pricing rule not found");
+  }
+
+  await logPricingRuleChange(c.env, logger, userId, data, null);
+  clearPricingRulesCache();
+
+  logger.info("Pricing rule deleted", { userId, id });
+  return c.json({ deleted: true, id });
+});
+
+/**
+ * GET /api/admin/exchange-rates
+ * Current rate of every display currency (latest snapshot in effect)
+ */
+admin.get("/exchange-rates", async (c) => {
+  const logger = createLogger(c.var);
+  const rates = await loadExchangeRates(c.env, logger);
+
+  return c.json({
+    settlementCurrency: "TND",
+    rates: rates.map((rate) => ({ ...rate, minorUnits: getMinorUnits(rate.currency) })),
+  });
+});
+
+/**
+ * GET /api/admin/exchange-rates/history
+ * Rate snapshots, most recent first (including scheduled ones)
+ */
+admin.get("/exchange-rates/history", async (c) => {
+  const logger = createLogger(c.var);
+
+  try {
+    const query = c.req.query();
+    const validatedQuery = exchangeRateHistorySchema.parse({
+      currency: query.currency,
+      limit: query.limit ? Number(query.limit) : undefined,
+    });
+
+    let queryBuilder = createServiceClient(c.env)
+      .from("exchange_rates")
+      .select(`${EXCHANGE_RATE_COLUMNS}, created_at, created_by`)
+      .order("effective_at", { ascending: false })
+      .order("id", { ascending: false })
+      .limit(validatedQuery.limit ?? 100);
+
+    if (validatedQuery.currency) {
+      queryBuilder = queryBuilder.eq("currency", validatedQuery.currency);
+    }
+
+    const { data, error } = await queryBuilder;
+
+    if (error) {
+      logger.error("Failed to fetch exchange rate history", { error: error.message });
+      throw new Error("Failed to fetch exchange rate history");
+    }
+
+    return c.json({
+      history: (data ?? []).map((row) => ({
+        ...toExchangeRate(row as ExchangeRateRow),
+        createdAt: row.created_at,
+        createdBy: row.created_by,
+      })),
+    });
+  } catch (error) {
+    if (error instanceof Error && error.name === "ZodError") {
+      throw new ValidationError("Invalid query parameters", error);
+    }
+    throw error;
+  }
+});
+
+/**
+ * POST /api/admin/exchange-rates
+ * Record a new rate snapshot (effective now, or at effectiveAt)
+ * Snapshots are never edited or deleted: a correction is a new snapshot
+ */
+admin.post("/exchange-rates", async (c) => {
+  const logger = createLogger(c.var);
+  const userId = c.get("userId");
+
+  try {
+    const body = await c.req.json();
+    const validatedData = exchangeRateSchema.parse(body);
+
+    const { data, error } = await createServiceClient(c.env)
+      .from("exchange_rates")
+      .insert({
+        currency: validatedData.currency,
+        tnd_per_unit: validatedData.tndPerUnit,
+        effective_at: validatedData.effectiveAt ?? new Date().toISOString(),
+        note: validatedData.note ?? null,
+        created_by: userId,
+      })
+      .select(EXCHANGE_RATE_COLUMNS)
+      .single();
+
+    if (error) {
+      logger.error("Failed to create exchange rate", { error: error.message });
+      throw new Error("Failed to create exchange rate");
+    }
+
+    await logExchangeRateChange(c.env, logger, userId, data as ExchangeRateRow);
+    clearExchangeRatesCache();
+
+    logger.info("Exchange rate recorded", { userId, id: data.id, currency: data.currency });
+    return c.json({ rate: toExchangeRate(data as ExchangeRateRow) }, 201);
+  } catch (error) {
+    if (error instanceof Error && error.name === "ZodError") {
+      throw new ValidationError("Invalid exchange rate", error);
+    }
+    throw error;
+  }
+});
+
+/**
+ * GET /api/admin/promo-codes
+ * List promo codes (active and inactive), newest first
+ */
+admin.get("/promo-codes", async (c) => {
+  const logger = createLogger(c.var);
+
+  const { data, error } = await createServiceClient(c.env)
+    .from("promo_codes")
+    .select("*")
+    .order("created_at", { ascending: false });
+
+  if (error) {
+    logger.error("Failed to fetch promo codes", { error: error.message });
+    throw new Error("Failed to fetch promo codes");
+  }
+
+  return c.json({ promoCodes: ((data ?? []) as PromoCodeRow[]).map(toPromoCode) });
+});
+
+/**
+ * POST /api/admin/promo-codes
+ * Create a promo code
+ */
+admin.post("/promo-codes", async (c) => {
+  const logger = createLogger(c.var);
+  const userId = c.get("userId");
+
+  try {
+    const body = await c.req.json();
+    const validatedData = promoCodeSchema.parse(body);
+
+    const { data, error } = await createServiceClient(c.env)
+      .from("promo_codes")
+      .insert({ ...toPromoCodeColumns(validatedData), updated_by: userId })
+      .select("*")
+      .single();
+
+    if (error?.code === UNIQUE_VIOLATION) {
+      throw new ValidationError(`Promo code ${validatedData.code} already exists`);
+    }
+    if (error) {
+      logger.error("Failed to create promo code", { error: error.message });
+      throw new Error("Failed to create promo code");
+    }
+
+    await logPromoCodeChange(c.env, logger, userId, null, data);
+
+    logger.info("Promo code created", { userId, id: data.id, code: data.code });
+    return c.json({ promoCode: toPromoCode(data) }, 201);
+  } catch (error) {
+    if (error instanceof Error && error.name === "ZodError") {
+      throw new ValidationError("Invalid promo code", error);
+    }
+    throw error;
+  }
+});
+
+/**
+ * PUT /api/admin/promo-codes/:id
+ * Replace a promo code
+ * Codes with redemptions are deactivated (active: false), never deleted
+ */
+admin.put("/promo-codes/:id", async (c) => {
+  const logger = createLogger(c.var);
+  const userId = c.get("userId");
+  const id = Number(c.req.param("id"));
+
+  try {
+    if (!Number.isInteger(id) || id <= 0) {
+      throw new ValidationError("Promo code id must be a positive integer");
+    }
+    const body = await c.req.json();
+    const validatedData = promoCodeSchema.parse(body);
+    const supabase = createServiceClient(c.env);
+
+    const { data: oldData } = await supabase
+      .from("promo_codes")
+      .select("*")
+      .eq("id", id)
+      .maybeSingle();
+
+    if (!oldData) {
+      throw new NotFoundError("Promo code not found");
+    }
+
+    const { data, error } = await supabase
+      .from("promo_codes")
+      .update({
+        ...toPromoCodeColumns(validatedData),
+        updated_by: userId,
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", id)
+      .select("*")
+      .single();
+
+    if (error?.code === UNIQUE_VIOLATION) {
+      throw new ValidationError(`Promo code ${validatedData.code} already exists`);
+    }
+    if (error) {
+      logger.error("Failed to update promo code", { error: error.message });
+      throw new Error("Failed to update promo code");
+    }
+
+    await logPromoCodeChange(c.env, logger, userId, oldData, data);
+
+    logger.info("Promo code updated", { userId, id });
+    return c.json({ promoCode: toPromoCode(data) });
+  } catch (error) {
+    if (error instanceof Error && error.name === "ZodError") {
+      throw new ValidationError("Invalid promo code", error);
+    }
+    throw error;
+  }
+});
+
+/**
+ * GET /api/admin/promo-codes/:id/redemptions
+ * Redemptions of a promo code, newest first, with counts per status
+ */
+admin.get("/promo-codes/:id/redemptions", async (c) => {
+  const logger = createLogger(c.var);
+  const id = Number(c.req.param("id"));
+
+  if (!Number.isInteger(id) || id <= 0) {
+    throw new ValidationError("Promo code id must be a positive integer");
+  }
+
+  const { data, error } = await createServiceClient(c.env)
+    .from("promo_redemptions")
+    .select("*")
+    .eq("promo_code_id", id)
+    .order("reserved_at", { ascending: false });
+
+  if (error) {
+    logger.error("Failed to fetch promo redemptions", { error: error.message });
+    throw new Error("Failed to fetch promo redemptions");
+  }
+
+  const redemptions = (data ?? []) as PromoRedemptionRow[];
+  const summary = { reserved: 0, redeemed: 0, released: 0, discountTotal: 0 };
+  for (const redemption of redemptions) {
+    summary[redemption.status] += 1;
+    if (redemption.status === "redeemed") {
+      summary.discountTotal += Number(redemption.discount_amount);
+    }
+  }
+  summary.discountTotal = Math.round(summary.discountTotal * 1000) / 1000;
+
+  return c.json({
+    summary,
+    redemptions: redemptions.map((redemption) => ({
+      id: redemption.id,
+      bookingId: redemption.booking_id,
+      userId: redemption.user_id,
+      customerEmail: redemption.customer_email,
+      discountAmount: Number(redemption.discount_amount),
+      status: redemption.status,
+      reservedAt: redemption.reserved_at,
+      redeemedAt: redemption.redeemed_at,
+      releasedAt: redemption.released_at,
+    })),
+  });
+});
+
+/**
+ * GET /api/admin/reviews
+ * Review moderation queue: pending reviews by default, oldest first
+ * Query: status, hotelId, page, perPage
+ */
+admin.get("/reviews", async (c) => {
+  const logger = createLogger(c.var);
+
+  try {
+    const query = c.req.query();
+    const validatedFilters = reviewModerationListSchema.parse({
+      status: query.status,
+      hotelId: query.hotelId ? Number(query.hotelId) : undefined,
+      page: query.page ? Number(query.page) : undefined,
+      perPage: query.perPage ? Number(query.perPage) : undefined,
+    });
+    const status = validatedFilters.status ?? "pending";
+    const page = validatedFilters.page || 1;
+    const perPage = validatedFilters.perPage || 30;
+    const from = (page - 1) * perPage;
+
+    let queryBuilder = createServiceClient(c.env)
+      .from("hotel_reviews")
+      .select("*", { count: "exact" })
+      .eq("status", status)
+      // The queue is worked oldest first; moderated reviews newest first
+      .order("created_at", { ascending: status === "pending" });
+
+    if (validatedFilters.hotelId) {
+      queryBuilder = queryBuilder.eq("hotel_id", validatedFilters.hotelId);
+    }
+
+    const { data, error, count } = await queryBuilder.range(from, from + perPage - 1);
+
+    if (error) {
+      logger.error("Failed to fetch reviews", { error: error.message });
+      throw new Error("Failed to fetch reviews");
+    }
+
+    return c.json({
+      reviews: ((data ?? []) as HotelReviewRow[]).map(toModeratedHotelReview),
+      pagination: {
+        page,
+        perPage,
+        total: count || 0,
+        totalPages: Math.ceil((count || 0) / perPage),
+      },
+    });
+  } catch (error) {
+    if (error instanceof Error && error.name === "ZodError") {
+      throw new ValidationError("Invalid filter parameters", error);
+    }
+    throw error;
+  }
+});
+
+/**
+ * PUT /api/admin/reviews/:id/moderation
+ * Approve or reject a review (approved reviews count in hotel scores)
+ * A moderated review can be moderated again, e.g. to withdraw an approval
+ */
+admin.put("/reviews/:id/moderation", async (c) => {
+  const logger = createLogger(c.var);
+  const userId = c.get("userId");
+  const id = Number(c.req.param("id"));
+
+  try {
+    if (!Number.isInteger(id) || id <= 0) {
+      throw new ValidationError("Review id must be a positive integer");
+    }
+    const body = await c.req.json();
+    const validatedData = reviewModerationSchema.parse(body);
+
+    const { data, error } = await createServiceClient(c.env)
+      .from("hotel_reviews")
+      .update({
+        status: validatedData.status,
+        moderation_note: validatedData.note ?? null,
+        moderated_by: userId,
+        moderated_at: new Date().toISOString(),
+      })
+      .eq("id", id)
+      .select("*")
+      .maybeSingle();
+
+    if (error) {
+      logger.error("Failed to moderate review", { error: error.message });
+      throw new Error("Failed to moderate review");
+    }
+    if (!data) {
+      throw new NotFoundError("Review not found");
+    }
+
+    clearReviewScoresCache();
+
+    logger.info("Review moderated", { userId, id, hotelId: data.hotel_id, status: validatedData.status });
+    return c.json({ review: toModeratedHotelReview(data as HotelReviewRow) });
+  } catch (error) {
+    if (error instanceof Error && error.name === "ZodError") {
+      throw new ValidationError("Invalid moderation", error);
+    }
+    throw error;
+  }
+});
+
 /**
  * GET /api/admin/bookings
  * List bookings with filters (status, date range, pagination)
@@ -6,9 +6,10 @@
 import { Hono } from "hono";
 import type { Env, HonoVariables } from "../types/env";
 import { createServiceClient, createAnonClient } from "../clients/supabaseClient";
-import { guestSessionSchema, registerSchema, loginSchema } from "../utils/validation";
+import { guestSessionSchema, registerSchema, loginSchema, uuidSchema } from "../utils/validation";
 import { createLogger } from "../utils/logger";
-import { ValidationError } from "../middleware/errorHandler";
+import { mergeGuestFavorites } from "../utils/favorites";
+import { AuthenticationError, NotFoundError, ValidationError } from "../middleware/errorHandler";
 
 const auth = new Hono<{ Bindings: Env; Variables: HonoVariables }>();
 
@@ -58,6 +59,62 @@ auth.post("/guest", async (c) => {
   }
 });
 
+// Postgres foreign_key_violation (bookings still reference the session)
+const FOREIGN_KEY_VIOLATION = "23503";
+
+/**
+ * DELETE /auth/guest
+ * End the guest session (X-Guest-Session-ID header or cookie)
+ * The session is deleted with its history, favorites and price watches. A
+ * session that made bookings is kept for them: it is expired and its
+ * browsing history cleared instead
+ */
+auth.delete("/guest", async (c) => {
+  const logger = createLogger(c.var);
+  const guestSessionId = c.get("guestSessionId");
+
+  if (!guestSessionId) {
+    throw new AuthenticationError("Guest session required");
+  }
+  const sessionId = uuidSchema.safeParse(guestSessionId);
+  if (!sessionId.success) {
+    throw new AuthenticationError("Invalid guest session");
+  }
+
+  const supabase = createServiceClient(c.env);
+  const { data, error } = await supabase
+    .from("guest_sessions")
+    .delete()
+    .eq("id", sessionId.data)
+    .select("id")
+    .maybeSingle();
+
+  if (error?.code === FOREIGN_KEY_VIOLATION) {
+    const [expireResult, historyResult] = await Promise.all([
+      supabase.from("guest_sessions").update({ expires_at: new Date().toISOString() }).eq("id", sessionId.data),
+      supabase.from("browsing_history").delete().eq("guest_session_id", sessionId.data),
+    ]);
+    const cleanupError = expireResult.error ?? historyResult.error;
+    if (cleanupError) {
+      logger.error("Failed to end guest session", { error: cleanupError.message });
+      throw new Error("Failed to end guest session");
+    }
+
+    logger.info("Guest session expired (kept for its bookings)", { sessionId: sessionId.data });
+    return c.json({ deleted: false, expired: true, sessionId: sessionId.data });
+  }
+  if (error) {
+    logger.error("Failed to delete guest session", { error: error.message });
+    throw new Error("Failed to delete guest session");
+  }
+  if (!data) {
+    throw new NotFoundError("Guest session not found");
+  }
+
+  logger.info("Guest session deleted", { sessionId: sessionId.data });
+  return c.json({ deleted: true, sessionId: sessionId.data });
+});
+
 /**
  * POST /auth/register
  * Register a new user via Supabase Auth
@@ -120,6 +177,7 @@ auth.post("/register", async (c) => {
 /**
  * POST /auth/login
  * Login a user via Supabase Auth
+ * With a guest session, its favorite hotels are merged into the account
  */
 auth.post("/login", async (c) => {
   const logger = createLogger(c.var);
@@ -149,6 +207,14 @@ auth.post("/login", async (c) => {
 
     logger.info("User logged in successfully", { userId: data.user.id });
 
+    const guestSessionId = c.get("guestSessionId");
+    const mergedFavorites = guestSessionId
+      ? await mergeGuestFavorites(createServiceClient(c.env), guestSessionId, data.user.id, logger)
+      : 0;
+    if (mergedFavorites > 0) {
+      logger.info("Guest favorites merged", { userId: data.user.id, mergedFavorites });
+    }
+
     return c.json({
       user: {
         id: data.user.id,
@@ -159,6 +225,7 @@ auth.post("/login", async (c) => {
         refreshToken: data.session.refresh_token,
         expiresAt: data.session.expires_at,
       },
+      mergedFavorites,
     });
   } catch (error) {
     if (error instanceof Error && error.name === "ZodError") {
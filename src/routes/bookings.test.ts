@@ -1,12 +1,22 @@
 /**
  * Tests for Booking Validation
- * Validates request schema and payload building for booking flow
+ * Validates request schema, payload building and prebook pre-validation
  */
 
-import { describe, it, expect } from "vitest";
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { Hono } from "hono";
+import type { Env, HonoVariables } from "../types/env";
 import { bookingCreateSchema, searchParamsSchema, selectedOfferSchema, tokenFreeBookingSchema } from "../utils/validation";
 import { buildBookingCreationPayload } from "../clients/mygoClient";
 import type { MyGoCredential } from "../types/mygo";
+import { errorHandler } from "../middleware/errorHandler";
+import { learnFromDetail } from "../utils/occupancyPolicy";
+import { clearOccupancyPolicyCache, rememberOccupancyPolicy } from "../cache/occupancyPolicyCache";
+import { signOfferReference, verifyOfferReference, OFFER_REFERENCE_VERSION } from "../utils/offerReference";
+import { signBookingAccess, BOOKING_ACCESS_LINK_TTL_MS } from "../utils/bookingAccess";
+import { computeCancellationQuote } from "../utils/bookingCancellation";
+import { clearPricingRulesCache } from "../cache/pricingRulesCache";
+import bookings from "./bookings";
 
 describe("Booking Validation Schema", () => {
   describe("bookingCreateSchema - Token validation", () => {
@@ -991,3 +1001,1406 @@ describe("Token-Free Booking - MyGo Validation Errors", () => {
     });
   });
 });
+
+describe("POST /bookings/prebook - occupancy policy", () => {
+  const mockEnv = {
+    MYGO_LOGIN: "test-login",
+    MYGO_PASSWORD: "test-password",
+    SUPABASE_URL: "https://test.supabase.co",
+    SUPABASE_SERVICE_ROLE_KEY: "test-service-key",
+  } as Env;
+
+  const buildApp = () => {
+    const app = new Hono<{ Bindings: Env; Variables: HonoVariables }>();
+    app.onError(errorHandler());
+    app.use("/*", async (c, next) => {
+      c.set("guestSessionId", "guest-session-1");
+      await next();
+    });
+    app.route("/bookings", bookings);
+    return app;
+  };
+
+  const prebookBody = {
+    searchParams: {
+      cityId: 10,
+      checkIn: "2026-07-01",
+      checkOut: "2026-07-05",
+      rooms: [{ adults: 2, childrenAges: [14] }],
+    },
+    selectedOffer: { hotelId: 101, roomId: 1 },
+    rooms: [
+      {
+        id: 1,
+        boarding: "BB",
+        pax: {
+          adults: [
+            { firstName: "Amine", lastName: "Ben Ali", nationality: "TN" },
+            { firstName: "Sarra", lastName: "Ben Ali", nationality: "TN" },
+          ],
+          children: [{ firstName: "Youssef", lastName: "Ben Ali", nationality: "TN", age: 14 }],
+        },
+      },
+    ],
+    customer: {
+      firstName: "Amine",
+      lastName: "Ben Ali",
+      email: "amine@example.com",
+      phone: "+21612345678",
+      nationality: "TN",
+    },
+  };
+
+  afterEach(() => {
+    clearOccupancyPolicyCache();
+    vi.restoreAllMocks();
+  });
+
+  it("should reject a child above the hotel's child age before calling myGO", async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    rememberOccupancyPolicy(learnFromDetail(101, { childAgeMax: 11 })!);
+    const fetchSpy = vi.spyOn(globalThis, "fetch");
+
+    const res = await buildApp().request(
+      "/bookings/prebook",
+      {
+        method: "POST",
+        headers: { "Content-Type": "application/json", "Accept-Language": "en-US,en;q=0.9" },
+        body: JSON.stringify(prebookBody),
+      },
+      mockEnv
+    );
+
+    expect(res.status).toBe(400);
+    const data = (await res.json()) as Record<string, any>;
+    expect(data.error).toBe("Occupancy not accepted by this hotel");
+    expect(data.details.map((detail: { field: string }) => detail.field)).toEqual([
+      "searchParams.rooms[0].childrenAges[0]",
+      "rooms[0].pax.children[0].age",
+    ]);
+    expect(data.details[0]).toMatchObject({ code: "CHILD_AGE_ABOVE_LIMIT", limit: 11, hotelId: 101 });
+    expect(fetchSpy).not.toHaveBeenCalled();
+  });
+});
+
+describe("POST /bookings/prebook - offer drift", () => {
+  const mockEnv = {
+    MYGO_LOGIN: "test-login",
+    MYGO_PASSWORD: "test-password",
+    SUPABASE_URL: "https://test.supabase.co",
+    SUPABASE_SERVICE_ROLE_KEY: "test-service-key",
+    JWT_SECRET: "test-jwt-secret",
+  } as Env;
+
+  const searchParams = {
+    cityId: 10,
+    checkIn: "2026-07-01",
+    checkOut: "2026-07-05",
+    rooms: [{ adults: 2 }],
+  };
+
+  const freshSearchResponse = {
+    HotelSearch: [
+      {
+        Token: "fresh-search-token",
+        Hotel: { Id: 101, Name: "Hotel Sousse Palace", City: { Id: 10, Name: "Sousse" } },
+        Price: {
+          Boarding: [
+            {
+              Code: "BB",
+              Name: "Logement petit déjeuner",
+              Pax: [{ Adult: 2, Rooms: [{ Id: 1, Name: "Double", Price: 265, StopReservation: false }] }],
+            },
+          ],
+        },
+      },
+    ],
+  };
+
+  const buildApp = () => {
+    const app = new Hono<{ Bindings: Env; Variables: HonoVariables }>();
+    app.onError(errorHandler());
+    app.use("/*", async (c, next) => {
+      c.set("guestSessionId", "guest-session-1");
+      await next();
+    });
+    app.route("/bookings", bookings);
+    return app;
+  };
+
+  const prebook = (selectedOffer: Record<string, unknown>) =>
+    buildApp().request(
+      "/bookings/prebook",
+      {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          searchParams,
+          selectedOffer,
+          rooms: [
+            {
+              id: selectedOffer.roomId,
+              boarding: "BB",
+              pax: {
+                adults: [
+                  { firstName: "Amine", lastName: "Ben Ali", nationality: "TN" },
+                  { firstName: "Sarra", lastName: "Ben Ali", nationality: "TN" },
+                ],
+              },
+            },
+          ],
+          customer: {
+            firstName: "Amine",
+            lastName: "Ben Ali",
+            email: "amine@example.com",
+            phone: "+21612345678",
+            nationality: "TN",
+          },
+        }),
+      },
+      mockEnv
+    );
+
+  const signedOffer = (roomId: number, price: number) =>
+    signOfferReference(
+      {
+        v: OFFER_REFERENCE_VERSION,
+        hotelId: 101,
+        roomId,
+        boardCode: "BB",
+        price,
+        currency: "TND",
+        ...searchParams,
+        issuedAt: Date.now(),
+      },
+      "test-jwt-secret"
+    );
+
+  const mockFreshSearch = (pricingRules: unknown[] = []) => {
+    const calls: string[] = [];
+    vi.spyOn(globalThis, "fetch").mockImplementation(async (input) => {
+      const url = typeof input === "string" ? input : input instanceof URL ? input.href : input.url;
+      calls.push(url);
+      const body = url.includes("/rest/v1/pricing_rules") ? pricingRules : freshSearchResponse;
+      return new Response(JSON.stringify(body), {
+        status: 200,
+        headers: { "Content-Type": "application/json" },
+      });
+    });
+    return calls;
+  };
+
+  afterEach(() => {
+    clearPricingRulesCache();
+    vi.restoreAllMocks();
+  });
+
+  it("should return PRICE_CHANGED with the new price instead of booking", async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    const calls = mockFreshSearch();
+
+    const res = await prebook({ hotelId: 101, roomId: 1, offerRef: await signedOffer(1, 250) });
+
+    expect(res.status).toBe(409);
+    const data = (await res.json()) as Record<string, any>;
+    expect(data.code).toBe("PRICE_CHANGED");
+    expect(data.offer).toMatchObject({ hotelId: 101, roomId: 1, previousPrice: 250, newPrice: 265, currency: "TND" });
+    expect(await verifyOfferReference(data.offer.offerRef, "test-jwt-secret")).toMatchObject({
+      valid: true,
+      snapshot: { price: 265 },
+    });
+    // Only the fresh search ran: no BookingCreation call
+    expect(calls.filter((url) => url.includes("mygo.co")).every((url) => url.endsWith("/HotelSearch"))).toBe(true);
+  });
+
+  it("should compare the offer with the fresh price after pricing rules", async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    mockFreshSearch([
+      {
+        id: 3,
+        name: "Sousse +10%",
+        active: true,
+        priority: 0,
+        hotel_ids: null,
+        city_ids: [10],
+        stars: null,
+        board_types: null,
+        stay_from: null,
+        stay_to: null,
+        booking_window_min: null,
+        booking_window_max: null,
+        channels: null,
+        markup_type: "percent",
+        markup_value: "10.000",
+        rounding_step: "1.000",
+        rounding_mode: "up",
+        min_price: null,
+        max_price: null,
+        note: null,
+        updated_at: null,
+      },
+    ]);
+
+    const res = await prebook({ hotelId: 101, roomId: 1, offerRef: await signedOffer(1, 280) });
+
+    expect(res.status).toBe(409);
+    // 265 supplier price + 10% = 291.5, rounded up to 292
+    expect(((await res.json()) as Record<string, any>).offer).toMatchObject({ previousPrice: 280, newPrice: 292 });
+  });
+
+  it("should return ROOM_UNAVAILABLE when the room is gone from the fresh search", async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    mockFreshSearch();
+
+    const res = await prebook({ hotelId: 101, roomId: 7, offerRef: await signedOffer(7, 250) });
+
+    expect(res.status).toBe(409);
+    const data = (await res.json()) as Record<string, any>;
+    expect(data.code).toBe("ROOM_UNAVAILABLE");
+    expect(data.offer).toMatchObject({ roomId: 7, previousPrice: 250, newPrice: null });
+  });
+
+  it("should compare selectedOffer.price when no offer reference is sent", async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    mockFreshSearch();
+
+    const res = await prebook({ hotelId: 101, roomId: 1, boardCode: "BB", price: 240 });
+
+    expect(res.status).toBe(409);
+    expect(((await res.json()) as Record<string, any>).offer).toMatchObject({ previousPrice: 240, newPrice: 265 });
+  });
+
+  it("should reject a tampered offer reference before calling myGO", async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    const fetchSpy = vi.spyOn(globalThis, "fetch");
+    const [payload] = (await signedOffer(1, 100)).split(".");
+    const [, signature] = (await signedOffer(1, 250)).split(".");
+
+    const res = await prebook({ hotelId: 101, roomId: 1, offerRef: `${payload}.${signature}` });
+
+    expect(res.status).toBe(400);
+    expect(((await res.json()) as Record<string, any>).error).toBe("Invalid offer reference");
+    expect(fetchSpy).not.toHaveBeenCalled();
+  });
+});
+
+describe("POST /bookings/prebook - promo codes", () => {
+  const mockEnv = {
+    MYGO_LOGIN: "test-login",
+    MYGO_PASSWORD: "test-password",
+    SUPABASE_URL: "https://test.supabase.co",
+    SUPABASE_SERVICE_ROLE_KEY: "test-service-key",
+  } as Env;
+
+  const promoRow = {
+    id: 4,
+    code: "SOUSSE10",
+    description: null,
+    active: true,
+    discount_type: "percent",
+    discount_value: "10.000",
+    max_discount: null,
+    valid_from: null,
+    valid_to: null,
+    max_redemptions: null,
+    max_redemptions_per_customer: 1,
+    min_nights: null,
+    min_amount: null,
+    city_ids: [10],
+    hotel_ids: null,
+    updated_at: null,
+  };
+
+  const buildApp = () => {
+    const app = new Hono<{ Bindings: Env; Variables: HonoVariables }>();
+    app.onError(errorHandler());
+    app.use("/*", async (c, next) => {
+      c.set("guestSessionId", "guest-session-1");
+      await next();
+    });
+    app.route("/bookings", bookings);
+    return app;
+  };
+
+  const prebook = (cityId: number, promoCode: string) =>
+    buildApp().request(
+      "/bookings/prebook",
+      {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          searchParams: { cityId, checkIn: "2026-07-01", checkOut: "2026-07-05", rooms: [{ adults: 1 }] },
+          selectedOffer: { hotelId: 101, roomId: 1 },
+          rooms: [
+            { id: 1, boarding: "BB", pax: { adults: [{ firstName: "Amine", lastName: "Ben Ali", nationality: "TN" }] } },
+          ],
+          customer: {
+            firstName: "Amine",
+            lastName: "Ben Ali",
+            email: "Amine@example.com",
+            phone: "+21612345678",
+            nationality: "TN",
+          },
+          promoCode,
+        }),
+      },
+      mockEnv
+    );
+
+  const searchResponse = {
+    HotelSearch: [
+      {
+        Token: "promo-search-token",
+        Hotel: { Id: 101, Name: "Hotel Sousse Palace", City: { Id: 10, Name: "Sousse" } },
+        Price: {
+          Boarding: [
+            {
+              Code: "BB",
+              Name: "Logement petit déjeuner",
+              Pax: [{ Adult: 1, Rooms: [{ Id: 1, Name: "Single", Price: 400, StopReservation: false }] }],
+            },
+          ],
+        },
+      },
+    ],
+  };
+
+  // promo_codes lookups return promoRow; the reservation reports `rejection`
+  // (reserved as redemption 77 without one)
+  const mockPromoBackends = (options: { rejection?: string; failBooking?: boolean } = {}) => {
+    const calls: Array<{ method: string; url: string; body: any }> = [];
+    vi.spyOn(globalThis, "fetch").mockImplementation(async (input, init) => {
+      const url = decodeURIComponent(typeof input === "string" ? input : input instanceof URL ? input.href : input.url);
+      const method = init?.method ?? "GET";
+      calls.push({ method, url, body: init?.body ? JSON.parse(String(init.body)) : null });
+      const json = (body: unknown) =>
+        new Response(JSON.stringify(body), { status: 200, headers: { "Content-Type": "application/json" } });
+      if (url.includes("/rest/v1/rpc/reserve_promo_redemption")) {
+        return json(
+          options.rejection ? { redemption_id: null, rejection: options.rejection } : { redemption_id: 77, rejection: null }
+        );
+      }
+      if (url.startsWith("https://admin.mygo.co")) {
+        if (url.endsWith("/HotelSearch")) {
+          return json(searchResponse);
+        }
+        return json(
+          options.failBooking
+            ? { ErrorMessage: { Code: "500", Description: "Booking refused" } }
+            : { BookingId: 9001, State: "Confirmed", TotalPrice: 400 }
+        );
+      }
+      if (url.includes("/rest/v1/bookings") && method === "POST") {
+        return json({ id: "booking-9001" });
+      }
+      return json(url.includes("code=eq.SOUSSE10") ? [promoRow] : []);
+    });
+    return calls;
+  };
+
+  const promoWrites = (calls: Array<{ method: string; url: string; body: any }>) =>
+    calls.filter((call) => call.url.includes("/rest/v1/promo_redemptions") && call.method === "PATCH");
+
+  afterEach(() => {
+    clearPricingRulesCache();
+    vi.restoreAllMocks();
+  });
+
+  it("should reject unknown and ineligible codes before calling myGO", async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    const calls = mockPromoBackends();
+
+    const unknown = await prebook(10, "nope99");
+    const otherCity = await prebook(20, "sousse10");
+
+    expect(unknown.status).toBe(400);
+    expect(await unknown.json()).toMatchObject({
+      error: "Unknown promo code",
+      details: [{ field: "promoCode", code: "NOT_FOUND" }],
+    });
+    expect(otherCity.status).toBe(400);
+    expect(await otherCity.json()).toMatchObject({ details: [{ code: "CITY_NOT_ELIGIBLE" }] });
+    expect(calls.some((call) => call.url.includes("mygo.co") || call.url.includes("/rpc/"))).toBe(false);
+  });
+
+  it("should report a usage limit reached by the reservation before booking at myGO", async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    const calls = mockPromoBackends({ rejection: "CUSTOMER_LIMIT" });
+
+    const res = await prebook(10, "SOUSSE10");
+
+    expect(res.status).toBe(400);
+    expect(await res.json()).toMatchObject({
+      error: "You have already used this promo code",
+      details: [{ field: "promoCode", code: "CUSTOMER_LIMIT" }],
+    });
+    const reservation = calls.find((call) => call.url.includes("/rpc/reserve_promo_redemption"))!;
+    expect(reservation.body).toMatchObject({ p_promo_code_id: 4, p_customer_email: "amine@example.com", p_user_id: null });
+    expect(calls.some((call) => call.url.endsWith("/BookingCreation"))).toBe(false);
+  });
+
+  it("should reserve the code before booking at myGO and attach it to the stored booking", async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    const calls = mockPromoBackends();
+
+    const res = await prebook(10, "SOUSSE10");
+
+    expect(res.status).toBe(200);
+    expect(await res.json()).toMatchObject({ totalPrice: 360, promo: { code: "SOUSSE10", applied: true, discount: 40 } });
+    const reservationIndex = calls.findIndex((call) => call.url.includes("/rpc/reserve_promo_redemption"));
+    const bookingIndex = calls.findIndex((call) => call.url.endsWith("/BookingCreation"));
+    expect(reservationIndex).toBeGreaterThan(-1);
+    expect(reservationIndex).toBeLessThan(bookingIndex);
+    const [attach] = promoWrites(calls);
+    expect(attach.url).toContain("id=eq.77");
+    expect(attach.body).toEqual({ booking_id: "booking-9001", discount_amount: 40, status: "reserved" });
+  });
+
+  it("should release the reservation when myGO fails", async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const calls = mockPromoBackends({ failBooking: true });
+
+    const res = await prebook(10, "SOUSSE10");
+
+    expect(res.status).toBe(502);
+    const [release] = promoWrites(calls);
+    expect(release.url).toContain("id=eq.77");
+    expect(release.url).toContain("status=eq.reserved");
+    expect(release.body).toMatchObject({ status: "released" });
+  });
+});
+
+describe("POST /bookings/:id/cancel", () => {
+  const mockEnv = {
+    MYGO_LOGIN: "test-login",
+    MYGO_PASSWORD: "test-password",
+    SUPABASE_URL: "https://test.supabase.co",
+    SUPABASE_SERVICE_ROLE_KEY: "test-service-key",
+    PAYMENT_TEST_MODE: "true",
+  } as Env;
+
+  const bookingId = "5b1f8f5e-2d7a-4c59-9a0e-3f1c6d2b8a41";
+
+  const bookingRow = {
+    id: bookingId,
+    status: "confirmed",
+    payment_status: "authorized",
+    mygo_booking_id: 5001,
+    check_in: "2099-07-10",
+    total_price: 550,
+    supplier_price: 500,
+    discount_amount: 0,
+    currency: "TND",
+    user_id: null,
+    guest_session_id: "guest-session-1",
+  };
+
+  const paymentRow = { id: "payment-1", order_id: "order-1", amount: 550, status: "authorized" };
+
+  const buildApp = (guestSessionId = "guest-session-1") => {
+    const app = new Hono<{ Bindings: Env; Variables: HonoVariables }>();
+    app.onError(errorHandler());
+    app.use("/*", async (c, next) => {
+      c.set("guestSessionId", guestSessionId);
+      await next();
+    });
+    app.route("/bookings", bookings);
+    return app;
+  };
+
+  const jsonResponse = (body: unknown) =>
+    new Response(JSON.stringify(body), { status: 200, headers: { "Content-Type": "application/json" } });
+
+  const mockBackends = (fees: number[]) => {
+    const writes: Array<{ url: string; body: any }> = [];
+    const cancellations: any[] = [];
+    vi.spyOn(globalThis, "fetch").mockImplementation(async (input, init) => {
+      const url = typeof input === "string" ? input : input instanceof URL ? input.href : input.url;
+      const method = init?.method ?? "GET";
+      if (url.endsWith("/BookingCancellation")) {
+        cancellations.push(JSON.parse(String(init?.body)));
+        const fee = fees[Math.min(cancellations.length - 1, fees.length - 1)];
+        return jsonResponse({ BookingCancellation: { CancellationFee: fee, State: "Cancelled" } });
+      }
+      if (method !== "GET") {
+        writes.push({ url, body: init?.body ? JSON.parse(String(init.body)) : null });
+        return jsonResponse(method === "PATCH" ? [{ id: "updated" }] : []);
+      }
+      if (url.includes("/rest/v1/bookings")) {
+        return jsonResponse(bookingRow);
+      }
+      if (url.includes("/rest/v1/payments")) {
+        return jsonResponse([paymentRow]);
+      }
+      return jsonResponse([]);
+    });
+    return { writes, cancellations };
+  };
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("should quote the penalty without cancelling", async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    const { writes, cancellations } = mockBackends([200]);
+
+    const res = await buildApp().request(`/bookings/${bookingId}/cancel/quote`, { method: "POST" }, mockEnv);
+
+    expect(res.status).toBe(200);
+    const data = (await res.json()) as Record<string, any>;
+    expect(data.quote).toMatchObject({ paidAmount: 550, penalty: 220, refundAmount: 330, freeCancellation: false });
+    expect(cancellations[0]).toMatchObject({ Booking: 5001, PreCancelled: true });
+    expect(writes).toEqual([]);
+  });
+
+  it("should hide bookings of another guest session", async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    const { cancellations } = mockBackends([200]);
+
+    const res = await buildApp("guest-session-2").request(
+      `/bookings/${bookingId}/cancel/quote`,
+      { method: "POST" },
+      mockEnv
+    );
+
+    expect(res.status).toBe(404);
+    expect(cancellations).toEqual([]);
+  });
+
+  it("should reject a confirmation when the penalty went up", async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    const { cancellations } = mockBackends([300]);
+
+    const res = await buildApp().request(
+      `/bookings/${bookingId}/cancel/confirm`,
+      { method: "POST", headers: { "Content-Type": "application/json" }, body: JSON.stringify({ acceptedPenalty: 220 }) },
+      mockEnv
+    );
+
+    expect(res.status).toBe(400);
+    const data = (await res.json()) as Record<string, any>;
+    expect(data.details[0]).toMatchObject({ field: "acceptedPenalty", code: "PENALTY_CHANGED" });
+    expect(cancellations).toHaveLength(1);
+  });
+
+  it("should cancel at myGO and capture only the penalty", async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    const { writes, cancellations } = mockBackends([200]);
+
+    const res = await buildApp().request(
+      `/bookings/${bookingId}/cancel/confirm`,
+      { method: "POST", headers: { "Content-Type": "application/json" }, body: JSON.stringify({ acceptedPenalty: 220 }) },
+      mockEnv
+    );
+
+    expect(res.status).toBe(200);
+    const data = (await res.json()) as Record<string, any>;
+    expect(data).toMatchObject({
+      bookingId,
+      status: "cancelled",
+      penalty: 220,
+      refundAmount: 330,
+      refund: { action: "capture", status: "completed" },
+    });
+    expect(cancellations.map((payload) => payload.PreCancelled)).toEqual([true, false]);
+
+    const paymentUpdate = writes.find((write) => write.url.includes("/rest/v1/payments"));
+    expect(paymentUpdate?.body).toMatchObject({ status: "captured", captured_amount: 220 });
+    const bookingUpdate = writes.find((write) => write.url.includes("/rest/v1/bookings"));
+    expect(bookingUpdate?.body).toMatchObject({
+      status: "cancelled",
+      mygo_state: "Cancelled",
+      cancellation_penalty: 220,
+      refund_amount: 330,
+      refund_status: "completed",
+      payment_status: "captured",
+    });
+    expect(writes.some((write) => write.url.includes("/rest/v1/promo_redemptions"))).toBe(true);
+  });
+});
+
+describe("POST /bookings/:id/amend", () => {
+  const mockEnv = {
+    MYGO_LOGIN: "test-login",
+    MYGO_PASSWORD: "test-password",
+    SUPABASE_URL: "https://test.supabase.co",
+    SUPABASE_SERVICE_ROLE_KEY: "test-service-key",
+    PAYMENT_TEST_MODE: "true",
+  } as Env;
+
+  const bookingId = "5b1f8f5e-2d7a-4c59-9a0e-3f1c6d2b8a41";
+  const amendmentId = "0c2a9e57-6b1d-4f43-8d6e-2a7c9b5f1e30";
+
+  const bookingRow = {
+    id: bookingId,
+    status: "confirmed",
+    payment_status: "authorized",
+    mygo_booking_id: 5001,
+    hotel_id: 101,
+    check_in: "2099-07-10",
+    check_out: "2099-07-13",
+    total_price: 500,
+    supplier_price: 500,
+    discount_amount: 0,
+    amendment_fees: 0,
+    currency: "TND",
+    user_id: null,
+    guest_session_id: "guest-session-1",
+    customer_first_name: "Amine",
+    customer_last_name: "Ben Ali",
+    customer_email: "amine@example.com",
+    customer_phone: "+21612345678",
+    pricing_snapshot: null,
+    promo_code_id: null,
+    display_currency: null,
+    exchange_rate: null,
+    exchange_rate_id: null,
+    created_at: "2099-06-01T10:00:00Z",
+  };
+
+  const paymentRow = { id: "payment-1", order_id: "order-1", amount: 500, status: "authorized", amendment_id: null };
+
+  const amendmentBody = {
+    checkIn: "2099-07-11",
+    checkOut: "2099-07-14",
+    rooms: [{ adults: 2, childrenAges: [6] }],
+  };
+
+  const searchResponse = (price: number) => ({
+    HotelSearch: [
+      {
+        Token: "amend-token",
+        Hotel: { Id: 101, Name: "Hotel Sousse Palace", City: { Id: 10, Name: "Sousse" } },
+        Price: {
+          Boarding: [
+            {
+              Code: "HB",
+              Name: "Demi pension",
+              Pax: [{ Adult: 2, Child: [6], Rooms: [{ Id: 7, Name: "Family", Price: price, StopReservation: false }] }],
+            },
+          ],
+        },
+      },
+    ],
+  });
+
+  const buildApp = (access: { guestSessionId?: string; bookingAccessId?: string } = { guestSessionId: "guest-session-1" }) => {
+    const app = new Hono<{ Bindings: Env; Variables: HonoVariables }>();
+    app.onError(errorHandler());
+    app.use("/*", async (c, next) => {
+      if (access.guestSessionId) {
+        c.set("guestSessionId", access.guestSessionId);
+      }
+      if (access.bookingAccessId) {
+        c.set("bookingAccessId", access.bookingAccessId);
+      }
+      await next();
+    });
+    app.route("/bookings", bookings);
+    return app;
+  };
+
+  const jsonResponse = (body: unknown) =>
+    new Response(JSON.stringify(body), { status: 200, headers: { "Content-Type": "application/json" } });
+
+  const mockBackends = (options: {
+    booking?: Record<string, unknown>;
+    promo?: Record<string, unknown>;
+    price: number;
+    bookedPrice?: number;
+    fee?: number;
+    failCancel?: boolean;
+    amendment?: Record<string, unknown>;
+    payments?: unknown[];
+  }) => {
+    const writes: Array<{ method: string; url: string; body: any }> = [];
+    const mygo: Array<{ service: string; body: any }> = [];
+    vi.spyOn(globalThis, "fetch").mockImplementation(async (input, init) => {
+      const url = typeof input === "string" ? input : input instanceof URL ? input.href : input.url;
+      const method = init?.method ?? "GET";
+      if (url.startsWith("https://admin.mygo.co")) {
+        const service = url.split("/").pop()!;
+        const body = JSON.parse(String(init?.body));
+        mygo.push({ service, body });
+        if (service === "HotelSearch") {
+          return jsonResponse(searchResponse(options.price));
+        }
+        if (service === "BookingCreation") {
+          return jsonResponse({ BookingId: 6001, State: "Confirmed", TotalPrice: options.bookedPrice ?? options.price });
+        }
+        if (service === "BookingCancellation" && !body.PreCancelled && body.Booking === 5001 && options.failCancel) {
+          return jsonResponse({ ErrorMessage: { Code: "500", Description: "Cancellation refused" } });
+        }
+        return jsonResponse({ BookingCancellation: { CancellationFee: options.fee ?? 0, State: "Cancelled" } });
+      }
+      if (method !== "GET") {
+        writes.push({ method, url, body: init?.body ? JSON.parse(String(init.body)) : null });
+        if (url.includes("/rest/v1/booking_amendments") && method === "POST") {
+          return jsonResponse({ id: amendmentId });
+        }
+        if (url.includes("/rest/v1/booking_amendments") && method === "PATCH") {
+          return jsonResponse([{ id: amendmentId }]);
+        }
+        return jsonResponse(method === "PATCH" ? [{ id: "updated" }] : []);
+      }
+      if (url.includes("/rest/v1/bookings")) {
+        return jsonResponse({ ...bookingRow, ...options.booking });
+      }
+      if (url.includes("/rest/v1/payments")) {
+        return jsonResponse(options.payments ?? [paymentRow]);
+      }
+      if (url.includes("/rest/v1/promo_codes")) {
+        return jsonResponse(options.promo ?? null);
+      }
+      if (url.includes("/rest/v1/inventory_hotels")) {
+        return jsonResponse({ city_id: 10 });
+      }
+      if (url.includes("/rest/v1/booking_amendments")) {
+        return jsonResponse(options.amendment ?? null);
+      }
+      return jsonResponse([]);
+    });
+    return { writes, mygo };
+  };
+
+  const post = (path: string, body: unknown) =>
+    buildApp().request(
+      `/bookings/${bookingId}/amend/${path}`,
+      { method: "POST", headers: { "Content-Type": "application/json" }, body: JSON.stringify(body) },
+      mockEnv
+    );
+
+  afterEach(() => {
+    clearPricingRulesCache();
+    vi.restoreAllMocks();
+  });
+
+  it("should quote the new stay with the penalty of the current booking", async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    const { writes, mygo } = mockBackends({ price: 560, fee: 50 });
+
+    const res = await post("quote", amendmentBody);
+
+    expect(res.status).toBe(200);
+    const data = (await res.json()) as Record<string, any>;
+    expect(data.quote).toMatchObject({ currentTotal: 500, paidAmount: 500, penalty: 50 });
+    expect(data.quote.offers).toEqual([
+      expect.objectContaining({
+        roomId: 7,
+        boardCode: "HB",
+        price: 560,
+        priceDifference: 110,
+        settlement: { action: "preauth", amount: 610 },
+      }),
+    ]);
+    const search = mygo.find((call) => call.service === "HotelSearch")!.body.SearchDetails;
+    expect(search.City).toBe(10);
+    expect(search.BookingDetails).toMatchObject({ CheckIn: "2099-07-11", CheckOut: "2099-07-14" });
+    expect(writes).toEqual([]);
+  });
+
+  it("should let the holder of a booking access token amend a guest booking", async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    mockBackends({ price: 560, booking: { guest_session_id: "expired-guest-session" } });
+
+    const request = (access: { bookingAccessId?: string }) =>
+      buildApp(access).request(
+        `/bookings/${bookingId}/amend/quote`,
+        { method: "POST", headers: { "Content-Type": "application/json" }, body: JSON.stringify(amendmentBody) },
+        mockEnv
+      );
+
+    expect((await request({ bookingAccessId: bookingId })).status).toBe(200);
+    expect((await request({ bookingAccessId: amendmentId })).status).toBe(404);
+  });
+
+  it("should work out the promo discount again on the new stay", async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    mockBackends({
+      price: 600,
+      booking: { promo_code_id: 3, discount_amount: 50, total_price: 500 },
+      promo: {
+        id: 3,
+        code: "ETE10",
+        description: null,
+        active: true,
+        discount_type: "percent",
+        discount_value: "10",
+        max_discount: null,
+        valid_from: null,
+        valid_to: null,
+        max_redemptions: null,
+        max_redemptions_per_customer: null,
+        min_nights: null,
+        min_amount: null,
+        city_ids: null,
+        hotel_ids: null,
+        updated_at: null,
+      },
+    });
+
+    const res = await post("quote", amendmentBody);
+
+    expect(res.status).toBe(200);
+    const data = (await res.json()) as Record<string, any>;
+    expect(data.quote.offers[0]).toMatchObject({
+      price: 540,
+      discount: 60,
+      newTotal: 540,
+      priceDifference: 40,
+      settlement: { action: "preauth", amount: 540 },
+    });
+  });
+
+  it("should swap the myGO booking and capture only the new total", async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    const { writes, mygo } = mockBackends({ price: 440 });
+
+    const res = await post("confirm", { ...amendmentBody, roomId: 7, acceptedPriceDifference: -60 });
+
+    expect(res.status).toBe(200);
+    const data = (await res.json()) as Record<string, any>;
+    expect(data.booking).toMatchObject({ mygoBookingId: 6001, totalPrice: 440, previousTotal: 500, penalty: 0 });
+    expect(data.settlement).toEqual({ action: "capture", amount: 440, status: "completed" });
+    // New stay first, then the previous booking is cancelled
+    expect(mygo.map((call) => [call.service, call.body.PreCancelled])).toEqual([
+      ["HotelSearch", undefined],
+      ["BookingCancellation", true],
+      ["BookingCreation", undefined],
+      ["BookingCancellation", false],
+    ]);
+
+    const bookingUpdate = writes.find((write) => write.url.includes("/rest/v1/bookings"))!;
+    expect(bookingUpdate.body).toMatchObject({
+      mygo_booking_id: 6001,
+      check_in: "2099-07-11",
+      check_out: "2099-07-14",
+      adults: 2,
+      children: 1,
+      total_price: 440,
+      supplier_price: 440,
+      amendment_fees: 0,
+      payment_status: "captured",
+    });
+    expect(writes.find((write) => write.url.includes("/rest/v1/payments"))!.body).toMatchObject({
+      status: "captured",
+      captured_amount: 440,
+    });
+  });
+
+  it("should keep earlier amendment fees once when amending again", async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    const amend = async (options: Parameters<typeof mockBackends>[0], acceptedPriceDifference: number) => {
+      const { writes } = mockBackends(options);
+      const res = await post("confirm", { ...amendmentBody, roomId: 7, acceptedPriceDifference });
+      expect(res.status).toBe(200);
+      vi.restoreAllMocks();
+      vi.spyOn(console, "log").mockImplementation(() => {});
+      return writes.find((write) => write.url.includes("/rest/v1/bookings"))!.body;
+    };
+
+    // 50 TND penalty kept on the first swap, then 10% of the 440 TND stay
+    const first = await amend({ price: 440, fee: 50 }, -10);
+    expect(first).toMatchObject({ total_price: 490, amendment_fees: 50 });
+    const second = await amend(
+      {
+        price: 380,
+        fee: 44,
+        booking: { ...first, mygo_booking_id: 5001 },
+        payments: [{ ...paymentRow, status: "captured", captured_amount: 490 }],
+      },
+      -16
+    );
+    expect(second).toMatchObject({ total_price: 474, supplier_price: 380, amendment_fees: 94 });
+
+    const quote = computeCancellationQuote(
+      { ...bookingRow, ...second, status: "confirmed" },
+      { ...paymentRow, status: "captured", captured_amount: 474 },
+      0,
+      new Date("2099-06-15T10:00:00Z")
+    );
+    expect(quote).toMatchObject({ paidAmount: 474, penalty: 94, refundAmount: 380 });
+  });
+
+  it("should register a replacement pre-authorization before swapping a dearer stay", async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    const { writes, mygo } = mockBackends({ price: 560, fee: 50 });
+
+    const res = await post("confirm", {
+      ...amendmentBody,
+      roomId: 7,
+      acceptedPriceDifference: 110,
+      returnUrl: "https://www.hotel.com.tn/amend/success",
+      failUrl: "https://www.hotel.com.tn/amend/failed",
+    });
+
+    expect(res.status).toBe(202);
+    const data = (await res.json()) as Record<string, any>;
+    expect(data.amendment).toEqual({ id: amendmentId, status: "awaiting_payment" });
+    expect(data.payment).toMatchObject({ amount: 610, currency: "TND" });
+    expect(mygo.some((call) => call.service === "BookingCreation")).toBe(false);
+    expect(writes.find((write) => write.url.includes("/rest/v1/payments"))!.body).toMatchObject({
+      amendment_id: amendmentId,
+      amount: 610,
+      status: "pending",
+    });
+  });
+
+  it("should keep the current booking when the previous myGO booking cannot be cancelled", async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const { writes, mygo } = mockBackends({ price: 440, failCancel: true });
+
+    const res = await post("confirm", { ...amendmentBody, roomId: 7, acceptedPriceDifference: -60 });
+
+    expect(res.status).toBe(502);
+    // The new booking is cancelled again
+    expect(mygo.filter((call) => call.service === "BookingCancellation").map((call) => call.body.Booking)).toEqual([
+      5001, 5001, 6001,
+    ]);
+    expect(writes.some((write) => write.url.includes("/rest/v1/bookings"))).toBe(false);
+    expect(writes.find((write) => write.url.includes("/rest/v1/booking_amendments") && write.method === "PATCH")!.body)
+      .toMatchObject({ status: "failed" });
+  });
+
+  it("should complete a paid amendment and release the previous hold", async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    const replacement = {
+      id: "payment-2",
+      order_id: "order-2",
+      amount: 610,
+      status: "authorized",
+      amendment_id: amendmentId,
+      booking_amendments: { status: "awaiting_payment" },
+    };
+    const { writes } = mockBackends({
+      price: 560,
+      fee: 50,
+      payments: [replacement, paymentRow],
+      amendment: {
+        id: amendmentId,
+        booking_id: bookingId,
+        status: "awaiting_payment",
+        check_in: "2099-07-11",
+        check_out: "2099-07-14",
+        rooms: amendmentBody.rooms,
+        room_id: 7,
+        board_code: "HB",
+        accepted_price_difference: 110,
+      },
+    });
+
+    const res = await post("complete", { amendmentId });
+
+    expect(res.status).toBe(200);
+    const data = (await res.json()) as Record<string, any>;
+    expect(data.booking).toMatchObject({ mygoBookingId: 6001, totalPrice: 610, penalty: 50 });
+    expect(data.settlement).toEqual({ action: "preauth", amount: 610, status: "completed" });
+    // The previous hold (payment-1) is released, not the replacement
+    const paymentUpdates = writes.filter((write) => write.url.includes("/rest/v1/payments"));
+    expect(paymentUpdates).toHaveLength(1);
+    expect(paymentUpdates[0].url).toContain("id=eq.payment-1");
+    expect(paymentUpdates[0].body).toMatchObject({ status: "reversed" });
+    expect(writes.find((write) => write.url.includes("/rest/v1/bookings"))!.body).toMatchObject({
+      total_price: 610,
+      amendment_fees: 50,
+      payment_status: "authorized",
+    });
+  });
+});
+
+describe("GET /bookings", () => {
+  const mockEnv = {
+    MYGO_LOGIN: "test-login",
+    MYGO_PASSWORD: "test-password",
+    SUPABASE_URL: "https://test.supabase.co",
+    SUPABASE_SERVICE_ROLE_KEY: "test-service-key",
+  } as Env;
+
+  const summaryRow = (overrides: Record<string, unknown>) => ({
+    hotel_id: 101,
+    hotel_name: "Hotel Sousse Palace",
+    check_in: "2099-07-10",
+    check_out: "2099-07-13",
+    status: "confirmed",
+    payment_status: "authorized",
+    total_price: "500.000",
+    currency: "TND",
+    display_currency: null,
+    display_total_price: null,
+    mygo_state: "Pending",
+    created_at: "2099-06-01T10:00:00Z",
+    ...overrides,
+  });
+
+  const rows = [
+    summaryRow({ id: "booking-1", mygo_booking_id: 5001 }),
+    summaryRow({ id: "booking-2", mygo_booking_id: 5002, check_in: "2099-08-01", check_out: "2099-08-03" }),
+  ];
+
+  const buildApp = (userId?: string) => {
+    const app = new Hono<{ Bindings: Env; Variables: HonoVariables }>();
+    app.onError(errorHandler());
+    app.use("/*", async (c, next) => {
+      if (userId) {
+        c.set("userId", userId);
+      }
+      await next();
+    });
+    app.route("/bookings", bookings);
+    return app;
+  };
+
+  const mockBackends = (options: { rateLimitCount?: number } = {}) => {
+    const reads: string[] = [];
+    const writes: Array<{ url: string; body: any }> = [];
+    const lists: any[] = [];
+    const rateLimits: string[] = [];
+    vi.spyOn(globalThis, "fetch").mockImplementation(async (input, init) => {
+      const url = typeof input === "string" ? input : input instanceof URL ? input.href : input.url;
+      if (url.includes("/rest/v1/rate_limits")) {
+        rateLimits.push(decodeURIComponent(url));
+        const body =
+          (init?.method ?? "GET") === "GET" && options.rateLimitCount !== undefined
+            ? { count: options.rateLimitCount, window_start: new Date().toISOString() }
+            : null;
+        return new Response(JSON.stringify(body), { status: 200, headers: { "Content-Type": "application/json" } });
+      }
+      if (url.endsWith("/BookingList")) {
+        lists.push(JSON.parse(String(init?.body)));
+        return new Response(
+          JSON.stringify({
+            BookingList: [
+              { Id: 4000, State: "Confirmed" },
+              { Id: 5001, State: "Confirmed" },
+              { Id: 5002, State: "Pending" },
+            ],
+            TotalCount: 3,
+          }),
+          { status: 200, headers: { "Content-Type": "application/json" } }
+        );
+      }
+      if ((init?.method ?? "GET") !== "GET") {
+        writes.push({ url, body: JSON.parse(String(init?.body)) });
+        return new Response('[{"id":"updated"}]', { status: 200, headers: { "Content-Type": "application/json" } });
+      }
+      reads.push(decodeURIComponent(url));
+      return new Response(JSON.stringify(rows), {
+        status: 200,
+        headers: { "Content-Type": "application/json", "Content-Range": "0-1/3" },
+      });
+    });
+    return { reads, writes, lists, rateLimits };
+  };
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("should require a user or guest session", async () => {
+    const res = await buildApp().request("/bookings", {}, mockEnv);
+
+    expect(res.status).toBe(401);
+  });
+
+  it("should list upcoming bookings of the user as summaries", async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    const { reads, lists } = mockBackends();
+
+    const res = await buildApp("user-1").request("/bookings?perPage=2", {}, mockEnv);
+
+    expect(res.status).toBe(200);
+    const data = (await res.json()) as Record<string, any>;
+    expect(data.tab).toBe("upcoming");
+    expect(data.pagination).toEqual({ page: 1, perPage: 2, total: 3, totalPages: 2 });
+    expect(data.bookings[0]).toEqual({
+      id: "booking-1",
+      hotelId: 101,
+      hotelName: "Hotel Sousse Palace",
+      checkIn: "2099-07-10",
+      checkOut: "2099-07-13",
+      status: "confirmed",
+      paymentStatus: "authorized",
+      totalPrice: 500,
+      currency: "TND",
+      display: null,
+      mygoState: "Pending",
+      createdAt: "2099-06-01T10:00:00Z",
+    });
+    expect(reads[0]).toContain("user_id=eq.user-1");
+    expect(reads[0]).toContain("status=neq.cancelled");
+    expect(reads[0]).toMatch(/check_out=gte\.\d{4}-\d{2}-\d{2}/);
+    expect(reads[0]).toContain("order=check_in.asc");
+    expect(lists).toEqual([]);
+  });
+
+  it("should refresh myGO states in bulk with BookingList", async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    const { writes, lists } = mockBackends();
+
+    const res = await buildApp("user-1").request("/bookings?refresh=true", {}, mockEnv);
+
+    expect(res.status).toBe(200);
+    const data = (await res.json()) as Record<string, any>;
+    expect(data.bookings.map((booking: any) => booking.mygoState)).toEqual(["Confirmed", "Pending"]);
+    expect(lists).toHaveLength(1);
+    expect(lists[0]).toMatchObject({ FromCheckIn: "2099-07-10", ToCheckIn: "2099-08-01", Page: 1 });
+    expect(writes).toHaveLength(1);
+    expect(writes[0].url).toContain("id=eq.booking-1");
+    expect(writes[0].url).toContain("status=eq.confirmed");
+    expect(writes[0].body).toEqual({ mygo_state: "Confirmed", updated_at: expect.any(String) });
+  });
+
+  it("should serve stored states once the owner's refreshes are throttled", async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    const { writes, lists, rateLimits } = mockBackends({ rateLimitCount: 10 });
+
+    const res = await buildApp("user-1").request("/bookings?refresh=true", {}, mockEnv);
+
+    expect(res.status).toBe(200);
+    const data = (await res.json()) as Record<string, any>;
+    expect(data.bookings.map((booking: any) => booking.mygoState)).toEqual(["Pending", "Pending"]);
+    expect(rateLimits[0]).toContain("key=eq.booking-list-refresh:");
+    expect(lists).toEqual([]);
+    expect(writes).toEqual([]);
+  });
+
+  it("should reject an unknown tab", async () => {
+    const res = await buildApp("user-1").request("/bookings?tab=archived", {}, mockEnv);
+
+    expect(res.status).toBe(400);
+  });
+});
+
+describe("POST /bookings/lookup", () => {
+  const mockEnv = {
+    MYGO_LOGIN: "test-login",
+    MYGO_PASSWORD: "test-password",
+    SUPABASE_URL: "https://test.supabase.co",
+    SUPABASE_SERVICE_ROLE_KEY: "test-service-key",
+    JWT_SECRET: "test-jwt-secret",
+    BOOKING_MANAGE_URL: "https://www.hotel.com.tn/manage-booking",
+    EMAIL_API_KEY: "test-email-key",
+    EMAIL_FROM: "Hotel.com.tn <noreply@hotel.com.tn>",
+  } as Env;
+
+  const bookingId = "5b1f8f5e-2d7a-4c59-9a0e-3f1c6d2b8a41";
+  const otherBookingId = "0c2a9e57-6b1d-4f43-8d6e-2a7c9b5f1e30";
+
+  const bookingRow = {
+    id: bookingId,
+    mygo_booking_id: 789,
+    customer_email: "Amine@Example.com",
+    status: "confirmed",
+    user_id: null,
+    guest_session_id: "expired-guest-session",
+  };
+
+  const buildApp = () => {
+    const app = new Hono<{ Bindings: Env; Variables: HonoVariables }>();
+    app.onError(errorHandler());
+    app.route("/bookings", bookings);
+    return app;
+  };
+
+  const mockBackends = (options: { rateLimitCount?: number; activeLinks?: boolean } = {}) => {
+    const reads: string[] = [];
+    const writes: Array<{ url: string; body: any }> = [];
+    vi.spyOn(globalThis, "fetch").mockImplementation(async (input, init) => {
+      const url = decodeURIComponent(typeof input === "string" ? input : input instanceof URL ? input.href : input.url);
+      const json = (body: unknown) =>
+        new Response(JSON.stringify(body), { status: 200, headers: { "Content-Type": "application/json" } });
+      if ((init?.method ?? "GET") !== "GET") {
+        writes.push({ url, body: JSON.parse(String(init?.body)) });
+        return json([]);
+      }
+      reads.push(url);
+      if (url.includes("/rest/v1/rate_limits")) {
+        return json(
+          options.rateLimitCount !== undefined
+            ? { count: options.rateLimitCount, window_start: new Date().toISOString() }
+            : null
+        );
+      }
+      if (url.includes("/rest/v1/bookings")) {
+        if (url.includes(`id=eq.${otherBookingId}`)) {
+          return json({ ...bookingRow, id: otherBookingId, mygo_booking_id: 790 });
+        }
+        return json(url.includes("mygo_booking_id=eq.789") || url.includes(`id=eq.${bookingId}`) ? bookingRow : null);
+      }
+      if (url.includes("/rest/v1/booking_access_links")) {
+        return json(options.activeLinks === false ? null : { id: "link" });
+      }
+      return json(null);
+    });
+    return { reads, writes };
+  };
+
+  const lookup = (body: unknown, headers: Record<string, string> = {}) =>
+    buildApp().request(
+      "/bookings/lookup",
+      {
+        method: "POST",
+        headers: { "Content-Type": "application/json", "CF-Connecting-IP": "203.0.113.7", ...headers },
+        body: JSON.stringify(body),
+      },
+      mockEnv
+    );
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("should return a booking access token and email a magic link", async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    const { writes } = mockBackends();
+
+    const res = await lookup({ reference: "789", email: "amine@example.com" });
+
+    expect(res.status).toBe(200);
+    const data = (await res.json()) as Record<string, any>;
+    expect(data).toMatchObject({ bookingId, linkSent: true });
+    expect(typeof data.accessToken).toBe("string");
+
+    const links = writes.filter((write) => write.url.includes("/rest/v1/booking_access_links"));
+    expect(links[0].body).toEqual({
+      id: expect.any(String),
+      booking_id: bookingId,
+      email: "Amine@Example.com",
+      expires_at: expect.any(String),
+    });
+    expect(links[1].url).toContain(`id=eq.${links[0].body.id}`);
+    expect(links[1].body).toMatchObject({ delivery_status: "sent" });
+
+    const email = writes.find((write) => write.url.startsWith("https://api.resend.com/emails"));
+    expect(email?.body.to).toEqual(["Amine@Example.com"]);
+    expect(email?.body.text).toMatch(/https:\/\/www\.hotel\.com\.tn\/manage-booking\?token=/);
+    expect(email?.body.text).not.toContain(data.accessToken);
+    expect(writes.filter((write) => write.url.includes("/rest/v1/rate_limits"))).toHaveLength(2);
+  });
+
+  it("should revoke a magic link whose email could not be sent", async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    const { writes } = mockBackends();
+    const fetchMock = vi.mocked(globalThis.fetch);
+    const backends = fetchMock.getMockImplementation()!;
+    fetchMock.mockImplementation(async (input, init) =>
+      String(input).startsWith("https://api.resend.com")
+        ? new Response("unavailable", { status: 503 })
+        : backends(input, init)
+    );
+
+    const res = await lookup({ reference: "789", email: "amine@example.com" });
+
+    expect(res.status).toBe(200);
+    expect(await res.json()).toMatchObject({ linkSent: false });
+    const links = writes.filter((write) => write.url.includes("/rest/v1/booking_access_links"));
+    expect(links[1].body).toMatchObject({ delivery_status: "failed", revoked_at: expect.any(String) });
+  });
+
+  it("should not tell a wrong email from an unknown reference", async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    const { writes } = mockBackends();
+
+    const wrongEmail = await lookup({ reference: "789", email: "someone@example.com" });
+    const unknownReference = await lookup({ reference: "791", email: "amine@example.com" });
+
+    expect(wrongEmail.status).toBe(404);
+    expect(unknownReference.status).toBe(404);
+    expect(await wrongEmail.json()).toEqual(await unknownReference.json());
+    expect(writes.some((write) => write.url.includes("/rest/v1/booking_access_links"))).toBe(false);
+  });
+
+  it("should rate limit lookups", async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    const { reads } = mockBackends({ rateLimitCount: 10 });
+
+    const res = await lookup({ reference: "789", email: "amine@example.com" });
+
+    expect(res.status).toBe(429);
+    expect(reads.some((url) => url.includes("/rest/v1/bookings"))).toBe(false);
+  });
+
+  it("should rate limit every spelling of a booking reference in one bucket", async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    const { reads } = mockBackends();
+
+    for (const reference of ["789", "0789", "00789"]) {
+      expect((await lookup({ reference, email: "amine@example.com" })).status).toBe(200);
+    }
+
+    const referenceKeys = reads
+      .filter((url) => url.includes("key=eq.booking-lookup-reference:"))
+      .map((url) => url.match(/key=eq\.([^&]+)/)![1]);
+    expect(referenceKeys).toHaveLength(3);
+    expect(new Set(referenceKeys).size).toBe(1);
+  });
+
+  it("should open only the looked-up booking with the access token", async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    mockBackends();
+    const { accessToken } = (await (await lookup({ reference: "789", email: "amine@example.com" })).json()) as {
+      accessToken: string;
+    };
+
+    const own = await buildApp().request(
+      `/bookings/${bookingId}`,
+      { headers: { "X-Booking-Access-Token": accessToken } },
+      mockEnv
+    );
+    const other = await buildApp().request(
+      `/bookings/${otherBookingId}`,
+      { headers: { "X-Booking-Access-Token": accessToken } },
+      mockEnv
+    );
+    const invalid = await buildApp().request(
+      `/bookings/${bookingId}`,
+      { headers: { "X-Booking-Access-Token": `${accessToken}x` } },
+      mockEnv
+    );
+
+    expect(own.status).toBe(200);
+    expect(((await own.json()) as Record<string, any>).id).toBe(bookingId);
+    expect(other.status).toBe(404);
+    expect(invalid.status).toBe(401);
+  });
+
+  it("should accept a magic link token only while its link is active", async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    const linkId = "7d3c1b2a-9e8f-4a6b-8c5d-1e2f3a4b5c6d";
+    const { token } = await signBookingAccess(bookingId, BOOKING_ACCESS_LINK_TTL_MS, "test-jwt-secret", new Date(), linkId);
+    const open = () =>
+      buildApp().request(`/bookings/${bookingId}`, { headers: { "X-Booking-Access-Token": token } }, mockEnv);
+
+    const { reads } = mockBackends();
+    const active = await open();
+    vi.restoreAllMocks();
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    mockBackends({ activeLinks: false });
+    const revoked = await open();
+
+    expect(active.status).toBe(200);
+    const linkRead = reads.find((url) => url.includes("/rest/v1/booking_access_links"));
+    expect(linkRead).toContain(`id=eq.${linkId}`);
+    expect(linkRead).toContain("revoked_at=is.null");
+    expect(revoked.status).toBe(401);
+  });
+});
@@ -1,28 +1,151 @@
 /**
  * Booking routes
- * Handles booking creation and status retrieval
+ * Handles booking creation, status retrieval, the customer booking list,
+ * guest booking lookup, customer cancellation and amendments
  */
 
 import { Hono } from "hono";
 import { ZodError } from "zod";
 import type { Env, HonoVariables } from "../types/env";
-import { createBooking, bookingDetails, searchHotels } from "../clients/mygoClient";
+import { createBooking, bookingDetails, cancelBooking, listBookings, searchHotels } from "../clients/mygoClient";
+import { createClicToPayClientFromEnv } from "../clients/clictopayClient";
 import { createServiceClient } from "../clients/supabaseClient";
-import type { MyGoCredential, MyGoSearchParams } from "../types/mygo";
-import { bookingCreateSchema, uuidSchema } from "../utils/validation";
+import { isEmailConfigured, sendEmail } from "../clients/emailClient";
+import type { PaymentStatus } from "../types/booking";
+import type {
+  MyGoBookingListItem,
+  MyGoCredential,
+  MyGoHotelSearchResult,
+  MyGoSearchParams,
+  MyGoSearchResponse,
+} from "../types/mygo";
+import {
+  amendmentCompleteSchema,
+  amendmentConfirmSchema,
+  amendmentQuoteSchema,
+  bookingCreateSchema,
+  bookingLookupSchema,
+  cancellationConfirmSchema,
+  customerBookingListSchema,
+  uuidSchema,
+  type BookingCreateInput,
+} from "../utils/validation";
 import { createLogger } from "../utils/logger";
+import { getSessionOwner, type SessionOwner } from "../utils/sessionOwner";
+import { checkRateLimit, getClientIp, type RateLimit } from "../utils/rateLimit";
+import {
+  buildMagicLink,
+  buildMagicLinkEmail,
+  getBookingAccessSecret,
+  matchesCustomerEmail,
+  parseBookingReference,
+  signBookingAccess,
+  BOOKING_ACCESS_LINK_TTL_MS,
+  BOOKING_ACCESS_TOKEN_TTL_MS,
+} from "../utils/bookingAccess";
+import { resolveLanguage, type SupportedLanguage } from "../utils/i18n";
+import {
+  searchRoomFieldPaths,
+  validateOccupancy,
+  OCCUPANCY_ERROR_SUMMARY,
+} from "../utils/occupancyPolicy";
+import {
+  compareOffer,
+  getOfferSigningSecret,
+  matchesOfferRequest,
+  signOfferReference,
+  verifyOfferReference,
+  OFFER_REFERENCE_VERSION,
+  type OfferComparison,
+} from "../utils/offerReference";
+import {
+  applyPricingToHotels,
+  priceOffer,
+  DEFAULT_PRICING_CHANNEL,
+  type PricingChannel,
+  type PricingContext,
+  type PricingRule,
+} from "../utils/pricingRules";
+import { annotateFreeCancellation } from "../utils/cancellationPolicy";
+import { annotateRoomTypes } from "../utils/boardNormalization";
+import {
+  convertFromTnd,
+  resolveDisplayRate,
+  roundToMinorUnits,
+  toMinorUnits,
+  SETTLEMENT_CURRENCY,
+  type ExchangeRate,
+} from "../utils/currency";
+import {
+  evaluatePromoCode,
+  promoFieldErrors,
+  PROMO_LIMIT_MESSAGES,
+  type PromoCode,
+  type PromoContext,
+  type PromoUsage,
+} from "../utils/promotions";
+import {
+  attachPromoRedemption,
+  findPromoCode,
+  getPromoCodeById,
+  releasePromoReservation,
+  reservePromoRedemption,
+  updateBookingRedemptionDiscount,
+  updateBookingRedemptions,
+  type PromoCustomer,
+} from "../utils/promoRedemptions";
+import {
+  computeCancellationQuote,
+  getCancellationIneligibility,
+  getPaidAmount,
+  planRefund,
+  type CancellableBooking,
+  type CancellablePayment,
+  type CancellationQuote,
+} from "../utils/bookingCancellation";
+import {
+  buildAmendmentOffers,
+  findAmendmentOffer,
+  getAmendmentDiscount,
+  getAmendmentIneligibility,
+  planAmendmentSettlement,
+  AMENDMENT_PRICE_TOLERANCE,
+  type AmendmentOffer,
+  type AmendmentRequest,
+} from "../utils/bookingAmendment";
+import { getCachedOccupancyPolicy } from "../cache/occupancyPolicyCache";
+import { loadBoardNormalizer } from "../cache/boardMappingsCache";
+import { loadPricingRules } from "../cache/pricingRulesCache";
+import { loadExchangeRates } from "../cache/exchangeRatesCache";
 import {
   ValidationError,
   ExternalServiceError,
   NotFoundError,
   AuthenticationError,
+  IllegalTransitionError,
+  RateLimitError,
 } from "../middleware/errorHandler";
-import { optionalAuth } from "../middleware/auth";
+import {
+  findBookingStateChanges,
+  getBookingStateWindow,
+  toBookingSummary,
+  BOOKING_SUMMARY_COLUMNS,
+  type BookingSummaryRow,
+} from "../utils/customerBookings";
+import {
+  assertPaymentTransition,
+  initialBookingStatus,
+  updateBookingStates,
+  updatePaymentStatus,
+  type BookingStateRow,
+} from "../utils/bookingStateMachine";
+import { extractBookingAccess, optionalAuth } from "../middleware/auth";
 
 const bookings = new Hono<{ Bindings: Env; Variables: HonoVariables }>();
 
 // Apply optional auth to all routes
 bookings.use("/*", optionalAuth());
+bookings.use("/*", extractBookingAccess());
 
 // Constants for logging
 const TOKEN_HASH_LOG_LENGTH = 16; // Number of characters to show from token hash in logs
@@ -35,6 +158,41 @@ const getMyGoCredential = (env: Env): MyGoCredential => ({
   password: env.MYGO_PASSWORD,
 });
 
+const today = (): string => new Date().toISOString().slice(0, 10);
+
+/**
+ * Verify the caller may access a booking: users see their own bookings,
+ * guest sessions the bookings made in that session, and a booking access
+ * token (guest lookup) unlocks its booking only
+ * @throws NotFoundError for someone else's booking (existence is not leaked)
+ */
+const assertBookingAccess = (
+  booking: { id: string; user_id: string | null; guest_session_id: string | null },
+  userId: string | undefined,
+  guestSessionId: string | undefined,
+  logger: ReturnType<typeof createLogger>,
+  accessBookingId?: string
+): void => {
+  if (accessBookingId === booking.id) {
+    return;
+  }
+
+  if (accessBookingId && !userId && !guestSessionId) {
+    logger.warn("Booking access token used for another booking", { bookingId: booking.id });
+    throw new NotFoundError("Booking not found");
+  }
+
+  if (userId && booking.user_id !== userId) {
+    logger.warn("Unauthorized booking access attempt", { bookingId: booking.id, userId });
+    throw new NotFoundError("Booking not found");
+  }
+
+  if (!userId && guestSessionId && booking.guest_session_id !== guestSessionId) {
+    logger.warn("Unauthorized guest booking access attempt", { bookingId: booking.id, guestSessionId });
+    throw new NotFoundError("Booking not found");
+  }
+};
+
 /**
  * Hash token for secure logging (SHA-256)
  * Used for audit trail without exposing the actual token
@@ -50,6 +208,7 @@ const hashToken = async (token: string): Promise<string> => {
 /**
  * Reconstruct fresh MyGo search token server-side
  * This allows token-free booking flow where frontend doesn't handle tokens
+ * The fresh search results are returned too, to check the selected offer
  */
 const reconstructToken = async (
   credential: MyGoCredential,
@@ -64,7 +223,7 @@ const reconstructToken = async (
     hotelId: number;
   },
   logger: ReturnType<typeof createLogger>
-): Promise<string> => {
+): Promise<MyGoSearchResponse> => {
   logger.info("Reconstructing fresh MyGo token", {
     cityId: searchParams.cityId,
     hotelId: selectedOffer.hotelId,
@@ -104,7 +263,7 @@ const reconstructToken = async (
       hotelsFound: searchResult.hotels.length,
     });
 
-    return searchResult.token;
+    return searchResult;
   } catch (error) {
     logger.error("Failed to reconstruct token", {
       error: error instanceof Error ? error.message : String(error),
@@ -124,6 +283,453 @@ const reconstructToken = async (
   }
 };
 
+/**
+ * Check the requested occupancy against the hotel's learned policy before
+ * calling myGO: searchParams.rooms (token-free) and the guest list in rooms
+ * Hotels without a learned policy are not pre-validated
+ * @throws ValidationError with field-level details
+ */
+const assertOccupancyAccepted = (data: BookingCreateInput, language: SupportedLanguage): void => {
+  const hotelId = data.selectedOffer?.hotelId ?? data.hotel;
+  const policy = hotelId ? getCachedOccupancyPolicy(hotelId) : null;
+  if (!policy) {
+    return;
+  }
+
+  const guestRooms = data.rooms.map((room) => ({
+    adults: room.pax.adults.length,
+    childrenAges: room.pax.children?.map((child) => child.age),
+  }));
+  const errors = [
+    ...(data.searchParams
+      ? validateOccupancy(data.searchParams.rooms, policy, {
+          language,
+          fields: searchRoomFieldPaths("searchParams.rooms"),
+        })
+      : []),
+    ...validateOccupancy(guestRooms, policy, {
+      language,
+      fields: {
+        room: (roomIndex) => `rooms[${roomIndex}].pax`,
+        adults: (roomIndex) => `rooms[${roomIndex}].pax.adults`,
+        children: (roomIndex) => `rooms[${roomIndex}].pax.children`,
+        childAge: (roomIndex, childIndex) => `rooms[${roomIndex}].pax.children[${childIndex}].age`,
+      },
+    }),
+  ];
+
+  if (errors.length > 0) {
+    throw new ValidationError(OCCUPANCY_ERROR_SUMMARY[language], errors);
+  }
+};
+
+// Offer the customer accepted, compared with the fresh search before booking
+interface ExpectedOffer {
+  hotelId: number;
+  roomId: number;
+  boardCode?: string | null;
+  price?: number;
+}
+
+/**
+ * Resolve the offer the customer accepted (token-free mode)
+ * A signed selectedOffer.offerRef wins; otherwise selectedOffer.price is used
+ * when sent. Returns null when there is nothing to compare
+ * @throws ValidationError for tampered, expired or mismatched references
+ */
+const resolveExpectedOffer = async (
+  env: Env,
+  data: BookingCreateInput,
+  logger: ReturnType<typeof createLogger>
+): Promise<ExpectedOffer | null> => {
+  const { searchParams, selectedOffer } = data;
+  if (!searchParams || !selectedOffer) {
+    return null;
+  }
+
+  const secret = getOfferSigningSecret(env);
+  if (selectedOffer.offerRef && secret) {
+    const verification = await verifyOfferReference(selectedOffer.offerRef, secret);
+    if (!verification.valid) {
+      logger.warn("Offer reference rejected", { reason: verification.reason, hotelId: selectedOffer.hotelId });
+      throw new ValidationError(
+        verification.reason === "expired"
+          ? "Offer reference expired, please search again"
+          : "Invalid offer reference"
+      );
+    }
+
+    const { snapshot } = verification;
+    const matches = matchesOfferRequest(snapshot, {
+      hotelId: selectedOffer.hotelId,
+      roomId: selectedOffer.roomId,
+      currency: searchParams.currency || "TND",
+      checkIn: searchParams.checkIn,
+      checkOut: searchParams.checkOut,
+      rooms: searchParams.rooms,
+    });
+    if (!matches) {
+      throw new ValidationError("Offer reference does not match the booking request");
+    }
+    return { hotelId: snapshot.hotelId, roomId: snapshot.roomId, boardCode: snapshot.boardCode, price: snapshot.price };
+  }
+
+  if (selectedOffer.offerRef) {
+    logger.warn("Offer reference ignored: no signing secret configured");
+  }
+  if (selectedOffer.price === undefined) {
+    return null;
+  }
+  return {
+    hotelId: selectedOffer.hotelId,
+    roomId: selectedOffer.roomId,
+    boardCode: selectedOffer.boardCode,
+    price: selectedOffer.price,
+  };
+};
+
+/**
+ * 409 body for an offer that drifted since search
+ * PRICE_CHANGED carries a fresh offerRef so the customer can accept the new price
+ */
+const buildOfferDriftResponse = async (
+  env: Env,
+  comparison: Exclude<OfferComparison, { status: "OK" }>,
+  expected: ExpectedOffer,
+  searchParams: NonNullable<BookingCreateInput["searchParams"]>
+) => {
+  const currency = searchParams.currency || "TND";
+  const secret = getOfferSigningSecret(env);
+
+  if (comparison.status === "ROOM_UNAVAILABLE") {
+    return {
+      error: "The selected room is no longer available",
+      code: comparison.status,
+      offer: {
+        hotelId: expected.hotelId,
+        roomId: expected.roomId,
+        boardCode: expected.boardCode ?? null,
+        currency,
+        previousPrice: expected.price ?? null,
+        newPrice: null,
+      },
+    };
+  }
+
+  const offerRef = secret
+    ? await signOfferReference(
+        {
+          v: OFFER_REFERENCE_VERSION,
+          hotelId: expected.hotelId,
+          roomId: expected.roomId,
+          boardCode: comparison.room.boardCode ?? null,
+          price: comparison.newPrice,
+          currency,
+          checkIn: searchParams.checkIn,
+          checkOut: searchParams.checkOut,
+          rooms: searchParams.rooms,
+          issuedAt: Date.now(),
+        },
+        secret
+      )
+    : undefined;
+
+  return {
+    error: "The price of the selected offer has changed",
+    code: comparison.status,
+    offer: {
+      hotelId: expected.hotelId,
+      roomId: expected.roomId,
+      boardCode: comparison.room.boardCode ?? null,
+      currency,
+      previousPrice: comparison.previousPrice,
+      newPrice: comparison.newPrice,
+      ...(offerRef ? { offerRef } : {}),
+    },
+  };
+};
+
+/**
+ * Apply pricing rules to fresh search results, so they compare with the
+ * customer prices shown at search time
+ * The board normalizer is only loaded when a rule targets board types
+ */
+const priceFreshSearch = async (
+  env: Env,
+  hotels: MyGoHotelSearchResult[],
+  rules: PricingRule[],
+  context: Pick<PricingContext, "checkIn" | "channel">,
+  logger: ReturnType<typeof createLogger>
+): Promise<MyGoHotelSearchResult[]> => {
+  if (rules.length === 0) {
+    return hotels;
+  }
+  const withBoards = rules.some((rule) => rule.boardTypes)
+    ? annotateRoomTypes(hotels, await loadBoardNormalizer(env, logger))
+    : hotels;
+  return applyPricingToHotels(withBoards, rules, context);
+};
+
+/**
+ * Pricing context of the selected offer
+ * Token-free bookings use the fresh search (city, stars, board); legacy token
+ * bookings only know the hotel and city
+ */
+const getOfferPricingContext = (
+  data: BookingCreateInput,
+  pricedHotels: MyGoHotelSearchResult[]
+): PricingContext => {
+  const channel = data.channel ?? DEFAULT_PRICING_CHANNEL;
+  if (!data.searchParams || !data.selectedOffer) {
+    return {
+      hotelId: data.hotel ?? 0,
+      cityId: data.city ?? data.searchParams?.cityId,
+      checkIn: data.checkIn ?? data.searchParams?.checkIn ?? "",
+      channel,
+    };
+  }
+
+  const { searchParams, selectedOffer } = data;
+  const hotel = pricedHotels.find((candidate) => candidate.id === selectedOffer.hotelId);
+  const room = hotel?.rooms.find(
+    (candidate) =>
+      candidate.roomId === selectedOffer.roomId &&
+      (!selectedOffer.boardCode || candidate.boardCode === selectedOffer.boardCode)
+  );
+  return {
+    hotelId: selectedOffer.hotelId,
+    cityId: hotel?.cityId ?? searchParams.cityId,
+    star: hotel?.star,
+    boardType: room?.boardType,
+    checkIn: searchParams.checkIn,
+    channel,
+  };
+};
+
+/**
+ * Booking row pricing: the rule of the selected offer applied to the myGO
+ * total (fixed markups apply once per booking). Without a myGO total the
+ * booking is stored unpriced as before
+ */
+const buildBookingPricing = (
+  supplierTotal: number | undefined,
+  rules: PricingRule[],
+  context: PricingContext
+) => {
+  if (typeof supplierTotal !== "number" || supplierTotal <= 0) {
+    return { total_price: supplierTotal || 0, supplier_price: null, pricing_rule_id: null, pricing_snapshot: null };
+  }
+  const priced = priceOffer(supplierTotal, rules, context);
+  return {
+    total_price: priced.price,
+    supplier_price: supplierTotal,
+    pricing_rule_id: priced.rule?.id ?? null,
+    pricing_snapshot: priced.rule
+      ? {
+          rule: priced.rule,
+          supplierPrice: priced.supplierPrice,
+          price: priced.price,
+          markup: priced.markup,
+          channel: context.channel ?? DEFAULT_PRICING_CHANNEL,
+        }
+      : null,
+  };
+};
+
+/**
+ * Display rate recorded on a booking
+ * Bookings settled in TND record the rate of displayCurrency (1 for TND);
+ * bookings in another myGO currency are not converted
+ * @throws ValidationError when no rate is known for displayCurrency
+ */
+const loadBookingDisplayRate = async (
+  env: Env,
+  data: BookingCreateInput,
+  logger: ReturnType<typeof createLogger>
+): Promise<ExchangeRate | null> => {
+  const settlementCurrency = (data.searchParams ? data.searchParams.currency : data.currency) ?? SETTLEMENT_CURRENCY;
+  if (settlementCurrency !== SETTLEMENT_CURRENCY) {
+    return null;
+  }
+  const displayCurrency = data.displayCurrency ?? SETTLEMENT_CURRENCY;
+  const rates = displayCurrency === SETTLEMENT_CURRENCY ? [] : await loadExchangeRates(env, logger);
+  const rate = resolveDisplayRate(rates, displayCurrency);
+  if (!rate) {
+    throw new ValidationError(`No exchange rate available for ${displayCurrency}`);
+  }
+  return rate;
+};
+
+/**
+ * Booking row display columns: total converted at the recorded rate
+ */
+const buildBookingDisplay = (totalPrice: number, rate: ExchangeRate | null) => ({
+  display_currency: rate?.currency ?? null,
+  display_total_price: rate ? convertFromTnd(totalPrice, rate) : null,
+  exchange_rate: rate?.tndPerUnit ?? null,
+  exchange_rate_id: rate?.id ?? null,
+});
+
+// Promo code of a booking request, eligible when the booking started
+interface PromoSelection {
+  promo: PromoCode;
+  customer: PromoCustomer;
+  context: PromoContext;
+}
+
+// Usage limits are enforced by the reservation (reserveBookingPromo), not by
+// the evaluation of the code
+const RESERVED_USAGE: PromoUsage = { total: 0, customer: 0 };
+
+/**
+ * Look up and check the requested promo code before calling myGO
+ * Everything but the usage limits (reserveBookingPromo) and the minimum
+ * amount is known at this point
+ * @throws ValidationError for unknown or ineligible codes
+ */
+const loadBookingPromo = async (
+  env: Env,
+  data: BookingCreateInput,
+  userId: string | undefined
+): Promise<PromoSelection | null> => {
+  if (!data.promoCode) {
+    return null;
+  }
+
+  const supabase = createServiceClient(env);
+  const promo = await findPromoCode(supabase, data.promoCode);
+  if (!promo) {
+    throw new ValidationError("Unknown promo code", promoFieldErrors("NOT_FOUND", "Unknown promo code"));
+  }
+
+  const customer = { userId, email: data.customer.email };
+  const context: PromoContext = {
+    hotelId: data.selectedOffer?.hotelId ?? data.hotel ?? 0,
+    cityId: data.searchParams?.cityId ?? data.city,
+    checkIn: data.searchParams?.checkIn ?? data.checkIn ?? "",
+    checkOut: data.searchParams?.checkOut ?? data.checkOut ?? "",
+  };
+  const evaluation = evaluatePromoCode(promo, context, RESERVED_USAGE);
+  if (!evaluation.valid) {
+    throw new ValidationError(evaluation.message, promoFieldErrors(evaluation.reason, evaluation.message));
+  }
+
+  return { promo, customer, context };
+};
+
+/**
+ * Reserve a use of the promo code right before calling myGO
+ * Atomic (see reservePromoRedemption): concurrent bookings cannot go over the
+ * code's limits. The caller releases the reservation if myGO fails
+ * @returns the redemption ID (null without a promo code)
+ * @throws ValidationError when a usage limit is reached
+ */
+const reserveBookingPromo = async (env: Env, selection: PromoSelection | null): Promise<number | null> => {
+  if (!selection) {
+    return null;
+  }
+
+  const reservation = await reservePromoRedemption(createServiceClient(env), selection.promo.id, selection.customer);
+  if (!reservation.reserved) {
+    const message =
+      reservation.reason === "NOT_FOUND" ? "Unknown promo code" : PROMO_LIMIT_MESSAGES[reservation.reason];
+    throw new ValidationError(message, promoFieldErrors(reservation.reason, message));
+  }
+  return reservation.redemptionId;
+};
+
+/**
+ * Create the myGO booking, releasing the promo reservation if it fails
+ */
+const createBookingWithPromo = async (
+  env: Env,
+  credential: MyGoCredential,
+  params: Parameters<typeof createBooking>[1],
+  redemptionId: number | null,
+  logger: ReturnType<typeof createLogger>
+): ReturnType<typeof createBooking> => {
+  try {
+    return await createBooking(credential, params);
+  } catch (error) {
+    if (redemptionId !== null) {
+      await releasePromoReservation(createServiceClient(env), redemptionId, logger);
+    }
+    throw error;
+  }
+};
+
+/**
+ * Promo discount on the priced booking total
+ * The minimum amount is only checked once myGO returned the total: a code
+ * failing it is reported in the response and the booking keeps its price
+ */
+const buildBookingPromo = (selection: PromoSelection | null, pricedTotal: number | undefined) => {
+  if (!selection) {
+    return { discount: 0, columns: {}, summary: undefined };
+  }
+
+  const { promo } = selection;
+  const evaluation =
+    typeof pricedTotal === "number" && pricedTotal > 0
+      ? evaluatePromoCode(promo, { ...selection.context, amount: pricedTotal }, RESERVED_USAGE)
+      : null;
+  if (!evaluation?.valid) {
+    return {
+      discount: 0,
+      columns: {},
+      summary: {
+        code: promo.code,
+        applied: false,
+        reason: evaluation?.reason ?? null,
+        message: evaluation?.message ?? "The promo code could not be applied without a total price",
+      },
+    };
+  }
+
+  return {
+    discount: evaluation.discount,
+    columns: { promo_code_id: promo.id, promo_code: promo.code, discount_amount: evaluation.discount },
+    summary: { code: promo.code, applied: true, discount: evaluation.discount },
+  };
+};
+
+/**
+ * Attach the promo reservation to the stored booking, or release it when the
+ * code did not apply to the priced total
+ * The myGO booking already exists: failures are logged, never thrown (an
+ * unattached reservation fails the checkout, which asks to book again)
+ */
+const recordBookingPromo = async (
+  env: Env,
+  redemptionId: number | null,
+  discount: number,
+  bookingId: string | undefined,
+  status: "reserved" | "redeemed",
+  logger: ReturnType<typeof createLogger>
+): Promise<void> => {
+  if (redemptionId === null) {
+    return;
+  }
+  const supabase = createServiceClient(env);
+  if (discount <= 0) {
+    await releasePromoReservation(supabase, redemptionId, logger);
+    return;
+  }
+  if (!bookingId) {
+    logger.error("Promo reservation not attached: booking was not stored", { redemptionId });
+    return;
+  }
+  try {
+    await attachPromoRedemption(supabase, redemptionId, { bookingId, discount, status });
+  } catch (error) {
+    logger.error("Failed to attach promo reservation", {
+      bookingId,
+      redemptionId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+};
+
 /**
  * POST /bookings/prebook
  * Create a pre-booking (non-confirmed) with myGO
@@ -149,9 +755,17 @@ bookings.post("/prebook", async (c) => {
     const body = await c.req.json();
     const validatedData = bookingCreateSchema.parse(body);
 
+    // Known occupancy limits are checked before any myGO call
+    assertOccupancyAccepted(validatedData, resolveLanguage(c.req.header("Accept-Language")));
+    const expectedOffer = await resolveExpectedOffer(c.env, validatedData, logger);
+    const displayRate = await loadBookingDisplayRate(c.env, validatedData, logger);
+    const promoSelection = await loadBookingPromo(c.env, validatedData, userId);
+
     const credential = getMyGoCredential(c.env);
+    const pricingRules = await loadPricingRules(c.env, logger);
     let bookingToken: string;
     let tokenHash: string;
+    let pricedHotels: MyGoHotelSearchResult[] = [];
 
     // Determine if this is token-free or token-based request
     const isTokenFree = validatedData.searchParams && validatedData.selectedOffer;
@@ -163,12 +777,39 @@ bookings.post("/prebook", async (c) => {
         hotelId: validatedData.selectedOffer!.hotelId,
       });
 
-      bookingToken = await reconstructToken(
+      const freshSearch = await reconstructToken(
         credential,
         validatedData.searchParams!,
         validatedData.selectedOffer!,
         logger
       );
+      pricedHotels = await priceFreshSearch(
+        c.env,
+        freshSearch.hotels,
+        pricingRules,
+        { checkIn: validatedData.searchParams!.checkIn, channel: validatedData.channel },
+        logger
+      );
+
+      // Never book a different amount than the customer accepted
+      if (expectedOffer) {
+        const comparison = compareOffer(expectedOffer, pricedHotels);
+        if (comparison.status !== "OK") {
+          logger.warn("Selected offer drifted since search", {
+            hotelId: expectedOffer.hotelId,
+            roomId: expectedOffer.roomId,
+            status: comparison.status,
+            previousPrice: expectedOffer.price,
+            newPrice: comparison.status === "PRICE_CHANGED" ? comparison.newPrice : null,
+          });
+          return c.json(
+            await buildOfferDriftResponse(c.env, comparison, expectedOffer, validatedData.searchParams!),
+            409
+          );
+        }
+      }
+
+      bookingToken = freshSearch.token;
       tokenHash = await hashToken(bookingToken);
     } else {
       // LEGACY TOKEN-BASED MODE: Use provided token
@@ -189,7 +830,7 @@ bookings.post("/prebook", async (c) => {
       customerEmail: validatedData.customer.email,
       customerPhone: validatedData.customer.phone,
       roomSelections: validatedData.rooms.map((room) => ({
-        hotelId: isTokenFree ? validatedData.selectedOffer!.hotelId : validatedData.hotel,
+        hotelId: isTokenFree ? validatedData.selectedOffer!.hotelId : validatedData.hotel!,
         roomId: room.id,
       })),
     };
@@ -203,7 +844,8 @@ bookings.post("/prebook", async (c) => {
       mode: isTokenFree ? "token-free" : "token-based",
     });
 
-    const bookingResult = await createBooking(credential, mygoParams);
+    const promoRedemptionId = await reserveBookingPromo(c.env, promoSelection);
+    const bookingResult = await createBookingWithPromo(c.env, credential, mygoParams, promoRedemptionId, logger);
 
     logger.info("Pre-booking created successfully", {
       bookingId: bookingResult.bookingId,
@@ -215,7 +857,7 @@ bookings.post("/prebook", async (c) => {
     const supabase = createServiceClient(c.env);
     
     // Pre-bookings are always pending, regardless of myGO state
-    const bookingStatus = "pending";
+    const bookingStatus = initialBookingStatus(bookingResult.state, true);
     
     const hotelId = isTokenFree ? validatedData.selectedOffer!.hotelId : validatedData.hotel;
     const checkIn = isTokenFree ? validatedData.searchParams!.checkIn : validatedData.checkIn;
@@ -224,6 +866,17 @@ bookings.post("/prebook", async (c) => {
       ? (validatedData.searchParams!.currency || "TND")
       : validatedData.currency;
     
+    const pricing = buildBookingPricing(
+      bookingResult.totalPrice,
+      pricingRules,
+      getOfferPricingContext(validatedData, pricedHotels)
+    );
+    const promo = buildBookingPromo(
+      promoSelection,
+      bookingResult.totalPrice === undefined ? undefined : pricing.total_price
+    );
+    const totalPrice = roundToMinorUnits(pricing.total_price - promo.discount, SETTLEMENT_CURRENCY);
+
     const bookingData = {
       user_id: userId || null,
       guest_session_id: guestSessionId || null,
@@ -237,7 +890,10 @@ bookings.post("/prebook", async (c) => {
       rooms: validatedData.rooms.length,
       adults: validatedData.rooms.reduce((sum, r) => sum + r.pax.adults.length, 0),
       children: validatedData.rooms.reduce((sum, r) => sum + (r.pax.children?.length || 0), 0),
-      total_price: (bookingResult.totalPrice as number) || 0,
+      ...pricing,
+      ...promo.columns,
+      total_price: totalPrice,
+      ...buildBookingDisplay(totalPrice, displayRate),
       currency: currency,
       status: bookingStatus,
       payment_status: "pending",
@@ -264,13 +920,24 @@ bookings.post("/prebook", async (c) => {
       logger.error("Failed to store pre-booking in database", { error: dbError.message });
       // Don't fail the request - myGO booking is created
     }
+    await recordBookingPromo(c.env, promoRedemptionId, promo.discount, dbBooking?.id, "reserved", logger);
 
     return c.json({
       id: dbBooking?.id,
       mygoBookingId: bookingResult.bookingId,
       state: bookingResult.state,
-      totalPrice: bookingResult.totalPrice,
+      totalPrice: bookingResult.totalPrice === undefined ? undefined : totalPrice,
       currency: currency,
+      ...(displayRate && bookingResult.totalPrice !== undefined
+        ? {
+            display: {
+              currency: displayRate.currency,
+              totalPrice: convertFromTnd(totalPrice, displayRate),
+              rate: displayRate.tndPerUnit,
+            },
+          }
+        : {}),
+      ...(promo.summary ? { promo: promo.summary } : {}),
     });
   } catch (error) {
     if (error instanceof ZodError) {
@@ -311,10 +978,14 @@ bookings.post("/create", async (c) => {
   try {
     const body = await c.req.json();
     const validatedData = bookingCreateSchema.parse(body);
+    const displayRate = await loadBookingDisplayRate(c.env, validatedData, logger);
+    const promoSelection = await loadBookingPromo(c.env, validatedData, userId);
 
     const credential = getMyGoCredential(c.env);
+    const pricingRules = await loadPricingRules(c.env, logger);
     let bookingToken: string;
     let tokenHash: string;
+    let pricedHotels: MyGoHotelSearchResult[] = [];
 
     // Determine if this is token-free or token-based request
     const isTokenFree = validatedData.searchParams && validatedData.selectedOffer;
@@ -326,12 +997,20 @@ bookings.post("/create", async (c) => {
         hotelId: validatedData.selectedOffer!.hotelId,
       });
 
-      bookingToken = await reconstructToken(
+      const freshSearch = await reconstructToken(
         credential,
         validatedData.searchParams!,
         validatedData.selectedOffer!,
         logger
       );
+      pricedHotels = await priceFreshSearch(
+        c.env,
+        freshSearch.hotels,
+        pricingRules,
+        { checkIn: validatedData.searchParams!.checkIn, channel: validatedData.channel },
+        logger
+      );
+      bookingToken = freshSearch.token;
       tokenHash = await hashToken(bookingToken);
     } else {
       // LEGACY TOKEN-BASED MODE: Use provided token
@@ -352,7 +1031,7 @@ bookings.post("/create", async (c) => {
       customerEmail: validatedData.customer.email,
       customerPhone: validatedData.customer.phone,
       roomSelections: validatedData.rooms.map((room) => ({
-        hotelId: isTokenFree ? validatedData.selectedOffer!.hotelId : validatedData.hotel,
+        hotelId: isTokenFree ? validatedData.selectedOffer!.hotelId : validatedData.hotel!,
         roomId: room.id,
       })),
     };
@@ -366,7 +1045,8 @@ bookings.post("/create", async (c) => {
       mode: isTokenFree ? "token-free" : "token-based",
     });
 
-    const bookingResult = await createBooking(credential, mygoParams);
+    const promoRedemptionId = await reserveBookingPromo(c.env, promoSelection);
+    const bookingResult = await createBookingWithPromo(c.env, credential, mygoParams, promoRedemptionId, logger);
 
     logger.info("Booking created successfully", {
       bookingId: bookingResult.bookingId,
@@ -380,7 +1060,7 @@ bookings.post("/create", async (c) => {
     // For confirmed bookings (preBooking=false):
     // - Status is "confirmed" if booking is immediately confirmed by MyGO
     // - Status is "pending" if MyGO returns OnRequest state (requires manual confirmation or credit top-up)
-    const bookingStatus = bookingResult.state === "OnRequest" ? "pending" : "confirmed";
+    const bookingStatus = initialBookingStatus(bookingResult.state, false);
     
     const hotelId = isTokenFree ? validatedData.selectedOffer!.hotelId : validatedData.hotel;
     const checkIn = isTokenFree ? validatedData.searchParams!.checkIn : validatedData.checkIn;
@@ -389,6 +1069,17 @@ bookings.post("/create", async (c) => {
       ? (validatedData.searchParams!.currency || "TND")
       : validatedData.currency;
     
+    const pricing = buildBookingPricing(
+      bookingResult.totalPrice,
+      pricingRules,
+      getOfferPricingContext(validatedData, pricedHotels)
+    );
+    const promo = buildBookingPromo(
+      promoSelection,
+      bookingResult.totalPrice === undefined ? undefined : pricing.total_price
+    );
+    const totalPrice = roundToMinorUnits(pricing.total_price - promo.discount, SETTLEMENT_CURRENCY);
+
     const bookingData = {
       user_id: userId || null,
       guest_session_id: guestSessionId || null,
@@ -402,7 +1093,10 @@ bookings.post("/create", async (c) => {
       rooms: validatedData.rooms.length,
       adults: validatedData.rooms.reduce((sum, r) => sum + r.pax.adults.length, 0),
       children: validatedData.rooms.reduce((sum, r) => sum + (r.pax.children?.length || 0), 0),
-      total_price: (bookingResult.totalPrice as number) || 0,
+      ...pricing,
+      ...promo.columns,
+      total_price: totalPrice,
+      ...buildBookingDisplay(totalPrice, displayRate),
       currency: currency,
       status: bookingStatus,
       payment_status: "pending",
@@ -429,13 +1123,32 @@ bookings.post("/create", async (c) => {
       logger.error("Failed to store booking in database", { error: dbError.message });
       // Don't fail the request - myGO booking is created
     }
+    // Confirmed bookings redeem the code now, others when paid
+    await recordBookingPromo(
+      c.env,
+      promoRedemptionId,
+      promo.discount,
+      dbBooking?.id,
+      bookingStatus === "confirmed" ? "redeemed" : "reserved",
+      logger
+    );
 
     return c.json({
       id: dbBooking?.id,
       mygoBookingId: bookingResult.bookingId,
       state: bookingResult.state,
-      totalPrice: bookingResult.totalPrice,
+      totalPrice: bookingResult.totalPrice === undefined ? undefined : totalPrice,
       currency: currency,
+      ...(displayRate && bookingResult.totalPrice !== undefined
+        ? {
+            display: {
+              currency: displayRate.currency,
+              totalPrice: convertFromTnd(totalPrice, displayRate),
+              rate: displayRate.tndPerUnit,
+            },
+          }
+        : {}),
+      ...(promo.summary ? { promo: promo.summary } : {}),
     });
   } catch (error) {
     if (error instanceof ZodError) {
@@ -452,75 +1165,373 @@ bookings.post("/create", async (c) => {
   }
 });
 
+// BookingList pages read when refreshing the myGO state of listed bookings
+const BOOKING_LIST_PAGE_SIZE = 100;
+const MAX_BOOKING_LIST_PAGES = 5;
+// Refreshes per user or guest session (each one costs up to
+// MAX_BOOKING_LIST_PAGES myGO calls)
+const BOOKING_REFRESH_LIMIT: RateLimit = { windowMinutes: 15, maxRequests: 10 };
+
 /**
- * GET /bookings/:id
- * Get booking status from database and optionally refresh from myGO
+ * Refresh the myGO state of listed bookings with BookingList over their
+ * check-in window (the list covers every agency booking of the window, so it
+ * is paged until all of them are found)
+ * Failures and throttled refreshes are logged: the list is served with the
+ * stored states
  */
-bookings.get("/:id", async (c) => {
-  const logger = createLogger(c.var);
-  const bookingId = c.req.param("id");
-  const userId = c.get("userId");
-  const guestSessionId = c.get("guestSessionId");
+const refreshBookingStates = async (
+  env: Env,
+  rows: BookingSummaryRow[],
+  owner: SessionOwner,
+  logger: ReturnType<typeof createLogger>
+): Promise<BookingSummaryRow[]> => {
+  const window = getBookingStateWindow(rows);
+  if (!window) {
+    return rows;
+  }
 
-  logger.info("Fetching booking status", { bookingId, userId });
+  const supabase = createServiceClient(env);
+  try {
+    await checkRateLimit(supabase, "booking-list-refresh", `${owner.column}:${owner.id}`, BOOKING_REFRESH_LIMIT, logger);
+  } catch (error) {
+    if (!(error instanceof RateLimitError)) {
+      throw error;
+    }
+    logger.info("Booking state refresh throttled, serving stored states", { bookings: window.mygoBookingIds.length });
+    return rows;
+  }
 
   try {
-    // Validate UUID format
-    uuidSchema.parse(bookingId);
+    const credential = getMyGoCredential(env);
+    const pending = new Set(window.mygoBookingIds);
+    const listed: MyGoBookingListItem[] = [];
+    for (let page = 1; page <= MAX_BOOKING_LIST_PAGES && pending.size > 0; page++) {
+      const result = await listBookings(credential, {
+        fromCheckIn: window.fromCheckIn,
+        toCheckIn: window.toCheckIn,
+        page,
+        countPerPage: BOOKING_LIST_PAGE_SIZE,
+      });
+      listed.push(...result.bookings);
+      result.bookings.forEach((item) => pending.delete(item.bookingId));
+      if (result.bookings.length < BOOKING_LIST_PAGE_SIZE || page * BOOKING_LIST_PAGE_SIZE >= result.totalCount) {
+        break;
+      }
+    }
 
-    const supabase = createServiceClient(c.env);
+    const changes = findBookingStateChanges(rows, listed);
+    logger.info("Refreshed booking states from myGO", {
+      bookings: window.mygoBookingIds.length,
+      missing: pending.size,
+      changed: changes.length,
+    });
+    if (changes.length === 0) {
+      return rows;
+    }
 
-    // Fetch booking from database
-    const { data: booking, error } = await supabase
+    const states = new Map<string, string>();
+    await Promise.all(
+      changes.map(async (change) => {
+        const row = rows.find((candidate) => candidate.id === change.id)!;
+        try {
+          const { error } = await updateBookingStates(supabase, row, { mygoState: change.state }, logger);
+          if (error) {
+            logger.warn("Failed to store refreshed myGO state", { bookingId: change.id, error: error.message });
+            return;
+          }
+          states.set(change.id, change.state);
+        } catch (error) {
+          // Rejected and logged by the state machine; keep the stored state
+          if (!(error instanceof IllegalTransitionError)) {
+            throw error;
+          }
+        }
+      })
+    );
+
+    return rows.map((row) => (states.has(row.id) ? { ...row, mygo_state: states.get(row.id)! } : row));
+  } catch (error) {
+    logger.warn("Failed to refresh booking states from myGO", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return rows;
+  }
+};
+
+/**
+ * GET /bookings
+ * Bookings of the signed-in user or guest session ("my bookings"):
+ * - tab: upcoming (default, soonest first), past or cancelled (latest first)
+ * - page, perPage: pagination (20 per page by default)
+ * - refresh=true: refresh the myGO state of the listed bookings first
+ */
+bookings.get("/", async (c) => {
+  const logger = createLogger(c.var);
+  const owner = getSessionOwner(c.var);
+
+  try {
+    const query = c.req.query();
+    const filters = customerBookingListSchema.parse({
+      tab: query.tab,
+      page: query.page ? Number(query.page) : undefined,
+      perPage: query.perPage ? Number(query.perPage) : undefined,
+      refresh: query.refresh !== undefined ? query.refresh === "true" : undefined,
+    });
+
+    const tab = filters.tab ?? "upcoming";
+    const page = filters.page || 1;
+    const perPage = filters.perPage || 20;
+    const from = (page - 1) * perPage;
+    const to = from + perPage - 1;
+
+    let queryBuilder = createServiceClient(c.env)
       .from("bookings")
-      .select("*")
-      .eq("id", bookingId)
-      .single();
+      .select(BOOKING_SUMMARY_COLUMNS, { count: "exact" })
+      .eq(owner.column, owner.id);
 
-    if (error || !booking) {
-      logger.warn("Booking not found", { bookingId });
-      throw new NotFoundError("Booking not found");
+    // A stay is past once its check-out day is over
+    if (tab === "cancelled") {
+      queryBuilder = queryBuilder.eq("status", "cancelled");
+    } else if (tab === "upcoming") {
+      queryBuilder = queryBuilder.neq("status", "cancelled").gte("check_out", today());
+    } else {
+      queryBuilder = queryBuilder.neq("status", "cancelled").lt("check_out", today());
     }
 
-    // Verify access - user must own the booking or have guest session
-    if (userId && booking.user_id !== userId) {
-      logger.warn("Unauthorized booking access attempt", { bookingId, userId });
-      throw new NotFoundError("Booking not found");
+    const { data, error, count } = await queryBuilder
+      .order("check_in", { ascending: tab === "upcoming" })
+      .order("created_at", { ascending: false })
+      .range(from, to);
+
+    if (error) {
+      logger.error("Failed to fetch customer bookings", { error: error.message });
+      throw new Error("Failed to fetch bookings");
     }
 
-    if (!userId && guestSessionId && booking.guest_session_id !== guestSessionId) {
-      logger.warn("Unauthorized guest booking access attempt", { bookingId, guestSessionId });
-      throw new NotFoundError("Booking not found");
+    let rows = (data ?? []) as unknown as BookingSummaryRow[];
+    if (filters.refresh) {
+      rows = await refreshBookingStates(c.env, rows, owner, logger);
     }
 
-    logger.info("Booking found in database", {
-      bookingId,
-      status: booking.status,
-      mygoBookingId: booking.mygo_booking_id,
+    logger.info("Customer bookings fetched", { tab, count: rows.length, total: count || 0 });
+
+    return c.json({
+      tab,
+      bookings: rows.map(toBookingSummary),
+      pagination: {
+        page,
+        perPage,
+        total: count || 0,
+        totalPages: Math.ceil((count || 0) / perPage),
+      },
     });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      throw new ValidationError("Invalid booking list parameters", error);
+    }
+    throw error;
+  }
+});
 
-    // If booking is not in final state, try to refresh from myGO
-    let mygoStatus: Record<string, unknown> | null = null;
-    if (booking.mygo_booking_id && ["pending", "confirmed"].includes(booking.status)) {
-      try {
-        const credential = getMyGoCredential(c.env);
-        mygoStatus = await bookingDetails(credential, { booking: booking.mygo_booking_id });
+// Guest booking lookups: per client IP, and per booking reference so the
+// email of one booking cannot be guessed from many IPs
+const LOOKUP_IP_LIMIT: RateLimit = { windowMinutes: 15, maxRequests: 10 };
+const LOOKUP_REFERENCE_LIMIT: RateLimit = { windowMinutes: 60, maxRequests: 5 };
 
-        const bookingState = (mygoStatus as any)?.booking?.State;
-        logger.info("Fetched latest status from myGO", {
-          mygoBookingId: booking.mygo_booking_id,
-          state: bookingState,
-        });
+/**
+ * Email the magic link of a guest lookup
+ * The link is recorded in booking_access_links first (id and expiry only, the
+ * token itself is never stored); a link that could not be delivered is revoked
+ * @returns whether the link was sent
+ */
+const sendMagicLink = async (
+  env: Env,
+  booking: { id: string; customer_email: string },
+  secret: string,
+  logger: ReturnType<typeof createLogger>
+): Promise<boolean> => {
+  if (!env.BOOKING_MANAGE_URL || !isEmailConfigured(env)) {
+    logger.warn("BOOKING_MANAGE_URL or the email sender is not configured, no magic link sent", {
+      bookingId: booking.id,
+    });
+    return false;
+  }
 
-        // Update database with latest myGO state if changed
-        if (bookingState && bookingState !== booking.mygo_state) {
-          await supabase
-            .from("bookings")
-            .update({ mygo_state: bookingState })
-            .eq("id", bookingId);
-        }
-      } catch (mygoError) {
-        logger.warn("Failed to fetch booking from myGO", {
+  const supabase = createServiceClient(env);
+  const linkId = crypto.randomUUID();
+  const link = await signBookingAccess(booking.id, BOOKING_ACCESS_LINK_TTL_MS, secret, new Date(), linkId);
+  const { error } = await supabase.from("booking_access_links").insert({
+    id: linkId,
+    booking_id: booking.id,
+    email: booking.customer_email,
+    expires_at: link.expiresAt,
+  });
+
+  if (error) {
+    logger.error("Failed to record booking magic link", { bookingId: booking.id, error: error.message });
+    return false;
+  }
+
+  let sent = false;
+  try {
+    await sendEmail(env, {
+      to: booking.customer_email,
+      ...buildMagicLinkEmail(buildMagicLink(env.BOOKING_MANAGE_URL, link.token), link.expiresAt),
+    });
+    sent = true;
+  } catch (sendError) {
+    logger.warn("Booking magic link email failed", {
+      bookingId: booking.id,
+      error: sendError instanceof Error ? sendError.message : String(sendError),
+    });
+  }
+
+  const now = new Date().toISOString();
+  const { error: updateError } = await supabase
+    .from("booking_access_links")
+    .update(sent ? { delivery_status: "sent", delivered_at: now } : { delivery_status: "failed", revoked_at: now })
+    .eq("id", linkId);
+  if (updateError) {
+    logger.error("Failed to record booking magic link delivery", { bookingId: booking.id, error: updateError.message });
+  }
+  return sent;
+};
+
+/**
+ * POST /bookings/lookup
+ * Guest "manage my booking": find a booking by its reference (myGO booking
+ * number or booking id) and customer email. Returns an access token for that
+ * booking and emails a magic link. Rate limited; a wrong reference and a
+ * wrong email get the same 404
+ */
+bookings.post("/lookup", async (c) => {
+  const logger = createLogger(c.var);
+  const secret = getBookingAccessSecret(c.env);
+  if (!secret) {
+    logger.error("Booking access signing secret is not configured");
+    throw new Error("Booking lookup is not available");
+  }
+
+  let body: unknown;
+  try {
+    body = await c.req.json();
+  } catch {
+    throw new ValidationError("Invalid JSON body");
+  }
+
+  let input: { reference: string; email: string };
+  try {
+    input = bookingLookupSchema.parse(body);
+  } catch (error) {
+    if (error instanceof ZodError) {
+      throw new ValidationError("Invalid booking lookup", error);
+    }
+    throw error;
+  }
+
+  const supabase = createServiceClient(c.env);
+  await checkRateLimit(supabase, "booking-lookup-ip", getClientIp(c.req.raw), LOOKUP_IP_LIMIT, logger);
+
+  const reference = parseBookingReference(input.reference);
+  if (!reference) {
+    throw new NotFoundError("No booking matches this reference and email");
+  }
+  // Keyed on the parsed reference so variants of one booking number
+  // (leading zeros) share a bucket
+  await checkRateLimit(
+    supabase,
+    "booking-lookup-reference",
+    `${reference.column}:${reference.value}`,
+    LOOKUP_REFERENCE_LIMIT,
+    logger
+  );
+
+  const { data: booking, error } = await supabase
+    .from("bookings")
+    .select("id, customer_email")
+    .eq(reference.column, reference.value)
+    .maybeSingle();
+
+  if (error) {
+    logger.error("Failed to look up booking", { error: error.message });
+    throw new Error("Failed to look up booking");
+  }
+  if (!booking || !matchesCustomerEmail(booking.customer_email, input.email)) {
+    logger.warn("Booking lookup did not match", { referenceType: reference.column });
+    throw new NotFoundError("No booking matches this reference and email");
+  }
+
+  const access = await signBookingAccess(booking.id, BOOKING_ACCESS_TOKEN_TTL_MS, secret);
+  const linkSent = await sendMagicLink(c.env, booking, secret, logger);
+
+  logger.info("Booking lookup matched", { bookingId: booking.id, linkSent });
+
+  return c.json({
+    bookingId: booking.id,
+    accessToken: access.token,
+    expiresAt: access.expiresAt,
+    linkSent,
+  });
+});
+
+/**
+ * GET /bookings/:id
+ * Get booking status from database and optionally refresh from myGO
+ */
+bookings.get("/:id", async (c) => {
+  const logger = createLogger(c.var);
+  const bookingId = c.req.param("id");
+  const userId = c.get("userId");
+  const guestSessionId = c.get("guestSessionId");
+
+  logger.info("Fetching booking status", { bookingId, userId });
+
+  try {
+    // Validate UUID format
+    uuidSchema.parse(bookingId);
+
+    const supabase = createServiceClient(c.env);
+
+    // Fetch booking from database
+    const { data: booking, error } = await supabase
+      .from("bookings")
+      .select("*")
+      .eq("id", bookingId)
+      .single();
+
+    if (error || !booking) {
+      logger.warn("Booking not found", { bookingId });
+      throw new NotFoundError("Booking not found");
+    }
+
+    assertBookingAccess(booking, userId, guestSessionId, logger, c.get("bookingAccessId"));
+
+    logger.info("Booking found in database", {
+      bookingId,
+      status: booking.status,
+      mygoBookingId: booking.mygo_booking_id,
+    });
+
+    // If booking is not in final state, try to refresh from myGO
+    let mygoStatus: Record<string, unknown> | null = null;
+    if (booking.mygo_booking_id && ["pending", "confirmed"].includes(booking.status)) {
+      try {
+        const credential = getMyGoCredential(c.env);
+        mygoStatus = await bookingDetails(credential, { booking: booking.mygo_booking_id });
+
+        const bookingState = (mygoStatus as any)?.booking?.State;
+        logger.info("Fetched latest status from myGO", {
+          mygoBookingId: booking.mygo_booking_id,
+          state: bookingState,
+        });
+
+        // Update database with latest myGO state if changed (illegal
+        // changes are rejected and logged by the state machine)
+        if (bookingState && bookingState !== booking.mygo_state) {
+          await updateBookingStates(supabase, booking, { mygoState: bookingState }, logger);
+        }
+      } catch (mygoError) {
+        logger.warn("Failed to fetch booking from myGO", {
           error: mygoError instanceof Error ? mygoError.message : String(mygoError),
         });
         // Continue with database data
@@ -540,6 +1551,16 @@ bookings.get("/:id", async (c) => {
       children: booking.children,
       totalPrice: booking.total_price,
       currency: booking.currency,
+      promo: booking.promo_code
+        ? { code: booking.promo_code, discount: booking.discount_amount }
+        : null,
+      display: booking.display_currency
+        ? {
+            currency: booking.display_currency,
+            totalPrice: booking.display_total_price,
+            rate: booking.exchange_rate,
+          }
+        : null,
       status: booking.status,
       paymentStatus: booking.payment_status,
       customer: {
@@ -566,4 +1587,1104 @@ bookings.get("/:id", async (c) => {
   }
 });
 
+type ChangeableBookingRow = CancellableBooking & BookingStateRow & {
+  user_id: string | null;
+  guest_session_id: string | null;
+  hotel_id: number;
+  customer_first_name: string;
+  customer_last_name: string;
+  customer_email: string;
+  customer_phone: string;
+  pricing_snapshot: { channel?: PricingChannel } | null;
+  promo_code_id: number | null;
+  display_currency: string | null;
+  exchange_rate: number | string | null;
+  exchange_rate_id: number | null;
+  created_at: string;
+};
+
+/**
+ * Booking to cancel or amend and its held or captured payment, if any
+ * Access is checked like GET /bookings/:id; a caller without user or guest
+ * session cannot change a booking
+ */
+const loadChangeableBooking = async (
+  env: Env,
+  bookingId: string,
+  userId: string | undefined,
+  guestSessionId: string | undefined,
+  logger: ReturnType<typeof createLogger>,
+  accessBookingId?: string
+): Promise<{ booking: ChangeableBookingRow; payment: CancellablePayment | null }> => {
+  if (!userId && !guestSessionId && !accessBookingId) {
+    throw new AuthenticationError("Authentication or guest session required");
+  }
+
+  try {
+    uuidSchema.parse(bookingId);
+  } catch (error) {
+    if (error instanceof ZodError) {
+      throw new ValidationError("Invalid booking ID format", error);
+    }
+    throw error;
+  }
+
+  const supabase = createServiceClient(env);
+  const { data: booking, error } = await supabase.from("bookings").select("*").eq("id", bookingId).maybeSingle();
+
+  if (error) {
+    logger.error("Failed to fetch booking", { bookingId, error: error.message });
+    throw new Error("Failed to fetch booking");
+  }
+  if (!booking) {
+    throw new NotFoundError("Booking not found");
+  }
+  assertBookingAccess(booking, userId, guestSessionId, logger, accessBookingId);
+
+  const { data: payments, error: paymentError } = await supabase
+    .from("payments")
+    .select("*, booking_amendments(status)")
+    .eq("booking_id", bookingId)
+    .in("status", ["authorized", "captured"])
+    .order("created_at", { ascending: false });
+
+  if (paymentError) {
+    logger.error("Failed to fetch booking payment", { bookingId, error: paymentError.message });
+    throw new Error("Failed to fetch booking payment");
+  }
+
+  // Replacement pre-authorizations only pay for the booking once their amendment completed
+  const payment = (payments ?? []).find(
+    (candidate) => !candidate.amendment_id || candidate.booking_amendments?.status === "completed"
+  );
+  return { booking, payment: (payment as CancellablePayment | undefined) ?? null };
+};
+
+const assertCancellable = (booking: ChangeableBookingRow): void => {
+  const ineligibility = getCancellationIneligibility(booking, today());
+  if (ineligibility) {
+    throw new ValidationError(ineligibility);
+  }
+};
+
+/**
+ * myGO cancellation fee of a booking (PreCancelled: nothing is cancelled)
+ */
+const quoteCancellation = async (
+  env: Env,
+  booking: ChangeableBookingRow,
+  payment: CancellablePayment | null,
+  logger: ReturnType<typeof createLogger>
+): Promise<CancellationQuote> => {
+  let fee: number | undefined;
+  try {
+    const response = await cancelBooking(getMyGoCredential(env), {
+      booking: booking.mygo_booking_id!,
+      preCancelled: true,
+      currency: booking.currency,
+    });
+    fee = response.cancellationFee;
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      throw error;
+    }
+    logger.error("Cancellation quote failed", {
+      bookingId: booking.id,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    throw new ExternalServiceError("Failed to quote cancellation", "MyGO");
+  }
+
+  if (fee === undefined) {
+    logger.error("Cancellation quote without fee", { bookingId: booking.id });
+    throw new ExternalServiceError("myGO did not return a cancellation fee", "MyGO");
+  }
+  return computeCancellationQuote(booking, payment, fee, new Date());
+};
+
+// ClicToPay operation on a booking payment (cancellation or amendment)
+type PaymentOperation =
+  | { action: "none" }
+  | { action: "reverse" }
+  | { action: "capture"; amount: number }
+  | { action: "refund"; amount: number };
+
+type SettlementStatus = "none" | "completed" | "failed";
+
+/**
+ * Run a ClicToPay operation on a booking payment and record it
+ * A failed operation is logged and left for customer service (the caller
+ * records status "failed"); the booking change itself stands. A partial
+ * refund leaves the payment captured with its refunded_amount
+ */
+const settlePayment = async (
+  env: Env,
+  payment: CancellablePayment | null,
+  operation: PaymentOperation,
+  currency: string,
+  logger: ReturnType<typeof createLogger>
+): Promise<{ status: SettlementStatus; paymentStatus?: PaymentStatus }> => {
+  if (operation.action === "none" || !payment?.order_id) {
+    return { status: "none" };
+  }
+
+  const { client } = createClicToPayClientFromEnv(env);
+  const next: PaymentStatus =
+    operation.action === "reverse"
+      ? "reversed"
+      : operation.action === "capture" || getPaidAmount(payment, currency) - operation.amount > 0
+        ? "captured"
+        : "refunded";
+  let columns: Record<string, unknown> = {};
+  try {
+    // Illegal settlements (e.g. reversing a captured payment) never reach ClicToPay
+    assertPaymentTransition(payment, next, logger);
+    if (operation.action === "reverse") {
+      await client.reverse({ orderId: payment.order_id });
+    } else if (operation.action === "capture") {
+      await client.deposit({ orderId: payment.order_id, amount: toMinorUnits(operation.amount, currency) });
+      columns = { captured_amount: operation.amount };
+    } else {
+      await client.refund({ orderId: payment.order_id, amount: toMinorUnits(operation.amount, currency) });
+      const refunded = Number(payment.refunded_amount ?? 0) + operation.amount;
+      columns = { refunded_amount: roundToMinorUnits(refunded, currency) };
+    }
+  } catch (error) {
+    logger.error("Payment settlement failed", {
+      paymentId: payment.id,
+      action: operation.action,
+      amount: "amount" in operation ? operation.amount : undefined,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return { status: "failed" };
+  }
+
+  const { error } = await updatePaymentStatus(createServiceClient(env), payment, next, columns, logger);
+
+  if (error) {
+    logger.error("Failed to record payment settlement", {
+      paymentId: payment.id,
+      action: operation.action,
+      error: error.message,
+    });
+  }
+  return { status: "completed", paymentStatus: next };
+};
+
+/**
+ * POST /bookings/:id/cancel/quote
+ * Penalty and refund if the booking were cancelled now (nothing is cancelled)
+ * Response: { quote: { bookingId, currency, paidAmount, penalty, refundAmount, freeCancellation, quotedAt } }
+ */
+bookings.post("/:id/cancel/quote", async (c) => {
+  const logger = createLogger(c.var);
+  const { booking, payment } = await loadChangeableBooking(
+    c.env,
+    c.req.param("id"),
+    c.get("userId"),
+    c.get("guestSessionId"),
+    logger,
+    c.get("bookingAccessId")
+  );
+  assertCancellable(booking);
+
+  const quote = await quoteCancellation(c.env, booking, payment, logger);
+  logger.info("Cancellation quoted", { bookingId: booking.id, penalty: quote.penalty, refundAmount: quote.refundAmount });
+  return c.json({ quote });
+});
+
+/**
+ * POST /bookings/:id/cancel/confirm
+ * Cancel the booking at myGO, then settle the ClicToPay payment
+ * Body: { acceptedPenalty } — the penalty of the quote shown to the customer
+ *
+ * Flow:
+ * 1. Re-quote; a penalty above acceptedPenalty is rejected with the new quote
+ *    amount so the customer can review it
+ * 2. Cancel at myGO (never retried automatically)
+ * 3. Mark the booking cancelled with its penalty and refund, release its
+ *    promo code
+ * 4. Reverse, partially capture or refund the payment (see utils/bookingCancellation)
+ */
+bookings.post("/:id/cancel/confirm", async (c) => {
+  const logger = createLogger(c.var);
+
+  let body;
+  try {
+    body = cancellationConfirmSchema.parse(await c.req.json());
+  } catch (error) {
+    if (error instanceof ZodError) {
+      throw new ValidationError("Invalid cancellation data", error);
+    }
+    throw new ValidationError("Invalid JSON body");
+  }
+
+  const { booking, payment } = await loadChangeableBooking(
+    c.env,
+    c.req.param("id"),
+    c.get("userId"),
+    c.get("guestSessionId"),
+    logger,
+    c.get("bookingAccessId")
+  );
+  assertCancellable(booking);
+
+  let quote = await quoteCancellation(c.env, booking, payment, logger);
+  if (quote.penalty > body.acceptedPenalty) {
+    const message = `The cancellation penalty is now ${quote.penalty} ${quote.currency}, please review the new quote`;
+    throw new ValidationError(message, [{ field: "acceptedPenalty", code: "PENALTY_CHANGED", message }]);
+  }
+
+  let mygoState: string | undefined;
+  try {
+    const response = await cancelBooking(getMyGoCredential(c.env), {
+      booking: booking.mygo_booking_id!,
+      preCancelled: false,
+      currency: booking.currency,
+    });
+    mygoState = response.state;
+    // The final fee normally matches the quote; a higher one is not passed on
+    if (response.cancellationFee !== undefined) {
+      const charged = computeCancellationQuote(booking, payment, response.cancellationFee, new Date());
+      if (charged.penalty > quote.penalty) {
+        logger.warn("myGO charged more than quoted, keeping the accepted penalty", {
+          bookingId: booking.id,
+          quoted: quote.penalty,
+          charged: charged.penalty,
+        });
+      } else {
+        quote = charged;
+      }
+    }
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      throw error;
+    }
+    logger.error("myGO cancellation failed", {
+      bookingId: booking.id,
+      mygoBookingId: booking.mygo_booking_id,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    throw new ExternalServiceError("Failed to cancel booking", "MyGO");
+  }
+
+  const supabase = createServiceClient(c.env);
+  const now = new Date().toISOString();
+  const plan = planRefund(payment, quote);
+  const settlement = await settlePayment(c.env, payment, plan, booking.currency, logger);
+  const refundStatus = settlement.status;
+
+  const { error: updateError } = await updateBookingStates(
+    supabase,
+    booking,
+    {
+      status: "cancelled",
+      mygoState: mygoState ?? "Cancelled",
+      paymentStatus: settlement.paymentStatus,
+      columns: {
+        cancelled_at: now,
+        cancellation_penalty: quote.penalty,
+        refund_amount: quote.refundAmount,
+        refund_status: refundStatus,
+      },
+    },
+    logger
+  ).catch((error) => {
+    // Cancelled at myGO already: an illegal transition is reconciled like a failed write
+    if (error instanceof IllegalTransitionError) {
+      return { error: { message: error.message } };
+    }
+    throw error;
+  });
+
+  if (updateError) {
+    // Cancelled at myGO already: log for reconciliation, still report the outcome
+    logger.error("Failed to record booking cancellation", { bookingId: booking.id, error: updateError.message });
+  }
+  await updateBookingRedemptions(supabase, booking.id, "released", logger);
+
+  logger.info("Booking cancelled by customer", {
+    bookingId: booking.id,
+    penalty: quote.penalty,
+    refundAmount: quote.refundAmount,
+    refundAction: plan.action,
+    refundStatus,
+  });
+
+  return c.json({
+    bookingId: booking.id,
+    status: "cancelled",
+    cancelledAt: now,
+    penalty: quote.penalty,
+    refundAmount: quote.refundAmount,
+    currency: quote.currency,
+    refund: { action: plan.action, status: refundStatus },
+  });
+});
+
+
+/**
+ * Request body of a POST route, parsed with its schema
+ */
+const parseAmendmentBody = async <T>(
+  c: { req: { json: () => Promise<unknown> } },
+  schema: { parse: (value: unknown) => T }
+): Promise<T> => {
+  try {
+    return schema.parse(await c.req.json());
+  } catch (error) {
+    if (error instanceof ZodError) {
+      throw new ValidationError("Invalid amendment data", error);
+    }
+    throw new ValidationError("Invalid JSON body");
+  }
+};
+
+const assertAmendable = (booking: ChangeableBookingRow, request: AmendmentRequest): void => {
+  const ineligibility = getAmendmentIneligibility(booking, request, today());
+  if (ineligibility) {
+    throw new ValidationError(ineligibility);
+  }
+};
+
+/**
+ * City of a booked hotel: bookings only keep the hotel, myGO searches by city
+ */
+const loadHotelCityId = async (
+  env: Env,
+  hotelId: number,
+  logger: ReturnType<typeof createLogger>
+): Promise<number> => {
+  const { data, error } = await createServiceClient(env)
+    .from("inventory_hotels")
+    .select("city_id")
+    .eq("id", hotelId)
+    .maybeSingle();
+
+  if (error) {
+    logger.error("Failed to load hotel city", { hotelId, error: error.message });
+    throw new Error("Failed to load hotel city");
+  }
+  if (!data?.city_id) {
+    throw new ValidationError("This booking cannot be amended online, please contact customer service");
+  }
+  return data.city_id;
+};
+
+interface AmendmentSearch {
+  token: string;
+  cityId: number;
+  hotel: MyGoHotelSearchResult | undefined;
+  pricingRules: PricingRule[];
+  channel: PricingChannel;
+  // Promo code of the booking, applied again to the new stay
+  promo: PromoCode | null;
+  // Penalty of cancelling the current booking now
+  cancellation: CancellationQuote;
+  offers: AmendmentOffer[];
+}
+
+/**
+ * Fresh search of the booked hotel for the new stay, priced like search
+ * results, with the cancellation penalty of the current booking
+ */
+const searchAmendment = async (
+  env: Env,
+  booking: ChangeableBookingRow,
+  payment: CancellablePayment | null,
+  request: AmendmentRequest,
+  logger: ReturnType<typeof createLogger>
+): Promise<AmendmentSearch> => {
+  const cityId = await loadHotelCityId(env, booking.hotel_id, logger);
+  const channel = booking.pricing_snapshot?.channel ?? DEFAULT_PRICING_CHANNEL;
+  const [freshSearch, pricingRules, promo, cancellation] = await Promise.all([
+    reconstructToken(
+      getMyGoCredential(env),
+      { cityId, ...request, currency: booking.currency },
+      { hotelId: booking.hotel_id },
+      logger
+    ),
+    loadPricingRules(env, logger),
+    booking.promo_code_id ? getPromoCodeById(createServiceClient(env), booking.promo_code_id) : null,
+    quoteCancellation(env, booking, payment, logger),
+  ]);
+
+  const pricedHotels = await priceFreshSearch(
+    env,
+    freshSearch.hotels,
+    pricingRules,
+    { checkIn: request.checkIn, channel },
+    logger
+  );
+  const hotel = annotateFreeCancellation(pricedHotels, {
+    checkIn: request.checkIn,
+    checkOut: request.checkOut,
+    currency: booking.currency,
+  }).find((candidate) => candidate.id === booking.hotel_id);
+
+  return {
+    token: freshSearch.token,
+    cityId,
+    hotel,
+    pricingRules,
+    channel,
+    promo,
+    cancellation,
+    offers: buildAmendmentOffers(hotel?.rooms ?? [], booking, cancellation.penalty, promo),
+  };
+};
+
+/**
+ * Offer the customer accepted, still available at no more than the accepted
+ * price difference
+ * @throws ValidationError ROOM_UNAVAILABLE or PRICE_CHANGED (field errors)
+ */
+const requireAcceptedOffer = (
+  search: AmendmentSearch,
+  selection: { roomId: number; boardCode?: string | null },
+  acceptedPriceDifference: number
+): AmendmentOffer => {
+  const offer = findAmendmentOffer(search.offers, selection.roomId, selection.boardCode);
+  if (!offer) {
+    const message = "The selected room is no longer available for these dates";
+    throw new ValidationError(message, [{ field: "roomId", code: "ROOM_UNAVAILABLE", message }]);
+  }
+  if (offer.priceDifference > acceptedPriceDifference + AMENDMENT_PRICE_TOLERANCE) {
+    const message = `The price difference is now ${offer.priceDifference} ${search.cancellation.currency}, please review the new quote`;
+    throw new ValidationError(message, [{ field: "acceptedPriceDifference", code: "PRICE_CHANGED", message }]);
+  }
+  return offer;
+};
+
+/**
+ * Cancel a myGO booking made by a failed amendment
+ * A failure leaves two myGO bookings for one customer booking: logged for
+ * reconciliation
+ */
+const rollbackMyGoBooking = async (
+  env: Env,
+  booking: ChangeableBookingRow,
+  mygoBookingId: number,
+  logger: ReturnType<typeof createLogger>
+): Promise<void> => {
+  try {
+    await cancelBooking(getMyGoCredential(env), {
+      booking: mygoBookingId,
+      preCancelled: false,
+      currency: booking.currency,
+    });
+    logger.info("Amendment booking rolled back", { bookingId: booking.id, mygoBookingId });
+  } catch (error) {
+    logger.error("Amendment rollback failed, myGO bookings need reconciliation", {
+      bookingId: booking.id,
+      keptMyGoBookingId: booking.mygo_booking_id,
+      orphanMyGoBookingId: mygoBookingId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+};
+
+interface AmendmentSwap {
+  mygoBookingId: number;
+  state: string | undefined;
+  // Cancellation penalty of the previous booking, included in newTotal
+  penalty: number;
+  // Promo discount on the new stay, deducted from newTotal
+  discount: number;
+  newTotal: number;
+  pricing: ReturnType<typeof buildBookingPricing>;
+}
+
+/**
+ * Swap the myGO booking for the new stay
+ * The new stay is booked first and the current booking only cancelled once
+ * it exists; when that cancellation fails the new booking is cancelled
+ * again, so the customer always keeps exactly one of the two stays
+ * @throws ValidationError PRICE_CHANGED when myGO booked above the accepted difference
+ */
+const swapMyGoBooking = async (
+  env: Env,
+  booking: ChangeableBookingRow,
+  search: AmendmentSearch,
+  offer: AmendmentOffer,
+  request: AmendmentRequest,
+  acceptedPriceDifference: number,
+  logger: ReturnType<typeof createLogger>
+): Promise<AmendmentSwap> => {
+  const credential = getMyGoCredential(env);
+
+  let created;
+  try {
+    created = await createBooking(credential, {
+      token: search.token,
+      preBooking: false,
+      customerName: `${booking.customer_first_name} ${booking.customer_last_name}`,
+      customerEmail: booking.customer_email,
+      customerPhone: booking.customer_phone,
+      roomSelections: request.rooms.map(() => ({ hotelId: booking.hotel_id, roomId: offer.roomId })),
+    });
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      throw error;
+    }
+    logger.error("Amendment booking failed", {
+      bookingId: booking.id,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    throw new ExternalServiceError("Failed to book the new stay", "MyGO");
+  }
+
+  // createBooking throws without a BookingId
+  const mygoBookingId = created.bookingId!;
+  const room = search.hotel?.rooms.find(
+    (candidate) => candidate.roomId === offer.roomId && (!offer.boardCode || candidate.boardCode === offer.boardCode)
+  );
+  const pricing = buildBookingPricing(created.totalPrice, search.pricingRules, {
+    hotelId: booking.hotel_id,
+    cityId: search.cityId,
+    star: search.hotel?.star,
+    boardType: room?.boardType,
+    checkIn: request.checkIn,
+    channel: search.channel,
+  });
+  // Without a myGO total the quoted offer stands, as for new bookings
+  const penalty = search.cancellation.penalty;
+  const discount =
+    created.totalPrice === undefined ? offer.discount : getAmendmentDiscount(search.promo, pricing.total_price);
+  const newTotal =
+    created.totalPrice === undefined
+      ? offer.newTotal
+      : roundToMinorUnits(
+          roundToMinorUnits(Math.max(pricing.total_price - discount, 0), booking.currency) + penalty,
+          booking.currency
+        );
+  const priceDifference = roundToMinorUnits(newTotal - Number(booking.total_price), booking.currency);
+
+  if (priceDifference > acceptedPriceDifference + AMENDMENT_PRICE_TOLERANCE) {
+    logger.warn("Amendment booked above the accepted price, rolling back", {
+      bookingId: booking.id,
+      accepted: acceptedPriceDifference,
+      priceDifference,
+    });
+    await rollbackMyGoBooking(env, booking, mygoBookingId, logger);
+    const message = `The price difference is now ${priceDifference} ${booking.currency}, please review the new quote`;
+    throw new ValidationError(message, [{ field: "acceptedPriceDifference", code: "PRICE_CHANGED", message }]);
+  }
+
+  try {
+    await cancelBooking(credential, {
+      booking: booking.mygo_booking_id!,
+      preCancelled: false,
+      currency: booking.currency,
+    });
+  } catch (error) {
+    logger.error("Amendment could not cancel the previous booking, rolling back", {
+      bookingId: booking.id,
+      mygoBookingId: booking.mygo_booking_id,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    await rollbackMyGoBooking(env, booking, mygoBookingId, logger);
+    throw new ExternalServiceError("Failed to cancel the previous booking, it was not changed", "MyGO");
+  }
+
+  return { mygoBookingId, state: created.state, penalty, discount, newTotal, pricing };
+};
+
+/**
+ * Record the new stay on the booking row (the booking keeps its id)
+ * myGO already swapped: failures are logged for reconciliation, never thrown.
+ * The new myGO booking starts its own state; a replacement payment starts
+ * payment_status afresh
+ */
+const recordAmendedBooking = async (
+  env: Env,
+  booking: ChangeableBookingRow,
+  request: AmendmentRequest,
+  swap: AmendmentSwap,
+  payment: { status?: PaymentStatus; replaced: boolean },
+  logger: ReturnType<typeof createLogger>
+): Promise<void> => {
+  const now = new Date().toISOString();
+  const displayRate: ExchangeRate | null =
+    booking.display_currency && booking.exchange_rate !== null
+      ? {
+          id: booking.exchange_rate_id,
+          currency: booking.display_currency,
+          tndPerUnit: Number(booking.exchange_rate),
+          effectiveAt: booking.created_at,
+          note: null,
+        }
+      : null;
+
+  const { error } = await updateBookingStates(
+    createServiceClient(env),
+    booking,
+    {
+      mygoBookingId: swap.mygoBookingId,
+      mygoState: swap.state ?? null,
+      status: swap.state === "OnRequest" ? "pending" : booking.status,
+      paymentStatus: payment.status,
+      replacesPayment: payment.replaced,
+      columns: {
+        check_in: request.checkIn,
+        check_out: request.checkOut,
+        rooms: request.rooms.length,
+        adults: request.rooms.reduce((sum, room) => sum + room.adults, 0),
+        children: request.rooms.reduce((sum, room) => sum + (room.childrenAges?.length ?? 0), 0),
+        ...swap.pricing,
+        ...(booking.promo_code_id ? { discount_amount: swap.discount } : {}),
+        total_price: swap.newTotal,
+        // The penalty already keeps the fees of earlier amendments in full
+        amendment_fees: swap.penalty,
+        display_total_price: displayRate ? convertFromTnd(swap.newTotal, displayRate) : null,
+        amended_at: now,
+      },
+    },
+    logger
+  ).catch((transitionError) => {
+    if (transitionError instanceof IllegalTransitionError) {
+      return { error: { message: transitionError.message } };
+    }
+    throw transitionError;
+  });
+
+  if (error) {
+    logger.error("Failed to record amended booking", {
+      bookingId: booking.id,
+      mygoBookingId: swap.mygoBookingId,
+      error: error.message,
+    });
+  }
+  if (booking.promo_code_id) {
+    await updateBookingRedemptionDiscount(createServiceClient(env), booking.id, swap.discount, logger);
+  }
+};
+
+/**
+ * Update an amendment row; failures are logged (the row is an audit trail)
+ */
+const updateAmendment = async (
+  env: Env,
+  amendmentId: string,
+  updates: Record<string, unknown>,
+  logger: ReturnType<typeof createLogger>
+): Promise<void> => {
+  const { error } = await createServiceClient(env).from("booking_amendments").update(updates).eq("id", amendmentId);
+  if (error) {
+    logger.error("Failed to update booking amendment", { amendmentId, error: error.message });
+  }
+};
+
+/**
+ * Run a swap for an amendment, marking the amendment failed when it throws
+ */
+const runAmendmentSwap = async (
+  env: Env,
+  amendmentId: string,
+  swap: () => Promise<AmendmentSwap>,
+  logger: ReturnType<typeof createLogger>
+): Promise<AmendmentSwap> => {
+  try {
+    return await swap();
+  } catch (error) {
+    await updateAmendment(
+      env,
+      amendmentId,
+      { status: "failed", failure_reason: error instanceof Error ? error.message : String(error) },
+      logger
+    );
+    throw error;
+  }
+};
+
+const toAmendmentResponse = (
+  amendmentId: string,
+  booking: ChangeableBookingRow,
+  request: AmendmentRequest,
+  swap: AmendmentSwap,
+  settlement: { action: string; amount?: number; status: SettlementStatus }
+) => ({
+  amendment: { id: amendmentId, status: "completed" },
+  booking: {
+    id: booking.id,
+    mygoBookingId: swap.mygoBookingId,
+    mygoState: swap.state ?? null,
+    checkIn: request.checkIn,
+    checkOut: request.checkOut,
+    rooms: request.rooms,
+    previousTotal: Number(booking.total_price),
+    penalty: swap.penalty,
+    totalPrice: swap.newTotal,
+    currency: booking.currency,
+  },
+  settlement,
+});
+
+/**
+ * POST /bookings/:id/amend/quote
+ * Offers of the booked hotel for new dates or occupancy (nothing is changed)
+ * Body: { checkIn, checkOut, rooms: [{ adults, childrenAges }] }
+ * Response: { quote: { bookingId, currency, currentTotal, paidAmount, penalty, offers: [...] } }
+ *
+ * - penalty: cancellation penalty of the current booking under its policy,
+ *   added to every offer
+ * - offers[].priceDifference: price + penalty - currentTotal
+ * - offers[].settlement: how the difference would be paid (preauth needs
+ *   returnUrl/failUrl at confirmation)
+ */
+bookings.post("/:id/amend/quote", async (c) => {
+  const logger = createLogger(c.var);
+  const request = await parseAmendmentBody(c, amendmentQuoteSchema);
+  const { booking, payment } = await loadChangeableBooking(
+    c.env,
+    c.req.param("id"),
+    c.get("userId"),
+    c.get("guestSessionId"),
+    logger,
+    c.get("bookingAccessId")
+  );
+  assertAmendable(booking, request);
+
+  const search = await searchAmendment(c.env, booking, payment, request, logger);
+  const { penalty, paidAmount } = search.cancellation;
+
+  logger.info("Amendment quoted", { bookingId: booking.id, offers: search.offers.length, penalty });
+  return c.json({
+    quote: {
+      bookingId: booking.id,
+      currency: booking.currency,
+      checkIn: request.checkIn,
+      checkOut: request.checkOut,
+      rooms: request.rooms,
+      currentTotal: Number(booking.total_price),
+      paidAmount,
+      penalty,
+      offers: search.offers.map((offer) => ({
+        ...offer,
+        settlement: planAmendmentSettlement(payment, paidAmount, offer.newTotal, booking.currency),
+      })),
+      quotedAt: new Date().toISOString(),
+    },
+  });
+});
+
+/**
+ * POST /bookings/:id/amend/confirm
+ * Amend the booking with an offer of the quote
+ * Body: { checkIn, checkOut, rooms, roomId, boardCode?, acceptedPriceDifference, returnUrl?, failUrl? }
+ *
+ * Flow:
+ * 1. Search and quote again; an unavailable room or a price difference above
+ *    acceptedPriceDifference is rejected and nothing changes
+ * 2. New total above what was paid: a replacement pre-authorization of the
+ *    new total is registered and its payment form returned (202). The swap
+ *    runs in POST /bookings/:id/amend/complete once it is paid
+ * 3. Otherwise the myGO booking is swapped now, then the hold is captured for
+ *    the new total only or the excess of a captured payment refunded
+ */
+bookings.post("/:id/amend/confirm", async (c) => {
+  const logger = createLogger(c.var);
+  const body = await parseAmendmentBody(c, amendmentConfirmSchema);
+  const request: AmendmentRequest = { checkIn: body.checkIn, checkOut: body.checkOut, rooms: body.rooms };
+  const { booking, payment } = await loadChangeableBooking(
+    c.env,
+    c.req.param("id"),
+    c.get("userId"),
+    c.get("guestSessionId"),
+    logger,
+    c.get("bookingAccessId")
+  );
+  assertAmendable(booking, request);
+
+  const search = await searchAmendment(c.env, booking, payment, request, logger);
+  const offer = requireAcceptedOffer(search, body, body.acceptedPriceDifference);
+  const { penalty, paidAmount } = search.cancellation;
+  const plan = planAmendmentSettlement(payment, paidAmount, offer.newTotal, booking.currency);
+
+  if (plan.action === "preauth" && (!body.returnUrl || !body.failUrl)) {
+    throw new ValidationError("returnUrl and failUrl are required to pay the price difference");
+  }
+
+  const supabase = createServiceClient(c.env);
+  const { data: amendment, error: amendmentError } = await supabase
+    .from("booking_amendments")
+    .insert({
+      booking_id: booking.id,
+      status: plan.action === "preauth" ? "awaiting_payment" : "processing",
+      check_in: request.checkIn,
+      check_out: request.checkOut,
+      rooms: request.rooms,
+      room_id: offer.roomId,
+      board_code: offer.boardCode,
+      accepted_price_difference: body.acceptedPriceDifference,
+      previous_mygo_booking_id: booking.mygo_booking_id,
+      previous_total: Number(booking.total_price),
+      penalty,
+      settlement: plan.action,
+    })
+    .select("id")
+    .single();
+
+  if (amendmentError || !amendment) {
+    logger.error("Failed to store booking amendment", { bookingId: booking.id, error: amendmentError?.message });
+    throw new Error("Failed to store booking amendment");
+  }
+
+  if (plan.action === "preauth") {
+    const { testMode, client } = createClicToPayClientFromEnv(c.env);
+    const orderNumber = `AM-${booking.id.substring(0, 8)}-${Date.now()}`;
+    let preAuth;
+    try {
+      preAuth = await client.registerPreAuth({
+        orderNumber,
+        amount: toMinorUnits(plan.amount, booking.currency),
+        currency: booking.currency === "TND" ? "788" : "978",
+        returnUrl: body.returnUrl!,
+        failUrl: body.failUrl!,
+        description: `Booking amendment ${booking.id.substring(0, 8)} - ${request.checkIn} to ${request.checkOut}`,
+        customerEmail: booking.customer_email,
+        customerPhone: booking.customer_phone,
+      });
+    } catch (error) {
+      logger.error("Amendment pre-authorization failed", {
+        bookingId: booking.id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      await updateAmendment(c.env, amendment.id, { status: "failed", failure_reason: "Pre-authorization failed" }, logger);
+      throw new ExternalServiceError("Failed to create the payment of the amendment", "ClicToPay");
+    }
+
+    const { error: paymentError } = await supabase.from("payments").insert({
+      booking_id: booking.id,
+      amendment_id: amendment.id,
+      order_id: preAuth.orderId,
+      order_number: orderNumber,
+      amount: plan.amount,
+      currency: booking.currency,
+      status: "pending",
+    });
+    if (paymentError) {
+      logger.error("Failed to store amendment payment", { amendmentId: amendment.id, error: paymentError.message });
+      await updateAmendment(c.env, amendment.id, { status: "failed", failure_reason: "Payment not recorded" }, logger);
+      throw new Error("Failed to store amendment payment");
+    }
+
+    logger.info("Amendment awaiting payment", {
+      bookingId: booking.id,
+      amendmentId: amendment.id,
+      amount: plan.amount,
+      testMode,
+    });
+    return c.json(
+      {
+        amendment: { id: amendment.id, status: "awaiting_payment" },
+        offer,
+        payment: { orderId: preAuth.orderId, formUrl: preAuth.formUrl, amount: plan.amount, currency: booking.currency },
+      },
+      202
+    );
+  }
+
+  const swap = await runAmendmentSwap(
+    c.env,
+    amendment.id,
+    () => swapMyGoBooking(c.env, booking, search, offer, request, body.acceptedPriceDifference, logger),
+    logger
+  );
+
+  // Settle against the booked total, which may be below the quote
+  const booked = planAmendmentSettlement(payment, paidAmount, swap.newTotal, booking.currency);
+  const operation: PaymentOperation = booked.action === "preauth" ? { action: "none" } : booked;
+  const settlement = await settlePayment(c.env, payment, operation, booking.currency, logger);
+
+  await recordAmendedBooking(
+    c.env,
+    booking,
+    request,
+    swap,
+    { status: settlement.paymentStatus, replaced: false },
+    logger
+  );
+  await updateAmendment(
+    c.env,
+    amendment.id,
+    {
+      status: "completed",
+      new_mygo_booking_id: swap.mygoBookingId,
+      new_total: swap.newTotal,
+      settlement: operation.action,
+      settlement_status: settlement.status,
+      completed_at: new Date().toISOString(),
+    },
+    logger
+  );
+
+  logger.info("Booking amended", {
+    bookingId: booking.id,
+    amendmentId: amendment.id,
+    previousMyGoBookingId: booking.mygo_booking_id,
+    mygoBookingId: swap.mygoBookingId,
+    settlement: operation.action,
+    settlementStatus: settlement.status,
+  });
+  return c.json(
+    toAmendmentResponse(amendment.id, booking, request, swap, {
+      action: operation.action,
+      ...("amount" in operation ? { amount: operation.amount } : {}),
+      status: settlement.status,
+    })
+  );
+});
+
+/**
+ * POST /bookings/:id/amend/complete
+ * Swap the booking once the replacement pre-authorization of an amendment
+ * is authorized (payment callback), then release the previous payment
+ * Body: { amendmentId }
+ *
+ * When the swap fails the replacement hold is reversed and the booking keeps
+ * its current stay and payment
+ */
+bookings.post("/:id/amend/complete", async (c) => {
+  const logger = createLogger(c.var);
+  const { amendmentId } = await parseAmendmentBody(c, amendmentCompleteSchema);
+  const { booking, payment } = await loadChangeableBooking(
+    c.env,
+    c.req.param("id"),
+    c.get("userId"),
+    c.get("guestSessionId"),
+    logger,
+    c.get("bookingAccessId")
+  );
+
+  const supabase = createServiceClient(c.env);
+  const { data: amendment, error: amendmentError } = await supabase
+    .from("booking_amendments")
+    .select("*")
+    .eq("id", amendmentId)
+    .eq("booking_id", booking.id)
+    .maybeSingle();
+
+  if (amendmentError) {
+    logger.error("Failed to fetch booking amendment", { amendmentId, error: amendmentError.message });
+    throw new Error("Failed to fetch booking amendment");
+  }
+  if (!amendment) {
+    throw new NotFoundError("Amendment not found");
+  }
+  if (amendment.status !== "awaiting_payment") {
+    throw new ValidationError(`Amendment is ${amendment.status}`);
+  }
+
+  const request: AmendmentRequest = {
+    checkIn: amendment.check_in,
+    checkOut: amendment.check_out,
+    rooms: amendment.rooms,
+  };
+  assertAmendable(booking, request);
+
+  const { data: replacements, error: replacementError } = await supabase
+    .from("payments")
+    .select("*")
+    .eq("amendment_id", amendment.id)
+    .order("created_at", { ascending: false })
+    .limit(1);
+
+  if (replacementError) {
+    logger.error("Failed to fetch amendment payment", { amendmentId, error: replacementError.message });
+    throw new Error("Failed to fetch amendment payment");
+  }
+  const replacement = (replacements?.[0] as CancellablePayment | undefined) ?? null;
+  if (replacement?.status !== "authorized") {
+    throw new ValidationError("The payment of this amendment is not authorized yet");
+  }
+
+  // Claim the amendment so a repeated call cannot swap twice
+  const { data: claimed, error: claimError } = await supabase
+    .from("booking_amendments")
+    .update({ status: "processing" })
+    .eq("id", amendment.id)
+    .eq("status", "awaiting_payment")
+    .select("id");
+
+  if (claimError) {
+    logger.error("Failed to claim booking amendment", { amendmentId, error: claimError.message });
+    throw new Error("Failed to claim booking amendment");
+  }
+  if (!claimed || claimed.length === 0) {
+    throw new ValidationError("Amendment is already being processed");
+  }
+
+  // The replacement hold was registered for the quoted total: never book above it
+  const acceptedPriceDifference = Math.min(
+    Number(amendment.accepted_price_difference),
+    roundToMinorUnits(Number(replacement.amount) - Number(booking.total_price), booking.currency)
+  );
+  let swap: AmendmentSwap;
+  try {
+    swap = await runAmendmentSwap(
+      c.env,
+      amendment.id,
+      async () => {
+        const search = await searchAmendment(c.env, booking, payment, request, logger);
+        const offer = requireAcceptedOffer(
+          search,
+          { roomId: amendment.room_id, boardCode: amendment.board_code },
+          acceptedPriceDifference
+        );
+        return swapMyGoBooking(c.env, booking, search, offer, request, acceptedPriceDifference, logger);
+      },
+      logger
+    );
+  } catch (error) {
+    const release = await settlePayment(c.env, replacement, { action: "reverse" }, booking.currency, logger);
+    logger.warn("Amendment failed, replacement pre-authorization released", {
+      bookingId: booking.id,
+      amendmentId: amendment.id,
+      releaseStatus: release.status,
+    });
+    throw error;
+  }
+
+  // The replacement hold now pays for the booking: release the previous payment
+  const previousPaid = getPaidAmount(payment, booking.currency);
+  const operation: PaymentOperation =
+    payment?.status === "authorized"
+      ? { action: "reverse" }
+      : previousPaid > 0
+        ? { action: "refund", amount: previousPaid }
+        : { action: "none" };
+  const settlement = await settlePayment(c.env, payment, operation, booking.currency, logger);
+
+  await recordAmendedBooking(c.env, booking, request, swap, { status: "authorized", replaced: true }, logger);
+  await updateAmendment(
+    c.env,
+    amendment.id,
+    {
+      status: "completed",
+      new_mygo_booking_id: swap.mygoBookingId,
+      new_total: swap.newTotal,
+      penalty: swap.penalty,
+      settlement_status: settlement.status,
+      completed_at: new Date().toISOString(),
+    },
+    logger
+  );
+
+  logger.info("Booking amended after payment", {
+    bookingId: booking.id,
+    amendmentId: amendment.id,
+    previousMyGoBookingId: booking.mygo_booking_id,
+    mygoBookingId: swap.mygoBookingId,
+    releaseStatus: settlement.status,
+  });
+  return c.json(
+    toAmendmentResponse(amendment.id, booking, request, swap, {
+      action: "preauth",
+      amount: Number(replacement.amount),
+      status: settlement.status === "failed" ? "failed" : "completed",
+    })
+  );
+});
+
 export default bookings;
@@ -6,19 +6,25 @@
 import { Hono } from "hono";
 import { ZodError } from "zod";
 import type { Env, HonoVariables } from "../types/env";
+import type { SupabaseClient } from "@supabase/supabase-js";
 import { createServiceClient } from "../clients/supabaseClient";
-import { createClicToPayClient } from "../clients/clictopayClient";
+import { createClicToPayClientFromEnv } from "../clients/clictopayClient";
 import { creditCheck } from "../clients/mygoClient";
 import type { MyGoCredential } from "../types/mygo";
 import { checkoutInitiateSchema } from "../utils/validation";
 import { createLogger } from "../utils/logger";
+import { promoFieldErrors, PROMO_RESERVATION_TTL_MS } from "../utils/promotions";
+import { findBookingRedemption, reservePromoRedemption, updateBookingRedemptions } from "../utils/promoRedemptions";
 import {
   ValidationError,
   NotFoundError,
   ExternalServiceError,
   AuthenticationError,
+  IllegalTransitionError,
 } from "../middleware/errorHandler";
 import { optionalAuth } from "../middleware/auth";
+import { canStartPayment, updateBookingStates } from "../utils/bookingStateMachine";
+import { toMinorUnits } from "../utils/currency";
 
 const checkout = new Hono<{ Bindings: Env; Variables: HonoVariables }>();
 
@@ -33,6 +39,47 @@ const getMyGoCredential = (env: Env): MyGoCredential => ({
   password: env.MYGO_PASSWORD,
 });
 
+/**
+ * Make sure the promo code discount in total_price still holds
+ * A reservation older than PROMO_RESERVATION_TTL_MS stopped counting against
+ * the code's limits: it is renewed (atomically) when the limits still allow
+ * it, released otherwise
+ * @throws ValidationError when the booking must be made again
+ */
+const assertPromoRedemptionHeld = async (
+  supabase: SupabaseClient,
+  booking: { id: string; promo_code_id: number; user_id: string | null; customer_email: string },
+  logger: ReturnType<typeof createLogger>
+): Promise<void> => {
+  const redemption = await findBookingRedemption(supabase, booking.id);
+  if (!redemption) {
+    throw new ValidationError("The promo code of this booking is no longer available, please book again");
+  }
+  if (
+    redemption.status !== "reserved" ||
+    Date.now() - Date.parse(redemption.reserved_at) <= PROMO_RESERVATION_TTL_MS
+  ) {
+    return;
+  }
+
+  const renewal = await reservePromoRedemption(
+    supabase,
+    booking.promo_code_id,
+    { userId: booking.user_id, email: booking.customer_email },
+    { renewRedemptionId: redemption.id }
+  );
+  if (!renewal.reserved) {
+    logger.warn("Expired promo reservation could not be renewed", {
+      bookingId: booking.id,
+      promoCodeId: booking.promo_code_id,
+      reason: renewal.reason,
+    });
+    await updateBookingRedemptions(supabase, booking.id, "released", logger);
+    const message = "The promo code of this booking is no longer available, please book again";
+    throw new ValidationError(message, promoFieldErrors(renewal.reason, message));
+  }
+};
+
 /**
  * POST /checkout/initiate
  * Initiate checkout process with policy enforcement
@@ -40,9 +87,10 @@ const getMyGoCredential = (env: Env): MyGoCredential => ({
  * Flow:
  * 1. Read checkout policy from database
  * 2. Verify booking exists and is accessible by user
- * 3. If STRICT policy: Perform credit check with myGO
- * 4. Create ClicToPay pre-authorization order
- * 5. Return payment form URL for customer
+ * 3. If a promo code was applied: check its redemption still holds
+ * 4. If STRICT policy: Perform credit check with myGO
+ * 5. Create ClicToPay pre-authorization order (discounted total_price)
+ * 6. Return payment form URL for customer
  */
 checkout.post("/initiate", async (c) => {
   const logger = createLogger(c.var);
@@ -99,13 +147,18 @@ checkout.post("/initiate", async (c) => {
       throw new NotFoundError("Booking not found");
     }
 
-    // Verify booking is in pending state
-    if (booking.status !== "pending") {
-      logger.warn("Booking not in pending state", {
+    // Verify booking is in pending state and no other payment holds funds for it
+    if (!canStartPayment(booking)) {
+      logger.warn("Booking cannot start a payment", {
         bookingId: validatedData.bookingId,
         status: booking.status,
+        paymentStatus: booking.payment_status,
       });
-      throw new ValidationError(`Booking is ${booking.status}, cannot initiate checkout`);
+      throw new ValidationError(
+        booking.status === "pending"
+          ? `Booking payment is ${booking.payment_status}, cannot initiate checkout`
+          : `Booking is ${booking.status}, cannot initiate checkout`
+      );
     }
 
     // Read checkout policy from settings
@@ -120,15 +173,22 @@ checkout.post("/initiate", async (c) => {
       logger.warn("Failed to read checkout policy, using default", { error: settingsError.message });
     }
 
+    // total_price already includes the promo discount applied at prebook
+    if (booking.promo_code_id) {
+      await assertPromoRedemptionHeld(supabase, booking, logger);
+    }
+
     const checkoutPolicy = settings?.checkout_policy || "ON_HOLD_PREAUTH";
     logger.info("Checkout policy determined", { policy: checkoutPolicy });
 
     // If STRICT policy, perform credit check with myGO
+    // myGO debits the supplier price, before our pricing rule markup
+    const requiredCredit: number = booking.supplier_price ?? booking.total_price;
     let remainingCredit = 0;
     if (checkoutPolicy === "STRICT") {
       logger.info("Performing credit check (STRICT policy)", {
         bookingId: booking.id,
-        requiredAmount: booking.total_price,
+        requiredAmount: requiredCredit,
       });
       try {
         const credential = getMyGoCredential(c.env);
@@ -137,27 +197,21 @@ checkout.post("/initiate", async (c) => {
         remainingCredit = (creditCheckResult as { remainingDeposit?: number }).remainingDeposit || 0;
         logger.info("Credit check completed", {
           remainingCredit,
-          required: booking.total_price,
-          sufficient: remainingCredit >= booking.total_price,
+          required: requiredCredit,
+          sufficient: remainingCredit >= requiredCredit,
         });
 
-        if (remainingCredit < booking.total_price) {
+        if (remainingCredit < requiredCredit) {
           logger.warn("Insufficient MyGO wallet credit", {
             bookingId: booking.id,
-            required: booking.total_price,
+            required: requiredCredit,
             available: remainingCredit,
-            deficit: booking.total_price - remainingCredit,
+            deficit: requiredCredit - remainingCredit,
             decision: "blocked_wallet_insufficient",
           });
 
           // Update booking to OnRequest state when credit is insufficient
-          await supabase
-            .from("bookings")
-            .update({
-              mygo_state: "OnRequest",
-              status: "pending",
-            })
-            .eq("id", booking.id);
+          await updateBookingStates(supabase, booking, { mygoState: "OnRequest", status: "pending" }, logger);
 
           logger.info("Booking updated to OnRequest state due to insufficient credit", {
             bookingId: booking.id,
@@ -167,10 +221,10 @@ checkout.post("/initiate", async (c) => {
           return c.json({
             blocked: true,
             reason: "wallet_insufficient",
-            message: `Insufficient MyGO wallet credit. Required: ${booking.total_price} ${booking.currency}, Available: ${remainingCredit} ${booking.currency}`,
-            requiredAmount: booking.total_price,
+            message: `Insufficient MyGO wallet credit. Required: ${requiredCredit} ${booking.currency}, Available: ${remainingCredit} ${booking.currency}`,
+            requiredAmount: requiredCredit,
             availableCredit: remainingCredit,
-            deficit: booking.total_price - remainingCredit,
+            deficit: requiredCredit - remainingCredit,
             checkoutPolicy,
             bookingId: booking.id,
             bookingStatus: "pending",
@@ -178,6 +232,9 @@ checkout.post("/initiate", async (c) => {
           });
         }
       } catch (error) {
+        if (error instanceof IllegalTransitionError) {
+          throw error;
+        }
         logger.error("Credit check failed", {
           bookingId: booking.id,
           error: error instanceof Error ? error.message : String(error),
@@ -189,22 +246,8 @@ checkout.post("/initiate", async (c) => {
 
     // Create ClicToPay pre-authorization order
     logger.info("Creating ClicToPay pre-authorization");
-    const isTestMode = c.env.PAYMENT_TEST_MODE === "true";
-    
-    // In test mode, use placeholder credentials to avoid exposing production secrets
-    const clictopayCredentials = isTestMode
-      ? {
-          username: "test-mode",
-          password: "test-mode",
-          secret: "test-mode",
-        }
-      : {
-          username: c.env.CLICTOPAY_USERNAME,
-          password: c.env.CLICTOPAY_PASSWORD,
-          secret: c.env.CLICTOPAY_SECRET,
-        };
-    
-    const clictopay = createClicToPayClient(clictopayCredentials, isTestMode);
+    // In test mode, placeholder credentials avoid exposing production secrets
+    const { testMode: isTestMode, client: clictopay } = createClicToPayClientFromEnv(c.env);
 
     logger.info("ClicToPay client initialized", {
       testMode: isTestMode,
@@ -214,9 +257,8 @@ checkout.post("/initiate", async (c) => {
     // Generate unique order number
     const orderNumber = `BK-${booking.id.substring(0, 8)}-${Date.now()}`;
 
-    // Convert amount to minor units (millimes for TND: 1 TND = 1000 millimes)
-    const TND_TO_MILLIMES = 1000;
-    const amountInMinorUnits = Math.round(booking.total_price * TND_TO_MILLIMES);
+    // Convert amount to minor units of the booking currency (millimes for TND)
+    const amountInMinorUnits = toMinorUnits(Number(booking.total_price), booking.currency);
 
     const preAuthResult = await clictopay.registerPreAuth({
       orderNumber,
@@ -257,11 +299,8 @@ checkout.post("/initiate", async (c) => {
       // Don't fail - ClicToPay order is created
     }
 
-    // Update booking status to indicate payment initiated
-    await supabase
-      .from("bookings")
-      .update({ payment_status: "pending" })
-      .eq("id", booking.id);
+    // Update booking status to indicate payment initiated (a new payment)
+    await updateBookingStates(supabase, booking, { paymentStatus: "pending", replacesPayment: true }, logger);
 
     return c.json({
       blocked: false,
@@ -0,0 +1,352 @@
+/**
+ * Deals and city landing routes (public)
+ * "From" prices and top deals sampled by the deals job (jobs/dealsJob), and
+ * city/hotel slugs for landing pages and the sitemap
+ */
+
+import { Hono } from "hono";
+import { ZodError } from "zod";
+import type { Env, HonoVariables } from "../types/env";
+import { createServiceClient } from "../clients/supabaseClient";
+import { createLogger } from "../utils/logger";
+import { NotFoundError, ValidationError } from "../middleware/errorHandler";
+import {
+  cacheHeaders,
+  cachedLoad,
+  combineCacheStatus,
+  resolveCacheBackend,
+  waitUntilFrom,
+  type CachePolicy,
+  type CacheResult,
+} from "../cache/responseCache";
+import { cityDealsSchema, topDealsSchema } from "../utils/validation";
+import {
+  buildCitySlugs,
+  selectTopDeals,
+  summarizeCityPrices,
+  summarizeHotelPrices,
+  toDealHotelPrice,
+  toHotelSlug,
+  type DealHotelPrice,
+  type DealHotelPriceRow,
+  type SlugCity,
+  type SlugHotel,
+} from "../utils/deals";
+
+const deals = new Hono<{ Bindings: Env; Variables: HonoVariables }>();
+
+// Cache control header (15 minutes)
+const CACHE_HEADER = "public, max-age=900";
+
+const PAGE_SIZE = 1000;
+
+// Sampled prices change every few hours; inventory slugs even less often
+const DEALS_CACHE_POLICY: CachePolicy = {
+  namespace: "deals:v1",
+  freshMs: 15 * 60 * 1000,
+  staleMs: 24 * 60 * 60 * 1000,
+};
+
+interface SlugInventory {
+  cities: SlugCity[];
+  hotels: SlugHotel[];
+}
+
+type RouteContext = { env: Env; executionCtx: ExecutionContext };
+
+/**
+ * Read every row of a table or view, PAGE_SIZE rows at a time
+ */
+const loadAllRows = async <T>(
+  env: Env,
+  table: string,
+  columns: string,
+  orderBy: string[]
+): Promise<T[]> => {
+  const supabase = createServiceClient(env);
+  const rows: T[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    let query = supabase.from(table).select(columns);
+    for (const column of orderBy) {
+      query = query.order(column);
+    }
+    const { data, error } = await query.range(from, from + PAGE_SIZE - 1);
+
+    if (error) {
+      throw new Error(`Failed to load ${table}: ${error.message}`);
+    }
+
+    const page = (data ?? []) as T[];
+    rows.push(...page);
+    if (page.length < PAGE_SIZE) {
+      return rows;
+    }
+  }
+};
+
+/**
+ * Load through the deals cache; loader errors surface only when nothing
+ * (not even stale) is cached
+ */
+const cachedDealsData = <T>(
+  c: RouteContext,
+  key: string,
+  loader: () => Promise<T>,
+  logger: ReturnType<typeof createLogger>
+): Promise<CacheResult<T>> =>
+  cachedLoad(resolveCacheBackend(c.env), DEALS_CACHE_POLICY, key, loader, {
+    waitUntil: waitUntilFrom(c),
+    onRefreshError: (error) =>
+      logger.warn("Background deals data refresh failed", {
+        key,
+        error: error instanceof Error ? error.message : String(error),
+      }),
+  });
+
+/**
+ * Upcoming prices per hotel and board (deal_hotel_prices view)
+ */
+const loadDealPrices = (c: RouteContext, logger: ReturnType<typeof createLogger>) =>
+  cachedDealsData(
+    c,
+    "hotel-prices",
+    async () =>
+      (
+        await loadAllRows<DealHotelPriceRow>(c.env, "deal_hotel_prices", "*", ["hotel_id", "board_type"])
+      ).map(toDealHotelPrice),
+    logger
+  );
+
+/**
+ * Inventory cities and hotels (names, slugs)
+ */
+const loadSlugInventory = (c: RouteContext, logger: ReturnType<typeof createLogger>) =>
+  cachedDealsData<SlugInventory>(
+    c,
+    "inventory",
+    async () => {
+      const [cities, hotels] = await Promise.all([
+        loadAllRows<{ id: number; name: string; region: string | null }>(c.env, "inventory_cities", "id, name, region", [
+          "id",
+        ]),
+        loadAllRows<{ id: number; name: string; city_id: number | null; star: string | null; image: string | null }>(
+          c.env,
+          "inventory_hotels",
+          "id, name, city_id, star, image",
+          ["id"]
+        ),
+      ]);
+      return {
+        cities: cities.map((city) => ({ id: city.id, name: city.name, region: city.region ?? null })),
+        hotels: hotels.map((hotel) => {
+          const star = hotel.star ? Number(hotel.star) : NaN;
+          return {
+            id: hotel.id,
+            name: hotel.name,
+            cityId: hotel.city_id,
+            star: Number.isFinite(star) && star > 0 ? star : null,
+            image: hotel.image || null,
+          };
+        }),
+      };
+    },
+    logger
+  );
+
+/**
+ * Sampled prices and inventory, prices limited to inventory hotels so every
+ * "from" price links to a hotel page
+ */
+const loadDealsData = async (c: RouteContext, logger: ReturnType<typeof createLogger>) => {
+  const [pricesResult, inventoryResult] = await Promise.all([loadDealPrices(c, logger), loadSlugInventory(c, logger)]);
+  const { cities, hotels } = inventoryResult.value;
+  const hotelsById = new Map(hotels.map((hotel) => [hotel.id, hotel]));
+  return {
+    prices: pricesResult.value.filter((price) => hotelsById.has(price.hotelId)),
+    cities,
+    hotelsById,
+    citySlugs: buildCitySlugs(cities),
+    cache: {
+      ...cacheHeaders(pricesResult),
+      "X-Cache": combineCacheStatus([pricesResult.status, inventoryResult.status]),
+    },
+  };
+};
+
+const toHotelCard = (hotel: SlugHotel) => ({
+  id: hotel.id,
+  name: hotel.name,
+  slug: toHotelSlug(hotel),
+  star: hotel.star,
+  image: hotel.image,
+});
+
+/**
+ * GET /deals/cities
+ * "From" price of every sampled city (cities with the most hotels first)
+ * Response: { items: [{ id, name, slug, region, hotelCount, fromPrice, boards, sampledAt }] }
+ *
+ * - Prices per night in TND for 2 adults in 1 room, over the upcoming
+ *   weekends sampled by the deals job
+ */
+deals.get("/cities", async (c) => {
+  const logger = createLogger(c.var);
+  const { prices, cities, citySlugs, cache } = await loadDealsData(c, logger);
+  const citiesById = new Map(cities.map((city) => [city.id, city]));
+
+  const items = summarizeCityPrices(prices).flatMap((summary) => {
+    const city = citiesById.get(summary.cityId);
+    if (!city) {
+      return [];
+    }
+    return [
+      {
+        id: city.id,
+        name: city.name,
+        slug: citySlugs.get(city.id)!,
+        region: city.region,
+        hotelCount: summary.hotelCount,
+        fromPrice: summary.fromPrice,
+        boards: summary.boards,
+        sampledAt: summary.sampledAt,
+      },
+    ];
+  });
+
+  logger.info("Deal cities served", { count: items.length, cache: cache["X-Cache"] });
+  return c.json({ items }, 200, { "Cache-Control": CACHE_HEADER, ...cache });
+});
+
+/**
+ * GET /deals/cities/:slug?board=HB&limit=50
+ * City landing page data: "from" price, lowest price per board and hotels
+ * with their own "from" price (cheapest first)
+ * Response: { city: { id, name, slug, region }, fromPrice, boards, hotels: [...] }
+ *
+ * - fromPrice is null and hotels empty until the city has been sampled
+ * - board limits hotel prices to that board
+ */
+deals.get("/cities/:slug", async (c) => {
+  const logger = createLogger(c.var);
+
+  let query;
+  try {
+    query = cityDealsSchema.parse({
+      board: c.req.query("board") || undefined,
+      limit: c.req.query("limit") ? Number(c.req.query("limit")) : undefined,
+    });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      throw new ValidationError("Invalid city deals parameters", error);
+    }
+    throw error;
+  }
+
+  const { prices, cities, hotelsById, citySlugs, cache } = await loadDealsData(c, logger);
+  const slug = c.req.param("slug").toLowerCase();
+  const city = cities.find((candidate) => citySlugs.get(candidate.id) === slug);
+  if (!city) {
+    throw new NotFoundError(`City ${slug} not found`);
+  }
+
+  const cityPrices = prices.filter((price) => price.cityId === city.id);
+  const summary = summarizeCityPrices(cityPrices)[0] ?? null;
+  const hotelPrices: DealHotelPrice[] = query.board
+    ? cityPrices.filter((price) => price.boardType === query.board)
+    : cityPrices;
+
+  return c.json(
+    {
+      city: { id: city.id, name: city.name, slug, region: city.region },
+      hotelCount: summary?.hotelCount ?? 0,
+      fromPrice: summary?.fromPrice ?? null,
+      boards: summary?.boards ?? {},
+      sampledAt: summary?.sampledAt ?? null,
+      hotels: summarizeHotelPrices(hotelPrices)
+        .slice(0, query.limit ?? 50)
+        .map((hotelPrice) => ({
+          ...toHotelCard(hotelsById.get(hotelPrice.hotelId)!),
+          fromPrice: hotelPrice.fromPrice,
+          boards: hotelPrice.boards,
+        })),
+    },
+    200,
+    { "Cache-Control": CACHE_HEADER, ...cache }
+  );
+});
+
+/**
+ * GET /deals/top?cityId=10&board=AI&limit=10
+ * Last-minute deals: hotels whose cheapest upcoming weekend is well below
+ * their average sampled weekend price (biggest saving first, one per hotel)
+ * Response: { items: [{ hotel, city, fromPrice, referencePricePerNight, savingsPercent }] }
+ */
+deals.get("/top", async (c) => {
+  const logger = createLogger(c.var);
+
+  let query;
+  try {
+    query = topDealsSchema.parse({
+      cityId: c.req.query("cityId") ? Number(c.req.query("cityId")) : undefined,
+      board: c.req.query("board") || undefined,
+      limit: c.req.query("limit") ? Number(c.req.query("limit")) : undefined,
+    });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      throw new ValidationError("Invalid top deals parameters", error);
+    }
+    throw error;
+  }
+
+  const { prices, cities, hotelsById, citySlugs, cache } = await loadDealsData(c, logger);
+  const citiesById = new Map(cities.map((city) => [city.id, city]));
+  const candidates = prices.filter(
+    (price) =>
+      (query.cityId === undefined || price.cityId === query.cityId) &&
+      (query.board === undefined || price.boardType === query.board)
+  );
+
+  const items = selectTopDeals(candidates, query.limit ?? 10).map((deal) => {
+    const city = citiesById.get(deal.cityId);
+    return {
+      hotel: toHotelCard(hotelsById.get(deal.hotelId)!),
+      city: city ? { id: city.id, name: city.name, slug: citySlugs.get(city.id)! } : null,
+      fromPrice: deal.fromPrice,
+      referencePricePerNight: deal.referencePricePerNight,
+      savingsPercent: deal.savingsPercent,
+    };
+  });
+
+  return c.json({ items }, 200, { "Cache-Control": CACHE_HEADER, ...cache });
+});
+
+/**
+ * GET /deals/sitemap
+ * Every inventory city and hotel with its slug (sitemap generation)
+ * Response: { cities: [{ id, name, slug }], hotels: [{ id, name, slug, cityId, citySlug }], generatedAt }
+ */
+deals.get("/sitemap", async (c) => {
+  const logger = createLogger(c.var);
+  const result = await loadSlugInventory(c, logger);
+  const { cities, hotels } = result.value;
+  const citySlugs = buildCitySlugs(cities);
+
+  logger.info("Sitemap slugs served", { cities: cities.length, hotels: hotels.length, cache: result.status });
+  return c.json(
+    {
+      cities: cities.map((city) => ({ id: city.id, name: city.name, slug: citySlugs.get(city.id)! })),
+      hotels: hotels.map((hotel) => ({
+        id: hotel.id,
+        name: hotel.name,
+        slug: toHotelSlug(hotel),
+        cityId: hotel.cityId,
+        citySlug: hotel.cityId !== null ? (citySlugs.get(hotel.cityId) ?? null) : null,
+      })),
+      generatedAt: new Date(result.storedAt).toISOString(),
+    },
+    200,
+    { "Cache-Control": CACHE_HEADER, ...cacheHeaders(result) }
+  );
+});
+
+export default deals;
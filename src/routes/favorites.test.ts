@@ -0,0 +1,231 @@
+/**
+ * Tests for favorite hotels (/profile/favorites) and the guest merge at login
+ */
+
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { Hono } from "hono";
+import type { Env, HonoVariables } from "../types/env";
+import { errorHandler } from "../middleware/errorHandler";
+import { extractGuestSession } from "../middleware/auth";
+import profile from "./profile";
+import auth from "./auth";
+
+const mockEnv = {
+  SUPABASE_URL: "https://test.supabase.co",
+  SUPABASE_SERVICE_ROLE_KEY: "test-service-key",
+  SUPABASE_ANON_KEY: "test-anon-key",
+} as Env;
+
+const GUEST_SESSION_ID = "6f1c2d3e-4a5b-4c6d-8e7f-9a0b1c2d3e4f";
+
+const buildApp = () => {
+  const app = new Hono<{ Bindings: Env; Variables: HonoVariables }>();
+  app.onError(errorHandler());
+  app.use("*", extractGuestSession());
+  app.route("/auth", auth);
+  app.route("/profile", profile);
+  return app;
+};
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { "Content-Type": "application/json" } });
+
+const urlOf = (input: RequestInfo | URL) =>
+  typeof input === "string" ? input : input instanceof URL ? input.href : input.url;
+
+describe("/profile/favorites", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("should list guest favorites with inventory details", async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    const fetchSpy = vi.spyOn(globalThis, "fetch").mockImplementation(async (input) => {
+      const url = urlOf(input);
+      if (url.includes("/rest/v1/favorite_hotels")) {
+        return jsonResponse([
+          { id: 2, user_id: null, guest_session_id: GUEST_SESSION_ID, hotel_id: 101, created_at: "2026-06-02T10:00:00Z" },
+          { id: 1, user_id: null, guest_session_id: GUEST_SESSION_ID, hotel_id: 999, created_at: "2026-06-01T10:00:00Z" },
+        ]);
+      }
+      if (url.includes("/rest/v1/inventory_hotels")) {
+        return jsonResponse([
+          {
+            id: 101,
+            name: "Hotel Sousse Palace",
+            city_id: 10,
+            star: "4",
+            category_title: "4 étoiles",
+            address: "Boulevard du 14 Janvier",
+            longitude: "10.6406",
+            latitude: "35.8289",
+            image: "https://cdn.example.com/101.jpg",
+            note: null,
+          },
+        ]);
+      }
+      return jsonResponse({});
+    });
+
+    const res = await buildApp().request(
+      "/profile/favorites",
+      { headers: { "X-Guest-Session-ID": GUEST_SESSION_ID } },
+      mockEnv
+    );
+
+    expect(res.status).toBe(200);
+    const data = (await res.json()) as Record<string, any>;
+    expect(data.favorites).toEqual([
+      {
+        hotelId: 101,
+        addedAt: "2026-06-02T10:00:00Z",
+        hotel: {
+          id: 101,
+          name: "Hotel Sousse Palace",
+          cityId: 10,
+          star: 4,
+          categoryTitle: "4 étoiles",
+          address: "Boulevard du 14 Janvier",
+          image: "https://cdn.example.com/101.jpg",
+          location: { latitude: 35.8289, longitude: 10.6406 },
+        },
+      },
+      { hotelId: 999, addedAt: "2026-06-01T10:00:00Z", hotel: null },
+    ]);
+    const favoritesUrl = urlOf(fetchSpy.mock.calls[0][0]);
+    expect(favoritesUrl).toContain(`guest_session_id=eq.${GUEST_SESSION_ID}`);
+  });
+
+  it("should require a user or guest session, and keep the profile itself signed-in only", async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    const fetchSpy = vi.spyOn(globalThis, "fetch");
+
+    const favoritesRes = await buildApp().request("/profile/favorites", {}, mockEnv);
+    const profileRes = await buildApp().request(
+      "/profile",
+      { headers: { "X-Guest-Session-ID": GUEST_SESSION_ID } },
+      mockEnv
+    );
+
+    expect(favoritesRes.status).toBe(401);
+    expect(profileRes.status).toBe(401);
+    expect(fetchSpy).not.toHaveBeenCalled();
+  });
+});
+
+describe("POST /auth/login - guest favorites", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("should merge guest favorites into the account", async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    const calls: Array<{ method: string; url: string; body: unknown }> = [];
+    vi.spyOn(globalThis, "fetch").mockImplementation(async (input, init) => {
+      const url = urlOf(input);
+      const method = init?.method ?? "GET";
+      calls.push({ method, url, body: init?.body ? JSON.parse(String(init.body)) : null });
+      if (url.includes("/auth/v1/token")) {
+        return jsonResponse({
+          access_token: "access-token",
+          refresh_token: "refresh-token",
+          token_type: "bearer",
+          expires_in: 3600,
+          expires_at: 1781000000,
+          user: { id: "user-1", email: "john@example.com", aud: "authenticated", app_metadata: {}, user_metadata: {} },
+        });
+      }
+      if (url.includes("/rest/v1/favorite_hotels") && method === "GET" && url.includes("user_id=eq.")) {
+        // 102 is already a favorite of the account
+        return jsonResponse([{ hotel_id: 102 }]);
+      }
+      if (url.includes("/rest/v1/favorite_hotels") && method === "GET") {
+        return jsonResponse([
+          { hotel_id: 101, created_at: "2026-06-01T10:00:00Z" },
+          { hotel_id: 102, created_at: "2026-06-02T10:00:00Z" },
+        ]);
+      }
+      if (url.includes("/rest/v1/favorite_hotels") && method === "POST") {
+        return jsonResponse([{ id: 7 }], 201);
+      }
+      return jsonResponse([]);
+    });
+
+    const res = await buildApp().request(
+      "/auth/login",
+      {
+        method: "POST",
+        headers: { "Content-Type": "application/json", "X-Guest-Session-ID": GUEST_SESSION_ID },
+        body: JSON.stringify({ email: "john@example.com", password: "correct-horse" }),
+      },
+      mockEnv
+    );
+
+    expect(res.status).toBe(200);
+    const data = (await res.json()) as Record<string, any>;
+    expect(data.user.id).toBe("user-1");
+    expect(data.mergedFavorites).toBe(1);
+
+    const upsert = calls.find((call) => call.method === "POST" && call.url.includes("/favorite_hotels"));
+    expect(upsert?.url).toContain("on_conflict=user_id%2Chotel_id");
+    expect(upsert?.body).toEqual([{ user_id: "user-1", hotel_id: 101, created_at: "2026-06-01T10:00:00Z" }]);
+    const cleanup = calls.find((call) => call.method === "DELETE");
+    expect(cleanup?.url).toContain(`guest_session_id=eq.${GUEST_SESSION_ID}`);
+  });
+
+  it("should merge only the newest guest favorites that fit under the account limit", async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    const calls: Array<{ method: string; url: string; body: any }> = [];
+    vi.spyOn(globalThis, "fetch").mockImplementation(async (input, init) => {
+      const url = urlOf(input);
+      const method = init?.method ?? "GET";
+      calls.push({ method, url, body: init?.body ? JSON.parse(String(init.body)) : null });
+      if (url.includes("/auth/v1/token")) {
+        return jsonResponse({
+          access_token: "access-token",
+          refresh_token: "refresh-token",
+          token_type: "bearer",
+          expires_in: 3600,
+          expires_at: 1781000000,
+          user: { id: "user-1", email: "john@example.com", aud: "authenticated", app_metadata: {}, user_metadata: {} },
+        });
+      }
+      if (url.includes("/rest/v1/favorite_hotels") && method === "GET" && url.includes("user_id=eq.")) {
+        // Two slots left
+        return jsonResponse(Array.from({ length: 198 }, (_, index) => ({ hotel_id: 1000 + index })));
+      }
+      if (url.includes("/rest/v1/favorite_hotels") && method === "GET") {
+        return jsonResponse([
+          { hotel_id: 101, created_at: "2026-06-01T10:00:00Z" },
+          { hotel_id: 102, created_at: "2026-06-04T10:00:00Z" },
+          { hotel_id: 103, created_at: "2026-06-02T10:00:00Z" },
+          { hotel_id: 104, created_at: "2026-06-03T10:00:00Z" },
+        ]);
+      }
+      if (url.includes("/rest/v1/favorite_hotels") && method === "POST") {
+        return jsonResponse([{ id: 7 }, { id: 8 }], 201);
+      }
+      return jsonResponse([]);
+    });
+
+    const res = await buildApp().request(
+      "/auth/login",
+      {
+        method: "POST",
+        headers: { "Content-Type": "application/json", "X-Guest-Session-ID": GUEST_SESSION_ID },
+        body: JSON.stringify({ email: "john@example.com", password: "correct-horse" }),
+      },
+      mockEnv
+    );
+
+    expect(res.status).toBe(200);
+    const data = (await res.json()) as Record<string, any>;
+    expect(data.mergedFavorites).toBe(2);
+
+    const upsert = calls.find((call) => call.method === "POST" && call.url.includes("/favorite_hotels"));
+    expect(upsert?.body.map((favorite: { hotel_id: number }) => favorite.hotel_id)).toEqual([102, 104]);
+    expect(calls.some((call) => call.method === "DELETE" && call.url.includes(`guest_session_id=eq.${GUEST_SESSION_ID}`))).toBe(true);
+  });
+});
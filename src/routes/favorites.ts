@@ -0,0 +1,157 @@
+/**
+ * Favorite hotel routes (mounted at /profile/favorites)
+ * Signed-in users keep favorites on their account; guest sessions keep their
+ * own, merged into the account at /auth/login
+ */
+
+import { Hono } from "hono";
+import { ZodError } from "zod";
+import type { Env, HonoVariables } from "../types/env";
+import { optionalAuth } from "../middleware/auth";
+import { createServiceClient } from "../clients/supabaseClient";
+import { favoriteHotelSchema } from "../utils/validation";
+import { createLogger } from "../utils/logger";
+import { getSessionOwner } from "../utils/sessionOwner";
+import { loadInventoryHotels } from "../utils/hotelDetail";
+import { toFavoriteHotel, MAX_FAVORITES_PER_OWNER, type FavoriteHotelRow } from "../utils/favorites";
+import { AuthenticationError, NotFoundError, ValidationError } from "../middleware/errorHandler";
+
+const favorites = new Hono<{ Bindings: Env; Variables: HonoVariables }>();
+
+favorites.use("/*", optionalAuth());
+
+const FOREIGN_KEY_VIOLATION = "23503";
+
+/**
+ * GET /profile/favorites
+ * List favorite hotels (newest first) with inventory details
+ */
+favorites.get("/", async (c) => {
+  const logger = createLogger(c.var);
+  const owner = getSessionOwner(c.var);
+  const supabase = createServiceClient(c.env);
+
+  const { data, error } = await supabase
+    .from("favorite_hotels")
+    .select("*")
+    .eq(owner.column, owner.id)
+    .order("created_at", { ascending: false });
+
+  if (error) {
+    logger.error("Failed to fetch favorites", { error: error.message });
+    throw new Error("Failed to fetch favorites");
+  }
+
+  const rows = (data ?? []) as FavoriteHotelRow[];
+  const inventory = await loadInventoryHotels(
+    supabase,
+    rows.map((row) => row.hotel_id),
+    logger
+  );
+
+  return c.json({
+    favorites: rows.map((row) => toFavoriteHotel(row, inventory.get(row.hotel_id) ?? null)),
+  });
+});
+
+/**
+ * POST /profile/favorites
+ * Add a hotel to favorites: 201 when added, 200 when already a favorite
+ */
+favorites.post("/", async (c) => {
+  const logger = createLogger(c.var);
+  const owner = getSessionOwner(c.var);
+
+  try {
+    const body = await c.req.json();
+    const { hotelId } = favoriteHotelSchema.parse(body);
+    const supabase = createServiceClient(c.env);
+
+    const { data: existing, error: existingError } = await supabase
+      .from("favorite_hotels")
+      .select("*")
+      .eq(owner.column, owner.id)
+      .eq("hotel_id", hotelId)
+      .maybeSingle();
+
+    if (existingError) {
+      logger.error("Failed to look up favorite", { error: existingError.message });
+      throw new Error("Failed to add favorite");
+    }
+
+    let row = existing as FavoriteHotelRow | null;
+    if (!row) {
+      const { count, error: countError } = await supabase
+        .from("favorite_hotels")
+        .select("id", { count: "exact", head: true })
+        .eq(owner.column, owner.id);
+
+      if (countError) {
+        logger.error("Failed to count favorites", { error: countError.message });
+        throw new Error("Failed to add favorite");
+      }
+      if ((count ?? 0) >= MAX_FAVORITES_PER_OWNER) {
+        throw new ValidationError(`You can keep at most ${MAX_FAVORITES_PER_OWNER} favorite hotels`);
+      }
+
+      const { data, error } = await supabase
+        .from("favorite_hotels")
+        .insert({ [owner.column]: owner.id, hotel_id: hotelId })
+        .select("*")
+        .single();
+
+      if (error?.code === FOREIGN_KEY_VIOLATION) {
+        throw new AuthenticationError("Guest session not found");
+      }
+      if (error) {
+        logger.error("Failed to add favorite", { error: error.message });
+        throw new Error("Failed to add favorite");
+      }
+      row = data as FavoriteHotelRow;
+      logger.info("Favorite added", { hotelId });
+    }
+
+    const inventory = await loadInventoryHotels(supabase, [hotelId], logger);
+    return c.json({ favorite: toFavoriteHotel(row, inventory.get(hotelId) ?? null) }, existing ? 200 : 201);
+  } catch (error) {
+    if (error instanceof ZodError) {
+      throw new ValidationError("Invalid favorite data", error);
+    }
+    throw error;
+  }
+});
+
+/**
+ * DELETE /profile/favorites/:hotelId
+ * Remove a hotel from favorites
+ */
+favorites.delete("/:hotelId", async (c) => {
+  const logger = createLogger(c.var);
+  const owner = getSessionOwner(c.var);
+  const hotelId = Number(c.req.param("hotelId"));
+
+  if (!Number.isInteger(hotelId) || hotelId <= 0) {
+    throw new ValidationError("hotelId must be a positive integer");
+  }
+
+  const { data, error } = await createServiceClient(c.env)
+    .from("favorite_hotels")
+    .delete()
+    .eq(owner.column, owner.id)
+    .eq("hotel_id", hotelId)
+    .select("id")
+    .maybeSingle();
+
+  if (error) {
+    logger.error("Failed to remove favorite", { error: error.message });
+    throw new Error("Failed to remove favorite");
+  }
+  if (!data) {
+    throw new NotFoundError("Favorite not found");
+  }
+
+  logger.info("Favorite removed", { hotelId });
+  return c.json({ deleted: true, hotelId });
+});
+
+export default favorites;
@@ -0,0 +1,205 @@
+/**
+ * Tests for browsing history: recording from /hotels/search, listing at
+ * /profile/history and clearing with the guest session
+ */
+
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { Hono } from "hono";
+import type { Env, HonoVariables } from "../types/env";
+import { errorHandler } from "../middleware/errorHandler";
+import { extractGuestSession } from "../middleware/auth";
+import { clearBoardMappingsCache } from "../cache/boardMappingsCache";
+import { clearPricingRulesCache } from "../cache/pricingRulesCache";
+import { clearReviewScoresCache } from "../cache/reviewScoresCache";
+import { clearResponseCache } from "../cache/responseCache";
+import profile from "./profile";
+import hotels from "./hotels";
+import auth from "./auth";
+
+const mockEnv = {
+  MYGO_LOGIN: "test-login",
+  MYGO_PASSWORD: "test-password",
+  SUPABASE_URL: "https://test.supabase.co",
+  SUPABASE_SERVICE_ROLE_KEY: "test-service-key",
+  SUPABASE_ANON_KEY: "test-anon-key",
+} as Env;
+
+const GUEST_SESSION_ID = "6f1c2d3e-4a5b-4c6d-8e7f-9a0b1c2d3e4f";
+
+const buildApp = () => {
+  const app = new Hono<{ Bindings: Env; Variables: HonoVariables }>();
+  app.onError(errorHandler());
+  app.use("*", extractGuestSession());
+  app.route("/auth", auth);
+  app.route("/profile", profile);
+  app.route("/hotels", hotels);
+  return app;
+};
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { "Content-Type": "application/json" } });
+
+const urlOf = (input: RequestInfo | URL) =>
+  typeof input === "string" ? input : input instanceof URL ? input.href : input.url;
+
+type Call = { method: string; url: string; body: unknown };
+
+describe("browsing history", () => {
+  afterEach(() => {
+    clearBoardMappingsCache();
+    clearPricingRulesCache();
+    clearReviewScoresCache();
+    clearResponseCache();
+    vi.restoreAllMocks();
+  });
+
+  it("should record guest searches in the background and trim past the limit", async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    const calls: Call[] = [];
+    vi.spyOn(globalThis, "fetch").mockImplementation(async (input, init) => {
+      const url = urlOf(input);
+      const method = init?.method ?? "GET";
+      calls.push({ method, url, body: init?.body ? JSON.parse(String(init.body)) : null });
+      if (url.endsWith("/ListBoarding")) {
+        return jsonResponse({ ListBoarding: [] });
+      }
+      if (url.includes("/rest/v1/browsing_history") && method === "GET") {
+        // 11 searches: the oldest is past the limit of 10
+        return jsonResponse(
+          Array.from({ length: 11 }, (_, index) => ({ id: 100 - index, viewed_at: new Date().toISOString() }))
+        );
+      }
+      if (url.includes("test.supabase.co")) {
+        return jsonResponse([]);
+      }
+      return jsonResponse({ HotelSearch: [] });
+    });
+    const background: Promise<unknown>[] = [];
+    const executionCtx = {
+      waitUntil: (promise: Promise<unknown>) => background.push(promise),
+      passThroughOnException: () => {},
+    } as unknown as ExecutionContext;
+
+    const res = await buildApp().request(
+      "/hotels/search",
+      {
+        method: "POST",
+        headers: { "Content-Type": "application/json", "X-Guest-Session-ID": GUEST_SESSION_ID },
+        body: JSON.stringify({
+          cityId: 10,
+          checkIn: "2026-07-01",
+          checkOut: "2026-07-05",
+          rooms: [{ adults: 2, childrenAges: [8, 5] }],
+        }),
+      },
+      mockEnv,
+      executionCtx
+    );
+    await Promise.all(background);
+
+    expect(res.status).toBe(200);
+    const upsert = calls.find((call) => call.method === "POST" && call.url.includes("/browsing_history"));
+    expect(upsert?.url).toContain("on_conflict=guest_session_id%2Ckind%2Centry_key");
+    expect(upsert?.body).toMatchObject({
+      guest_session_id: GUEST_SESSION_ID,
+      kind: "search",
+      hotel_id: null,
+      payload: { cityId: 10, checkIn: "2026-07-01", checkOut: "2026-07-05", rooms: [{ adults: 2, childrenAges: [5, 8] }] },
+    });
+    const trim = calls.find((call) => call.method === "DELETE" && call.url.includes("/browsing_history"));
+    expect(trim?.url).toContain("id=in.%2890%29");
+  });
+
+  it("should list recent searches and viewed hotels of the guest session", async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(globalThis, "fetch").mockImplementation(async (input) => {
+      const url = urlOf(input);
+      if (url.includes("/rest/v1/browsing_history") && url.includes("kind=eq.search")) {
+        return jsonResponse([
+          {
+            id: 3,
+            user_id: null,
+            guest_session_id: GUEST_SESSION_ID,
+            kind: "search",
+            entry_key: "[10]",
+            hotel_id: null,
+            payload: { cityId: 10, checkIn: "2026-07-01", checkOut: "2026-07-05", rooms: [{ adults: 2, childrenAges: [] }] },
+            viewed_at: "2026-06-02T10:00:00Z",
+          },
+        ]);
+      }
+      if (url.includes("/rest/v1/browsing_history")) {
+        return jsonResponse([
+          {
+            id: 4,
+            user_id: null,
+            guest_session_id: GUEST_SESSION_ID,
+            kind: "hotel",
+            entry_key: "101",
+            hotel_id: 101,
+            payload: {},
+            viewed_at: "2026-06-02T10:05:00Z",
+          },
+        ]);
+      }
+      if (url.includes("/rest/v1/inventory_hotels")) {
+        return jsonResponse([{ id: 101, name: "Hotel Sousse Palace", city_id: 10, star: "4", image: null }]);
+      }
+      return jsonResponse([]);
+    });
+
+    const res = await buildApp().request(
+      "/profile/history",
+      { headers: { "X-Guest-Session-ID": GUEST_SESSION_ID } },
+      mockEnv
+    );
+
+    expect(res.status).toBe(200);
+    const data = (await res.json()) as Record<string, any>;
+    expect(data.searches).toEqual([
+      {
+        cityId: 10,
+        checkIn: "2026-07-01",
+        checkOut: "2026-07-05",
+        rooms: [{ adults: 2, childrenAges: [] }],
+        searchedAt: "2026-06-02T10:00:00Z",
+      },
+    ]);
+    expect(data.hotels).toEqual([
+      {
+        hotelId: 101,
+        viewedAt: "2026-06-02T10:05:00Z",
+        stay: null,
+        hotel: expect.objectContaining({ id: 101, name: "Hotel Sousse Palace", star: 4 }),
+      },
+    ]);
+  });
+
+  it("should clear the history when a guest session with bookings is deleted", async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    const calls: Call[] = [];
+    vi.spyOn(globalThis, "fetch").mockImplementation(async (input, init) => {
+      const url = urlOf(input);
+      const method = init?.method ?? "GET";
+      calls.push({ method, url, body: init?.body ? JSON.parse(String(init.body)) : null });
+      if (url.includes("/rest/v1/guest_sessions") && method === "DELETE") {
+        return jsonResponse({ code: "23503", message: "violates foreign key constraint on bookings" }, 409);
+      }
+      return jsonResponse([]);
+    });
+
+    const res = await buildApp().request(
+      "/auth/guest",
+      { method: "DELETE", headers: { "X-Guest-Session-ID": GUEST_SESSION_ID } },
+      mockEnv
+    );
+
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({ deleted: false, expired: true, sessionId: GUEST_SESSION_ID });
+    const historyDelete = calls.find((call) => call.method === "DELETE" && call.url.includes("/browsing_history"));
+    expect(historyDelete?.url).toContain(`guest_session_id=eq.${GUEST_SESSION_ID}`);
+    const expire = calls.find((call) => call.method === "PATCH" && call.url.includes("/guest_sessions"));
+    expect(expire?.body).toHaveProperty("expires_at");
+  });
+});
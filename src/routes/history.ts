@@ -0,0 +1,92 @@
+/**
+ * Browsing history routes (mounted at /profile/history)
+ * Recent searches and viewed hotels of the signed-in user or guest session,
+ * recorded by the /hotels routes
+ */
+
+import { Hono } from "hono";
+import type { Env, HonoVariables } from "../types/env";
+import { optionalAuth } from "../middleware/auth";
+import { createServiceClient } from "../clients/supabaseClient";
+import { createLogger } from "../utils/logger";
+import { getSessionOwner } from "../utils/sessionOwner";
+import { loadInventoryHotels } from "../utils/hotelDetail";
+import {
+  getHistoryCutoff,
+  toRecentSearch,
+  toViewedHotel,
+  HISTORY_LIMITS,
+  type BrowsingHistoryRow,
+  type HistoryKind,
+} from "../utils/browsingHistory";
+
+const history = new Hono<{ Bindings: Env; Variables: HonoVariables }>();
+
+history.use("/*", optionalAuth());
+
+/**
+ * GET /profile/history
+ * Recent searches and viewed hotels (most recent first, within the TTL),
+ * viewed hotels enriched with inventory details
+ */
+history.get("/", async (c) => {
+  const logger = createLogger(c.var);
+  const owner = getSessionOwner(c.var);
+  const supabase = createServiceClient(c.env);
+  const cutoff = getHistoryCutoff(new Date());
+
+  const listEntries = (kind: HistoryKind) =>
+    supabase
+      .from("browsing_history")
+      .select("*")
+      .eq(owner.column, owner.id)
+      .eq("kind", kind)
+      .gte("viewed_at", cutoff)
+      .order("viewed_at", { ascending: false })
+      .limit(HISTORY_LIMITS[kind]);
+
+  const [searchResult, hotelResult] = await Promise.all([listEntries("search"), listEntries("hotel")]);
+  const error = searchResult.error ?? hotelResult.error;
+
+  if (error) {
+    logger.error("Failed to fetch browsing history", { error: error.message });
+    throw new Error("Failed to fetch browsing history");
+  }
+
+  const hotelRows = (hotelResult.data ?? []) as BrowsingHistoryRow[];
+  const inventory = await loadInventoryHotels(
+    supabase,
+    hotelRows.map((row) => row.hotel_id!),
+    logger
+  );
+
+  return c.json({
+    searches: ((searchResult.data ?? []) as BrowsingHistoryRow[]).map(toRecentSearch),
+    hotels: hotelRows.map((row) => toViewedHotel(row, inventory.get(row.hotel_id!) ?? null)),
+  });
+});
+
+/**
+ * DELETE /profile/history
+ * Clear the history of the user or guest session
+ */
+history.delete("/", async (c) => {
+  const logger = createLogger(c.var);
+  const owner = getSessionOwner(c.var);
+
+  const { data, error } = await createServiceClient(c.env)
+    .from("browsing_history")
+    .delete()
+    .eq(owner.column, owner.id)
+    .select("id");
+
+  if (error) {
+    logger.error("Failed to clear browsing history", { error: error.message });
+    throw new Error("Failed to clear browsing history");
+  }
+
+  logger.info("Browsing history cleared", { entries: data?.length ?? 0 });
+  return c.json({ deleted: data?.length ?? 0 });
+});
+
+export default history;
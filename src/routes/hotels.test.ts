@@ -1,10 +1,22 @@
 /**
- * Tests for Hotel Search Validation
- * Validates cityId coercion and error messages
+ * Tests for Hotel Search Validation and the /hotels/search routes
+ * Validates cityId coercion, error messages and token-free responses
  */
 
-import { describe, it, expect } from "vitest";
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { Hono } from "hono";
+import type { Env, HonoVariables } from "../types/env";
 import { hotelSearchSchema } from "../utils/validation";
+import { errorHandler } from "../middleware/errorHandler";
+import { clearHotelDetailCache } from "../cache/hotelDetailCache";
+import { clearBoardMappingsCache } from "../cache/boardMappingsCache";
+import { clearOccupancyPolicyCache } from "../cache/occupancyPolicyCache";
+import { clearResponseCache } from "../cache/responseCache";
+import { clearPricingRulesCache } from "../cache/pricingRulesCache";
+import { clearExchangeRatesCache } from "../cache/exchangeRatesCache";
+import { clearReviewScoresCache } from "../cache/reviewScoresCache";
+import { verifyOfferReference } from "../utils/offerReference";
+import hotels from "./hotels";
 
 describe("Hotel Search Schema - cityId validation", () => {
   const validBasePayload = {
@@ -173,3 +185,1028 @@ describe("Hotel Search Schema - cityId validation", () => {
     });
   });
 });
+
+describe("POST /hotels/search", () => {
+  const mockEnv = {
+    MYGO_LOGIN: "test-login",
+    MYGO_PASSWORD: "test-password",
+  } as Env;
+
+  const mygoSearchResponse = {
+    HotelSearch: [
+      {
+        Token: "secret-search-token",
+        Hotel: {
+          Id: 101,
+          Name: "Hotel Sousse Palace",
+          City: { Id: 10, Name: "Sousse" },
+          Category: { Star: 4, Title: "4 étoiles" },
+          Theme: ["Plage"],
+        },
+        Price: {
+          Boarding: [
+            {
+              Code: "BB",
+              Name: "Logement petit déjeuner",
+              Pax: [
+                {
+                  Adult: 2,
+                  Rooms: [
+                    { Id: 1, Name: "Double", Price: 250, StopReservation: false, Token: "room-token" },
+                    { Id: 2, Name: "Suite", StopReservation: false },
+                  ],
+                },
+              ],
+            },
+          ],
+        },
+      },
+    ],
+  };
+
+  const listBoardingResponse = { ListBoarding: [{ Id: "BB", Title: "Bed and breakfast" }] };
+
+  const buildApp = () => {
+    const app = new Hono<{ Bindings: Env; Variables: HonoVariables }>();
+    app.onError(errorHandler());
+    app.route("/hotels", hotels);
+    return app;
+  };
+
+  afterEach(() => {
+    clearBoardMappingsCache();
+    clearOccupancyPolicyCache();
+    clearPricingRulesCache();
+    clearReviewScoresCache();
+    clearExchangeRatesCache();
+    clearResponseCache();
+    vi.restoreAllMocks();
+  });
+
+  it("should return normalized hotels without any token", async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    vi.spyOn(globalThis, "fetch").mockImplementation(async (input) => {
+      const url = typeof input === "string" ? input : input instanceof URL ? input.href : input.url;
+      const body = url.endsWith("/ListBoarding") ? listBoardingResponse : mygoSearchResponse;
+      return new Response(JSON.stringify(body), {
+        status: 200,
+        headers: { "Content-Type": "application/json" },
+      });
+    });
+
+    const res = await buildApp().request(
+      "/hotels/search",
+      {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          cityId: "10",
+          checkIn: "2026-07-01",
+          checkOut: "2026-07-05",
+          rooms: [{ adults: 2 }],
+        }),
+      },
+      mockEnv
+    );
+
+    expect(res.status).toBe(200);
+    const raw = await res.text();
+    expect(raw).not.toContain("secret-search-token");
+    expect(raw).not.toContain("room-token");
+    expect(raw.toLowerCase()).not.toContain('"token"');
+
+    const data = JSON.parse(raw);
+    expect(data.rawCount).toBe(1);
+    expect(data.visibleCount).toBe(1);
+    expect(data.hotels[0].id).toBe(101);
+    expect(data.hotels[0].star).toBe(4);
+    // Unpriced rooms are dropped (filterVisibleHotels)
+    expect(data.hotels[0].rooms).toHaveLength(1);
+    expect(data.hotels[0].rooms[0]).toMatchObject({
+      roomId: 1,
+      roomName: "Double",
+      price: 250,
+      boardCode: "BB",
+      onRequest: false,
+      // No policy returned by myGO
+      freeCancellationUntil: null,
+      boardType: "BB",
+      boardLabel: "Logement petit déjeuner",
+      roomTags: ["double"],
+    });
+    expect(data.facets.boardTypes).toEqual([{ value: "BB", label: "Logement petit déjeuner", count: 1 }]);
+  });
+
+  it("should attach a verifiable offer reference to each room", async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    vi.spyOn(globalThis, "fetch").mockImplementation(async (input) => {
+      const url = typeof input === "string" ? input : input instanceof URL ? input.href : input.url;
+      const body = url.endsWith("/ListBoarding") ? listBoardingResponse : mygoSearchResponse;
+      return new Response(JSON.stringify(body), {
+        status: 200,
+        headers: { "Content-Type": "application/json" },
+      });
+    });
+
+    const res = await buildApp().request(
+      "/hotels/search",
+      {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          cityId: 10,
+          checkIn: "2026-07-01",
+          checkOut: "2026-07-05",
+          rooms: [{ adults: 2 }],
+        }),
+      },
+      { ...mockEnv, JWT_SECRET: "test-jwt-secret" }
+    );
+
+    expect(res.status).toBe(200);
+    const data = (await res.json()) as Record<string, any>;
+    const verification = await verifyOfferReference(data.hotels[0].rooms[0].offerRef, "test-jwt-secret");
+    expect(verification).toMatchObject({
+      valid: true,
+      snapshot: {
+        hotelId: 101,
+        roomId: 1,
+        boardCode: "BB",
+        price: 250,
+        currency: "TND",
+        checkIn: "2026-07-01",
+        checkOut: "2026-07-05",
+        rooms: [{ adults: 2 }],
+      },
+    });
+  });
+
+  it("should serve identical searches from the response cache", async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    const searchCalls: string[] = [];
+    vi.spyOn(globalThis, "fetch").mockImplementation(async (input) => {
+      const url = typeof input === "string" ? input : input instanceof URL ? input.href : input.url;
+      if (url.endsWith("/HotelSearch")) {
+        searchCalls.push(url);
+      }
+      const body = url.endsWith("/ListBoarding") ? listBoardingResponse : mygoSearchResponse;
+      return new Response(JSON.stringify(body), {
+        status: 200,
+        headers: { "Content-Type": "application/json" },
+      });
+    });
+    const search = (language: string) =>
+      buildApp().request(
+        "/hotels/search",
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            cityId: 10,
+            checkIn: "2026-07-01",
+            checkOut: "2026-07-05",
+            rooms: [{ adults: 2 }],
+            language,
+          }),
+        },
+        mockEnv
+      );
+
+    const [first, second] = await Promise.all([search("fr"), search("fr")]);
+    const third = await search("en");
+
+    // Concurrent identical searches share one myGO call, later ones hit the cache
+    expect(searchCalls).toHaveLength(1);
+    expect(first.headers.get("X-Cache")).toBe("MISS");
+    expect(second.headers.get("X-Cache")).toBe("MISS");
+    expect(third.headers.get("X-Cache")).toBe("HIT");
+    expect(third.headers.get("X-Cache-Backend")).toBe("memory");
+    // Language-dependent labels are applied after the cache
+    const data = (await third.json()) as Record<string, any>;
+    expect(data.rawCount).toBe(1);
+    expect(data.hotels[0].rooms[0].boardLabel).toBe("Bed & breakfast");
+  });
+
+  it("should apply pricing rules before price filters", async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    vi.spyOn(globalThis, "fetch").mockImplementation(async (input) => {
+      const url = typeof input === "string" ? input : input instanceof URL ? input.href : input.url;
+      const body = url.endsWith("/ListBoarding")
+        ? listBoardingResponse
+        : url.includes("/rest/v1/pricing_rules")
+          ? [
+              {
+                id: 1,
+                name: "4* BB +10%",
+                active: true,
+                priority: 0,
+                hotel_ids: null,
+                city_ids: null,
+                stars: [4],
+                board_types: ["BB"],
+                stay_from: null,
+                stay_to: null,
+                booking_window_min: null,
+                booking_window_max: null,
+                channels: ["web"],
+                markup_type: "percent",
+                markup_value: 10,
+                rounding_step: 5,
+                rounding_mode: "up",
+                min_price: null,
+                max_price: null,
+                note: null,
+                updated_at: null,
+              },
+            ]
+          : url.includes("test.supabase.co")
+            ? []
+            : mygoSearchResponse;
+      return new Response(JSON.stringify(body), {
+        status: 200,
+        headers: { "Content-Type": "application/json" },
+      });
+    });
+    const search = (extra: Record<string, unknown>) =>
+      buildApp().request(
+        "/hotels/search",
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            cityId: 10,
+            checkIn: "2026-07-01",
+            checkOut: "2026-07-05",
+            rooms: [{ adults: 2 }],
+            ...extra,
+          }),
+        },
+        { ...mockEnv, SUPABASE_URL: "https://test.supabase.co", SUPABASE_SERVICE_ROLE_KEY: "test-service-key" }
+      );
+
+    const web = (await (await search({ filters: { priceMin: 270 } })).json()) as Record<string, any>;
+    const mobile = (await (await search({ channel: "mobile" })).json()) as Record<string, any>;
+
+    // 250 + 10% = 275, already a multiple of 5
+    expect(web.pagination.total).toBe(1);
+    expect(web.hotels[0].rooms[0].price).toBe(275);
+    // The rule only targets the web channel
+    expect(mobile.hotels[0].rooms[0].price).toBe(250);
+  });
+
+  it("should add display prices in the requested currency", async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    const fetchSpy = vi.spyOn(globalThis, "fetch").mockImplementation(async (input) => {
+      const url = typeof input === "string" ? input : input instanceof URL ? input.href : input.url;
+      const body = url.endsWith("/ListBoarding")
+        ? listBoardingResponse
+        : url.includes("/rest/v1/exchange_rates")
+          ? [
+              { id: 7, currency: "EUR", tnd_per_unit: "3.35000000", effective_at: "2026-06-01T00:00:00Z", note: null },
+              { id: 5, currency: "EUR", tnd_per_unit: "3.30000000", effective_at: "2026-05-01T00:00:00Z", note: null },
+            ]
+          : url.includes("test.supabase.co")
+            ? []
+            : mygoSearchResponse;
+      return new Response(JSON.stringify(body), {
+        status: 200,
+        headers: { "Content-Type": "application/json" },
+      });
+    });
+    const search = (displayCurrency: string) =>
+      buildApp().request(
+        "/hotels/search",
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            cityId: 10,
+            checkIn: "2026-07-01",
+            checkOut: "2026-07-05",
+            rooms: [{ adults: 2 }],
+            displayCurrency,
+          }),
+        },
+        { ...mockEnv, SUPABASE_URL: "https://test.supabase.co", SUPABASE_SERVICE_ROLE_KEY: "test-service-key" }
+      );
+
+    const res = await search("eur");
+    const json = (await res.json()) as Record<string, any>;
+
+    expect(res.status).toBe(200);
+    expect(json.display).toEqual({ currency: "EUR", rate: 3.35, rateId: 7, effectiveAt: "2026-06-01T00:00:00Z" });
+    // Settlement price stays in TND; 250 / 3.35 = 74.626... rounded to cents
+    expect(json.hotels[0].rooms[0].price).toBe(250);
+    expect(json.hotels[0].rooms[0].displayPrice).toEqual({ amount: 74.63, currency: "EUR" });
+
+    // No rate for GBP: rejected before calling myGO
+    fetchSpy.mockClear();
+    const unknown = await search("GBP");
+    expect(unknown.status).toBe(400);
+    expect(fetchSpy.mock.calls.some(([input]) => String(input).includes("mygo.co"))).toBe(false);
+  });
+
+  it("should filter by canonical board type with English labels", async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    vi.spyOn(globalThis, "fetch").mockImplementation(async (input) => {
+      const url = typeof input === "string" ? input : input instanceof URL ? input.href : input.url;
+      const body = url.endsWith("/ListBoarding") ? listBoardingResponse : mygoSearchResponse;
+      return new Response(JSON.stringify(body), {
+        status: 200,
+        headers: { "Content-Type": "application/json" },
+      });
+    });
+    const search = (filters: Record<string, unknown>) =>
+      buildApp().request(
+        "/hotels/search",
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            cityId: 10,
+            checkIn: "2026-07-01",
+            checkOut: "2026-07-05",
+            rooms: [{ adults: 2 }],
+            language: "en",
+            filters,
+          }),
+        },
+        mockEnv
+      );
+
+    const matching = (await (await search({ boardTypes: ["BB"] })).json()) as Record<string, any>;
+    const excluded = (await (await search({ boardTypes: ["AI"] })).json()) as Record<string, any>;
+
+    expect(matching.hotels[0].rooms[0].boardLabel).toBe("Bed & breakfast");
+    expect(excluded.pagination.total).toBe(0);
+  });
+
+  it("should reject an occupancy the hotel is known to refuse before calling myGO", async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    const limitedResponse = structuredClone(mygoSearchResponse) as Record<string, any>;
+    limitedResponse.HotelSearch[0].Price.Boarding[0].Pax[0].Rooms[0].MaxAdult = 2;
+    const fetchSpy = vi.spyOn(globalThis, "fetch").mockImplementation(async (input) => {
+      const url = typeof input === "string" ? input : input instanceof URL ? input.href : input.url;
+      const body = url.endsWith("/ListBoarding") ? listBoardingResponse : limitedResponse;
+      return new Response(JSON.stringify(body), {
+        status: 200,
+        headers: { "Content-Type": "application/json" },
+      });
+    });
+    const search = (adults: number) =>
+      buildApp().request(
+        "/hotels/search",
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            cityId: 10,
+            checkIn: "2026-07-01",
+            checkOut: "2026-07-05",
+            rooms: [{ adults }],
+            hotelIds: [101],
+          }),
+        },
+        mockEnv
+      );
+
+    expect((await search(2)).status).toBe(200);
+    const upstreamCalls = fetchSpy.mock.calls.length;
+    const res = await search(3);
+
+    expect(res.status).toBe(400);
+    const data = (await res.json()) as Record<string, any>;
+    expect(data.details).toEqual([
+      {
+        field: "rooms[0].adults",
+        code: "TOO_MANY_ADULTS",
+        limit: 2,
+        message: "Cet hôtel accepte au maximum 2 adultes par chambre",
+        hotelId: 101,
+      },
+    ]);
+    expect(fetchSpy.mock.calls.length).toBe(upstreamCalls);
+  });
+
+  it("should return 400 for invalid search payload", async () => {
+    const fetchSpy = vi.spyOn(globalThis, "fetch");
+
+    const res = await buildApp().request(
+      "/hotels/search",
+      {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ cityId: 0, checkIn: "2026-07-01", checkOut: "2026-07-05", rooms: [] }),
+      },
+      mockEnv
+    );
+
+    expect(res.status).toBe(400);
+    expect(fetchSpy).not.toHaveBeenCalled();
+  });
+});
+
+describe("POST /hotels/search/geo", () => {
+  const mockEnv = {
+    MYGO_LOGIN: "test-login",
+    MYGO_PASSWORD: "test-password",
+    SUPABASE_URL: "https://test.supabase.co",
+    SUPABASE_SERVICE_ROLE_KEY: "test-service-key",
+  } as Env;
+
+  const inventoryRows = [
+    { id: 101, city_id: 10, latitude: "35.8300", longitude: "10.6400" },
+    { id: 202, city_id: 20, latitude: "35.7700", longitude: "10.8300" },
+    { id: 303, city_id: 1, latitude: "36.8065", longitude: "10.1815" },
+  ];
+
+  const buildSearchResponse = (hotelId: number, cityId: number) => ({
+    HotelSearch: [
+      {
+        Token: "secret-search-token",
+        Hotel: { Id: hotelId, Name: `Hotel ${hotelId}`, City: { Id: cityId, Name: "City" } },
+        Price: {
+          Boarding: [
+            {
+              Code: "BB",
+              Name: "Logement petit déjeuner",
+              Pax: [{ Adult: 2, Rooms: [{ Id: 1, Name: "Double", Price: 200, StopReservation: false }] }],
+            },
+          ],
+        },
+      },
+    ],
+  });
+
+  const buildApp = () => {
+    const app = new Hono<{ Bindings: Env; Variables: HonoVariables }>();
+    app.onError(errorHandler());
+    app.route("/hotels", hotels);
+    return app;
+  };
+
+  afterEach(() => {
+    clearBoardMappingsCache();
+    clearOccupancyPolicyCache();
+    clearPricingRulesCache();
+    clearReviewScoresCache();
+    clearResponseCache();
+    vi.restoreAllMocks();
+  });
+
+  it("should search inventory hotels within the radius across cities", async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    const mygoHotelIds: number[][] = [];
+    vi.spyOn(globalThis, "fetch").mockImplementation(async (input, init) => {
+      const url = typeof input === "string" ? input : input instanceof URL ? input.href : input.url;
+      if (url.endsWith("/ListBoarding")) {
+        return new Response(JSON.stringify({ ListBoarding: [] }), { status: 200 });
+      }
+      if (url.includes("board_code_overrides")) {
+        return new Response(JSON.stringify([]), { status: 200, headers: { "Content-Type": "application/json" } });
+      }
+      if (url.includes("test.supabase.co")) {
+        return new Response(JSON.stringify(inventoryRows), {
+          status: 200,
+          headers: { "Content-Type": "application/json" },
+        });
+      }
+      const { SearchDetails } = JSON.parse(String(init?.body)) as {
+        SearchDetails: { City: number; BookingDetails: { Hotels: number[] } };
+      };
+      mygoHotelIds.push(SearchDetails.BookingDetails.Hotels);
+      const hotelId = SearchDetails.BookingDetails.Hotels[0];
+      return new Response(JSON.stringify(buildSearchResponse(hotelId, SearchDetails.City)), {
+        status: 200,
+        headers: { "Content-Type": "application/json" },
+      });
+    });
+
+    const res = await buildApp().request(
+      "/hotels/search/geo",
+      {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          center: { latitude: 35.8256, longitude: 10.6084 },
+          radiusKm: 30,
+          checkIn: "2026-07-01",
+          checkOut: "2026-07-05",
+          rooms: [{ adults: 2 }],
+        }),
+      },
+      mockEnv
+    );
+
+    expect(res.status).toBe(200);
+    const data = (await res.json()) as Record<string, any>;
+    expect(data.matchedCount).toBe(2);
+    expect(data.searchedCities).toEqual([10, 20]);
+    expect(mygoHotelIds).toEqual([[101], [202]]);
+    expect(data.hotels.map((hotel: { id: number }) => hotel.id)).toEqual([101, 202]);
+    expect(data.hotels[0].distanceKm).toBeLessThan(data.hotels[1].distanceKm);
+    expect(data.partial).toBe(false);
+  });
+
+  it("should reject an occupancy every searched hotel is known to refuse before calling myGO", async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    let mygoSearches = 0;
+    vi.spyOn(globalThis, "fetch").mockImplementation(async (input, init) => {
+      const url = typeof input === "string" ? input : input instanceof URL ? input.href : input.url;
+      if (url.endsWith("/ListBoarding")) {
+        return new Response(JSON.stringify({ ListBoarding: [] }), { status: 200 });
+      }
+      if (url.includes("test.supabase.co")) {
+        const rows = url.includes("board_code_overrides") ? [] : inventoryRows;
+        return new Response(JSON.stringify(rows), { status: 200, headers: { "Content-Type": "application/json" } });
+      }
+      mygoSearches++;
+      const { SearchDetails } = JSON.parse(String(init?.body)) as {
+        SearchDetails: { City: number; BookingDetails: { Hotels: number[] } };
+      };
+      const response = buildSearchResponse(SearchDetails.BookingDetails.Hotels[0], SearchDetails.City) as Record<string, any>;
+      response.HotelSearch[0].Price.Boarding[0].Pax[0].Rooms[0].MaxAdult = 2;
+      return new Response(JSON.stringify(response), { status: 200, headers: { "Content-Type": "application/json" } });
+    });
+    const search = (adults: number) =>
+      buildApp().request(
+        "/hotels/search/geo",
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            center: { latitude: 35.8256, longitude: 10.6084 },
+            radiusKm: 30,
+            checkIn: "2026-07-01",
+            checkOut: "2026-07-05",
+            rooms: [{ adults }],
+          }),
+        },
+        mockEnv
+      );
+
+    expect((await search(2)).status).toBe(200);
+    const searches = mygoSearches;
+    const res = await search(3);
+
+    expect(res.status).toBe(400);
+    const data = (await res.json()) as Record<string, any>;
+    expect(data.details.map((detail: { hotelId: number }) => detail.hotelId)).toEqual([101, 202]);
+    expect(mygoSearches).toBe(searches);
+  });
+
+  it("should return 400 when neither radius nor bounds is given", async () => {
+    const fetchSpy = vi.spyOn(globalThis, "fetch");
+
+    const res = await buildApp().request(
+      "/hotels/search/geo",
+      {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          center: { latitude: 35.8256, longitude: 10.6084 },
+          checkIn: "2026-07-01",
+          checkOut: "2026-07-05",
+          rooms: [{ adults: 2 }],
+        }),
+      },
+      mockEnv
+    );
+
+    expect(res.status).toBe(400);
+    expect(fetchSpy).not.toHaveBeenCalled();
+  });
+});
+
+describe("GET /hotels/:id", () => {
+  const mockEnv = {
+    MYGO_LOGIN: "test-login",
+    MYGO_PASSWORD: "test-password",
+    SUPABASE_URL: "https://test.supabase.co",
+    SUPABASE_SERVICE_ROLE_KEY: "test-service-key",
+  } as Env;
+
+  const jsonResponse = (body: unknown, status = 200) =>
+    new Response(JSON.stringify(body), { status, headers: { "Content-Type": "application/json" } });
+
+  const getUrl = (input: RequestInfo | URL) =>
+    typeof input === "string" ? input : input instanceof URL ? input.href : input.url;
+
+  const buildApp = () => {
+    const app = new Hono<{ Bindings: Env; Variables: HonoVariables }>();
+    app.onError(errorHandler());
+    app.route("/hotels", hotels);
+    return app;
+  };
+
+  const mockUpstream = (options: { inventory?: unknown; detail?: unknown } = {}) => {
+    const calls: string[] = [];
+    vi.spyOn(globalThis, "fetch").mockImplementation(async (input) => {
+      const url = getUrl(input);
+      if (url.endsWith("/ListBoarding")) {
+        return jsonResponse({ ListBoarding: [] });
+      }
+      if (url.includes("board_code_overrides")) {
+        return jsonResponse([]);
+      }
+      if (url.includes("test.supabase.co")) {
+        calls.push("inventory");
+        return jsonResponse(
+          "inventory" in options ? options.inventory : { id: 101, name: "Inventory name", city_id: 10, star: "4" }
+        );
+      }
+      if (url.endsWith("/HotelDetail")) {
+        calls.push("HotelDetail");
+        return jsonResponse(
+          options.detail ?? {
+            Hotel: {
+              Id: 101,
+              Name: "Hotel Sousse Palace",
+              Description: "Beachfront hotel",
+              City: { Id: 10, Name: "Sousse" },
+              Category: { Star: 4, Title: "4 étoiles" },
+              Album: [{ Url: "https://cdn.example.com/1.jpg" }],
+              Facilities: [{ Title: "Piscine" }],
+            },
+          }
+        );
+      }
+      calls.push("HotelSearch");
+      return jsonResponse({
+        HotelSearch: [
+          {
+            Token: "secret-search-token",
+            Hotel: { Id: 101, Name: "Hotel Sousse Palace", City: { Id: 10, Name: "Sousse" } },
+            Price: {
+              Boarding: [
+                {
+                  Code: "BB",
+                  Name: "Logement petit déjeuner",
+                  Pax: [{ Adult: 2, Rooms: [{ Id: 1, Name: "Double", Price: 250, StopReservation: false }] }],
+                },
+              ],
+            },
+          },
+        ],
+      });
+    });
+    return calls;
+  };
+
+  afterEach(() => {
+    clearHotelDetailCache();
+    clearBoardMappingsCache();
+    clearPricingRulesCache();
+    clearReviewScoresCache();
+    vi.restoreAllMocks();
+  });
+
+  it("should return static content without live rooms when no dates are given", async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    const calls = mockUpstream();
+
+    const res = await buildApp().request("/hotels/101", {}, mockEnv);
+
+    expect(res.status).toBe(200);
+    const data = (await res.json()) as Record<string, any>;
+    expect(data.hotel).toMatchObject({
+      id: 101,
+      name: "Hotel Sousse Palace",
+      description: "Beachfront hotel",
+      images: ["https://cdn.example.com/1.jpg"],
+      amenities: ["Piscine"],
+      sources: { mygo: true, inventory: true },
+    });
+    expect(data.staticCached).toBe(false);
+    expect(data.live).toBeNull();
+    expect(calls).not.toContain("HotelSearch");
+  });
+
+  it("should include token-free live offers and reuse cached static content", async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    const calls = mockUpstream();
+    const app = buildApp();
+
+    await app.request("/hotels/101", {}, mockEnv);
+    const res = await app.request(
+      "/hotels/101?checkIn=2026-07-01&checkOut=2026-07-05&occupancy=2",
+      {},
+      mockEnv
+    );
+
+    expect(res.status).toBe(200);
+    const raw = await res.text();
+    expect(raw).not.toContain("secret-search-token");
+    const data = JSON.parse(raw);
+    expect(data.staticCached).toBe(true);
+    expect(data.live).toMatchObject({ available: true, checkIn: "2026-07-01" });
+    expect(data.live.offers[0]).toMatchObject({ roomId: 1, price: 250, boardCode: "BB" });
+    expect(calls.filter((call) => call === "HotelDetail")).toHaveLength(1);
+  });
+
+  it("should return 404 when neither myGO nor the inventory knows the hotel", async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    mockUpstream({ detail: {}, inventory: null });
+
+    const res = await buildApp().request("/hotels/999", {}, mockEnv);
+
+    expect(res.status).toBe(404);
+  });
+
+  it("should return 400 for malformed occupancy", async () => {
+    const res = await buildApp().request(
+      "/hotels/101?checkIn=2026-07-01&checkOut=2026-07-05&occupancy=two",
+      {},
+      mockEnv
+    );
+
+    expect(res.status).toBe(400);
+  });
+});
+
+describe("POST /hotels/compare", () => {
+  const mockEnv = {
+    MYGO_LOGIN: "test-login",
+    MYGO_PASSWORD: "test-password",
+    SUPABASE_URL: "https://test.supabase.co",
+    SUPABASE_SERVICE_ROLE_KEY: "test-service-key",
+  } as Env;
+
+  const jsonResponse = (body: unknown) =>
+    new Response(JSON.stringify(body), { status: 200, headers: { "Content-Type": "application/json" } });
+
+  const getUrl = (input: RequestInfo | URL) =>
+    typeof input === "string" ? input : input instanceof URL ? input.href : input.url;
+
+  const buildApp = () => {
+    const app = new Hono<{ Bindings: Env; Variables: HonoVariables }>();
+    app.onError(errorHandler());
+    app.route("/hotels", hotels);
+    return app;
+  };
+
+  const searchHotel = (id: number, boards: Array<{ code: string; name: string; roomId: number; price: number }>) => ({
+    Token: "secret-search-token",
+    Hotel: { Id: id, Name: `Hotel ${id}`, City: { Id: 10, Name: "Sousse" } },
+    Price: {
+      Boarding: boards.map((board) => ({
+        Code: board.code,
+        Name: board.name,
+        Pax: [{ Adult: 2, Rooms: [{ Id: board.roomId, Name: "Double", Price: board.price, StopReservation: false }] }],
+      })),
+    },
+  });
+
+  const mockUpstream = (cityByHotel: Record<number, number>) => {
+    const calls: string[] = [];
+    vi.spyOn(globalThis, "fetch").mockImplementation(async (input, init) => {
+      const url = getUrl(input);
+      if (url.endsWith("/ListBoarding")) {
+        return jsonResponse({ ListBoarding: [] });
+      }
+      if (url.includes("hotel_review_stats")) {
+        return jsonResponse([
+          {
+            hotel_id: 102,
+            review_count: 4,
+            overall_avg: "8.9",
+            cleanliness_avg: "9.0",
+            location_avg: "9.5",
+            staff_avg: "8.5",
+            value_avg: "8.5",
+          },
+        ]);
+      }
+      if (url.includes("inventory_hotels")) {
+        return jsonResponse(null);
+      }
+      if (url.includes("test.supabase.co")) {
+        return jsonResponse([]);
+      }
+      if (url.endsWith("/HotelDetail")) {
+        const hotelId = Number(/"HotelId":(\d+)/.exec(String(init?.body))?.[1]);
+        calls.push(`HotelDetail:${hotelId}`);
+        return jsonResponse({
+          Hotel: {
+            Id: hotelId,
+            Name: `Hotel ${hotelId}`,
+            City: { Id: cityByHotel[hotelId], Name: "Sousse" },
+            Category: { Star: hotelId === 101 ? 4 : 5, Title: "" },
+            Facilities: [{ Title: "Piscine" }],
+          },
+        });
+      }
+      calls.push("HotelSearch");
+      return jsonResponse({
+        HotelSearch: [
+          searchHotel(101, [
+            { code: "BB", name: "Logement petit déjeuner", roomId: 1, price: 250 },
+            { code: "HB", name: "Demi pension", roomId: 2, price: 320 },
+          ]),
+          searchHotel(102, [{ code: "HB", name: "Demi pension", roomId: 3, price: 300 }]),
+          searchHotel(103, [{ code: "BB", name: "Logement petit déjeuner", roomId: 4, price: 100 }]),
+        ],
+      });
+    });
+    return calls;
+  };
+
+  const compare = (hotelIds: number[]) =>
+    buildApp().request(
+      "/hotels/compare",
+      {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ hotelIds, checkIn: "2026-07-01", checkOut: "2026-07-05", rooms: [{ adults: 2 }] }),
+      },
+      mockEnv
+    );
+
+  afterEach(() => {
+    clearHotelDetailCache();
+    clearBoardMappingsCache();
+    clearPricingRulesCache();
+    clearReviewScoresCache();
+    clearResponseCache();
+    vi.restoreAllMocks();
+  });
+
+  it("should align the cheapest offer per board with one myGO search", async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    const calls = mockUpstream({ 101: 10, 102: 10 });
+
+    const res = await compare([102, 101]);
+
+    expect(res.status).toBe(200);
+    const raw = await res.text();
+    expect(raw).not.toContain("secret-search-token");
+    const data = JSON.parse(raw);
+    expect(data.boards).toEqual(["BB", "HB"]);
+    expect(data.hotels.map((hotel: any) => hotel.hotelId)).toEqual([102, 101]);
+    expect(data.hotels[0]).toMatchObject({
+      star: 5,
+      facilities: ["Piscine"],
+      reviewScores: { count: 4, overall: 8.9 },
+      cheapestOffer: { roomId: 3, price: 300, boardType: "HB" },
+      boards: { BB: null, HB: { roomId: 3, price: 300 } },
+    });
+    expect(data.hotels[1]).toMatchObject({
+      reviewScores: null,
+      cheapestOffer: { roomId: 1, price: 250, boardType: "BB" },
+      boards: { BB: { roomId: 1 }, HB: { roomId: 2, price: 320 } },
+    });
+    expect(data.highlights).toEqual({ cheapestHotelId: 101, topRatedHotelId: 102, mostFlexibleHotelId: null });
+    expect(calls.filter((call) => call === "HotelSearch")).toHaveLength(1);
+  });
+
+  it("should refuse hotels from different cities before searching", async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    const calls = mockUpstream({ 101: 10, 102: 20 });
+
+    const res = await compare([101, 102]);
+
+    expect(res.status).toBe(400);
+    expect(calls).not.toContain("HotelSearch");
+  });
+
+  it("should require 2 to 5 distinct hotels", async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    const fetchSpy = vi.spyOn(globalThis, "fetch");
+
+    const single = await compare([101]);
+    const duplicates = await compare([101, 101]);
+    const tooMany = await compare([101, 102, 103, 104, 105, 106]);
+
+    expect([single.status, duplicates.status, tooMany.status]).toEqual([400, 400, 400]);
+    expect(fetchSpy).not.toHaveBeenCalled();
+  });
+});
+
+describe("GET /hotels/:id/cancellation-policy", () => {
+  const mockEnv = {
+    MYGO_LOGIN: "test-login",
+    MYGO_PASSWORD: "test-password",
+    SUPABASE_URL: "https://test.supabase.co",
+    SUPABASE_SERVICE_ROLE_KEY: "test-service-key",
+  } as Env;
+
+  const jsonResponse = (body: unknown) =>
+    new Response(JSON.stringify(body), { status: 200, headers: { "Content-Type": "application/json" } });
+
+  const buildApp = () => {
+    const app = new Hono<{ Bindings: Env; Variables: HonoVariables }>();
+    app.onError(errorHandler());
+    app.route("/hotels", hotels);
+    return app;
+  };
+
+  afterEach(() => {
+    clearHotelDetailCache();
+    vi.restoreAllMocks();
+  });
+
+  it("should return the normalized HotelCancellationPolicy timeline", async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    const fetchSpy = vi.spyOn(globalThis, "fetch").mockResolvedValue(
+      jsonResponse({ CancellationPolicy: [{ FromDate: "2099-07-01", Percentage: 100 }] })
+    );
+
+    const res = await buildApp().request(
+      "/hotels/101/cancellation-policy?checkIn=2099-07-10&checkOut=2099-07-12&price=300",
+      {},
+      mockEnv
+    );
+
+    expect(res.status).toBe(200);
+    const data = (await res.json()) as Record<string, any>;
+    expect(data.source).toBe("policy");
+    expect(data.policies[0]).toMatchObject({
+      known: true,
+      freeCancellationUntil: "2099-07-01T00:00:00+01:00",
+      nonRefundable: false,
+      price: 300,
+    });
+    expect(data.policies[0].brackets[1]).toMatchObject({ kind: "percent", value: 100, amount: 300 });
+    expect(fetchSpy).toHaveBeenCalledTimes(1);
+    const [url, init] = fetchSpy.mock.calls[0];
+    expect(String(url)).toContain("HotelCancellationPolicy");
+    expect(JSON.parse(String(init?.body))).toMatchObject({ HotelId: 101, CheckIn: "2099-07-10" });
+  });
+
+  it("should fall back to search room policies", async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(globalThis, "fetch").mockImplementation(async (input) => {
+      const url = typeof input === "string" ? input : input instanceof URL ? input.href : input.url;
+      if (url.endsWith("/HotelCancellationPolicy")) {
+        return jsonResponse({});
+      }
+      if (url.includes("test.supabase.co")) {
+        return jsonResponse({ id: 101, name: "Hotel Sousse Palace", city_id: 10 });
+      }
+      if (url.endsWith("/HotelDetail")) {
+        return jsonResponse({ Hotel: { Id: 101, Name: "Hotel Sousse Palace", City: { Id: 10 } } });
+      }
+      return jsonResponse({
+        HotelSearch: [
+          {
+            Token: "secret-search-token",
+            Hotel: { Id: 101, Name: "Hotel Sousse Palace", City: { Id: 10, Name: "Sousse" } },
+            Price: {
+              Boarding: [
+                {
+                  Code: "BB",
+                  Pax: [
+                    {
+                      Adult: 2,
+                      Rooms: [
+                        {
+                          Id: 1,
+                          Name: "Double",
+                          Price: 250,
+                          StopReservation: false,
+                          CancellationPolicy: [{ Days: 2, Percentage: 50 }],
+                        },
+                      ],
+                    },
+                  ],
+                },
+              ],
+            },
+          },
+        ],
+      });
+    });
+
+    const res = await buildApp().request(
+      "/hotels/101/cancellation-policy?checkIn=2099-07-10&checkOut=2099-07-12&boardCode=BB",
+      {},
+      mockEnv
+    );
+
+    expect(res.status).toBe(200);
+    const data = (await res.json()) as Record<string, any>;
+    expect(data.source).toBe("search");
+    expect(data.policies).toHaveLength(1);
+    expect(data.policies[0]).toMatchObject({
+      roomId: 1,
+      boardCode: "BB",
+      price: 250,
+      freeCancellationUntil: "2099-07-08T00:00:00+01:00",
+    });
+  });
+
+  it("should return 400 without dates", async () => {
+    const res = await buildApp().request("/hotels/101/cancellation-policy", {}, mockEnv);
+
+    expect(res.status).toBe(400);
+  });
+});
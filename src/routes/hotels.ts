@@ -1,9 +1,1244 @@
-// Ajoute juste après: const validatedData = hotelSearchSchema.parse(body);
-
-logger.info("Hotel search payload normalized", {
-  rawCityId: (body as { cityId?: unknown }).cityId,
-  normalizedCityId: validatedData.cityId,
-  checkIn: validatedData.checkIn,
-  checkOut: validatedData.checkOut,
-  rooms: validatedData.rooms.length,
-})
+/**
+ * Hotel routes
+ * Handles live availability search (by city or by area), hotel comparison,
+ * flexible-dates calendar and hotel detail against myGO, plus guest reviews
+ */
+
+import { Hono } from "hono";
+import { ZodError } from "zod";
+import type { Env, HonoVariables } from "../types/env";
+import {
+  searchHotels,
+  filterVisibleHotels,
+  toTokenFreeHotels,
+  getHotelDetail,
+  getHotelCancellationPolicy,
+} from "../clients/mygoClient";
+import type {
+  MyGoCredential,
+  MyGoSearchParams,
+  MyGoHotelSearchResult,
+  MyGoHotelDetailResponse,
+} from "../types/mygo";
+import { createServiceClient } from "../clients/supabaseClient";
+import { optionalAuth } from "../middleware/auth";
+import {
+  hotelSearchSchema,
+  priceCalendarSchema,
+  geoSearchSchema,
+  hotelDetailQuerySchema,
+  cancellationPolicyQuerySchema,
+  hotelReviewListSchema,
+  hotelCompareSchema,
+} from "../utils/validation";
+import { createLogger } from "../utils/logger";
+import { applySearchQuery, decodeCursor } from "../utils/searchResults";
+import { buildPriceCalendar } from "../utils/priceCalendar";
+import { mapWithConcurrency } from "../utils/concurrency";
+import { findHotelsInArea, groupMatchesByCity, type GeoArea, type GeoInventoryHotel } from "../utils/geo";
+import {
+  mergeHotelStaticContent,
+  parseOccupancy,
+  type HotelStaticContent,
+  type InventoryHotelRow,
+} from "../utils/hotelDetail";
+import {
+  annotateFreeCancellation,
+  extractPolicyGroups,
+  normalizeCancellationPolicy,
+  type RawPolicyGroup,
+} from "../utils/cancellationPolicy";
+import { annotateRoomTypes } from "../utils/boardNormalization";
+import { resolveLanguage, type SupportedLanguage } from "../utils/i18n";
+import {
+  learnFromDetail,
+  learnFromSearchHotel,
+  validateOccupancy,
+  OCCUPANCY_ERROR_SUMMARY,
+  type OccupancyRoom,
+} from "../utils/occupancyPolicy";
+import { annotateOfferReferences, getOfferSigningSecret, type OfferContext } from "../utils/offerReference";
+import { applyPricingToHotels } from "../utils/pricingRules";
+import { annotateReviewScores, toHotelReview, type HotelReviewRow } from "../utils/reviews";
+import { buildHotelComparison } from "../utils/hotelComparison";
+import { findSessionOwner } from "../utils/sessionOwner";
+import {
+  recordHistoryEntry,
+  toHotelHistoryEntry,
+  toSearchHistoryEntry,
+  type HistoryEntry,
+} from "../utils/browsingHistory";
+import {
+  annotateDisplayPrices,
+  resolveDisplayRate,
+  toDisplayInfo,
+  SETTLEMENT_CURRENCY,
+  type ExchangeRate,
+} from "../utils/currency";
+import { getCachedHotelDetail, setCachedHotelDetail } from "../cache/hotelDetailCache";
+import { loadBoardNormalizer } from "../cache/boardMappingsCache";
+import { loadPricingRules } from "../cache/pricingRulesCache";
+import { loadExchangeRates } from "../cache/exchangeRatesCache";
+import { loadReviewScores } from "../cache/reviewScoresCache";
+import { getCachedOccupancyPolicy, rememberOccupancyPolicy } from "../cache/occupancyPolicyCache";
+import {
+  cacheHeaders,
+  cachedLoad,
+  combineCacheStatus,
+  resolveCacheBackend,
+  stableCacheKey,
+  waitUntilFrom,
+  type CachePolicy,
+  type CacheStatus,
+} from "../cache/responseCache";
+import { ValidationError, ExternalServiceError, NotFoundError } from "../middleware/errorHandler";
+
+const hotels = new Hono<{ Bindings: Env; Variables: HonoVariables }>();
+
+/**
+ * Helper to create MyGO credential from environment
+ */
+const getMyGoCredential = (env: Env): MyGoCredential => ({
+  login: env.MYGO_LOGIN,
+  password: env.MYGO_PASSWORD,
+});
+
+// Search responses: fresh 120s like the search-hotels edge function, then
+// served stale for 5 minutes while refreshing (prebook re-checks prices)
+const SEARCH_CACHE_POLICY: CachePolicy = {
+  namespace: "search:v1",
+  freshMs: 120 * 1000,
+  staleMs: 5 * 60 * 1000,
+};
+
+// Geo search limits: nearest hotels first, one myGO search per city
+const GEO_MAX_HOTELS = 150;
+const GEO_MAX_CITIES = 8;
+const GEO_CITY_CONCURRENCY = 3;
+const INVENTORY_PAGE_SIZE = 1000;
+
+/**
+ * Load synced inventory hotels that have coordinates
+ * Coordinates are text columns, so area matching happens in the Worker
+ */
+const loadGeoInventory = async (env: Env): Promise<GeoInventoryHotel[]> => {
+  const supabase = createServiceClient(env);
+  const hotelsWithCoordinates: GeoInventoryHotel[] = [];
+
+  for (let from = 0; ; from += INVENTORY_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from("inventory_hotels")
+      .select("id, city_id, latitude, longitude")
+      .not("latitude", "is", null)
+      .not("longitude", "is", null)
+      .order("id")
+      .range(from, from + INVENTORY_PAGE_SIZE - 1);
+
+    if (error) {
+      throw new Error(`Failed to load inventory hotels: ${error.message}`);
+    }
+
+    const rows = (data ?? []) as Array<{
+      id: number;
+      city_id: number | null;
+      latitude: string | null;
+      longitude: string | null;
+    }>;
+    hotelsWithCoordinates.push(
+      ...rows.map((row) => ({
+        id: row.id,
+        cityId: row.city_id,
+        latitude: row.latitude,
+        longitude: row.longitude,
+      }))
+    );
+
+    if (rows.length < INVENTORY_PAGE_SIZE) {
+      return hotelsWithCoordinates;
+    }
+  }
+};
+
+/**
+ * Reject an occupancy that every requested hotel is known to refuse
+ * Hotels without a learned policy are not pre-validated
+ * @throws ValidationError with field-level details
+ */
+const assertOccupancyAccepted = (
+  rooms: OccupancyRoom[],
+  hotelIds: number[] | undefined,
+  language: SupportedLanguage,
+): void => {
+  if (!hotelIds || hotelIds.length === 0) {
+    return;
+  }
+  const policies = hotelIds.map(getCachedOccupancyPolicy);
+  if (policies.some((policy) => policy === null)) {
+    return;
+  }
+  const errorsByHotel = policies.map((policy) => validateOccupancy(rooms, policy!, { language }));
+  if (errorsByHotel.every((errors) => errors.length > 0)) {
+    throw new ValidationError(OCCUPANCY_ERROR_SUMMARY[language], errorsByHotel.flat());
+  }
+};
+
+/**
+ * Learn occupancy policies from raw search results
+ */
+const learnOccupancyPolicies = (searchResults: MyGoHotelSearchResult[]): void => {
+  for (const hotel of searchResults) {
+    const policy = learnFromSearchHotel(hotel);
+    if (policy) {
+      rememberOccupancyPolicy(policy);
+    }
+  }
+};
+
+// Token-free search result as cached
+interface CachedSearch {
+  rawCount: number;
+  hotels: MyGoHotelSearchResult[];
+}
+
+/**
+ * Deterministic, token-free cache key for a myGO search
+ */
+const getSearchCacheKey = (params: MyGoSearchParams): string =>
+  stableCacheKey({
+    cityId: params.cityId,
+    checkIn: params.checkIn,
+    checkOut: params.checkOut,
+    rooms: params.rooms.map((room) => ({ adults: room.adults, childrenAges: room.childrenAges ?? [] })),
+    currency: params.currency ?? "TND",
+    onlyAvailable: params.onlyAvailable ?? false,
+    hotelIds: params.hotelIds ? [...params.hotelIds].sort((a, b) => a - b) : undefined,
+    keywords: params.keywords,
+    categories: params.categories ? [...params.categories].sort() : undefined,
+    tags: params.tags ? [...params.tags].sort() : undefined,
+  });
+
+/**
+ * Search myGO through the response cache
+ * Only token-free, visible hotels are cached; occupancy policies are learned
+ * from the raw results on every upstream call
+ */
+const cachedSearch = (
+  c: { env: Env; executionCtx: ExecutionContext },
+  params: MyGoSearchParams,
+  logger: ReturnType<typeof createLogger>
+) =>
+  cachedLoad<CachedSearch>(
+    resolveCacheBackend(c.env),
+    SEARCH_CACHE_POLICY,
+    getSearchCacheKey(params),
+    async () => {
+      const searchResult = await searchHotels(getMyGoCredential(c.env), params);
+      learnOccupancyPolicies(searchResult.hotels);
+      return {
+        rawCount: searchResult.hotels.length,
+        hotels: toTokenFreeHotels(filterVisibleHotels(searchResult.hotels)),
+      };
+    },
+    {
+      waitUntil: waitUntilFrom(c),
+      onRefreshError: (error) =>
+        logger.warn("Background search refresh failed", {
+          cityId: params.cityId,
+          error: error instanceof Error ? error.message : String(error),
+        }),
+    }
+  );
+
+/**
+ * Attach signed offer references to returned rooms
+ * Without a signing secret, results are returned unchanged
+ */
+const withOfferReferences = async (
+  env: Env,
+  hotelsPage: MyGoHotelSearchResult[],
+  context: OfferContext,
+): Promise<MyGoHotelSearchResult[]> => {
+  const secret = getOfferSigningSecret(env);
+  return secret ? annotateOfferReferences(hotelsPage, context, secret) : hotelsPage;
+};
+
+/**
+ * Exchange rate of the requested display currency (null when none requested)
+ * @throws ValidationError when no rate is known for the currency
+ */
+const loadDisplayRate = async (
+  env: Env,
+  displayCurrency: string | undefined,
+  logger: ReturnType<typeof createLogger>,
+): Promise<ExchangeRate | null> => {
+  if (!displayCurrency) {
+    return null;
+  }
+  const rates = displayCurrency === SETTLEMENT_CURRENCY ? [] : await loadExchangeRates(env, logger);
+  const rate = resolveDisplayRate(rates, displayCurrency);
+  if (!rate) {
+    throw new ValidationError(`No exchange rate available for ${displayCurrency}`);
+  }
+  return rate;
+};
+
+/**
+ * Add display currency prices to returned rooms (prices stay in TND)
+ */
+const withDisplayPrices = (
+  hotelsPage: MyGoHotelSearchResult[],
+  rate: ExchangeRate | null,
+): MyGoHotelSearchResult[] => (rate ? annotateDisplayPrices(hotelsPage, rate) : hotelsPage);
+
+/**
+ * Record a browsing history entry for the user or guest session (if any),
+ * in the background when the runtime allows it
+ */
+const rememberHistory = (
+  c: { env: Env; var: HonoVariables; executionCtx: ExecutionContext },
+  entry: HistoryEntry,
+  logger: ReturnType<typeof createLogger>,
+): void => {
+  const owner = findSessionOwner(c.var);
+  if (!owner) {
+    return;
+  }
+  const recording = recordHistoryEntry(createServiceClient(c.env), owner, entry, logger);
+  waitUntilFrom(c)?.(recording);
+};
+
+/**
+ * POST /hotels/search
+ * Search live availability with myGO
+ *
+ * Response: { rawCount, visibleCount, hotels, pagination, facets }
+ * - Same visibility rules as the search-hotels edge function (filterVisibleHotels)
+ * - Optional sortBy/sortOrder, filters and page/perPage or cursor pagination;
+ *   facets count every filter value over all visible hotels
+ * - Token-free: the myGO search token never leaves the server, bookings
+ *   reconstruct it from searchParams + selectedOffer
+ * - Rooms carry boardType/boardLabel (canonical board, label in `language`)
+ *   and roomTags, usable in filters.boardTypes / filters.roomTags
+ * - With hotelIds, rooms are checked against the learned occupancy policy
+ *   of those hotels first (400 with field-level details when all refuse)
+ * - Prices are customer prices (pricing rules) in TND; displayCurrency adds
+ *   displayPrice per room and a `display` block with the rate used
+ * - Hotels carry reviewScores aggregated from approved guest reviews
+ */
+hotels.post("/search", optionalAuth(), async (c) => {
+  const logger = createLogger(c.var);
+  const startTime = Date.now();
+
+  try {
+    const body = await c.req.json();
+    const validatedData = hotelSearchSchema.parse(body);
+
+    if (validatedData.cursor && decodeCursor(validatedData.cursor) === null) {
+      throw new ValidationError("Invalid pagination cursor");
+    }
+
+    const language = resolveLanguage(validatedData.language, c.req.header("Accept-Language"));
+    assertOccupancyAccepted(validatedData.rooms, validatedData.hotelIds, language);
+    const displayRate = await loadDisplayRate(c.env, validatedData.displayCurrency, logger);
+
+    logger.info("Hotel search payload normalized", {
+      rawCityId: (body as { cityId?: unknown }).cityId,
+      normalizedCityId: validatedData.cityId,
+      checkIn: validatedData.checkIn,
+      checkOut: validatedData.checkOut,
+      rooms: validatedData.rooms.length,
+    });
+
+    const mygoParams: MyGoSearchParams = {
+      cityId: validatedData.cityId,
+      checkIn: validatedData.checkIn,
+      checkOut: validatedData.checkOut,
+      rooms: validatedData.rooms.map((room) => ({
+        adults: room.adults,
+        childrenAges: room.childrenAges,
+      })),
+      hotelIds: validatedData.hotelIds,
+      currency: validatedData.currency ?? "TND",
+      onlyAvailable: validatedData.onlyAvailable ?? false,
+      keywords: validatedData.keywords,
+      categories: validatedData.categories,
+      tags: validatedData.tags,
+    };
+
+    const [searchCache, boardNormalizer, pricingRules, reviewScores] = await Promise.all([
+      cachedSearch(c, mygoParams, logger),
+      loadBoardNormalizer(c.env, logger),
+      loadPricingRules(c.env, logger),
+      loadReviewScores(c.env, logger),
+    ]);
+    const searchResult = searchCache.value;
+
+    // Cached hotels already keep onRequest rooms and unavailable hotels, without unpriced rooms.
+    // Supplier prices are cached; pricing rules apply per request, before filters and sorting
+    const visibleHotels = applyPricingToHotels(
+      annotateRoomTypes(
+        annotateFreeCancellation(
+          searchResult.hotels,
+          { checkIn: mygoParams.checkIn, checkOut: mygoParams.checkOut, currency: mygoParams.currency }
+        ),
+        boardNormalizer,
+        language
+      ),
+      pricingRules,
+      { checkIn: mygoParams.checkIn, channel: validatedData.channel }
+    );
+
+    const resultsPage = applySearchQuery(visibleHotels, {
+      sortBy: validatedData.sortBy,
+      sortOrder: validatedData.sortOrder,
+      filters: validatedData.filters,
+      page: validatedData.page,
+      perPage: validatedData.perPage,
+      cursor: validatedData.cursor,
+    });
+
+    logger.info("Hotel search completed", {
+      cityId: mygoParams.cityId,
+      cache: searchCache.status,
+      rawCount: searchResult.rawCount,
+      visibleCount: visibleHotels.length,
+      matchedCount: resultsPage.pagination.total,
+      sortBy: validatedData.sortBy ?? "recommended",
+      durationMs: Date.now() - startTime,
+    });
+
+    rememberHistory(c, toSearchHistoryEntry(mygoParams), logger);
+
+    return c.json(
+      {
+        rawCount: searchResult.rawCount,
+        visibleCount: visibleHotels.length,
+        hotels: annotateReviewScores(
+          withDisplayPrices(
+            await withOfferReferences(c.env, resultsPage.hotels, {
+              checkIn: mygoParams.checkIn,
+              checkOut: mygoParams.checkOut,
+              currency: mygoParams.currency ?? "TND",
+              rooms: mygoParams.rooms,
+            }),
+            displayRate
+          ),
+          reviewScores
+        ),
+        pagination: resultsPage.pagination,
+        facets: resultsPage.facets,
+        ...(displayRate ? { display: toDisplayInfo(displayRate) } : {}),
+      },
+      200,
+      cacheHeaders(searchCache)
+    );
+  } catch (error) {
+    if (error instanceof ZodError) {
+      throw new ValidationError("Invalid search parameters", error);
+    }
+    // myGO 400 responses surface as ValidationError from mygoClient
+    if (error instanceof ValidationError) {
+      throw error;
+    }
+    logger.error("Hotel search failed", {
+      error: error instanceof Error ? error.message : String(error),
+      durationMs: Date.now() - startTime,
+    });
+    throw new ExternalServiceError("Failed to search hotels", "MyGO");
+  }
+});
+
+/**
+ * POST /hotels/search/geo
+ * Search live availability around a point (center + radiusKm) or inside a
+ * map bounding box (bounds)
+ *
+ * Response: same shape as /hotels/search plus matchedCount, searchedCities
+ * and partial; every hotel carries distanceKm from the center (bounding box
+ * center when only bounds are given)
+ * - Hotel IDs come from inventory_hotels coordinates (nearest first, capped),
+ *   then one myGO search per city with hotelIds
+ * - A failing city is skipped (partial=true); all cities failing is a 502
+ */
+hotels.post("/search/geo", async (c) => {
+  const logger = createLogger(c.var);
+  const startTime = Date.now();
+
+  try {
+    const body = await c.req.json();
+    const validatedData = geoSearchSchema.parse(body);
+
+    if (validatedData.cursor && decodeCursor(validatedData.cursor) === null) {
+      throw new ValidationError("Invalid pagination cursor");
+    }
+
+    const language = resolveLanguage(validatedData.language, c.req.header("Accept-Language"));
+    const displayRate = await loadDisplayRate(c.env, validatedData.displayCurrency, logger);
+
+    const area = (
+      validatedData.bounds
+        ? { bounds: validatedData.bounds, center: validatedData.center }
+        : { center: validatedData.center!, radiusKm: validatedData.radiusKm! }
+    ) as GeoArea;
+
+    const inventory = await loadGeoInventory(c.env);
+    const matches = findHotelsInArea(inventory, area);
+    const selectedMatches = matches.slice(0, GEO_MAX_HOTELS);
+    const cityGroups = Array.from(groupMatchesByCity(selectedMatches).entries());
+    const hotelIdsByCity = cityGroups.slice(0, GEO_MAX_CITIES);
+    const distanceByHotel = new Map(selectedMatches.map((match) => [match.hotelId, match.distanceKm]));
+    // Same occupancy pre-validation as /hotels/search, on the hotels to search
+    assertOccupancyAccepted(
+      validatedData.rooms,
+      hotelIdsByCity.flatMap(([, hotelIds]) => hotelIds),
+      language
+    );
+
+    const citySearches = await mapWithConcurrency(
+      hotelIdsByCity,
+      GEO_CITY_CONCURRENCY,
+      async ([cityId, hotelIds]) => {
+        try {
+          const searchCache = await cachedSearch(
+            c,
+            {
+              cityId,
+              checkIn: validatedData.checkIn,
+              checkOut: validatedData.checkOut,
+              rooms: validatedData.rooms.map((room) => ({
+                adults: room.adults,
+                childrenAges: room.childrenAges,
+              })),
+              hotelIds,
+              currency: validatedData.currency ?? "TND",
+              onlyAvailable: validatedData.onlyAvailable ?? false,
+            },
+            logger
+          );
+          return {
+            cityId,
+            rawCount: searchCache.value.rawCount,
+            hotels: searchCache.value.hotels,
+            cache: searchCache.status as CacheStatus | null,
+            failed: false,
+          };
+        } catch (error) {
+          logger.warn("Geo search city failed", {
+            cityId,
+            error: error instanceof Error ? error.message : String(error),
+          });
+          return { cityId, rawCount: 0, hotels: [] as MyGoHotelSearchResult[], cache: null, failed: true };
+        }
+      }
+    );
+
+    const failedCities = citySearches.filter((search) => search.failed).length;
+    if (citySearches.length > 0 && failedCities === citySearches.length) {
+      throw new Error("All city searches failed");
+    }
+
+    const rawCount = citySearches.reduce((sum, search) => sum + search.rawCount, 0);
+    const cacheStatus = combineCacheStatus(
+      citySearches.flatMap((search) => (search.cache ? [search.cache] : []))
+    );
+    const [boardNormalizer, pricingRules, reviewScores] = await Promise.all([
+      loadBoardNormalizer(c.env, logger),
+      loadPricingRules(c.env, logger),
+      loadReviewScores(c.env, logger),
+    ]);
+    const visibleHotels = applyPricingToHotels(
+      annotateRoomTypes(
+        annotateFreeCancellation(citySearches.flatMap((search) => search.hotels), {
+          checkIn: validatedData.checkIn,
+          checkOut: validatedData.checkOut,
+          currency: validatedData.currency ?? "TND",
+        }),
+        boardNormalizer,
+        language
+      ),
+      pricingRules,
+      { checkIn: validatedData.checkIn, channel: validatedData.channel }
+    )
+      .filter((hotel) => distanceByHotel.has(hotel.id))
+      .map((hotel) => ({ ...hotel, distanceKm: distanceByHotel.get(hotel.id) }));
+
+    const resultsPage = applySearchQuery(visibleHotels, {
+      sortBy: validatedData.sortBy ?? "distance",
+      sortOrder: validatedData.sortOrder,
+      filters: validatedData.filters,
+      page: validatedData.page,
+      perPage: validatedData.perPage,
+      cursor: validatedData.cursor,
+    });
+
+    logger.info("Geo hotel search completed", {
+      mode: validatedData.bounds ? "bounds" : "radius",
+      inventoryCount: inventory.length,
+      matchedCount: matches.length,
+      searchedCities: hotelIdsByCity.length,
+      failedCities,
+      cache: cacheStatus,
+      visibleCount: visibleHotels.length,
+      durationMs: Date.now() - startTime,
+    });
+
+    return c.json(
+      {
+        rawCount,
+        visibleCount: visibleHotels.length,
+        matchedCount: matches.length,
+        searchedCities: hotelIdsByCity.map(([cityId]) => cityId),
+        partial:
+          failedCities > 0 ||
+          matches.length > selectedMatches.length ||
+          cityGroups.length > hotelIdsByCity.length,
+        hotels: annotateReviewScores(
+          withDisplayPrices(
+            await withOfferReferences(c.env, resultsPage.hotels, {
+              checkIn: validatedData.checkIn,
+              checkOut: validatedData.checkOut,
+              currency: validatedData.currency ?? "TND",
+              rooms: validatedData.rooms.map((room) => ({ adults: room.adults, childrenAges: room.childrenAges })),
+            }),
+            displayRate
+          ),
+          reviewScores
+        ),
+        pagination: resultsPage.pagination,
+        facets: resultsPage.facets,
+        ...(displayRate ? { display: toDisplayInfo(displayRate) } : {}),
+      },
+      200,
+      { "X-Cache": cacheStatus, "X-Cache-Backend": resolveCacheBackend(c.env).name }
+    );
+  } catch (error) {
+    if (error instanceof ZodError) {
+      throw new ValidationError("Invalid geo search parameters", error);
+    }
+    if (error instanceof ValidationError) {
+      throw error;
+    }
+    logger.error("Geo hotel search failed", {
+      error: error instanceof Error ? error.message : String(error),
+      durationMs: Date.now() - startTime,
+    });
+    throw new ExternalServiceError("Failed to search hotels", "MyGO");
+  }
+});
+
+/**
+ * POST /hotels/compare
+ * Compare 2-5 hotels of one city side by side for a stay
+ *
+ * Response: { checkIn, checkOut, currency, rooms, boards, hotels, highlights }
+ * - One myGO search with hotelIds (through the search cache) plus cached
+ *   static content and review scores
+ * - boards: canonical boards offered by at least one hotel; each hotel has
+ *   its cheapest offer per board (null when not offered), its overall
+ *   cheapest offer, facilities, location, cancellation flexibility and
+ *   reviewScores, in the requested order
+ * - Hotels from different cities are refused (400)
+ */
+hotels.post("/compare", async (c) => {
+  const logger = createLogger(c.var);
+  const startTime = Date.now();
+
+  let validatedData;
+  try {
+    validatedData = hotelCompareSchema.parse(await c.req.json());
+  } catch (error) {
+    if (error instanceof ZodError) {
+      throw new ValidationError("Invalid comparison parameters", error);
+    }
+    throw error;
+  }
+
+  const language = resolveLanguage(validatedData.language, c.req.header("Accept-Language"));
+  const currency = validatedData.currency ?? "TND";
+  const rooms = validatedData.rooms.map((room) => ({ adults: room.adults, childrenAges: room.childrenAges }));
+  assertOccupancyAccepted(validatedData.rooms, validatedData.hotelIds, language);
+  const displayRate = await loadDisplayRate(c.env, validatedData.displayCurrency, logger);
+
+  const staticContents = await Promise.all(
+    validatedData.hotelIds.map(async (hotelId) => {
+      try {
+        return (await loadHotelStaticContent(c.env, hotelId, validatedData.language, logger)).content;
+      } catch (error) {
+        if (error instanceof NotFoundError) {
+          throw new NotFoundError(`Hotel ${hotelId} not found`);
+        }
+        throw error;
+      }
+    })
+  );
+  const cityIds = new Set(staticContents.map((content) => content.cityId));
+  const [cityId] = cityIds;
+  if (cityIds.size > 1 || !cityId) {
+    throw new ValidationError(
+      cityId ? "Compared hotels must be in the same city" : "City unknown for the compared hotels"
+    );
+  }
+
+  let searchCache;
+  try {
+    searchCache = await cachedSearch(
+      c,
+      {
+        cityId,
+        checkIn: validatedData.checkIn,
+        checkOut: validatedData.checkOut,
+        rooms,
+        hotelIds: validatedData.hotelIds,
+        currency,
+        onlyAvailable: false,
+      },
+      logger
+    );
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      throw error;
+    }
+    logger.error("Hotel comparison search failed", {
+      cityId,
+      error: error instanceof Error ? error.message : String(error),
+      durationMs: Date.now() - startTime,
+    });
+    throw new ExternalServiceError("Failed to search hotels", "MyGO");
+  }
+
+  const [boardNormalizer, pricingRules, reviewScores] = await Promise.all([
+    loadBoardNormalizer(c.env, logger),
+    loadPricingRules(c.env, logger),
+    loadReviewScores(c.env, logger),
+  ]);
+  const comparedHotels = withDisplayPrices(
+    await withOfferReferences(
+      c.env,
+      applyPricingToHotels(
+        annotateRoomTypes(
+          annotateFreeCancellation(
+            searchCache.value.hotels.filter((hotel) => validatedData.hotelIds.includes(hotel.id)),
+            { checkIn: validatedData.checkIn, checkOut: validatedData.checkOut, currency }
+          ),
+          boardNormalizer,
+          language
+        ),
+        pricingRules,
+        { checkIn: validatedData.checkIn, channel: validatedData.channel }
+      ),
+      { checkIn: validatedData.checkIn, checkOut: validatedData.checkOut, currency, rooms }
+    ),
+    displayRate
+  );
+
+  const comparison = buildHotelComparison(
+    validatedData.hotelIds,
+    new Map(staticContents.map((content, index) => [validatedData.hotelIds[index], content])),
+    comparedHotels,
+    reviewScores
+  );
+
+  logger.info("Hotel comparison completed", {
+    cityId,
+    hotels: validatedData.hotelIds.length,
+    available: comparison.hotels.filter((hotel) => hotel.available).length,
+    cache: searchCache.status,
+    durationMs: Date.now() - startTime,
+  });
+
+  return c.json(
+    {
+      checkIn: validatedData.checkIn,
+      checkOut: validatedData.checkOut,
+      currency,
+      rooms,
+      ...comparison,
+      ...(displayRate ? { display: toDisplayInfo(displayRate) } : {}),
+    },
+    200,
+    cacheHeaders(searchCache)
+  );
+});
+
+/**
+ * POST /hotels/calendar
+ * Lowest price per check-in date of a month for a city or a single hotel
+ *
+ * Response: { month, nights, currency, cells, cheapest, partial, upstreamCalls }
+ * - Cell prices are customer prices (pricing rules applied, as in search)
+ * - One myGO search per uncached future date, concurrency-limited and capped
+ *   by an upstream call budget; each cell is cached separately
+ * - Dates that time out, fail or exceed the budget are returned with their
+ *   status and partial=true instead of failing the whole calendar
+ */
+hotels.post("/calendar", async (c) => {
+  const logger = createLogger(c.var);
+  const startTime = Date.now();
+
+  try {
+    const body = await c.req.json();
+    const validatedData = priceCalendarSchema.parse(body);
+
+    const credential = getMyGoCredential(c.env);
+    const [boardNormalizer, pricingRules] = await Promise.all([
+      loadBoardNormalizer(c.env, logger),
+      loadPricingRules(c.env, logger),
+    ]);
+    const calendar = await buildPriceCalendar(
+      {
+        cityId: validatedData.cityId,
+        hotelId: validatedData.hotelId,
+        month: validatedData.month,
+        nights: validatedData.nights,
+        rooms: validatedData.rooms.map((room) => ({
+          adults: room.adults,
+          childrenAges: room.childrenAges,
+        })),
+        currency: validatedData.currency,
+      },
+      {
+        search: (params) => searchHotels(credential, params),
+        priceHotels: (hotels, checkIn) =>
+          applyPricingToHotels(annotateRoomTypes(hotels, boardNormalizer), pricingRules, { checkIn }),
+      }
+    );
+
+    logger.info("Price calendar completed", {
+      cityId: validatedData.cityId,
+      hotelId: validatedData.hotelId,
+      month: validatedData.month,
+      nights: validatedData.nights,
+      upstreamCalls: calendar.upstreamCalls,
+      partial: calendar.partial,
+      durationMs: Date.now() - startTime,
+    });
+
+    return c.json(calendar);
+  } catch (error) {
+    if (error instanceof ZodError) {
+      throw new ValidationError("Invalid calendar parameters", error);
+    }
+    if (error instanceof ValidationError || error instanceof NotFoundError) {
+      throw error;
+    }
+    logger.error("Price calendar failed", {
+      error: error instanceof Error ? error.message : String(error),
+      durationMs: Date.now() - startTime,
+    });
+    throw new ExternalServiceError("Failed to build price calendar", "MyGO");
+  }
+});
+
+/**
+ * Parse the occupancy query parameter of GET hotel routes
+ * @throws ValidationError when malformed
+ */
+const parseOccupancyQuery = (value: string | undefined) => {
+  const rooms = value !== undefined ? parseOccupancy(value) : undefined;
+  if (rooms === null) {
+    throw new ValidationError("Invalid occupancy. Use adults[:childAge,childAge] per room, rooms separated by |");
+  }
+  return rooms;
+};
+
+/**
+ * Parse a hotel id path parameter
+ * @throws ValidationError when not a positive integer
+ */
+const parseHotelId = (value: string): number => {
+  const hotelId = Number(value);
+  if (!Number.isInteger(hotelId) || hotelId <= 0) {
+    throw new ValidationError("Hotel id must be a positive integer");
+  }
+  return hotelId;
+};
+
+/**
+ * Load static content for a hotel: myGO HotelDetail + inventory row
+ * Either source may fail; only content backed by myGO is cached
+ */
+const loadHotelStaticContent = async (
+  env: Env,
+  hotelId: number,
+  language: string | undefined,
+  logger: ReturnType<typeof createLogger>,
+): Promise<{ content: HotelStaticContent; cached: boolean }> => {
+  const cachedContent = getCachedHotelDetail(hotelId, language);
+  if (cachedContent) {
+    return { content: cachedContent, cached: true };
+  }
+
+  const [detailResult, inventoryResult] = await Promise.allSettled([
+    getHotelDetail(getMyGoCredential(env), { hotelId, language }),
+    createServiceClient(env)
+      .from("inventory_hotels")
+      .select("*")
+      .eq("id", hotelId)
+      .maybeSingle(),
+  ]);
+
+  let detail: MyGoHotelDetailResponse | null = null;
+  if (detailResult.status === "fulfilled") {
+    detail = detailResult.value;
+  } else {
+    logger.warn("Hotel detail fetch failed", {
+      hotelId,
+      error: detailResult.reason instanceof Error ? detailResult.reason.message : String(detailResult.reason),
+    });
+  }
+
+  let inventory: InventoryHotelRow | null = null;
+  if (inventoryResult.status === "fulfilled" && !inventoryResult.value.error) {
+    inventory = (inventoryResult.value.data as InventoryHotelRow | null) ?? null;
+  } else {
+    logger.warn("Inventory hotel lookup failed", {
+      hotelId,
+      error:
+        inventoryResult.status === "rejected"
+          ? String(inventoryResult.reason)
+          : inventoryResult.value.error?.message,
+    });
+  }
+
+  if (!detail && !inventory) {
+    if (detailResult.status === "rejected") {
+      throw new ExternalServiceError("Failed to fetch hotel detail", "MyGO");
+    }
+    throw new NotFoundError("Hotel not found");
+  }
+
+  const detailPolicy = learnFromDetail(hotelId, detail?.occupancy);
+  if (detailPolicy) {
+    rememberOccupancyPolicy(detailPolicy);
+  }
+
+  const content = mergeHotelStaticContent(hotelId, detail, inventory);
+  if (detail) {
+    setCachedHotelDetail(hotelId, content, language);
+  }
+  return { content, cached: false };
+};
+
+/**
+ * GET /hotels/:id
+ * Hotel detail: static content plus optional live room offers
+ *
+ * Query: checkIn, checkOut, occupancy ("2:5,8|2" = 2 adults + children aged
+ * 5 and 8, then 2 adults), currency, language
+ *
+ * Response: { hotel, staticCached, live }
+ * - hotel: myGO HotelDetail merged with the inventory_hotels row, cached
+ *   separately from prices, plus reviewScores (approved guest reviews)
+ * - live: null without dates; otherwise token-free rooms from searchHotels
+ *   restricted to this hotel (live.error set when myGO search fails, the
+ *   static part is still returned)
+ */
+hotels.get("/:id", optionalAuth(), async (c) => {
+  const logger = createLogger(c.var);
+  const startTime = Date.now();
+
+  const hotelId = parseHotelId(c.req.param("id"));
+  const rooms = parseOccupancyQuery(c.req.query("occupancy"));
+
+  let query;
+  try {
+    query = hotelDetailQuerySchema.parse({
+      checkIn: c.req.query("checkIn"),
+      checkOut: c.req.query("checkOut"),
+      rooms,
+      currency: c.req.query("currency"),
+      language: c.req.query("language"),
+      channel: c.req.query("channel"),
+      displayCurrency: c.req.query("displayCurrency"),
+    });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      throw new ValidationError("Invalid hotel detail parameters", error);
+    }
+    throw error;
+  }
+
+  const [{ content, cached }, reviewScores] = await Promise.all([
+    loadHotelStaticContent(c.env, hotelId, query.language, logger),
+    loadReviewScores(c.env, logger),
+  ]);
+  rememberHistory(c, toHotelHistoryEntry(hotelId, query), logger);
+
+  let live = null;
+  if (query.checkIn && query.checkOut) {
+    const currency = query.currency ?? "TND";
+    const searchRooms = query.rooms ?? [{ adults: 2 }];
+    const displayRate = await loadDisplayRate(c.env, query.displayCurrency, logger);
+    const liveBase = {
+      checkIn: query.checkIn,
+      checkOut: query.checkOut,
+      currency,
+      rooms: searchRooms,
+      ...(displayRate ? { display: toDisplayInfo(displayRate) } : {}),
+    };
+
+    if (!content.cityId) {
+      live = { ...liveBase, available: false, hasInstantConfirmation: false, offers: [], error: "Hotel city unknown" };
+    } else {
+      try {
+        const [searchResult, boardNormalizer, pricingRules] = await Promise.all([
+          searchHotels(getMyGoCredential(c.env), {
+            cityId: content.cityId,
+            checkIn: query.checkIn,
+            checkOut: query.checkOut,
+            rooms: searchRooms,
+            hotelIds: [hotelId],
+            currency,
+            onlyAvailable: false,
+          }),
+          loadBoardNormalizer(c.env, logger),
+          loadPricingRules(c.env, logger),
+        ]);
+        learnOccupancyPolicies(searchResult.hotels);
+        const [hotelResult] = withDisplayPrices(
+          await withOfferReferences(
+            c.env,
+            applyPricingToHotels(
+              annotateRoomTypes(
+                annotateFreeCancellation(
+                  toTokenFreeHotels(filterVisibleHotels(searchResult.hotels)),
+                  { checkIn: query.checkIn, checkOut: query.checkOut, currency }
+                ),
+                boardNormalizer,
+                resolveLanguage(query.language, c.req.header("Accept-Language"))
+              ),
+              pricingRules,
+              { checkIn: query.checkIn, channel: query.channel }
+            ).filter((hotel) => hotel.id === hotelId),
+            { checkIn: query.checkIn, checkOut: query.checkOut, currency, rooms: searchRooms }
+          ),
+          displayRate
+        );
+        live = {
+          ...liveBase,
+          available: hotelResult?.available ?? false,
+          hasInstantConfirmation: hotelResult?.hasInstantConfirmation ?? false,
+          offers: hotelResult?.rooms ?? [],
+        };
+      } catch (error) {
+        logger.warn("Hotel detail live search failed", {
+          hotelId,
+          error: error instanceof Error ? error.message : String(error),
+        });
+        live = { ...liveBase, available: false, hasInstantConfirmation: false, offers: [], error: "Live availability unavailable" };
+      }
+    }
+  }
+
+  logger.info("Hotel detail served", {
+    hotelId,
+    staticCached: cached,
+    withLive: live !== null,
+    offers: live?.offers.length ?? 0,
+    durationMs: Date.now() - startTime,
+  });
+
+  return c.json({
+    hotel: { ...content, reviewScores: reviewScores.get(hotelId) ?? null },
+    staticCached: cached,
+    live,
+  });
+});
+
+/**
+ * GET /hotels/:id/reviews
+ * Approved guest reviews of a hotel, newest first
+ *
+ * Query: page, perPage (default 10, max 50)
+ *
+ * Response: { hotelId, scores, reviews, pagination }
+ * - scores: aggregated sub-scores of approved reviews (null without any)
+ */
+hotels.get("/:id/reviews", async (c) => {
+  const logger = createLogger(c.var);
+  const hotelId = parseHotelId(c.req.param("id"));
+
+  let query;
+  try {
+    query = hotelReviewListSchema.parse({
+      page: c.req.query("page") ? Number(c.req.query("page")) : undefined,
+      perPage: c.req.query("perPage") ? Number(c.req.query("perPage")) : undefined,
+    });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      throw new ValidationError("Invalid review list parameters", error);
+    }
+    throw error;
+  }
+
+  const page = query.page ?? 1;
+  const perPage = query.perPage ?? 10;
+  const from = (page - 1) * perPage;
+
+  const [{ data, error, count }, reviewScores] = await Promise.all([
+    createServiceClient(c.env)
+      .from("hotel_reviews")
+      .select("*", { count: "exact" })
+      .eq("hotel_id", hotelId)
+      .eq("status", "approved")
+      .order("created_at", { ascending: false })
+      .range(from, from + perPage - 1),
+    loadReviewScores(c.env, logger),
+  ]);
+
+  if (error) {
+    logger.error("Failed to fetch hotel reviews", { hotelId, error: error.message });
+    throw new Error("Failed to fetch hotel reviews");
+  }
+
+  return c.json({
+    hotelId,
+    scores: reviewScores.get(hotelId) ?? null,
+    reviews: ((data ?? []) as HotelReviewRow[]).map(toHotelReview),
+    pagination: {
+      page,
+      perPage,
+      total: count ?? 0,
+      totalPages: Math.ceil((count ?? 0) / perPage),
+    },
+  });
+});
+
+/**
+ * GET /hotels/:id/cancellation-policy
+ * Normalized cancellation penalty timeline for a stay
+ *
+ * Query: checkIn, checkOut (required), occupancy, currency, and optional
+ * roomId/boardCode to narrow to one offer, price to compute amounts when
+ * myGO does not return one
+ *
+ * Response: { hotelId, checkIn, checkOut, currency, source, policies }
+ * - source "policy": myGO HotelCancellationPolicy; "search": rules attached
+ *   to live search rooms, used when HotelCancellationPolicy returns nothing
+ * - each policy: { roomId, roomName, boardCode, price, known,
+ *   freeCancellationUntil, nonRefundable, brackets }
+ */
+hotels.get("/:id/cancellation-policy", async (c) => {
+  const logger = createLogger(c.var);
+  const startTime = Date.now();
+
+  const hotelId = parseHotelId(c.req.param("id"));
+  const rooms = parseOccupancyQuery(c.req.query("occupancy"));
+
+  let query;
+  try {
+    query = cancellationPolicyQuerySchema.parse({
+      checkIn: c.req.query("checkIn"),
+      checkOut: c.req.query("checkOut"),
+      rooms,
+      currency: c.req.query("currency"),
+      roomId: c.req.query("roomId"),
+      boardCode: c.req.query("boardCode"),
+      price: c.req.query("price"),
+    });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      throw new ValidationError("Invalid cancellation policy parameters", error);
+    }
+    throw error;
+  }
+
+  const credential = getMyGoCredential(c.env);
+  const currency = query.currency ?? "TND";
+  const searchRooms = query.rooms ?? [{ adults: 2 }];
+
+  let source: "policy" | "search" = "policy";
+  let groups: RawPolicyGroup[] = [];
+  let policyError: unknown = null;
+
+  try {
+    const response = await getHotelCancellationPolicy(credential, {
+      hotelId,
+      checkIn: query.checkIn,
+      checkOut: query.checkOut,
+      currency,
+      rooms: searchRooms,
+    });
+    groups = extractPolicyGroups(response);
+  } catch (error) {
+    policyError = error;
+    logger.warn("HotelCancellationPolicy failed, falling back to search", {
+      hotelId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+
+  if (groups.length === 0) {
+    source = "search";
+    try {
+      const { content } = await loadHotelStaticContent(c.env, hotelId, undefined, logger);
+      if (!content.cityId) {
+        throw new Error("Hotel city unknown");
+      }
+      const searchResult = await searchHotels(credential, {
+        cityId: content.cityId,
+        checkIn: query.checkIn,
+        checkOut: query.checkOut,
+        rooms: searchRooms,
+        hotelIds: [hotelId],
+        currency,
+        onlyAvailable: false,
+      });
+      const hotelResult = filterVisibleHotels(searchResult.hotels).find((hotel) => hotel.id === hotelId);
+      groups = (hotelResult?.rooms ?? []).map((room) => ({
+        roomId: room.roomId ?? null,
+        roomName: room.roomName ?? null,
+        boardCode: room.boardCode ?? null,
+        price: room.price ?? null,
+        rules: room.cancellationPolicy ?? [],
+      }));
+    } catch (error) {
+      if (error instanceof NotFoundError) {
+        throw error;
+      }
+      logger.error("Cancellation policy lookup failed", {
+        hotelId,
+        policyError: policyError instanceof Error ? policyError.message : policyError,
+        error: error instanceof Error ? error.message : String(error),
+        durationMs: Date.now() - startTime,
+      });
+      throw new ExternalServiceError("Failed to fetch cancellation policy", "MyGO");
+    }
+  }
+
+  const policies = groups
+    .filter((group) => query.roomId === undefined || group.roomId === null || group.roomId === query.roomId)
+    .filter(
+      (group) => query.boardCode === undefined || group.boardCode === null || group.boardCode === query.boardCode
+    )
+    .map((group) => ({
+      roomId: group.roomId,
+      roomName: group.roomName,
+      boardCode: group.boardCode,
+      price: group.price ?? query.price ?? null,
+      ...normalizeCancellationPolicy(group.rules, {
+        checkIn: query.checkIn,
+        checkOut: query.checkOut,
+        currency,
+        totalPrice: group.price ?? query.price,
+      }),
+    }));
+
+  logger.info("Cancellation policy served", {
+    hotelId,
+    source,
+    policies: policies.length,
+    durationMs: Date.now() - startTime,
+  });
+
+  return c.json({
+    hotelId,
+    checkIn: query.checkIn,
+    checkOut: query.checkOut,
+    currency,
+    source,
+    policies,
+  });
+});
+
+export default hotels;
@@ -0,0 +1,124 @@
+/**
+ * Tests for the ClicToPay payment callback (/payments/callback)
+ */
+
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { Hono } from "hono";
+import type { Env, HonoVariables } from "../types/env";
+import { errorHandler } from "../middleware/errorHandler";
+import payments from "./payments";
+
+const mockEnv = {
+  SUPABASE_URL: "https://test.supabase.co",
+  SUPABASE_SERVICE_ROLE_KEY: "test-service-key",
+  CLICTOPAY_USERNAME: "test-user",
+  CLICTOPAY_PASSWORD: "test-password",
+  CLICTOPAY_SECRET: "test-callback-secret",
+} as Env;
+
+const buildApp = () => {
+  const app = new Hono<{ Bindings: Env; Variables: HonoVariables }>();
+  app.onError(errorHandler());
+  app.route("/payments", payments);
+  return app;
+};
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { "Content-Type": "application/json" } });
+
+const urlOf = (input: RequestInfo | URL) =>
+  decodeURIComponent(typeof input === "string" ? input : input instanceof URL ? input.href : input.url);
+
+// Signed like ClicToPay: HMAC-SHA256 of the sorted key=value pairs
+const signPayload = async (data: Record<string, unknown>): Promise<Record<string, unknown>> => {
+  const message = Object.entries(data)
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([key, value]) => `${key}=${value}`)
+    .join("&");
+  const key = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(mockEnv.CLICTOPAY_SECRET),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+  const signature = await crypto.subtle.sign("HMAC", key, new TextEncoder().encode(message));
+  return {
+    ...data,
+    signature: Array.from(new Uint8Array(signature), (byte) => byte.toString(16).padStart(2, "0")).join(""),
+  };
+};
+
+describe("POST /payments/callback", () => {
+  const booking = {
+    id: "booking-1",
+    status: "pending",
+    payment_status: "pending",
+    mygo_state: "Confirmed",
+    mygo_booking_id: 5001,
+  };
+  const payment = {
+    id: "payment-1",
+    booking_id: "booking-1",
+    order_id: "order-1",
+    amount: 500,
+    currency: "TND",
+    status: "pending",
+    amendment_id: null,
+    bookings: booking,
+  };
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("should release the funds when the booking is cancelled while the callback runs", async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    const writes: Array<{ url: string; body: any }> = [];
+    const clictopay: string[] = [];
+    vi.spyOn(globalThis, "fetch").mockImplementation(async (input, init) => {
+      const url = urlOf(input);
+      const method = init?.method ?? "GET";
+      if (url.includes("clictopay.com")) {
+        clictopay.push(url.split("/").pop()!);
+        return jsonResponse({ errorCode: "0" });
+      }
+      if (method !== "GET") {
+        writes.push({ url, body: JSON.parse(String(init?.body)) });
+        // The booking was cancelled between the read and the write
+        return jsonResponse(url.includes("/rest/v1/bookings") ? [] : [{ id: "updated" }]);
+      }
+      if (url.includes("/rest/v1/payments")) {
+        return jsonResponse(payment);
+      }
+      if (url.includes("/rest/v1/bookings")) {
+        return jsonResponse({ ...booking, status: "cancelled", payment_status: "failed" });
+      }
+      return jsonResponse([]);
+    });
+
+    const body = await signPayload({
+      orderId: "order-1",
+      orderNumber: "HTN-1",
+      orderStatus: 1,
+      actionCode: 0,
+      amount: 500000,
+      currency: "788",
+    });
+    const res = await buildApp().request(
+      "/payments/callback",
+      { method: "POST", headers: { "Content-Type": "application/json" }, body: JSON.stringify(body) },
+      mockEnv
+    );
+
+    expect(res.status).toBe(200);
+    expect(clictopay).toEqual(["reverse.do"]);
+    const paymentWrites = writes.filter((write) => write.url.includes("/rest/v1/payments"));
+    expect(paymentWrites.map((write) => write.body.status)).toEqual(["authorized", "reversed"]);
+    expect(paymentWrites[1].url).toContain("status=eq.authorized");
+    // The booking is left cancelled and its promo code is not redeemed
+    expect(writes.filter((write) => write.url.includes("/rest/v1/bookings"))).toHaveLength(1);
+    expect(writes.some((write) => write.url.includes("/rest/v1/promo_redemptions"))).toBe(false);
+  });
+});
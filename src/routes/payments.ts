@@ -4,15 +4,78 @@
  */
 
 import { Hono } from "hono";
+import type { SupabaseClient } from "@supabase/supabase-js";
 import type { Env, HonoVariables } from "../types/env";
 import { createServiceClient } from "../clients/supabaseClient";
 import { createClicToPayClient } from "../clients/clictopayClient";
 import type { ClicToPayCallbackPayload } from "../types/clictopay";
+import type { PaymentStatus } from "../types/booking";
 import { createLogger } from "../utils/logger";
-import { ValidationError, ExternalServiceError } from "../middleware/errorHandler";
+import { updateBookingRedemptions } from "../utils/promoRedemptions";
+import { toMinorUnits } from "../utils/currency";
+import {
+  assertPaymentTransition,
+  paymentStatusFromCallback,
+  planPaymentCallback,
+  updateBookingStates,
+  updatePaymentStatus,
+  type BookingStateRow,
+} from "../utils/bookingStateMachine";
+import { ValidationError, ExternalServiceError, IllegalTransitionError } from "../middleware/errorHandler";
 
 const payments = new Hono<{ Bindings: Env; Variables: HonoVariables }>();
 
+/**
+ * Release a payment authorized or captured after its booking was cancelled
+ * (reverse the hold, refund the capture); failures are logged for customer
+ * service, the callback itself succeeded
+ */
+const releaseLatePayment = async (
+  supabase: SupabaseClient,
+  clictopay: ReturnType<typeof createClicToPayClient>,
+  payment: { id: string; order_id: string; amount: number | string; currency: string; status: PaymentStatus },
+  logger: ReturnType<typeof createLogger>
+): Promise<void> => {
+  const next: PaymentStatus = payment.status === "authorized" ? "reversed" : "refunded";
+  try {
+    if (next === "reversed") {
+      await clictopay.reverse({ orderId: payment.order_id });
+    } else {
+      await clictopay.refund({ orderId: payment.order_id, amount: toMinorUnits(Number(payment.amount), payment.currency) });
+    }
+  } catch (error) {
+    logger.error("Failed to release payment of a cancelled booking", {
+      paymentId: payment.id,
+      status: payment.status,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return;
+  }
+
+  const columns = next === "refunded" ? { refunded_amount: Number(payment.amount) } : {};
+  const { error } = await updatePaymentStatus(supabase, payment, next, columns, logger);
+  if (error) {
+    logger.error("Failed to record payment release", { paymentId: payment.id, error: error.message });
+  }
+  logger.warn("Late payment of a cancelled booking released", { paymentId: payment.id, status: next });
+};
+
+/**
+ * Read the current states of a booking
+ */
+const loadBookingState = async (supabase: SupabaseClient, bookingId: string): Promise<BookingStateRow> => {
+  const { data, error } = await supabase
+    .from("bookings")
+    .select("id, status, payment_status, mygo_state, mygo_booking_id")
+    .eq("id", bookingId)
+    .single();
+
+  if (error || !data) {
+    throw new ExternalServiceError(`Failed to load booking ${bookingId}`, "Database");
+  }
+  return data as BookingStateRow;
+};
+
 /**
  * POST /payments/callback
  * Handle ClicToPay payment callback with signature verification
@@ -21,9 +84,12 @@ const payments = new Hono<{ Bindings: Env; Variables: HonoVariables }>();
  * Flow:
  * 1. Verify HMAC signature to ensure request is from ClicToPay
  * 2. Parse callback payload
- * 3. Update payment status in database
- * 4. Update booking status based on payment result
- * 5. Optionally trigger post-payment actions (emails, confirmations)
+ * 3. Update payment status in database (through the booking state machine)
+ * 4. Update booking status based on payment result; cancelled bookings stay
+ *    cancelled and a late authorization or capture is released
+ * 5. Redeem or release the booking's promo code
+ *    (amendment payments stop after step 3, see POST /bookings/:id/amend/complete)
+ * 6. Optionally trigger post-payment actions (emails, confirmations)
  */
 payments.post("/callback", async (c) => {
   const logger = createLogger(c.var);
@@ -84,77 +150,129 @@ payments.post("/callback", async (c) => {
       currentStatus: payment.status,
     });
 
-    // Map ClicToPay status to our payment status
-    // orderStatus: 0=registered, 1=pre-authorized, 2=deposited, 3=reversed, 4=refunded, 5=initiated, 6=declined
-    // actionCode: 0=success, anything else is error
-    let paymentStatus: "pending" | "authorized" | "captured" | "failed" | "reversed" = "pending";
-    let bookingStatus: "pending" | "confirmed" | "cancelled" = "pending";
-
-    if (payload.actionCode === 0) {
-      // Success
-      if (payload.orderStatus === 1) {
-        paymentStatus = "authorized";
-        bookingStatus = "confirmed";
-      } else if (payload.orderStatus === 2) {
-        paymentStatus = "captured";
-        bookingStatus = "confirmed";
-      } else if (payload.orderStatus === 3 || payload.orderStatus === 4) {
-        paymentStatus = "reversed";
-        bookingStatus = "cancelled";
-      }
-    } else {
-      // Failed or declined
-      paymentStatus = "failed";
-      bookingStatus = "cancelled";
-    }
+    // Map ClicToPay status to our payment status, then plan the booking
+    // change; illegal moves (e.g. a late decline of a captured payment) are
+    // rejected and logged
+    const paymentStatus = paymentStatusFromCallback(payload.orderStatus, payload.actionCode);
+    assertPaymentTransition(payment, paymentStatus, logger);
+    const booking = (payment.bookings as BookingStateRow | null) ?? null;
+    let plan = planPaymentCallback(payment, booking, paymentStatus);
 
     logger.info("Payment status determined", {
       paymentStatus,
-      bookingStatus,
+      bookingStatus: plan.booking?.status ?? booking?.status,
+      effects: plan.effects,
       orderStatus: payload.orderStatus,
       actionCode: payload.actionCode,
     });
 
     // Update payment record
-    const paymentUpdates = {
-      status: paymentStatus,
-      action_code: payload.actionCode,
-      approval_code: payload.approvalCode,
-      pan: payload.pan,
-      cardholder_name: payload.cardholderName,
-      updated_at: new Date().toISOString(),
-    };
-
-    const { error: updatePaymentError } = await supabase
-      .from("payments")
-      .update(paymentUpdates)
-      .eq("id", payment.id);
+    const { error: updatePaymentError } = await updatePaymentStatus(
+      supabase,
+      payment,
+      paymentStatus,
+      {
+        action_code: payload.actionCode,
+        approval_code: payload.approvalCode,
+        pan: payload.pan,
+        cardholder_name: payload.cardholderName,
+      },
+      logger
+    );
 
     if (updatePaymentError) {
       logger.error("Failed to update payment", { error: updatePaymentError.message });
       throw new ExternalServiceError("Failed to update payment status", "Database");
     }
 
-    // Update booking status
-    const { error: updateBookingError } = await supabase
-      .from("bookings")
-      .update({
-        status: bookingStatus,
-        payment_status: paymentStatus,
-        updated_at: new Date().toISOString(),
-      })
-      .eq("id", payment.booking_id);
-
-    if (updateBookingError) {
-      logger.error("Failed to update booking", { error: updateBookingError.message });
-      throw new ExternalServiceError("Failed to update booking status", "Database");
+    // Replacement pre-authorizations of amendments leave the booking as is:
+    // the swap runs in POST /bookings/:id/amend/complete once authorized
+    if (payment.amendment_id) {
+      if (plan.effects.includes("fail_amendment")) {
+        const { error: amendmentError } = await supabase
+          .from("booking_amendments")
+          .update({ status: "failed", failure_reason: "Payment declined" })
+          .eq("id", payment.amendment_id)
+          .eq("status", "awaiting_payment");
+
+        if (amendmentError) {
+          logger.error("Failed to update amendment", { error: amendmentError.message });
+        }
+      }
+
+      logger.info("Amendment payment updated", {
+        paymentId: payment.id,
+        amendmentId: payment.amendment_id,
+        paymentStatus,
+      });
+      return c.json({
+        success: true,
+        paymentId: payment.id,
+        bookingId: payment.booking_id,
+        amendmentId: payment.amendment_id,
+        status: paymentStatus,
+      });
+    }
+
+    // Update booking status (the booking mirrors this payment, validated above)
+    if (booking && plan.booking) {
+      let updateBookingError: { message: string } | null;
+      try {
+        ({ error: updateBookingError } = await updateBookingStates(
+          supabase,
+          booking,
+          { status: plan.booking.status, paymentStatus: plan.booking.paymentStatus, replacesPayment: true },
+          logger
+        ));
+      } catch (error) {
+        if (!(error instanceof IllegalTransitionError)) {
+          throw error;
+        }
+        // The booking changed since it was read (e.g. cancelled meanwhile):
+        // the payment is already recorded, so plan again against the booking
+        // as it is now (late funds of a cancelled booking are released)
+        const current = await loadBookingState(supabase, payment.booking_id);
+        plan = planPaymentCallback(payment, current, paymentStatus);
+        logger.warn("Booking changed during the payment callback, plan recomputed", {
+          bookingId: payment.booking_id,
+          bookingStatus: current.status,
+          effects: plan.effects,
+        });
+        updateBookingError = plan.booking
+          ? (
+              await updateBookingStates(
+                supabase,
+                current,
+                { status: plan.booking.status, paymentStatus: plan.booking.paymentStatus, replacesPayment: true },
+                logger
+              )
+            ).error
+          : null;
+      }
+
+      if (updateBookingError) {
+        logger.error("Failed to update booking", { error: updateBookingError.message });
+        throw new ExternalServiceError("Failed to update booking status", "Database");
+      }
+    }
+
+    // Paid bookings redeem their promo code; cancelled ones release it
+    if (plan.effects.includes("release_promo")) {
+      await updateBookingRedemptions(supabase, payment.booking_id, "released", logger);
+    } else if (plan.effects.includes("redeem_promo")) {
+      await updateBookingRedemptions(supabase, payment.booking_id, "redeemed", logger);
+    }
+
+    // Funds arriving for a booking cancelled meanwhile go back to the customer
+    if (plan.effects.includes("release_payment")) {
+      await releaseLatePayment(supabase, clictopay, { ...payment, status: paymentStatus }, logger);
     }
 
     logger.info("Payment and booking updated successfully", {
       paymentId: payment.id,
       bookingId: payment.booking_id,
       paymentStatus,
-      bookingStatus,
+      bookingStatus: plan.booking?.status ?? booking?.status,
     });
 
     // TODO: Trigger post-payment actions
@@ -170,7 +288,7 @@ payments.post("/callback", async (c) => {
       status: paymentStatus,
     });
   } catch (error) {
-    if (error instanceof ValidationError) {
+    if (error instanceof ValidationError || error instanceof IllegalTransitionError) {
       throw error;
     }
     logger.error("Payment callback processing failed", {
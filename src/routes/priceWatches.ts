@@ -0,0 +1,324 @@
+/**
+ * Price watch routes
+ * Users and guest sessions save a search, hotel or offer with an optional
+ * target price; the scheduled price watch job raises the notifications
+ */
+
+import { Hono } from "hono";
+import { ZodError } from "zod";
+import type { Env, HonoVariables } from "../types/env";
+import { optionalAuth } from "../middleware/auth";
+import { createServiceClient } from "../clients/supabaseClient";
+import { priceWatchCreateSchema, priceWatchListSchema, uuidSchema, type PriceWatchCreateInput } from "../utils/validation";
+import { createLogger } from "../utils/logger";
+import { getOfferSigningSecret, matchesOfferRequest, verifyOfferReference } from "../utils/offerReference";
+import {
+  getPriceWatchKind,
+  normalizeWatchRooms,
+  toPriceWatch,
+  MAX_ACTIVE_WATCHES_PER_OWNER,
+  type PriceWatch,
+  type PriceWatchRow,
+} from "../utils/priceWatch";
+import { getSessionOwner } from "../utils/sessionOwner";
+import { NotFoundError, ValidationError } from "../middleware/errorHandler";
+
+const priceWatches = new Hono<{ Bindings: Env; Variables: HonoVariables }>();
+
+priceWatches.use("/*", optionalAuth());
+
+// Latest notifications returned by GET /price-watches/notifications
+const NOTIFICATION_LIMIT = 50;
+
+const toWatchResponse = (watch: PriceWatch) => ({
+  id: watch.id,
+  kind: getPriceWatchKind(watch),
+  status: watch.status,
+  searchParams: { ...watch.search, currency: "TND" },
+  hotelId: watch.hotelId,
+  roomId: watch.roomId,
+  boardCode: watch.boardCode,
+  targetPrice: watch.targetPrice,
+  initialPrice: watch.initialPrice,
+  lastPrice: watch.lastPrice,
+  lastAvailable: watch.lastAvailable,
+  lastCheckedAt: watch.lastCheckedAt,
+  lastNotifiedAt: watch.lastNotifiedAt,
+  createdAt: watch.createdAt,
+});
+
+/**
+ * Offer a watch targets
+ * A signed offerRef fixes the hotel, room, board and the price the customer
+ * saw; otherwise hotelId/roomId/boardCode are taken as sent
+ * @throws ValidationError for tampered, expired or mismatched references
+ */
+const resolveWatchedOffer = async (
+  env: Env,
+  data: PriceWatchCreateInput,
+  logger: ReturnType<typeof createLogger>
+): Promise<{ hotelId: number | null; roomId: number | null; boardCode: string | null; price: number | null }> => {
+  const secret = getOfferSigningSecret(env);
+  if (data.offerRef && secret) {
+    const verification = await verifyOfferReference(data.offerRef, secret);
+    if (!verification.valid) {
+      logger.warn("Offer reference rejected", { reason: verification.reason, hotelId: data.hotelId });
+      throw new ValidationError(
+        verification.reason === "expired"
+          ? "Offer reference expired, please search again"
+          : "Invalid offer reference"
+      );
+    }
+
+    const { snapshot } = verification;
+    const matches = matchesOfferRequest(snapshot, {
+      hotelId: data.hotelId ?? snapshot.hotelId,
+      roomId: data.roomId ?? snapshot.roomId,
+      currency: data.searchParams.currency || "TND",
+      checkIn: data.searchParams.checkIn,
+      checkOut: data.searchParams.checkOut,
+      rooms: data.searchParams.rooms,
+    });
+    if (!matches) {
+      throw new ValidationError("Offer reference does not match the watched search");
+    }
+    return { hotelId: snapshot.hotelId, roomId: snapshot.roomId, boardCode: snapshot.boardCode, price: snapshot.price };
+  }
+
+  if (data.offerRef) {
+    logger.warn("Offer reference ignored: no signing secret configured");
+  }
+  return {
+    hotelId: data.hotelId ?? null,
+    roomId: data.roomId ?? null,
+    boardCode: data.roomId !== undefined ? data.boardCode ?? null : null,
+    price: null,
+  };
+};
+
+/**
+ * POST /price-watches
+ * Save a price watch on a search, a hotel (hotelId) or an offer
+ * (offerRef, or hotelId + roomId + optional boardCode)
+ *
+ * Response: 201 { watch }
+ * - At most MAX_ACTIVE_WATCHES_PER_OWNER active watches per user or guest session
+ * - Watching the same search/hotel/offer again updates the target price
+ */
+priceWatches.post("/", async (c) => {
+  const logger = createLogger(c.var);
+  const owner = getSessionOwner(c.var);
+
+  try {
+    const body = await c.req.json();
+    const validatedData = priceWatchCreateSchema.parse(body);
+    const { searchParams } = validatedData;
+
+    const today = new Date().toISOString().slice(0, 10);
+    if (searchParams.checkIn < today) {
+      throw new ValidationError("Cannot watch a stay that has already started");
+    }
+
+    const offer = await resolveWatchedOffer(c.env, validatedData, logger);
+    const rooms = normalizeWatchRooms(searchParams.rooms);
+    const supabase = createServiceClient(c.env);
+
+    // Same target again: update it instead of adding a duplicate watch
+    let existingQuery = supabase
+      .from("price_watches")
+      .select("*")
+      .eq(owner.column, owner.id)
+      .eq("status", "active")
+      .eq("city_id", searchParams.cityId)
+      .eq("check_in", searchParams.checkIn)
+      .eq("check_out", searchParams.checkOut)
+      .eq("rooms", JSON.stringify(rooms));
+    existingQuery = offer.hotelId === null ? existingQuery.is("hotel_id", null) : existingQuery.eq("hotel_id", offer.hotelId);
+    existingQuery = offer.roomId === null ? existingQuery.is("room_id", null) : existingQuery.eq("room_id", offer.roomId);
+    const { data: existing, error: existingError } = await existingQuery.limit(1).maybeSingle();
+
+    if (existingError) {
+      logger.error("Failed to look up price watches", { error: existingError.message });
+      throw new Error("Failed to save price watch");
+    }
+
+    if (existing) {
+      const { data, error } = await supabase
+        .from("price_watches")
+        .update({
+          target_price: validatedData.targetPrice ?? null,
+          email: validatedData.email ?? existing.email,
+          updated_at: new Date().toISOString(),
+        })
+        .eq("id", existing.id)
+        .select("*")
+        .single();
+
+      if (error) {
+        logger.error("Failed to update price watch", { watchId: existing.id, error: error.message });
+        throw new Error("Failed to save price watch");
+      }
+
+      logger.info("Price watch updated", { watchId: existing.id });
+      return c.json({ watch: toWatchResponse(toPriceWatch(data as PriceWatchRow)) });
+    }
+
+    const { count, error: countError } = await supabase
+      .from("price_watches")
+      .select("id", { count: "exact", head: true })
+      .eq(owner.column, owner.id)
+      .eq("status", "active");
+
+    if (countError) {
+      logger.error("Failed to count price watches", { error: countError.message });
+      throw new Error("Failed to save price watch");
+    }
+    if ((count ?? 0) >= MAX_ACTIVE_WATCHES_PER_OWNER) {
+      throw new ValidationError(
+        `You can keep at most ${MAX_ACTIVE_WATCHES_PER_OWNER} active price watches, remove one first`
+      );
+    }
+
+    const { data, error } = await supabase
+      .from("price_watches")
+      .insert({
+        [owner.column]: owner.id,
+        email: validatedData.email ?? null,
+        city_id: searchParams.cityId,
+        check_in: searchParams.checkIn,
+        check_out: searchParams.checkOut,
+        rooms,
+        hotel_id: offer.hotelId,
+        room_id: offer.roomId,
+        board_code: offer.boardCode,
+        target_price: validatedData.targetPrice ?? null,
+        initial_price: offer.price,
+        last_price: offer.price,
+      })
+      .select("*")
+      .single();
+
+    if (error) {
+      logger.error("Failed to create price watch", { error: error.message });
+      throw new Error("Failed to save price watch");
+    }
+
+    const watch = toPriceWatch(data as PriceWatchRow);
+    logger.info("Price watch created", { watchId: watch.id, kind: getPriceWatchKind(watch) });
+    return c.json({ watch: toWatchResponse(watch) }, 201);
+  } catch (error) {
+    if (error instanceof ZodError) {
+      throw new ValidationError("Invalid price watch data", error);
+    }
+    throw error;
+  }
+});
+
+/**
+ * GET /price-watches?status=active
+ * List the price watches of the user or guest session (newest first)
+ */
+priceWatches.get("/", async (c) => {
+  const logger = createLogger(c.var);
+  const owner = getSessionOwner(c.var);
+
+  try {
+    const { status } = priceWatchListSchema.parse({ status: c.req.query("status") || undefined });
+
+    let query = createServiceClient(c.env)
+      .from("price_watches")
+      .select("*")
+      .eq(owner.column, owner.id)
+      .order("created_at", { ascending: false });
+    if (status) {
+      query = query.eq("status", status);
+    }
+
+    const { data, error } = await query;
+    if (error) {
+      logger.error("Failed to fetch price watches", { error: error.message });
+      throw new Error("Failed to fetch price watches");
+    }
+
+    return c.json({ watches: ((data ?? []) as PriceWatchRow[]).map((row) => toWatchResponse(toPriceWatch(row))) });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      throw new ValidationError("Invalid query parameters", error);
+    }
+    throw error;
+  }
+});
+
+/**
+ * GET /price-watches/notifications
+ * Latest price drop / back in stock notifications of the user or guest session
+ */
+priceWatches.get("/notifications", async (c) => {
+  const logger = createLogger(c.var);
+  const owner = getSessionOwner(c.var);
+
+  const { data, error } = await createServiceClient(c.env)
+    .from("price_watch_notifications")
+    .select("id, watch_id, type, price, previous_price, created_at")
+    .eq(owner.column, owner.id)
+    .order("created_at", { ascending: false })
+    .limit(NOTIFICATION_LIMIT);
+
+  if (error) {
+    logger.error("Failed to fetch price watch notifications", { error: error.message });
+    throw new Error("Failed to fetch price watch notifications");
+  }
+
+  return c.json({
+    notifications: (data ?? []).map((row) => ({
+      id: row.id,
+      watchId: row.watch_id,
+      type: row.type,
+      price: Number(row.price),
+      previousPrice: row.previous_price === null ? null : Number(row.previous_price),
+      currency: "TND",
+      createdAt: row.created_at,
+    })),
+  });
+});
+
+/**
+ * DELETE /price-watches/:id
+ * Cancel a price watch
+ */
+priceWatches.delete("/:id", async (c) => {
+  const logger = createLogger(c.var);
+  const owner = getSessionOwner(c.var);
+  const watchId = c.req.param("id");
+
+  try {
+    uuidSchema.parse(watchId);
+
+    const { data, error } = await createServiceClient(c.env)
+      .from("price_watches")
+      .update({ status: "cancelled", updated_at: new Date().toISOString() })
+      .eq("id", watchId)
+      .eq(owner.column, owner.id)
+      .eq("status", "active")
+      .select("*")
+      .maybeSingle();
+
+    if (error) {
+      logger.error("Failed to cancel price watch", { watchId, error: error.message });
+      throw new Error("Failed to cancel price watch");
+    }
+    if (!data) {
+      throw new NotFoundError("Price watch not found");
+    }
+
+    logger.info("Price watch cancelled", { watchId });
+    return c.json({ watch: toWatchResponse(toPriceWatch(data as PriceWatchRow)) });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      throw new ValidationError("Invalid price watch ID", error);
+    }
+    throw error;
+  }
+});
+
+export default priceWatches;
@@ -1,6 +1,7 @@
 /**
  * Profile routes
- * Handles user profile updates including WhatsApp consent
+ * Handles user profile updates including WhatsApp consent, favorite hotels
+ * and browsing history
  */
 
 import { Hono } from "hono";
@@ -10,11 +11,15 @@ import { createServiceClient } from "../clients/supabaseClient";
 import { updateProfileSchema } from "../utils/validation";
 import { createLogger } from "../utils/logger";
 import { ValidationError, AuthenticationError } from "../middleware/errorHandler";
+import favorites from "./favorites";
+import history from "./history";
 
 const profile = new Hono<{ Bindings: Env; Variables: HonoVariables }>();
 
-// All profile routes require authentication
-profile.use("/*", requireAuth());
+// Profile routes require authentication; favorites and history also accept guest sessions
+profile.use("/", requireAuth());
+profile.route("/favorites", favorites);
+profile.route("/history", history);
 
 /**
  * PUT /profile
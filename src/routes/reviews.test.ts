@@ -0,0 +1,131 @@
+/**
+ * Tests for guest review submission (verified stays only)
+ */
+
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { Hono } from "hono";
+import type { Env, HonoVariables } from "../types/env";
+import { errorHandler } from "../middleware/errorHandler";
+import { extractGuestSession } from "../middleware/auth";
+import reviews from "./reviews";
+
+const mockEnv = {
+  SUPABASE_URL: "https://test.supabase.co",
+  SUPABASE_SERVICE_ROLE_KEY: "test-service-key",
+  SUPABASE_ANON_KEY: "test-anon-key",
+} as Env;
+
+const GUEST_SESSION_ID = "6f1c2d3e-4a5b-4c6d-8e7f-9a0b1c2d3e4f";
+const BOOKING_ID = "5b0c3f0e-7d1a-4e2b-9c3d-1a2b3c4d5e6f";
+
+const buildApp = () => {
+  const app = new Hono<{ Bindings: Env; Variables: HonoVariables }>();
+  app.onError(errorHandler());
+  app.use("*", extractGuestSession());
+  app.route("/reviews", reviews);
+  return app;
+};
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { "Content-Type": "application/json" } });
+
+const urlOf = (input: RequestInfo | URL) =>
+  typeof input === "string" ? input : input instanceof URL ? input.href : input.url;
+
+const booking = (overrides: Record<string, unknown> = {}) => ({
+  id: BOOKING_ID,
+  hotel_id: 101,
+  status: "completed",
+  check_in: "2026-07-01",
+  check_out: "2026-07-05",
+  customer_first_name: "Amira",
+  customer_last_name: "Ben Salah",
+  user_id: null,
+  guest_session_id: GUEST_SESSION_ID,
+  ...overrides,
+});
+
+const submitReview = () =>
+  buildApp().request(
+    "/reviews",
+    {
+      method: "POST",
+      headers: { "Content-Type": "application/json", "X-Guest-Session-ID": GUEST_SESSION_ID },
+      body: JSON.stringify({
+        bookingId: BOOKING_ID,
+        scores: { cleanliness: 9, location: 10, staff: 8, value: 7 },
+        comment: "Great stay by the beach, friendly staff.",
+      }),
+    },
+    mockEnv
+  );
+
+/**
+ * Mock Supabase with one booking; inserted reviews are echoed back as rows
+ */
+const mockSupabase = (bookingRow: Record<string, unknown>) => {
+  const inserts: unknown[] = [];
+  vi.spyOn(globalThis, "fetch").mockImplementation(async (input, init) => {
+    const url = urlOf(input);
+    if (url.includes("/rest/v1/bookings")) {
+      return jsonResponse(bookingRow);
+    }
+    if (url.includes("/rest/v1/hotel_reviews") && init?.method === "POST") {
+      const body = JSON.parse(String(init.body));
+      inserts.push(body);
+      return jsonResponse(
+        { id: 1, ...body, moderation_note: null, moderated_by: null, moderated_at: null, created_at: "2026-07-06T10:00:00Z" },
+        201
+      );
+    }
+    return jsonResponse([]);
+  });
+  return inserts;
+};
+
+describe("POST /reviews", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("should queue a pending review for a completed stay", async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    const inserts = mockSupabase(booking());
+
+    const res = await submitReview();
+
+    expect(res.status).toBe(201);
+    const data = (await res.json()) as Record<string, any>;
+    expect(data.review).toMatchObject({
+      hotelId: 101,
+      bookingId: BOOKING_ID,
+      authorName: "Amira B.",
+      overallScore: 8.5,
+      status: "pending",
+    });
+    expect(data.review).not.toHaveProperty("moderationNote");
+    expect(inserts[0]).toMatchObject({ guest_session_id: GUEST_SESSION_ID, user_id: null, status: "pending" });
+  });
+
+  it("should refuse stays that are not completed", async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    const inserts = mockSupabase(booking({ status: "confirmed" }));
+
+    const res = await submitReview();
+
+    expect(res.status).toBe(400);
+    expect(inserts).toHaveLength(0);
+  });
+
+  it("should hide bookings of another guest session", async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    const inserts = mockSupabase(booking({ guest_session_id: "0a1b2c3d-4e5f-4a6b-8c7d-9e0f1a2b3c4d" }));
+
+    const res = await submitReview();
+
+    expect(res.status).toBe(404);
+    expect(inserts).toHaveLength(0);
+  });
+});
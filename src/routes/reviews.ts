@@ -0,0 +1,131 @@
+/**
+ * Guest review routes
+ * Customers review a hotel once per completed booking; reviews are queued
+ * for admin moderation before they count in hotel scores
+ */
+
+import { Hono } from "hono";
+import { ZodError } from "zod";
+import type { Env, HonoVariables } from "../types/env";
+import { optionalAuth } from "../middleware/auth";
+import { createServiceClient } from "../clients/supabaseClient";
+import { reviewCreateSchema } from "../utils/validation";
+import { createLogger } from "../utils/logger";
+import { getSessionOwner } from "../utils/sessionOwner";
+import {
+  getReviewIneligibility,
+  toHotelReview,
+  toReviewColumns,
+  type HotelReviewRow,
+  type ReviewableBooking,
+} from "../utils/reviews";
+import { NotFoundError, ValidationError } from "../middleware/errorHandler";
+
+const reviews = new Hono<{ Bindings: Env; Variables: HonoVariables }>();
+
+reviews.use("/*", optionalAuth());
+
+// Postgres unique_violation (booking already reviewed)
+const UNIQUE_VIOLATION = "23505";
+
+// Review as shown to its author: moderation status without the admin note
+const toOwnReview = (row: HotelReviewRow) => ({
+  ...toHotelReview(row),
+  bookingId: row.booking_id,
+  status: row.status,
+  moderatedAt: row.moderated_at,
+});
+
+/**
+ * POST /reviews
+ * Review the hotel of a completed booking owned by the caller (account or
+ * guest session). The review is pending until an admin approves it
+ */
+reviews.post("/", async (c) => {
+  const logger = createLogger(c.var);
+  const owner = getSessionOwner(c.var);
+
+  try {
+    const body = await c.req.json();
+    const validatedData = reviewCreateSchema.parse(body);
+    const supabase = createServiceClient(c.env);
+
+    const { data: booking, error: bookingError } = await supabase
+      .from("bookings")
+      .select("id, hotel_id, status, check_in, check_out, customer_first_name, customer_last_name, user_id, guest_session_id")
+      .eq("id", validatedData.bookingId)
+      .maybeSingle();
+
+    if (bookingError) {
+      logger.error("Failed to fetch booking for review", { error: bookingError.message });
+      throw new Error("Failed to submit review");
+    }
+    // Same answer for unknown and foreign bookings
+    if (!booking || booking[owner.column] !== owner.id) {
+      logger.warn("Review for unknown or foreign booking", { bookingId: validatedData.bookingId });
+      throw new NotFoundError("Booking not found");
+    }
+
+    const ineligibility = getReviewIneligibility(booking as ReviewableBooking);
+    if (ineligibility) {
+      throw new ValidationError(ineligibility);
+    }
+
+    const { data, error } = await supabase
+      .from("hotel_reviews")
+      .insert(
+        toReviewColumns(
+          booking as ReviewableBooking,
+          {
+            user_id: owner.column === "user_id" ? owner.id : null,
+            guest_session_id: owner.column === "guest_session_id" ? owner.id : null,
+          },
+          validatedData
+        )
+      )
+      .select("*")
+      .single();
+
+    if (error?.code === UNIQUE_VIOLATION) {
+      throw new ValidationError("This booking has already been reviewed");
+    }
+    if (error) {
+      logger.error("Failed to submit review", { error: error.message });
+      throw new Error("Failed to submit review");
+    }
+
+    logger.info("Review submitted", { reviewId: data.id, bookingId: booking.id, hotelId: booking.hotel_id });
+    return c.json({ review: toOwnReview(data as HotelReviewRow) }, 201);
+  } catch (error) {
+    if (error instanceof ZodError) {
+      throw new ValidationError("Invalid review", error);
+    }
+    throw error;
+  }
+});
+
+/**
+ * GET /reviews
+ * Reviews written by the caller, newest first, with their moderation status
+ */
+reviews.get("/", async (c) => {
+  const logger = createLogger(c.var);
+  const owner = getSessionOwner(c.var);
+
+  const { data, error } = await createServiceClient(c.env)
+    .from("hotel_reviews")
+    .select("*")
+    .eq(owner.column, owner.id)
+    .order("created_at", { ascending: false });
+
+  if (error) {
+    logger.error("Failed to fetch reviews", { error: error.message });
+    throw new Error("Failed to fetch reviews");
+  }
+
+  return c.json({
+    reviews: ((data ?? []) as HotelReviewRow[]).map(toOwnReview),
+  });
+});
+
+export default reviews;
@@ -2,10 +2,13 @@
  * Tests for static routes
  */
 
-import { describe, it, expect } from "vitest";
+import { describe, it, expect, vi, afterEach } from "vitest";
 import { Hono } from "hono";
 import type { Env, HonoVariables } from "../types/env";
 import staticRoutes from "./static";
+import { errorHandler } from "../middleware/errorHandler";
+import { clearAutocompleteCache } from "../cache/autocompleteCache";
+import { clearResponseCache } from "../cache/responseCache";
 
 describe("GET /cities endpoint", () => {
   it("should return default cities when MYGO_LOGIN is missing", async () => {
@@ -36,7 +39,7 @@ describe("GET /cities endpoint", () => {
     const res = await app.fetch(req, mockEnv);
     expect(res.status).toBe(200);
 
-    const data = await res.json();
+    const data = (await res.json()) as Record<string, any>;
     expect(data).toHaveProperty("items");
     expect(data).toHaveProperty("source");
     expect(data).toHaveProperty("cached");
@@ -70,7 +73,7 @@ describe("GET /cities endpoint", () => {
     const res = await app.fetch(req, mockEnv);
     expect(res.status).toBe(200);
 
-    const data = await res.json();
+    const data = (await res.json()) as Record<string, any>;
     expect(data.source).toBe("default");
     expect(data.items.length).toBeGreaterThan(0);
   });
@@ -99,7 +102,7 @@ describe("GET /cities endpoint", () => {
     const res = await app.fetch(req, mockEnv);
     expect(res.status).toBe(200);
 
-    const data = await res.json();
+    const data = (await res.json()) as Record<string, any>;
     expect(data.source).toBe("default");
     expect(data.items.length).toBeGreaterThan(0);
   });
@@ -193,9 +196,103 @@ describe("POST /list-city endpoint", () => {
     const res = await app.fetch(req, mockEnv);
     expect(res.status).toBe(200);
 
-    const data = await res.json();
+    const data = (await res.json()) as Record<string, any>;
     expect(data).toHaveProperty("cities");
     expect(Array.isArray(data.cities)).toBe(true);
     expect(data.cities.length).toBeGreaterThan(0);
   });
 });
+
+describe("GET /autocomplete endpoint", () => {
+  const mockEnv = {
+    SUPABASE_URL: "https://test.supabase.co",
+    SUPABASE_SERVICE_ROLE_KEY: "test-key",
+  } as Env;
+
+  const buildApp = () => {
+    const app = new Hono<{ Bindings: Env; Variables: HonoVariables }>();
+    app.onError(errorHandler());
+    app.route("/static", staticRoutes);
+    return app;
+  };
+
+  const jsonResponse = (body: unknown) =>
+    new Response(JSON.stringify(body), { status: 200, headers: { "Content-Type": "application/json" } });
+
+  afterEach(() => {
+    clearAutocompleteCache();
+    vi.restoreAllMocks();
+  });
+
+  it("should rank inventory cities and hotels", async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(globalThis, "fetch").mockImplementation(async (input) => {
+      const url = typeof input === "string" ? input : input instanceof URL ? input.href : input.url;
+      if (url.includes("inventory_cities")) {
+        return jsonResponse([{ id: 10, name: "Sousse", region: "Sousse" }]);
+      }
+      return jsonResponse([{ id: 101, name: "Sousse Palace", city_id: 10 }]);
+    });
+
+    const res = await buildApp().request("/static/autocomplete?q=S%C5%ABsa", {}, mockEnv);
+
+    expect(res.status).toBe(200);
+    const data = (await res.json()) as Record<string, any>;
+    expect(data.source).toBe("inventory");
+    expect(data.items[0]).toMatchObject({ type: "city", id: 10, name: "Sousse" });
+    expect(data.items[1]).toMatchObject({ type: "hotel", id: 101, cityName: "Sousse" });
+  });
+
+  it("should fall back to default cities when the inventory is unavailable", async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    vi.spyOn(globalThis, "fetch").mockRejectedValue(new Error("network down"));
+
+    const res = await buildApp().request("/static/autocomplete?q=jerba", {}, mockEnv);
+
+    expect(res.status).toBe(200);
+    const data = (await res.json()) as Record<string, any>;
+    expect(data.source).toBe("default");
+    expect(data.items[0]).toMatchObject({ type: "city", name: "Djerba" });
+  });
+
+  it("should return 400 without a query", async () => {
+    const res = await buildApp().request("/static/autocomplete", {}, mockEnv);
+
+    expect(res.status).toBe(400);
+  });
+});
+
+describe("POST /list-country endpoint", () => {
+  const mockEnv = {
+    MYGO_LOGIN: "test-login",
+    MYGO_PASSWORD: "test-password",
+  } as Env;
+
+  afterEach(() => {
+    clearResponseCache();
+    vi.restoreAllMocks();
+  });
+
+  it("should serve the list from the response cache after the first call", async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    const fetchSpy = vi.spyOn(globalThis, "fetch").mockImplementation(
+      async () =>
+        new Response(JSON.stringify({ ListCountry: [{ Id: 1, Name: "Tunisie" }] }), {
+          status: 200,
+          headers: { "Content-Type": "application/json" },
+        })
+    );
+    const app = new Hono<{ Bindings: Env; Variables: HonoVariables }>();
+    app.onError(errorHandler());
+    app.route("/static", staticRoutes);
+
+    const first = await app.request("/static/list-country", { method: "POST" }, mockEnv);
+    const second = await app.request("/static/list-country", { method: "POST" }, mockEnv);
+
+    expect(fetchSpy).toHaveBeenCalledTimes(1);
+    expect(first.headers.get("X-Cache")).toBe("MISS");
+    expect(second.headers.get("X-Cache")).toBe("HIT");
+    expect(((await second.json()) as Record<string, any>).countries).toEqual([{ Id: 1, Name: "Tunisie" }]);
+  });
+});
@@ -4,6 +4,7 @@
  */
 
 import { Hono } from "hono";
+import { ZodError } from "zod";
 import type { Env, HonoVariables } from "../types/env";
 import {
   listCities,
@@ -16,15 +17,46 @@ import {
 } from "../clients/mygoClient";
 import type { MyGoCredential } from "../types/mygo";
 import { createLogger } from "../utils/logger";
-import { ExternalServiceError } from "../middleware/errorHandler";
-import { getCachedCities, setCachedCities } from "../cache/citiesCache";
+import { ExternalServiceError, ValidationError } from "../middleware/errorHandler";
+import { getCachedAutocompleteIndex, setCachedAutocompleteIndex } from "../cache/autocompleteCache";
+import {
+  cacheHeaders,
+  cachedLoad,
+  resolveCacheBackend,
+  waitUntilFrom,
+  type CachePolicy,
+  type CacheResult,
+} from "../cache/responseCache";
 import { DEFAULT_TUNISIAN_CITIES } from "../data/defaultCities";
+import { createServiceClient } from "../clients/supabaseClient";
+import { autocompleteQuerySchema } from "../utils/validation";
+import {
+  buildAutocompleteIndex,
+  searchAutocomplete,
+  type AutocompleteIndex,
+  type AutocompleteSourceData,
+} from "../utils/autocomplete";
 
 const static_routes = new Hono<{ Bindings: Env; Variables: HonoVariables }>();
 
 // Cache control header (1 hour)
 const CACHE_HEADER = "public, max-age=3600";
 
+// Autocomplete responses vary per keystroke, keep browser caching short
+const AUTOCOMPLETE_CACHE_HEADER = "public, max-age=300";
+
+const INVENTORY_PAGE_SIZE = 1000;
+
+// myGO static lists: fresh for 10 minutes, then served stale for 24 hours
+// while refreshing in the background (also covers myGO outages)
+const STATIC_CACHE_POLICY: CachePolicy = {
+  namespace: "static:v1",
+  freshMs: 10 * 60 * 1000,
+  staleMs: 24 * 60 * 60 * 1000,
+};
+
+type City = { id: number; name: string; region: string | null };
+
 /**
  * Custom error for missing MyGO credentials
  */
@@ -56,172 +88,249 @@ const getMyGoCredential = (env: Env): MyGoCredential => {
 /**
  * Helper to build ETag from cities list
  */
-const buildCitiesETag = (cities: Array<{ id: number; name: string; region: string | null }>): string => {
+const buildCitiesETag = (cities: City[]): string => {
   const firstId = cities.length > 0 ? cities[0].id : 0;
   const lastId = cities.length > 0 ? cities[cities.length - 1].id : 0;
   return `"cities-${cities.length}-${firstId}-${lastId}"`;
 };
 
+/**
+ * Load a myGO static list through the response cache
+ * Loader errors surface only when nothing (not even stale) is cached
+ */
+const cachedStaticList = <T>(
+  c: { env: Env; executionCtx: ExecutionContext },
+  key: string,
+  loader: (credential: MyGoCredential) => Promise<T>,
+  logger: ReturnType<typeof createLogger>
+): Promise<CacheResult<T>> =>
+  cachedLoad(
+    resolveCacheBackend(c.env),
+    STATIC_CACHE_POLICY,
+    key,
+    () => loader(getMyGoCredential(c.env)),
+    {
+      waitUntil: waitUntilFrom(c),
+      onRefreshError: (error) =>
+        logger.warn("Background static list refresh failed", {
+          key,
+          error: error instanceof Error ? error.message : String(error),
+        }),
+    }
+  );
+
+/**
+ * Cities from myGO, normalized so region is string | null
+ */
+const fetchCities = async (credential: MyGoCredential): Promise<City[]> => {
+  const cities = await listCities(credential);
+  return cities.map((city) => ({
+    id: city.id,
+    name: city.name,
+    region: city.region ?? null,
+  }));
+};
+
+/**
+ * Cities for GET /cities and POST /list-city
+ * Falls back to DEFAULT_TUNISIAN_CITIES when myGO fails and nothing is cached
+ */
+const loadCities = async (
+  c: { env: Env; executionCtx: ExecutionContext },
+  logger: ReturnType<typeof createLogger>
+): Promise<{ cities: City[]; source: "mygo" | "default"; fetchedAt: string; cache: CacheResult<City[]> | null }> => {
+  const startTime = Date.now();
+  try {
+    const result = await cachedStaticList(c, "cities", fetchCities, logger);
+    logger.info("Cities served", {
+      count: result.value.length,
+      source: "mygo",
+      cache: result.status,
+      durationMs: Date.now() - startTime,
+    });
+    return {
+      cities: result.value,
+      source: "mygo",
+      fetchedAt: new Date(result.storedAt).toISOString(),
+      cache: result,
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    logger.warn("Failed to fetch cities from myGO, serving default Tunisian cities", {
+      error: errorMessage,
+      errorType: error instanceof MissingCredentialsError ? "missing_credentials" : "api_error",
+      count: DEFAULT_TUNISIAN_CITIES.length,
+      source: "default",
+      durationMs: Date.now() - startTime,
+    });
+    return { cities: DEFAULT_TUNISIAN_CITIES, source: "default", fetchedAt: new Date().toISOString(), cache: null };
+  }
+};
+
 /**
  * GET /static/cities
  * Get list of cities from myGO — public, cached, GET-friendly endpoint
  * Response: { items: [...], source: "mygo"|"default", cached: boolean, fetchedAt: string }
  * 
  * Strategy:
- * 1. Check in-memory cache → if fresh, return immediately
- * 2. Try fetching from myGO API
- * 3. On failure, check for stale cache → if exists, return it
+ * 1. Response cache (see cache/responseCache) → fresh entry returned as is
+ * 2. Stale entry → returned immediately, refreshed from myGO in the background
+ * 3. No entry → fetched from myGO (identical concurrent requests share one call)
  * 4. Ultimate fallback → return DEFAULT_TUNISIAN_CITIES
+ * X-Cache: HIT | STALE | MISS
  */
 static_routes.get("/cities", async (c) => {
   const logger = createLogger(c.var);
-  const startTime = Date.now();
   logger.info("Fetching cities list (GET)");
 
-  // Step 1: Check fresh cache
-  const cachedData = getCachedCities();
-  if (cachedData && !cachedData.stale) {
-    const durationMs = Date.now() - startTime;
-    logger.info("Serving cities from fresh cache", {
-      count: cachedData.cities.length,
-      durationMs,
-    });
+  const { cities, source, fetchedAt, cache } = await loadCities(c, logger);
+  const etag = buildCitiesETag(cities);
 
-    const etag = buildCitiesETag(cachedData.cities);
+  const ifNoneMatch = c.req.header("If-None-Match");
+  if (ifNoneMatch === etag) {
+    return c.body(null, 304);
+  }
 
-    const ifNoneMatch = c.req.header("If-None-Match");
-    if (ifNoneMatch === etag) {
-      return c.body(null, 304);
+  return c.json(
+    {
+      items: cities,
+      source,
+      cached: cache !== null && cache.status !== "MISS",
+      fetchedAt,
+    },
+    200,
+    {
+      "Cache-Control": CACHE_HEADER,
+      "ETag": etag,
+      ...(cache ? cacheHeaders(cache) : { "X-Cache": "MISS" }),
     }
+  );
+});
 
-    return c.json(
-      {
-        items: cachedData.cities,
-        source: "mygo",
-        cached: true,
-        fetchedAt: cachedData.fetchedAt,
-      },
-      200,
-      {
-        "Cache-Control": CACHE_HEADER,
-        "ETag": etag,
-      }
-    );
+/**
+ * Load synced inventory cities and hotels for autocomplete
+ * Returns null when the inventory has no cities yet
+ */
+const loadAutocompleteInventory = async (env: Env): Promise<AutocompleteSourceData | null> => {
+  const supabase = createServiceClient(env);
+
+  const { data: cities, error: citiesError } = await supabase
+    .from("inventory_cities")
+    .select("id, name, region");
+
+  if (citiesError) {
+    throw new Error(`Failed to load inventory cities: ${citiesError.message}`);
+  }
+  if (!cities || cities.length === 0) {
+    return null;
   }
 
-  // Step 2: Try fetching from myGO
-  try {
-    const credential = getMyGoCredential(c.env);
-    const cities = await listCities(credential);
-    const durationMs = Date.now() - startTime;
+  const hotels: AutocompleteSourceData["hotels"] = [];
+  for (let from = 0; ; from += INVENTORY_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from("inventory_hotels")
+      .select("id, name, city_id")
+      .order("id")
+      .range(from, from + INVENTORY_PAGE_SIZE - 1);
 
-    logger.info("Cities fetched from myGO", { count: cities.length, durationMs, source: "mygo", cached: false });
+    if (error) {
+      throw new Error(`Failed to load inventory hotels: ${error.message}`);
+    }
 
-    // Normalize cities to ensure region is string | null
-    const normalizedCities = cities.map((city) => ({
+    const rows = (data ?? []) as Array<{ id: number; name: string; city_id: number | null }>;
+    hotels.push(...rows.map((row) => ({ id: row.id, name: row.name, cityId: row.city_id })));
+
+    if (rows.length < INVENTORY_PAGE_SIZE) {
+      break;
+    }
+  }
+
+  return {
+    cities: (cities as Array<{ id: number; name: string; region: string | null }>).map((city) => ({
       id: city.id,
       name: city.name,
       region: city.region ?? null,
-    }));
+    })),
+    hotels,
+  };
+};
 
-    // Update cache
-    setCachedCities(normalizedCities);
+let defaultAutocompleteIndex: AutocompleteIndex | null = null;
 
-    const etag = buildCitiesETag(normalizedCities);
+/**
+ * GET /static/autocomplete?q=sousse&limit=8&types=city,region,hotel
+ * Rank cities, regions and hotel names for a search box
+ * Response: { query, items: [...], source: "inventory"|"default" }
+ *
+ * - Accent/case-insensitive, typo tolerant, accepts French/Arabic
+ *   transliterations and Arabic script (see utils/autocomplete)
+ * - Index built from inventory_cities/inventory_hotels and cached in memory;
+ *   stale index served if the inventory cannot be read, then
+ *   DEFAULT_TUNISIAN_CITIES (cities only)
+ */
+static_routes.get("/autocomplete", async (c) => {
+  const logger = createLogger(c.var);
+  const startTime = Date.now();
 
-    const ifNoneMatch = c.req.header("If-None-Match");
-    if (ifNoneMatch === etag) {
-      return c.body(null, 304);
+  let params;
+  try {
+    params = autocompleteQuerySchema.parse({
+      q: c.req.query("q") ?? "",
+      limit: c.req.query("limit"),
+      types: c.req.query("types"),
+    });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      throw new ValidationError("Invalid autocomplete parameters", error);
     }
+    throw error;
+  }
 
-    return c.json(
-      {
-        items: normalizedCities,
-        source: "mygo",
-        cached: false,
-        fetchedAt: new Date().toISOString(),
-      },
-      200,
-      {
-        "Cache-Control": CACHE_HEADER,
-        "ETag": etag,
+  const cachedData = getCachedAutocompleteIndex();
+  let index = cachedData?.index;
+  let source = cachedData?.source ?? "default";
+
+  if (!cachedData || cachedData.stale) {
+    try {
+      const inventory = await loadAutocompleteInventory(c.env);
+      if (inventory) {
+        index = buildAutocompleteIndex(inventory);
+        source = "inventory";
+        setCachedAutocompleteIndex(index, source);
+        logger.info("Autocomplete index built from inventory", {
+          cities: index.counts.city,
+          regions: index.counts.region,
+          hotels: index.counts.hotel,
+          durationMs: Date.now() - startTime,
+        });
       }
-    );
-  } catch (error) {
-    const durationMs = Date.now() - startTime;
-    const errorMessage = error instanceof Error ? error.message : String(error);
-    const isMissingCredentials = error instanceof MissingCredentialsError;
-    
-    logger.warn("Failed to fetch cities from myGO", {
-      error: errorMessage,
-      errorType: isMissingCredentials ? "missing_credentials" : "api_error",
-      durationMs,
-      fallbackStrategy: cachedData?.stale ? "stale_cache" : "default_cities",
-    });
-
-    // Step 3: Fall back to stale cache if available
-    if (cachedData && cachedData.stale) {
-      const cacheAgeMs = Date.now() - new Date(cachedData.fetchedAt).getTime();
-      logger.warn("Serving stale cached cities as fallback", {
-        count: cachedData.cities.length,
-        cacheAgeMs,
-        cacheAgeMinutes: Math.round(cacheAgeMs / 60000),
-        source: "mygo",
-        cached: true,
-        reason: errorMessage,
+    } catch (error) {
+      logger.warn("Failed to load inventory for autocomplete", {
+        error: error instanceof Error ? error.message : String(error),
+        fallbackStrategy: cachedData ? "stale_cache" : "default_cities",
       });
-
-      const etag = buildCitiesETag(cachedData.cities);
-
-      const ifNoneMatch = c.req.header("If-None-Match");
-      if (ifNoneMatch === etag) {
-        return c.body(null, 304);
-      }
-
-      return c.json(
-        {
-          items: cachedData.cities,
-          source: "mygo",
-          cached: true,
-          fetchedAt: cachedData.fetchedAt,
-        },
-        200,
-        {
-          "Cache-Control": CACHE_HEADER,
-          "ETag": etag,
-        }
-      );
     }
+  }
 
-    // Step 4: Ultimate fallback - return default cities
-    logger.warn("No cache available, serving default Tunisian cities", {
-      count: DEFAULT_TUNISIAN_CITIES.length,
-      source: "default",
-      cached: false,
-      reason: errorMessage,
+  if (!index) {
+    defaultAutocompleteIndex ??= buildAutocompleteIndex({
+      cities: DEFAULT_TUNISIAN_CITIES,
+      hotels: [],
     });
+    index = defaultAutocompleteIndex;
+    source = "default";
+  }
 
-    const etag = buildCitiesETag(DEFAULT_TUNISIAN_CITIES);
-
-    const ifNoneMatch = c.req.header("If-None-Match");
-    if (ifNoneMatch === etag) {
-      return c.body(null, 304);
-    }
+  const items = searchAutocomplete(index, params.q, {
+    limit: params.limit,
+    types: params.types,
+  });
 
-    return c.json(
-      {
-        items: DEFAULT_TUNISIAN_CITIES,
-        source: "default",
-        cached: false,
-        fetchedAt: new Date().toISOString(),
-      },
-      200,
-      {
-        "Cache-Control": CACHE_HEADER,
-        "ETag": etag,
-      }
-    );
-  }
+  return c.json(
+    { query: params.q, items, source },
+    200,
+    { "Cache-Control": AUTOCOMPLETE_CACHE_HEADER }
+  );
 });
 
 /**
@@ -229,101 +338,19 @@ static_routes.get("/cities", async (c) => {
  * Get list of cities from myGO with caching
  * Response: { cities: [...] }
  * 
- * Strategy (same as GET):
- * 1. Check in-memory cache → if fresh, return immediately
- * 2. Try fetching from myGO API
- * 3. On failure, check for stale cache → if exists, return it
- * 4. Ultimate fallback → return DEFAULT_TUNISIAN_CITIES
+ * Same strategy as GET /static/cities
  */
 static_routes.post("/list-city", async (c) => {
   const logger = createLogger(c.var);
-  const startTime = Date.now();
   logger.info("Fetching cities list (POST)");
 
-  // Step 1: Check fresh cache
-  const cachedData = getCachedCities();
-  if (cachedData && !cachedData.stale) {
-    const durationMs = Date.now() - startTime;
-    logger.info("Serving cities from fresh cache (POST)", {
-      count: cachedData.cities.length,
-      durationMs,
-    });
-
-    return c.json(
-      { cities: cachedData.cities },
-      200,
-      { "Cache-Control": CACHE_HEADER }
-    );
-  }
-
-  // Step 2: Try fetching from myGO
-  try {
-    const credential = getMyGoCredential(c.env);
-    const cities = await listCities(credential);
-    const durationMs = Date.now() - startTime;
-
-    logger.info("Cities list fetched successfully from myGO (POST)", { count: cities.length, durationMs, source: "mygo", cached: false });
-
-    // Normalize cities to ensure region is string | null
-    const normalizedCities = cities.map((city) => ({
-      id: city.id,
-      name: city.name,
-      region: city.region ?? null,
-    }));
+  const { cities, cache } = await loadCities(c, logger);
 
-    // Update cache
-    setCachedCities(normalizedCities);
-
-    return c.json(
-      { cities: normalizedCities },
-      200,
-      { "Cache-Control": CACHE_HEADER }
-    );
-  } catch (error) {
-    const durationMs = Date.now() - startTime;
-    const errorMessage = error instanceof Error ? error.message : String(error);
-    const isMissingCredentials = error instanceof MissingCredentialsError;
-    
-    logger.warn("Failed to fetch cities from myGO (POST)", {
-      error: errorMessage,
-      errorType: isMissingCredentials ? "missing_credentials" : "api_error",
-      durationMs,
-      fallbackStrategy: cachedData?.stale ? "stale_cache" : "default_cities",
-    });
-
-    // Step 3: Fall back to stale cache if available
-    if (cachedData && cachedData.stale) {
-      const cacheAgeMs = Date.now() - new Date(cachedData.fetchedAt).getTime();
-      logger.warn("Serving stale cached cities as fallback (POST)", {
-        count: cachedData.cities.length,
-        cacheAgeMs,
-        cacheAgeMinutes: Math.round(cacheAgeMs / 60000),
-        source: "mygo",
-        cached: true,
-        reason: errorMessage,
-      });
-
-      return c.json(
-        { cities: cachedData.cities },
-        200,
-        { "Cache-Control": CACHE_HEADER }
-      );
-    }
-
-    // Step 4: Ultimate fallback - return default cities
-    logger.warn("No cache available, serving default Tunisian cities (POST)", {
-      count: DEFAULT_TUNISIAN_CITIES.length,
-      source: "default",
-      cached: false,
-      reason: errorMessage,
-    });
-
-    return c.json(
-      { cities: DEFAULT_TUNISIAN_CITIES },
-      200,
-      { "Cache-Control": CACHE_HEADER }
-    );
-  }
+  return c.json(
+    { cities },
+    200,
+    { "Cache-Control": CACHE_HEADER, ...(cache ? cacheHeaders(cache) : { "X-Cache": "MISS" }) }
+  );
 });
 
 /**
@@ -335,15 +362,14 @@ static_routes.post("/list-country", async (c) => {
   logger.info("Fetching countries list");
 
   try {
-    const credential = getMyGoCredential(c.env);
-    const countries = await listCountries(credential);
+    const result = await cachedStaticList(c, "countries", listCountries, logger);
 
-    logger.info("Countries list fetched successfully", { count: countries.length });
+    logger.info("Countries list served", { count: result.value.length, cache: result.status });
 
     return c.json(
-      { countries },
+      { countries: result.value },
       200,
-      { "Cache-Control": CACHE_HEADER }
+      { "Cache-Control": CACHE_HEADER, ...cacheHeaders(result) }
     );
   } catch (error) {
     logger.error("Failed to fetch countries", { error: error instanceof Error ? error.message : String(error) });
@@ -360,15 +386,14 @@ static_routes.post("/list-category", async (c) => {
   logger.info("Fetching categories list");
 
   try {
-    const credential = getMyGoCredential(c.env);
-    const categories = await listCategories(credential);
+    const result = await cachedStaticList(c, "categories", listCategories, logger);
 
-    logger.info("Categories list fetched successfully", { count: categories.length });
+    logger.info("Categories list served", { count: result.value.length, cache: result.status });
 
     return c.json(
-      { categories },
+      { categories: result.value },
       200,
-      { "Cache-Control": CACHE_HEADER }
+      { "Cache-Control": CACHE_HEADER, ...cacheHeaders(result) }
     );
   } catch (error) {
     logger.error("Failed to fetch categories", { error: error instanceof Error ? error.message : String(error) });
@@ -385,15 +410,14 @@ static_routes.post("/list-boarding", async (c) => {
   logger.info("Fetching boardings list");
 
   try {
-    const credential = getMyGoCredential(c.env);
-    const boardings = await listBoardings(credential);
+    const result = await cachedStaticList(c, "boardings", listBoardings, logger);
 
-    logger.info("Boardings list fetched successfully", { count: boardings.length });
+    logger.info("Boardings list served", { count: result.value.length, cache: result.status });
 
     return c.json(
-      { boardings },
+      { boardings: result.value },
       200,
-      { "Cache-Control": CACHE_HEADER }
+      { "Cache-Control": CACHE_HEADER, ...cacheHeaders(result) }
     );
   } catch (error) {
     logger.error("Failed to fetch boardings", { error: error instanceof Error ? error.message : String(error) });
@@ -410,15 +434,14 @@ static_routes.post("/list-tag", async (c) => {
   logger.info("Fetching tags list");
 
   try {
-    const credential = getMyGoCredential(c.env);
-    const tags = await listTags(credential);
+    const result = await cachedStaticList(c, "tags", listTags, logger);
 
-    logger.info("Tags list fetched successfully", { count: tags.length });
+    logger.info("Tags list served", { count: result.value.length, cache: result.status });
 
     return c.json(
-      { tags },
+      { tags: result.value },
       200,
-      { "Cache-Control": CACHE_HEADER }
+      { "Cache-Control": CACHE_HEADER, ...cacheHeaders(result) }
     );
   } catch (error) {
     logger.error("Failed to fetch tags", { error: error instanceof Error ? error.message : String(error) });
@@ -435,15 +458,14 @@ static_routes.post("/list-language", async (c) => {
   logger.info("Fetching languages list");
 
   try {
-    const credential = getMyGoCredential(c.env);
-    const languages = await listLanguages(credential);
+    const result = await cachedStaticList(c, "languages", listLanguages, logger);
 
-    logger.info("Languages list fetched successfully", { count: languages.length });
+    logger.info("Languages list served", { count: result.value.length, cache: result.status });
 
     return c.json(
-      { languages },
+      { languages: result.value },
       200,
-      { "Cache-Control": CACHE_HEADER }
+      { "Cache-Control": CACHE_HEADER, ...cacheHeaders(result) }
     );
   } catch (error) {
     logger.error("Failed to fetch languages", { error: error instanceof Error ? error.message : String(error) });
@@ -460,15 +482,14 @@ static_routes.post("/list-currency", async (c) => {
   logger.info("Fetching currencies list");
 
   try {
-    const credential = getMyGoCredential(c.env);
-    const currencies = await listCurrencies(credential);
+    const result = await cachedStaticList(c, "currencies", listCurrencies, logger);
 
-    logger.info("Currencies list fetched successfully", { count: currencies.length });
+    logger.info("Currencies list served", { count: result.value.length, cache: result.status });
 
     return c.json(
-      { currencies },
+      { currencies: result.value },
       200,
-      { "Cache-Control": CACHE_HEADER }
+      { "Cache-Control": CACHE_HEADER, ...cacheHeaders(result) }
     );
   } catch (error) {
     logger.error("Failed to fetch currencies", { error: error instanceof Error ? error.message : String(error) });
@@ -4,7 +4,7 @@
  */
 
 export type BookingMode = "AVEC_COMPTE" | "SANS_COMPTE";
-export type PaymentStatus = "pending" | "authorized" | "captured" | "failed" | "reversed";
+export type PaymentStatus = "pending" | "authorized" | "captured" | "failed" | "reversed" | "refunded";
 export type BookingStatus = "pending" | "confirmed" | "cancelled" | "completed";
 
 export interface InternalBooking {
@@ -81,6 +81,21 @@ export interface ClicToPayReverseResponse {
   [key: string]: unknown;
 }
 
+// Refund (return captured funds) request
+export interface ClicToPayRefundRequest {
+  orderId: string;
+  amount: number; // Amount in minor units (can be less than the deposited amount)
+}
+
+// Refund response
+export interface ClicToPayRefundResponse {
+  success: boolean;
+  orderId: string;
+  refundedAmount: number;
+  refundedDate: string;
+  [key: string]: unknown;
+}
+
 // Callback payload (from ClicToPay after payment)
 export interface ClicToPayCallbackPayload {
   orderId: string;
@@ -14,6 +14,15 @@ export interface Env {
   // JWT secret (renamed from SUPABASE_JWT_SECRET - Cloudflare does not allow SUPABASE_ prefix for secrets)
   JWT_SECRET: string;
 
+  // Offer reference signing (optional: falls back to JWT_SECRET)
+  OFFER_SIGNING_SECRET?: string;
+
+  // Guest booking access tokens and magic links (optional: falls back to JWT_SECRET)
+  BOOKING_ACCESS_SECRET?: string;
+  // Manage-booking page of the frontend the magic link points to (no link is
+  // emailed when unset)
+  BOOKING_MANAGE_URL?: string;
+
   // ClicToPay credentials
   CLICTOPAY_USERNAME: string;
   CLICTOPAY_PASSWORD: string;
@@ -29,6 +38,24 @@ export interface Env {
   // Optional upstream URL
   HOTEL_UPSTREAM_BASE_URL?: string;
 
+  // Response cache backend: memory (default), cache-api, kv or supabase
+  CACHE_BACKEND?: "memory" | "cache-api" | "kv" | "supabase";
+  RESPONSE_CACHE_KV?: KVNamespace; // required by CACHE_BACKEND=kv
+
+  // Transactional email (price watch alerts, booking magic links): HTTP email
+  // API key and sender address; nothing is emailed when unset
+  EMAIL_API_KEY?: string;
+  EMAIL_FROM?: string; // e.g. "Hotel.com.tn <noreply@hotel.com.tn>"
+  EMAIL_API_URL?: string; // Optional: defaults to https://api.resend.com/emails
+
+  // Price watch job: myGO searches per cron run (default 20)
+  PRICE_WATCH_MAX_SEARCHES_PER_RUN?: string;
+
+  // Deals job: sampled cities (comma-separated myGO city IDs, default: the
+  // cities with the most inventory hotels) and myGO searches per run (default 24)
+  DEALS_CITY_IDS?: string;
+  DEALS_MAX_SEARCHES_PER_RUN?: string;
+
   // Build metadata (injected at build time)
   GITHUB_SHA?: string;
   BUILT_AT?: string;
@@ -43,4 +70,6 @@ export interface HonoVariables {
   userId?: string;
   isAdmin?: boolean;
   guestSessionId?: string;
+  // Booking unlocked by an X-Booking-Access-Token (guest booking lookup)
+  bookingAccessId?: string;
 }
@@ -61,6 +61,11 @@ export interface MyGoRoomResult {
   childrenAges?: number[];
   token?: string;
   cancellationPolicy?: unknown[];
+  freeCancellationUntil?: string | null; // computed from cancellationPolicy
+  boardType?: string | null; // canonical board (RO, BB, HB, FB, AI, UAI)
+  boardLabel?: string; // localized label of boardType
+  roomTags?: string[]; // normalized room-type tags from roomName
+  displayPrice?: { amount: number; currency: string }; // price converted to the display currency
   [key: string]: unknown;
 }
 
@@ -124,6 +129,7 @@ export interface MyGoBookingCancellationResponse {
   success: boolean;
   cancellationFee?: number;
   refundAmount?: number;
+  state?: string;
   [key: string]: unknown;
 }
 
@@ -137,17 +143,19 @@ export interface MyGoBookingListParams {
   countPerPage?: number;
 }
 
+export interface MyGoBookingListItem {
+  bookingId: number;
+  state: string;
+  hotelName?: string;
+  checkIn?: string;
+  checkOut?: string;
+  totalPrice?: number;
+  currency?: string;
+  [key: string]: unknown;
+}
+
 export interface MyGoBookingListResponse {
-  bookings: Array<{
-    bookingId: number;
-    state: string;
-    hotelName: string;
-    checkIn: string;
-    checkOut: string;
-    totalPrice: number;
-    currency: string;
-    [key: string]: unknown;
-  }>;
+  bookings: MyGoBookingListItem[];
   totalCount: number;
   page: number;
   countPerPage: number;
@@ -192,6 +200,14 @@ export interface MyGoHotelDetailParams {
   currency?: string;
 }
 
+// Per-room occupancy limits published by myGO (hotel detail or search rooms)
+export interface MyGoOccupancyLimits {
+  maxAdults?: number;
+  maxChildren?: number;
+  maxOccupancy?: number;
+  childAgeMax?: number; // oldest age still counted as a child
+}
+
 export interface MyGoHotelDetailResponse {
   id: number;
   name: string;
@@ -206,6 +222,7 @@ export interface MyGoHotelDetailResponse {
   themes?: string[];
   longitude?: string;
   latitude?: string;
+  occupancy?: MyGoOccupancyLimits;
   [key: string]: unknown;
 }
 
@@ -215,6 +232,7 @@ export interface MyGoHotelCancellationPolicyParams {
   checkIn: string;
   checkOut: string;
   currency?: string;
+  rooms?: MyGoRoom[];
 }
 
 export interface MyGoHotelCancellationPolicyResponse {
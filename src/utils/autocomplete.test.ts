@@ -0,0 +1,118 @@
+/**
+ * Tests for autocomplete normalization, matching and ranking
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  buildAutocompleteIndex,
+  foldText,
+  normalizeText,
+  prefixEditDistance,
+  searchAutocomplete,
+} from "./autocomplete";
+
+const index = buildAutocompleteIndex({
+  cities: [
+    { id: 1, name: "Tunis", region: "Tunis" },
+    { id: 2, name: "Sousse", region: "Sousse" },
+    { id: 3, name: "Hammamet", region: "Nabeul" },
+    { id: 4, name: "Djerba", region: "Médenine" },
+    { id: 9, name: "Nabeul", region: "Nabeul" },
+    { id: 14, name: "Port El Kantaoui", region: "Sousse" },
+    { id: 15, name: "Zarzis", region: "Médenine" },
+  ],
+  hotels: [
+    { id: 101, name: "Hôtel Sousse Palace", cityId: 2 },
+    { id: 102, name: "Radisson Blu Palace Djerba", cityId: 4 },
+    { id: 103, name: "El Mouradi Hammamet", cityId: 3 },
+  ],
+});
+
+const firstName = (query: string) => searchAutocomplete(index, query)[0]?.name;
+
+describe("normalizeText", () => {
+  it("should strip diacritics, case and punctuation", () => {
+    expect(normalizeText("  Hôtel Sūsa-Palace! ")).toBe("hotel susa palace");
+  });
+
+  it("should normalize Arabic letter variants", () => {
+    expect(normalizeText("أريانة")).toBe(normalizeText("اريانه"));
+  });
+});
+
+describe("foldText", () => {
+  it("should fold French and Arabic-derived transliterations together", () => {
+    expect(foldText("sousse")).toBe(foldText("susa"));
+    expect(foldText("djerba")).toBe(foldText("jerba"));
+    expect(foldText("el kantaoui")).toBe(foldText("kantaoui"));
+  });
+});
+
+describe("prefixEditDistance", () => {
+  it("should measure distance to the closest prefix", () => {
+    expect(prefixEditDistance("sou", "sousse")).toBe(0);
+    expect(prefixEditDistance("suos", "sousse")).toBe(1);
+    expect(prefixEditDistance("xyz", "sousse")).toBe(3);
+  });
+});
+
+describe("searchAutocomplete", () => {
+  it("should match ignoring accents and case", () => {
+    expect(firstName("SOUSSE")).toBe("Sousse");
+    expect(firstName("medenine")).toBe("Médenine");
+  });
+
+  it("should accept transliterations", () => {
+    expect(firstName("Sūsa")).toBe("Sousse");
+    expect(firstName("Jerba")).toBe("Djerba");
+    expect(firstName("jarjis")).toBe("Zarzis");
+  });
+
+  it("should accept Arabic script", () => {
+    expect(firstName("سوسة")).toBe("Sousse");
+    expect(firstName("جربة")).toBe("Djerba");
+  });
+
+  it("should tolerate typos", () => {
+    expect(firstName("hamamet")).toBe("Hammamet");
+    expect(firstName("susee")).toBe("Sousse");
+    expect(firstName("djreba")).toBe("Djerba");
+  });
+
+  it("should match prefixes on every keystroke", () => {
+    expect(firstName("s")).toBe("Sousse");
+    expect(firstName("kanta")).toBe("Port El Kantaoui");
+  });
+
+  it("should rank cities above hotels with the same match", () => {
+    const results = searchAutocomplete(index, "sousse");
+
+    expect(results[0]).toMatchObject({ type: "city", id: 2 });
+    expect(results.some((item) => item.type === "hotel" && item.id === 101)).toBe(true);
+  });
+
+  it("should return regions that are not also city names", () => {
+    const results = searchAutocomplete(index, "medenine");
+
+    expect(results[0]).toMatchObject({ type: "region", id: null, cityIds: [4, 15] });
+    expect(searchAutocomplete(index, "nabeul", { types: ["region"] })).toHaveLength(0);
+  });
+
+  it("should include the hotel city name", () => {
+    const results = searchAutocomplete(index, "radisson");
+
+    expect(results[0]).toMatchObject({ type: "hotel", id: 102, cityId: 4, cityName: "Djerba" });
+  });
+
+  it("should filter by type and apply the limit", () => {
+    const results = searchAutocomplete(index, "palace", { types: ["hotel"], limit: 1 });
+
+    expect(results).toHaveLength(1);
+    expect(results[0].type).toBe("hotel");
+  });
+
+  it("should return nothing for unrelated or empty queries", () => {
+    expect(searchAutocomplete(index, "zzzzqqq")).toEqual([]);
+    expect(searchAutocomplete(index, "  ")).toEqual([]);
+  });
+});
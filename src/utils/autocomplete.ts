@@ -0,0 +1,294 @@
+/**
+ * Autocomplete over cities, regions and hotel names
+ *
+ * Matching ignores diacritics and case, folds common French/Arabic
+ * transliteration variants (dj/j, ou/u, q/k, final e/a/h...), accepts Arabic
+ * script and tolerates small typos. The index is built once per data load so
+ * each keystroke only scans precomputed keys.
+ */
+
+import { PLACE_ALIASES } from "../data/placeAliases";
+
+export type AutocompleteType = "city" | "region" | "hotel";
+
+export interface AutocompleteSourceData {
+  cities: Array<{ id: number; name: string; region: string | null }>;
+  hotels: Array<{ id: number; name: string; cityId: number | null }>;
+}
+
+interface IndexedTerm {
+  text: string;
+  folded: string;
+  words: string[];
+  foldedWords: string[];
+  isAlias: boolean;
+}
+
+export interface AutocompleteEntry {
+  type: AutocompleteType;
+  id: number | null;
+  name: string;
+  region: string | null;
+  cityId: number | null;
+  cityName: string | null;
+  cityIds?: number[];
+  terms: IndexedTerm[];
+}
+
+export interface AutocompleteIndex {
+  entries: AutocompleteEntry[];
+  counts: Record<AutocompleteType, number>;
+}
+
+export interface AutocompleteSuggestion {
+  type: AutocompleteType;
+  id: number | null;
+  name: string;
+  region: string | null;
+  cityId: number | null;
+  cityName: string | null;
+  cityIds?: number[];
+  score: number;
+}
+
+export interface AutocompleteOptions {
+  limit?: number;
+  types?: AutocompleteType[];
+}
+
+export const DEFAULT_AUTOCOMPLETE_LIMIT = 8;
+
+// Places rank above hotels with the same match quality
+const TYPE_BOOST: Record<AutocompleteType, number> = { city: 5, region: 3, hotel: 0 };
+
+// Leading articles that do not carry meaning ("El Kantaoui", "La Marsa")
+const ARTICLES = new Set(["el", "al", "le", "la", "les"]);
+
+/**
+ * Lowercase, strip diacritics and punctuation, normalize Arabic letter variants
+ */
+export const normalizeText = (value: string): string =>
+  value
+    .normalize("NFKD")
+    .replace(/\p{M}/gu, "")
+    .toLowerCase()
+    .replace(/ـ/g, "") // tatweel
+    .replace(/[أإآٱ]/g, "ا")
+    .replace(/ة/g, "ه")
+    .replace(/ى/g, "ي")
+    .replace(/['’`ʿʾ]/g, "")
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .trim();
+
+const foldWord = (word: string): string => {
+  let folded = word;
+  if (folded.startsWith("ال") && folded.length > 3) {
+    folded = folded.slice(2);
+  }
+  folded = folded
+    .replace(/dj/g, "j")
+    .replace(/ou/g, "u")
+    .replace(/ch/g, "sh")
+    .replace(/kh/g, "k")
+    .replace(/gh/g, "g")
+    .replace(/ph/g, "f")
+    .replace(/q/g, "k")
+    .replace(/y/g, "i")
+    .replace(/(.)\1+/g, "$1");
+  if (folded.length > 3) {
+    folded = folded.replace(/[aehه]$/, "");
+  }
+  return folded;
+};
+
+/**
+ * Fold transliteration variants of normalized text
+ * "Sousse", "Sūsa" → "sus"; "Djerba", "Jerba" → "jerb"
+ */
+export const foldText = (normalized: string): string => {
+  const words = normalized.split(" ").filter(Boolean);
+  const meaningful = words.length > 1 ? words.filter((word) => !ARTICLES.has(word)) : words;
+  return (meaningful.length > 0 ? meaningful : words).map(foldWord).join(" ");
+};
+
+/**
+ * Edit distance between `query` and the closest prefix of `target`
+ * (optimal string alignment: insertions, deletions, substitutions, transpositions)
+ */
+export const prefixEditDistance = (query: string, target: string): number => {
+  const m = query.length;
+  const n = Math.min(target.length, m + 2);
+  if (m === 0) return 0;
+
+  const rows: number[][] = [];
+  for (let i = 0; i <= m; i++) {
+    rows.push(new Array(n + 1).fill(0));
+    rows[i][0] = i;
+  }
+  for (let j = 0; j <= n; j++) {
+    rows[0][j] = j;
+  }
+
+  for (let i = 1; i <= m; i++) {
+    for (let j = 1; j <= n; j++) {
+      const cost = query[i - 1] === target[j - 1] ? 0 : 1;
+      rows[i][j] = Math.min(rows[i - 1][j] + 1, rows[i][j - 1] + 1, rows[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && query[i - 1] === target[j - 2] && query[i - 2] === target[j - 1]) {
+        rows[i][j] = Math.min(rows[i][j], rows[i - 2][j - 2] + 1);
+      }
+    }
+  }
+
+  return Math.min(...rows[m]);
+};
+
+const indexTerm = (value: string, isAlias: boolean): IndexedTerm | null => {
+  const text = normalizeText(value);
+  if (!text) {
+    return null;
+  }
+  const folded = foldText(text);
+  return {
+    text,
+    folded,
+    words: text.split(" "),
+    foldedWords: folded.split(" "),
+    isAlias,
+  };
+};
+
+const indexTerms = (name: string): IndexedTerm[] => {
+  const aliases = PLACE_ALIASES[normalizeText(name)] ?? [];
+  return [indexTerm(name, false), ...aliases.map((alias) => indexTerm(alias, true))].filter(
+    (term): term is IndexedTerm => term !== null
+  );
+};
+
+/**
+ * Build the autocomplete index from cities and hotels
+ * Regions come from city regions; a region named like a city is not repeated
+ */
+export const buildAutocompleteIndex = (data: AutocompleteSourceData): AutocompleteIndex => {
+  const cityNames = new Map(data.cities.map((city) => [city.id, city.name]));
+  const normalizedCityNames = new Set(data.cities.map((city) => normalizeText(city.name)));
+
+  const cityEntries: AutocompleteEntry[] = data.cities.map((city) => ({
+    type: "city",
+    id: city.id,
+    name: city.name,
+    region: city.region,
+    cityId: city.id,
+    cityName: city.name,
+    terms: indexTerms(city.name),
+  }));
+
+  const regions = new Map<string, AutocompleteEntry>();
+  for (const city of data.cities) {
+    if (!city.region) continue;
+    const key = normalizeText(city.region);
+    if (!key || normalizedCityNames.has(key)) continue;
+    const existing = regions.get(key);
+    if (existing) {
+      existing.cityIds!.push(city.id);
+    } else {
+      regions.set(key, {
+        type: "region",
+        id: null,
+        name: city.region,
+        region: city.region,
+        cityId: null,
+        cityName: null,
+        cityIds: [city.id],
+        terms: indexTerms(city.region),
+      });
+    }
+  }
+
+  const hotelEntries: AutocompleteEntry[] = data.hotels.map((hotel) => {
+    const cityName = hotel.cityId !== null ? cityNames.get(hotel.cityId) ?? null : null;
+    const term = indexTerm(hotel.name, false);
+    return {
+      type: "hotel",
+      id: hotel.id,
+      name: hotel.name,
+      region: null,
+      cityId: hotel.cityId,
+      cityName,
+      terms: term ? [term] : [],
+    };
+  });
+
+  return {
+    entries: [...cityEntries, ...regions.values(), ...hotelEntries],
+    counts: { city: cityEntries.length, region: regions.size, hotel: hotelEntries.length },
+  };
+};
+
+/**
+ * Match quality of one term (0 = no match)
+ */
+const scoreTerm = (term: IndexedTerm, query: string, foldedQuery: string): number => {
+  let score = 0;
+
+  if (term.text === query || term.folded === foldedQuery) {
+    score = 100;
+  } else if (term.text.startsWith(query) || term.folded.startsWith(foldedQuery)) {
+    score = 90;
+  } else if (
+    term.words.some((word) => word.startsWith(query)) ||
+    term.foldedWords.some((word) => word.startsWith(foldedQuery))
+  ) {
+    score = 80;
+  } else if (query.length >= 3 && term.text.includes(query)) {
+    score = 60;
+  } else if (foldedQuery.length >= 3) {
+    // Typo tolerance: 1 edit for short queries, 2 for longer ones
+    const allowed = foldedQuery.length <= 4 ? 1 : 2;
+    const distance = Math.min(
+      prefixEditDistance(foldedQuery, term.folded),
+      ...term.foldedWords.map((word) => prefixEditDistance(foldedQuery, word))
+    );
+    if (distance <= allowed) {
+      score = 50 - distance * 10;
+    }
+  }
+
+  return score > 0 && term.isAlias ? score - 2 : score;
+};
+
+/**
+ * Rank index entries for a query
+ */
+export const searchAutocomplete = (
+  index: AutocompleteIndex,
+  rawQuery: string,
+  options: AutocompleteOptions = {},
+): AutocompleteSuggestion[] => {
+  const query = normalizeText(rawQuery);
+  if (!query) {
+    return [];
+  }
+  const foldedQuery = foldText(query) || query;
+  const limit = options.limit ?? DEFAULT_AUTOCOMPLETE_LIMIT;
+  const types = options.types && options.types.length > 0 ? new Set(options.types) : null;
+
+  const matches: AutocompleteSuggestion[] = [];
+  for (const entry of index.entries) {
+    if (types && !types.has(entry.type)) continue;
+
+    const best = Math.max(0, ...entry.terms.map((term) => scoreTerm(term, query, foldedQuery)));
+    if (best === 0) continue;
+
+    const { terms: _terms, ...suggestion } = entry;
+    matches.push({ ...suggestion, score: best + TYPE_BOOST[entry.type] });
+  }
+
+  return matches
+    .sort(
+      (a, b) =>
+        b.score - a.score ||
+        a.name.length - b.name.length ||
+        a.name.localeCompare(b.name, "fr", { sensitivity: "base" })
+    )
+    .slice(0, limit);
+};
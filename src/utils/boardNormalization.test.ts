@@ -0,0 +1,120 @@
+/**
+ * Tests for board type resolution and room-type tags
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  annotateRoomTypes,
+  classifyBoardName,
+  createBoardNormalizer,
+  getRoomTags,
+  toBoardingEntries,
+} from "./boardNormalization";
+import type { MyGoHotelSearchResult } from "../types/mygo";
+
+describe("classifyBoardName", () => {
+  it("should classify French and English board names", () => {
+    expect(classifyBoardName("Logement petit déjeuner")).toBe("BB");
+    expect(classifyBoardName("Demi Pension")).toBe("HB");
+    expect(classifyBoardName("Pension complète")).toBe("FB");
+    expect(classifyBoardName("All Inclusive")).toBe("AI");
+    expect(classifyBoardName("Ultra All Inclusive")).toBe("UAI");
+    expect(classifyBoardName("Logement seul")).toBe("RO");
+    expect(classifyBoardName("Room only")).toBe("RO");
+  });
+
+  it("should return null for unknown names", () => {
+    expect(classifyBoardName("Formule spéciale")).toBeNull();
+    expect(classifyBoardName(undefined)).toBeNull();
+  });
+});
+
+describe("createBoardNormalizer", () => {
+  it("should resolve supplier code aliases", () => {
+    const normalizer = createBoardNormalizer();
+
+    expect(normalizer.resolve("LPD")).toBe("BB");
+    expect(normalizer.resolve("dp")).toBe("HB");
+    expect(normalizer.resolve("PC")).toBe("FB");
+    expect(normalizer.resolve("LS")).toBe("RO");
+    expect(normalizer.resolve("UAI")).toBe("UAI");
+  });
+
+  it("should use ListBoarding titles for unknown codes", () => {
+    const normalizer = createBoardNormalizer({
+      boardings: [{ code: "7", title: "Soft All Inclusive" }],
+      overrides: [],
+    });
+
+    expect(normalizer.resolve("7", "Formule 7")).toBe("AI");
+  });
+
+  it("should fall back to keywords in the board name", () => {
+    expect(createBoardNormalizer().resolve("X1", "Demi-pension boissons incluses")).toBe("HB");
+  });
+
+  it("should let admin overrides win over aliases and names", () => {
+    const normalizer = createBoardNormalizer({
+      boardings: [],
+      overrides: [
+        { matchType: "code", matchValue: "LPD", canonicalCode: "HB" },
+        { matchType: "name", matchValue: "Formule Spéciale", canonicalCode: "FB" },
+      ],
+    });
+
+    expect(normalizer.resolve("LPD", "Logement petit déjeuner")).toBe("HB");
+    expect(normalizer.resolve("Z9", "formule speciale")).toBe("FB");
+  });
+
+  it("should return localized labels and keep the raw name when unresolved", () => {
+    const normalizer = createBoardNormalizer();
+
+    expect(normalizer.normalize("BB", undefined, "en")).toEqual({ code: "BB", label: "Bed & breakfast" });
+    expect(normalizer.normalize("HB", undefined, "ar")).toEqual({ code: "HB", label: "نصف إقامة" });
+    expect(normalizer.normalize("Z9", "Formule maison")).toEqual({ code: null, label: "Formule maison" });
+  });
+});
+
+describe("toBoardingEntries", () => {
+  it("should map ListBoarding items and drop incomplete ones", () => {
+    expect(toBoardingEntries([{ Id: 3, Title: "Demi pension" }, { Id: 4 }, null])).toEqual([
+      { code: "3", title: "Demi pension" },
+    ]);
+  });
+});
+
+describe("getRoomTags", () => {
+  it("should tag capacity, category and view", () => {
+    expect(getRoomTags("Chambre Double Vue Mer Supérieure")).toEqual(["double", "superior", "sea_view"]);
+    expect(getRoomTags("Chambre Familiale avec balcon")).toEqual(["family", "balcony"]);
+  });
+
+  it("should not tag a junior suite as a suite", () => {
+    expect(getRoomTags("Junior Suite vue piscine")).toEqual(["junior_suite", "pool_view"]);
+  });
+
+  it("should return no tags for empty names", () => {
+    expect(getRoomTags(undefined)).toEqual([]);
+  });
+});
+
+describe("annotateRoomTypes", () => {
+  it("should add boardType, boardLabel and roomTags to rooms", () => {
+    const hotels: MyGoHotelSearchResult[] = [
+      {
+        id: 1,
+        name: "Hotel",
+        available: true,
+        rooms: [{ onRequest: false, roomName: "Twin Standard", boardCode: "DP", boardName: "Demi pension" }],
+      },
+    ];
+
+    const [hotel] = annotateRoomTypes(hotels, createBoardNormalizer(), "fr");
+
+    expect(hotel.rooms[0]).toMatchObject({
+      boardType: "HB",
+      boardLabel: "Demi-pension",
+      roomTags: ["twin", "standard"],
+    });
+  });
+});
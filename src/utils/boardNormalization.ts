@@ -0,0 +1,212 @@
+/**
+ * Board type and room name normalization
+ *
+ * myGO board codes and names are free-form per hotel ("LPD", "Logement petit
+ * déjeuner", "BB"...). Boards are mapped to a canonical set with localized
+ * labels; room names get normalized room-type tags. Resolution order:
+ * 1. admin overrides (board_code_overrides table) by code, then by name
+ * 2. built-in code aliases
+ * 3. myGO ListBoarding title for the code
+ * 4. keywords in the board name
+ */
+
+import type { MyGoHotelSearchResult } from "../types/mygo";
+import { normalizeText } from "./autocomplete";
+import type { SupportedLanguage } from "./i18n";
+
+export const CANONICAL_BOARDS = ["RO", "BB", "HB", "FB", "AI", "UAI"] as const;
+export type CanonicalBoard = (typeof CANONICAL_BOARDS)[number];
+
+export const BOARD_LABELS: Record<CanonicalBoard, Record<SupportedLanguage, string>> = {
+  RO: { fr: "Logement seul", en: "Room only", ar: "إقامة فقط" },
+  BB: { fr: "Logement petit déjeuner", en: "Bed & breakfast", ar: "إقامة مع فطور الصباح" },
+  HB: { fr: "Demi-pension", en: "Half board", ar: "نصف إقامة" },
+  FB: { fr: "Pension complète", en: "Full board", ar: "إقامة كاملة" },
+  AI: { fr: "All inclusive", en: "All inclusive", ar: "شامل كليًا" },
+  UAI: { fr: "Ultra all inclusive", en: "Ultra all inclusive", ar: "شامل كليًا ممتاز" },
+};
+
+export interface BoardOverride {
+  matchType: "code" | "name";
+  matchValue: string;
+  canonicalCode: CanonicalBoard;
+}
+
+export interface MyGoBoardingEntry {
+  code: string;
+  title: string;
+}
+
+export interface BoardNormalizerData {
+  boardings: MyGoBoardingEntry[];
+  overrides: BoardOverride[];
+}
+
+export interface NormalizedBoard {
+  code: CanonicalBoard | null;
+  label: string | null;
+}
+
+// Supplier codes seen for each canonical board (compared normalized, spaces removed)
+const CODE_ALIASES: Record<string, CanonicalBoard> = {
+  ro: "RO", lo: "RO", ls: "RO", sc: "RO", ep: "RO",
+  bb: "BB", lpd: "BB", pd: "BB", cp: "BB",
+  hb: "HB", dp: "HB", mp: "HB", map: "HB",
+  fb: "FB", pc: "FB", ap: "FB",
+  ai: "AI", all: "AI", ti: "AI", allin: "AI", softai: "AI", sai: "AI",
+  uai: "UAI", ultraai: "UAI", ultra: "UAI",
+};
+
+// Keyword rules on normalized board names, most specific first
+const NAME_RULES: Array<{ pattern: RegExp; code: CanonicalBoard }> = [
+  { pattern: /\bultra\b.*\b(all|inclus|inclusive)\b|\buai\b/, code: "UAI" },
+  { pattern: /\ball\s*(in|inclusive|inclusif)\b|\btout\s+compris\b|\btout\s+inclus\b|\bai\b/, code: "AI" },
+  { pattern: /\bpension\s+complete\b|\bfull\s+board\b|\bpc\b/, code: "FB" },
+  { pattern: /\bdemi\s*pension\b|\bhalf\s+board\b|\bdp\b/, code: "HB" },
+  { pattern: /\bpetit\s+dej|\bbreakfast\b|\blpd\b|\bbed\s+and\s+breakfast\b/, code: "BB" },
+  { pattern: /\blogement\s+seul\b|\broom\s+only\b|\bsans\s+repas\b|\bhebergement\s+seul\b/, code: "RO" },
+  { pattern: /نصف/, code: "HB" },
+  { pattern: /فطور/, code: "BB" },
+];
+
+const codeKey = (value: string): string => normalizeText(value).replace(/\s+/g, "");
+
+export const isCanonicalBoard = (value: string): value is CanonicalBoard =>
+  (CANONICAL_BOARDS as readonly string[]).includes(value);
+
+export const getBoardLabel = (code: CanonicalBoard, language: SupportedLanguage = "fr"): string =>
+  BOARD_LABELS[code][language];
+
+/**
+ * Classify a free-form board name by keywords
+ */
+export const classifyBoardName = (name: string | undefined | null): CanonicalBoard | null => {
+  if (!name) {
+    return null;
+  }
+  const normalized = normalizeText(name);
+  return NAME_RULES.find((rule) => rule.pattern.test(normalized))?.code ?? null;
+};
+
+/**
+ * Map raw myGO ListBoarding items to code/title entries
+ * Items without a code or a title are dropped
+ */
+export const toBoardingEntries = (items: unknown[]): MyGoBoardingEntry[] =>
+  items.flatMap((item) => {
+    if (!item || typeof item !== "object") {
+      return [];
+    }
+    const record = item as Record<string, unknown>;
+    const code = record.Code ?? record.Id;
+    const title = record.Title ?? record.Name;
+    return code != null && typeof title === "string" && title.trim() !== ""
+      ? [{ code: String(code), title }]
+      : [];
+  });
+
+/**
+ * Build a board normalizer from myGO boardings and admin overrides
+ */
+export const createBoardNormalizer = (data: BoardNormalizerData = { boardings: [], overrides: [] }) => {
+  const codeOverrides = new Map<string, CanonicalBoard>();
+  const nameOverrides = new Map<string, CanonicalBoard>();
+  for (const override of data.overrides) {
+    if (override.matchType === "code") {
+      codeOverrides.set(codeKey(override.matchValue), override.canonicalCode);
+    } else {
+      nameOverrides.set(normalizeText(override.matchValue), override.canonicalCode);
+    }
+  }
+  const boardingTitles = new Map(data.boardings.map((boarding) => [codeKey(boarding.code), boarding.title]));
+
+  const resolve = (code?: string | null, name?: string | null): CanonicalBoard | null => {
+    const key = code ? codeKey(code) : "";
+    const normalizedName = name ? normalizeText(name) : "";
+
+    return (
+      (key ? codeOverrides.get(key) : undefined) ??
+      (normalizedName ? nameOverrides.get(normalizedName) : undefined) ??
+      (key ? CODE_ALIASES[key] : undefined) ??
+      (key ? classifyBoardName(boardingTitles.get(key)) : null) ??
+      classifyBoardName(name)
+    );
+  };
+
+  return {
+    resolve,
+    normalize: (
+      code?: string | null,
+      name?: string | null,
+      language: SupportedLanguage = "fr",
+    ): NormalizedBoard => {
+      const canonical = resolve(code, name);
+      return { code: canonical, label: canonical ? getBoardLabel(canonical, language) : name ?? null };
+    },
+  };
+};
+
+export type BoardNormalizer = ReturnType<typeof createBoardNormalizer>;
+
+// Room name keywords → tag, checked against normalized room names
+const ROOM_TAG_RULES: Array<{ tag: string; pattern: RegExp }> = [
+  { tag: "single", pattern: /\b(single|individuelle?|simple|sgl)\b/ },
+  { tag: "double", pattern: /\b(double|dbl|matrimoniale?)\b/ },
+  { tag: "twin", pattern: /\b(twin|lits jumeaux|2 lits)\b/ },
+  { tag: "triple", pattern: /\b(triple|tpl)\b/ },
+  { tag: "quadruple", pattern: /\b(quadruple|quad|quadri)\b/ },
+  { tag: "family", pattern: /\b(famil(y|le|iale)|familiale)\b/ },
+  { tag: "junior_suite", pattern: /\bjunior\s+suite\b|\bsuite\s+junior\b/ },
+  { tag: "suite", pattern: /\bsuite\b/ },
+  { tag: "studio", pattern: /\bstudio\b/ },
+  { tag: "apartment", pattern: /\b(apartment|appartement|apt)\b/ },
+  { tag: "bungalow", pattern: /\bbungalow\b/ },
+  { tag: "villa", pattern: /\bvilla\b/ },
+  { tag: "standard", pattern: /\b(standard|std|classique|classic)\b/ },
+  { tag: "superior", pattern: /\b(superieure?|superior|sup)\b/ },
+  { tag: "deluxe", pattern: /\b(deluxe|luxe)\b/ },
+  { tag: "sea_view", pattern: /\b(vue mer|sea view|cote mer|face mer|seaview)\b/ },
+  { tag: "pool_view", pattern: /\b(vue piscine|pool view)\b/ },
+  { tag: "garden_view", pattern: /\b(vue jardin|garden view)\b/ },
+  { tag: "balcony", pattern: /\b(balcon|balcony)\b/ },
+  { tag: "terrace", pattern: /\b(terrasse|terrace)\b/ },
+  { tag: "connecting", pattern: /\b(communicantes?|connecting)\b/ },
+  { tag: "accessible", pattern: /\b(pmr|handicape|accessible)\b/ },
+];
+
+export const ROOM_TAGS = ROOM_TAG_RULES.map((rule) => rule.tag);
+
+/**
+ * Normalized room-type tags for a room name
+ * "Chambre Double Vue Mer Supérieure" → ["double", "superior", "sea_view"]
+ */
+export const getRoomTags = (roomName: string | undefined | null): string[] => {
+  if (!roomName) {
+    return [];
+  }
+  const normalized = normalizeText(roomName);
+  const tags = ROOM_TAG_RULES.filter((rule) => rule.pattern.test(normalized)).map((rule) => rule.tag);
+  // "junior suite" is not also a plain suite
+  return tags.includes("junior_suite") ? tags.filter((tag) => tag !== "suite") : tags;
+};
+
+/**
+ * Add boardType, boardLabel and roomTags to every room of search results
+ */
+export const annotateRoomTypes = (
+  hotels: MyGoHotelSearchResult[],
+  normalizer: BoardNormalizer,
+  language: SupportedLanguage = "fr",
+): MyGoHotelSearchResult[] =>
+  hotels.map((hotel) => ({
+    ...hotel,
+    rooms: hotel.rooms.map((room) => {
+      const board = normalizer.normalize(room.boardCode, room.boardName, language);
+      return {
+        ...room,
+        boardType: board.code,
+        boardLabel: board.label ?? undefined,
+        roomTags: getRoomTags(room.roomName),
+      };
+    }),
+  }));
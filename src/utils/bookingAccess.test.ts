@@ -0,0 +1,96 @@
+/**
+ * Tests for guest booking access tokens and booking references
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  buildMagicLink,
+  matchesCustomerEmail,
+  parseBookingReference,
+  signBookingAccess,
+  verifyBookingAccess,
+  BOOKING_ACCESS_LINK_TTL_MS,
+  BOOKING_ACCESS_TOKEN_TTL_MS,
+} from "./bookingAccess";
+import { signOfferReference, OFFER_REFERENCE_VERSION } from "./offerReference";
+
+const SECRET = "access-test-secret";
+const BOOKING_ID = "5b1f8f5e-2d7a-4c59-9a0e-3f1c6d2b8a41";
+const now = new Date("2026-06-01T10:00:00Z");
+
+describe("signBookingAccess / verifyBookingAccess", () => {
+  it("should round-trip a token scoped to one booking", async () => {
+    const access = await signBookingAccess(BOOKING_ID, BOOKING_ACCESS_TOKEN_TTL_MS, SECRET, now);
+
+    expect(access.expiresAt).toBe("2026-06-01T12:00:00.000Z");
+    expect(await verifyBookingAccess(access.token, SECRET, now)).toEqual({
+      valid: true,
+      bookingId: BOOKING_ID,
+      expiresAt: Date.parse(access.expiresAt),
+    });
+  });
+
+  it("should reject expired, tampered and foreign tokens", async () => {
+    const { token } = await signBookingAccess(BOOKING_ID, BOOKING_ACCESS_TOKEN_TTL_MS, SECRET, now);
+    const later = new Date(now.getTime() + BOOKING_ACCESS_TOKEN_TTL_MS);
+
+    expect(await verifyBookingAccess(token, SECRET, later)).toEqual({ valid: false, reason: "expired" });
+    expect(await verifyBookingAccess(token, "other-secret", now)).toEqual({ valid: false, reason: "signature" });
+    expect(await verifyBookingAccess(`${token}x`, SECRET, now)).toMatchObject({ valid: false });
+    expect(await verifyBookingAccess("not-a-token", SECRET, now)).toEqual({ valid: false, reason: "malformed" });
+
+    // An offer reference signed with the same secret is not an access token
+    const offerRef = await signOfferReference(
+      {
+        v: OFFER_REFERENCE_VERSION,
+        hotelId: 101,
+        roomId: 1,
+        boardCode: null,
+        price: 250,
+        currency: "TND",
+        checkIn: "2026-07-01",
+        checkOut: "2026-07-05",
+        rooms: [{ adults: 2 }],
+        issuedAt: now.getTime(),
+      },
+      SECRET
+    );
+    expect(await verifyBookingAccess(offerRef, SECRET, now)).toEqual({ valid: false, reason: "malformed" });
+  });
+
+  it("should carry the link id of a magic link token", async () => {
+    const linkId = "7d3c1b2a-9e8f-4a6b-8c5d-1e2f3a4b5c6d";
+    const { token } = await signBookingAccess(BOOKING_ID, BOOKING_ACCESS_LINK_TTL_MS, SECRET, now, linkId);
+
+    expect(await verifyBookingAccess(token, SECRET, now)).toMatchObject({ valid: true, bookingId: BOOKING_ID, linkId });
+  });
+});
+
+describe("parseBookingReference", () => {
+  it("should accept myGO booking numbers and booking ids", () => {
+    expect(parseBookingReference(" 789 ")).toEqual({ column: "mygo_booking_id", value: 789 });
+    expect(parseBookingReference(BOOKING_ID.toUpperCase())).toEqual({ column: "id", value: BOOKING_ID });
+  });
+
+  it("should reject other formats", () => {
+    expect(parseBookingReference("0")).toBeNull();
+    expect(parseBookingReference("BK-5b1f8f5e")).toBeNull();
+    expect(parseBookingReference("12345678901")).toBeNull();
+  });
+});
+
+describe("matchesCustomerEmail", () => {
+  it("should compare emails case-insensitively", () => {
+    expect(matchesCustomerEmail("Amine@Example.com", " amine@example.com")).toBe(true);
+    expect(matchesCustomerEmail("amine@example.com", "other@example.com")).toBe(false);
+    expect(matchesCustomerEmail(null, "amine@example.com")).toBe(false);
+  });
+});
+
+describe("buildMagicLink", () => {
+  it("should add the token to the manage-booking URL", () => {
+    expect(buildMagicLink("https://www.hotel.com.tn/manage-booking?lang=fr", "a.b")).toBe(
+      "https://www.hotel.com.tn/manage-booking?lang=fr&token=a.b"
+    );
+  });
+});
@@ -0,0 +1,216 @@
+/**
+ * Guest booking access ("manage my booking")
+ *
+ * Guest sessions expire after 24 hours, so guests find their booking again
+ * with its reference and the customer email (POST /bookings/lookup). A match
+ * returns an access token and emails a magic link carrying a longer-lived
+ * one; both are scoped to that single booking and sent in the
+ * X-Booking-Access-Token header.
+ *
+ * Magic link tokens also carry a link id: booking_access_links keeps only that
+ * id with the expiry, and a link token is accepted only while its row is
+ * neither expired nor revoked (revoked_at).
+ *
+ * Format: base64url(JSON payload) + "." + base64url(HMAC-SHA256), like offer
+ * references; the payload purpose keeps one from passing for the other when
+ * both are signed with JWT_SECRET.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Env } from "../types/env";
+
+export const BOOKING_ACCESS_VERSION = 1;
+
+// Token returned by the lookup (the current visit)
+export const BOOKING_ACCESS_TOKEN_TTL_MS = 2 * 60 * 60 * 1000;
+
+// Token of the emailed magic link
+export const BOOKING_ACCESS_LINK_TTL_MS = 72 * 60 * 60 * 1000;
+
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const MYGO_REFERENCE_REGEX = /^\d{1,10}$/;
+
+export interface BookingAccessPayload {
+  v: number;
+  purpose: "booking-access";
+  bookingId: string;
+  expiresAt: number; // epoch ms
+  linkId?: string; // booking_access_links row of a magic link token
+}
+
+export type BookingAccessVerification =
+  | { valid: true; bookingId: string; expiresAt: number; linkId?: string }
+  | { valid: false; reason: "malformed" | "signature" | "expired" };
+
+// Booking reference given by the customer: the myGO booking number shown at
+// confirmation, or the booking id
+export type BookingReference = { column: "mygo_booking_id"; value: number } | { column: "id"; value: string };
+
+/**
+ * Secret used to sign booking access tokens
+ * BOOKING_ACCESS_SECRET when set, otherwise JWT_SECRET; undefined disables lookups
+ */
+export const getBookingAccessSecret = (env: Env): string | undefined =>
+  env.BOOKING_ACCESS_SECRET || env.JWT_SECRET || undefined;
+
+const encoder = new TextEncoder();
+
+const toBase64Url = (bytes: Uint8Array): string =>
+  btoa(Array.from(bytes, (byte) => String.fromCharCode(byte)).join(""))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+
+const fromBase64Url = (value: string): Uint8Array => {
+  const base64 = value.replace(/-/g, "+").replace(/_/g, "/");
+  const padded = base64 + "=".repeat((4 - (base64.length % 4)) % 4);
+  return Uint8Array.from(atob(padded), (char) => char.charCodeAt(0));
+};
+
+const importKey = (secret: string): Promise<CryptoKey> =>
+  crypto.subtle.importKey("raw", encoder.encode(secret), { name: "HMAC", hash: "SHA-256" }, false, [
+    "sign",
+    "verify",
+  ]);
+
+/**
+ * Sign an access token for one booking
+ * @param linkId - booking_access_links row of a magic link (checked on use)
+ */
+export const signBookingAccess = async (
+  bookingId: string,
+  ttlMs: number,
+  secret: string,
+  now: Date = new Date(),
+  linkId?: string
+): Promise<{ token: string; expiresAt: string }> => {
+  const expiresAt = now.getTime() + ttlMs;
+  const payload: BookingAccessPayload = {
+    v: BOOKING_ACCESS_VERSION,
+    purpose: "booking-access",
+    bookingId,
+    expiresAt,
+    ...(linkId ? { linkId } : {}),
+  };
+  const encoded = toBase64Url(encoder.encode(JSON.stringify(payload)));
+  const signature = await crypto.subtle.sign("HMAC", await importKey(secret), encoder.encode(encoded));
+  return {
+    token: `${encoded}.${toBase64Url(new Uint8Array(signature))}`,
+    expiresAt: new Date(expiresAt).toISOString(),
+  };
+};
+
+/**
+ * Verify an access token signature and expiry
+ */
+export const verifyBookingAccess = async (
+  token: string,
+  secret: string,
+  now: Date = new Date()
+): Promise<BookingAccessVerification> => {
+  const [encoded, signature, extra] = token.split(".");
+  if (!encoded || !signature || extra !== undefined) {
+    return { valid: false, reason: "malformed" };
+  }
+
+  let signatureBytes: Uint8Array;
+  let payload: BookingAccessPayload;
+  try {
+    signatureBytes = fromBase64Url(signature);
+    payload = JSON.parse(new TextDecoder().decode(fromBase64Url(encoded))) as BookingAccessPayload;
+  } catch {
+    return { valid: false, reason: "malformed" };
+  }
+
+  if (!(await crypto.subtle.verify("HMAC", await importKey(secret), signatureBytes, encoder.encode(encoded)))) {
+    return { valid: false, reason: "signature" };
+  }
+  if (
+    payload.v !== BOOKING_ACCESS_VERSION ||
+    payload.purpose !== "booking-access" ||
+    typeof payload.bookingId !== "string" ||
+    typeof payload.expiresAt !== "number" ||
+    (payload.linkId !== undefined && typeof payload.linkId !== "string")
+  ) {
+    return { valid: false, reason: "malformed" };
+  }
+  if (now.getTime() >= payload.expiresAt) {
+    return { valid: false, reason: "expired" };
+  }
+  return {
+    valid: true,
+    bookingId: payload.bookingId,
+    expiresAt: payload.expiresAt,
+    ...(payload.linkId ? { linkId: payload.linkId } : {}),
+  };
+};
+
+/**
+ * Whether a magic link is still active: its booking_access_links row exists
+ * for the booking and is neither expired nor revoked
+ * @throws Error when the link cannot be checked
+ */
+export const isBookingAccessLinkActive = async (
+  supabase: SupabaseClient,
+  linkId: string,
+  bookingId: string,
+  now: Date = new Date()
+): Promise<boolean> => {
+  if (!UUID_REGEX.test(linkId)) {
+    return false;
+  }
+
+  const { data, error } = await supabase
+    .from("booking_access_links")
+    .select("id")
+    .eq("id", linkId)
+    .eq("booking_id", bookingId)
+    .is("revoked_at", null)
+    .gt("expires_at", now.toISOString())
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to check booking access link: ${error.message}`);
+  }
+  return !!data;
+};
+
+/**
+ * Booking column a customer reference matches (null for an unknown format)
+ */
+export const parseBookingReference = (reference: string): BookingReference | null => {
+  const trimmed = reference.trim();
+  if (UUID_REGEX.test(trimmed)) {
+    return { column: "id", value: trimmed.toLowerCase() };
+  }
+  if (MYGO_REFERENCE_REGEX.test(trimmed) && Number(trimmed) > 0) {
+    return { column: "mygo_booking_id", value: Number(trimmed) };
+  }
+  return null;
+};
+
+/**
+ * Whether a lookup email is the booking's customer email (case-insensitive)
+ */
+export const matchesCustomerEmail = (customerEmail: string | null, email: string): boolean =>
+  !!customerEmail && customerEmail.trim().toLowerCase() === email.trim().toLowerCase();
+
+/**
+ * Magic link: the manage-booking page with the access token
+ */
+export const buildMagicLink = (manageUrl: string, token: string): string => {
+  const url = new URL(manageUrl);
+  url.searchParams.set("token", token);
+  return url.toString();
+};
+
+/**
+ * Magic link email (customer-facing, in French)
+ */
+export const buildMagicLinkEmail = (link: string, expiresAt: string): { subject: string; text: string } => ({
+  subject: "Accédez à votre réservation",
+  text:
+    `Pour consulter et gérer votre réservation, ouvrez ce lien :\n${link}\n\n` +
+    `Ce lien est personnel et valable jusqu'au ${expiresAt.slice(0, 16).replace("T", " à ")} (UTC). ` +
+    "Si vous n'êtes pas à l'origine de cette demande, ignorez cet email.",
+});
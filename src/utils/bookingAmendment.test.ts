@@ -0,0 +1,154 @@
+/**
+ * Tests for booking amendment offers and settlement of the difference
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  buildAmendmentOffers,
+  findAmendmentOffer,
+  getAmendmentIneligibility,
+  planAmendmentSettlement,
+} from "./bookingAmendment";
+import type { CancellableBooking, CancellablePayment } from "./bookingCancellation";
+import type { PromoCode } from "./promotions";
+import type { MyGoRoomResult } from "../types/mygo";
+
+const booking = (overrides: Partial<CancellableBooking> = {}): CancellableBooking => ({
+  id: "booking-1",
+  status: "confirmed",
+  mygo_booking_id: 5001,
+  check_in: "2026-07-10",
+  total_price: 500,
+  supplier_price: 450,
+  discount_amount: 0,
+  currency: "TND",
+  ...overrides,
+});
+
+const payment = (overrides: Partial<CancellablePayment> = {}): CancellablePayment => ({
+  id: "payment-1",
+  order_id: "order-1",
+  amount: 500,
+  status: "authorized",
+  ...overrides,
+});
+
+const room = (overrides: Partial<MyGoRoomResult>): MyGoRoomResult => ({
+  onRequest: false,
+  roomId: 1,
+  roomName: "Double",
+  boardCode: "HB",
+  boardName: "Demi pension",
+  price: 600,
+  ...overrides,
+});
+
+const promo = (overrides: Partial<PromoCode> = {}): PromoCode => ({
+  id: 1,
+  code: "SUMMER50",
+  description: null,
+  active: true,
+  discountType: "fixed",
+  discountValue: 50,
+  maxDiscount: null,
+  validFrom: null,
+  validTo: null,
+  maxRedemptions: null,
+  maxRedemptionsPerCustomer: null,
+  minNights: null,
+  minAmount: null,
+  cityIds: null,
+  hotelIds: null,
+  updatedAt: null,
+  ...overrides,
+});
+
+describe("getAmendmentIneligibility", () => {
+  it("should require a cancellable booking and a stay that has not started", () => {
+    const request = { checkIn: "2026-07-11", checkOut: "2026-07-14", rooms: [{ adults: 2 }] };
+
+    expect(getAmendmentIneligibility(booking(), request, "2026-07-01")).toBeNull();
+    expect(getAmendmentIneligibility(booking({ status: "cancelled" }), request, "2026-07-01")).toContain("cancelled");
+    expect(getAmendmentIneligibility(booking(), { ...request, checkIn: "2026-06-30" }, "2026-07-01")).toContain(
+      "past"
+    );
+  });
+});
+
+describe("buildAmendmentOffers", () => {
+  it("should keep bookable rooms with the promo discount and the penalty in the difference", () => {
+    const offers = buildAmendmentOffers(
+      [
+        room({ roomId: 1, price: 600 }),
+        room({ roomId: 2, price: 520, boardCode: "BB", boardName: "Petit déjeuner" }),
+        room({ roomId: 3, price: 400, onRequest: true }),
+        room({ roomId: 4, price: undefined }),
+      ],
+      booking({ discount_amount: 50 }),
+      30,
+      promo()
+    );
+
+    expect(offers.map((offer) => [offer.roomId, offer.price, offer.newTotal, offer.priceDifference])).toEqual([
+      [2, 470, 500, 0],
+      [1, 550, 580, 80],
+    ]);
+    expect(findAmendmentOffer(offers, 1)?.boardCode).toBe("HB");
+    expect(findAmendmentOffer(offers, 1, "BB")).toBeNull();
+  });
+
+  it("should work out the promo discount again on the new price", () => {
+    const percent = promo({ discountType: "percent", discountValue: 10, maxDiscount: 55, minAmount: 300 });
+    const offers = buildAmendmentOffers(
+      [room({ roomId: 1, price: 600 }), room({ roomId: 2, price: 400 }), room({ roomId: 3, price: 250 })],
+      booking({ discount_amount: 50 }),
+      0,
+      percent
+    );
+
+    expect(offers.map((offer) => [offer.roomId, offer.discount, offer.price])).toEqual([
+      [3, 0, 250],
+      [2, 40, 360],
+      [1, 55, 545],
+    ]);
+    expect(buildAmendmentOffers([room({ price: 600 })], booking({ discount_amount: 50 }), 0, null)[0]).toMatchObject({
+      discount: 0,
+      price: 600,
+    });
+  });
+
+  it("should round offers to the minor units of the booking currency", () => {
+    const [offer] = buildAmendmentOffers(
+      [room({ price: 333.3333 })],
+      booking({ currency: "EUR", total_price: 300 }),
+      10.005,
+      null
+    );
+
+    expect(offer).toMatchObject({ price: 333.33, newTotal: 343.34, priceDifference: 43.34 });
+  });
+});
+
+describe("planAmendmentSettlement", () => {
+  it("should ask for a replacement pre-authorization when the new total is higher", () => {
+    expect(planAmendmentSettlement(payment(), 500, 580, "TND")).toEqual({ action: "preauth", amount: 580 });
+    expect(planAmendmentSettlement(payment({ status: "captured" }), 500, 580, "TND")).toEqual({
+      action: "preauth",
+      amount: 580,
+    });
+  });
+
+  it("should capture the new total of a hold or refund the excess of a capture", () => {
+    expect(planAmendmentSettlement(payment(), 500, 420.5, "TND")).toEqual({ action: "capture", amount: 420.5 });
+    expect(planAmendmentSettlement(payment({ status: "captured" }), 500, 420.5, "TND")).toEqual({
+      action: "refund",
+      amount: 79.5,
+    });
+    expect(planAmendmentSettlement(payment(), 500, 500.0004, "TND")).toEqual({ action: "none" });
+  });
+
+  it("should leave unpaid bookings to checkout", () => {
+    expect(planAmendmentSettlement(null, 0, 580, "TND")).toEqual({ action: "none" });
+    expect(planAmendmentSettlement(payment({ status: "pending" }), 0, 420, "TND")).toEqual({ action: "none" });
+  });
+});
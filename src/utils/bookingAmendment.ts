@@ -0,0 +1,151 @@
+/**
+ * Booking amendments (date and occupancy changes)
+ *
+ * myGO bookings cannot be modified: an amendment books the new stay at the
+ * same hotel, then cancels the previous booking under its cancellation
+ * policy. The customer pays the new price plus that cancellation penalty,
+ * and the booking keeps its promo code: the discount is worked out again on
+ * the new price (percentage, cap and minimum amount).
+ *
+ * The difference with what was paid is settled with ClicToPay:
+ * - more than paid: a replacement pre-authorization of the new total, the
+ *   previous payment being released once the swap is done
+ * - less than paid: the hold is captured for the new total only, or the
+ *   excess of a captured payment is refunded
+ * - not paid yet: nothing to settle, checkout charges the new total
+ */
+
+import type { MyGoRoomResult } from "../types/mygo";
+import {
+  getCancellationIneligibility,
+  type CancellableBooking,
+  type CancellablePayment,
+} from "./bookingCancellation";
+import { computePromoDiscount, type PromoCode } from "./promotions";
+import { roundToMinorUnits } from "./currency";
+
+// Price differences below this are rounding noise (TND has 3 decimals)
+export const AMENDMENT_PRICE_TOLERANCE = 0.0005;
+
+export interface AmendmentRequest {
+  checkIn: string;
+  checkOut: string;
+  rooms: Array<{ adults: number; childrenAges?: number[] }>;
+}
+
+export interface AmendmentOffer {
+  roomId: number;
+  roomName: string | null;
+  boardCode: string | null;
+  boardName: string | null;
+  // New stay price for the customer (promo discount applied)
+  price: number;
+  // Promo discount on the new stay (0 without a promo code)
+  discount: number;
+  // price + penalty: the new booking total, and the amount settled
+  newTotal: number;
+  // newTotal - current total (negative: cheaper than paid for)
+  priceDifference: number;
+  freeCancellationUntil: string | null;
+}
+
+export type AmendmentSettlement =
+  | { action: "none" }
+  | { action: "preauth"; amount: number }
+  | { action: "capture"; amount: number }
+  | { action: "refund"; amount: number };
+
+/**
+ * Why a booking cannot be amended to the requested stay (null when it can)
+ * Amending cancels the current booking, so it must be cancellable
+ */
+export const getAmendmentIneligibility = (
+  booking: CancellableBooking,
+  request: AmendmentRequest,
+  today: string
+): string | null => {
+  const ineligibility = getCancellationIneligibility(booking, today);
+  if (ineligibility) {
+    return ineligibility;
+  }
+  return request.checkIn < today ? "The new stay cannot start in the past" : null;
+};
+
+/**
+ * Promo discount of the booking's code on a new stay price
+ * The booking keeps its redemption, so only the terms depending on the
+ * amount are checked again: below the minimum amount there is no discount
+ */
+export const getAmendmentDiscount = (promo: PromoCode | null, customerPrice: number): number =>
+  !promo || (promo.minAmount !== null && customerPrice < promo.minAmount)
+    ? 0
+    : computePromoDiscount(promo, customerPrice);
+
+/**
+ * Bookable rooms of the fresh search as amendment offers (cheapest first)
+ * Room prices must already be customer prices (pricing rules applied); the
+ * booking's promo code is applied to each of them
+ */
+export const buildAmendmentOffers = (
+  rooms: MyGoRoomResult[],
+  booking: Pick<CancellableBooking, "total_price" | "currency">,
+  penalty: number,
+  promo: PromoCode | null
+): AmendmentOffer[] => {
+  const currentTotal = Number(booking.total_price);
+
+  return rooms
+    .filter((room) => !room.onRequest && typeof room.price === "number" && typeof room.roomId === "number")
+    .map((room) => {
+      const discount = getAmendmentDiscount(promo, room.price!);
+      const price = roundToMinorUnits(Math.max(room.price! - discount, 0), booking.currency);
+      const newTotal = roundToMinorUnits(price + penalty, booking.currency);
+      return {
+        roomId: room.roomId!,
+        roomName: room.roomName ?? null,
+        boardCode: room.boardCode ?? null,
+        boardName: room.boardName ?? null,
+        price,
+        discount,
+        newTotal,
+        priceDifference: roundToMinorUnits(newTotal - currentTotal, booking.currency),
+        freeCancellationUntil: room.freeCancellationUntil ?? null,
+      };
+    })
+    .sort((a, b) => a.price - b.price);
+};
+
+/**
+ * Offer the customer picked (board optional when the room has one board)
+ */
+export const findAmendmentOffer = (
+  offers: AmendmentOffer[],
+  roomId: number,
+  boardCode?: string | null
+): AmendmentOffer | null =>
+  offers.find((offer) => offer.roomId === roomId && (!boardCode || offer.boardCode === boardCode)) ?? null;
+
+/**
+ * ClicToPay operation settling a new total (stay price + penalty, already
+ * rounded: it is also the booking total) against the current payment
+ */
+export const planAmendmentSettlement = (
+  payment: CancellablePayment | null,
+  paidAmount: number,
+  newTotal: number,
+  currency: string
+): AmendmentSettlement => {
+  if (!payment?.order_id || paidAmount <= 0) {
+    return { action: "none" };
+  }
+  const difference = roundToMinorUnits(newTotal - paidAmount, currency);
+  if (difference > AMENDMENT_PRICE_TOLERANCE) {
+    return { action: "preauth", amount: newTotal };
+  }
+  if (difference >= -AMENDMENT_PRICE_TOLERANCE) {
+    return { action: "none" };
+  }
+  return payment.status === "authorized"
+    ? { action: "capture", amount: newTotal }
+    : { action: "refund", amount: -difference };
+};
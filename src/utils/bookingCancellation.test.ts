@@ -0,0 +1,129 @@
+/**
+ * Tests for customer cancellation penalties and payment settlement
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  computeCancellationQuote,
+  getCancellationIneligibility,
+  planRefund,
+  type CancellableBooking,
+  type CancellablePayment,
+} from "./bookingCancellation";
+
+const booking = (overrides: Partial<CancellableBooking> = {}): CancellableBooking => ({
+  id: "booking-1",
+  status: "confirmed",
+  mygo_booking_id: 5001,
+  check_in: "2026-07-10",
+  total_price: 550,
+  supplier_price: 500,
+  discount_amount: 0,
+  currency: "TND",
+  ...overrides,
+});
+
+const payment = (overrides: Partial<CancellablePayment> = {}): CancellablePayment => ({
+  id: "payment-1",
+  order_id: "order-1",
+  amount: 550,
+  status: "authorized",
+  ...overrides,
+});
+
+const now = new Date("2026-07-01T09:00:00Z");
+
+describe("getCancellationIneligibility", () => {
+  it("should only allow upcoming pending or confirmed bookings with a supplier reservation", () => {
+    expect(getCancellationIneligibility(booking(), "2026-07-01")).toBeNull();
+    expect(getCancellationIneligibility(booking({ check_in: "2026-07-01" }), "2026-07-01")).toBeNull();
+    expect(getCancellationIneligibility(booking({ status: "cancelled" }), "2026-07-01")).toContain("cancelled");
+    expect(getCancellationIneligibility(booking({ mygo_booking_id: null }), "2026-07-01")).not.toBeNull();
+    expect(getCancellationIneligibility(booking({ check_in: "2026-06-30" }), "2026-07-01")).toContain("started");
+  });
+});
+
+describe("computeCancellationQuote", () => {
+  it("should charge the customer the myGO fee's share of the supplier price", () => {
+    // 40% of the supplier price, so 40% of the customer price (markup included)
+    const quote = computeCancellationQuote(booking(), payment(), 200, now);
+
+    expect(quote).toEqual({
+      bookingId: "booking-1",
+      currency: "TND",
+      paidAmount: 550,
+      penalty: 220,
+      refundAmount: 330,
+      freeCancellation: false,
+      quotedAt: "2026-07-01T09:00:00.000Z",
+    });
+  });
+
+  it("should use the price before discount without a supplier price and cap the penalty", () => {
+    const discounted = booking({ total_price: 450, supplier_price: null, discount_amount: 50 });
+
+    expect(computeCancellationQuote(discounted, payment({ amount: 450 }), 250, now)).toMatchObject({
+      penalty: 225,
+      refundAmount: 225,
+    });
+    expect(computeCancellationQuote(booking(), payment(), 900, now)).toMatchObject({ penalty: 550, refundAmount: 0 });
+  });
+
+  it("should not refund unpaid bookings", () => {
+    const quote = computeCancellationQuote(booking(), payment({ status: "failed" }), 0, now);
+
+    expect(quote).toMatchObject({ paidAmount: 0, penalty: 0, refundAmount: 0, freeCancellation: true });
+    expect(planRefund(payment({ status: "failed" }), quote)).toEqual({ action: "none" });
+    expect(planRefund(null, quote)).toEqual({ action: "none" });
+  });
+});
+
+describe("planRefund", () => {
+  it("should release or partially capture a pre-authorization", () => {
+    const free = computeCancellationQuote(booking(), payment(), 0, now);
+    const penalty = computeCancellationQuote(booking(), payment(), 200, now);
+
+    expect(planRefund(payment(), free)).toEqual({ action: "reverse", amount: 550 });
+    expect(planRefund(payment(), penalty)).toEqual({ action: "capture", amount: 220, released: 330 });
+  });
+
+  it("should refund what is left of a captured payment", () => {
+    const captured = payment({ status: "captured" });
+
+    expect(planRefund(captured, computeCancellationQuote(booking(), captured, 200, now))).toEqual({
+      action: "refund",
+      amount: 330,
+    });
+    expect(planRefund(captured, computeCancellationQuote(booking(), captured, 500, now))).toEqual({ action: "none" });
+  });
+
+  it("should round penalties and refunds to the minor units of the booking currency", () => {
+    const euroBooking = booking({ currency: "EUR", total_price: 100.01, supplier_price: 90, discount_amount: null });
+    const captured = payment({ amount: 100.01, status: "captured" });
+
+    expect(computeCancellationQuote(euroBooking, captured, 30, now)).toMatchObject({
+      paidAmount: 100.01,
+      penalty: 33.34,
+      refundAmount: 66.67,
+    });
+  });
+});
+
+describe("cancellation after an amendment", () => {
+  it("should keep amendment fees and count partial refunds", () => {
+    const amended = booking({ total_price: 580, supplier_price: 500, amendment_fees: 30 });
+    const partlyRefunded = payment({ amount: 650, status: "captured", captured_amount: 650, refunded_amount: 70 });
+
+    // 40% of the stay price (550), plus the fee of the earlier amendment
+    expect(computeCancellationQuote(amended, partlyRefunded, 200, now)).toMatchObject({
+      paidAmount: 580,
+      penalty: 250,
+      refundAmount: 330,
+      freeCancellation: false,
+    });
+    expect(computeCancellationQuote(amended, partlyRefunded, 0, now)).toMatchObject({
+      penalty: 30,
+      freeCancellation: false,
+    });
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * Customer-initiated booking cancellation
+ *
+ * myGO quotes the cancellation fee of a booking (BookingCancellation with
+ * PreCancelled=true) in supplier terms. The customer's penalty is the same
+ * share of what they paid: a fee of 40% of the supplier price costs 40% of
+ * the customer price (markup and promo discount included), so the refund
+ * follows the penalty whatever the pricing rules were. Penalties of earlier
+ * amendments (amendment_fees, see utils/bookingAmendment) are always kept.
+ *
+ * The ClicToPay payment is settled to match the penalty:
+ * - pre-authorized (funds held): released entirely (reverse) when there is
+ *   no penalty, otherwise only the penalty is captured (deposit)
+ * - captured: the refundable amount is refunded
+ * - not paid (pending, failed, reversed): nothing to settle
+ */
+
+import type { BookingStatus, PaymentStatus } from "../types/booking";
+import { roundToMinorUnits } from "./currency";
+
+// Cancellable booking statuses (cancelled and completed stays are final)
+export const CANCELLABLE_STATUSES: BookingStatus[] = ["pending", "confirmed"];
+
+export interface CancellableBooking {
+  id: string;
+  status: BookingStatus;
+  mygo_booking_id: number | null;
+  check_in: string;
+  total_price: number | string;
+  supplier_price: number | string | null;
+  discount_amount: number | string | null;
+  amendment_fees?: number | string | null;
+  currency: string;
+}
+
+export interface CancellablePayment {
+  id: string;
+  order_id: string | null;
+  amount: number | string;
+  status: PaymentStatus;
+  captured_amount?: number | string | null;
+  refunded_amount?: number | string | null;
+}
+
+export interface CancellationQuote {
+  bookingId: string;
+  currency: string;
+  // Amount held or captured by ClicToPay (0 when the booking was not paid)
+  paidAmount: number;
+  penalty: number;
+  refundAmount: number;
+  freeCancellation: boolean;
+  quotedAt: string;
+}
+
+export type RefundPlan =
+  | { action: "none" }
+  | { action: "reverse"; amount: number }
+  | { action: "capture"; amount: number; released: number }
+  | { action: "refund"; amount: number };
+
+/**
+ * Why a booking cannot be cancelled by its customer (null when it can)
+ * Stays that have started go through customer service
+ */
+export const getCancellationIneligibility = (booking: CancellableBooking, today: string): string | null => {
+  if (!CANCELLABLE_STATUSES.includes(booking.status)) {
+    return `Booking is ${booking.status} and can no longer be cancelled`;
+  }
+  if (!booking.mygo_booking_id) {
+    return "Booking has no supplier reservation to cancel";
+  }
+  if (booking.check_in < today) {
+    return "The stay has already started, please contact customer service";
+  }
+  return null;
+};
+
+/**
+ * Amount actually held or captured for the booking
+ * A partial capture or refund (amendments) leaves less than the order amount
+ */
+export const getPaidAmount = (payment: CancellablePayment | null, currency: string): number => {
+  if (payment?.status === "authorized") {
+    return Number(payment.amount);
+  }
+  if (payment?.status === "captured") {
+    const captured = payment.captured_amount != null ? Number(payment.captured_amount) : Number(payment.amount);
+    return roundToMinorUnits(captured - Number(payment.refunded_amount ?? 0), currency);
+  }
+  return 0;
+};
+
+/**
+ * Customer penalty and refund for a myGO cancellation fee
+ * The supplier price is the myGO total before markup (supplier_price), or
+ * the customer price before promo discount when no pricing rule applied.
+ * Amendment fees are not part of the stay price and are kept in full
+ */
+export const computeCancellationQuote = (
+  booking: CancellableBooking,
+  payment: CancellablePayment | null,
+  supplierFee: number,
+  now: Date
+): CancellationQuote => {
+  const amendmentFees = Number(booking.amendment_fees ?? 0);
+  const customerPrice = Number(booking.total_price) - amendmentFees;
+  const supplierPrice =
+    booking.supplier_price !== null
+      ? Number(booking.supplier_price)
+      : customerPrice + Number(booking.discount_amount ?? 0);
+  const share = supplierFee <= 0 ? 0 : supplierPrice > 0 ? Math.min(supplierFee / supplierPrice, 1) : 1;
+  const penalty = roundToMinorUnits(amendmentFees + customerPrice * share, booking.currency);
+  const paidAmount = getPaidAmount(payment, booking.currency);
+
+  return {
+    bookingId: booking.id,
+    currency: booking.currency,
+    paidAmount,
+    penalty,
+    refundAmount: roundToMinorUnits(Math.max(paidAmount - penalty, 0), booking.currency),
+    freeCancellation: penalty === 0,
+    quotedAt: now.toISOString(),
+  };
+};
+
+/**
+ * ClicToPay operation settling the payment for a penalty
+ */
+export const planRefund = (payment: CancellablePayment | null, quote: CancellationQuote): RefundPlan => {
+  if (!payment?.order_id || quote.paidAmount <= 0) {
+    return { action: "none" };
+  }
+  if (payment.status === "authorized") {
+    return quote.penalty > 0
+      ? { action: "capture", amount: Math.min(quote.penalty, quote.paidAmount), released: quote.refundAmount }
+      : { action: "reverse", amount: quote.paidAmount };
+  }
+  return quote.refundAmount > 0 ? { action: "refund", amount: quote.refundAmount } : { action: "none" };
+};
@@ -0,0 +1,303 @@
+/**
+ * Tests for the booking, payment and myGO state machine
+ */
+
+import { describe, it, expect, vi, afterEach } from "vitest";
+import type { Env } from "../types/env";
+import type { BookingStatus, PaymentStatus } from "../types/booking";
+import { createServiceClient } from "../clients/supabaseClient";
+import { IllegalTransitionError } from "../middleware/errorHandler";
+import { Logger } from "./logger";
+import * as edgeMachine from "../../supabase/functions/_shared/bookingStateMachine";
+import {
+  canStartPayment,
+  canTransitionBooking,
+  canTransitionMyGoState,
+  canTransitionPayment,
+  initialBookingStatus,
+  paymentStatusFromCallback,
+  planPaymentCallback,
+  updateBookingStates,
+  updatePaymentStatus,
+  BOOKING_TRANSITIONS,
+  FUNDED_PAYMENT_STATUSES,
+  MYGO_STATE_TRANSITIONS,
+  PAYMENT_TRANSITIONS,
+  type BookingStateRow,
+} from "./bookingStateMachine";
+
+const BOOKING_STATUSES: BookingStatus[] = ["pending", "confirmed", "cancelled", "completed"];
+const PAYMENT_STATUSES: PaymentStatus[] = ["pending", "authorized", "captured", "failed", "reversed", "refunded"];
+const MYGO_STATES = ["OnRequest", "Confirmed", "Cancelled"];
+
+// Legal targets of each state, same-state moves included
+const LEGAL_BOOKING: Record<BookingStatus, BookingStatus[]> = {
+  pending: ["pending", "confirmed", "cancelled"],
+  confirmed: ["pending", "confirmed", "cancelled", "completed"],
+  cancelled: ["cancelled"],
+  completed: ["completed"],
+};
+
+const LEGAL_PAYMENT: Record<PaymentStatus, PaymentStatus[]> = {
+  pending: ["pending", "authorized", "captured", "failed", "reversed"],
+  authorized: ["authorized", "captured", "reversed"],
+  captured: ["captured", "refunded"],
+  failed: ["failed"],
+  reversed: ["reversed"],
+  refunded: ["refunded"],
+};
+
+const LEGAL_MYGO: Record<string, string[]> = {
+  OnRequest: ["OnRequest", "Confirmed", "Cancelled"],
+  Confirmed: ["OnRequest", "Confirmed", "Cancelled"],
+  Cancelled: ["Cancelled"],
+};
+
+const logger = new Logger();
+
+describe("transition tables", () => {
+  it.each(BOOKING_STATUSES)("should allow exactly the legal booking moves from %s", (from) => {
+    expect(BOOKING_STATUSES.filter((to) => canTransitionBooking(from, to))).toEqual(LEGAL_BOOKING[from]);
+  });
+
+  it.each(PAYMENT_STATUSES)("should allow exactly the legal payment moves from %s", (from) => {
+    expect(PAYMENT_STATUSES.filter((to) => canTransitionPayment(from, to))).toEqual(LEGAL_PAYMENT[from]);
+  });
+
+  it.each(MYGO_STATES)("should allow exactly the legal myGO moves from %s", (from) => {
+    expect(MYGO_STATES.filter((to) => canTransitionMyGoState(from, to))).toEqual(LEGAL_MYGO[from]);
+  });
+
+  it("should let other myGO states through, but never out of a cancellation", () => {
+    expect(canTransitionMyGoState(null, "Confirmed")).toBe(true);
+    expect(canTransitionMyGoState("Pending", "Confirmed")).toBe(true);
+    expect(canTransitionMyGoState("Confirmed", "Pending")).toBe(true);
+    expect(canTransitionMyGoState("Confirmed", null)).toBe(false);
+    expect(canTransitionMyGoState("Canceled", "Pending")).toBe(false);
+    expect(canTransitionMyGoState("CancelledWithFees", "Cancelled")).toBe(true);
+  });
+
+  it("should treat unknown stored statuses as final", () => {
+    expect(canTransitionPayment("paid" as PaymentStatus, "captured")).toBe(false);
+    expect(canTransitionBooking("failed" as BookingStatus, "confirmed")).toBe(false);
+  });
+});
+
+describe("initialBookingStatus / canStartPayment", () => {
+  it("should keep pre-bookings and on-request bookings pending", () => {
+    expect(initialBookingStatus("Confirmed", true)).toBe("pending");
+    expect(initialBookingStatus("OnRequest", false)).toBe("pending");
+    expect(initialBookingStatus("Confirmed", false)).toBe("confirmed");
+    expect(initialBookingStatus(undefined, false)).toBe("confirmed");
+  });
+
+  it("should start payments only for pending bookings without funds", () => {
+    expect(canStartPayment({ status: "pending", payment_status: "pending" })).toBe(true);
+    expect(canStartPayment({ status: "pending", payment_status: null })).toBe(true);
+    expect(canStartPayment({ status: "pending", payment_status: "authorized" })).toBe(false);
+    expect(canStartPayment({ status: "confirmed", payment_status: "pending" })).toBe(false);
+  });
+});
+
+describe("paymentStatusFromCallback", () => {
+  it("should map ClicToPay order statuses and action codes", () => {
+    expect([0, 1, 2, 3, 4, 5, 6].map((orderStatus) => paymentStatusFromCallback(orderStatus, 0))).toEqual([
+      "pending",
+      "authorized",
+      "captured",
+      "reversed",
+      "refunded",
+      "pending",
+      "failed",
+    ]);
+    expect(paymentStatusFromCallback(2, 116)).toBe("failed");
+  });
+});
+
+describe("planPaymentCallback", () => {
+  it("should confirm an open booking and redeem its promo code", () => {
+    expect(planPaymentCallback({ status: "pending" }, { status: "pending", payment_status: "pending" }, "authorized")).toEqual({
+      payment: "authorized",
+      booking: { status: "confirmed", paymentStatus: "authorized" },
+      effects: ["redeem_promo"],
+    });
+  });
+
+  it("should leave a cancelled booking cancelled and release late funds", () => {
+    expect(planPaymentCallback({ status: "pending" }, { status: "cancelled", payment_status: "failed" }, "captured")).toEqual({
+      payment: "captured",
+      booking: null,
+      effects: ["release_payment"],
+    });
+    expect(planPaymentCallback({ status: "pending" }, { status: "completed", payment_status: "captured" }, "failed")).toEqual({
+      payment: "failed",
+      booking: null,
+      effects: [],
+    });
+  });
+
+  it("should cancel an open booking on failure unless another payment holds funds", () => {
+    expect(planPaymentCallback({ status: "pending" }, { status: "pending", payment_status: "pending" }, "failed")).toEqual({
+      payment: "failed",
+      booking: { status: "cancelled", paymentStatus: "failed" },
+      effects: ["release_promo"],
+    });
+    expect(planPaymentCallback({ status: "pending" }, { status: "confirmed", payment_status: "authorized" }, "failed")).toEqual({
+      payment: "failed",
+      booking: null,
+      effects: [],
+    });
+    expect(planPaymentCallback({ status: "authorized" }, { status: "confirmed", payment_status: "authorized" }, "reversed")).toEqual({
+      payment: "reversed",
+      booking: { status: "cancelled", paymentStatus: "reversed" },
+      effects: ["release_promo"],
+    });
+  });
+
+  it("should leave bookings alone for pending results and amendment payments", () => {
+    expect(planPaymentCallback({ status: "pending" }, { status: "pending", payment_status: "pending" }, "pending")).toEqual({
+      payment: "pending",
+      booking: null,
+      effects: [],
+    });
+    expect(
+      planPaymentCallback({ status: "pending", amendment_id: "amendment-1" }, { status: "confirmed", payment_status: "captured" }, "failed")
+    ).toEqual({ payment: "failed", booking: null, effects: ["fail_amendment"] });
+    expect(
+      planPaymentCallback({ status: "pending", amendment_id: "amendment-1" }, { status: "confirmed", payment_status: "captured" }, "authorized")
+    ).toEqual({ payment: "authorized", booking: null, effects: [] });
+  });
+});
+
+describe("edge function copy", () => {
+  it("should have the same tables and decisions as the Worker", () => {
+    expect(edgeMachine.BOOKING_TRANSITIONS).toEqual(BOOKING_TRANSITIONS);
+    expect(edgeMachine.PAYMENT_TRANSITIONS).toEqual(PAYMENT_TRANSITIONS);
+    expect(edgeMachine.MYGO_STATE_TRANSITIONS).toEqual(MYGO_STATE_TRANSITIONS);
+    expect(edgeMachine.FUNDED_PAYMENT_STATUSES).toEqual(FUNDED_PAYMENT_STATUSES);
+
+    for (const from of PAYMENT_STATUSES) {
+      for (const bookingStatus of BOOKING_STATUSES) {
+        for (const next of LEGAL_PAYMENT[from]) {
+          const booking = { status: bookingStatus, payment_status: from };
+          expect(edgeMachine.planPaymentCallback({ status: from }, booking, next)).toEqual(
+            planPaymentCallback({ status: from }, booking, next)
+          );
+        }
+      }
+    }
+    for (const from of [...MYGO_STATES, "Pending", null]) {
+      for (const to of [...MYGO_STATES, "Pending"]) {
+        expect(edgeMachine.canTransitionMyGoState(from, to)).toBe(canTransitionMyGoState(from, to));
+      }
+    }
+  });
+});
+
+describe("updateBookingStates / updatePaymentStatus", () => {
+  const env = { SUPABASE_URL: "https://test.supabase.co", SUPABASE_SERVICE_ROLE_KEY: "test-service-key" } as Env;
+
+  const booking: BookingStateRow = {
+    id: "booking-1",
+    status: "cancelled",
+    payment_status: "reversed",
+    mygo_state: "Cancelled",
+    mygo_booking_id: 5001,
+  };
+
+  // updatedRows: rows the conditional update matches
+  const mockWrites = (updatedRows: unknown[] = [{ id: "updated" }]) => {
+    const writes: Array<{ url: string; body: any }> = [];
+    vi.spyOn(globalThis, "fetch").mockImplementation(async (input, init) => {
+      const url = typeof input === "string" ? input : input instanceof URL ? input.href : input.url;
+      writes.push({ url: decodeURIComponent(url), body: JSON.parse(String(init?.body)) });
+      return new Response(JSON.stringify(updatedRows), { status: 200, headers: { "Content-Type": "application/json" } });
+    });
+    return writes;
+  };
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("should reject and log an illegal booking transition without writing", async () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    const writes = mockWrites();
+
+    await expect(
+      updateBookingStates(createServiceClient(env), booking, { status: "confirmed", paymentStatus: "authorized" }, logger)
+    ).rejects.toBeInstanceOf(IllegalTransitionError);
+    expect(warn).toHaveBeenCalled();
+    expect(writes).toEqual([]);
+  });
+
+  it("should write legal changes only over the validated status", async () => {
+    const writes = mockWrites();
+
+    const { error } = await updateBookingStates(
+      createServiceClient(env),
+      { ...booking, status: "confirmed", payment_status: "authorized", mygo_state: "Confirmed" },
+      { status: "cancelled", paymentStatus: "reversed", mygoState: "Cancelled", columns: { refund_status: "completed" } },
+      logger
+    );
+
+    expect(error).toBeNull();
+    expect(writes).toHaveLength(1);
+    expect(writes[0].url).toContain("id=eq.booking-1");
+    expect(writes[0].url).toContain("status=eq.confirmed");
+    expect(writes[0].body).toMatchObject({
+      status: "cancelled",
+      payment_status: "reversed",
+      mygo_state: "Cancelled",
+      refund_status: "completed",
+    });
+  });
+
+  it("should start the states of a new reservation and payment afresh", async () => {
+    const writes = mockWrites();
+
+    await updateBookingStates(
+      createServiceClient(env),
+      { ...booking, status: "confirmed", payment_status: "refunded" },
+      { mygoBookingId: 6001, mygoState: "Confirmed", paymentStatus: "authorized", replacesPayment: true },
+      logger
+    );
+
+    expect(writes[0].body).toMatchObject({ mygo_booking_id: 6001, mygo_state: "Confirmed", payment_status: "authorized" });
+  });
+
+  it("should reject a late decline of a captured payment", async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    const writes = mockWrites();
+    const payment = { id: "payment-1", status: "captured" as PaymentStatus };
+
+    await expect(updatePaymentStatus(createServiceClient(env), payment, "failed", {}, logger)).rejects.toMatchObject({
+      statusCode: 409,
+      code: "ILLEGAL_STATE_TRANSITION",
+    });
+    await updatePaymentStatus(createServiceClient(env), payment, "refunded", { refunded_amount: 550 }, logger);
+    expect(writes).toHaveLength(1);
+    expect(writes[0].url).toContain("status=eq.captured");
+    expect(writes[0].body).toMatchObject({ status: "refunded", refunded_amount: 550 });
+  });
+
+  it("should treat an update matching no row as a conflict", async () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    const writes = mockWrites([]);
+
+    await expect(
+      updateBookingStates(
+        createServiceClient(env),
+        { ...booking, status: "pending", payment_status: "pending", mygo_state: "Confirmed" },
+        { status: "confirmed", paymentStatus: "authorized" },
+        logger
+      )
+    ).rejects.toBeInstanceOf(IllegalTransitionError);
+    await expect(
+      updatePaymentStatus(createServiceClient(env), { id: "payment-1", status: "pending" }, "authorized", {}, logger)
+    ).rejects.toMatchObject({ statusCode: 409, code: "ILLEGAL_STATE_TRANSITION" });
+    expect(writes).toHaveLength(2);
+    expect(writes[0].url).toContain("select=id");
+    expect(warn).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,192 @@
+/**
+ * Browsing history (browsing_history table): recent searches and viewed hotels
+ * Recorded by /hotels routes for users and guest sessions, listed by
+ * /profile/history
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Logger } from "./logger";
+import type { SessionOwner } from "./sessionOwner";
+import { toHotelSummary, type HotelSummary, type InventoryHotelRow } from "./hotelDetail";
+
+export type HistoryKind = "search" | "hotel";
+
+// Entries kept per owner and kind (older ones are trimmed when recording)
+export const HISTORY_LIMITS: Record<HistoryKind, number> = { search: 10, hotel: 20 };
+
+// Entries older than this are neither listed nor kept
+export const HISTORY_TTL_DAYS = 30;
+
+// Rows read past the limit when trimming
+const TRIM_BATCH = 50;
+
+export interface HistoryStay {
+  checkIn: string;
+  checkOut: string;
+  rooms: Array<{ adults: number; childrenAges: number[] }>;
+}
+
+export interface HistorySearch extends HistoryStay {
+  cityId: number;
+}
+
+export interface BrowsingHistoryRow {
+  id: number;
+  user_id: string | null;
+  guest_session_id: string | null;
+  kind: HistoryKind;
+  entry_key: string;
+  hotel_id: number | null;
+  payload: Record<string, unknown>;
+  viewed_at: string;
+}
+
+export interface HistoryEntry {
+  kind: HistoryKind;
+  key: string;
+  hotelId: number | null;
+  payload: Record<string, unknown>;
+}
+
+export interface RecentSearch extends HistorySearch {
+  searchedAt: string;
+}
+
+export interface ViewedHotel {
+  hotelId: number;
+  viewedAt: string;
+  // Stay the hotel was viewed for (null when viewed without dates)
+  stay: HistoryStay | null;
+  // null when the hotel is not (or no longer) in inventory_hotels
+  hotel: HotelSummary | null;
+}
+
+const normalizeRooms = (rooms: Array<{ adults: number; childrenAges?: number[] }>): HistoryStay["rooms"] =>
+  rooms.map((room) => ({ adults: room.adults, childrenAges: [...(room.childrenAges ?? [])].sort((a, b) => a - b) }));
+
+/**
+ * History entry of a city search; the same city, stay and occupancy is one entry
+ */
+export const toSearchHistoryEntry = (search: {
+  cityId: number;
+  checkIn: string;
+  checkOut: string;
+  rooms: Array<{ adults: number; childrenAges?: number[] }>;
+}): HistoryEntry => {
+  const payload: HistorySearch = {
+    cityId: search.cityId,
+    checkIn: search.checkIn,
+    checkOut: search.checkOut,
+    rooms: normalizeRooms(search.rooms),
+  };
+  return {
+    kind: "search",
+    key: JSON.stringify([payload.cityId, payload.checkIn, payload.checkOut, payload.rooms]),
+    hotelId: null,
+    payload: { ...payload },
+  };
+};
+
+/**
+ * History entry of a hotel view, with the stay when dates were given
+ */
+export const toHotelHistoryEntry = (
+  hotelId: number,
+  stay: { checkIn?: string; checkOut?: string; rooms?: Array<{ adults: number; childrenAges?: number[] }> }
+): HistoryEntry => ({
+  kind: "hotel",
+  key: String(hotelId),
+  hotelId,
+  payload:
+    stay.checkIn && stay.checkOut
+      ? { checkIn: stay.checkIn, checkOut: stay.checkOut, rooms: normalizeRooms(stay.rooms ?? [{ adults: 2 }]) }
+      : {},
+});
+
+/**
+ * Oldest viewed_at still listed
+ */
+export const getHistoryCutoff = (now: Date): string =>
+  new Date(now.getTime() - HISTORY_TTL_DAYS * 24 * 60 * 60 * 1000).toISOString();
+
+/**
+ * Record (or refresh) a history entry, then trim the owner's entries of that
+ * kind to the limit and the TTL. Failures are logged, never thrown: history
+ * is recorded in passing
+ */
+export const recordHistoryEntry = async (
+  supabase: SupabaseClient,
+  owner: SessionOwner,
+  entry: HistoryEntry,
+  logger: Logger,
+  now: Date = new Date()
+): Promise<void> => {
+  const { error } = await supabase.from("browsing_history").upsert(
+    {
+      [owner.column]: owner.id,
+      kind: entry.kind,
+      entry_key: entry.key,
+      hotel_id: entry.hotelId,
+      payload: entry.payload,
+      viewed_at: now.toISOString(),
+    },
+    { onConflict: `${owner.column},kind,entry_key` }
+  );
+
+  if (error) {
+    logger.warn("Failed to record browsing history", { kind: entry.kind, error: error.message });
+    return;
+  }
+
+  const limit = HISTORY_LIMITS[entry.kind];
+  const { data, error: listError } = await supabase
+    .from("browsing_history")
+    .select("id, viewed_at")
+    .eq(owner.column, owner.id)
+    .eq("kind", entry.kind)
+    .order("viewed_at", { ascending: false })
+    .range(0, limit + TRIM_BATCH - 1);
+
+  if (listError) {
+    logger.warn("Failed to list browsing history for trimming", { error: listError.message });
+    return;
+  }
+
+  const cutoff = Date.parse(getHistoryCutoff(now));
+  const staleIds = ((data ?? []) as Array<Pick<BrowsingHistoryRow, "id" | "viewed_at">>)
+    .filter((row, index) => index >= limit || Date.parse(row.viewed_at) < cutoff)
+    .map((row) => row.id);
+  if (staleIds.length === 0) {
+    return;
+  }
+
+  const { error: trimError } = await supabase.from("browsing_history").delete().in("id", staleIds);
+  if (trimError) {
+    logger.warn("Failed to trim browsing history", { error: trimError.message });
+  }
+};
+
+export const toRecentSearch = (row: BrowsingHistoryRow): RecentSearch => {
+  const payload = row.payload as unknown as HistorySearch;
+  return {
+    cityId: payload.cityId,
+    checkIn: payload.checkIn,
+    checkOut: payload.checkOut,
+    rooms: payload.rooms,
+    searchedAt: row.viewed_at,
+  };
+};
+
+export const toViewedHotel = (row: BrowsingHistoryRow, inventory: InventoryHotelRow | null): ViewedHotel => {
+  const payload = row.payload as Partial<HistoryStay>;
+  const hotelId = row.hotel_id!;
+  return {
+    hotelId,
+    viewedAt: row.viewed_at,
+    stay:
+      payload.checkIn && payload.checkOut
+        ? { checkIn: payload.checkIn, checkOut: payload.checkOut, rooms: payload.rooms ?? [] }
+        : null,
+    hotel: inventory ? toHotelSummary(hotelId, inventory) : null,
+  };
+};
@@ -0,0 +1,143 @@
+/**
+ * Tests for cancellation policy normalization
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  annotateFreeCancellation,
+  extractPolicyGroups,
+  formatPolicyDate,
+  normalizeCancellationPolicy,
+  parsePolicyDate,
+} from "./cancellationPolicy";
+
+const now = new Date("2026-06-01T10:00:00Z");
+const context = { checkIn: "2026-07-10", checkOut: "2026-07-14", totalPrice: 800, currency: "TND", now };
+
+describe("policy dates", () => {
+  it("should read myGO dates as Tunisia local time", () => {
+    const time = parsePolicyDate("2026-07-03 12:00:00");
+    expect(time).toBe(Date.parse("2026-07-03T11:00:00Z"));
+    expect(formatPolicyDate(time!)).toBe("2026-07-03T12:00:00+01:00");
+  });
+
+  it("should accept French formatted dates", () => {
+    expect(parsePolicyDate("03/07/2026")).toBe(parsePolicyDate("2026-07-03"));
+  });
+
+  it("should reject unknown formats", () => {
+    expect(parsePolicyDate("next week")).toBeNull();
+    expect(parsePolicyDate(42)).toBeNull();
+  });
+});
+
+describe("normalizeCancellationPolicy", () => {
+  it("should build a free bracket then dated penalty brackets", () => {
+    const policy = normalizeCancellationPolicy(
+      [
+        { FromDate: "2026-07-07", Percentage: 100 },
+        { FromDate: "2026-07-01", Percentage: 50 },
+      ],
+      context
+    );
+
+    expect(policy.known).toBe(true);
+    expect(policy.freeCancellationUntil).toBe("2026-07-01T00:00:00+01:00");
+    expect(policy.nonRefundable).toBe(false);
+    expect(policy.brackets).toEqual([
+      { from: null, to: "2026-07-01T00:00:00+01:00", kind: "none", value: 0, amount: 0, currency: "TND" },
+      { from: "2026-07-01T00:00:00+01:00", to: "2026-07-07T00:00:00+01:00", kind: "percent", value: 50, amount: 400, currency: "TND" },
+      { from: "2026-07-07T00:00:00+01:00", to: null, kind: "percent", value: 100, amount: 800, currency: "TND" },
+    ]);
+  });
+
+  it("should resolve rules relative to check-in", () => {
+    const policy = normalizeCancellationPolicy([{ Days: 3, Amount: 120, Type: "Montant" }], context);
+
+    expect(policy.freeCancellationUntil).toBe("2026-07-07T00:00:00+01:00");
+    expect(policy.brackets[1]).toMatchObject({ kind: "amount", value: 120, amount: 120 });
+  });
+
+  it("should compute per-night penalties", () => {
+    const policy = normalizeCancellationPolicy([{ Days: 2, Nights: 1 }], context);
+
+    expect(policy.brackets[1]).toMatchObject({ kind: "nights", value: 1, amount: 200 });
+  });
+
+  it("should read typed values", () => {
+    const policy = normalizeCancellationPolicy([{ Days: 5, Value: "30", Type: "Percent" }], context);
+
+    expect(policy.brackets[1]).toMatchObject({ kind: "percent", value: 30, amount: 240 });
+  });
+
+  it("should flag non-refundable offers", () => {
+    const policy = normalizeCancellationPolicy([{ FromDate: "2026-05-01", Percentage: 100 }], context);
+
+    expect(policy.nonRefundable).toBe(true);
+    expect(policy.freeCancellationUntil).toBeNull();
+  });
+
+  it("should treat zero penalties as free until check-in", () => {
+    const policy = normalizeCancellationPolicy([{ Days: 30, Percentage: 0 }], context);
+
+    expect(policy.freeCancellationUntil).toBe("2026-07-10T00:00:00+01:00");
+    expect(policy.brackets).toHaveLength(1);
+  });
+
+  it("should report unknown policies", () => {
+    expect(normalizeCancellationPolicy(undefined, context)).toEqual({
+      known: false,
+      freeCancellationUntil: null,
+      nonRefundable: false,
+      brackets: [],
+    });
+    expect(normalizeCancellationPolicy([{ Policy: "test" }], context).known).toBe(false);
+  });
+});
+
+describe("extractPolicyGroups", () => {
+  it("should read a flat rule list", () => {
+    const groups = extractPolicyGroups({ CancellationPolicy: [{ Days: 3, Percentage: 50 }] });
+
+    expect(groups).toEqual([
+      { roomId: null, roomName: null, boardCode: null, price: null, rules: [{ Days: 3, Percentage: 50 }] },
+    ]);
+  });
+
+  it("should read one rule list per room", () => {
+    const groups = extractPolicyGroups({
+      Policies: [
+        { RoomId: 1, Name: "Double", Boarding: "BB", Price: 500, CancellationPolicy: [{ Days: 3, Percentage: 50 }] },
+      ],
+    });
+
+    expect(groups[0]).toMatchObject({ roomId: 1, roomName: "Double", boardCode: "BB", price: 500 });
+  });
+
+  it("should return nothing for unrelated payloads", () => {
+    expect(extractPolicyGroups({ Hotel: {} })).toEqual([]);
+    expect(extractPolicyGroups(null)).toEqual([]);
+  });
+});
+
+describe("annotateFreeCancellation", () => {
+  it("should add freeCancellationUntil to every room", () => {
+    const [hotel] = annotateFreeCancellation(
+      [
+        {
+          id: 1,
+          name: "Hotel",
+          available: true,
+          rooms: [
+            { onRequest: false, price: 800, cancellationPolicy: [{ Days: 3, Percentage: 100 }] },
+            { onRequest: false, price: 700 },
+          ],
+        },
+      ],
+      context
+    );
+
+    expect(hotel.rooms[0].freeCancellationUntil).toBe("2026-07-07T00:00:00+01:00");
+    expect(hotel.rooms[1].freeCancellationUntil).toBeNull();
+  });
+});
@@ -0,0 +1,313 @@
+/**
+ * Cancellation policy normalization
+ *
+ * myGO returns cancellation policies as loosely typed arrays (search rooms and
+ * HotelCancellationPolicy). Each rule is either dated ("FromDate") or relative
+ * to check-in ("Days" before arrival) and carries a percentage, a fixed amount
+ * or a number of nights. This module turns them into a dated penalty timeline:
+ * free until X, then Y% / fixed amount until the next bracket.
+ *
+ * myGO dates carry no time zone; they are read as Tunisia local time (UTC+01:00,
+ * no daylight saving).
+ */
+
+import type { MyGoHotelSearchResult } from "../types/mygo";
+
+export type PenaltyKind = "none" | "percent" | "amount" | "nights";
+
+export interface CancellationPenaltyBracket {
+  from: string | null; // null = from booking time
+  to: string | null; // null = until check-in and beyond (no-show)
+  kind: PenaltyKind;
+  value: number; // percent (0-100), amount, or number of nights
+  amount: number | null; // penalty in currency when it can be computed
+  currency: string | null;
+}
+
+export interface NormalizedCancellationPolicy {
+  known: boolean; // false when myGO sent no usable rule
+  freeCancellationUntil: string | null;
+  nonRefundable: boolean;
+  brackets: CancellationPenaltyBracket[];
+}
+
+export interface CancellationPolicyContext {
+  checkIn: string; // YYYY-MM-DD
+  checkOut?: string; // YYYY-MM-DD, needed for per-night penalties
+  totalPrice?: number;
+  currency?: string;
+  now?: Date;
+}
+
+interface ParsedRule {
+  from: number; // epoch ms
+  kind: PenaltyKind;
+  value: number;
+  currency: string | null;
+}
+
+const TUNISIA_OFFSET = "+01:00";
+const TUNISIA_OFFSET_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const DATE_KEYS = ["FromDate", "DateFrom", "From", "StartDate", "Date", "fromDate"];
+const DAYS_KEYS = ["Days", "DaysBefore", "Delay", "NbDays", "NbrDays", "days"];
+const PERCENT_KEYS = ["Percentage", "Percent", "Pourcentage", "percentage"];
+const NIGHTS_KEYS = ["Nights", "Night", "NbNights", "nights"];
+const AMOUNT_KEYS = ["Amount", "Penalty", "Fee", "CancellationFee", "Price", "Value", "Montant", "cancellationFee"];
+const TYPE_KEYS = ["Type", "PenaltyType", "ChargeType", "type"];
+const CURRENCY_KEYS = ["Currency", "currency"];
+
+const pick = (record: Record<string, unknown>, keys: string[]): unknown =>
+  keys.map((key) => record[key]).find((value) => value !== undefined && value !== null && value !== "");
+
+const toNumber = (value: unknown): number | null => {
+  if (typeof value === "number") {
+    return Number.isFinite(value) ? value : null;
+  }
+  if (typeof value === "string") {
+    const parsed = Number(value.replace("%", "").replace(",", ".").trim());
+    return value.trim() !== "" && Number.isFinite(parsed) ? parsed : null;
+  }
+  return null;
+};
+
+/**
+ * Parse a myGO date ("2026-03-10", "2026-03-10 14:00:00", "10/03/2026 14:00")
+ * as Tunisia local time
+ */
+export const parsePolicyDate = (value: unknown): number | null => {
+  if (typeof value !== "string") {
+    return null;
+  }
+  const trimmed = value.trim();
+  const iso = /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2}))?)?/.exec(trimmed);
+  const french = /^(\d{2})\/(\d{2})\/(\d{4})(?:\s+(\d{2}):(\d{2})(?::(\d{2}))?)?/.exec(trimmed);
+  const parts = iso
+    ? [iso[1], iso[2], iso[3], iso[4], iso[5], iso[6]]
+    : french
+      ? [french[3], french[2], french[1], french[4], french[5], french[6]]
+      : null;
+  if (!parts) {
+    return null;
+  }
+  const [year, month, day, hours = "00", minutes = "00", seconds = "00"] = parts;
+  const time = Date.parse(`${year}-${month}-${day}T${hours}:${minutes}:${seconds}${TUNISIA_OFFSET}`);
+  return Number.isNaN(time) ? null : time;
+};
+
+/**
+ * Format epoch ms as an ISO string in Tunisia local time
+ */
+export const formatPolicyDate = (time: number): string =>
+  new Date(time + TUNISIA_OFFSET_MS).toISOString().slice(0, 19) + TUNISIA_OFFSET;
+
+const checkInTime = (checkIn: string): number => parsePolicyDate(checkIn)!;
+
+const parseRule = (entry: unknown, checkIn: string): ParsedRule | null => {
+  if (!entry || typeof entry !== "object") {
+    return null;
+  }
+  const record = entry as Record<string, unknown>;
+
+  let from = parsePolicyDate(pick(record, DATE_KEYS));
+  if (from === null) {
+    const days = toNumber(pick(record, DAYS_KEYS));
+    if (days === null) {
+      return null;
+    }
+    from = checkInTime(checkIn) - days * DAY_MS;
+  }
+
+  const currency = (pick(record, CURRENCY_KEYS) as string | undefined) ?? null;
+  const type = String(pick(record, TYPE_KEYS) ?? "").toLowerCase();
+
+  const percent = toNumber(pick(record, PERCENT_KEYS));
+  if (percent !== null) {
+    return { from, kind: percent > 0 ? "percent" : "none", value: Math.min(percent, 100), currency };
+  }
+  const nights = toNumber(pick(record, NIGHTS_KEYS));
+  if (nights !== null) {
+    return { from, kind: nights > 0 ? "nights" : "none", value: nights, currency };
+  }
+  const amount = toNumber(pick(record, AMOUNT_KEYS));
+  if (amount === null) {
+    return null;
+  }
+  if (amount <= 0) {
+    return { from, kind: "none", value: 0, currency };
+  }
+  const isPercent =
+    type.includes("percent") || type.includes("pourcent") || type === "%" || type === "p";
+  const isNights = type.includes("night") || type.includes("nuit");
+  if (isPercent) {
+    return { from, kind: "percent", value: Math.min(amount, 100), currency };
+  }
+  if (isNights) {
+    return { from, kind: "nights", value: amount, currency };
+  }
+  return { from, kind: "amount", value: amount, currency };
+};
+
+const countNights = (checkIn: string, checkOut?: string): number | null => {
+  if (!checkOut) {
+    return null;
+  }
+  const nights = Math.round((checkInTime(checkOut) - checkInTime(checkIn)) / DAY_MS);
+  return nights > 0 ? nights : null;
+};
+
+const computeAmount = (
+  rule: Pick<ParsedRule, "kind" | "value">,
+  context: CancellationPolicyContext,
+): number | null => {
+  const round = (value: number) => Math.round(value * 1000) / 1000;
+  switch (rule.kind) {
+    case "none":
+      return 0;
+    case "amount":
+      return rule.value;
+    case "percent":
+      return context.totalPrice !== undefined ? round((context.totalPrice * rule.value) / 100) : null;
+    case "nights": {
+      const nights = countNights(context.checkIn, context.checkOut);
+      return context.totalPrice !== undefined && nights
+        ? round((context.totalPrice / nights) * Math.min(rule.value, nights))
+        : null;
+    }
+  }
+};
+
+/**
+ * Normalize raw myGO cancellation rules into a dated penalty timeline
+ * Brackets are contiguous and ordered; a rule at the same date as a previous
+ * one replaces it
+ */
+export const normalizeCancellationPolicy = (
+  rawPolicy: unknown,
+  context: CancellationPolicyContext,
+): NormalizedCancellationPolicy => {
+  const entries = Array.isArray(rawPolicy) ? rawPolicy : rawPolicy ? [rawPolicy] : [];
+  const byDate = new Map<number, ParsedRule>();
+  for (const entry of entries) {
+    const rule = parseRule(entry, context.checkIn);
+    if (rule) {
+      byDate.set(rule.from, rule);
+    }
+  }
+  const rules = Array.from(byDate.values()).sort((a, b) => a.from - b.from);
+
+  if (rules.length === 0) {
+    return { known: false, freeCancellationUntil: null, nonRefundable: false, brackets: [] };
+  }
+
+  const now = (context.now ?? new Date()).getTime();
+  const currency = context.currency ?? null;
+  const brackets: CancellationPenaltyBracket[] = [];
+
+  if (rules[0].kind !== "none") {
+    brackets.push({
+      from: null,
+      to: formatPolicyDate(rules[0].from),
+      kind: "none",
+      value: 0,
+      amount: 0,
+      currency,
+    });
+  }
+
+  rules.forEach((rule, index) => {
+    const next = rules[index + 1];
+    brackets.push({
+      from: index === 0 && rule.kind === "none" ? null : formatPolicyDate(rule.from),
+      to: next ? formatPolicyDate(next.from) : null,
+      kind: rule.kind,
+      value: rule.value,
+      amount: computeAmount(rule, context),
+      currency: rule.currency ?? currency,
+    });
+  });
+
+  // Free cancellation ends where the first paying bracket starts
+  const firstPaying = rules.find((rule) => rule.kind !== "none");
+  const freeUntil = firstPaying ? firstPaying.from : checkInTime(context.checkIn);
+  const freeCancellationUntil = freeUntil > now ? formatPolicyDate(freeUntil) : null;
+
+  // Non-refundable when the penalty applying right now is the full price
+  const currentRule = [...rules].reverse().find((rule) => rule.from <= now);
+  const currentAmount = currentRule ? computeAmount(currentRule, context) : null;
+  const nonRefundable =
+    currentRule !== undefined &&
+    ((currentRule.kind === "percent" && currentRule.value >= 100) ||
+      (currentAmount !== null && context.totalPrice !== undefined && currentAmount >= context.totalPrice && currentAmount > 0));
+
+  return { known: true, freeCancellationUntil, nonRefundable, brackets };
+};
+
+/**
+ * Add freeCancellationUntil to every room of search results
+ * null when the room has no free cancellation window left or no known policy
+ */
+export const annotateFreeCancellation = (
+  hotels: MyGoHotelSearchResult[],
+  context: { checkIn: string; checkOut?: string; currency?: string; now?: Date },
+): MyGoHotelSearchResult[] =>
+  hotels.map((hotel) => ({
+    ...hotel,
+    rooms: hotel.rooms.map((room) => {
+      const policy = normalizeCancellationPolicy(room.cancellationPolicy, {
+        ...context,
+        totalPrice: room.price,
+      });
+      return { ...room, freeCancellationUntil: policy.freeCancellationUntil };
+    }),
+  }));
+
+export interface RawPolicyGroup {
+  roomId: number | null;
+  roomName: string | null;
+  boardCode: string | null;
+  price: number | null;
+  rules: unknown[];
+}
+
+const POLICY_LIST_KEY = /^(cancellation_?polic(y|ies)|policies)$/i;
+
+const findPolicyList = (record: Record<string, unknown>): unknown[] | null => {
+  const key = Object.keys(record).find((candidate) => POLICY_LIST_KEY.test(candidate));
+  return key && Array.isArray(record[key]) ? (record[key] as unknown[]) : null;
+};
+
+/**
+ * Extract policy rules from a HotelCancellationPolicy response
+ * Handles a flat rule list as well as one list per room
+ */
+export const extractPolicyGroups = (data: unknown): RawPolicyGroup[] => {
+  if (!data || typeof data !== "object") {
+    return [];
+  }
+  const list = Array.isArray(data) ? data : findPolicyList(data as Record<string, unknown>);
+  if (!list || list.length === 0) {
+    return [];
+  }
+
+  const perRoom = list.every(
+    (item) => item && typeof item === "object" && findPolicyList(item as Record<string, unknown>) !== null
+  );
+  if (!perRoom) {
+    return [{ roomId: null, roomName: null, boardCode: null, price: null, rules: list }];
+  }
+
+  return list.map((item) => {
+    const record = item as Record<string, unknown>;
+    return {
+      roomId: toNumber(record.RoomId ?? record.Id),
+      roomName: typeof record.Name === "string" ? record.Name : null,
+      boardCode: typeof (record.Boarding ?? record.BoardCode) === "string"
+        ? String(record.Boarding ?? record.BoardCode)
+        : null,
+      price: toNumber(record.Price),
+      rules: findPolicyList(record) ?? [],
+    };
+  });
+};
@@ -0,0 +1,104 @@
+/**
+ * Tests for display currencies and exchange rates
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  annotateDisplayPrices,
+  convertFromTnd,
+  getMinorUnits,
+  pickCurrentRates,
+  resolveDisplayRate,
+  roundToMinorUnits,
+  toDisplayInfo,
+  toExchangeRate,
+  toMinorUnits,
+  type ExchangeRate,
+} from "./currency";
+import type { MyGoHotelSearchResult } from "../types/mygo";
+
+const rate = (currency: string, tndPerUnit: number, effectiveAt: string, id = 1): ExchangeRate => ({
+  id,
+  currency,
+  tndPerUnit,
+  effectiveAt,
+  note: null,
+});
+
+describe("minor units", () => {
+  it("should use the ISO 4217 decimals of each currency", () => {
+    expect(getMinorUnits("TND")).toBe(3);
+    expect(getMinorUnits("eur")).toBe(2);
+    expect(getMinorUnits("JPY")).toBe(0);
+  });
+
+  it("should round without float noise", () => {
+    expect(toMinorUnits(123.456, "TND")).toBe(123456);
+    expect(toMinorUnits(1.005, "EUR")).toBe(101);
+    expect(roundToMinorUnits(10.0005, "TND")).toBe(10.001);
+    expect(roundToMinorUnits(1234.5, "JPY")).toBe(1235);
+  });
+});
+
+describe("convertFromTnd", () => {
+  it("should convert at the rate and round to the target minor units", () => {
+    expect(convertFromTnd(250, rate("EUR", 3.35, "2026-06-01T00:00:00Z"))).toBe(74.63);
+    expect(convertFromTnd(100, rate("JPY", 0.0208, "2026-06-01T00:00:00Z"))).toBe(4808);
+    expect(convertFromTnd(100, rate("LYD", 0.62, "2026-06-01T00:00:00Z"))).toBe(161.29);
+  });
+
+  it("should keep TND amounts unchanged with the identity rate", () => {
+    const tnd = resolveDisplayRate([], "TND")!;
+
+    expect(convertFromTnd(123.4567, tnd)).toBe(123.457);
+    expect(toDisplayInfo(tnd)).toEqual({ currency: "TND", rate: 1, rateId: null, effectiveAt: null });
+  });
+});
+
+describe("pickCurrentRates / resolveDisplayRate", () => {
+  it("should keep the latest snapshot in effect per currency", () => {
+    const now = new Date("2026-06-15T00:00:00Z");
+    const rates = [
+      rate("USD", 3.1, "2026-05-01T00:00:00Z", 1),
+      rate("EUR", 3.3, "2026-05-01T00:00:00Z", 2),
+      rate("EUR", 3.35, "2026-06-01T00:00:00Z", 3),
+      rate("EUR", 3.4, "2026-07-01T00:00:00Z", 4), // scheduled
+    ];
+
+    const current = pickCurrentRates(rates, now);
+
+    expect(current.map((r) => [r.currency, r.id])).toEqual([
+      ["EUR", 3],
+      ["USD", 1],
+    ]);
+    expect(resolveDisplayRate(current, "EUR")?.tndPerUnit).toBe(3.35);
+    expect(resolveDisplayRate(current, "GBP")).toBeNull();
+  });
+
+  it("should map numeric strings from exchange_rates rows", () => {
+    expect(
+      toExchangeRate({ id: 9, currency: "EUR", tnd_per_unit: "3.35000000", effective_at: "2026-06-01", note: "BCT" })
+    ).toEqual({ id: 9, currency: "EUR", tndPerUnit: 3.35, effectiveAt: "2026-06-01", note: "BCT" });
+  });
+});
+
+describe("annotateDisplayPrices", () => {
+  it("should add display prices to priced rooms only", () => {
+    const hotels: MyGoHotelSearchResult[] = [
+      {
+        id: 101,
+        name: "Hotel Sousse Palace",
+        available: true,
+        rooms: [
+          { onRequest: false, roomId: 1, price: 335 },
+          { onRequest: true, roomId: 2 },
+        ],
+      },
+    ];
+
+    const [hotel] = annotateDisplayPrices(hotels, rate("EUR", 3.35, "2026-06-01T00:00:00Z"));
+
+    expect(hotel.rooms[0]).toMatchObject({ price: 335, displayPrice: { amount: 100, currency: "EUR" } });
+    expect(hotel.rooms[1].displayPrice).toBeUndefined();
+  });
+});
@@ -0,0 +1,148 @@
+/**
+ * Display currencies and exchange rates
+ *
+ * Prices are searched, booked and paid in TND (settlement currency). Customers
+ * may see them in another display currency, converted with admin-maintained
+ * rate snapshots (exchange_rates table, one row per change, kept as history).
+ * A rate is the number of TND for one unit of the currency (1 EUR = 3.35 TND).
+ *
+ * Amounts are rounded to the minor units of their currency (ISO 4217):
+ * TND has 3 decimals (millimes), EUR/USD 2, JPY none.
+ */
+
+import type { MyGoHotelSearchResult } from "../types/mygo";
+
+export const SETTLEMENT_CURRENCY = "TND";
+
+// ISO 4217 minor units; currencies not listed use 2
+const MINOR_UNITS: Record<string, number> = {
+  TND: 3,
+  LYD: 3,
+  KWD: 3,
+  BHD: 3,
+  OMR: 3,
+  JOD: 3,
+  IQD: 3,
+  JPY: 0,
+  KRW: 0,
+  XOF: 0,
+  XAF: 0,
+};
+
+export interface ExchangeRate {
+  id: number | null; // null for the settlement currency itself
+  currency: string;
+  tndPerUnit: number;
+  effectiveAt: string; // ISO timestamp
+  note: string | null;
+}
+
+export interface ExchangeRateRow {
+  id: number;
+  currency: string;
+  tnd_per_unit: number | string;
+  effective_at: string;
+  note: string | null;
+}
+
+export interface DisplayPrice {
+  amount: number;
+  currency: string;
+}
+
+// Display block of search and booking responses
+export interface DisplayInfo {
+  currency: string;
+  rate: number; // TND per unit
+  rateId: number | null;
+  effectiveAt: string | null;
+}
+
+/**
+ * Number of decimals of a currency
+ */
+export const getMinorUnits = (currency: string): number => MINOR_UNITS[currency.toUpperCase()] ?? 2;
+
+/**
+ * Amount as an integer number of minor units (e.g. millimes for TND)
+ */
+export const toMinorUnits = (amount: number, currency: string): number =>
+  // toFixed strips float noise (1.005 * 100 = 100.49999...) before rounding
+  Math.round(Number((amount * 10 ** getMinorUnits(currency)).toFixed(6)));
+
+/**
+ * Round an amount to the minor units of its currency
+ */
+export const roundToMinorUnits = (amount: number, currency: string): number =>
+  toMinorUnits(amount, currency) / 10 ** getMinorUnits(currency);
+
+/**
+ * Map an exchange_rates row (numeric columns may come back as strings)
+ */
+export const toExchangeRate = (row: ExchangeRateRow): ExchangeRate => ({
+  id: row.id,
+  currency: row.currency,
+  tndPerUnit: Number(row.tnd_per_unit),
+  effectiveAt: row.effective_at,
+  note: row.note,
+});
+
+/**
+ * Current rate per currency: the latest snapshot already in effect
+ */
+export const pickCurrentRates = (rates: ExchangeRate[], now: Date = new Date()): ExchangeRate[] => {
+  const current = new Map<string, ExchangeRate>();
+  for (const rate of rates) {
+    if (Date.parse(rate.effectiveAt) > now.getTime()) {
+      continue;
+    }
+    const known = current.get(rate.currency);
+    if (!known || Date.parse(rate.effectiveAt) > Date.parse(known.effectiveAt)) {
+      current.set(rate.currency, rate);
+    }
+  }
+  return Array.from(current.values()).sort((a, b) => a.currency.localeCompare(b.currency));
+};
+
+/**
+ * Rate for a display currency (TND converts 1:1), null when no rate is known
+ */
+export const resolveDisplayRate = (rates: ExchangeRate[], currency: string): ExchangeRate | null => {
+  if (currency === SETTLEMENT_CURRENCY) {
+    return { id: null, currency, tndPerUnit: 1, effectiveAt: new Date(0).toISOString(), note: null };
+  }
+  return rates.find((rate) => rate.currency === currency) ?? null;
+};
+
+/**
+ * Convert a TND amount to the rate's currency, at its minor units
+ * The TND amount is taken at millime precision first
+ */
+export const convertFromTnd = (amountTnd: number, rate: ExchangeRate): number =>
+  roundToMinorUnits(toMinorUnits(amountTnd, SETTLEMENT_CURRENCY) / 1000 / rate.tndPerUnit, rate.currency);
+
+/**
+ * Display block describing the rate used in a response
+ */
+export const toDisplayInfo = (rate: ExchangeRate): DisplayInfo => ({
+  currency: rate.currency,
+  rate: rate.tndPerUnit,
+  rateId: rate.id,
+  effectiveAt: rate.id === null ? null : rate.effectiveAt,
+});
+
+/**
+ * Add displayPrice to every priced room (price stays in TND)
+ */
+export const annotateDisplayPrices = (
+  hotels: MyGoHotelSearchResult[],
+  rate: ExchangeRate,
+): MyGoHotelSearchResult[] =>
+  hotels.map((hotel) => ({
+    ...hotel,
+    rooms: hotel.rooms.map((room) =>
+      typeof room.price === "number"
+        ? { ...room, displayPrice: { amount: convertFromTnd(room.price, rate), currency: rate.currency } }
+        : room
+    ),
+  }));
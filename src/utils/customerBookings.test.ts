@@ -0,0 +1,86 @@
+/**
+ * Tests for the customer booking list projection and myGO state refresh
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  findBookingStateChanges,
+  getBookingStateWindow,
+  toBookingSummary,
+  type BookingSummaryRow,
+} from "./customerBookings";
+
+const row = (overrides: Partial<BookingSummaryRow> = {}): BookingSummaryRow => ({
+  id: "booking-1",
+  hotel_id: 101,
+  hotel_name: "Hotel Sousse",
+  check_in: "2026-07-10",
+  check_out: "2026-07-14",
+  status: "confirmed",
+  payment_status: "authorized",
+  total_price: "550.000",
+  currency: "TND",
+  display_currency: null,
+  display_total_price: null,
+  mygo_booking_id: 5001,
+  mygo_state: "Pending",
+  created_at: "2026-06-01T10:00:00Z",
+  ...overrides,
+});
+
+describe("toBookingSummary", () => {
+  it("should project the summary fields with numeric amounts", () => {
+    expect(toBookingSummary(row({ display_currency: "EUR", display_total_price: "165.50" }))).toEqual({
+      id: "booking-1",
+      hotelId: 101,
+      hotelName: "Hotel Sousse",
+      checkIn: "2026-07-10",
+      checkOut: "2026-07-14",
+      status: "confirmed",
+      paymentStatus: "authorized",
+      totalPrice: 550,
+      currency: "TND",
+      display: { currency: "EUR", totalPrice: 165.5 },
+      mygoState: "Pending",
+      createdAt: "2026-06-01T10:00:00Z",
+    });
+  });
+});
+
+describe("getBookingStateWindow", () => {
+  it("should cover the check-ins of bookings that can still change", () => {
+    const window = getBookingStateWindow([
+      row({ id: "a", mygo_booking_id: 1, check_in: "2026-08-01" }),
+      row({ id: "b", mygo_booking_id: 2, check_in: "2026-07-01", status: "pending" }),
+      row({ id: "c", mygo_booking_id: 3, check_in: "2026-01-01", status: "cancelled" }),
+      row({ id: "d", mygo_booking_id: null, check_in: "2025-12-01" }),
+    ]);
+
+    expect(window).toEqual({ mygoBookingIds: [1, 2], fromCheckIn: "2026-07-01", toCheckIn: "2026-08-01" });
+  });
+
+  it("should return null when nothing can be refreshed", () => {
+    expect(getBookingStateWindow([row({ status: "completed" }), row({ mygo_booking_id: null })])).toBeNull();
+    expect(getBookingStateWindow([])).toBeNull();
+  });
+});
+
+describe("findBookingStateChanges", () => {
+  it("should keep only changed states of refreshable bookings", () => {
+    const rows = [
+      row({ id: "a", mygo_booking_id: 1, mygo_state: "Pending" }),
+      row({ id: "b", mygo_booking_id: 2, mygo_state: "Confirmed" }),
+      row({ id: "c", mygo_booking_id: 3, status: "cancelled", mygo_state: "Cancelled" }),
+      row({ id: "d", mygo_booking_id: 4, mygo_state: "Pending" }),
+    ];
+
+    const changes = findBookingStateChanges(rows, [
+      { bookingId: 1, state: "Confirmed" },
+      { bookingId: 2, state: "Confirmed" },
+      { bookingId: 3, state: "Confirmed" },
+      { bookingId: 99, state: "Cancelled" },
+    ]);
+
+    expect(changes).toEqual([{ id: "a", mygoBookingId: 1, state: "Confirmed" }]);
+  });
+});
@@ -0,0 +1,133 @@
+/**
+ * Customer booking list ("my bookings", GET /bookings)
+ * Bookings of the signed-in user or guest session split into tabs, as a
+ * summary projection. The myGO state of the listed bookings can be refreshed
+ * in bulk with one BookingList call over their check-in window instead of a
+ * BookingDetails call per booking.
+ */
+
+import type { BookingStatus, PaymentStatus } from "../types/booking";
+import type { MyGoBookingListItem } from "../types/mygo";
+
+export const BOOKING_TABS = ["upcoming", "past", "cancelled"] as const;
+export type BookingTab = (typeof BOOKING_TABS)[number];
+
+// Bookings whose myGO state can still change (same as GET /bookings/:id)
+export const REFRESHABLE_STATUSES: BookingStatus[] = ["pending", "confirmed"];
+
+// Columns of the summary projection
+export const BOOKING_SUMMARY_COLUMNS = [
+  "id",
+  "hotel_id",
+  "hotel_name",
+  "check_in",
+  "check_out",
+  "status",
+  "payment_status",
+  "total_price",
+  "currency",
+  "display_currency",
+  "display_total_price",
+  "mygo_booking_id",
+  "mygo_state",
+  "created_at",
+].join(", ");
+
+export interface BookingSummaryRow {
+  id: string;
+  hotel_id: number;
+  hotel_name: string;
+  check_in: string;
+  check_out: string;
+  status: BookingStatus;
+  payment_status: PaymentStatus;
+  total_price: number | string;
+  currency: string;
+  display_currency: string | null;
+  display_total_price: number | string | null;
+  mygo_booking_id: number | null;
+  mygo_state: string | null;
+  created_at: string;
+}
+
+export interface BookingSummary {
+  id: string;
+  hotelId: number;
+  hotelName: string;
+  checkIn: string;
+  checkOut: string;
+  status: BookingStatus;
+  paymentStatus: PaymentStatus;
+  totalPrice: number;
+  currency: string;
+  display: { currency: string; totalPrice: number } | null;
+  mygoState: string | null;
+  createdAt: string;
+}
+
+export interface BookingStateWindow {
+  mygoBookingIds: number[];
+  fromCheckIn: string;
+  toCheckIn: string;
+}
+
+export interface BookingStateChange {
+  id: string;
+  mygoBookingId: number;
+  state: string;
+}
+
+export const toBookingSummary = (row: BookingSummaryRow): BookingSummary => ({
+  id: row.id,
+  hotelId: row.hotel_id,
+  hotelName: row.hotel_name,
+  checkIn: row.check_in,
+  checkOut: row.check_out,
+  status: row.status,
+  paymentStatus: row.payment_status,
+  totalPrice: Number(row.total_price),
+  currency: row.currency,
+  display:
+    row.display_currency && row.display_total_price !== null
+      ? { currency: row.display_currency, totalPrice: Number(row.display_total_price) }
+      : null,
+  mygoState: row.mygo_state,
+  createdAt: row.created_at,
+});
+
+/**
+ * myGO bookings of a page to refresh and the check-in window covering them
+ * (null when none of them can still change)
+ */
+export const getBookingStateWindow = (rows: BookingSummaryRow[]): BookingStateWindow | null => {
+  const refreshable = rows.filter(
+    (row) => row.mygo_booking_id !== null && REFRESHABLE_STATUSES.includes(row.status)
+  );
+  if (refreshable.length === 0) {
+    return null;
+  }
+  const checkIns = refreshable.map((row) => row.check_in).sort();
+  return {
+    mygoBookingIds: refreshable.map((row) => row.mygo_booking_id!),
+    fromCheckIn: checkIns[0],
+    toCheckIn: checkIns[checkIns.length - 1],
+  };
+};
+
+/**
+ * Refreshable bookings whose myGO state differs from the listed one
+ * Bookings missing from the list keep their state
+ */
+export const findBookingStateChanges = (
+  rows: BookingSummaryRow[],
+  listed: MyGoBookingListItem[]
+): BookingStateChange[] => {
+  const states = new Map(listed.map((item) => [item.bookingId, item.state]));
+  return rows.flatMap((row) => {
+    if (row.mygo_booking_id === null || !REFRESHABLE_STATUSES.includes(row.status)) {
+      return [];
+    }
+    const state = states.get(row.mygo_booking_id);
+    return state && state !== row.mygo_state ? [{ id: row.id, mygoBookingId: row.mygo_booking_id, state }] : [];
+  });
+};
@@ -0,0 +1,125 @@
+/**
+ * Tests for deals sampling, "from" prices and landing page slugs
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  buildCitySlugs,
+  extractDealPrices,
+  getUpcomingWeekends,
+  selectTopDeals,
+  slugify,
+  summarizeCityPrices,
+  toHotelSlug,
+  type DealHotelPrice,
+} from "./deals";
+import type { MyGoHotelSearchResult } from "../types/mygo";
+
+const dealPrice = (overrides: Partial<DealHotelPrice>): DealHotelPrice => ({
+  cityId: 10,
+  hotelId: 101,
+  boardType: "HB",
+  pricePerNight: 100,
+  averagePricePerNight: 100,
+  stayCount: 4,
+  price: 200,
+  checkIn: "2026-07-03",
+  checkOut: "2026-07-05",
+  sampledAt: "2026-06-30T06:15:00Z",
+  ...overrides,
+});
+
+describe("slugs", () => {
+  it("should strip accents and punctuation", () => {
+    expect(slugify("Hôtels à Sousse")).toBe("hotels-a-sousse");
+    expect(slugify("Djerba – Midoun")).toBe("djerba-midoun");
+    expect(toHotelSlug({ id: 101, name: "Hôtel L'Orangeraie" })).toBe("hotel-lorangeraie-101");
+    expect(toHotelSlug({ id: 102, name: "فندق" })).toBe("hotel-102");
+  });
+
+  it("should keep city slugs unique", () => {
+    const slugs = buildCitySlugs([
+      { id: 34, name: "Sousse", region: null },
+      { id: 10, name: "Sousse", region: null },
+      { id: 12, name: "تونس", region: null },
+    ]);
+
+    expect(slugs.get(10)).toBe("sousse");
+    expect(slugs.get(34)).toBe("sousse-34");
+    expect(slugs.get(12)).toBe("city-12");
+  });
+});
+
+describe("getUpcomingWeekends", () => {
+  it("should start with the next Friday after today", () => {
+    // Friday: the current weekend has started, sampling begins a week later
+    const weekends = getUpcomingWeekends(new Date("2026-07-03T06:15:00Z"), 2);
+
+    expect(weekends).toEqual([
+      { checkIn: "2026-07-10", checkOut: "2026-07-12", nights: 2 },
+      { checkIn: "2026-07-17", checkOut: "2026-07-19", nights: 2 },
+    ]);
+    expect(getUpcomingWeekends(new Date("2026-07-01T06:15:00Z"), 1)[0].checkIn).toBe("2026-07-03");
+  });
+});
+
+describe("extractDealPrices", () => {
+  it("should keep the lowest bookable price per hotel and canonical board", () => {
+    const hotels: MyGoHotelSearchResult[] = [
+      {
+        id: 101,
+        name: "Hotel Sousse Palace",
+        available: true,
+        rooms: [
+          { onRequest: false, roomId: 1, roomName: "Double", price: 260, boardType: "HB" },
+          { onRequest: false, roomId: 2, roomName: "Double vue mer", price: 300, boardType: "HB" },
+          { onRequest: true, roomId: 3, roomName: "Suite", price: 150, boardType: "HB" },
+          { onRequest: false, roomId: 4, roomName: "Double", price: 180, boardType: null },
+          { onRequest: false, roomId: 5, roomName: "Double", price: 401, boardType: "AI" },
+        ],
+      },
+      { id: 102, name: "Hotel Closed", available: false, rooms: [] },
+    ];
+
+    expect(extractDealPrices(hotels, { checkIn: "2026-07-03", checkOut: "2026-07-05", nights: 2 })).toEqual([
+      { hotelId: 101, boardType: "HB", price: 260, pricePerNight: 130, roomId: 1, roomName: "Double" },
+      { hotelId: 101, boardType: "AI", price: 401, pricePerNight: 200.5, roomId: 5, roomName: "Double" },
+    ]);
+  });
+});
+
+describe("deal summaries", () => {
+  it("should give each city its cheapest stay and lowest price per board", () => {
+    const summaries = summarizeCityPrices([
+      dealPrice({ hotelId: 101, boardType: "HB", pricePerNight: 95 }),
+      dealPrice({ hotelId: 101, boardType: "AI", pricePerNight: 140 }),
+      dealPrice({ hotelId: 102, boardType: "HB", pricePerNight: 89, checkIn: "2026-07-10", checkOut: "2026-07-12" }),
+      dealPrice({ cityId: 20, hotelId: 201, pricePerNight: 70 }),
+    ]);
+
+    expect(summaries.map((summary) => summary.cityId)).toEqual([10, 20]);
+    expect(summaries[0]).toMatchObject({
+      hotelCount: 2,
+      fromPrice: { pricePerNight: 89, currency: "TND", boardType: "HB", checkIn: "2026-07-10" },
+      boards: { HB: 89, AI: 140 },
+    });
+  });
+
+  it("should rank top deals by saving against the average, one per hotel", () => {
+    const deals = selectTopDeals(
+      [
+        dealPrice({ hotelId: 101, boardType: "HB", pricePerNight: 80, averagePricePerNight: 100 }),
+        dealPrice({ hotelId: 101, boardType: "AI", pricePerNight: 120, averagePricePerNight: 160 }),
+        dealPrice({ hotelId: 102, pricePerNight: 97, averagePricePerNight: 100 }),
+        dealPrice({ hotelId: 103, pricePerNight: 50, averagePricePerNight: 90, stayCount: 1 }),
+        dealPrice({ hotelId: 104, pricePerNight: 90, averagePricePerNight: 100 }),
+      ],
+      10
+    );
+
+    expect(deals.map((deal) => [deal.hotelId, deal.fromPrice.boardType, deal.savingsPercent])).toEqual([
+      [101, "AI", 25],
+      [104, "HB", 10],
+    ]);
+  });
+});
@@ -0,0 +1,306 @@
+/**
+ * Deals feed and city landing data
+ *
+ * The deals job samples myGO searches for popular cities and upcoming
+ * weekends and keeps the lowest customer price per hotel and board
+ * (deal_prices table). Public /deals routes turn the aggregates into "from"
+ * prices per city and hotel, a top deals list and sitemap slugs built from
+ * the inventory tables.
+ */
+
+import type { MyGoHotelSearchResult, MyGoRoom } from "../types/mygo";
+import { normalizeText } from "./autocomplete";
+import { isCanonicalBoard, type CanonicalBoard } from "./boardNormalization";
+import { addDays } from "./priceCalendar";
+
+// Upcoming weekends sampled per city (Friday to Sunday)
+export const DEAL_WEEKENDS = 4;
+
+// Occupancy of sampled prices ("from" prices are for a double room)
+export const DEAL_OCCUPANCY: MyGoRoom[] = [{ adults: 2 }];
+
+// Hotels need at least this saving against their average to be a top deal
+export const MIN_DEAL_SAVINGS_PERCENT = 5;
+
+const FRIDAY = 5;
+const WEEKEND_NIGHTS = 2;
+
+export interface DealStay {
+  checkIn: string;
+  checkOut: string;
+  nights: number;
+}
+
+// Lowest price of one hotel and board for a stay
+export interface DealPriceSample {
+  hotelId: number;
+  boardType: CanonicalBoard;
+  price: number;
+  pricePerNight: number;
+  roomId: number | null;
+  roomName: string | null;
+}
+
+export interface DealHotelPriceRow {
+  city_id: number;
+  hotel_id: number;
+  board_type: CanonicalBoard;
+  from_price_per_night: string | number;
+  average_price_per_night: string | number;
+  stay_count: number;
+  from_price: string | number;
+  from_check_in: string;
+  from_check_out: string;
+  sampled_at: string;
+}
+
+// Upcoming prices of one hotel and board (deal_hotel_prices view)
+export interface DealHotelPrice {
+  cityId: number;
+  hotelId: number;
+  boardType: CanonicalBoard;
+  pricePerNight: number;
+  averagePricePerNight: number;
+  stayCount: number;
+  price: number;
+  checkIn: string;
+  checkOut: string;
+  sampledAt: string;
+}
+
+export interface FromPrice {
+  pricePerNight: number;
+  price: number;
+  currency: "TND";
+  boardType: CanonicalBoard;
+  checkIn: string;
+  checkOut: string;
+}
+
+export interface CityFromPrice {
+  cityId: number;
+  hotelCount: number;
+  fromPrice: FromPrice;
+  // Lowest price per night of each sampled board
+  boards: Partial<Record<CanonicalBoard, number>>;
+  sampledAt: string;
+}
+
+export interface HotelFromPrice {
+  hotelId: number;
+  cityId: number;
+  fromPrice: FromPrice;
+  boards: Partial<Record<CanonicalBoard, number>>;
+}
+
+export interface TopDeal {
+  hotelId: number;
+  cityId: number;
+  fromPrice: FromPrice;
+  // Average price per night of the sampled stays for the same board
+  referencePricePerNight: number;
+  savingsPercent: number;
+}
+
+export interface SlugCity {
+  id: number;
+  name: string;
+  region: string | null;
+}
+
+export interface SlugHotel {
+  id: number;
+  name: string;
+  cityId: number | null;
+  star: number | null;
+  image: string | null;
+}
+
+const roundAmount = (value: number): number => Math.round(value * 1000) / 1000;
+
+/**
+ * URL slug: lowercase ASCII words joined by dashes ("Hammamet Nord" →
+ * "hammamet-nord", "Djerba – Midoun" → "djerba-midoun")
+ * Names without Latin letters or digits give an empty slug
+ */
+export const slugify = (value: string): string =>
+  normalizeText(value)
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+
+/**
+ * Slugs of inventory cities, unique: a name already taken by a city with a
+ * lower id gets the id appended, as do names without a usable slug
+ */
+export const buildCitySlugs = (cities: SlugCity[]): Map<number, string> => {
+  const slugs = new Map<number, string>();
+  const taken = new Set<string>();
+  for (const city of [...cities].sort((a, b) => a.id - b.id)) {
+    const base = slugify(city.name);
+    const slug = base && !taken.has(base) ? base : `${base || "city"}-${city.id}`;
+    taken.add(slug);
+    slugs.set(city.id, slug);
+  }
+  return slugs;
+};
+
+/**
+ * Hotel slug, unique through the id suffix ("hotel-sousse-palace-101")
+ */
+export const toHotelSlug = (hotel: Pick<SlugHotel, "id" | "name">): string =>
+  `${slugify(hotel.name) || "hotel"}-${hotel.id}`;
+
+/**
+ * The next weekends (Friday to Sunday) starting after today
+ */
+export const getUpcomingWeekends = (now: Date, count: number = DEAL_WEEKENDS): DealStay[] => {
+  const today = now.toISOString().slice(0, 10);
+  const daysToFriday = (FRIDAY - now.getUTCDay() + 7) % 7 || 7;
+  const firstFriday = addDays(today, daysToFriday);
+  return Array.from({ length: count }, (_, index) => {
+    const checkIn = addDays(firstFriday, index * 7);
+    return { checkIn, checkOut: addDays(checkIn, WEEKEND_NIGHTS), nights: WEEKEND_NIGHTS };
+  });
+};
+
+/**
+ * Lowest instantly bookable price per hotel and canonical board
+ * Expects priced results annotated with board types; on-request rooms and
+ * rooms without a canonical board are not sampled
+ */
+export const extractDealPrices = (hotels: MyGoHotelSearchResult[], stay: DealStay): DealPriceSample[] => {
+  const samples: DealPriceSample[] = [];
+  for (const hotel of hotels) {
+    if (!hotel.available) {
+      continue;
+    }
+    const cheapest = new Map<CanonicalBoard, DealPriceSample>();
+    for (const room of hotel.rooms) {
+      const boardType = room.boardType;
+      if (room.onRequest || !boardType || !isCanonicalBoard(boardType) || !room.price || room.price <= 0) {
+        continue;
+      }
+      const current = cheapest.get(boardType);
+      if (!current || room.price < current.price) {
+        cheapest.set(boardType, {
+          hotelId: hotel.id,
+          boardType,
+          price: room.price,
+          pricePerNight: roundAmount(room.price / stay.nights),
+          roomId: room.roomId ?? null,
+          roomName: room.roomName ?? null,
+        });
+      }
+    }
+    samples.push(...cheapest.values());
+  }
+  return samples;
+};
+
+export const toDealHotelPrice = (row: DealHotelPriceRow): DealHotelPrice => ({
+  cityId: row.city_id,
+  hotelId: row.hotel_id,
+  boardType: row.board_type,
+  pricePerNight: Number(row.from_price_per_night),
+  averagePricePerNight: Number(row.average_price_per_night),
+  stayCount: row.stay_count,
+  price: Number(row.from_price),
+  checkIn: row.from_check_in,
+  checkOut: row.from_check_out,
+  sampledAt: row.sampled_at,
+});
+
+const toFromPrice = (price: DealHotelPrice): FromPrice => ({
+  pricePerNight: price.pricePerNight,
+  price: price.price,
+  currency: "TND",
+  boardType: price.boardType,
+  checkIn: price.checkIn,
+  checkOut: price.checkOut,
+});
+
+// Cheapest first; ties go to the earliest stay, then the lowest hotel id
+const compareDealPrices = (a: DealHotelPrice, b: DealHotelPrice): number =>
+  a.pricePerNight - b.pricePerNight || a.checkIn.localeCompare(b.checkIn) || a.hotelId - b.hotelId;
+
+const groupBy = <K>(prices: DealHotelPrice[], keyOf: (price: DealHotelPrice) => K): Map<K, DealHotelPrice[]> => {
+  const groups = new Map<K, DealHotelPrice[]>();
+  for (const price of prices) {
+    const key = keyOf(price);
+    groups.set(key, [...(groups.get(key) ?? []), price]);
+  }
+  return groups;
+};
+
+const lowestPerBoard = (prices: DealHotelPrice[]): Partial<Record<CanonicalBoard, number>> => {
+  const boards: Partial<Record<CanonicalBoard, number>> = {};
+  for (const price of prices) {
+    const current = boards[price.boardType];
+    if (current === undefined || price.pricePerNight < current) {
+      boards[price.boardType] = price.pricePerNight;
+    }
+  }
+  return boards;
+};
+
+/**
+ * "From" price of every sampled city, cities with the most hotels first
+ */
+export const summarizeCityPrices = (prices: DealHotelPrice[]): CityFromPrice[] =>
+  [...groupBy(prices, (price) => price.cityId)]
+    .map(([cityId, cityPrices]) => ({
+      cityId,
+      hotelCount: new Set(cityPrices.map((price) => price.hotelId)).size,
+      fromPrice: toFromPrice([...cityPrices].sort(compareDealPrices)[0]),
+      boards: lowestPerBoard(cityPrices),
+      sampledAt: cityPrices.reduce((latest, price) => (price.sampledAt > latest ? price.sampledAt : latest), ""),
+    }))
+    .sort((a, b) => b.hotelCount - a.hotelCount || a.fromPrice.pricePerNight - b.fromPrice.pricePerNight);
+
+/**
+ * "From" price of every sampled hotel, cheapest first
+ */
+export const summarizeHotelPrices = (prices: DealHotelPrice[]): HotelFromPrice[] =>
+  [...groupBy(prices, (price) => price.hotelId)]
+    .map(([hotelId, hotelPrices]) => {
+      const cheapest = [...hotelPrices].sort(compareDealPrices)[0];
+      return { hotelId, cityId: cheapest.cityId, fromPrice: toFromPrice(cheapest), boards: lowestPerBoard(hotelPrices) };
+    })
+    .sort((a, b) => a.fromPrice.pricePerNight - b.fromPrice.pricePerNight || a.hotelId - b.hotelId);
+
+/**
+ * Hotels whose cheapest upcoming weekend is well below their usual weekend
+ * price (average of the sampled stays, same board), biggest saving first
+ * One deal per hotel; boards sampled for a single stay have no reference
+ */
+export const selectTopDeals = (prices: DealHotelPrice[], limit: number): TopDeal[] => {
+  const best = new Map<number, TopDeal>();
+  for (const price of prices) {
+    if (price.stayCount < 2 || price.averagePricePerNight <= 0) {
+      continue;
+    }
+    const savingsPercent =
+      Math.round(((price.averagePricePerNight - price.pricePerNight) / price.averagePricePerNight) * 1000) / 10;
+    if (savingsPercent < MIN_DEAL_SAVINGS_PERCENT) {
+      continue;
+    }
+    const current = best.get(price.hotelId);
+    if (!current || savingsPercent > current.savingsPercent) {
+      best.set(price.hotelId, {
+        hotelId: price.hotelId,
+        cityId: price.cityId,
+        fromPrice: toFromPrice(price),
+        referencePricePerNight: price.averagePricePerNight,
+        savingsPercent,
+      });
+    }
+  }
+  return [...best.values()]
+    .sort(
+      (a, b) =>
+        b.savingsPercent - a.savingsPercent ||
+        a.fromPrice.pricePerNight - b.fromPrice.pricePerNight ||
+        a.hotelId - b.hotelId
+    )
+    .slice(0, limit);
+};
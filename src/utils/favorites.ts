@@ -0,0 +1,114 @@
+/**
+ * Favorite hotels (favorite_hotels table)
+ * Listed by /profile/favorites and merged from the guest session at login
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Logger } from "./logger";
+import { toHotelSummary, type HotelSummary, type InventoryHotelRow } from "./hotelDetail";
+
+// Favorites per user or guest session
+export const MAX_FAVORITES_PER_OWNER = 200;
+
+export interface FavoriteHotelRow {
+  id: number;
+  user_id: string | null;
+  guest_session_id: string | null;
+  hotel_id: number;
+  created_at: string;
+}
+
+export interface FavoriteHotel {
+  hotelId: number;
+  addedAt: string;
+  // null when the hotel is not (or no longer) in inventory_hotels
+  hotel: HotelSummary | null;
+}
+
+/**
+ * Favorite enriched with its inventory row
+ */
+export const toFavoriteHotel = (row: FavoriteHotelRow, inventory: InventoryHotelRow | null): FavoriteHotel => ({
+  hotelId: row.hotel_id,
+  addedAt: row.created_at,
+  hotel: inventory ? toHotelSummary(row.hotel_id, inventory) : null,
+});
+
+/**
+ * Move the favorites of a guest session to the account that just logged in
+ * Hotels already in the account are skipped; the account keeps at most
+ * MAX_FAVORITES_PER_OWNER favorites, filled with the newest guest favorites
+ * (the others are dropped with the guest session's). Failures are logged,
+ * never thrown: the login itself has succeeded
+ * @returns number of favorites added to the account
+ */
+export const mergeGuestFavorites = async (
+  supabase: SupabaseClient,
+  guestSessionId: string,
+  userId: string,
+  logger: Logger
+): Promise<number> => {
+  const { data, error } = await supabase
+    .from("favorite_hotels")
+    .select("hotel_id, created_at")
+    .eq("guest_session_id", guestSessionId);
+
+  if (error) {
+    logger.error("Failed to load guest favorites", { error: error.message });
+    return 0;
+  }
+  if (!data || data.length === 0) {
+    return 0;
+  }
+
+  const { data: accountFavorites, error: accountError } = await supabase
+    .from("favorite_hotels")
+    .select("hotel_id")
+    .eq("user_id", userId);
+
+  if (accountError) {
+    logger.error("Failed to load account favorites", { error: accountError.message });
+    return 0;
+  }
+
+  const accountHotelIds = new Set((accountFavorites ?? []).map((favorite) => favorite.hotel_id));
+  const newFavorites = data.filter((favorite) => !accountHotelIds.has(favorite.hotel_id));
+  const additions = [...newFavorites]
+    .sort((a, b) => (b.created_at ?? "").localeCompare(a.created_at ?? ""))
+    .slice(0, Math.max(0, MAX_FAVORITES_PER_OWNER - accountHotelIds.size));
+
+  if (additions.length < newFavorites.length) {
+    logger.warn("Guest favorites over the account limit were dropped", {
+      dropped: newFavorites.length - additions.length,
+      limit: MAX_FAVORITES_PER_OWNER,
+    });
+  }
+
+  let mergedCount = 0;
+  if (additions.length > 0) {
+    // ignoreDuplicates still covers favorites added concurrently
+    const { data: merged, error: upsertError } = await supabase
+      .from("favorite_hotels")
+      .upsert(
+        additions.map((favorite) => ({ user_id: userId, hotel_id: favorite.hotel_id, created_at: favorite.created_at })),
+        { onConflict: "user_id,hotel_id", ignoreDuplicates: true }
+      )
+      .select("id");
+
+    if (upsertError) {
+      logger.error("Failed to merge guest favorites", { error: upsertError.message });
+      return 0;
+    }
+    mergedCount = merged?.length ?? 0;
+  }
+
+  const { error: deleteError } = await supabase
+    .from("favorite_hotels")
+    .delete()
+    .eq("guest_session_id", guestSessionId);
+
+  if (deleteError) {
+    logger.warn("Failed to clear merged guest favorites", { error: deleteError.message });
+  }
+  return mergedCount;
+};
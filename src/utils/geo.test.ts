@@ -0,0 +1,88 @@
+/**
+ * Tests for geo helpers used by radius and bounding-box hotel search
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  distanceKm,
+  findHotelsInArea,
+  groupMatchesByCity,
+  parseCoordinate,
+  type GeoInventoryHotel,
+} from "./geo";
+
+const tunis = { latitude: 36.8065, longitude: 10.1815 };
+
+const inventory: GeoInventoryHotel[] = [
+  { id: 1, cityId: 1, latitude: "36.8100", longitude: "10.1800" }, // Tunis center
+  { id: 2, cityId: 2, latitude: "36,8780", longitude: "10,3247" }, // Gammarth, comma decimals
+  { id: 3, cityId: 10, latitude: "35.8256", longitude: "10.6084" }, // Sousse
+  { id: 4, cityId: 1, latitude: "", longitude: "10.18" },
+  { id: 5, cityId: null, latitude: "36.80", longitude: "10.18" },
+  { id: 6, cityId: 1, latitude: "not-a-number", longitude: "10.18" },
+];
+
+describe("parseCoordinate", () => {
+  it("should parse dot and comma decimals", () => {
+    expect(parseCoordinate(" 36.8065 ", "latitude")).toBe(36.8065);
+    expect(parseCoordinate("10,1815", "longitude")).toBe(10.1815);
+  });
+
+  it("should reject empty, invalid and out-of-range values", () => {
+    expect(parseCoordinate("", "latitude")).toBeNull();
+    expect(parseCoordinate(null, "latitude")).toBeNull();
+    expect(parseCoordinate("abc", "longitude")).toBeNull();
+    expect(parseCoordinate("95", "latitude")).toBeNull();
+  });
+});
+
+describe("distanceKm", () => {
+  it("should compute great-circle distances", () => {
+    const sousse = { latitude: 35.8256, longitude: 10.6084 };
+    expect(distanceKm(tunis, sousse)).toBeGreaterThan(110);
+    expect(distanceKm(tunis, sousse)).toBeLessThan(120);
+    expect(distanceKm(tunis, tunis)).toBe(0);
+  });
+});
+
+describe("findHotelsInArea", () => {
+  it("should return hotels within the radius, nearest first", () => {
+    const matches = findHotelsInArea(inventory, { center: tunis, radiusKm: 20 });
+
+    expect(matches.map((match) => match.hotelId)).toEqual([1, 2]);
+    expect(matches[0].distanceKm).toBeLessThan(1);
+  });
+
+  it("should return hotels inside the bounding box with distance from its center", () => {
+    const matches = findHotelsInArea(inventory, {
+      bounds: { north: 37, south: 35.5, east: 10.7, west: 10.5 },
+    });
+
+    expect(matches.map((match) => match.hotelId)).toEqual([3]);
+    expect(matches[0].distanceKm).toBeGreaterThan(0);
+  });
+
+  it("should measure bounding box distances from the given center", () => {
+    const matches = findHotelsInArea(inventory, {
+      bounds: { north: 37, south: 35.5, east: 11, west: 10 },
+      center: tunis,
+    });
+
+    expect(matches.map((match) => match.hotelId)).toEqual([1, 2, 3]);
+  });
+});
+
+describe("groupMatchesByCity", () => {
+  it("should group hotel IDs by city", () => {
+    const groups = groupMatchesByCity([
+      { hotelId: 1, cityId: 1, distanceKm: 1 },
+      { hotelId: 3, cityId: 10, distanceKm: 2 },
+      { hotelId: 7, cityId: 1, distanceKm: 3 },
+    ]);
+
+    expect(Array.from(groups.entries())).toEqual([
+      [1, [1, 7]],
+      [10, [3]],
+    ]);
+  });
+});
@@ -0,0 +1,134 @@
+/**
+ * Geo helpers for radius and bounding-box hotel search
+ * Inventory coordinates are stored as text (synced from myGO ListHotel)
+ */
+
+export interface GeoPoint {
+  latitude: number;
+  longitude: number;
+}
+
+export interface GeoBounds {
+  north: number;
+  south: number;
+  east: number;
+  west: number;
+}
+
+export type GeoArea =
+  | { center: GeoPoint; radiusKm: number; bounds?: undefined }
+  | { bounds: GeoBounds; center?: GeoPoint; radiusKm?: undefined };
+
+export interface GeoInventoryHotel {
+  id: number;
+  cityId: number | null;
+  latitude: string | null;
+  longitude: string | null;
+}
+
+export interface GeoMatch {
+  hotelId: number;
+  cityId: number;
+  distanceKm: number;
+}
+
+const EARTH_RADIUS_KM = 6371;
+
+const toRadians = (degrees: number): number => (degrees * Math.PI) / 180;
+
+/**
+ * Parse a text coordinate ("36.8065", "36,8065", " 10.18 ")
+ * Returns null for empty, non-numeric or out-of-range values
+ */
+export const parseCoordinate = (
+  value: string | null | undefined,
+  kind: "latitude" | "longitude",
+): number | null => {
+  if (value === null || value === undefined) {
+    return null;
+  }
+  const trimmed = value.trim().replace(",", ".");
+  if (trimmed === "") {
+    return null;
+  }
+  const parsed = Number(trimmed);
+  const limit = kind === "latitude" ? 90 : 180;
+  if (!Number.isFinite(parsed) || Math.abs(parsed) > limit) {
+    return null;
+  }
+  return parsed;
+};
+
+/**
+ * Great-circle distance in kilometers (haversine)
+ */
+export const distanceKm = (from: GeoPoint, to: GeoPoint): number => {
+  const dLat = toRadians(to.latitude - from.latitude);
+  const dLon = toRadians(to.longitude - from.longitude);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(a)));
+};
+
+export const getBoundsCenter = (bounds: GeoBounds): GeoPoint => ({
+  latitude: (bounds.north + bounds.south) / 2,
+  longitude: (bounds.east + bounds.west) / 2,
+});
+
+export const isInBounds = (point: GeoPoint, bounds: GeoBounds): boolean =>
+  point.latitude <= bounds.north &&
+  point.latitude >= bounds.south &&
+  point.longitude <= bounds.east &&
+  point.longitude >= bounds.west;
+
+/**
+ * Find inventory hotels inside a radius or bounding box, nearest first
+ * Distances are measured from the center (bounding box center when only
+ * bounds are given); hotels without usable coordinates or city are ignored
+ */
+export const findHotelsInArea = (
+  hotels: GeoInventoryHotel[],
+  area: GeoArea,
+): GeoMatch[] => {
+  const origin = area.center ?? getBoundsCenter(area.bounds!);
+  const matches: GeoMatch[] = [];
+
+  for (const hotel of hotels) {
+    const latitude = parseCoordinate(hotel.latitude, "latitude");
+    const longitude = parseCoordinate(hotel.longitude, "longitude");
+    if (latitude === null || longitude === null || hotel.cityId === null) {
+      continue;
+    }
+
+    const point = { latitude, longitude };
+    const distance = distanceKm(origin, point);
+
+    const inside = area.bounds ? isInBounds(point, area.bounds) : distance <= area.radiusKm!;
+    if (!inside) {
+      continue;
+    }
+
+    matches.push({
+      hotelId: hotel.id,
+      cityId: hotel.cityId,
+      distanceKm: Math.round(distance * 100) / 100,
+    });
+  }
+
+  return matches.sort((a, b) => a.distanceKm - b.distanceKm || a.hotelId - b.hotelId);
+};
+
+/**
+ * Group matched hotel IDs by city (myGO HotelSearch is scoped to one city)
+ * Cities keep the order of their nearest hotel
+ */
+export const groupMatchesByCity = (matches: GeoMatch[]): Map<number, number[]> => {
+  const byCity = new Map<number, number[]>();
+  for (const match of matches) {
+    const hotelIds = byCity.get(match.cityId) ?? [];
+    hotelIds.push(match.hotelId);
+    byCity.set(match.cityId, hotelIds);
+  }
+  return byCity;
+};
@@ -0,0 +1,83 @@
+/**
+ * Tests for the side-by-side hotel comparison
+ */
+
+import { describe, it, expect } from "vitest";
+import { buildHotelComparison } from "./hotelComparison";
+import type { HotelStaticContent } from "./hotelDetail";
+import type { MyGoHotelSearchResult } from "../types/mygo";
+
+const content = (id: number): HotelStaticContent => ({
+  id,
+  name: `Hotel ${id}`,
+  cityId: 10,
+  cityName: "Sousse",
+  star: 4,
+  categoryTitle: null,
+  address: null,
+  description: null,
+  images: [],
+  amenities: ["Piscine"],
+  themes: [],
+  location: { latitude: 35.8289, longitude: 10.6406 },
+  note: null,
+  sources: { mygo: true, inventory: false },
+});
+
+const contents = new Map([101, 102].map((id) => [id, content(id)]));
+
+describe("buildHotelComparison", () => {
+  it("should prefer instantly bookable offers and report cancellation flexibility", () => {
+    const results: MyGoHotelSearchResult[] = [
+      {
+        id: 101,
+        name: "Hotel 101",
+        available: true,
+        rooms: [
+          { onRequest: true, roomId: 1, price: 180, boardType: "BB", freeCancellationUntil: null },
+          { onRequest: false, roomId: 2, price: 220, boardType: "BB", freeCancellationUntil: "2026-06-20T00:00:00+01:00" },
+          { onRequest: false, roomId: 3, price: 260, boardType: "AI", freeCancellationUntil: "2026-06-25T00:00:00+01:00" },
+        ],
+      },
+      {
+        id: 102,
+        name: "Hotel 102",
+        available: true,
+        rooms: [{ onRequest: false, roomId: 4, price: 200, boardType: null, freeCancellationUntil: null }],
+      },
+    ];
+
+    const comparison = buildHotelComparison([101, 102], contents, results, new Map());
+
+    expect(comparison.boards).toEqual(["BB", "AI"]);
+    const [first, second] = comparison.hotels;
+    expect(first.cheapestOffer?.roomId).toBe(2);
+    expect(first.boards).toEqual({
+      BB: expect.objectContaining({ roomId: 2 }),
+      AI: expect.objectContaining({ roomId: 3 }),
+    });
+    expect(first.cancellation).toEqual({
+      freeCancellation: true,
+      freeCancellationUntil: "2026-06-25T00:00:00+01:00",
+      cheapestFreeCancellationOffer: expect.objectContaining({ roomId: 2 }),
+    });
+    // Rooms without a canonical board only count as the cheapest offer
+    expect(second.cheapestOffer?.roomId).toBe(4);
+    expect(second.boards).toEqual({ BB: null, AI: null });
+    expect(comparison.highlights).toEqual({ cheapestHotelId: 102, topRatedHotelId: null, mostFlexibleHotelId: 101 });
+  });
+
+  it("should keep hotels missing from the search as unavailable", () => {
+    const comparison = buildHotelComparison([101, 102], contents, [], new Map());
+
+    expect(comparison.boards).toEqual([]);
+    expect(comparison.hotels[1]).toMatchObject({
+      hotelId: 102,
+      available: false,
+      cheapestOffer: null,
+      boards: {},
+      location: { cityId: 10, coordinates: { latitude: 35.8289, longitude: 10.6406 } },
+    });
+    expect(comparison.highlights.cheapestHotelId).toBeNull();
+  });
+});
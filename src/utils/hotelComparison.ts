@@ -0,0 +1,197 @@
+/**
+ * Side-by-side hotel comparison
+ * Aligns live offers (cheapest per canonical board), static content and
+ * review scores of a few hotels searched together
+ */
+
+import type { MyGoHotelSearchResult, MyGoRoomResult } from "../types/mygo";
+import type { HotelStaticContent } from "./hotelDetail";
+import type { HotelReviewScores } from "./reviews";
+import { CANONICAL_BOARDS, type CanonicalBoard } from "./boardNormalization";
+
+export interface ComparedOffer {
+  roomId: number | null;
+  roomName: string | null;
+  boardCode: string | null;
+  boardType: CanonicalBoard | null;
+  boardLabel: string | null;
+  price: number;
+  displayPrice?: { amount: number; currency: string };
+  onRequest: boolean;
+  freeCancellationUntil: string | null;
+  offerRef?: string;
+}
+
+export interface ComparedHotel {
+  hotelId: number;
+  name: string;
+  star: number | null;
+  categoryTitle: string | null;
+  image: string | null;
+  location: {
+    cityId: number | null;
+    cityName: string | null;
+    address: string | null;
+    coordinates: { latitude: number; longitude: number } | null;
+  };
+  facilities: string[];
+  themes: string[];
+  reviewScores: HotelReviewScores | null;
+  available: boolean;
+  hasInstantConfirmation: boolean;
+  cheapestOffer: ComparedOffer | null;
+  // One entry per compared board (null when the hotel has no offer on it)
+  boards: Partial<Record<CanonicalBoard, ComparedOffer | null>>;
+  cancellation: {
+    freeCancellation: boolean;
+    // Latest free-cancellation deadline among the offers
+    freeCancellationUntil: string | null;
+    cheapestFreeCancellationOffer: ComparedOffer | null;
+  };
+}
+
+export interface HotelComparison {
+  boards: CanonicalBoard[];
+  hotels: ComparedHotel[];
+  highlights: {
+    cheapestHotelId: number | null;
+    topRatedHotelId: number | null;
+    mostFlexibleHotelId: number | null;
+  };
+}
+
+const toComparedOffer = (room: MyGoRoomResult & { price: number }): ComparedOffer => ({
+  roomId: room.roomId ?? null,
+  roomName: room.roomName ?? null,
+  boardCode: room.boardCode ?? null,
+  boardType: (room.boardType as CanonicalBoard | null | undefined) ?? null,
+  boardLabel: room.boardLabel ?? room.boardName ?? null,
+  price: room.price,
+  ...(room.displayPrice ? { displayPrice: room.displayPrice } : {}),
+  onRequest: room.onRequest,
+  freeCancellationUntil: room.freeCancellationUntil ?? null,
+  ...(typeof room.offerRef === "string" ? { offerRef: room.offerRef } : {}),
+});
+
+/**
+ * Cheapest offer, instantly bookable rooms before on-request ones
+ */
+const pickCheapest = (offers: ComparedOffer[]): ComparedOffer | null =>
+  offers.reduce<ComparedOffer | null>((best, offer) => {
+    if (!best) {
+      return offer;
+    }
+    if (offer.onRequest !== best.onRequest) {
+      return offer.onRequest ? best : offer;
+    }
+    return offer.price < best.price ? offer : best;
+  }, null);
+
+/**
+ * Hotel with the highest value of a key; ties keep the first hotel
+ */
+const pickBest = (hotels: ComparedHotel[], key: (hotel: ComparedHotel) => number | null): number | null => {
+  let bestId: number | null = null;
+  let bestValue = -Infinity;
+  for (const hotel of hotels) {
+    const value = key(hotel);
+    if (value !== null && value > bestValue) {
+      bestId = hotel.hotelId;
+      bestValue = value;
+    }
+  }
+  return bestId;
+};
+
+const compareHotel = (
+  hotelId: number,
+  content: HotelStaticContent,
+  result: MyGoHotelSearchResult | undefined,
+  reviewScores: HotelReviewScores | null
+): { hotel: Omit<ComparedHotel, "boards">; offersByBoard: Map<CanonicalBoard, ComparedOffer> } => {
+  const offers = (result?.rooms ?? [])
+    .filter((room): room is MyGoRoomResult & { price: number } => typeof room.price === "number")
+    .map(toComparedOffer);
+
+  const offersByBoard = new Map<CanonicalBoard, ComparedOffer>();
+  for (const board of CANONICAL_BOARDS) {
+    const cheapest = pickCheapest(offers.filter((offer) => offer.boardType === board));
+    if (cheapest) {
+      offersByBoard.set(board, cheapest);
+    }
+  }
+
+  const refundable = offers.filter((offer) => offer.freeCancellationUntil !== null);
+  const latestFreeCancellation = refundable.reduce<string | null>(
+    (latest, offer) =>
+      latest === null || Date.parse(offer.freeCancellationUntil!) > Date.parse(latest)
+        ? offer.freeCancellationUntil
+        : latest,
+    null
+  );
+
+  return {
+    hotel: {
+      hotelId,
+      name: content.name || result?.name || "",
+      star: content.star ?? result?.star ?? null,
+      categoryTitle: content.categoryTitle ?? result?.categoryTitle ?? null,
+      image: content.images[0] ?? result?.image ?? null,
+      location: {
+        cityId: content.cityId,
+        cityName: content.cityName,
+        address: content.address,
+        coordinates: content.location,
+      },
+      facilities: content.amenities,
+      themes: content.themes.length > 0 ? content.themes : (result?.themes ?? []),
+      reviewScores,
+      available: result?.available ?? false,
+      hasInstantConfirmation: result?.hasInstantConfirmation ?? false,
+      cheapestOffer: pickCheapest(offers),
+      cancellation: {
+        freeCancellation: refundable.length > 0,
+        freeCancellationUntil: latestFreeCancellation,
+        cheapestFreeCancellationOffer: pickCheapest(refundable),
+      },
+    },
+    offersByBoard,
+  };
+};
+
+/**
+ * Build an aligned comparison, hotels in the requested order
+ * Board rows are the canonical boards offered by at least one hotel; every
+ * hotel gets each row (null when it has no offer on that board)
+ */
+export const buildHotelComparison = (
+  hotelIds: number[],
+  contents: Map<number, HotelStaticContent>,
+  results: MyGoHotelSearchResult[],
+  reviewScores: Map<number, HotelReviewScores>
+): HotelComparison => {
+  const resultsById = new Map(results.map((result) => [result.id, result]));
+  const compared = hotelIds.map((hotelId) =>
+    compareHotel(hotelId, contents.get(hotelId)!, resultsById.get(hotelId), reviewScores.get(hotelId) ?? null)
+  );
+
+  const boards = CANONICAL_BOARDS.filter((board) => compared.some(({ offersByBoard }) => offersByBoard.has(board)));
+  const hotels: ComparedHotel[] = compared.map(({ hotel, offersByBoard }) => ({
+    ...hotel,
+    boards: Object.fromEntries(boards.map((board) => [board, offersByBoard.get(board) ?? null])),
+  }));
+
+  return {
+    boards,
+    hotels,
+    highlights: {
+      cheapestHotelId: pickBest(hotels, (hotel) =>
+        hotel.cheapestOffer && !hotel.cheapestOffer.onRequest ? -hotel.cheapestOffer.price : null
+      ),
+      topRatedHotelId: pickBest(hotels, (hotel) => hotel.reviewScores?.overall ?? null),
+      mostFlexibleHotelId: pickBest(hotels, (hotel) =>
+        hotel.cancellation.freeCancellationUntil ? Date.parse(hotel.cancellation.freeCancellationUntil) : null
+      ),
+    },
+  };
+};
@@ -0,0 +1,78 @@
+/**
+ * Tests for hotel detail merging and occupancy parsing
+ */
+
+import { describe, it, expect } from "vitest";
+import { mergeHotelStaticContent, parseOccupancy, type InventoryHotelRow } from "./hotelDetail";
+
+const inventoryRow: InventoryHotelRow = {
+  id: 101,
+  name: "Sousse Palace (inventory)",
+  city_id: 10,
+  star: "4",
+  category_title: "4 étoiles",
+  address: "Boulevard du 7 Novembre",
+  longitude: "10.6400",
+  latitude: "35.8300",
+  image: "https://cdn.example.com/inventory.jpg",
+  note: "Renovated 2024",
+};
+
+describe("mergeHotelStaticContent", () => {
+  it("should prefer myGO detail and fill gaps from the inventory row", () => {
+    const content = mergeHotelStaticContent(
+      101,
+      {
+        id: 101,
+        name: "Sousse Palace",
+        cityId: 10,
+        cityName: "Sousse",
+        description: "Beachfront hotel",
+        images: ["https://cdn.example.com/main.jpg"],
+        amenities: ["Pool"],
+      },
+      inventoryRow
+    );
+
+    expect(content).toMatchObject({
+      name: "Sousse Palace",
+      cityName: "Sousse",
+      star: 4,
+      address: "Boulevard du 7 Novembre",
+      description: "Beachfront hotel",
+      images: ["https://cdn.example.com/main.jpg", "https://cdn.example.com/inventory.jpg"],
+      amenities: ["Pool"],
+      location: { latitude: 35.83, longitude: 10.64 },
+      note: "Renovated 2024",
+      sources: { mygo: true, inventory: true },
+    });
+  });
+
+  it("should build content from the inventory row alone", () => {
+    const content = mergeHotelStaticContent(101, null, { ...inventoryRow, latitude: "" });
+
+    expect(content).toMatchObject({
+      name: "Sousse Palace (inventory)",
+      cityId: 10,
+      star: 4,
+      description: null,
+      location: null,
+      sources: { mygo: false, inventory: true },
+    });
+  });
+});
+
+describe("parseOccupancy", () => {
+  it("should parse rooms with and without children", () => {
+    expect(parseOccupancy("2:5,8|2")).toEqual([
+      { adults: 2, childrenAges: [5, 8] },
+      { adults: 2 },
+    ]);
+  });
+
+  it("should reject malformed values", () => {
+    expect(parseOccupancy("two")).toBeNull();
+    expect(parseOccupancy("2:")).toBeNull();
+    expect(parseOccupancy("2||1")).toBeNull();
+  });
+});
@@ -0,0 +1,145 @@
+/**
+ * Hotel detail helpers
+ * Merges myGO HotelDetail static content with the synced inventory row
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { MyGoHotelDetailResponse, MyGoRoom } from "../types/mygo";
+import type { Logger } from "./logger";
+import { parseCoordinate } from "./geo";
+
+export interface InventoryHotelRow {
+  id: number;
+  name: string;
+  city_id: number | null;
+  star: string | null;
+  category_title: string | null;
+  address: string | null;
+  longitude: string | null;
+  latitude: string | null;
+  image: string | null;
+  note: string | null;
+  updated_at?: string | null;
+}
+
+export interface HotelStaticContent {
+  id: number;
+  name: string;
+  cityId: number | null;
+  cityName: string | null;
+  star: number | null;
+  categoryTitle: string | null;
+  address: string | null;
+  description: string | null;
+  images: string[];
+  amenities: string[];
+  themes: string[];
+  location: { latitude: number; longitude: number } | null;
+  note: string | null;
+  sources: { mygo: boolean; inventory: boolean };
+}
+
+/**
+ * Merge static content; myGO detail wins, the inventory row fills the gaps
+ */
+export const mergeHotelStaticContent = (
+  hotelId: number,
+  detail: MyGoHotelDetailResponse | null,
+  inventory: InventoryHotelRow | null,
+): HotelStaticContent => {
+  const inventoryStar = inventory?.star ? Number(inventory.star) : NaN;
+  const latitude =
+    parseCoordinate(detail?.latitude, "latitude") ?? parseCoordinate(inventory?.latitude, "latitude");
+  const longitude =
+    parseCoordinate(detail?.longitude, "longitude") ?? parseCoordinate(inventory?.longitude, "longitude");
+
+  const images = [...(detail?.images ?? [])];
+  if (inventory?.image && !images.includes(inventory.image)) {
+    images.push(inventory.image);
+  }
+
+  return {
+    id: hotelId,
+    name: detail?.name ?? inventory?.name ?? `Hotel ${hotelId}`,
+    cityId: detail?.cityId || inventory?.city_id || null,
+    cityName: detail?.cityName ?? null,
+    star: detail?.star ?? (Number.isFinite(inventoryStar) && inventoryStar > 0 ? inventoryStar : null),
+    categoryTitle: detail?.categoryTitle ?? inventory?.category_title ?? null,
+    address: detail?.address ?? inventory?.address ?? null,
+    description: detail?.description ?? null,
+    images,
+    amenities: detail?.amenities ?? [],
+    themes: detail?.themes ?? [],
+    location: latitude !== null && longitude !== null ? { latitude, longitude } : null,
+    note: inventory?.note ?? null,
+    sources: { mygo: detail !== null, inventory: inventory !== null },
+  };
+};
+
+// Hotel card built from the inventory alone (favorites, history)
+export interface HotelSummary {
+  id: number;
+  name: string;
+  cityId: number | null;
+  star: number | null;
+  categoryTitle: string | null;
+  address: string | null;
+  image: string | null;
+  location: { latitude: number; longitude: number } | null;
+}
+
+export const toHotelSummary = (hotelId: number, inventory: InventoryHotelRow): HotelSummary => {
+  const content = mergeHotelStaticContent(hotelId, null, inventory);
+  return {
+    id: content.id,
+    name: content.name,
+    cityId: content.cityId,
+    star: content.star,
+    categoryTitle: content.categoryTitle,
+    address: content.address,
+    image: content.images[0] ?? null,
+    location: content.location,
+  };
+};
+
+/**
+ * Inventory rows of hotels, by id
+ * A failing lookup returns no rows (callers list hotels without details)
+ */
+export const loadInventoryHotels = async (
+  supabase: SupabaseClient,
+  hotelIds: number[],
+  logger: Logger
+): Promise<Map<number, InventoryHotelRow>> => {
+  if (hotelIds.length === 0) {
+    return new Map();
+  }
+  const { data, error } = await supabase.from("inventory_hotels").select("*").in("id", hotelIds);
+  if (error) {
+    logger.warn("Inventory hotel lookup failed", { error: error.message });
+    return new Map();
+  }
+  return new Map(((data ?? []) as InventoryHotelRow[]).map((row) => [row.id, row]));
+};
+
+/**
+ * Parse the occupancy query parameter
+ * Rooms are separated by "|", each room is "adults" or "adults:age,age"
+ * e.g. "2:5,8|2" → [{ adults: 2, childrenAges: [5, 8] }, { adults: 2 }]
+ * Returns null when the value is malformed (ranges are checked by zod)
+ */
+export const parseOccupancy = (value: string): MyGoRoom[] | null => {
+  const rooms: MyGoRoom[] = [];
+  for (const part of value.split("|")) {
+    const match = /^\s*(\d+)\s*(?::\s*(\d+(?:\s*,\s*\d+)*)\s*)?$/.exec(part);
+    if (!match) {
+      return null;
+    }
+    const room: MyGoRoom = { adults: Number(match[1]) };
+    if (match[2]) {
+      room.childrenAges = match[2].split(",").map((age) => Number(age.trim()));
+    }
+    rooms.push(room);
+  }
+  return rooms;
+};
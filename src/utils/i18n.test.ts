@@ -0,0 +1,21 @@
+/**
+ * Tests for request language resolution
+ */
+
+import { describe, it, expect } from "vitest";
+import { resolveLanguage } from "./i18n";
+
+describe("resolveLanguage", () => {
+  it("should prefer the first explicit supported language", () => {
+    expect(resolveLanguage("en", "ar")).toBe("en");
+    expect(resolveLanguage("de", "ar-TN")).toBe("ar");
+  });
+
+  it("should honour Accept-Language quality values", () => {
+    expect(resolveLanguage(undefined, "de-DE,en;q=0.5,ar;q=0.8")).toBe("ar");
+  });
+
+  it("should default to French", () => {
+    expect(resolveLanguage(undefined, null, "de")).toBe("fr");
+  });
+});
@@ -0,0 +1,37 @@
+/**
+ * Languages supported for user-facing labels and messages
+ * French is the default (primary market), then English and Arabic
+ */
+
+export const SUPPORTED_LANGUAGES = ["fr", "en", "ar"] as const;
+export type SupportedLanguage = (typeof SUPPORTED_LANGUAGES)[number];
+
+export const DEFAULT_LANGUAGE: SupportedLanguage = "fr";
+
+const toSupported = (value: string): SupportedLanguage | null => {
+  const base = value.trim().slice(0, 2).toLowerCase();
+  return (SUPPORTED_LANGUAGES as readonly string[]).includes(base) ? (base as SupportedLanguage) : null;
+};
+
+/**
+ * First supported language among explicit values and Accept-Language entries
+ * resolveLanguage(undefined, "en-US,en;q=0.9") → "en"
+ */
+export const resolveLanguage = (...candidates: Array<string | null | undefined>): SupportedLanguage => {
+  for (const candidate of candidates) {
+    if (!candidate) continue;
+    const entries = candidate
+      .split(",")
+      .map((entry) => {
+        const [tag, ...params] = entry.split(";");
+        const quality = params.find((param) => param.trim().startsWith("q="));
+        return { tag, q: quality ? Number(quality.trim().slice(2)) || 0 : 1 };
+      })
+      .sort((a, b) => b.q - a.q);
+    for (const entry of entries) {
+      const language = toSupported(entry.tag);
+      if (language) return language;
+    }
+  }
+  return DEFAULT_LANGUAGE;
+};
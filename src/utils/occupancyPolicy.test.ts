@@ -0,0 +1,111 @@
+/**
+ * Tests for occupancy policy learning and validation
+ */
+
+import { describe, it, expect } from "vitest";
+import type { MyGoHotelSearchResult } from "../types/mygo";
+import {
+  extractOccupancyLimits,
+  learnFromDetail,
+  learnFromSearchHotel,
+  mergeOccupancyPolicies,
+  validateOccupancy,
+} from "./occupancyPolicy";
+
+const searchHotel = (rooms: MyGoHotelSearchResult["rooms"]): MyGoHotelSearchResult => ({
+  id: 101,
+  name: "Hotel",
+  available: true,
+  rooms,
+});
+
+describe("extractOccupancyLimits", () => {
+  it("should read limits from known myGO keys", () => {
+    expect(extractOccupancyLimits({ MaxAdult: "3", MaxChild: 2, MaxPax: 4, MaxChildAge: 11 })).toEqual({
+      maxAdults: 3,
+      maxChildren: 2,
+      maxOccupancy: 4,
+      childAgeMax: 11,
+    });
+  });
+
+  it("should read the child age bracket and ignore invalid values", () => {
+    expect(extractOccupancyLimits({ ChildAge: { Min: 2, Max: 12 }, MaxAdult: 0 })).toEqual({ childAgeMax: 12 });
+  });
+});
+
+describe("learnFromSearchHotel", () => {
+  it("should keep the most permissive room limits and the priced occupancy", () => {
+    const policy = learnFromSearchHotel(
+      searchHotel([
+        { onRequest: false, adults: 2, childrenAges: [5], MaxAdult: 2, MaxPax: 3 },
+        { onRequest: false, adults: 2, childrenAges: [5], MaxAdult: 3, MaxPax: 4 },
+      ])
+    );
+
+    expect(policy).toMatchObject({
+      hotelId: 101,
+      maxAdults: 3,
+      maxOccupancy: 4,
+      maxChildren: null,
+      observed: { adults: 2, children: 1, occupancy: 3, childAge: 5 },
+      sources: ["search"],
+    });
+  });
+
+  it("should return null for hotels without rooms", () => {
+    expect(learnFromSearchHotel(searchHotel([]))).toBeNull();
+  });
+});
+
+describe("mergeOccupancyPolicies", () => {
+  it("should combine detail limits with observed search occupancy", () => {
+    const fromDetail = learnFromDetail(101, { childAgeMax: 11, maxOccupancy: 3 })!;
+    const fromSearch = learnFromSearchHotel(searchHotel([{ onRequest: false, adults: 3, childrenAges: [12] }]))!;
+
+    const merged = mergeOccupancyPolicies(fromDetail, fromSearch);
+
+    expect(merged).toMatchObject({
+      childAgeMax: 11,
+      maxOccupancy: 3,
+      observed: { adults: 3, children: 1, occupancy: 4, childAge: 12 },
+    });
+    expect(merged.sources).toEqual(["detail", "search"]);
+  });
+});
+
+describe("validateOccupancy", () => {
+  const policy = learnFromDetail(101, { maxAdults: 3, maxChildren: 2, maxOccupancy: 4, childAgeMax: 11 })!;
+
+  it("should accept occupancies within the limits", () => {
+    expect(validateOccupancy([{ adults: 2, childrenAges: [3, 11] }], policy)).toEqual([]);
+  });
+
+  it("should report field-level errors in French by default", () => {
+    const errors = validateOccupancy([{ adults: 2 }, { adults: 4, childrenAges: [4, 8, 13] }], policy);
+
+    expect(errors.map((error) => [error.field, error.code])).toEqual([
+      ["rooms[1].adults", "TOO_MANY_ADULTS"],
+      ["rooms[1].childrenAges", "TOO_MANY_CHILDREN"],
+      ["rooms[1]", "ROOM_OVER_CAPACITY"],
+      ["rooms[1].childrenAges[2]", "CHILD_AGE_ABOVE_LIMIT"],
+    ]);
+    expect(errors[0].message).toBe("Cet hôtel accepte au maximum 3 adultes par chambre");
+  });
+
+  it("should localize messages", () => {
+    const [error] = validateOccupancy([{ adults: 1, childrenAges: [15] }], policy, { language: "ar" });
+
+    expect(error.message).toContain("11");
+    expect(error.message).toContain("الفندق");
+  });
+
+  it("should never reject an occupancy myGO already priced", () => {
+    const learned = mergeOccupancyPolicies(
+      policy,
+      learnFromSearchHotel(searchHotel([{ onRequest: false, adults: 2, childrenAges: [12] }]))!
+    );
+
+    expect(validateOccupancy([{ adults: 2, childrenAges: [12] }], learned)).toEqual([]);
+  });
+});
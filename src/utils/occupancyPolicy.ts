@@ -0,0 +1,277 @@
+/**
+ * Per-hotel occupancy and child-age policy
+ *
+ * myGO rejects unsupported occupancies (too many guests per room, children
+ * above the hotel's child age limit) with a generic 400 deep in the flow.
+ * Limits are learned from hotel detail and search rooms, then requested rooms
+ * are checked before the upstream call with field-level, localized errors.
+ *
+ * Occupancies myGO already priced for a hotel are recorded as "observed" and
+ * never rejected, so a wrong or stale limit cannot block a valid search.
+ */
+
+import type { MyGoHotelSearchResult, MyGoOccupancyLimits } from "../types/mygo";
+import type { SupportedLanguage } from "./i18n";
+
+export type OccupancyPolicySource = "search" | "detail";
+
+export interface OccupancyPolicy {
+  hotelId: number;
+  maxAdults: number | null;
+  maxChildren: number | null;
+  maxOccupancy: number | null;
+  childAgeMax: number | null;
+  observed: { adults: number; children: number; occupancy: number; childAge: number | null };
+  sources: OccupancyPolicySource[];
+  updatedAt: string;
+}
+
+export type OccupancyErrorCode =
+  | "TOO_MANY_ADULTS"
+  | "TOO_MANY_CHILDREN"
+  | "ROOM_OVER_CAPACITY"
+  | "CHILD_AGE_ABOVE_LIMIT";
+
+export interface OccupancyFieldError {
+  field: string;
+  code: OccupancyErrorCode;
+  limit: number;
+  message: string;
+  hotelId: number;
+}
+
+export interface OccupancyRoom {
+  adults: number;
+  childrenAges?: number[];
+}
+
+// Field paths reported in errors, matching the request body shape
+export interface OccupancyFieldPaths {
+  room: (roomIndex: number) => string;
+  adults: (roomIndex: number) => string;
+  children: (roomIndex: number) => string;
+  childAge: (roomIndex: number, childIndex: number) => string;
+}
+
+export interface OccupancyValidationOptions {
+  language?: SupportedLanguage;
+  fields?: OccupancyFieldPaths;
+}
+
+// rooms[0], rooms[0].adults, rooms[0].childrenAges, rooms[0].childrenAges[1]
+export const searchRoomFieldPaths = (prefix = "rooms"): OccupancyFieldPaths => ({
+  room: (roomIndex) => `${prefix}[${roomIndex}]`,
+  adults: (roomIndex) => `${prefix}[${roomIndex}].adults`,
+  children: (roomIndex) => `${prefix}[${roomIndex}].childrenAges`,
+  childAge: (roomIndex, childIndex) => `${prefix}[${roomIndex}].childrenAges[${childIndex}]`,
+});
+
+const LIMIT_KEYS: Record<keyof MyGoOccupancyLimits, string[]> = {
+  maxAdults: ["MaxAdult", "MaxAdults", "AdultMax", "MaxAdulte"],
+  maxChildren: ["MaxChild", "MaxChildren", "ChildMax", "MaxEnfant"],
+  maxOccupancy: ["MaxPax", "MaxOccupancy", "MaxPersons", "Capacity", "MaxPersonne"],
+  childAgeMax: ["MaxChildAge", "ChildAgeMax", "AgeChildMax", "ChildMaxAge", "AgeMaxEnfant"],
+};
+
+const MESSAGES: Record<OccupancyErrorCode, Record<SupportedLanguage, string>> = {
+  TOO_MANY_ADULTS: {
+    fr: "Cet hôtel accepte au maximum {limit} adultes par chambre",
+    en: "This hotel accepts at most {limit} adults per room",
+    ar: "يقبل هذا الفندق {limit} بالغين كحد أقصى في الغرفة",
+  },
+  TOO_MANY_CHILDREN: {
+    fr: "Cet hôtel accepte au maximum {limit} enfants par chambre",
+    en: "This hotel accepts at most {limit} children per room",
+    ar: "يقبل هذا الفندق {limit} أطفال كحد أقصى في الغرفة",
+  },
+  ROOM_OVER_CAPACITY: {
+    fr: "Cet hôtel accepte au maximum {limit} personnes par chambre",
+    en: "This hotel accepts at most {limit} guests per room",
+    ar: "يقبل هذا الفندق {limit} أشخاص كحد أقصى في الغرفة",
+  },
+  CHILD_AGE_ABOVE_LIMIT: {
+    fr: "Dans cet hôtel, les enfants de plus de {limit} ans comptent comme adultes",
+    en: "In this hotel, children older than {limit} count as adults",
+    ar: "في هذا الفندق، يُحتسب الأطفال الذين تزيد أعمارهم عن {limit} سنة كبالغين",
+  },
+};
+
+export const OCCUPANCY_ERROR_SUMMARY: Record<SupportedLanguage, string> = {
+  fr: "Occupation non acceptée par cet hôtel",
+  en: "Occupancy not accepted by this hotel",
+  ar: "هذا الإشغال غير مقبول في هذا الفندق",
+};
+
+const toLimit = (value: unknown): number | undefined => {
+  const parsed = typeof value === "number" ? value : typeof value === "string" ? Number(value) : NaN;
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : undefined;
+};
+
+/**
+ * Read occupancy limits from a raw myGO record (hotel or room)
+ * ChildAge may also come as a bracket object ({ Min, Max } / { From, To })
+ */
+export const extractOccupancyLimits = (record: Record<string, unknown>): MyGoOccupancyLimits => {
+  const limits: MyGoOccupancyLimits = {};
+  for (const [field, keys] of Object.entries(LIMIT_KEYS) as Array<[keyof MyGoOccupancyLimits, string[]]>) {
+    const value = keys.map((key) => toLimit(record[key])).find((limit) => limit !== undefined);
+    if (value !== undefined) {
+      limits[field] = value;
+    }
+  }
+  const bracket = record.ChildAge;
+  if (limits.childAgeMax === undefined && bracket && typeof bracket === "object") {
+    const bracketRecord = bracket as Record<string, unknown>;
+    const childAgeMax = toLimit(bracketRecord.Max ?? bracketRecord.To);
+    if (childAgeMax !== undefined) {
+      limits.childAgeMax = childAgeMax;
+    }
+  }
+  return limits;
+};
+
+const emptyPolicy = (hotelId: number): OccupancyPolicy => ({
+  hotelId,
+  maxAdults: null,
+  maxChildren: null,
+  maxOccupancy: null,
+  childAgeMax: null,
+  observed: { adults: 0, children: 0, occupancy: 0, childAge: null },
+  sources: [],
+  updatedAt: new Date().toISOString(),
+});
+
+const maxOf = (values: Array<number | undefined>): number | null => {
+  const defined = values.filter((value): value is number => value !== undefined);
+  return defined.length > 0 ? Math.max(...defined) : null;
+};
+
+/**
+ * Policy learned from one hotel of search results
+ * Limits are the most permissive over rooms (any room can host the guests);
+ * observed values come from the occupancy myGO priced
+ */
+export const learnFromSearchHotel = (hotel: MyGoHotelSearchResult): OccupancyPolicy | null => {
+  if (hotel.rooms.length === 0) {
+    return null;
+  }
+  const limits = hotel.rooms.map((room) => extractOccupancyLimits(room));
+  const childAges = hotel.rooms.flatMap((room) => room.childrenAges ?? []);
+
+  return {
+    ...emptyPolicy(hotel.id),
+    maxAdults: maxOf(limits.map((limit) => limit.maxAdults)),
+    maxChildren: maxOf(limits.map((limit) => limit.maxChildren)),
+    maxOccupancy: maxOf(limits.map((limit) => limit.maxOccupancy)),
+    childAgeMax: maxOf(limits.map((limit) => limit.childAgeMax)),
+    observed: {
+      adults: Math.max(0, ...hotel.rooms.map((room) => room.adults ?? 0)),
+      children: Math.max(0, ...hotel.rooms.map((room) => room.childrenAges?.length ?? 0)),
+      occupancy: Math.max(0, ...hotel.rooms.map((room) => (room.adults ?? 0) + (room.childrenAges?.length ?? 0))),
+      childAge: childAges.length > 0 ? Math.max(...childAges) : null,
+    },
+    sources: ["search"],
+  };
+};
+
+/**
+ * Policy learned from hotel detail limits (null when detail has none)
+ */
+export const learnFromDetail = (hotelId: number, limits: MyGoOccupancyLimits | undefined): OccupancyPolicy | null => {
+  if (!limits || Object.keys(limits).length === 0) {
+    return null;
+  }
+  return {
+    ...emptyPolicy(hotelId),
+    maxAdults: limits.maxAdults ?? null,
+    maxChildren: limits.maxChildren ?? null,
+    maxOccupancy: limits.maxOccupancy ?? null,
+    childAgeMax: limits.childAgeMax ?? null,
+    sources: ["detail"],
+  };
+};
+
+/**
+ * Merge a newly learned policy into the known one
+ * Newer limits replace older ones; observed occupancy only grows
+ */
+export const mergeOccupancyPolicies = (
+  existing: OccupancyPolicy | null,
+  update: OccupancyPolicy,
+): OccupancyPolicy => {
+  if (!existing) {
+    return update;
+  }
+  const childAges = [existing.observed.childAge, update.observed.childAge].filter(
+    (age): age is number => age !== null
+  );
+  return {
+    hotelId: update.hotelId,
+    maxAdults: update.maxAdults ?? existing.maxAdults,
+    maxChildren: update.maxChildren ?? existing.maxChildren,
+    maxOccupancy: update.maxOccupancy ?? existing.maxOccupancy,
+    childAgeMax: update.childAgeMax ?? existing.childAgeMax,
+    observed: {
+      adults: Math.max(existing.observed.adults, update.observed.adults),
+      children: Math.max(existing.observed.children, update.observed.children),
+      occupancy: Math.max(existing.observed.occupancy, update.observed.occupancy),
+      childAge: childAges.length > 0 ? Math.max(...childAges) : null,
+    },
+    sources: Array.from(new Set([...existing.sources, ...update.sources])),
+    updatedAt: update.updatedAt,
+  };
+};
+
+// A limit never rejects what myGO already priced
+const effectiveLimit = (limit: number | null, observed: number | null): number | null =>
+  limit === null ? null : Math.max(limit, observed ?? 0);
+
+/**
+ * Check requested rooms against a hotel policy
+ * @returns Field-level errors (empty when the occupancy is accepted)
+ */
+export const validateOccupancy = (
+  rooms: OccupancyRoom[],
+  policy: OccupancyPolicy,
+  options: OccupancyValidationOptions = {},
+): OccupancyFieldError[] => {
+  const language = options.language ?? "fr";
+  const fields = options.fields ?? searchRoomFieldPaths();
+
+  const maxAdults = effectiveLimit(policy.maxAdults, policy.observed.adults);
+  const maxChildren = effectiveLimit(policy.maxChildren, policy.observed.children);
+  const maxOccupancy = effectiveLimit(policy.maxOccupancy, policy.observed.occupancy);
+  const childAgeMax = effectiveLimit(policy.childAgeMax, policy.observed.childAge);
+
+  const errors: OccupancyFieldError[] = [];
+  const addError = (field: string, code: OccupancyErrorCode, limit: number) =>
+    errors.push({
+      field,
+      code,
+      limit,
+      message: MESSAGES[code][language].replace("{limit}", String(limit)),
+      hotelId: policy.hotelId,
+    });
+
+  rooms.forEach((room, roomIndex) => {
+    const ages = room.childrenAges ?? [];
+    if (maxAdults !== null && room.adults > maxAdults) {
+      addError(fields.adults(roomIndex), "TOO_MANY_ADULTS", maxAdults);
+    }
+    if (maxChildren !== null && ages.length > maxChildren) {
+      addError(fields.children(roomIndex), "TOO_MANY_CHILDREN", maxChildren);
+    }
+    if (maxOccupancy !== null && room.adults + ages.length > maxOccupancy) {
+      addError(fields.room(roomIndex), "ROOM_OVER_CAPACITY", maxOccupancy);
+    }
+    if (childAgeMax !== null) {
+      ages.forEach((age, childIndex) => {
+        if (age > childAgeMax) {
+          addError(fields.childAge(roomIndex, childIndex), "CHILD_AGE_ABOVE_LIMIT", childAgeMax);
+        }
+      });
+    }
+  });
+
+  return errors;
+};
@@ -0,0 +1,140 @@
+/**
+ * Tests for signed offer references and offer drift detection
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  annotateOfferReferences,
+  compareOffer,
+  matchesOfferRequest,
+  signOfferReference,
+  verifyOfferReference,
+  OFFER_REFERENCE_TTL_MS,
+  OFFER_REFERENCE_VERSION,
+  type OfferSnapshot,
+} from "./offerReference";
+import type { MyGoHotelSearchResult } from "../types/mygo";
+
+const SECRET = "offer-test-secret";
+
+const snapshot: OfferSnapshot = {
+  v: OFFER_REFERENCE_VERSION,
+  hotelId: 101,
+  roomId: 1,
+  boardCode: "BB",
+  price: 250,
+  currency: "TND",
+  checkIn: "2026-07-01",
+  checkOut: "2026-07-05",
+  rooms: [{ adults: 2, childrenAges: [5] }],
+  issuedAt: Date.parse("2026-06-01T10:00:00Z"),
+};
+
+const hotels: MyGoHotelSearchResult[] = [
+  {
+    id: 101,
+    name: "Hotel Sousse Palace",
+    available: true,
+    rooms: [
+      { onRequest: false, roomId: 1, price: 250, boardCode: "BB" },
+      { onRequest: true, roomId: 2, price: 300, boardCode: "HB" },
+      { onRequest: false, roomId: 3, boardCode: "BB" },
+    ],
+  },
+];
+
+describe("signOfferReference / verifyOfferReference", () => {
+  const now = new Date("2026-06-01T12:00:00Z");
+
+  it("should round-trip a signed snapshot", async () => {
+    const reference = await signOfferReference(snapshot, SECRET);
+
+    expect(reference.split(".")).toHaveLength(2);
+    expect(await verifyOfferReference(reference, SECRET, now)).toEqual({ valid: true, snapshot });
+  });
+
+  it("should reject a tampered payload or another secret", async () => {
+    const reference = await signOfferReference(snapshot, SECRET);
+    const [, signature] = reference.split(".");
+    const tampered = await signOfferReference({ ...snapshot, price: 1 }, "attacker-secret");
+
+    expect(await verifyOfferReference(`${tampered.split(".")[0]}.${signature}`, SECRET, now)).toEqual({
+      valid: false,
+      reason: "signature",
+    });
+    expect(await verifyOfferReference(reference, "other-secret", now)).toMatchObject({ reason: "signature" });
+  });
+
+  it("should reject malformed and expired references", async () => {
+    const reference = await signOfferReference(snapshot, SECRET);
+    const later = new Date(snapshot.issuedAt + OFFER_REFERENCE_TTL_MS + 1);
+
+    expect(await verifyOfferReference("not-a-reference", SECRET, now)).toMatchObject({ reason: "malformed" });
+    expect(await verifyOfferReference("%%%.%%%", SECRET, now)).toMatchObject({ reason: "malformed" });
+    expect(await verifyOfferReference(reference, SECRET, later)).toMatchObject({ reason: "expired" });
+  });
+});
+
+describe("matchesOfferRequest", () => {
+  const request = {
+    hotelId: 101,
+    roomId: 1,
+    currency: "TND",
+    checkIn: "2026-07-01",
+    checkOut: "2026-07-05",
+    rooms: [{ adults: 2, childrenAges: [5] }],
+  };
+
+  it("should match the same offer, stay and occupancy", () => {
+    expect(matchesOfferRequest(snapshot, request)).toBe(true);
+  });
+
+  it("should not match another stay, room or occupancy", () => {
+    expect(matchesOfferRequest(snapshot, { ...request, checkOut: "2026-07-06" })).toBe(false);
+    expect(matchesOfferRequest(snapshot, { ...request, roomId: 2 })).toBe(false);
+    expect(matchesOfferRequest(snapshot, { ...request, rooms: [{ adults: 2, childrenAges: [12] }] })).toBe(false);
+    expect(matchesOfferRequest(snapshot, { ...request, currency: "EUR" })).toBe(false);
+  });
+});
+
+describe("annotateOfferReferences", () => {
+  it("should sign every priced room with the search context", async () => {
+    const [hotel] = await annotateOfferReferences(
+      hotels,
+      { checkIn: "2026-07-01", checkOut: "2026-07-05", currency: "TND", rooms: [{ adults: 2 }] },
+      SECRET
+    );
+
+    expect(hotel.rooms[2].offerRef).toBeUndefined();
+    const verification = await verifyOfferReference(hotel.rooms[0].offerRef as string, SECRET);
+    expect(verification).toMatchObject({
+      valid: true,
+      snapshot: { hotelId: 101, roomId: 1, boardCode: "BB", price: 250, rooms: [{ adults: 2 }] },
+    });
+  });
+});
+
+describe("compareOffer", () => {
+  it("should accept an unchanged offer", () => {
+    expect(compareOffer({ hotelId: 101, roomId: 1, boardCode: "BB", price: 250 }, hotels)).toMatchObject({
+      status: "OK",
+    });
+  });
+
+  it("should report a price change with the new price", () => {
+    expect(compareOffer({ hotelId: 101, roomId: 1, boardCode: "BB", price: 230 }, hotels)).toMatchObject({
+      status: "PRICE_CHANGED",
+      previousPrice: 230,
+      newPrice: 250,
+    });
+  });
+
+  it("should report missing, on-request or unpriced rooms as unavailable", () => {
+    expect(compareOffer({ hotelId: 101, roomId: 1, boardCode: "HB", price: 250 }, hotels).status).toBe(
+      "ROOM_UNAVAILABLE"
+    );
+    expect(compareOffer({ hotelId: 101, roomId: 2, price: 300 }, hotels).status).toBe("ROOM_UNAVAILABLE");
+    expect(compareOffer({ hotelId: 101, roomId: 3 }, hotels).status).toBe("ROOM_UNAVAILABLE");
+    expect(compareOffer({ hotelId: 999, roomId: 1 }, [])).toEqual({ status: "ROOM_UNAVAILABLE" });
+  });
+});
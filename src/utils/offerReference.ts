@@ -0,0 +1,218 @@
+/**
+ * Signed offer references for token-free booking
+ *
+ * Search responses carry an `offerRef` per room: a compact, HMAC-signed
+ * snapshot of what the customer saw (hotel, room, board, price, stay and
+ * occupancy). Prebook verifies the signature, runs a fresh search and compares
+ * the snapshot with the live offer, so price or availability drift is reported
+ * instead of silently booking a different amount.
+ *
+ * Format: base64url(JSON snapshot) + "." + base64url(HMAC-SHA256)
+ */
+
+import type { Env } from "../types/env";
+import type { MyGoHotelSearchResult, MyGoRoomResult } from "../types/mygo";
+
+export const OFFER_REFERENCE_VERSION = 1;
+
+// References older than this are rejected: search again for current prices
+export const OFFER_REFERENCE_TTL_MS = 24 * 60 * 60 * 1000;
+
+// Prices are compared at TND precision (millimes)
+const PRICE_TOLERANCE = 0.0005;
+
+export interface OfferOccupancy {
+  adults: number;
+  childrenAges?: number[];
+}
+
+export interface OfferSnapshot {
+  v: number;
+  hotelId: number;
+  roomId: number;
+  boardCode: string | null;
+  price: number;
+  currency: string;
+  checkIn: string;
+  checkOut: string;
+  rooms: OfferOccupancy[];
+  issuedAt: number; // epoch ms
+}
+
+export interface OfferContext {
+  checkIn: string;
+  checkOut: string;
+  currency: string;
+  rooms: OfferOccupancy[];
+  now?: Date;
+}
+
+export type OfferVerification =
+  | { valid: true; snapshot: OfferSnapshot }
+  | { valid: false; reason: "malformed" | "signature" | "expired" };
+
+export type OfferComparison =
+  | { status: "OK"; room: MyGoRoomResult }
+  | { status: "PRICE_CHANGED"; room: MyGoRoomResult; previousPrice: number; newPrice: number }
+  | { status: "ROOM_UNAVAILABLE" };
+
+/**
+ * Secret used to sign offer references
+ * OFFER_SIGNING_SECRET when set, otherwise JWT_SECRET; undefined disables references
+ */
+export const getOfferSigningSecret = (env: Env): string | undefined =>
+  env.OFFER_SIGNING_SECRET || env.JWT_SECRET || undefined;
+
+const encoder = new TextEncoder();
+
+const toBase64Url = (bytes: Uint8Array): string =>
+  btoa(Array.from(bytes, (byte) => String.fromCharCode(byte)).join(""))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+
+const fromBase64Url = (value: string): Uint8Array => {
+  const base64 = value.replace(/-/g, "+").replace(/_/g, "/");
+  const padded = base64 + "=".repeat((4 - (base64.length % 4)) % 4);
+  return Uint8Array.from(atob(padded), (char) => char.charCodeAt(0));
+};
+
+const importKey = (secret: string): Promise<CryptoKey> =>
+  crypto.subtle.importKey("raw", encoder.encode(secret), { name: "HMAC", hash: "SHA-256" }, false, [
+    "sign",
+    "verify",
+  ]);
+
+const signWithKey = async (key: CryptoKey, snapshot: OfferSnapshot): Promise<string> => {
+  const payload = toBase64Url(encoder.encode(JSON.stringify(snapshot)));
+  const signature = await crypto.subtle.sign("HMAC", key, encoder.encode(payload));
+  return `${payload}.${toBase64Url(new Uint8Array(signature))}`;
+};
+
+/**
+ * Sign one offer snapshot
+ */
+export const signOfferReference = async (snapshot: OfferSnapshot, secret: string): Promise<string> =>
+  signWithKey(await importKey(secret), snapshot);
+
+/**
+ * Verify an offer reference signature and age
+ */
+export const verifyOfferReference = async (
+  reference: string,
+  secret: string,
+  now: Date = new Date(),
+): Promise<OfferVerification> => {
+  const [payload, signature, extra] = reference.split(".");
+  if (!payload || !signature || extra !== undefined) {
+    return { valid: false, reason: "malformed" };
+  }
+
+  let signatureBytes: Uint8Array;
+  let snapshot: OfferSnapshot;
+  try {
+    signatureBytes = fromBase64Url(signature);
+    snapshot = JSON.parse(new TextDecoder().decode(fromBase64Url(payload))) as OfferSnapshot;
+  } catch {
+    return { valid: false, reason: "malformed" };
+  }
+
+  const key = await importKey(secret);
+  if (!(await crypto.subtle.verify("HMAC", key, signatureBytes, encoder.encode(payload)))) {
+    return { valid: false, reason: "signature" };
+  }
+  if (snapshot.v !== OFFER_REFERENCE_VERSION || typeof snapshot.issuedAt !== "number") {
+    return { valid: false, reason: "malformed" };
+  }
+  if (now.getTime() - snapshot.issuedAt > OFFER_REFERENCE_TTL_MS) {
+    return { valid: false, reason: "expired" };
+  }
+  return { valid: true, snapshot };
+};
+
+const occupancyKey = (rooms: OfferOccupancy[]): string =>
+  JSON.stringify(rooms.map((room) => [room.adults, [...(room.childrenAges ?? [])].sort((a, b) => a - b)]));
+
+/**
+ * Whether a snapshot was issued for the same offer, stay and occupancy as a request
+ */
+export const matchesOfferRequest = (
+  snapshot: OfferSnapshot,
+  request: {
+    hotelId: number;
+    roomId: number;
+    currency: string;
+    checkIn: string;
+    checkOut: string;
+    rooms: OfferOccupancy[];
+  },
+): boolean =>
+  snapshot.hotelId === request.hotelId &&
+  snapshot.roomId === request.roomId &&
+  snapshot.currency === request.currency &&
+  snapshot.checkIn === request.checkIn &&
+  snapshot.checkOut === request.checkOut &&
+  occupancyKey(snapshot.rooms) === occupancyKey(request.rooms);
+
+/**
+ * Add a signed offerRef to every priced room of search results
+ */
+export const annotateOfferReferences = async (
+  hotels: MyGoHotelSearchResult[],
+  context: OfferContext,
+  secret: string,
+): Promise<MyGoHotelSearchResult[]> => {
+  const key = await importKey(secret);
+  const issuedAt = (context.now ?? new Date()).getTime();
+
+  return Promise.all(
+    hotels.map(async (hotel) => ({
+      ...hotel,
+      rooms: await Promise.all(
+        hotel.rooms.map(async (room) =>
+          room.roomId !== undefined && typeof room.price === "number"
+            ? {
+                ...room,
+                offerRef: await signWithKey(key, {
+                  v: OFFER_REFERENCE_VERSION,
+                  hotelId: hotel.id,
+                  roomId: room.roomId,
+                  boardCode: room.boardCode ?? null,
+                  price: room.price,
+                  currency: context.currency,
+                  checkIn: context.checkIn,
+                  checkOut: context.checkOut,
+                  rooms: context.rooms,
+                  issuedAt,
+                }),
+              }
+            : room
+        )
+      ),
+    }))
+  );
+};
+
+/**
+ * Compare the offer the customer saw with a fresh search
+ * The room must still exist with the same board and must not be on request
+ */
+export const compareOffer = (
+  expected: { hotelId: number; roomId: number; boardCode?: string | null; price?: number },
+  freshHotels: MyGoHotelSearchResult[],
+): OfferComparison => {
+  const hotel = freshHotels.find((candidate) => candidate.id === expected.hotelId);
+  const room = hotel?.rooms.find(
+    (candidate) =>
+      candidate.roomId === expected.roomId &&
+      (!expected.boardCode || candidate.boardCode === expected.boardCode) &&
+      typeof candidate.price === "number"
+  );
+  if (!room || room.onRequest) {
+    return { status: "ROOM_UNAVAILABLE" };
+  }
+  if (expected.price !== undefined && Math.abs(room.price! - expected.price) > PRICE_TOLERANCE) {
+    return { status: "PRICE_CHANGED", room, previousPrice: expected.price, newPrice: room.price! };
+  }
+  return { status: "OK", room };
+};
@@ -0,0 +1,187 @@
+/**
+ * Tests for the flexible-dates price calendar
+ */
+
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import type { MyGoSearchParams, MyGoSearchResponse } from "../types/mygo";
+import { addDays, buildPriceCalendar, getMonthDates } from "./priceCalendar";
+import { clearCalendarCache } from "../cache/priceCalendarCache";
+
+const baseParams = {
+  cityId: 1,
+  month: "2026-03",
+  nights: 2,
+  rooms: [{ adults: 2 }],
+};
+
+// Price depends on the day of month so the cheapest date is predictable
+const priceFor = (checkIn: string): number => 100 + Number(checkIn.slice(8, 10));
+
+const buildResponse = (params: MyGoSearchParams): MyGoSearchResponse => ({
+  token: "search-token",
+  hotels: [
+    {
+      id: 10,
+      name: "Hotel A",
+      available: true,
+      rooms: [
+        { onRequest: false, price: priceFor(params.checkIn), boardCode: "BB" },
+        { onRequest: true, price: 1, boardCode: "HB" },
+      ],
+    },
+    {
+      id: 20,
+      name: "Hotel B",
+      available: true,
+      rooms: [{ onRequest: false, price: priceFor(params.checkIn) + 50, boardCode: "BB" }],
+    },
+  ],
+});
+
+describe("date helpers", () => {
+  it("should list every day of the month", () => {
+    expect(getMonthDates("2028-02")).toHaveLength(29);
+    expect(getMonthDates("2026-03")[30]).toBe("2026-03-31");
+  });
+
+  it("should add days across month boundaries", () => {
+    expect(addDays("2026-03-31", 2)).toBe("2026-04-02");
+  });
+});
+
+describe("buildPriceCalendar", () => {
+  beforeEach(() => {
+    clearCalendarCache();
+  });
+
+  it("should return the lowest instantly bookable price per check-in date", async () => {
+    const search = vi.fn(async (params: MyGoSearchParams) => buildResponse(params));
+
+    const result = await buildPriceCalendar(baseParams, { search, today: "2026-01-01" });
+
+    expect(result.cells).toHaveLength(31);
+    expect(result.cells[4]).toMatchObject({
+      checkIn: "2026-03-05",
+      checkOut: "2026-03-07",
+      status: "available",
+      minPrice: 105,
+      hotelId: 10,
+      cached: false,
+    });
+    expect(result.cheapest?.checkIn).toBe("2026-03-01");
+    expect(result.partial).toBe(false);
+    expect(result.upstreamCalls).toBe(31);
+  });
+
+  it("should restrict prices to the requested hotel", async () => {
+    const search = vi.fn(async (params: MyGoSearchParams) => buildResponse(params));
+
+    const result = await buildPriceCalendar(
+      { ...baseParams, hotelId: 20 },
+      { search, today: "2026-01-01" }
+    );
+
+    expect(search.mock.calls[0][0].hotelIds).toEqual([20]);
+    expect(result.cells[0]).toMatchObject({ minPrice: 151, hotelId: 20 });
+  });
+
+  it("should pick the lowest customer price when a pricing hook is given", async () => {
+    const search = vi.fn(async (params: MyGoSearchParams) => buildResponse(params));
+    // Hotel A gets a larger markup than the price gap to Hotel B
+    const priceHotels = vi.fn((hotels: MyGoSearchResponse["hotels"]) =>
+      hotels.map((hotel) => ({
+        ...hotel,
+        rooms: hotel.rooms.map((room) => ({ ...room, price: room.price! + (hotel.id === 10 ? 60 : 0) })),
+      }))
+    );
+
+    const result = await buildPriceCalendar(baseParams, { search, priceHotels, today: "2026-01-01" });
+
+    expect(priceHotels).toHaveBeenCalledWith(expect.any(Array), "2026-03-01");
+    expect(result.cells[0]).toMatchObject({ status: "available", minPrice: 151, hotelId: 20 });
+    expect(result.cheapest).toMatchObject({ checkIn: "2026-03-01", minPrice: 151 });
+  });
+
+  it("should mark past dates without calling myGO", async () => {
+    const search = vi.fn(async (params: MyGoSearchParams) => buildResponse(params));
+
+    const result = await buildPriceCalendar(baseParams, { search, today: "2026-03-29" });
+
+    expect(result.cells.filter((cell) => cell.status === "past")).toHaveLength(28);
+    expect(search).toHaveBeenCalledTimes(3);
+  });
+
+  it("should never exceed the concurrency limit", async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+    const search = vi.fn(async (params: MyGoSearchParams) => {
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await new Promise((resolve) => setTimeout(resolve, 1));
+      inFlight--;
+      return buildResponse(params);
+    });
+
+    await buildPriceCalendar(baseParams, { search, today: "2026-01-01", concurrency: 3 });
+
+    expect(maxInFlight).toBeLessThanOrEqual(3);
+  });
+
+  it("should skip dates beyond the upstream call budget and flag the result as partial", async () => {
+    const search = vi.fn(async (params: MyGoSearchParams) => buildResponse(params));
+
+    const result = await buildPriceCalendar(baseParams, {
+      search,
+      today: "2026-01-01",
+      maxUpstreamCalls: 10,
+    });
+
+    expect(search).toHaveBeenCalledTimes(10);
+    expect(result.cells.filter((cell) => cell.status === "skipped")).toHaveLength(21);
+    expect(result.partial).toBe(true);
+  });
+
+  it("should return partial results when some dates time out or fail", async () => {
+    const search = vi.fn((params: MyGoSearchParams) => {
+      if (params.checkIn === "2026-03-02") {
+        return new Promise<MyGoSearchResponse>(() => {});
+      }
+      if (params.checkIn === "2026-03-03") {
+        return Promise.reject(new Error("myGO unavailable"));
+      }
+      return Promise.resolve(buildResponse(params));
+    });
+
+    const result = await buildPriceCalendar(baseParams, {
+      search,
+      today: "2026-01-01",
+      cellTimeoutMs: 20,
+    });
+
+    expect(result.cells[1].status).toBe("timeout");
+    expect(result.cells[2].status).toBe("error");
+    expect(result.cells[3].status).toBe("available");
+    expect(result.partial).toBe(true);
+  });
+
+  it("should serve cached cells without calling myGO again", async () => {
+    const search = vi.fn(async (params: MyGoSearchParams) => buildResponse(params));
+
+    await buildPriceCalendar(baseParams, { search, today: "2026-01-01" });
+    const second = await buildPriceCalendar(baseParams, { search, today: "2026-01-01" });
+
+    expect(search).toHaveBeenCalledTimes(31);
+    expect(second.upstreamCalls).toBe(0);
+    expect(second.cells.every((cell) => cell.cached)).toBe(true);
+  });
+
+  it("should report sold out dates", async () => {
+    const search = vi.fn(async (): Promise<MyGoSearchResponse> => ({ token: "t", hotels: [] }));
+
+    const result = await buildPriceCalendar(baseParams, { search, today: "2026-01-01" });
+
+    expect(result.cells[0]).toMatchObject({ status: "sold_out", minPrice: null });
+    expect(result.cheapest).toBeNull();
+    expect(result.partial).toBe(false);
+  });
+});
@@ -0,0 +1,222 @@
+/**
+ * Flexible-dates price calendar
+ * Fans out bounded, concurrency-limited myGO searches (one per check-in date)
+ * and returns the lowest instantly bookable price per date (customer price
+ * when a priceHotels hook is given)
+ */
+
+import type { MyGoSearchParams, MyGoSearchResponse, MyGoHotelSearchResult, MyGoRoom } from "../types/mygo";
+import { filterVisibleHotels } from "../clients/mygoClient";
+import { mapWithConcurrency, withTimeout, TimeoutError } from "./concurrency";
+import {
+  getCalendarCellKey,
+  getCachedCalendarCell,
+  setCachedCalendarCell,
+} from "../cache/priceCalendarCache";
+
+export const CALENDAR_CONCURRENCY = 4;
+export const CALENDAR_MAX_UPSTREAM_CALLS = 31;
+export const CALENDAR_CELL_TIMEOUT_MS = 10000;
+
+export type CalendarCellStatus =
+  | "available" // at least one instantly bookable priced room
+  | "sold_out" // myGO answered, nothing bookable
+  | "past" // check-in date before today
+  | "timeout" // myGO did not answer in time
+  | "error" // myGO call failed
+  | "skipped"; // upstream budget exhausted
+
+export interface CalendarCell {
+  checkIn: string;
+  checkOut: string;
+  status: CalendarCellStatus;
+  minPrice: number | null;
+  hotelId: number | null;
+  cached: boolean;
+}
+
+export interface PriceCalendarParams {
+  cityId: number;
+  hotelId?: number;
+  month: string; // YYYY-MM
+  nights: number;
+  rooms: MyGoRoom[];
+  currency?: "TND" | "EUR" | "USD";
+}
+
+export interface PriceCalendarOptions {
+  search: (params: MyGoSearchParams) => Promise<MyGoSearchResponse>;
+  // Customer prices of the visible hotels of a date (pricing rules)
+  priceHotels?: (hotels: MyGoHotelSearchResult[], checkIn: string) => MyGoHotelSearchResult[];
+  today?: string; // YYYY-MM-DD, defaults to current UTC date
+  concurrency?: number;
+  maxUpstreamCalls?: number;
+  cellTimeoutMs?: number;
+}
+
+export interface PriceCalendarResult {
+  month: string;
+  nights: number;
+  currency: string;
+  cells: CalendarCell[];
+  cheapest: CalendarCell | null;
+  partial: boolean;
+  upstreamCalls: number;
+}
+
+/**
+ * Add days to a YYYY-MM-DD date (UTC)
+ */
+export const addDays = (date: string, days: number): string => {
+  const value = new Date(`${date}T00:00:00Z`);
+  value.setUTCDate(value.getUTCDate() + days);
+  return value.toISOString().slice(0, 10);
+};
+
+/**
+ * All dates (YYYY-MM-DD) of a YYYY-MM month
+ */
+export const getMonthDates = (month: string): string[] => {
+  const [year, monthIndex] = month.split("-").map(Number);
+  const daysInMonth = new Date(Date.UTC(year, monthIndex, 0)).getUTCDate();
+  return Array.from({ length: daysInMonth }, (_, index) =>
+    `${month}-${String(index + 1).padStart(2, "0")}`
+  );
+};
+
+/**
+ * Lowest instantly bookable price among priced hotels
+ */
+const findLowestOffer = (
+  hotels: MyGoHotelSearchResult[],
+  hotelId?: number,
+): { minPrice: number; hotelId: number } | null => {
+  let best: { minPrice: number; hotelId: number } | null = null;
+
+  for (const hotel of hotels) {
+    if (hotelId !== undefined && hotel.id !== hotelId) {
+      continue;
+    }
+    for (const room of hotel.rooms) {
+      if (room.onRequest || typeof room.price !== "number") {
+        continue;
+      }
+      if (!best || room.price < best.minPrice) {
+        best = { minPrice: room.price, hotelId: hotel.id };
+      }
+    }
+  }
+
+  return best;
+};
+
+/**
+ * Build the price calendar for one month
+ * Cached cells are served without upstream calls; at most maxUpstreamCalls
+ * dates are searched, the rest are returned as "skipped"
+ */
+export const buildPriceCalendar = async (
+  params: PriceCalendarParams,
+  options: PriceCalendarOptions,
+): Promise<PriceCalendarResult> => {
+  const today = options.today ?? new Date().toISOString().slice(0, 10);
+  const concurrency = options.concurrency ?? CALENDAR_CONCURRENCY;
+  const maxUpstreamCalls = Math.min(
+    options.maxUpstreamCalls ?? CALENDAR_MAX_UPSTREAM_CALLS,
+    CALENDAR_MAX_UPSTREAM_CALLS,
+  );
+  const cellTimeoutMs = options.cellTimeoutMs ?? CALENDAR_CELL_TIMEOUT_MS;
+  const currency = params.currency ?? "TND";
+
+  const cells: CalendarCell[] = [];
+  const pending: Array<{ cell: CalendarCell; key: string }> = [];
+
+  for (const checkIn of getMonthDates(params.month)) {
+    const checkOut = addDays(checkIn, params.nights);
+    const cell: CalendarCell = {
+      checkIn,
+      checkOut,
+      status: "skipped",
+      minPrice: null,
+      hotelId: null,
+      cached: false,
+    };
+    cells.push(cell);
+
+    if (checkIn < today) {
+      cell.status = "past";
+      continue;
+    }
+
+    const key = getCalendarCellKey({
+      cityId: params.cityId,
+      hotelId: params.hotelId,
+      checkIn,
+      checkOut,
+      rooms: params.rooms,
+      currency,
+    });
+    const cachedValue = getCachedCalendarCell(key);
+    if (cachedValue) {
+      cell.status = cachedValue.available ? "available" : "sold_out";
+      cell.minPrice = cachedValue.minPrice;
+      cell.hotelId = cachedValue.hotelId;
+      cell.cached = true;
+      continue;
+    }
+
+    if (pending.length < maxUpstreamCalls) {
+      pending.push({ cell, key });
+    }
+  }
+
+  await mapWithConcurrency(pending, concurrency, async ({ cell, key }) => {
+    try {
+      const response = await withTimeout(
+        options.search({
+          cityId: params.cityId,
+          checkIn: cell.checkIn,
+          checkOut: cell.checkOut,
+          rooms: params.rooms,
+          currency,
+          hotelIds: params.hotelId !== undefined ? [params.hotelId] : undefined,
+          onlyAvailable: true,
+        }),
+        cellTimeoutMs,
+        `HotelSearch ${cell.checkIn}`,
+      );
+      const visibleHotels = filterVisibleHotels(response.hotels);
+      const lowest = findLowestOffer(
+        options.priceHotels ? options.priceHotels(visibleHotels, cell.checkIn) : visibleHotels,
+        params.hotelId,
+      );
+      cell.status = lowest ? "available" : "sold_out";
+      cell.minPrice = lowest?.minPrice ?? null;
+      cell.hotelId = lowest?.hotelId ?? null;
+      setCachedCalendarCell(key, {
+        available: !!lowest,
+        minPrice: cell.minPrice,
+        hotelId: cell.hotelId,
+      });
+    } catch (error) {
+      cell.status = error instanceof TimeoutError ? "timeout" : "error";
+    }
+  });
+
+  const cheapest = cells
+    .filter((cell) => cell.status === "available" && cell.minPrice !== null)
+    .reduce<CalendarCell | null>(
+      (best, cell) => (!best || cell.minPrice! < best.minPrice! ? cell : best),
+      null,
+    );
+
+  return {
+    month: params.month,
+    nights: params.nights,
+    currency,
+    cells,
+    cheapest,
+    partial: cells.some((cell) => ["timeout", "error", "skipped"].includes(cell.status)),
+    upstreamCalls: pending.length,
+  };
+};
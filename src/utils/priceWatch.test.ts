@@ -0,0 +1,160 @@
+/**
+ * Tests for price watch alerts
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  evaluatePriceWatch,
+  getPriceWatchKind,
+  groupPriceWatches,
+  observePriceWatch,
+  toPriceWatch,
+  type PriceWatch,
+} from "./priceWatch";
+import type { MyGoHotelSearchResult } from "../types/mygo";
+
+const baseWatch: PriceWatch = {
+  id: "watch-1",
+  userId: "user-1",
+  guestSessionId: null,
+  email: null,
+  search: { cityId: 10, checkIn: "2026-07-01", checkOut: "2026-07-05", rooms: [{ adults: 2 }] },
+  hotelId: null,
+  roomId: null,
+  boardCode: null,
+  targetPrice: null,
+  initialPrice: null,
+  lastPrice: null,
+  lastAvailable: null,
+  lastCheckedAt: null,
+  lastNotifiedPrice: null,
+  lastNotifiedAt: null,
+  status: "active",
+  createdAt: null,
+};
+
+const hotels: MyGoHotelSearchResult[] = [
+  {
+    id: 101,
+    name: "Hotel Sousse Palace",
+    available: true,
+    rooms: [
+      { onRequest: false, roomId: 1, boardCode: "BB", price: 300 },
+      { onRequest: false, roomId: 1, boardCode: "HB", price: 360 },
+      { onRequest: true, roomId: 2, boardCode: "BB", price: 200 },
+    ],
+  },
+  { id: 102, name: "Hotel Marhaba", available: true, rooms: [{ onRequest: false, roomId: 5, price: 280 }] },
+  { id: 103, name: "Hotel Complet", available: false, rooms: [] },
+];
+
+describe("observePriceWatch", () => {
+  it("should take the lowest bookable price of the search, hotel or offer", () => {
+    expect(observePriceWatch(baseWatch, hotels)).toEqual({ available: true, price: 280 });
+    expect(observePriceWatch({ ...baseWatch, hotelId: 101 }, hotels)).toEqual({ available: true, price: 300 });
+    expect(observePriceWatch({ ...baseWatch, hotelId: 101, roomId: 1, boardCode: "HB" }, hotels)).toEqual({
+      available: true,
+      price: 360,
+    });
+  });
+
+  it("should report on-request offers and sold-out hotels as unavailable", () => {
+    expect(observePriceWatch({ ...baseWatch, hotelId: 101, roomId: 2 }, hotels)).toEqual({
+      available: false,
+      price: null,
+    });
+    expect(observePriceWatch({ ...baseWatch, hotelId: 103 }, hotels)).toEqual({ available: false, price: null });
+  });
+});
+
+describe("evaluatePriceWatch", () => {
+  it("should record the first price without notifying", () => {
+    expect(evaluatePriceWatch(baseWatch, { available: true, price: 300 })).toEqual({
+      notification: null,
+      updates: { last_price: 300, last_available: true },
+    });
+  });
+
+  it("should notify drops below the last notified or saved price", () => {
+    const watch = { ...baseWatch, initialPrice: 300, lastPrice: 310 };
+
+    expect(evaluatePriceWatch(watch, { available: true, price: 290 })).toEqual({
+      notification: { type: "PRICE_DROP", price: 290, previousPrice: 300 },
+      updates: { last_price: 290, last_available: true, last_notified_price: 290 },
+    });
+    expect(evaluatePriceWatch({ ...watch, lastNotifiedPrice: 280 }, { available: true, price: 290 }).notification).toBeNull();
+  });
+
+  it("should wait for the target price", () => {
+    const watch = { ...baseWatch, initialPrice: 300, targetPrice: 250 };
+
+    expect(evaluatePriceWatch(watch, { available: true, price: 260 }).notification).toBeNull();
+    expect(evaluatePriceWatch(watch, { available: true, price: 250 }).notification).toMatchObject({
+      type: "PRICE_DROP",
+      price: 250,
+    });
+    // Without a saved price, reaching the target is enough
+    expect(
+      evaluatePriceWatch({ ...watch, initialPrice: null }, { available: true, price: 240 }).notification
+    ).toMatchObject({ type: "PRICE_DROP", previousPrice: null });
+  });
+
+  it("should notify when a sold-out watch becomes available", () => {
+    const soldOut = evaluatePriceWatch({ ...baseWatch, lastPrice: 300 }, { available: false, price: null });
+    expect(soldOut).toEqual({ notification: null, updates: { last_price: 300, last_available: false } });
+
+    expect(
+      evaluatePriceWatch({ ...baseWatch, lastPrice: 300, lastAvailable: false }, { available: true, price: 320 })
+    ).toEqual({
+      notification: { type: "BACK_IN_STOCK", price: 320, previousPrice: 300 },
+      updates: { last_price: 320, last_available: true, last_notified_price: 320 },
+    });
+  });
+});
+
+describe("groupPriceWatches", () => {
+  it("should share one search per stay and occupancy", () => {
+    const groups = groupPriceWatches([
+      { ...baseWatch, id: "a", hotelId: 102 },
+      { ...baseWatch, id: "b", hotelId: 101, search: { ...baseWatch.search, rooms: [{ adults: 2, childrenAges: [] }] } },
+      { ...baseWatch, id: "c", search: { ...baseWatch.search, checkOut: "2026-07-06" } },
+      { ...baseWatch, id: "d", search: { ...baseWatch.search, checkOut: "2026-07-06" }, hotelId: 101 },
+    ]);
+
+    expect(groups.map((group) => group.watches.map((watch) => watch.id))).toEqual([["a", "b"], ["c", "d"]]);
+    // Hotel-only groups search those hotels; a whole-search watch needs the city
+    expect(groups[0].params).toMatchObject({ cityId: 10, currency: "TND", hotelIds: [101, 102] });
+    expect(groups[1].params.hotelIds).toBeUndefined();
+  });
+});
+
+describe("toPriceWatch / helpers", () => {
+  it("should map rows and derive the watch kind", () => {
+    const watch = toPriceWatch({
+      id: "watch-9",
+      user_id: null,
+      guest_session_id: "guest-1",
+      email: "guest@example.com",
+      city_id: 10,
+      check_in: "2026-07-01",
+      check_out: "2026-07-05",
+      rooms: [{ adults: 2, childrenAges: [5] }],
+      hotel_id: 101,
+      room_id: 1,
+      board_code: "BB",
+      target_price: "250.000",
+      initial_price: "300.000",
+      last_price: null,
+      last_available: null,
+      last_checked_at: null,
+      last_notified_price: null,
+      last_notified_at: null,
+      status: "active",
+      created_at: null,
+    });
+
+    expect(watch).toMatchObject({ targetPrice: 250, initialPrice: 300, lastPrice: null, hotelId: 101 });
+    expect(getPriceWatchKind(watch)).toBe("offer");
+    expect(getPriceWatchKind({ hotelId: 101, roomId: null })).toBe("hotel");
+  });
+});
@@ -0,0 +1,296 @@
+/**
+ * Price watch alerts for saved searches and offers
+ *
+ * A watch (price_watches table) belongs to a user or a guest session and
+ * tracks one of:
+ * - search: the cheapest room of any hotel for a city, stay and occupancy
+ * - hotel: the cheapest room of one hotel
+ * - offer: one room (and board) of one hotel
+ *
+ * The scheduled job re-runs the search of active watches, compares the
+ * customer price (after pricing rules, TND) with what the watch last saw and
+ * queues a notification when the price drops (to the target price, when one
+ * is set) or when a sold-out watch becomes available again. Watches expire
+ * once their check-in date has passed.
+ */
+
+import type { MyGoHotelSearchResult, MyGoSearchParams } from "../types/mygo";
+import type { OfferOccupancy } from "./offerReference";
+
+export type PriceWatchKind = "search" | "hotel" | "offer";
+export type PriceWatchStatus = "active" | "expired" | "cancelled";
+export type PriceWatchNotificationType = "PRICE_DROP" | "BACK_IN_STOCK";
+
+// Active watches per user or guest session
+export const MAX_ACTIVE_WATCHES_PER_OWNER = 20;
+
+// Prices are compared at TND precision (millimes)
+const PRICE_TOLERANCE = 0.0005;
+
+export interface PriceWatchSearch {
+  cityId: number;
+  checkIn: string; // YYYY-MM-DD
+  checkOut: string; // YYYY-MM-DD
+  rooms: OfferOccupancy[];
+}
+
+export interface PriceWatch {
+  id: string;
+  userId: string | null;
+  guestSessionId: string | null;
+  email: string | null;
+  search: PriceWatchSearch;
+  hotelId: number | null;
+  roomId: number | null;
+  boardCode: string | null;
+  targetPrice: number | null;
+  initialPrice: number | null; // price seen when the watch was saved (signed offer)
+  lastPrice: number | null;
+  lastAvailable: boolean | null; // null until the first check
+  lastCheckedAt: string | null;
+  lastNotifiedPrice: number | null;
+  lastNotifiedAt: string | null;
+  status: PriceWatchStatus;
+  createdAt: string | null;
+}
+
+export interface PriceWatchRow {
+  id: string;
+  user_id: string | null;
+  guest_session_id: string | null;
+  email: string | null;
+  city_id: number;
+  check_in: string;
+  check_out: string;
+  rooms: OfferOccupancy[];
+  hotel_id: number | null;
+  room_id: number | null;
+  board_code: string | null;
+  target_price: number | string | null;
+  initial_price: number | string | null;
+  last_price: number | string | null;
+  last_available: boolean | null;
+  last_checked_at: string | null;
+  last_notified_price: number | string | null;
+  last_notified_at: string | null;
+  status: PriceWatchStatus;
+  created_at: string | null;
+}
+
+// What a fresh search shows for a watch
+export interface PriceWatchObservation {
+  available: boolean;
+  price: number | null; // lowest matching customer price, null when unavailable
+}
+
+export interface PriceWatchNotice {
+  type: PriceWatchNotificationType;
+  price: number;
+  previousPrice: number | null;
+}
+
+export interface PriceWatchEvaluation {
+  notification: PriceWatchNotice | null;
+  // Columns to update on the watch
+  updates: {
+    last_price: number | null;
+    last_available: boolean;
+    last_notified_price?: number;
+  };
+}
+
+// Watches sharing one upstream search
+export interface PriceWatchSearchGroup {
+  key: string;
+  params: MyGoSearchParams;
+  watches: PriceWatch[];
+}
+
+const toNumber = (value: number | string | null): number | null =>
+  value === null || value === undefined ? null : Number(value);
+
+/**
+ * Map a price_watches row (numeric columns may come back as strings)
+ */
+export const toPriceWatch = (row: PriceWatchRow): PriceWatch => ({
+  id: row.id,
+  userId: row.user_id,
+  guestSessionId: row.guest_session_id,
+  email: row.email,
+  search: { cityId: row.city_id, checkIn: row.check_in, checkOut: row.check_out, rooms: row.rooms },
+  hotelId: row.hotel_id,
+  roomId: row.room_id,
+  boardCode: row.board_code,
+  targetPrice: toNumber(row.target_price),
+  initialPrice: toNumber(row.initial_price),
+  lastPrice: toNumber(row.last_price),
+  lastAvailable: row.last_available,
+  lastCheckedAt: row.last_checked_at,
+  lastNotifiedPrice: toNumber(row.last_notified_price),
+  lastNotifiedAt: row.last_notified_at,
+  status: row.status,
+  createdAt: row.created_at,
+});
+
+/**
+ * What a watch tracks: a whole search, one hotel or one offer
+ */
+export const getPriceWatchKind = (watch: Pick<PriceWatch, "hotelId" | "roomId">): PriceWatchKind =>
+  watch.roomId !== null ? "offer" : watch.hotelId !== null ? "hotel" : "search";
+
+/**
+ * Canonical occupancy of a watch (stored in price_watches.rooms and compared
+ * as jsonb, so children ages are always present and sorted)
+ */
+export const normalizeWatchRooms = (rooms: OfferOccupancy[]): Required<OfferOccupancy>[] =>
+  rooms.map((room) => ({ adults: room.adults, childrenAges: [...(room.childrenAges ?? [])].sort((a, b) => a - b) }));
+
+/**
+ * Key of the upstream search a watch needs (same city, stay and occupancy)
+ */
+export const getPriceWatchSearchKey = (search: PriceWatchSearch): string =>
+  JSON.stringify([search.cityId, search.checkIn, search.checkOut, normalizeWatchRooms(search.rooms)]);
+
+/**
+ * Group watches by upstream search, in order of first appearance
+ * A group whose watches all target hotels only searches those hotels
+ */
+export const groupPriceWatches = (watches: PriceWatch[]): PriceWatchSearchGroup[] => {
+  const groups = new Map<string, PriceWatchSearchGroup>();
+
+  for (const watch of watches) {
+    const key = getPriceWatchSearchKey(watch.search);
+    const group = groups.get(key);
+    if (group) {
+      group.watches.push(watch);
+      continue;
+    }
+    groups.set(key, {
+      key,
+      params: {
+        cityId: watch.search.cityId,
+        checkIn: watch.search.checkIn,
+        checkOut: watch.search.checkOut,
+        rooms: watch.search.rooms.map((room) => ({ adults: room.adults, childrenAges: room.childrenAges })),
+        currency: "TND",
+        onlyAvailable: false,
+      },
+      watches: [watch],
+    });
+  }
+
+  return Array.from(groups.values(), (group) => {
+    const hotelIds = group.watches.map((watch) => watch.hotelId);
+    if (hotelIds.some((hotelId) => hotelId === null)) {
+      return group;
+    }
+    const uniqueIds = [...new Set(hotelIds as number[])].sort((a, b) => a - b);
+    return { ...group, params: { ...group.params, hotelIds: uniqueIds } };
+  });
+};
+
+/**
+ * Lowest bookable price matching a watch in search results
+ * On-request and unpriced rooms do not count as available
+ */
+export const observePriceWatch = (
+  watch: Pick<PriceWatch, "hotelId" | "roomId" | "boardCode">,
+  hotels: MyGoHotelSearchResult[],
+): PriceWatchObservation => {
+  const candidates = watch.hotelId === null ? hotels : hotels.filter((hotel) => hotel.id === watch.hotelId);
+  let price: number | null = null;
+
+  for (const hotel of candidates) {
+    if (!hotel.available) {
+      continue;
+    }
+    for (const room of hotel.rooms) {
+      if (room.onRequest || typeof room.price !== "number") {
+        continue;
+      }
+      if (watch.roomId !== null && room.roomId !== watch.roomId) {
+        continue;
+      }
+      if (watch.roomId !== null && watch.boardCode && room.boardCode !== watch.boardCode) {
+        continue;
+      }
+      price = price === null ? room.price : Math.min(price, room.price);
+    }
+  }
+
+  return { available: price !== null, price };
+};
+
+/**
+ * Compare an observation with what the watch last saw
+ * - BACK_IN_STOCK: available again after a check that found it sold out
+ * - PRICE_DROP: lower than the last notified price (or the price seen when
+ *   saving) and at or under the target price when one is set. Without a
+ *   reference price, only reaching the target notifies; otherwise the first
+ *   check just records the price
+ */
+export const evaluatePriceWatch = (
+  watch: Pick<PriceWatch, "targetPrice" | "initialPrice" | "lastPrice" | "lastAvailable" | "lastNotifiedPrice">,
+  observation: PriceWatchObservation,
+): PriceWatchEvaluation => {
+  if (!observation.available || observation.price === null) {
+    return { notification: null, updates: { last_price: watch.lastPrice, last_available: false } };
+  }
+
+  const price = observation.price;
+  const updates = { last_price: price, last_available: true };
+  const meetsTarget = watch.targetPrice === null || price <= watch.targetPrice + PRICE_TOLERANCE;
+
+  if (watch.lastAvailable === false) {
+    return {
+      notification: { type: "BACK_IN_STOCK", price, previousPrice: watch.lastPrice },
+      updates: { ...updates, last_notified_price: price },
+    };
+  }
+
+  const reference = watch.lastNotifiedPrice ?? watch.initialPrice;
+  const dropped = reference === null ? watch.targetPrice !== null : price < reference - PRICE_TOLERANCE;
+  if (dropped && meetsTarget) {
+    return {
+      notification: { type: "PRICE_DROP", price, previousPrice: reference ?? watch.lastPrice },
+      updates: { ...updates, last_notified_price: price },
+    };
+  }
+
+  return { notification: null, updates };
+};
+
+// A queued alert with the stay of its watch, as read by the delivery step
+export interface PriceWatchNotificationRow {
+  id: number;
+  user_id: string | null;
+  email: string | null;
+  type: PriceWatchNotificationType;
+  price: number | string;
+  previous_price: number | string | null;
+  price_watches: { check_in: string; check_out: string } | null;
+}
+
+const formatTnd = (amount: number): string => `${amount.toFixed(3)} TND`;
+
+/**
+ * Alert email of a queued notification (customer prices in TND)
+ */
+export const buildPriceWatchEmail = (row: PriceWatchNotificationRow): { subject: string; text: string } => {
+  const price = Number(row.price);
+  const previousPrice = toNumber(row.previous_price);
+  const stay = row.price_watches ? ` du ${row.price_watches.check_in} au ${row.price_watches.check_out}` : "";
+
+  if (row.type === "BACK_IN_STOCK") {
+    return {
+      subject: "Votre séjour est de nouveau disponible",
+      text: `Bonne nouvelle : le séjour que vous surveillez${stay} est de nouveau disponible à ${formatTnd(price)}.`,
+    };
+  }
+  return {
+    subject: "Baisse de prix sur votre séjour",
+    text:
+      `Le prix du séjour que vous surveillez${stay} a baissé : ${formatTnd(price)}` +
+      (previousPrice !== null ? ` au lieu de ${formatTnd(previousPrice)}.` : "."),
+  };
+};
@@ -0,0 +1,179 @@
+/**
+ * Tests for the pricing and markup rules engine
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  applyPricingRule,
+  applyPricingToHotels,
+  bookingWindowDays,
+  priceOffer,
+  selectPricingRule,
+  toPricingRule,
+  type PricingContext,
+  type PricingRule,
+} from "./pricingRules";
+import type { MyGoHotelSearchResult } from "../types/mygo";
+
+const baseRule: PricingRule = {
+  id: 1,
+  name: "Default +8%",
+  active: true,
+  priority: 0,
+  hotelIds: null,
+  cityIds: null,
+  stars: null,
+  boardTypes: null,
+  stayFrom: null,
+  stayTo: null,
+  bookingWindowMin: null,
+  bookingWindowMax: null,
+  channels: null,
+  markupType: "percent",
+  markupValue: 8,
+  roundingStep: null,
+  roundingMode: "nearest",
+  minPrice: null,
+  maxPrice: null,
+  note: null,
+  updatedAt: null,
+};
+
+const context: PricingContext = {
+  hotelId: 101,
+  cityId: 10,
+  star: 4,
+  boardType: "HB",
+  checkIn: "2026-07-01",
+  channel: "web",
+  now: new Date("2026-06-01T10:00:00Z"),
+};
+
+describe("selectPricingRule", () => {
+  it("should prefer priority, then specificity, then the oldest rule", () => {
+    const city = { ...baseRule, id: 2, name: "Sousse", cityIds: [10] };
+    const cityAndBoard = { ...baseRule, id: 3, name: "Sousse HB", cityIds: [10], boardTypes: ["HB"] };
+    const promoted = { ...baseRule, id: 4, name: "Summer push", priority: 10 };
+
+    expect(selectPricingRule([baseRule, city, cityAndBoard], context)?.id).toBe(3);
+    expect(selectPricingRule([baseRule, city, cityAndBoard, promoted], context)?.id).toBe(4);
+    expect(selectPricingRule([{ ...baseRule, id: 9 }, baseRule], context)?.id).toBe(1);
+  });
+
+  it("should match every condition of a rule", () => {
+    const rule = {
+      ...baseRule,
+      hotelIds: [101],
+      stars: [4, 5],
+      stayFrom: "2026-06-15",
+      stayTo: "2026-08-31",
+      bookingWindowMin: 14,
+      bookingWindowMax: 60,
+      channels: ["web" as const, "mobile" as const],
+    };
+
+    expect(selectPricingRule([rule], context)).toBe(rule);
+    expect(selectPricingRule([rule], { ...context, hotelId: 102 })).toBeNull();
+    expect(selectPricingRule([rule], { ...context, star: 3 })).toBeNull();
+    expect(selectPricingRule([rule], { ...context, checkIn: "2026-09-01" })).toBeNull();
+    expect(selectPricingRule([rule], { ...context, now: new Date("2026-06-25T10:00:00Z") })).toBeNull();
+    expect(selectPricingRule([rule], { ...context, channel: "whatsapp" })).toBeNull();
+    expect(selectPricingRule([{ ...rule, active: false }], context)).toBeNull();
+  });
+
+  it("should not match targeted conditions the offer does not provide", () => {
+    expect(selectPricingRule([{ ...baseRule, stars: [4] }], { ...context, star: undefined })).toBeNull();
+    expect(selectPricingRule([{ ...baseRule, boardTypes: ["HB"] }], { ...context, boardType: null })).toBeNull();
+  });
+});
+
+describe("applyPricingRule", () => {
+  it("should apply percent and fixed markups at TND precision", () => {
+    expect(applyPricingRule(123.456, baseRule)).toMatchObject({ price: 133.332, markup: 9.876 });
+    expect(applyPricingRule(100, { ...baseRule, markupType: "fixed", markupValue: 15.5 })).toMatchObject({
+      price: 115.5,
+      markup: 15.5,
+      rule: { id: 1, name: "Default +8%", markupType: "fixed", markupValue: 15.5 },
+    });
+    expect(applyPricingRule(100, null)).toEqual({ supplierPrice: 100, price: 100, markup: 0, rule: null });
+  });
+
+  it("should round to the rule step", () => {
+    const rule = { ...baseRule, markupValue: 10, roundingStep: 5 };
+
+    expect(applyPricingRule(251, { ...rule, roundingMode: "up" }).price).toBe(280);
+    expect(applyPricingRule(251, { ...rule, roundingMode: "down" }).price).toBe(275);
+    expect(applyPricingRule(251, rule).price).toBe(275);
+    // Float noise does not push an exact multiple to the next step
+    expect(applyPricingRule(100, { ...baseRule, markupValue: 10, roundingStep: 0.1, roundingMode: "up" }).price).toBe(
+      110
+    );
+  });
+
+  it("should clamp to the floor and ceiling but never sell below the supplier price", () => {
+    expect(applyPricingRule(50, { ...baseRule, minPrice: 60 }).price).toBe(60);
+    expect(applyPricingRule(500, { ...baseRule, maxPrice: 520 }).price).toBe(520);
+    expect(applyPricingRule(500, { ...baseRule, maxPrice: 450 })).toMatchObject({ price: 500, markup: 0 });
+  });
+});
+
+describe("applyPricingToHotels", () => {
+  it("should price each room with its own board and keep unpriced rooms", () => {
+    const hotels: MyGoHotelSearchResult[] = [
+      {
+        id: 101,
+        name: "Hotel Sousse Palace",
+        available: true,
+        cityId: 10,
+        star: 4,
+        rooms: [
+          { onRequest: false, roomId: 1, price: 200, boardType: "HB" },
+          { onRequest: false, roomId: 2, price: 200, boardType: "BB" },
+          { onRequest: true, roomId: 3, boardType: "HB" },
+        ],
+      },
+    ];
+    const rules = [{ ...baseRule, boardTypes: ["HB"], markupValue: 10 }];
+
+    const [hotel] = applyPricingToHotels(hotels, rules, { checkIn: "2026-07-01" });
+
+    expect(hotel.rooms.map((room) => room.price)).toEqual([220, 200, undefined]);
+    expect(applyPricingToHotels(hotels, [], { checkIn: "2026-07-01" })).toBe(hotels);
+  });
+});
+
+describe("toPricingRule / helpers", () => {
+  it("should map numeric strings and empty condition arrays", () => {
+    const rule = toPricingRule({
+      id: 5,
+      name: "Row",
+      active: true,
+      priority: 1,
+      hotel_ids: [],
+      city_ids: [10],
+      stars: null,
+      board_types: null,
+      stay_from: "2026-06-01",
+      stay_to: null,
+      booking_window_min: null,
+      booking_window_max: 30,
+      channels: ["mobile"],
+      markup_type: "fixed",
+      markup_value: "12.500",
+      rounding_step: null,
+      rounding_mode: "nearest",
+      min_price: "40.000",
+      max_price: null,
+      note: null,
+      updated_at: "2026-05-01T00:00:00Z",
+    });
+
+    expect(rule).toMatchObject({ hotelIds: null, cityIds: [10], markupValue: 12.5, minPrice: 40, maxPrice: null });
+    expect(priceOffer(100, [rule], { ...context, channel: "mobile", now: new Date("2026-06-20") }).price).toBe(112.5);
+  });
+
+  it("should count booking window days in calendar days", () => {
+    expect(bookingWindowDays("2026-07-01", new Date("2026-06-30T23:30:00Z"))).toBe(1);
+    expect(bookingWindowDays("2026-07-01", new Date("2026-07-01T08:00:00Z"))).toBe(0);
+  });
+});
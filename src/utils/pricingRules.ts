@@ -0,0 +1,277 @@
+/**
+ * Pricing and markup rules engine
+ *
+ * Admin-managed rules (pricing_rules table) turn the myGO supplier price into
+ * the customer price. A rule targets offers by hotel, city, star level,
+ * canonical board, stay dates (check-in), booking window (days before
+ * check-in) and sales channel; empty conditions match everything.
+ *
+ * One rule applies per offer: highest priority first, then the most specific
+ * rule, then the oldest. The markup (percent or fixed amount) is applied, the
+ * result is rounded to the rule's step, clamped to its floor/ceiling and kept
+ * at TND precision. The customer price never goes below the supplier price.
+ */
+
+import type { MyGoHotelSearchResult } from "../types/mygo";
+
+export const PRICING_CHANNELS = ["web", "mobile", "whatsapp", "backoffice"] as const;
+export type PricingChannel = (typeof PRICING_CHANNELS)[number];
+
+export const DEFAULT_PRICING_CHANNEL: PricingChannel = "web";
+
+export type MarkupType = "percent" | "fixed";
+export type RoundingMode = "nearest" | "up" | "down";
+
+export interface PricingRule {
+  id: number;
+  name: string;
+  active: boolean;
+  priority: number;
+  hotelIds: number[] | null;
+  cityIds: number[] | null;
+  stars: number[] | null;
+  boardTypes: string[] | null; // canonical boards (RO, BB, HB, FB, AI, UAI)
+  stayFrom: string | null; // YYYY-MM-DD, first check-in date covered
+  stayTo: string | null; // YYYY-MM-DD, last check-in date covered
+  bookingWindowMin: number | null; // days before check-in
+  bookingWindowMax: number | null;
+  channels: PricingChannel[] | null;
+  markupType: MarkupType;
+  markupValue: number; // percent (10 = +10%) or amount in the offer currency
+  roundingStep: number | null; // e.g. 1 for whole dinars, 0.5, 5
+  roundingMode: RoundingMode;
+  minPrice: number | null;
+  maxPrice: number | null;
+  note: string | null;
+  updatedAt: string | null;
+}
+
+export interface PricingRuleRow {
+  id: number;
+  name: string;
+  active: boolean;
+  priority: number;
+  hotel_ids: number[] | null;
+  city_ids: number[] | null;
+  stars: number[] | null;
+  board_types: string[] | null;
+  stay_from: string | null;
+  stay_to: string | null;
+  booking_window_min: number | null;
+  booking_window_max: number | null;
+  channels: string[] | null;
+  markup_type: MarkupType;
+  markup_value: number | string;
+  rounding_step: number | string | null;
+  rounding_mode: RoundingMode;
+  min_price: number | string | null;
+  max_price: number | string | null;
+  note: string | null;
+  updated_at: string | null;
+}
+
+// What a rule is matched against
+export interface PricingContext {
+  hotelId: number;
+  cityId?: number;
+  star?: number;
+  boardType?: string | null;
+  checkIn: string; // YYYY-MM-DD
+  channel?: PricingChannel;
+  now?: Date;
+}
+
+export interface PricedAmount {
+  supplierPrice: number;
+  price: number;
+  markup: number;
+  rule: Pick<PricingRule, "id" | "name" | "markupType" | "markupValue"> | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// TND precision (millimes)
+const roundAmount = (value: number): number => Math.round(value * 1000) / 1000;
+
+const toNumber = (value: number | string | null): number | null =>
+  value === null || value === undefined ? null : Number(value);
+
+const emptyToNull = <T>(values: T[] | null | undefined): T[] | null =>
+  values && values.length > 0 ? values : null;
+
+/**
+ * Map a pricing_rules row (numeric columns may come back as strings)
+ */
+export const toPricingRule = (row: PricingRuleRow): PricingRule => ({
+  id: row.id,
+  name: row.name,
+  active: row.active,
+  priority: row.priority,
+  hotelIds: emptyToNull(row.hotel_ids),
+  cityIds: emptyToNull(row.city_ids),
+  stars: emptyToNull(row.stars),
+  boardTypes: emptyToNull(row.board_types),
+  stayFrom: row.stay_from,
+  stayTo: row.stay_to,
+  bookingWindowMin: row.booking_window_min,
+  bookingWindowMax: row.booking_window_max,
+  channels: emptyToNull(row.channels as PricingChannel[] | null),
+  markupType: row.markup_type,
+  markupValue: Number(row.markup_value),
+  roundingStep: toNumber(row.rounding_step),
+  roundingMode: row.rounding_mode,
+  minPrice: toNumber(row.min_price),
+  maxPrice: toNumber(row.max_price),
+  note: row.note,
+  updatedAt: row.updated_at,
+});
+
+/**
+ * Whole days between the booking date and check-in (UTC calendar days)
+ */
+export const bookingWindowDays = (checkIn: string, now: Date = new Date()): number => {
+  const today = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate());
+  return Math.round((Date.parse(`${checkIn}T00:00:00Z`) - today) / DAY_MS);
+};
+
+/**
+ * Whether a rule's conditions all hold for an offer
+ */
+export const ruleMatches = (rule: PricingRule, context: PricingContext): boolean => {
+  if (!rule.active) {
+    return false;
+  }
+  if (rule.hotelIds && !rule.hotelIds.includes(context.hotelId)) {
+    return false;
+  }
+  if (rule.cityIds && (context.cityId === undefined || !rule.cityIds.includes(context.cityId))) {
+    return false;
+  }
+  if (rule.stars && (context.star === undefined || !rule.stars.includes(context.star))) {
+    return false;
+  }
+  if (rule.boardTypes && (!context.boardType || !rule.boardTypes.includes(context.boardType))) {
+    return false;
+  }
+  if (rule.stayFrom && context.checkIn < rule.stayFrom) {
+    return false;
+  }
+  if (rule.stayTo && context.checkIn > rule.stayTo) {
+    return false;
+  }
+  if (rule.bookingWindowMin !== null || rule.bookingWindowMax !== null) {
+    const days = bookingWindowDays(context.checkIn, context.now);
+    if (rule.bookingWindowMin !== null && days < rule.bookingWindowMin) {
+      return false;
+    }
+    if (rule.bookingWindowMax !== null && days > rule.bookingWindowMax) {
+      return false;
+    }
+  }
+  if (rule.channels && !rule.channels.includes(context.channel ?? DEFAULT_PRICING_CHANNEL)) {
+    return false;
+  }
+  return true;
+};
+
+// Number of conditions set on a rule, used to break priority ties
+const specificity = (rule: PricingRule): number =>
+  [
+    rule.hotelIds,
+    rule.cityIds,
+    rule.stars,
+    rule.boardTypes,
+    rule.stayFrom,
+    rule.stayTo,
+    rule.bookingWindowMin,
+    rule.bookingWindowMax,
+    rule.channels,
+  ].filter((condition) => condition !== null).length;
+
+/**
+ * Rules matching an offer in application order: highest priority, then most
+ * specific, then oldest
+ */
+export const rankPricingRules = (rules: PricingRule[], context: PricingContext): PricingRule[] =>
+  rules
+    .filter((rule) => ruleMatches(rule, context))
+    .sort((a, b) => b.priority - a.priority || specificity(b) - specificity(a) || a.id - b.id);
+
+/**
+ * Rule applying to an offer (first ranked rule)
+ */
+export const selectPricingRule = (rules: PricingRule[], context: PricingContext): PricingRule | null =>
+  rankPricingRules(rules, context)[0] ?? null;
+
+const roundToStep = (value: number, step: number, mode: RoundingMode): number => {
+  // Strip float noise first so 100.00000001 does not round up to the next step
+  const steps = Number((value / step).toFixed(6));
+  const rounded = mode === "up" ? Math.ceil(steps) : mode === "down" ? Math.floor(steps) : Math.round(steps);
+  return rounded * step;
+};
+
+/**
+ * Apply one rule (or none) to a supplier price
+ */
+export const applyPricingRule = (supplierPrice: number, rule: PricingRule | null): PricedAmount => {
+  if (!rule) {
+    return { supplierPrice, price: supplierPrice, markup: 0, rule: null };
+  }
+
+  let price =
+    rule.markupType === "percent" ? supplierPrice * (1 + rule.markupValue / 100) : supplierPrice + rule.markupValue;
+  if (rule.roundingStep) {
+    price = roundToStep(price, rule.roundingStep, rule.roundingMode);
+  }
+  if (rule.minPrice !== null) {
+    price = Math.max(price, rule.minPrice);
+  }
+  if (rule.maxPrice !== null) {
+    price = Math.min(price, rule.maxPrice);
+  }
+  price = roundAmount(Math.max(price, supplierPrice));
+
+  return {
+    supplierPrice,
+    price,
+    markup: roundAmount(price - supplierPrice),
+    rule: { id: rule.id, name: rule.name, markupType: rule.markupType, markupValue: rule.markupValue },
+  };
+};
+
+/**
+ * Price one offer with the rule that applies to it
+ */
+export const priceOffer = (supplierPrice: number, rules: PricingRule[], context: PricingContext): PricedAmount =>
+  applyPricingRule(supplierPrice, selectPricingRule(rules, context));
+
+/**
+ * Replace supplier room prices of search results with customer prices
+ * Rooms need boardType (annotateRoomTypes) for board-specific rules
+ */
+export const applyPricingToHotels = (
+  hotels: MyGoHotelSearchResult[],
+  rules: PricingRule[],
+  context: Pick<PricingContext, "checkIn" | "channel" | "now">,
+): MyGoHotelSearchResult[] => {
+  if (rules.length === 0) {
+    return hotels;
+  }
+  return hotels.map((hotel) => ({
+    ...hotel,
+    rooms: hotel.rooms.map((room) =>
+      typeof room.price === "number"
+        ? {
+            ...room,
+            price: priceOffer(room.price, rules, {
+              ...context,
+              hotelId: hotel.id,
+              cityId: hotel.cityId,
+              star: hotel.star,
+              boardType: room.boardType,
+            }).price,
+          }
+        : room
+    ),
+  }));
+};
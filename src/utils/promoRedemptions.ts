@@ -0,0 +1,214 @@
+/**
+ * Promo code lookups and redemption tracking (promo_codes, promo_redemptions)
+ * Shared by the booking, checkout and payment routes
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Logger } from "./logger";
+import {
+  normalizePromoCode,
+  toPromoCode,
+  PROMO_RESERVATION_TTL_MS,
+  type PromoCode,
+  type PromoCodeRow,
+  type RedemptionStatus,
+} from "./promotions";
+
+// Customer a redemption is counted for: the account, and the booking email
+export interface PromoCustomer {
+  userId?: string | null;
+  email: string;
+}
+
+export interface PromoRedemptionRow {
+  id: number;
+  promo_code_id: number;
+  booking_id: string | null;
+  user_id: string | null;
+  customer_email: string;
+  discount_amount: number | string;
+  status: RedemptionStatus;
+  reserved_at: string;
+  redeemed_at: string | null;
+  released_at: string | null;
+}
+
+/**
+ * Find a promo code by the code a customer typed (case-insensitive)
+ */
+export const findPromoCode = async (supabase: SupabaseClient, code: string): Promise<PromoCode | null> => {
+  const { data, error } = await supabase
+    .from("promo_codes")
+    .select("*")
+    .eq("code", normalizePromoCode(code))
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Promo code lookup failed: ${error.message}`);
+  }
+  return data ? toPromoCode(data as PromoCodeRow) : null;
+};
+
+/**
+ * Get a promo code by id
+ */
+export const getPromoCodeById = async (supabase: SupabaseClient, id: number): Promise<PromoCode | null> => {
+  const { data, error } = await supabase.from("promo_codes").select("*").eq("id", id).maybeSingle();
+
+  if (error) {
+    throw new Error(`Promo code lookup failed: ${error.message}`);
+  }
+  return data ? toPromoCode(data as PromoCodeRow) : null;
+};
+
+export type PromoReservation =
+  | { reserved: true; redemptionId: number }
+  | { reserved: false; reason: "NOT_FOUND" | "USAGE_LIMIT" | "CUSTOMER_LIMIT" };
+
+/**
+ * Reserve a use of a code for a customer, or renew the reservation of a
+ * booking (renewRedemptionId)
+ * Atomic (reserve_promo_redemption locks the code while it counts and
+ * inserts), so concurrent bookings cannot go over the code's limits. Counts
+ * redeemed uses and reservations younger than PROMO_RESERVATION_TTL_MS, per
+ * customer by the same account or the same booking email
+ */
+export const reservePromoRedemption = async (
+  supabase: SupabaseClient,
+  promoCodeId: number,
+  customer: PromoCustomer,
+  options: { now?: Date; renewRedemptionId?: number } = {}
+): Promise<PromoReservation> => {
+  const now = options.now ?? new Date();
+  const { data, error } = await supabase
+    .rpc("reserve_promo_redemption", {
+      p_promo_code_id: promoCodeId,
+      p_customer_email: customer.email.trim().toLowerCase(),
+      p_user_id: customer.userId ?? null,
+      p_counted_since: new Date(now.getTime() - PROMO_RESERVATION_TTL_MS).toISOString(),
+      p_renew_redemption_id: options.renewRedemptionId ?? null,
+    })
+    .single();
+
+  if (error) {
+    throw new Error(`Promo reservation failed: ${error.message}`);
+  }
+  const result = data as { redemption_id: number | null; rejection: string | null };
+  if (result.redemption_id === null) {
+    return {
+      reserved: false,
+      reason: result.rejection === "USAGE_LIMIT" || result.rejection === "CUSTOMER_LIMIT" ? result.rejection : "NOT_FOUND",
+    };
+  }
+  return { reserved: true, redemptionId: Number(result.redemption_id) };
+};
+
+/**
+ * Attach a reservation to the booking made with it
+ * Bookings confirmed without payment redeem directly, others stay reserved
+ */
+export const attachPromoRedemption = async (
+  supabase: SupabaseClient,
+  redemptionId: number,
+  redemption: { bookingId: string; discount: number; status: Exclude<RedemptionStatus, "released"> }
+): Promise<void> => {
+  const { error } = await supabase
+    .from("promo_redemptions")
+    .update({
+      booking_id: redemption.bookingId,
+      discount_amount: redemption.discount,
+      status: redemption.status,
+      ...(redemption.status === "redeemed" ? { redeemed_at: new Date().toISOString() } : {}),
+    })
+    .eq("id", redemptionId);
+
+  if (error) {
+    throw new Error(`Promo redemption update failed: ${error.message}`);
+  }
+};
+
+/**
+ * Release a reservation that no booking uses (myGO failed, or the code did
+ * not apply to the priced total). Failures are logged, never thrown
+ */
+export const releasePromoReservation = async (
+  supabase: SupabaseClient,
+  redemptionId: number,
+  logger: Logger
+): Promise<void> => {
+  const { error } = await supabase
+    .from("promo_redemptions")
+    .update({ status: "released", released_at: new Date().toISOString() })
+    .eq("id", redemptionId)
+    .eq("status", "reserved");
+
+  if (error) {
+    logger.error("Failed to release promo reservation", { redemptionId, error: error.message });
+  }
+};
+
+/**
+ * Find the redemption held by a booking (not released), if any
+ */
+export const findBookingRedemption = async (
+  supabase: SupabaseClient,
+  bookingId: string
+): Promise<PromoRedemptionRow | null> => {
+  const { data, error } = await supabase
+    .from("promo_redemptions")
+    .select("*")
+    .eq("booking_id", bookingId)
+    .neq("status", "released")
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Promo redemption lookup failed: ${error.message}`);
+  }
+  return (data as PromoRedemptionRow | null) ?? null;
+};
+
+/**
+ * Move the redemptions of a booking to a new status
+ * Paid bookings redeem their reservation; cancelled bookings release it so
+ * the code can be used again. Failures are logged, never thrown: the booking
+ * or payment update they follow has already happened
+ */
+export const updateBookingRedemptions = async (
+  supabase: SupabaseClient,
+  bookingId: string,
+  status: Exclude<RedemptionStatus, "reserved">,
+  logger: Logger
+): Promise<void> => {
+  const now = new Date().toISOString();
+  const { error } = await supabase
+    .from("promo_redemptions")
+    .update(status === "redeemed" ? { status, redeemed_at: now } : { status, released_at: now })
+    .eq("booking_id", bookingId)
+    .in("status", status === "redeemed" ? ["reserved"] : ["reserved", "redeemed"]);
+
+  if (error) {
+    logger.error("Failed to update promo redemptions", { bookingId, status, error: error.message });
+  }
+};
+
+/**
+ * Set the discount of the redemption held by a booking (amended bookings
+ * get their discount worked out again on the new price). Failures are
+ * logged, never thrown: the booking has already changed
+ */
+export const updateBookingRedemptionDiscount = async (
+  supabase: SupabaseClient,
+  bookingId: string,
+  discount: number,
+  logger: Logger
+): Promise<void> => {
+  const { error } = await supabase
+    .from("promo_redemptions")
+    .update({ discount_amount: discount })
+    .eq("booking_id", bookingId)
+    .neq("status", "released");
+
+  if (error) {
+    logger.error("Failed to update promo redemption discount", { bookingId, error: error.message });
+  }
+};
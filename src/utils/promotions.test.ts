@@ -0,0 +1,121 @@
+/**
+ * Tests for promo codes and discount vouchers
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  checkPromoLimits,
+  computePromoDiscount,
+  evaluatePromoCode,
+  normalizePromoCode,
+  stayNights,
+  toPromoCode,
+  type PromoCode,
+  type PromoContext,
+} from "./promotions";
+
+const basePromo: PromoCode = {
+  id: 1,
+  code: "SUMMER10",
+  description: null,
+  active: true,
+  discountType: "percent",
+  discountValue: 10,
+  maxDiscount: null,
+  validFrom: null,
+  validTo: null,
+  maxRedemptions: null,
+  maxRedemptionsPerCustomer: null,
+  minNights: null,
+  minAmount: null,
+  cityIds: null,
+  hotelIds: null,
+  updatedAt: null,
+};
+
+const context: PromoContext = {
+  hotelId: 101,
+  cityId: 10,
+  checkIn: "2026-07-01",
+  checkOut: "2026-07-05",
+  amount: 500,
+  now: new Date("2026-06-01T10:00:00Z"),
+};
+
+const noUsage = { total: 0, customer: 0 };
+
+describe("computePromoDiscount", () => {
+  it("should take a capped percentage or a fixed amount, never more than the amount", () => {
+    expect(computePromoDiscount(basePromo, 123.456)).toBe(12.346);
+    expect(computePromoDiscount({ ...basePromo, maxDiscount: 30 }, 500)).toBe(30);
+    expect(computePromoDiscount({ ...basePromo, discountType: "fixed", discountValue: 40 }, 500)).toBe(40);
+    expect(computePromoDiscount({ ...basePromo, discountType: "fixed", discountValue: 40 }, 25)).toBe(25);
+  });
+});
+
+describe("evaluatePromoCode", () => {
+  it("should apply an eligible code", () => {
+    expect(evaluatePromoCode(basePromo, context, noUsage)).toEqual({ valid: true, discount: 50 });
+  });
+
+  it("should check eligibility without an amount", () => {
+    const promo = { ...basePromo, minAmount: 1000 };
+
+    expect(evaluatePromoCode(promo, { ...context, amount: undefined }, noUsage)).toEqual({ valid: true, discount: 0 });
+    expect(evaluatePromoCode(promo, context, noUsage)).toMatchObject({ valid: false, reason: "MIN_AMOUNT" });
+  });
+
+  it("should reject codes outside their validity window or restrictions", () => {
+    const reasonFor = (promo: Partial<PromoCode>, overrides: Partial<PromoContext> = {}) => {
+      const evaluation = evaluatePromoCode({ ...basePromo, ...promo }, { ...context, ...overrides }, noUsage);
+      return evaluation.valid ? null : evaluation.reason;
+    };
+
+    expect(reasonFor({ active: false })).toBe("INACTIVE");
+    expect(reasonFor({ validFrom: "2026-06-15T00:00:00Z" })).toBe("NOT_STARTED");
+    expect(reasonFor({ validTo: "2026-05-31T23:59:59Z" })).toBe("EXPIRED");
+    expect(reasonFor({ hotelIds: [202] })).toBe("HOTEL_NOT_ELIGIBLE");
+    expect(reasonFor({ cityIds: [20] })).toBe("CITY_NOT_ELIGIBLE");
+    expect(reasonFor({ cityIds: [10] }, { cityId: undefined })).toBe("CITY_NOT_ELIGIBLE");
+    expect(reasonFor({ minNights: 5 })).toBe("MIN_NIGHTS");
+    expect(reasonFor({ minNights: 4, hotelIds: [101], cityIds: [10] })).toBeNull();
+  });
+
+  it("should enforce overall and per-customer usage limits", () => {
+    const promo = { ...basePromo, maxRedemptions: 100, maxRedemptionsPerCustomer: 1 };
+
+    expect(evaluatePromoCode(promo, context, { total: 100, customer: 0 })).toMatchObject({ reason: "USAGE_LIMIT" });
+    expect(evaluatePromoCode(promo, context, { total: 5, customer: 1 })).toMatchObject({ reason: "CUSTOMER_LIMIT" });
+    expect(checkPromoLimits(promo, { total: 99, customer: 0 })).toEqual({ valid: true, discount: 0 });
+  });
+});
+
+describe("toPromoCode / helpers", () => {
+  it("should map numeric strings and empty restriction arrays", () => {
+    const promo = toPromoCode({
+      id: 4,
+      code: "WELCOME",
+      description: "First booking",
+      active: true,
+      discount_type: "fixed",
+      discount_value: "25.000",
+      max_discount: null,
+      valid_from: null,
+      valid_to: "2026-12-31T23:59:59Z",
+      max_redemptions: null,
+      max_redemptions_per_customer: 1,
+      min_nights: 2,
+      min_amount: "200.000",
+      city_ids: [],
+      hotel_ids: [101],
+      updated_at: null,
+    });
+
+    expect(promo).toMatchObject({ discountValue: 25, minAmount: 200, cityIds: null, hotelIds: [101] });
+  });
+
+  it("should normalize codes and count nights", () => {
+    expect(normalizePromoCode("  summer10 ")).toBe("SUMMER10");
+    expect(stayNights("2026-03-28", "2026-04-02")).toBe(5);
+  });
+});
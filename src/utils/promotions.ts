@@ -0,0 +1,213 @@
+/**
+ * Promo codes and discount vouchers
+ *
+ * Admin-managed codes (promo_codes table) take a percentage or fixed amount
+ * off the customer price (after pricing rules) of TND bookings. A code has a
+ * validity window, overall and per-customer usage limits, a minimum stay and
+ * amount, and optional city/hotel restrictions; empty restrictions match
+ * every booking.
+ *
+ * Each booking using a code holds a redemption (promo_redemptions table):
+ * reserved at prebook, redeemed once paid, released when the booking is
+ * cancelled. Reservations of abandoned bookings stop counting after
+ * PROMO_RESERVATION_TTL_MS.
+ */
+
+export type DiscountType = "percent" | "fixed";
+export type RedemptionStatus = "reserved" | "redeemed" | "released";
+
+// Reserved redemptions older than this no longer count against usage limits
+export const PROMO_RESERVATION_TTL_MS = 24 * 60 * 60 * 1000;
+
+export interface PromoCode {
+  id: number;
+  code: string;
+  description: string | null;
+  active: boolean;
+  discountType: DiscountType;
+  discountValue: number; // percent (10 = -10%) or TND amount
+  maxDiscount: number | null; // cap of percentage discounts (TND)
+  validFrom: string | null; // ISO timestamp
+  validTo: string | null; // ISO timestamp
+  maxRedemptions: number | null; // overall
+  maxRedemptionsPerCustomer: number | null;
+  minNights: number | null;
+  minAmount: number | null; // TND, customer price before discount
+  cityIds: number[] | null;
+  hotelIds: number[] | null;
+  updatedAt: string | null;
+}
+
+export interface PromoCodeRow {
+  id: number;
+  code: string;
+  description: string | null;
+  active: boolean;
+  discount_type: DiscountType;
+  discount_value: number | string;
+  max_discount: number | string | null;
+  valid_from: string | null;
+  valid_to: string | null;
+  max_redemptions: number | null;
+  max_redemptions_per_customer: number | null;
+  min_nights: number | null;
+  min_amount: number | string | null;
+  city_ids: number[] | null;
+  hotel_ids: number[] | null;
+  updated_at: string | null;
+}
+
+// Booking a code is checked against
+export interface PromoContext {
+  hotelId: number;
+  cityId?: number;
+  checkIn: string; // YYYY-MM-DD
+  checkOut: string; // YYYY-MM-DD
+  amount?: number; // customer price before discount, once known
+  now?: Date;
+}
+
+// Redemptions currently counting against the code's limits
+export interface PromoUsage {
+  total: number;
+  customer: number;
+}
+
+export type PromoRejectionReason =
+  | "INACTIVE"
+  | "NOT_STARTED"
+  | "EXPIRED"
+  | "HOTEL_NOT_ELIGIBLE"
+  | "CITY_NOT_ELIGIBLE"
+  | "MIN_NIGHTS"
+  | "MIN_AMOUNT"
+  | "USAGE_LIMIT"
+  | "CUSTOMER_LIMIT";
+
+export type PromoEvaluation =
+  | { valid: true; discount: number }
+  | { valid: false; reason: PromoRejectionReason; message: string };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// TND precision (millimes)
+const roundAmount = (value: number): number => Math.round(value * 1000) / 1000;
+
+const toNumber = (value: number | string | null): number | null =>
+  value === null || value === undefined ? null : Number(value);
+
+const emptyToNull = <T>(values: T[] | null | undefined): T[] | null =>
+  values && values.length > 0 ? values : null;
+
+/**
+ * Canonical form of a code as typed by a customer
+ */
+export const normalizePromoCode = (code: string): string => code.trim().toUpperCase();
+
+/**
+ * Map a promo_codes row (numeric columns may come back as strings)
+ */
+export const toPromoCode = (row: PromoCodeRow): PromoCode => ({
+  id: row.id,
+  code: row.code,
+  description: row.description,
+  active: row.active,
+  discountType: row.discount_type,
+  discountValue: Number(row.discount_value),
+  maxDiscount: toNumber(row.max_discount),
+  validFrom: row.valid_from,
+  validTo: row.valid_to,
+  maxRedemptions: row.max_redemptions,
+  maxRedemptionsPerCustomer: row.max_redemptions_per_customer,
+  minNights: row.min_nights,
+  minAmount: toNumber(row.min_amount),
+  cityIds: emptyToNull(row.city_ids),
+  hotelIds: emptyToNull(row.hotel_ids),
+  updatedAt: row.updated_at,
+});
+
+/**
+ * Number of nights between two YYYY-MM-DD dates
+ */
+export const stayNights = (checkIn: string, checkOut: string): number =>
+  Math.round((Date.parse(`${checkOut}T00:00:00Z`) - Date.parse(`${checkIn}T00:00:00Z`)) / DAY_MS);
+
+/**
+ * Discount of a code on an amount: percentage capped at maxDiscount, never
+ * more than the amount itself
+ */
+export const computePromoDiscount = (promo: PromoCode, amount: number): number => {
+  const discount =
+    promo.discountType === "percent"
+      ? Math.min((amount * promo.discountValue) / 100, promo.maxDiscount ?? Infinity)
+      : promo.discountValue;
+  return roundAmount(Math.max(0, Math.min(discount, amount)));
+};
+
+/**
+ * Field-level details of a rejected code (ValidationError details)
+ */
+export const promoFieldErrors = (code: PromoRejectionReason | "NOT_FOUND", message: string) => [
+  { field: "promoCode", code, message },
+];
+
+const reject = (reason: PromoRejectionReason, message: string): PromoEvaluation => ({
+  valid: false,
+  reason,
+  message,
+});
+
+// Messages of the usage limits (also reported by reservations)
+export const PROMO_LIMIT_MESSAGES: Record<"USAGE_LIMIT" | "CUSTOMER_LIMIT", string> = {
+  USAGE_LIMIT: "This promo code has reached its usage limit",
+  CUSTOMER_LIMIT: "You have already used this promo code",
+};
+
+/**
+ * Check the overall and per-customer usage limits of a code
+ */
+export const checkPromoLimits = (promo: PromoCode, usage: PromoUsage): PromoEvaluation => {
+  if (promo.maxRedemptions !== null && usage.total >= promo.maxRedemptions) {
+    return reject("USAGE_LIMIT", PROMO_LIMIT_MESSAGES.USAGE_LIMIT);
+  }
+  if (promo.maxRedemptionsPerCustomer !== null && usage.customer >= promo.maxRedemptionsPerCustomer) {
+    return reject("CUSTOMER_LIMIT", PROMO_LIMIT_MESSAGES.CUSTOMER_LIMIT);
+  }
+  return { valid: true, discount: 0 };
+};
+
+/**
+ * Check a code against a booking and its current usage
+ * Without context.amount only eligibility is checked (discount 0), so a code
+ * can be rejected before calling myGO
+ */
+export const evaluatePromoCode = (promo: PromoCode, context: PromoContext, usage: PromoUsage): PromoEvaluation => {
+  const now = (context.now ?? new Date()).getTime();
+
+  if (!promo.active) {
+    return reject("INACTIVE", "This promo code is not active");
+  }
+  if (promo.validFrom && now < Date.parse(promo.validFrom)) {
+    return reject("NOT_STARTED", "This promo code is not valid yet");
+  }
+  if (promo.validTo && now > Date.parse(promo.validTo)) {
+    return reject("EXPIRED", "This promo code has expired");
+  }
+  if (promo.hotelIds && !promo.hotelIds.includes(context.hotelId)) {
+    return reject("HOTEL_NOT_ELIGIBLE", "This promo code does not apply to this hotel");
+  }
+  if (promo.cityIds && (context.cityId === undefined || !promo.cityIds.includes(context.cityId))) {
+    return reject("CITY_NOT_ELIGIBLE", "This promo code does not apply to this destination");
+  }
+  if (promo.minNights !== null && stayNights(context.checkIn, context.checkOut) < promo.minNights) {
+    return reject("MIN_NIGHTS", `This promo code requires a stay of at least ${promo.minNights} nights`);
+  }
+  const limits = checkPromoLimits(promo, usage);
+  if (!limits.valid || context.amount === undefined) {
+    return limits;
+  }
+  if (promo.minAmount !== null && context.amount < promo.minAmount) {
+    return reject("MIN_AMOUNT", `This promo code requires a minimum amount of ${promo.minAmount} TND`);
+  }
+  return { valid: true, discount: computePromoDiscount(promo, context.amount) };
+};
@@ -0,0 +1,82 @@
+/**
+ * Fixed-window rate limiting on the rate_limits table (shared with the edge
+ * functions, see supabase/functions/_shared/rateLimit.ts)
+ *
+ * Keys are SHA-256 hashes of the limited subject (client IP, booking
+ * reference...) prefixed by a scope, so subjects are never stored in clear.
+ * Database failures let the request through: limits protect against abuse,
+ * they must not take the endpoint down.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Logger } from "./logger";
+import { RateLimitError } from "../middleware/errorHandler";
+
+export interface RateLimit {
+  windowMinutes: number;
+  maxRequests: number;
+}
+
+const hashString = async (input: string): Promise<string> => {
+  const hashBuffer = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(input));
+  return Array.from(new Uint8Array(hashBuffer), (b) => b.toString(16).padStart(2, "0")).join("");
+};
+
+/**
+ * Client IP of a request (Cloudflare header first, then proxy headers)
+ */
+export const getClientIp = (request: Request): string =>
+  request.headers.get("cf-connecting-ip") ||
+  request.headers.get("x-forwarded-for")?.split(",")[0].trim() ||
+  request.headers.get("x-real-ip") ||
+  "unknown";
+
+/**
+ * Count one request of a subject in a scope
+ * @throws RateLimitError once the window's maximum is reached
+ */
+export const checkRateLimit = async (
+  supabase: SupabaseClient,
+  scope: string,
+  subject: string,
+  limit: RateLimit,
+  logger: Logger
+): Promise<void> => {
+  const now = new Date();
+  const windowStart = new Date(now.getTime() - limit.windowMinutes * 60 * 1000).toISOString();
+  const key = `${scope}:${await hashString(subject)}:${limit.windowMinutes}m`;
+
+  try {
+    const { data: existing, error } = await supabase
+      .from("rate_limits")
+      .select("count, window_start")
+      .eq("key", key)
+      .gte("window_start", windowStart)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    if (!existing) {
+      // First request of a new window (replaces an expired one)
+      await supabase.from("rate_limits").upsert({ key, window_start: now.toISOString(), count: 1 });
+      return;
+    }
+
+    if (existing.count >= limit.maxRequests) {
+      logger.warn("Rate limit exceeded", { scope, windowMinutes: limit.windowMinutes });
+      throw new RateLimitError(`Too many requests, please try again in ${limit.windowMinutes} minutes`);
+    }
+
+    await supabase.from("rate_limits").update({ count: existing.count + 1 }).eq("key", key);
+  } catch (error) {
+    if (error instanceof RateLimitError) {
+      throw error;
+    }
+    logger.warn("Rate limit check failed", {
+      scope,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+};
@@ -0,0 +1,109 @@
+/**
+ * Tests for guest reviews and review scores
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  annotateReviewScores,
+  computeOverallScore,
+  formatAuthorName,
+  getReviewIneligibility,
+  toHotelReviewScores,
+  toReviewColumns,
+  type ReviewableBooking,
+} from "./reviews";
+
+const completedBooking: ReviewableBooking = {
+  id: "5b0c3f0e-7d1a-4e2b-9c3d-1a2b3c4d5e6f",
+  hotel_id: 101,
+  status: "completed",
+  check_in: "2026-07-01",
+  check_out: "2026-07-05",
+  customer_first_name: "Amira",
+  customer_last_name: "ben Salah",
+};
+
+describe("computeOverallScore", () => {
+  it("should average the sub-scores to one decimal", () => {
+    expect(computeOverallScore({ cleanliness: 9, location: 10, staff: 8, value: 7 })).toBe(8.5);
+    expect(computeOverallScore({ cleanliness: 9, location: 9, staff: 9, value: 8 })).toBe(8.8);
+    expect(computeOverallScore({ cleanliness: 10, location: 10, staff: 10, value: 10 })).toBe(10);
+  });
+});
+
+describe("formatAuthorName", () => {
+  it("should keep the first name and the last name initial", () => {
+    expect(formatAuthorName(" Amira ", "ben Salah")).toBe("Amira B.");
+    expect(formatAuthorName("Amira", null)).toBe("Amira");
+    expect(formatAuthorName(null, "  ")).toBe("Guest");
+  });
+});
+
+describe("getReviewIneligibility", () => {
+  it("should only accept completed stays", () => {
+    expect(getReviewIneligibility(completedBooking)).toBeNull();
+    for (const status of ["pending", "confirmed", "cancelled"] as const) {
+      expect(getReviewIneligibility({ ...completedBooking, status })).toBe("Only completed stays can be reviewed");
+    }
+  });
+});
+
+describe("toReviewColumns", () => {
+  it("should build a pending review from the booking", () => {
+    const columns = toReviewColumns(
+      completedBooking,
+      { user_id: "user-1", guest_session_id: null },
+      { scores: { cleanliness: 9, location: 10, staff: 8, value: 7 }, comment: "Great stay by the beach, friendly staff." }
+    );
+
+    expect(columns).toEqual({
+      booking_id: completedBooking.id,
+      hotel_id: 101,
+      user_id: "user-1",
+      guest_session_id: null,
+      author_name: "Amira B.",
+      check_in: "2026-07-01",
+      check_out: "2026-07-05",
+      cleanliness: 9,
+      location: 10,
+      staff: 8,
+      value: 7,
+      overall_score: 8.5,
+      title: null,
+      comment: "Great stay by the beach, friendly staff.",
+      language: null,
+      status: "pending",
+    });
+  });
+});
+
+describe("annotateReviewScores", () => {
+  it("should attach aggregated scores, null for hotels without approved reviews", () => {
+    const scores = new Map([
+      [
+        101,
+        toHotelReviewScores({
+          hotel_id: 101,
+          review_count: 3,
+          overall_avg: "8.4",
+          cleanliness_avg: "8.7",
+          location_avg: "9.0",
+          staff_avg: "8.3",
+          value_avg: "7.7",
+        }),
+      ],
+    ]);
+
+    const hotels = annotateReviewScores([{ id: 101, name: "A" }, { id: 102, name: "B" }], scores);
+
+    expect(hotels[0].reviewScores).toEqual({
+      count: 3,
+      overall: 8.4,
+      cleanliness: 8.7,
+      location: 9,
+      staff: 8.3,
+      value: 7.7,
+    });
+    expect(hotels[1]).toEqual({ id: 102, name: "B", reviewScores: null });
+  });
+});
@@ -0,0 +1,186 @@
+/**
+ * Guest reviews (hotel_reviews table) and per-hotel review scores
+ * Only completed bookings can be reviewed; approved reviews are public and
+ * aggregated by the hotel_review_stats view
+ */
+
+import type { BookingStatus } from "../types/booking";
+
+export const REVIEW_SUB_SCORES = ["cleanliness", "location", "staff", "value"] as const;
+
+export type ReviewSubScore = (typeof REVIEW_SUB_SCORES)[number];
+export type ReviewScores = Record<ReviewSubScore, number>;
+export type ReviewStatus = "pending" | "approved" | "rejected";
+
+export interface HotelReviewRow {
+  id: number;
+  booking_id: string;
+  hotel_id: number;
+  user_id: string | null;
+  guest_session_id: string | null;
+  author_name: string;
+  check_in: string;
+  check_out: string;
+  cleanliness: number;
+  location: number;
+  staff: number;
+  value: number;
+  overall_score: number | string; // numeric comes back as a string
+  title: string | null;
+  comment: string;
+  language: string | null;
+  status: ReviewStatus;
+  moderation_note: string | null;
+  moderated_by: string | null;
+  moderated_at: string | null;
+  created_at: string;
+}
+
+// Public review (approved reviews of a hotel)
+export interface HotelReview {
+  id: number;
+  hotelId: number;
+  authorName: string;
+  stay: { checkIn: string; checkOut: string };
+  scores: ReviewScores;
+  overallScore: number;
+  title: string | null;
+  comment: string;
+  language: string | null;
+  createdAt: string;
+}
+
+// Review as seen by admins (moderation queue)
+export interface ModeratedHotelReview extends HotelReview {
+  bookingId: string;
+  status: ReviewStatus;
+  moderationNote: string | null;
+  moderatedBy: string | null;
+  moderatedAt: string | null;
+}
+
+export interface HotelReviewStatsRow {
+  hotel_id: number;
+  review_count: number;
+  overall_avg: number | string;
+  cleanliness_avg: number | string;
+  location_avg: number | string;
+  staff_avg: number | string;
+  value_avg: number | string;
+}
+
+export interface HotelReviewScores extends ReviewScores {
+  count: number;
+  overall: number;
+}
+
+// Booking columns needed to check and build a review
+export interface ReviewableBooking {
+  id: string;
+  hotel_id: number;
+  status: BookingStatus;
+  check_in: string;
+  check_out: string;
+  customer_first_name: string | null;
+  customer_last_name: string | null;
+}
+
+/**
+ * Overall score: average of the sub-scores, rounded to one decimal
+ */
+export const computeOverallScore = (scores: ReviewScores): number =>
+  Math.round(
+    (REVIEW_SUB_SCORES.reduce((sum, key) => sum + scores[key], 0) / REVIEW_SUB_SCORES.length) * 10
+  ) / 10;
+
+/**
+ * Public author name: first name and last name initial ("Amira B.")
+ */
+export const formatAuthorName = (firstName: string | null, lastName: string | null): string => {
+  const first = firstName?.trim() ?? "";
+  const initial = lastName?.trim().charAt(0).toUpperCase() ?? "";
+  const name = [first, initial ? `${initial}.` : ""].filter(Boolean).join(" ");
+  return name || "Guest";
+};
+
+/**
+ * Reason a booking cannot be reviewed, or null when it can
+ * Only completed stays count as verified
+ */
+export const getReviewIneligibility = (booking: ReviewableBooking): string | null => {
+  if (booking.status !== "completed") {
+    return "Only completed stays can be reviewed";
+  }
+  if (!booking.hotel_id) {
+    return "Booking has no hotel to review";
+  }
+  return null;
+};
+
+/**
+ * Columns of a new (pending) review for a booking
+ */
+export const toReviewColumns = (
+  booking: ReviewableBooking,
+  owner: { user_id: string | null; guest_session_id: string | null },
+  input: { scores: ReviewScores; title?: string; comment: string; language?: string }
+) => ({
+  booking_id: booking.id,
+  hotel_id: booking.hotel_id,
+  user_id: owner.user_id,
+  guest_session_id: owner.guest_session_id,
+  author_name: formatAuthorName(booking.customer_first_name, booking.customer_last_name),
+  check_in: booking.check_in,
+  check_out: booking.check_out,
+  ...input.scores,
+  overall_score: computeOverallScore(input.scores),
+  title: input.title ?? null,
+  comment: input.comment,
+  language: input.language ?? null,
+  status: "pending" as ReviewStatus,
+});
+
+export const toHotelReview = (row: HotelReviewRow): HotelReview => ({
+  id: row.id,
+  hotelId: row.hotel_id,
+  authorName: row.author_name,
+  stay: { checkIn: row.check_in, checkOut: row.check_out },
+  scores: {
+    cleanliness: row.cleanliness,
+    location: row.location,
+    staff: row.staff,
+    value: row.value,
+  },
+  overallScore: Number(row.overall_score),
+  title: row.title,
+  comment: row.comment,
+  language: row.language,
+  createdAt: row.created_at,
+});
+
+export const toModeratedHotelReview = (row: HotelReviewRow): ModeratedHotelReview => ({
+  ...toHotelReview(row),
+  bookingId: row.booking_id,
+  status: row.status,
+  moderationNote: row.moderation_note,
+  moderatedBy: row.moderated_by,
+  moderatedAt: row.moderated_at,
+});
+
+export const toHotelReviewScores = (row: HotelReviewStatsRow): HotelReviewScores => ({
+  count: Number(row.review_count),
+  overall: Number(row.overall_avg),
+  cleanliness: Number(row.cleanliness_avg),
+  location: Number(row.location_avg),
+  staff: Number(row.staff_avg),
+  value: Number(row.value_avg),
+});
+
+/**
+ * Attach review scores to hotels (null when a hotel has no approved review)
+ */
+export const annotateReviewScores = <T extends { id: number }>(
+  hotels: T[],
+  scoresByHotel: Map<number, HotelReviewScores>
+): Array<T & { reviewScores: HotelReviewScores | null }> =>
+  hotels.map((hotel) => ({ ...hotel, reviewScores: scoresByHotel.get(hotel.id) ?? null }));
@@ -0,0 +1,179 @@
+/**
+ * Tests for search results sorting, filtering, pagination and facets
+ */
+
+import { describe, it, expect } from "vitest";
+import type { MyGoHotelSearchResult } from "../types/mygo";
+import {
+  applySearchQuery,
+  computeFacets,
+  decodeCursor,
+  encodeCursor,
+  filterHotels,
+  getMinPrice,
+  sortHotels,
+} from "./searchResults";
+
+const buildHotel = (
+  id: number,
+  name: string,
+  star: number,
+  prices: Array<{ price: number; boardCode: string; boardName?: string }>,
+  extra: Partial<MyGoHotelSearchResult> = {},
+): MyGoHotelSearchResult => ({
+  id,
+  name,
+  star,
+  available: true,
+  hasInstantConfirmation: true,
+  rooms: prices.map((room, index) => ({
+    onRequest: false,
+    roomId: id * 10 + index,
+    price: room.price,
+    boardCode: room.boardCode,
+    boardName: room.boardName,
+  })),
+  ...extra,
+});
+
+const hotels: MyGoHotelSearchResult[] = [
+  buildHotel(1, "Zodiac", 3, [{ price: 120, boardCode: "BB", boardName: "Petit déjeuner" }], {
+    themes: ["Plage"],
+  }),
+  buildHotel(2, "Amira", 5, [
+    { price: 400, boardCode: "AI", boardName: "All inclusive" },
+    { price: 300, boardCode: "HB", boardName: "Demi pension" },
+  ], { themes: ["Plage", "Famille"] }),
+  buildHotel(3, "Medina", 4, [{ price: 200, boardCode: "HB", boardName: "Demi pension" }], {
+    hasInstantConfirmation: false,
+  }),
+];
+
+describe("getMinPrice", () => {
+  it("should return the lowest room price", () => {
+    expect(getMinPrice(hotels[1])).toBe(300);
+  });
+
+  it("should return undefined when no room is priced", () => {
+    expect(getMinPrice({ ...hotels[0], rooms: [] })).toBeUndefined();
+  });
+});
+
+describe("sortHotels", () => {
+  it("should sort by price ascending", () => {
+    expect(sortHotels(hotels, "price").map((h) => h.id)).toEqual([1, 3, 2]);
+  });
+
+  it("should sort by price descending", () => {
+    expect(sortHotels(hotels, "price", "desc").map((h) => h.id)).toEqual([2, 3, 1]);
+  });
+
+  it("should sort by stars descending by default", () => {
+    expect(sortHotels(hotels, "stars").map((h) => h.id)).toEqual([2, 3, 1]);
+  });
+
+  it("should sort by name", () => {
+    expect(sortHotels(hotels, "name").map((h) => h.id)).toEqual([2, 3, 1]);
+  });
+
+  it("should sort by distance with hotels without distance last", () => {
+    const withDistance = [
+      { ...hotels[0], distanceKm: 4.2 },
+      { ...hotels[1] },
+      { ...hotels[2], distanceKm: 1.5 },
+    ];
+    expect(sortHotels(withDistance, "distance").map((h) => h.id)).toEqual([3, 1, 2]);
+  });
+
+  it("should put instant confirmation first and keep myGO order for recommended", () => {
+    expect(sortHotels(hotels, "recommended").map((h) => h.id)).toEqual([1, 2, 3]);
+  });
+});
+
+describe("filterHotels", () => {
+  it("should filter by star range", () => {
+    expect(filterHotels(hotels, { starsMin: 4 }).map((h) => h.id)).toEqual([2, 3]);
+  });
+
+  it("should trim rooms to the price range", () => {
+    const result = filterHotels(hotels, { priceMin: 250, priceMax: 350 });
+    expect(result.map((h) => h.id)).toEqual([2]);
+    expect(result[0].rooms.map((r) => r.boardCode)).toEqual(["HB"]);
+  });
+
+  it("should filter by board codes", () => {
+    expect(filterHotels(hotels, { boardCodes: ["HB"] }).map((h) => h.id)).toEqual([2, 3]);
+  });
+
+  it("should filter by normalized board type and room tags", () => {
+    const tagged = [
+      buildHotel(4, "Sahara", 4, [{ price: 150, boardCode: "DP" }]),
+      buildHotel(5, "Oasis", 4, [{ price: 180, boardCode: "LPD" }]),
+    ].map((hotel, index) => ({
+      ...hotel,
+      rooms: hotel.rooms.map((room) => ({
+        ...room,
+        boardType: index === 0 ? "HB" : "BB",
+        roomTags: index === 0 ? ["double", "sea_view"] : ["family"],
+      })),
+    }));
+
+    expect(filterHotels(tagged, { boardTypes: ["HB"] }).map((h) => h.id)).toEqual([4]);
+    expect(filterHotels(tagged, { roomTags: ["family", "suite"] }).map((h) => h.id)).toEqual([5]);
+    expect(computeFacets(tagged).roomTags).toContainEqual({ value: "sea_view", label: undefined, count: 1 });
+  });
+
+  it("should filter by themes", () => {
+    expect(filterHotels(hotels, { themes: ["Famille"] }).map((h) => h.id)).toEqual([2]);
+  });
+
+  it("should filter by instant confirmation", () => {
+    expect(filterHotels(hotels, { hasInstantConfirmation: false }).map((h) => h.id)).toEqual([3]);
+  });
+});
+
+describe("computeFacets", () => {
+  it("should count hotels per filter value", () => {
+    const facets = computeFacets(hotels);
+
+    expect(facets.boards).toContainEqual({ value: "HB", label: "Demi pension", count: 2 });
+    expect(facets.stars).toHaveLength(3);
+    expect(facets.themes).toContainEqual({ value: "Plage", label: undefined, count: 2 });
+    expect(facets.hasInstantConfirmation).toContainEqual({ value: "true", label: undefined, count: 2 });
+    expect(facets.price).toEqual({ min: 120, max: 300 });
+  });
+});
+
+describe("applySearchQuery", () => {
+  it("should paginate with page numbers", () => {
+    const result = applySearchQuery(hotels, { sortBy: "price", perPage: 2, page: 2 });
+
+    expect(result.hotels.map((h) => h.id)).toEqual([2]);
+    expect(result.pagination).toMatchObject({ page: 2, perPage: 2, total: 3, totalPages: 2, nextCursor: null });
+  });
+
+  it("should paginate with cursors", () => {
+    const first = applySearchQuery(hotels, { sortBy: "price", perPage: 2 });
+    expect(first.pagination.nextCursor).not.toBeNull();
+
+    const second = applySearchQuery(hotels, { sortBy: "price", perPage: 2, cursor: first.pagination.nextCursor! });
+    expect(second.hotels.map((h) => h.id)).toEqual([2]);
+  });
+
+  it("should compute facets before filtering", () => {
+    const result = applySearchQuery(hotels, { filters: { boardCodes: ["BB"] } });
+
+    expect(result.pagination.total).toBe(1);
+    expect(result.facets.boards.length).toBe(3);
+  });
+});
+
+describe("cursor encoding", () => {
+  it("should round-trip offsets", () => {
+    expect(decodeCursor(encodeCursor(40))).toBe(40);
+  });
+
+  it("should reject malformed cursors", () => {
+    expect(decodeCursor("not-a-cursor")).toBeNull();
+  });
+});
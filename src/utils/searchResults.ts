@@ -0,0 +1,312 @@
+/**
+ * Server-side sorting, filtering, pagination and facets for hotel search results
+ * Works on normalized MyGoHotelSearchResult data (rooms, star, themes)
+ */
+
+import type { MyGoHotelSearchResult, MyGoRoomResult } from "../types/mygo";
+
+export type SearchSortBy = "recommended" | "price" | "stars" | "name" | "distance";
+export type SearchSortOrder = "asc" | "desc";
+
+export interface SearchFilters {
+  priceMin?: number;
+  priceMax?: number;
+  starsMin?: number;
+  starsMax?: number;
+  boardCodes?: string[];
+  boardTypes?: string[];
+  roomTags?: string[];
+  themes?: string[];
+  hasInstantConfirmation?: boolean;
+}
+
+export interface SearchResultsQuery {
+  sortBy?: SearchSortBy;
+  sortOrder?: SearchSortOrder;
+  filters?: SearchFilters;
+  page?: number;
+  perPage?: number;
+  cursor?: string;
+}
+
+export interface FacetCount {
+  value: string;
+  label?: string;
+  count: number;
+}
+
+export interface SearchFacets {
+  stars: FacetCount[];
+  boards: FacetCount[];
+  boardTypes: FacetCount[];
+  roomTags: FacetCount[];
+  themes: FacetCount[];
+  hasInstantConfirmation: FacetCount[];
+  price: { min: number | null; max: number | null };
+}
+
+export interface SearchPagination {
+  page: number;
+  perPage: number;
+  total: number;
+  totalPages: number;
+  nextCursor: string | null;
+}
+
+export interface SearchResultsPage {
+  hotels: MyGoHotelSearchResult[];
+  pagination: SearchPagination;
+  facets: SearchFacets;
+}
+
+export const DEFAULT_PER_PAGE = 20;
+export const MAX_PER_PAGE = 100;
+
+/**
+ * Lowest room price of a hotel (undefined when no room is priced)
+ */
+export const getMinPrice = (hotel: MyGoHotelSearchResult): number | undefined => {
+  const prices = hotel.rooms
+    .map((room) => room.price)
+    .filter((price): price is number => typeof price === "number");
+  return prices.length > 0 ? Math.min(...prices) : undefined;
+};
+
+const matchesRoomFilters = (room: MyGoRoomResult, filters: SearchFilters): boolean => {
+  if (filters.boardCodes && filters.boardCodes.length > 0) {
+    if (!room.boardCode || !filters.boardCodes.includes(room.boardCode)) {
+      return false;
+    }
+  }
+  if (filters.boardTypes && filters.boardTypes.length > 0) {
+    if (!room.boardType || !filters.boardTypes.includes(room.boardType)) {
+      return false;
+    }
+  }
+  if (filters.roomTags && filters.roomTags.length > 0) {
+    const tags = room.roomTags ?? [];
+    if (!filters.roomTags.some((tag) => tags.includes(tag))) {
+      return false;
+    }
+  }
+  if (filters.priceMin !== undefined && (room.price === undefined || room.price < filters.priceMin)) {
+    return false;
+  }
+  if (filters.priceMax !== undefined && (room.price === undefined || room.price > filters.priceMax)) {
+    return false;
+  }
+  return true;
+};
+
+/**
+ * Apply filters to hotels
+ * Room-level filters (price, board, board type, room tags) trim the rooms list; hotels without a
+ * matching room are dropped
+ */
+export const filterHotels = (
+  hotels: MyGoHotelSearchResult[],
+  filters: SearchFilters = {},
+): MyGoHotelSearchResult[] => {
+  const hasRoomFilters =
+    filters.priceMin !== undefined ||
+    filters.priceMax !== undefined ||
+    (filters.boardCodes !== undefined && filters.boardCodes.length > 0) ||
+    (filters.boardTypes !== undefined && filters.boardTypes.length > 0) ||
+    (filters.roomTags !== undefined && filters.roomTags.length > 0);
+
+  return hotels
+    .filter((hotel) => {
+      if (filters.starsMin !== undefined && (hotel.star ?? 0) < filters.starsMin) {
+        return false;
+      }
+      if (filters.starsMax !== undefined && (hotel.star ?? 0) > filters.starsMax) {
+        return false;
+      }
+      if (filters.themes && filters.themes.length > 0) {
+        const hotelThemes = hotel.themes ?? [];
+        if (!filters.themes.some((theme) => hotelThemes.includes(theme))) {
+          return false;
+        }
+      }
+      if (
+        filters.hasInstantConfirmation !== undefined &&
+        (hotel.hasInstantConfirmation ?? false) !== filters.hasInstantConfirmation
+      ) {
+        return false;
+      }
+      return true;
+    })
+    .map((hotel) =>
+      hasRoomFilters
+        ? { ...hotel, rooms: hotel.rooms.filter((room) => matchesRoomFilters(room, filters)) }
+        : hotel
+    )
+    .filter((hotel) => !hasRoomFilters || hotel.rooms.length > 0);
+};
+
+/**
+ * Sort hotels (stable: ties keep myGO order)
+ * "recommended" puts instant confirmation first and otherwise keeps myGO ranking
+ * "distance" uses distanceKm set by geo search
+ */
+export const sortHotels = (
+  hotels: MyGoHotelSearchResult[],
+  sortBy: SearchSortBy = "recommended",
+  sortOrder?: SearchSortOrder,
+): MyGoHotelSearchResult[] => {
+  const direction = (sortOrder ?? (sortBy === "stars" ? "desc" : "asc")) === "asc" ? 1 : -1;
+
+  const compare = (a: MyGoHotelSearchResult, b: MyGoHotelSearchResult): number => {
+    switch (sortBy) {
+      case "price": {
+        const priceA = getMinPrice(a);
+        const priceB = getMinPrice(b);
+        // Unpriced hotels always go last
+        if (priceA === undefined && priceB === undefined) return 0;
+        if (priceA === undefined) return 1;
+        if (priceB === undefined) return -1;
+        return (priceA - priceB) * direction;
+      }
+      case "distance": {
+        const distanceA = typeof a.distanceKm === "number" ? a.distanceKm : undefined;
+        const distanceB = typeof b.distanceKm === "number" ? b.distanceKm : undefined;
+        if (distanceA === undefined && distanceB === undefined) return 0;
+        if (distanceA === undefined) return 1;
+        if (distanceB === undefined) return -1;
+        return (distanceA - distanceB) * direction;
+      }
+      case "stars":
+        return ((a.star ?? 0) - (b.star ?? 0)) * direction;
+      case "name":
+        return a.name.localeCompare(b.name, "fr", { sensitivity: "base" }) * direction;
+      case "recommended":
+      default:
+        return Number(b.hasInstantConfirmation ?? false) - Number(a.hasInstantConfirmation ?? false);
+    }
+  };
+
+  return hotels
+    .map((hotel, index) => ({ hotel, index }))
+    .sort((a, b) => compare(a.hotel, b.hotel) || a.index - b.index)
+    .map(({ hotel }) => hotel);
+};
+
+const countValues = (
+  entries: Array<{ value: string; label?: string }>,
+): FacetCount[] => {
+  const counts = new Map<string, FacetCount>();
+  for (const entry of entries) {
+    const existing = counts.get(entry.value);
+    if (existing) {
+      existing.count += 1;
+    } else {
+      counts.set(entry.value, { value: entry.value, label: entry.label, count: 1 });
+    }
+  }
+  return Array.from(counts.values()).sort(
+    (a, b) => b.count - a.count || a.value.localeCompare(b.value)
+  );
+};
+
+/**
+ * Compute facet counts (number of hotels per filter value)
+ */
+export const computeFacets = (hotels: MyGoHotelSearchResult[]): SearchFacets => {
+  const minPrices = hotels
+    .map(getMinPrice)
+    .filter((price): price is number => price !== undefined);
+
+  const boardEntries = hotels.flatMap((hotel) => {
+    const seen = new Map<string, string | undefined>();
+    hotel.rooms.forEach((room) => {
+      if (room.boardCode && !seen.has(room.boardCode)) {
+        seen.set(room.boardCode, room.boardName);
+      }
+    });
+    return Array.from(seen.entries()).map(([value, label]) => ({ value, label }));
+  });
+
+  const boardTypeEntries = hotels.flatMap((hotel) => {
+    const seen = new Map<string, string | undefined>();
+    hotel.rooms.forEach((room) => {
+      if (room.boardType && !seen.has(room.boardType)) {
+        seen.set(room.boardType, room.boardLabel);
+      }
+    });
+    return Array.from(seen.entries()).map(([value, label]) => ({ value, label }));
+  });
+
+  return {
+    stars: countValues(
+      hotels
+        .filter((hotel) => hotel.star !== undefined)
+        .map((hotel) => ({ value: String(hotel.star) }))
+    ),
+    boards: countValues(boardEntries),
+    boardTypes: countValues(boardTypeEntries),
+    roomTags: countValues(
+      hotels.flatMap((hotel) =>
+        Array.from(new Set(hotel.rooms.flatMap((room) => room.roomTags ?? []))).map((tag) => ({ value: tag }))
+      )
+    ),
+    themes: countValues(
+      hotels.flatMap((hotel) =>
+        Array.from(new Set(hotel.themes ?? [])).map((theme) => ({ value: theme }))
+      )
+    ),
+    hasInstantConfirmation: countValues(
+      hotels.map((hotel) => ({ value: String(hotel.hasInstantConfirmation ?? false) }))
+    ),
+    price: {
+      min: minPrices.length > 0 ? Math.min(...minPrices) : null,
+      max: minPrices.length > 0 ? Math.max(...minPrices) : null,
+    },
+  };
+};
+
+/**
+ * Opaque pagination cursor (base64 encoded offset)
+ */
+export const encodeCursor = (offset: number): string => btoa(JSON.stringify({ o: offset }));
+
+export const decodeCursor = (cursor: string): number | null => {
+  try {
+    const decoded = JSON.parse(atob(cursor)) as { o?: unknown };
+    return typeof decoded.o === "number" && Number.isInteger(decoded.o) && decoded.o >= 0
+      ? decoded.o
+      : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Filter, sort and paginate hotels
+ * Facets are computed before filtering so every option keeps its count
+ */
+export const applySearchQuery = (
+  hotels: MyGoHotelSearchResult[],
+  query: SearchResultsQuery = {},
+): SearchResultsPage => {
+  const facets = computeFacets(hotels);
+  const filtered = filterHotels(hotels, query.filters);
+  const sorted = sortHotels(filtered, query.sortBy, query.sortOrder);
+
+  const perPage = Math.min(query.perPage ?? DEFAULT_PER_PAGE, MAX_PER_PAGE);
+  const cursorOffset = query.cursor ? decodeCursor(query.cursor) : null;
+  const offset = cursorOffset ?? ((query.page ?? 1) - 1) * perPage;
+  const pageHotels = sorted.slice(offset, offset + perPage);
+  const nextOffset = offset + perPage;
+
+  return {
+    hotels: pageHotels,
+    pagination: {
+      page: Math.floor(offset / perPage) + 1,
+      perPage,
+      total: sorted.length,
+      totalPages: Math.ceil(sorted.length / perPage),
+      nextCursor: nextOffset < sorted.length ? encodeCursor(nextOffset) : null,
+    },
+    facets,
+  };
+};
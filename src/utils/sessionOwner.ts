@@ -0,0 +1,45 @@
+/**
+ * Owner of per-visitor data (price watches, favorites, history): the signed-in
+ * account, otherwise the guest session
+ */
+
+import type { HonoVariables } from "../types/env";
+import { AuthenticationError } from "../middleware/errorHandler";
+
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export interface SessionOwner {
+  column: "user_id" | "guest_session_id";
+  id: string;
+}
+
+/**
+ * Owner of a request, or null without a user or a well-formed guest session
+ * (for data recorded in passing, like browsing history)
+ */
+export const findSessionOwner = (vars: HonoVariables): SessionOwner | null => {
+  if (vars.userId) {
+    return { column: "user_id", id: vars.userId };
+  }
+  if (vars.guestSessionId && UUID_REGEX.test(vars.guestSessionId)) {
+    return { column: "guest_session_id", id: vars.guestSessionId };
+  }
+  return null;
+};
+
+/**
+ * Resolve the owner of a request (optionalAuth + extractGuestSession)
+ * @throws AuthenticationError without a user or a well-formed guest session
+ */
+export const getSessionOwner = (vars: HonoVariables): SessionOwner => {
+  if (vars.userId) {
+    return { column: "user_id", id: vars.userId };
+  }
+  if (vars.guestSessionId) {
+    if (!UUID_REGEX.test(vars.guestSessionId)) {
+      throw new AuthenticationError("Invalid guest session");
+    }
+    return { column: "guest_session_id", id: vars.guestSessionId };
+  }
+  throw new AuthenticationError("Authentication or guest session required");
+};
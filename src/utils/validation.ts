@@ -1,22 +1,650 @@
-// Add near other schemas
+/**
+ * Request validation schemas
+ * Zod schemas shared by all Worker routes
+ */
+
+import { z } from "zod";
+import { CANONICAL_BOARDS, ROOM_TAGS } from "./boardNormalization";
+import { SUPPORTED_LANGUAGES } from "./i18n";
+import { PRICING_CHANNELS } from "./pricingRules";
+import { BOOKING_TABS } from "./customerBookings";
+
+// Validation constants (aligned with supabase/functions/_shared/validation.ts)
+export const MAX_ROOMS = 10;
+export const MAX_ADULTS_PER_ROOM = 10;
+export const MAX_CHILDREN_PER_ROOM = 10;
+export const MAX_CHILD_AGE = 17;
+
+const CITY_ID_MESSAGE =
+  "cityId must be a positive integer. Use the numeric ID returned by /static/cities";
+
+// E.164 phone number format (e.g. +21612345678)
+const PHONE_REGEX = /^\+?[1-9]\d{6,14}$/;
+
+export const dateSchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format")
+  .refine((value) => !isNaN(new Date(value).getTime()), "Invalid date");
+
+export const uuidSchema = z.string().uuid("Invalid UUID format");
+
+const positiveIdSchema = (field: string) =>
+  z
+    .number({ invalid_type_error: `${field} must be a positive integer` })
+    .int(`${field} must be a positive integer`)
+    .positive(`${field} must be a positive integer`);
+
+/**
+ * cityId accepts numbers and numeric strings (query strings, form data)
+ */
 const cityIdSchema = z.preprocess(
-  (value) => (typeof value === 'string' ? Number(value) : value),
+  (value) => (typeof value === "string" ? Number(value.trim() || NaN) : value),
   z
-    .number()
-    .int()
-    .positive('cityId invalide. Utilisez l’ID numérique retourné par /static/cities')
-)
+    .number({ invalid_type_error: CITY_ID_MESSAGE, required_error: CITY_ID_MESSAGE })
+    .int(CITY_ID_MESSAGE)
+    .positive(CITY_ID_MESSAGE)
+);
+
+export const currencySchema = z.enum(["TND", "EUR", "USD"]);
+
+// Display currency (ISO 4217); prices stay in TND, converted with admin rates
+export const displayCurrencySchema = z
+  .string()
+  .trim()
+  .transform((value) => value.toUpperCase())
+  .pipe(z.string().regex(/^[A-Z]{3}$/, "displayCurrency must be an ISO 4217 code"));
+
+// Promo code as typed by a customer (matched uppercase)
+export const promoCodeValueSchema = z
+  .string()
+  .trim()
+  .transform((value) => value.toUpperCase())
+  .pipe(z.string().regex(/^[A-Z0-9_-]{3,32}$/, "Invalid promo code"));
+
+const DISPLAY_CURRENCY_MESSAGE = "displayCurrency requires TND prices (omit currency or use TND)";
+
+// Sales channel, matched by pricing rules (defaults to web)
+export const channelSchema = z.enum(PRICING_CHANNELS);
+
+export const roomSchema = z.object({
+  adults: z.number().int().min(1).max(MAX_ADULTS_PER_ROOM),
+  childrenAges: z
+    .array(z.number().int().min(0).max(MAX_CHILD_AGE))
+    .max(MAX_CHILDREN_PER_ROOM)
+    .optional(),
+});
+
+export const searchFiltersSchema = z
+  .object({
+    priceMin: z.number().nonnegative().optional(),
+    priceMax: z.number().nonnegative().optional(),
+    starsMin: z.number().int().min(0).max(5).optional(),
+    starsMax: z.number().int().min(0).max(5).optional(),
+    boardCodes: z.array(z.string().trim().min(1)).optional(),
+    boardTypes: z.array(z.enum(CANONICAL_BOARDS)).optional(),
+    roomTags: z.array(z.string().refine((tag) => ROOM_TAGS.includes(tag), "Unknown room tag")).optional(),
+    themes: z.array(z.string().trim().min(1)).optional(),
+    hasInstantConfirmation: z.boolean().optional(),
+  })
+  .refine(
+    (filters) =>
+      filters.priceMin === undefined || filters.priceMax === undefined || filters.priceMin <= filters.priceMax,
+    { message: "priceMin must be lower than or equal to priceMax", path: ["priceMin"] }
+  )
+  .refine(
+    (filters) =>
+      filters.starsMin === undefined || filters.starsMax === undefined || filters.starsMin <= filters.starsMax,
+    { message: "starsMin must be lower than or equal to starsMax", path: ["starsMin"] }
+  );
 
-// Replace hotelSearchSchema
 export const hotelSearchSchema = z.object({
   cityId: cityIdSchema,
   checkIn: dateSchema,
   checkOut: dateSchema,
-  rooms: z.array(roomSchema).min(1).max(10),
+  rooms: z.array(roomSchema).min(1).max(MAX_ROOMS),
   hotelIds: z.array(z.number().int().positive()).optional(),
-  currency: z.enum(['TND', 'EUR', 'USD']).optional(),
+  currency: currencySchema.optional(),
   onlyAvailable: z.boolean().optional(),
   keywords: z.string().optional(),
   categories: z.array(z.string()).optional(),
   tags: z.array(z.string()).optional(),
-})
+  // Language of normalized board labels
+  language: z.enum(SUPPORTED_LANGUAGES).optional(),
+  channel: channelSchema.optional(),
+  displayCurrency: displayCurrencySchema.optional(),
+  // Server-side result shaping (applied after the myGO call)
+  sortBy: z.enum(["recommended", "price", "stars", "name"]).optional(),
+  sortOrder: z.enum(["asc", "desc"]).optional(),
+  filters: searchFiltersSchema.optional(),
+  page: z.number().int().positive().optional(),
+  perPage: z.number().int().positive().max(100).optional(),
+  cursor: z.string().min(1).optional(),
+}).refine((data) => !data.displayCurrency || !data.currency || data.currency === "TND", {
+  message: DISPLAY_CURRENCY_MESSAGE,
+  path: ["displayCurrency"],
+});
+
+// Flexible-dates calendar: one lowest price per check-in date of a month
+export const MAX_CALENDAR_NIGHTS = 30;
+
+export const priceCalendarSchema = z.object({
+  cityId: cityIdSchema,
+  hotelId: z.number().int().positive().optional(),
+  month: z.string().regex(/^\d{4}-(0[1-9]|1[0-2])$/, "Month must be in YYYY-MM format"),
+  nights: z.number().int().min(1).max(MAX_CALENDAR_NIGHTS),
+  rooms: z.array(roomSchema).min(1).max(MAX_ROOMS),
+  currency: currencySchema.optional(),
+});
+
+// Geo search: point + radius or map bounding box over inventory coordinates
+export const MAX_GEO_RADIUS_KM = 100;
+
+const latitudeSchema = z.number().min(-90).max(90);
+const longitudeSchema = z.number().min(-180).max(180);
+
+export const geoSearchSchema = z
+  .object({
+    center: z.object({ latitude: latitudeSchema, longitude: longitudeSchema }).optional(),
+    radiusKm: z.number().positive().max(MAX_GEO_RADIUS_KM).optional(),
+    bounds: z
+      .object({
+        north: latitudeSchema,
+        south: latitudeSchema,
+        east: longitudeSchema,
+        west: longitudeSchema,
+      })
+      .refine((bounds) => bounds.south <= bounds.north && bounds.west <= bounds.east, {
+        message: "bounds must satisfy south <= north and west <= east",
+      })
+      .optional(),
+    checkIn: dateSchema,
+    checkOut: dateSchema,
+    rooms: z.array(roomSchema).min(1).max(MAX_ROOMS),
+    currency: currencySchema.optional(),
+    onlyAvailable: z.boolean().optional(),
+    language: z.enum(SUPPORTED_LANGUAGES).optional(),
+    channel: channelSchema.optional(),
+    displayCurrency: displayCurrencySchema.optional(),
+    sortBy: z.enum(["distance", "recommended", "price", "stars", "name"]).optional(),
+    sortOrder: z.enum(["asc", "desc"]).optional(),
+    filters: searchFiltersSchema.optional(),
+    page: z.number().int().positive().optional(),
+    perPage: z.number().int().positive().max(100).optional(),
+    cursor: z.string().min(1).optional(),
+  })
+  .refine((data) => data.bounds !== undefined || (data.center !== undefined && data.radiusKm !== undefined), {
+    message: "Provide either center and radiusKm, or bounds",
+    path: ["center"],
+  })
+  .refine((data) => data.bounds === undefined || data.radiusKm === undefined, {
+    message: "radiusKm cannot be combined with bounds",
+    path: ["radiusKm"],
+  })
+  .refine((data) => !data.displayCurrency || !data.currency || data.currency === "TND", {
+    message: DISPLAY_CURRENCY_MESSAGE,
+    path: ["displayCurrency"],
+  });
+
+// Hotel comparison: 2-5 distinct hotels of one city, one myGO search
+export const MIN_COMPARED_HOTELS = 2;
+export const MAX_COMPARED_HOTELS = 5;
+
+export const hotelCompareSchema = z
+  .object({
+    hotelIds: z
+      .array(z.number().int().positive())
+      .min(MIN_COMPARED_HOTELS)
+      .max(MAX_COMPARED_HOTELS)
+      .refine((ids) => new Set(ids).size === ids.length, "hotelIds must be distinct"),
+    checkIn: dateSchema,
+    checkOut: dateSchema,
+    rooms: z.array(roomSchema).min(1).max(MAX_ROOMS),
+    currency: currencySchema.optional(),
+    language: z.enum(SUPPORTED_LANGUAGES).optional(),
+    channel: channelSchema.optional(),
+    displayCurrency: displayCurrencySchema.optional(),
+  })
+  .refine((data) => data.checkIn < data.checkOut, {
+    message: "checkOut must be after checkIn",
+    path: ["checkOut"],
+  })
+  .refine((data) => !data.displayCurrency || !data.currency || data.currency === "TND", {
+    message: DISPLAY_CURRENCY_MESSAGE,
+    path: ["displayCurrency"],
+  });
+
+// Hotel detail query string (?checkIn=&checkOut=&occupancy=2:5,8|2&currency=)
+export const hotelDetailQuerySchema = z
+  .object({
+    checkIn: dateSchema.optional(),
+    checkOut: dateSchema.optional(),
+    rooms: z.array(roomSchema).min(1).max(MAX_ROOMS).optional(),
+    currency: currencySchema.optional(),
+    language: z.string().trim().min(2).max(5).optional(),
+    channel: channelSchema.optional(),
+    displayCurrency: displayCurrencySchema.optional(),
+  })
+  .refine((data) => (data.checkIn === undefined) === (data.checkOut === undefined), {
+    message: "checkIn and checkOut must be provided together",
+    path: ["checkOut"],
+  })
+  .refine((data) => !data.checkIn || !data.checkOut || data.checkIn < data.checkOut, {
+    message: "checkOut must be after checkIn",
+    path: ["checkOut"],
+  })
+  .refine((data) => !data.displayCurrency || !data.currency || data.currency === "TND", {
+    message: DISPLAY_CURRENCY_MESSAGE,
+    path: ["displayCurrency"],
+  });
+
+// Cancellation policy query string (?checkIn=&checkOut=&occupancy=&roomId=&boardCode=&price=)
+export const cancellationPolicyQuerySchema = z
+  .object({
+    checkIn: dateSchema,
+    checkOut: dateSchema,
+    rooms: z.array(roomSchema).min(1).max(MAX_ROOMS).optional(),
+    currency: currencySchema.optional(),
+    roomId: z.coerce.number().int().positive().optional(),
+    boardCode: z.string().trim().min(1).optional(),
+    price: z.coerce.number().nonnegative().optional(),
+  })
+  .refine((data) => data.checkIn < data.checkOut, {
+    message: "checkOut must be after checkIn",
+    path: ["checkOut"],
+  });
+
+// Autocomplete query string (?q=&limit=&types=city,hotel)
+export const autocompleteQuerySchema = z.object({
+  q: z.string().trim().min(1, "q is required").max(64),
+  limit: z.coerce.number().int().min(1).max(20).optional(),
+  types: z
+    .string()
+    .optional()
+    .transform((value) => (value ? value.split(",").map((type) => type.trim()).filter(Boolean) : undefined))
+    .pipe(z.array(z.enum(["city", "region", "hotel"])).optional()),
+});
+
+// Token-free booking: search context used to reconstruct a fresh myGO token
+export const searchParamsSchema = z.object({
+  cityId: positiveIdSchema("cityId"),
+  checkIn: dateSchema,
+  checkOut: dateSchema,
+  rooms: z.array(roomSchema).min(1).max(MAX_ROOMS),
+  currency: currencySchema.optional(),
+});
+
+// Token-free booking: offer selected from search results
+export const selectedOfferSchema = z.object({
+  hotelId: positiveIdSchema("hotelId"),
+  roomId: positiveIdSchema("roomId"),
+  boardCode: z.string().optional(),
+  boardingId: z.number().int().positive().optional(),
+  price: z.number().nonnegative().optional(),
+  offerRef: z.string().trim().min(1).max(2048).optional(), // signed offer reference from search
+  views: z.array(z.number().int().positive()).optional(),
+  supplements: z.array(z.number().int().positive()).optional(),
+});
+
+const personSchema = z.object({
+  firstName: z.string().trim().min(1),
+  lastName: z.string().trim().min(1),
+  nationality: z.string().trim().min(2).max(3),
+});
+
+const childSchema = personSchema.extend({
+  age: z.number().int().min(0).max(MAX_CHILD_AGE),
+});
+
+export const bookingRoomSchema = z.object({
+  id: positiveIdSchema("roomId"),
+  boarding: z.string().trim().min(1),
+  views: z.array(z.number().int().positive()).optional(),
+  supplements: z.array(z.number().int().positive()).optional(),
+  pax: z.object({
+    adults: z.array(personSchema).min(1).max(MAX_ADULTS_PER_ROOM),
+    children: z.array(childSchema).max(MAX_CHILDREN_PER_ROOM).optional(),
+  }),
+});
+
+export const customerSchema = z.object({
+  firstName: z.string().trim().min(1),
+  lastName: z.string().trim().min(1),
+  email: z.string().trim().email("Invalid email address"),
+  phone: z.string().trim().regex(PHONE_REGEX, "Phone must be in E.164 format"),
+  nationality: z.string().trim().min(2).max(3),
+});
+
+const bookingOptionSchema = z.object({
+  id: z.number().int().positive(),
+  quantity: z.number().int().positive(),
+});
+
+export const tokenFreeBookingSchema = z.object({
+  preBooking: z.boolean().optional().default(true),
+  searchParams: searchParamsSchema,
+  selectedOffer: selectedOfferSchema,
+  rooms: z.array(bookingRoomSchema).min(1).max(MAX_ROOMS),
+  customer: customerSchema,
+  methodPayment: z.string().optional(),
+  options: z.array(bookingOptionSchema).optional(),
+});
+
+/**
+ * Booking creation payload (dual mode)
+ * - Token-free (recommended): searchParams + selectedOffer
+ * - Legacy: token + city/hotel/checkIn/checkOut from the original search
+ */
+export const bookingCreateSchema = z
+  .object({
+    preBooking: z.boolean().optional(),
+    token: z.string().trim().min(1, "Token must not be empty").optional(),
+    searchParams: searchParamsSchema.optional(),
+    selectedOffer: selectedOfferSchema.optional(),
+    methodPayment: z.string().optional(),
+    currency: currencySchema.optional(),
+    city: positiveIdSchema("city").optional(),
+    hotel: positiveIdSchema("hotel").optional(),
+    checkIn: dateSchema.optional(),
+    checkOut: dateSchema.optional(),
+    rooms: z.array(bookingRoomSchema).min(1).max(MAX_ROOMS),
+    customer: customerSchema,
+    options: z.array(bookingOptionSchema).optional(),
+    channel: channelSchema.optional(),
+    displayCurrency: displayCurrencySchema.optional(),
+    promoCode: promoCodeValueSchema.optional(),
+  })
+  .refine((data) => !!data.token || (!!data.searchParams && !!data.selectedOffer), {
+    message: "Either token or searchParams + selectedOffer is required",
+    path: ["token"],
+  })
+  .refine((data) => !data.token || !!data.searchParams || (!!data.hotel && !!data.checkIn && !!data.checkOut), {
+    message: "Legacy token bookings require hotel, checkIn and checkOut",
+    path: ["hotel"],
+  })
+  .refine(
+    (data) => !data.displayCurrency || (data.searchParams?.currency ?? data.currency ?? "TND") === "TND",
+    { message: DISPLAY_CURRENCY_MESSAGE, path: ["displayCurrency"] }
+  )
+  .refine((data) => !data.promoCode || (data.searchParams?.currency ?? data.currency ?? "TND") === "TND", {
+    message: "Promo codes apply to TND bookings only",
+    path: ["promoCode"],
+  });
+
+export const checkoutInitiateSchema = z.object({
+  bookingId: uuidSchema,
+  returnUrl: z.string().url(),
+  failUrl: z.string().url(),
+});
+
+export const guestSessionSchema = z.object({
+  metadata: z.record(z.unknown()).optional(),
+});
+
+export const registerSchema = z.object({
+  email: z.string().trim().email(),
+  password: z.string().min(8),
+  firstName: z.string().trim().min(1).optional(),
+  lastName: z.string().trim().min(1).optional(),
+});
+
+export const loginSchema = z.object({
+  email: z.string().trim().email(),
+  password: z.string().min(1),
+});
+
+export const updateProfileSchema = z.object({
+  whatsappNumber: z.string().trim().regex(PHONE_REGEX, "Phone must be in E.164 format").nullable().optional(),
+  whatsappConsent: z.boolean().optional(),
+});
+
+export const checkoutPolicySchema = z.object({
+  policy: z.enum(["STRICT", "ON_HOLD_PREAUTH"]),
+});
+
+// Admin board code override (myGO board code/name → canonical board)
+export const boardOverrideSchema = z.object({
+  matchType: z.enum(["code", "name"]),
+  matchValue: z.string().trim().min(1).max(120),
+  canonicalCode: z.enum(CANONICAL_BOARDS),
+  note: z.string().trim().max(500).nullable().optional(),
+});
+
+// Pricing rule (admin); empty or missing conditions match every offer
+export const pricingRuleSchema = z
+  .object({
+    name: z.string().trim().min(1).max(120),
+    active: z.boolean().optional().default(true),
+    priority: z.number().int().min(-1000).max(1000).optional().default(0),
+    hotelIds: z.array(z.number().int().positive()).max(500).nullable().optional(),
+    cityIds: z.array(z.number().int().positive()).max(100).nullable().optional(),
+    stars: z.array(z.number().int().min(1).max(5)).max(5).nullable().optional(),
+    boardTypes: z.array(z.enum(CANONICAL_BOARDS)).nullable().optional(),
+    stayFrom: dateSchema.nullable().optional(),
+    stayTo: dateSchema.nullable().optional(),
+    bookingWindowMin: z.number().int().min(0).max(730).nullable().optional(),
+    bookingWindowMax: z.number().int().min(0).max(730).nullable().optional(),
+    channels: z.array(channelSchema).nullable().optional(),
+    markupType: z.enum(["percent", "fixed"]),
+    markupValue: z.number().min(0).max(100000),
+    roundingStep: z.number().positive().max(1000).nullable().optional(),
+    roundingMode: z.enum(["nearest", "up", "down"]).optional().default("nearest"),
+    minPrice: z.number().nonnegative().nullable().optional(),
+    maxPrice: z.number().positive().nullable().optional(),
+    note: z.string().trim().max(500).nullable().optional(),
+  })
+  .refine((data) => !data.stayFrom || !data.stayTo || data.stayFrom <= data.stayTo, {
+    message: "stayTo must not be before stayFrom",
+    path: ["stayTo"],
+  })
+  .refine(
+    (data) => data.bookingWindowMin == null || data.bookingWindowMax == null || data.bookingWindowMin <= data.bookingWindowMax,
+    { message: "bookingWindowMax must not be below bookingWindowMin", path: ["bookingWindowMax"] }
+  )
+  .refine((data) => data.minPrice == null || data.maxPrice == null || data.minPrice <= data.maxPrice, {
+    message: "maxPrice must not be below minPrice",
+    path: ["maxPrice"],
+  });
+
+// Price preview for one offer, against saved rules or a draft rule
+export const pricingPreviewSchema = z.object({
+  hotelId: positiveIdSchema("hotelId"),
+  cityId: positiveIdSchema("cityId").optional(),
+  star: z.number().int().min(1).max(5).optional(),
+  boardType: z.enum(CANONICAL_BOARDS).optional(),
+  checkIn: dateSchema,
+  price: z.number().nonnegative(),
+  channel: channelSchema.optional(),
+  bookingDate: dateSchema.optional(),
+  rule: pricingRuleSchema.optional(),
+});
+
+// Exchange rate snapshot (admin): TND for one unit of a display currency
+export const exchangeRateSchema = z.object({
+  currency: displayCurrencySchema.refine((currency) => currency !== "TND", "TND is the settlement currency"),
+  tndPerUnit: z.number().positive().max(100000),
+  effectiveAt: z.string().datetime({ offset: true }).optional(),
+  note: z.string().trim().max(500).nullable().optional(),
+});
+
+// Promo code (admin); empty or missing restrictions and limits match everything
+export const promoCodeSchema = z
+  .object({
+    code: promoCodeValueSchema,
+    description: z.string().trim().max(500).nullable().optional(),
+    active: z.boolean().optional().default(true),
+    discountType: z.enum(["percent", "fixed"]),
+    discountValue: z.number().positive().max(100000),
+    maxDiscount: z.number().positive().nullable().optional(),
+    validFrom: z.string().datetime({ offset: true }).nullable().optional(),
+    validTo: z.string().datetime({ offset: true }).nullable().optional(),
+    maxRedemptions: z.number().int().positive().nullable().optional(),
+    maxRedemptionsPerCustomer: z.number().int().positive().nullable().optional(),
+    minNights: z.number().int().positive().max(365).nullable().optional(),
+    minAmount: z.number().nonnegative().nullable().optional(),
+    cityIds: z.array(z.number().int().positive()).max(100).nullable().optional(),
+    hotelIds: z.array(z.number().int().positive()).max(500).nullable().optional(),
+  })
+  .refine((data) => data.discountType !== "percent" || data.discountValue <= 100, {
+    message: "Percentage discounts must not exceed 100",
+    path: ["discountValue"],
+  })
+  .refine((data) => !data.validFrom || !data.validTo || Date.parse(data.validFrom) <= Date.parse(data.validTo), {
+    message: "validTo must not be before validFrom",
+    path: ["validTo"],
+  });
+
+// Exchange rate history query (admin)
+export const exchangeRateHistorySchema = z.object({
+  currency: displayCurrencySchema.optional(),
+  limit: z.number().int().positive().max(500).optional(),
+});
+
+export const bookingListFiltersSchema = z.object({
+  status: z.enum(["pending", "confirmed", "cancelled", "completed"]).optional(),
+  fromCheckIn: dateSchema.optional(),
+  toCheckIn: dateSchema.optional(),
+  fromCheckOut: dateSchema.optional(),
+  toCheckOut: dateSchema.optional(),
+  page: z.number().int().positive().optional(),
+  perPage: z.number().int().positive().max(100).optional(),
+});
+
+// Price watch: a saved search, hotel or offer (offerRef or hotelId/roomId)
+export const priceWatchCreateSchema = z
+  .object({
+    searchParams: searchParamsSchema,
+    hotelId: positiveIdSchema("hotelId").optional(),
+    roomId: positiveIdSchema("roomId").optional(),
+    boardCode: z.string().trim().min(1).optional(),
+    offerRef: z.string().trim().min(1).max(2048).optional(), // signed offer reference from search
+    targetPrice: z.number().positive().max(1000000).optional(),
+    email: z.string().trim().email().optional(),
+  })
+  .refine((data) => !data.searchParams.currency || data.searchParams.currency === "TND", {
+    message: "Price watches track TND prices (omit currency or use TND)",
+    path: ["searchParams", "currency"],
+  })
+  .refine((data) => data.searchParams.checkIn < data.searchParams.checkOut, {
+    message: "checkOut must be after checkIn",
+    path: ["searchParams", "checkOut"],
+  })
+  .refine((data) => data.roomId === undefined || data.hotelId !== undefined, {
+    message: "roomId requires hotelId",
+    path: ["roomId"],
+  });
+
+export const priceWatchListSchema = z.object({
+  status: z.enum(["active", "expired", "cancelled"]).optional(),
+});
+
+// Favorite hotel (profile wishlist)
+export const favoriteHotelSchema = z.object({
+  hotelId: positiveIdSchema("hotelId"),
+});
+
+const reviewScoreSchema = z.number().int().min(1).max(10);
+
+// Guest review of a completed booking (scores 1-10)
+export const reviewCreateSchema = z.object({
+  bookingId: uuidSchema,
+  scores: z.object({
+    cleanliness: reviewScoreSchema,
+    location: reviewScoreSchema,
+    staff: reviewScoreSchema,
+    value: reviewScoreSchema,
+  }),
+  title: z.string().trim().min(1).max(120).optional(),
+  comment: z.string().trim().min(20).max(4000),
+  language: z.enum(SUPPORTED_LANGUAGES).optional(),
+});
+
+// Approved reviews of a hotel (public listing)
+export const hotelReviewListSchema = z.object({
+  page: z.number().int().positive().optional(),
+  perPage: z.number().int().positive().max(50).optional(),
+});
+
+// Moderation queue (admin), pending reviews by default
+export const reviewModerationListSchema = z.object({
+  status: z.enum(["pending", "approved", "rejected"]).optional(),
+  hotelId: z.number().int().positive().optional(),
+  page: z.number().int().positive().optional(),
+  perPage: z.number().int().positive().max(100).optional(),
+});
+
+export const reviewModerationSchema = z.object({
+  status: z.enum(["approved", "rejected"]),
+  note: z.string().trim().max(1000).nullable().optional(),
+});
+
+// Confirm a customer cancellation with the penalty shown by the quote
+export const cancellationConfirmSchema = z.object({
+  acceptedPenalty: z.number().nonnegative(),
+});
+
+// New stay of a booking amendment (same hotel)
+export const amendmentQuoteSchema = z
+  .object({
+    checkIn: dateSchema,
+    checkOut: dateSchema,
+    rooms: z.array(roomSchema).min(1).max(MAX_ROOMS),
+  })
+  .refine((data) => data.checkIn < data.checkOut, {
+    message: "checkOut must be after checkIn",
+    path: ["checkOut"],
+  });
+
+// Confirm an amendment with the offer and price difference shown by the quote
+// returnUrl/failUrl are needed when the new total exceeds what was paid
+export const amendmentConfirmSchema = z
+  .object({
+    checkIn: dateSchema,
+    checkOut: dateSchema,
+    rooms: z.array(roomSchema).min(1).max(MAX_ROOMS),
+    roomId: positiveIdSchema("roomId"),
+    boardCode: z.string().trim().min(1).optional(),
+    acceptedPriceDifference: z.number(),
+    returnUrl: z.string().url().optional(),
+    failUrl: z.string().url().optional(),
+  })
+  .refine((data) => data.checkIn < data.checkOut, {
+    message: "checkOut must be after checkIn",
+    path: ["checkOut"],
+  });
+
+// Finish an amendment once its replacement pre-authorization is paid
+export const amendmentCompleteSchema = z.object({
+  amendmentId: uuidSchema,
+});
+
+// Bookings of the signed-in user or guest session ("my bookings")
+export const customerBookingListSchema = z.object({
+  tab: z.enum(BOOKING_TABS).optional(),
+  page: z.number().int().positive().optional(),
+  perPage: z.number().int().positive().max(50).optional(),
+  refresh: z.boolean().optional(),
+});
+
+// Guest booking lookup: myGO booking number or booking id, and customer email
+export const bookingLookupSchema = z.object({
+  reference: z.string().trim().min(1).max(64),
+  email: z.string().trim().email().max(254),
+});
+
+// Top deals feed (public), optionally for one city or board
+export const topDealsSchema = z.object({
+  cityId: z.number().int().positive().optional(),
+  board: z.enum(CANONICAL_BOARDS).optional(),
+  limit: z.number().int().positive().max(50).optional(),
+});
+
+// City landing page data (public), hotels optionally limited to one board
+export const cityDealsSchema = z.object({
+  board: z.enum(CANONICAL_BOARDS).optional(),
+  limit: z.number().int().positive().max(100).optional(),
+});
+
+export type HotelSearchInput = z.infer<typeof hotelSearchSchema>;
+export type SearchParamsInput = z.infer<typeof searchParamsSchema>;
+export type BookingCreateInput = z.infer<typeof bookingCreateSchema>;
+export type PriceWatchCreateInput = z.infer<typeof priceWatchCreateSchema>;
@@ -0,0 +1,218 @@
+/**
+ * Booking, payment and myGO state machine (edge functions)
+ *
+ * Copy of the transition tables and guards of the Worker module
+ * (src/utils/bookingStateMachine.ts, which documents the states); keep both
+ * identical, src/utils/bookingStateMachine.test.ts checks they agree.
+ * Dependency-free so the Worker tests can import it.
+ */
+
+export type BookingStatus = "pending" | "confirmed" | "cancelled" | "completed";
+export type PaymentStatus = "pending" | "authorized" | "captured" | "failed" | "reversed" | "refunded";
+export type KnownMyGoState = "OnRequest" | "Confirmed" | "Cancelled";
+
+export const BOOKING_TRANSITIONS: Record<BookingStatus, readonly BookingStatus[]> = {
+  pending: ["confirmed", "cancelled"],
+  // Back to pending when an amendment swaps to an on-request myGO booking
+  confirmed: ["pending", "cancelled", "completed"],
+  cancelled: [],
+  completed: [],
+};
+
+export const PAYMENT_TRANSITIONS: Record<PaymentStatus, readonly PaymentStatus[]> = {
+  pending: ["authorized", "captured", "failed", "reversed"],
+  authorized: ["captured", "reversed"],
+  // A partial refund keeps the payment captured (refunded_amount)
+  captured: ["refunded"],
+  failed: [],
+  reversed: [],
+  refunded: [],
+};
+
+export const MYGO_STATE_TRANSITIONS: Record<KnownMyGoState, readonly KnownMyGoState[]> = {
+  OnRequest: ["Confirmed", "Cancelled"],
+  // Back on request when our myGO credit cannot cover a pre-booking (STRICT checkout)
+  Confirmed: ["OnRequest", "Cancelled"],
+  Cancelled: [],
+};
+
+// Payment statuses holding customer funds
+export const FUNDED_PAYMENT_STATUSES: readonly PaymentStatus[] = ["authorized", "captured"];
+
+export type PaymentCallbackEffect = "redeem_promo" | "release_promo" | "release_payment" | "fail_amendment";
+
+export interface PaymentCallbackPlan {
+  payment: PaymentStatus;
+  // null: the booking is left as is
+  booking: { status: BookingStatus; paymentStatus: PaymentStatus } | null;
+  effects: PaymentCallbackEffect[];
+}
+
+/**
+ * Known myGO state of a raw state (null for states outside the table)
+ */
+export const normalizeMyGoState = (state: string): KnownMyGoState | null => {
+  const normalized = state.trim().toLowerCase().replace(/[\s_-]/g, "");
+  if (normalized.startsWith("cancel")) {
+    return "Cancelled";
+  }
+  if (normalized === "onrequest") {
+    return "OnRequest";
+  }
+  return normalized === "confirmed" ? "Confirmed" : null;
+};
+
+// Unknown stored statuses (legacy rows) are treated as final
+export const canTransitionBooking = (from: BookingStatus, to: BookingStatus): boolean =>
+  from === to || (BOOKING_TRANSITIONS[from] ?? []).includes(to);
+
+export const canTransitionPayment = (from: PaymentStatus, to: PaymentStatus): boolean =>
+  from === to || (PAYMENT_TRANSITIONS[from] ?? []).includes(to);
+
+/**
+ * Whether bookings.mygo_state may move from one myGO state to another
+ * Unset states take anything; states outside the table pass through unless
+ * the booking was cancelled at myGO
+ */
+export const canTransitionMyGoState = (from: string | null | undefined, to: string | null): boolean => {
+  if (!from || from === to) {
+    return true;
+  }
+  const known = normalizeMyGoState(from);
+  const next = to ? normalizeMyGoState(to) : null;
+  if (known === "Cancelled") {
+    return next === "Cancelled";
+  }
+  if (!to || !known || !next) {
+    return to !== null;
+  }
+  return known === next || MYGO_STATE_TRANSITIONS[known].includes(next);
+};
+
+/**
+ * Booking status of a new myGO reservation
+ * Pre-bookings wait for payment; final bookings wait only when on request
+ */
+export const initialBookingStatus = (mygoState: string | undefined, preBooking: boolean): BookingStatus =>
+  preBooking || (mygoState && normalizeMyGoState(mygoState) === "OnRequest") ? "pending" : "confirmed";
+
+/**
+ * Whether a new payment may be started for a booking (checkout)
+ * Never while another payment holds funds for it
+ */
+export const canStartPayment = (booking: { status: BookingStatus; payment_status: PaymentStatus | null }): boolean =>
+  booking.status === "pending" && !FUNDED_PAYMENT_STATUSES.includes(booking.payment_status ?? "pending");
+
+/**
+ * Payment status of a ClicToPay callback
+ * orderStatus: 0=registered, 1=pre-authorized, 2=deposited, 3=reversed, 4=refunded, 5=initiated, 6=declined
+ * actionCode: 0=success, anything else is an error
+ */
+export const paymentStatusFromCallback = (orderStatus: number, actionCode: number): PaymentStatus => {
+  if (actionCode !== 0) {
+    return "failed";
+  }
+  switch (orderStatus) {
+    case 1:
+      return "authorized";
+    case 2:
+      return "captured";
+    case 3:
+      return "reversed";
+    case 4:
+      return "refunded";
+    case 6:
+      return "failed";
+    default:
+      return "pending";
+  }
+};
+
+/**
+ * What a legal payment callback does to the payment, its booking and around
+ * them (check canTransitionPayment first: e.g. a late decline of a captured
+ * payment is rejected)
+ * - the payment moves to the callback status
+ * - funds for an open booking confirm it and redeem its promo code; funds for
+ *   a booking cancelled meanwhile are released
+ * - a failure cancels an open booking (promo code released), unless another
+ *   payment holds funds for it (an older attempt failing late)
+ * - amendment payments only fail their amendment, the booking is handled by
+ *   the amendment flow
+ */
+export const planPaymentCallback = (
+  payment: { status: PaymentStatus; amendment_id?: string | null },
+  booking: { status: BookingStatus; payment_status: PaymentStatus | null } | null,
+  next: PaymentStatus
+): PaymentCallbackPlan => {
+  const funded = FUNDED_PAYMENT_STATUSES.includes(next);
+
+  if (payment.amendment_id || !booking) {
+    return { payment: next, booking: null, effects: payment.amendment_id && next === "failed" ? ["fail_amendment"] : [] };
+  }
+
+  const open = booking.status === "pending" || booking.status === "confirmed";
+  if (funded) {
+    if (open) {
+      return { payment: next, booking: { status: "confirmed", paymentStatus: next }, effects: ["redeem_promo"] };
+    }
+    return {
+      payment: next,
+      booking: null,
+      effects: booking.status === "cancelled" ? ["release_payment"] : [],
+    };
+  }
+
+  if (next === "pending" || !open) {
+    return { payment: next, booking: null, effects: [] };
+  }
+  const fundedElsewhere =
+    !FUNDED_PAYMENT_STATUSES.includes(payment.status) &&
+    FUNDED_PAYMENT_STATUSES.includes(booking.payment_status ?? "pending");
+  if (fundedElsewhere) {
+    return { payment: next, booking: null, effects: [] };
+  }
+  return { payment: next, booking: { status: "cancelled", paymentStatus: next }, effects: ["release_promo"] };
+};
+
+export interface BookingStateRow {
+  id: string;
+  status: BookingStatus;
+  payment_status: PaymentStatus | null;
+  mygo_state?: string | null;
+  mygo_booking_id: number | null;
+}
+
+export interface BookingStateUpdate {
+  status?: BookingStatus;
+  paymentStatus?: PaymentStatus;
+  mygoState?: string | null;
+  // A new myGO reservation (amendment swap): its state starts afresh
+  mygoBookingId?: number;
+  // A new active payment (checkout, callback, amendment): payment_status starts afresh
+  replacesPayment?: boolean;
+  // Other columns written with the states
+  columns?: Record<string, unknown>;
+}
+
+/**
+ * Why a booking state update is illegal (null when it is legal)
+ */
+export const getBookingTransitionError = (booking: BookingStateRow, update: BookingStateUpdate): string | null => {
+  if (update.status && !canTransitionBooking(booking.status, update.status)) {
+    return `booking status ${booking.status} -> ${update.status}`;
+  }
+  if (
+    update.paymentStatus &&
+    !update.replacesPayment &&
+    booking.payment_status &&
+    !canTransitionPayment(booking.payment_status, update.paymentStatus)
+  ) {
+    return `payment status ${booking.payment_status} -> ${update.paymentStatus}`;
+  }
+  const newReservation = update.mygoBookingId !== undefined && update.mygoBookingId !== booking.mygo_booking_id;
+  if (update.mygoState !== undefined && !newReservation && !canTransitionMyGoState(booking.mygo_state, update.mygoState)) {
+    return `myGO state ${booking.mygo_state} -> ${update.mygoState}`;
+  }
+  return null;
+};
@@ -1,5 +1,11 @@
 import { serve } from "https://deno.land/std@0.224.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.49.1";
+import {
+  canTransitionPayment,
+  getBookingTransitionError,
+  planPaymentCallback,
+  type PaymentStatus,
+} from "../_shared/bookingStateMachine.ts";
 
 // CORS
 
@@ -66,6 +72,147 @@ const generateHmacSignature = async (payload: string, secret: string) => {
   return toHex(new Uint8Array(signature));
 };
 
+// Effets du paiement (mêmes effets que le callback du Worker,
+// src/routes/payments.ts)
+
+const DEFAULT_CLICTOPAY_BASE_URL = "https://test.clictopay.com/payment/rest";
+const CLICTOPAY_TIMEOUT_MS = 30000;
+
+type SupabaseClient = ReturnType<typeof createClient>;
+
+type PaymentRecord = {
+  id: string;
+  booking_id: string | null;
+  status: PaymentStatus;
+  amendment_id: string | null;
+  order_id: string | null;
+  amount: number | string;
+  currency: string;
+};
+
+// Paid bookings redeem their promo code; cancelled ones release it
+const updateBookingRedemptions = async (
+  supabase: SupabaseClient,
+  bookingId: string,
+  status: "redeemed" | "released",
+) => {
+  const now = new Date().toISOString();
+  const { error } = await supabase
+    .from("promo_redemptions")
+    .update(
+      status === "redeemed"
+        ? { status, redeemed_at: now }
+        : { status, released_at: now },
+    )
+    .eq("booking_id", bookingId)
+    .in(
+      "status",
+      status === "redeemed" ? ["reserved"] : ["reserved", "redeemed"],
+    );
+  if (error) {
+    console.error(
+      `Failed to update promo redemptions of booking ${bookingId} (${status}): ${error.message}`,
+    );
+  }
+};
+
+// Amount in minor units of its currency (millimes for TND)
+const toMinorUnits = (amount: number, currency: string) => {
+  const digits = new Intl.NumberFormat("en", { style: "currency", currency })
+    .resolvedOptions().maximumFractionDigits ?? 2;
+  return Math.round(amount * 10 ** digits);
+};
+
+const clicToPayRequest = async (
+  endpoint: string,
+  body: Record<string, unknown>,
+) => {
+  const username = Deno.env.get("CLICTOPAY_USERNAME");
+  const password = Deno.env.get("CLICTOPAY_PASSWORD");
+  if (!username || !password) {
+    throw new Error("CLICTOPAY_USERNAME and CLICTOPAY_PASSWORD are not set");
+  }
+  const baseUrl = Deno.env.get("CLICTOPAY_BASE_URL") ||
+    DEFAULT_CLICTOPAY_BASE_URL;
+
+  const response = await fetch(`${baseUrl}/${endpoint}`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Accept: "application/json",
+    },
+    body: JSON.stringify({ userName: username, password, ...body }),
+    signal: AbortSignal.timeout(CLICTOPAY_TIMEOUT_MS),
+  });
+  const responseText = await response.text();
+  if (!response.ok) {
+    throw new Error(
+      `ClicToPay error ${response.status}: ${responseText.slice(0, 400)}`,
+    );
+  }
+  const data = JSON.parse(responseText);
+  if (data.errorCode && data.errorCode !== "0") {
+    throw new Error(
+      `ClicToPay error ${data.errorCode}: ${
+        data.errorMessage || "Unknown error"
+      }`,
+    );
+  }
+};
+
+// Funds arriving for a booking cancelled meanwhile go back to the customer
+// (reverse the hold, refund the capture)
+// Returns false when they could not be released (customer service follows up)
+const releaseLatePayment = async (
+  supabase: SupabaseClient,
+  payment: PaymentRecord,
+) => {
+  const next: PaymentStatus = payment.status === "authorized"
+    ? "reversed"
+    : "refunded";
+  try {
+    if (!payment.order_id) {
+      throw new Error("Payment has no ClicToPay order");
+    }
+    if (next === "reversed") {
+      await clicToPayRequest("reverse.do", { orderId: payment.order_id });
+    } else {
+      await clicToPayRequest("refund.do", {
+        orderId: payment.order_id,
+        amount: toMinorUnits(Number(payment.amount), payment.currency),
+      });
+    }
+  } catch (error) {
+    console.error(
+      `Failed to release payment ${payment.id} of a cancelled booking: ${
+        error instanceof Error ? error.message : String(error)
+      }`,
+    );
+    return false;
+  }
+
+  const { error } = await supabase
+    .from("payments")
+    .update({
+      status: next,
+      ...(next === "refunded"
+        ? { refunded_amount: Number(payment.amount) }
+        : {}),
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", payment.id)
+    .eq("status", payment.status);
+  if (error) {
+    console.error(
+      `Failed to record release of payment ${payment.id}: ${error.message}`,
+    );
+  }
+  console.warn(
+    `Late payment ${payment.id} of a cancelled booking released (${next})`,
+  );
+  return true;
+};
+
 // Handler principal
 
 serve(async (request) => {
@@ -137,10 +284,8 @@ serve(async (request) => {
   }
 
   const normalizedStatus = status.toLowerCase();
-  const paymentStatus = SUCCESS_STATUSES.includes(normalizedStatus)
-    ? "paid"
-    : "failed";
-  const bookingStatus = paymentStatus === "paid" ? "confirmed" : "failed";
+  const paymentStatus: PaymentStatus =
+    SUCCESS_STATUSES.includes(normalizedStatus) ? "captured" : "failed";
 
   const supabase = createClient(supabaseUrl, supabaseKey, {
     auth: { persistSession: false },
@@ -148,9 +293,9 @@ serve(async (request) => {
 
   const { data: paymentRecord, error: paymentSelectError } = await supabase
     .from("payments")
-    .select("id, booking_id, status")
+    .select("id, booking_id, status, amendment_id, order_id, amount, currency")
     .eq("reference", reference)
-    .single();
+    .single<PaymentRecord>();
 
   if (paymentSelectError) {
     const notFound = paymentSelectError.code === POSTGREST_NOT_FOUND_CODE;
@@ -173,7 +318,7 @@ serve(async (request) => {
   const previousPaymentStatus = paymentRecord.status;
   const { data: bookingRecord, error: bookingSelectError } = await supabase
     .from("bookings")
-    .select("id, status")
+    .select("id, status, payment_status, mygo_state, mygo_booking_id")
     .eq("id", bookingId)
     .single();
 
@@ -186,10 +331,55 @@ serve(async (request) => {
     );
   }
 
-  const { error: paymentError } = await supabase
+  // Same rules as the Worker callback: final states never move back, so a
+  // late or replayed callback cannot revive a cancelled booking
+  if (!canTransitionPayment(previousPaymentStatus, paymentStatus)) {
+    console.warn(
+      `Illegal payment state transition rejected: ${paymentRecord.id} ${previousPaymentStatus} -> ${paymentStatus}`,
+    );
+    return jsonResponse(
+      {
+        error:
+          `Payment cannot change: ${previousPaymentStatus} -> ${paymentStatus}`,
+        code: "ILLEGAL_STATE_TRANSITION",
+      },
+      409,
+      allowedOrigin,
+    );
+  }
+  const plan = planPaymentCallback(paymentRecord, bookingRecord, paymentStatus);
+  const bookingUpdate = plan.booking
+    ? {
+      status: plan.booking.status,
+      paymentStatus: plan.booking.paymentStatus,
+      replacesPayment: true,
+    }
+    : null;
+  const bookingRejection = bookingUpdate
+    ? getBookingTransitionError(bookingRecord, bookingUpdate)
+    : null;
+  if (bookingRejection) {
+    console.warn(
+      `Illegal booking state transition rejected: ${bookingRecord.id} ${bookingRejection}`,
+    );
+    return jsonResponse(
+      {
+        error: `Booking cannot change: ${bookingRejection}`,
+        code: "ILLEGAL_STATE_TRANSITION",
+      },
+      409,
+      allowedOrigin,
+    );
+  }
+
+  // Conditional writes: a row that changed meanwhile matches nothing and is a
+  // conflict, like in the Worker state machine
+  const { data: updatedPayments, error: paymentError } = await supabase
     .from("payments")
-    .update({ status: paymentStatus })
-    .eq("id", paymentRecord.id);
+    .update({ status: paymentStatus, updated_at: new Date().toISOString() })
+    .eq("id", paymentRecord.id)
+    .eq("status", previousPaymentStatus)
+    .select("id");
 
   if (paymentError) {
     const notFound = paymentError.code === POSTGREST_NOT_FOUND_CODE;
@@ -199,29 +389,82 @@ serve(async (request) => {
       allowedOrigin,
     );
   }
+  if (!updatedPayments?.length) {
+    console.warn(
+      `Payment ${paymentRecord.id} changed concurrently, callback not applied`,
+    );
+    return jsonResponse(
+      {
+        error: `Payment is no longer ${previousPaymentStatus}`,
+        code: "ILLEGAL_STATE_TRANSITION",
+      },
+      409,
+      allowedOrigin,
+    );
+  }
 
-  const { error: bookingError } = await supabase
-    .from("bookings")
-    .update({ status: bookingStatus })
-    .eq("id", bookingRecord.id);
-
-  if (bookingError) {
-    if (previousPaymentStatus !== null && previousPaymentStatus !== undefined) {
-      const { error: rollbackError } = await supabase
-        .from("payments")
-        .update({ status: previousPaymentStatus })
-        .eq("id", paymentRecord.id);
-      if (rollbackError) {
-        return jsonResponse(
-          {
-            error:
-              `Booking update failed (${bookingError.message}); rollback failed: ${rollbackError.message}`,
-          },
-          500,
-          allowedOrigin,
+  // Amendment payments only fail their amendment, the booking is handled by
+  // the amendment flow
+  if (paymentRecord.amendment_id) {
+    if (plan.effects.includes("fail_amendment")) {
+      const { error: amendmentError } = await supabase
+        .from("booking_amendments")
+        .update({ status: "failed", failure_reason: "Payment declined" })
+        .eq("id", paymentRecord.amendment_id)
+        .eq("status", "awaiting_payment");
+      if (amendmentError) {
+        console.error(
+          `Failed to update amendment ${paymentRecord.amendment_id}: ${amendmentError.message}`,
         );
       }
     }
+    return jsonResponse({ success: true }, 200, allowedOrigin);
+  }
+
+  const { data: updatedBookings, error: updateBookingError } = plan.booking
+    ? await supabase
+      .from("bookings")
+      .update({
+        status: plan.booking.status,
+        payment_status: plan.booking.paymentStatus,
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", bookingRecord.id)
+      .eq("status", bookingRecord.status)
+      .select("id")
+    : { data: [bookingRecord], error: null };
+  const bookingConflict = !updateBookingError && !updatedBookings?.length;
+  const bookingError = updateBookingError ??
+    (bookingConflict
+      ? { message: `Booking is no longer ${bookingRecord.status}`, code: "" }
+      : null);
+
+  if (bookingError) {
+    const { error: rollbackError } = await supabase
+      .from("payments")
+      .update({ status: previousPaymentStatus })
+      .eq("id", paymentRecord.id)
+      .eq("status", paymentStatus);
+    if (rollbackError) {
+      return jsonResponse(
+        {
+          error:
+            `Booking update failed (${bookingError.message}); rollback failed: ${rollbackError.message}`,
+        },
+        500,
+        allowedOrigin,
+      );
+    }
+    if (bookingConflict) {
+      console.warn(
+        `Booking ${bookingRecord.id} changed concurrently, callback rolled back`,
+      );
+      return jsonResponse(
+        { error: bookingError.message, code: "ILLEGAL_STATE_TRANSITION" },
+        409,
+        allowedOrigin,
+      );
+    }
     const notFound = bookingError.code === POSTGREST_NOT_FOUND_CODE;
     return jsonResponse(
       { error: bookingError.message },
@@ -230,5 +473,29 @@ serve(async (request) => {
     );
   }
 
+  if (plan.effects.includes("release_promo")) {
+    await updateBookingRedemptions(supabase, bookingId, "released");
+  } else if (plan.effects.includes("redeem_promo")) {
+    await updateBookingRedemptions(supabase, bookingId, "redeemed");
+  }
+
+  if (plan.effects.includes("release_payment")) {
+    const released = await releaseLatePayment(supabase, {
+      ...paymentRecord,
+      status: paymentStatus,
+    });
+    if (!released) {
+      return jsonResponse(
+        {
+          success: true,
+          bookingStatus: bookingRecord.status,
+          refundRequired: true,
+        },
+        200,
+        allowedOrigin,
+      );
+    }
+  }
+
   return jsonResponse({ success: true }, 200, allowedOrigin);
 });
@@ -0,0 +1,35 @@
+-- Migration: Add board code overrides
+-- Admin-editable mappings from myGO board codes/names to canonical board types
+-- (RO, BB, HB, FB, AI, UAI). Overrides win over built-in aliases and
+-- ListBoarding titles when search results are normalized.
+
+-- Create board_code_overrides table
+-- match_value is stored as entered; the Worker compares it normalized
+-- (case, accents and punctuation ignored)
+CREATE TABLE IF NOT EXISTS public.board_code_overrides (
+  id bigserial PRIMARY KEY,
+  match_type text NOT NULL CHECK (match_type IN ('code', 'name')),
+  match_value text NOT NULL,
+  canonical_code text NOT NULL CHECK (canonical_code IN ('RO', 'BB', 'HB', 'FB', 'AI', 'UAI')),
+  note text,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  updated_by uuid REFERENCES auth.users(id)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS board_code_overrides_match_idx
+  ON public.board_code_overrides (match_type, lower(match_value));
+
+COMMENT ON TABLE public.board_code_overrides IS 'Admin overrides mapping myGO board codes/names to canonical board types. Backend-only writes.';
+COMMENT ON COLUMN public.board_code_overrides.match_type IS 'code = match myGO Boarding.Code, name = match myGO Boarding.Name';
+COMMENT ON COLUMN public.board_code_overrides.match_value IS 'Code or name to match (compared case- and accent-insensitively)';
+COMMENT ON COLUMN public.board_code_overrides.canonical_code IS 'Canonical board type: RO, BB, HB, FB, AI or UAI';
+COMMENT ON COLUMN public.board_code_overrides.note IS 'Optional admin note (e.g. hotel the mapping was added for)';
+COMMENT ON COLUMN public.board_code_overrides.updated_by IS 'Admin who last changed this override';
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE public.board_code_overrides ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for board_code_overrides
+-- Only service_role can access (read by the Worker, edited through admin routes)
+-- No policies for anon/authenticated = access denied by default with RLS enabled
@@ -0,0 +1,75 @@
+-- Migration: Add pricing and markup rules
+-- Admin-managed rules turning myGO supplier prices into customer prices.
+-- One rule applies per offer (highest priority, then most specific); the
+-- applied rule and price breakdown are stored on each booking.
+
+-- Create pricing_rules table
+-- NULL (or empty) conditions match every offer
+CREATE TABLE IF NOT EXISTS public.pricing_rules (
+  id bigserial PRIMARY KEY,
+  name text NOT NULL,
+  active boolean NOT NULL DEFAULT true,
+  priority integer NOT NULL DEFAULT 0,
+  hotel_ids integer[],
+  city_ids integer[],
+  stars integer[],
+  board_types text[],
+  stay_from date,
+  stay_to date,
+  booking_window_min integer CHECK (booking_window_min IS NULL OR booking_window_min >= 0),
+  booking_window_max integer CHECK (booking_window_max IS NULL OR booking_window_max >= 0),
+  channels text[],
+  markup_type text NOT NULL CHECK (markup_type IN ('percent', 'fixed')),
+  markup_value numeric(12,3) NOT NULL CHECK (markup_value >= 0),
+  rounding_step numeric(12,3) CHECK (rounding_step IS NULL OR rounding_step > 0),
+  rounding_mode text NOT NULL DEFAULT 'nearest' CHECK (rounding_mode IN ('nearest', 'up', 'down')),
+  min_price numeric(12,3),
+  max_price numeric(12,3),
+  note text,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  updated_by uuid REFERENCES auth.users(id),
+  CHECK (stay_from IS NULL OR stay_to IS NULL OR stay_from <= stay_to),
+  CHECK (min_price IS NULL OR max_price IS NULL OR min_price <= max_price)
+);
+
+CREATE INDEX IF NOT EXISTS pricing_rules_active_priority_idx
+  ON public.pricing_rules (active, priority DESC);
+
+COMMENT ON TABLE public.pricing_rules IS 'Admin pricing/markup rules applied to search results and bookings. Backend-only writes.';
+COMMENT ON COLUMN public.pricing_rules.priority IS 'Higher priority wins; ties go to the rule with more conditions, then the oldest';
+COMMENT ON COLUMN public.pricing_rules.hotel_ids IS 'myGO hotel IDs targeted (NULL = all hotels)';
+COMMENT ON COLUMN public.pricing_rules.city_ids IS 'myGO city IDs targeted (NULL = all cities)';
+COMMENT ON COLUMN public.pricing_rules.stars IS 'Hotel star levels targeted (NULL = all)';
+COMMENT ON COLUMN public.pricing_rules.board_types IS 'Canonical board types targeted: RO, BB, HB, FB, AI, UAI (NULL = all)';
+COMMENT ON COLUMN public.pricing_rules.stay_from IS 'First check-in date covered (inclusive)';
+COMMENT ON COLUMN public.pricing_rules.stay_to IS 'Last check-in date covered (inclusive)';
+COMMENT ON COLUMN public.pricing_rules.booking_window_min IS 'Minimum days between booking and check-in';
+COMMENT ON COLUMN public.pricing_rules.booking_window_max IS 'Maximum days between booking and check-in';
+COMMENT ON COLUMN public.pricing_rules.channels IS 'Sales channels targeted: web, mobile, whatsapp, backoffice (NULL = all)';
+COMMENT ON COLUMN public.pricing_rules.markup_value IS 'Percent (10 = +10%) or fixed amount in the offer currency';
+COMMENT ON COLUMN public.pricing_rules.rounding_step IS 'Round the marked-up price to a multiple of this step (e.g. 1, 0.5, 5)';
+COMMENT ON COLUMN public.pricing_rules.min_price IS 'Price floor after markup and rounding';
+COMMENT ON COLUMN public.pricing_rules.max_price IS 'Price ceiling after markup and rounding (never below the supplier price)';
+COMMENT ON COLUMN public.pricing_rules.updated_by IS 'Admin who last changed this rule';
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE public.pricing_rules ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for pricing_rules
+-- Only service_role can access (read by the Worker, edited through admin routes)
+-- No policies for anon/authenticated = access denied by default with RLS enabled
+
+-- Record the applied pricing on bookings
+ALTER TABLE public.bookings
+  ADD COLUMN IF NOT EXISTS supplier_price numeric(12,3),
+  ADD COLUMN IF NOT EXISTS pricing_rule_id bigint REFERENCES public.pricing_rules(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS pricing_snapshot jsonb;
+
+CREATE INDEX IF NOT EXISTS bookings_pricing_rule_id_idx
+  ON public.bookings (pricing_rule_id)
+  WHERE pricing_rule_id IS NOT NULL;
+
+COMMENT ON COLUMN public.bookings.supplier_price IS 'myGO total before markup; total_price is what the customer pays';
+COMMENT ON COLUMN public.bookings.pricing_rule_id IS 'Pricing rule applied at booking time (NULL = no markup)';
+COMMENT ON COLUMN public.bookings.pricing_snapshot IS 'Rule, markup and channel at booking time (kept when the rule changes or is deleted)';
@@ -0,0 +1,47 @@
+-- Migration: Add exchange rates for display currencies
+-- Prices are searched, booked and paid in TND. Admins maintain rates used to
+-- show prices in other currencies; every change is a new snapshot so the
+-- history is kept, and bookings record the rate they were shown with.
+
+-- Create exchange_rates table (append-only history)
+-- The current rate of a currency is its latest snapshot with effective_at <= now()
+CREATE TABLE IF NOT EXISTS public.exchange_rates (
+  id bigserial PRIMARY KEY,
+  currency text NOT NULL CHECK (currency ~ '^[A-Z]{3}$' AND currency <> 'TND'),
+  tnd_per_unit numeric(18,8) NOT NULL CHECK (tnd_per_unit > 0),
+  effective_at timestamptz NOT NULL DEFAULT now(),
+  note text,
+  created_at timestamptz DEFAULT now(),
+  created_by uuid REFERENCES auth.users(id)
+);
+
+CREATE INDEX IF NOT EXISTS exchange_rates_currency_effective_idx
+  ON public.exchange_rates (currency, effective_at DESC);
+
+CREATE INDEX IF NOT EXISTS exchange_rates_effective_idx
+  ON public.exchange_rates (effective_at DESC);
+
+COMMENT ON TABLE public.exchange_rates IS 'Admin-maintained exchange rate snapshots for display currencies (settlement stays in TND). Backend-only writes.';
+COMMENT ON COLUMN public.exchange_rates.currency IS 'ISO 4217 code of the display currency (never TND)';
+COMMENT ON COLUMN public.exchange_rates.tnd_per_unit IS 'TND for one unit of the currency (e.g. 3.35 for EUR)';
+COMMENT ON COLUMN public.exchange_rates.effective_at IS 'When the rate starts to apply (may be scheduled in the future)';
+COMMENT ON COLUMN public.exchange_rates.created_by IS 'Admin who recorded this rate';
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE public.exchange_rates ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for exchange_rates
+-- Only service_role can access (read by the Worker, edited through admin routes)
+-- No policies for anon/authenticated = access denied by default with RLS enabled
+
+-- Record the display currency and rate on bookings
+ALTER TABLE public.bookings
+  ADD COLUMN IF NOT EXISTS display_currency text,
+  ADD COLUMN IF NOT EXISTS display_total_price numeric(14,3),
+  ADD COLUMN IF NOT EXISTS exchange_rate numeric(18,8),
+  ADD COLUMN IF NOT EXISTS exchange_rate_id bigint REFERENCES public.exchange_rates(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN public.bookings.display_currency IS 'Currency the customer saw prices in (TND when no conversion)';
+COMMENT ON COLUMN public.bookings.display_total_price IS 'total_price converted to display_currency at booking time (its minor units)';
+COMMENT ON COLUMN public.bookings.exchange_rate IS 'TND per unit of display_currency used at booking time (1 for TND)';
+COMMENT ON COLUMN public.bookings.exchange_rate_id IS 'exchange_rates snapshot used (NULL for TND)';
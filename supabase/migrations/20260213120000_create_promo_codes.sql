@@ -0,0 +1,98 @@
+-- Migration: Add promo codes and redemptions
+-- Admin-managed discount codes applied at prebook to the customer price of
+-- TND bookings. Each use is tracked as a redemption: reserved at prebook,
+-- redeemed once paid, released when the booking is cancelled.
+
+-- Create promo_codes table
+-- NULL (or empty) restrictions and limits match every booking
+CREATE TABLE IF NOT EXISTS public.promo_codes (
+  id bigserial PRIMARY KEY,
+  code text NOT NULL UNIQUE CHECK (code ~ '^[A-Z0-9_-]{3,32}$'),
+  description text,
+  active boolean NOT NULL DEFAULT true,
+  discount_type text NOT NULL CHECK (discount_type IN ('percent', 'fixed')),
+  discount_value numeric(12,3) NOT NULL CHECK (discount_value > 0),
+  max_discount numeric(12,3) CHECK (max_discount IS NULL OR max_discount > 0),
+  valid_from timestamptz,
+  valid_to timestamptz,
+  max_redemptions integer CHECK (max_redemptions IS NULL OR max_redemptions > 0),
+  max_redemptions_per_customer integer CHECK (max_redemptions_per_customer IS NULL OR max_redemptions_per_customer > 0),
+  min_nights integer CHECK (min_nights IS NULL OR min_nights > 0),
+  min_amount numeric(12,3) CHECK (min_amount IS NULL OR min_amount >= 0),
+  city_ids integer[],
+  hotel_ids integer[],
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  updated_by uuid REFERENCES auth.users(id),
+  CHECK (discount_type <> 'percent' OR discount_value <= 100),
+  CHECK (valid_from IS NULL OR valid_to IS NULL OR valid_from <= valid_to)
+);
+
+COMMENT ON TABLE public.promo_codes IS 'Admin promo codes / discount vouchers applied to TND bookings. Backend-only writes.';
+COMMENT ON COLUMN public.promo_codes.code IS 'Code typed by customers, stored uppercase';
+COMMENT ON COLUMN public.promo_codes.discount_value IS 'Percent (10 = -10%) or fixed amount in TND';
+COMMENT ON COLUMN public.promo_codes.max_discount IS 'Cap of percentage discounts in TND (NULL = no cap)';
+COMMENT ON COLUMN public.promo_codes.valid_from IS 'Start of the booking window (NULL = already valid)';
+COMMENT ON COLUMN public.promo_codes.valid_to IS 'End of the booking window (NULL = no end)';
+COMMENT ON COLUMN public.promo_codes.max_redemptions IS 'Uses across all customers (NULL = unlimited)';
+COMMENT ON COLUMN public.promo_codes.max_redemptions_per_customer IS 'Uses per account or booking email (NULL = unlimited)';
+COMMENT ON COLUMN public.promo_codes.min_nights IS 'Minimum stay length in nights';
+COMMENT ON COLUMN public.promo_codes.min_amount IS 'Minimum customer price before discount (TND)';
+COMMENT ON COLUMN public.promo_codes.city_ids IS 'myGO city IDs the code applies to (NULL = all cities)';
+COMMENT ON COLUMN public.promo_codes.hotel_ids IS 'myGO hotel IDs the code applies to (NULL = all hotels)';
+COMMENT ON COLUMN public.promo_codes.updated_by IS 'Admin who last changed this code';
+
+-- Create promo_redemptions table
+-- Usage limits count redeemed rows and recently reserved rows
+CREATE TABLE IF NOT EXISTS public.promo_redemptions (
+  id bigserial PRIMARY KEY,
+  promo_code_id bigint NOT NULL REFERENCES public.promo_codes(id) ON DELETE RESTRICT,
+  booking_id uuid NOT NULL REFERENCES public.bookings(id) ON DELETE CASCADE,
+  user_id uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  customer_email text NOT NULL,
+  discount_amount numeric(12,3) NOT NULL CHECK (discount_amount >= 0),
+  status text NOT NULL DEFAULT 'reserved' CHECK (status IN ('reserved', 'redeemed', 'released')),
+  reserved_at timestamptz NOT NULL DEFAULT now(),
+  redeemed_at timestamptz,
+  released_at timestamptz,
+  created_at timestamptz DEFAULT now()
+);
+
+-- One live redemption per booking
+CREATE UNIQUE INDEX IF NOT EXISTS promo_redemptions_booking_live_idx
+  ON public.promo_redemptions (booking_id)
+  WHERE status <> 'released';
+
+CREATE INDEX IF NOT EXISTS promo_redemptions_code_status_idx
+  ON public.promo_redemptions (promo_code_id, status, reserved_at);
+
+CREATE INDEX IF NOT EXISTS promo_redemptions_code_email_idx
+  ON public.promo_redemptions (promo_code_id, customer_email);
+
+CREATE INDEX IF NOT EXISTS promo_redemptions_code_user_idx
+  ON public.promo_redemptions (promo_code_id, user_id)
+  WHERE user_id IS NOT NULL;
+
+COMMENT ON TABLE public.promo_redemptions IS 'Promo code uses per booking. Backend-only writes.';
+COMMENT ON COLUMN public.promo_redemptions.customer_email IS 'Booking email, lowercased (per-customer limits of guests)';
+COMMENT ON COLUMN public.promo_redemptions.discount_amount IS 'Discount taken off the booking total (TND)';
+COMMENT ON COLUMN public.promo_redemptions.status IS 'reserved (prebook), redeemed (paid or confirmed), released (booking cancelled)';
+COMMENT ON COLUMN public.promo_redemptions.reserved_at IS 'Reservations older than 24 hours stop counting until checkout renews them';
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE public.promo_codes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.promo_redemptions ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for promo_codes and promo_redemptions
+-- Only service_role can access (read by the Worker, edited through admin routes)
+-- No policies for anon/authenticated = access denied by default with RLS enabled
+
+-- Record the applied code on bookings
+ALTER TABLE public.bookings
+  ADD COLUMN IF NOT EXISTS promo_code_id bigint REFERENCES public.promo_codes(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS promo_code text,
+  ADD COLUMN IF NOT EXISTS discount_amount numeric(12,3) NOT NULL DEFAULT 0;
+
+COMMENT ON COLUMN public.bookings.promo_code_id IS 'Promo code applied at booking time (NULL = none)';
+COMMENT ON COLUMN public.bookings.promo_code IS 'Code as applied (kept when the code changes)';
+COMMENT ON COLUMN public.bookings.discount_amount IS 'Promo discount already taken off total_price (TND)';
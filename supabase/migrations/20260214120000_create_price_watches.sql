@@ -0,0 +1,102 @@
+-- Migration: Add price watches and their notifications
+-- Users and guest sessions save a search, a hotel or an offer with an optional
+-- target price. A scheduled Worker job re-runs the search of active watches
+-- and queues a notification on a price drop or when a sold-out offer becomes
+-- available again. Watches expire once their check-in date has passed.
+
+-- Create price_watches table
+CREATE TABLE IF NOT EXISTS public.price_watches (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE,
+  guest_session_id uuid REFERENCES public.guest_sessions(id) ON DELETE CASCADE,
+  email text,
+  city_id integer NOT NULL CHECK (city_id > 0),
+  check_in date NOT NULL,
+  check_out date NOT NULL,
+  rooms jsonb NOT NULL,
+  hotel_id integer CHECK (hotel_id IS NULL OR hotel_id > 0),
+  room_id integer CHECK (room_id IS NULL OR room_id > 0),
+  board_code text,
+  target_price numeric(12,3) CHECK (target_price IS NULL OR target_price > 0),
+  initial_price numeric(12,3),
+  last_price numeric(12,3),
+  last_available boolean,
+  last_checked_at timestamptz,
+  last_notified_price numeric(12,3),
+  last_notified_at timestamptz,
+  status text NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'expired', 'cancelled')),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CHECK (user_id IS NOT NULL OR guest_session_id IS NOT NULL),
+  CHECK (check_in < check_out),
+  CHECK (room_id IS NULL OR hotel_id IS NOT NULL)
+);
+
+-- Job queue: active watches, least recently checked first
+CREATE INDEX IF NOT EXISTS price_watches_active_checked_idx
+  ON public.price_watches (last_checked_at NULLS FIRST)
+  WHERE status = 'active';
+
+CREATE INDEX IF NOT EXISTS price_watches_user_idx
+  ON public.price_watches (user_id, status)
+  WHERE user_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS price_watches_guest_session_idx
+  ON public.price_watches (guest_session_id, status)
+  WHERE guest_session_id IS NOT NULL;
+
+COMMENT ON TABLE public.price_watches IS 'Price watch alerts on saved searches and offers. Backend-only access.';
+COMMENT ON COLUMN public.price_watches.email IS 'Notification email (guests; users default to their account email)';
+COMMENT ON COLUMN public.price_watches.rooms IS 'Occupancy of the watched search: [{adults, childrenAges}]';
+COMMENT ON COLUMN public.price_watches.hotel_id IS 'Watched hotel (NULL = cheapest hotel of the search)';
+COMMENT ON COLUMN public.price_watches.room_id IS 'Watched room of hotel_id (NULL = cheapest room of the hotel)';
+COMMENT ON COLUMN public.price_watches.target_price IS 'Notify only at or under this customer price in TND (NULL = any drop)';
+COMMENT ON COLUMN public.price_watches.initial_price IS 'Customer price when the watch was saved (from a signed offer reference)';
+COMMENT ON COLUMN public.price_watches.last_available IS 'Availability at the last check (NULL = not checked yet)';
+COMMENT ON COLUMN public.price_watches.last_notified_price IS 'Price of the last notification; later drops must go below it';
+COMMENT ON COLUMN public.price_watches.status IS 'active, expired (check-in passed) or cancelled (by the owner)';
+
+-- Create price_watch_notifications table
+-- Outbox read by the profile UI and by notification delivery
+CREATE TABLE IF NOT EXISTS public.price_watch_notifications (
+  id bigserial PRIMARY KEY,
+  watch_id uuid NOT NULL REFERENCES public.price_watches(id) ON DELETE CASCADE,
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE,
+  guest_session_id uuid REFERENCES public.guest_sessions(id) ON DELETE CASCADE,
+  email text,
+  type text NOT NULL CHECK (type IN ('PRICE_DROP', 'BACK_IN_STOCK')),
+  price numeric(12,3) NOT NULL,
+  previous_price numeric(12,3),
+  delivery_status text NOT NULL DEFAULT 'pending' CHECK (delivery_status IN ('pending', 'sent', 'failed')),
+  delivered_at timestamptz,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS price_watch_notifications_watch_idx
+  ON public.price_watch_notifications (watch_id);
+
+CREATE INDEX IF NOT EXISTS price_watch_notifications_user_idx
+  ON public.price_watch_notifications (user_id, created_at DESC)
+  WHERE user_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS price_watch_notifications_guest_session_idx
+  ON public.price_watch_notifications (guest_session_id, created_at DESC)
+  WHERE guest_session_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS price_watch_notifications_pending_idx
+  ON public.price_watch_notifications (created_at)
+  WHERE delivery_status = 'pending';
+
+COMMENT ON TABLE public.price_watch_notifications IS 'Price watch alerts queued by the scheduled job. Backend-only access.';
+COMMENT ON COLUMN public.price_watch_notifications.type IS 'PRICE_DROP or BACK_IN_STOCK';
+COMMENT ON COLUMN public.price_watch_notifications.price IS 'Customer price in TND when the alert was raised';
+COMMENT ON COLUMN public.price_watch_notifications.previous_price IS 'Reference price the drop is measured from (NULL = none)';
+COMMENT ON COLUMN public.price_watch_notifications.delivery_status IS 'pending until the price watch job emails it, then sent or failed';
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE public.price_watches ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.price_watch_notifications ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for price_watches and price_watch_notifications
+-- Only service_role can access (owners go through the Worker API)
+-- No policies for anon/authenticated = access denied by default with RLS enabled
@@ -0,0 +1,36 @@
+-- Migration: Add favorite hotels (wishlist)
+-- Signed-in users keep favorites on their account; guest sessions keep their
+-- own until the guest logs in, when they are merged into the account.
+
+-- Create favorite_hotels table
+CREATE TABLE IF NOT EXISTS public.favorite_hotels (
+  id bigserial PRIMARY KEY,
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE,
+  guest_session_id uuid REFERENCES public.guest_sessions(id) ON DELETE CASCADE,
+  hotel_id integer NOT NULL CHECK (hotel_id > 0),
+  created_at timestamptz DEFAULT now(),
+  CHECK ((user_id IS NULL) <> (guest_session_id IS NULL)),
+  -- NULL owners never conflict, so each constraint only applies to its kind of owner
+  UNIQUE (user_id, hotel_id),
+  UNIQUE (guest_session_id, hotel_id)
+);
+
+CREATE INDEX IF NOT EXISTS favorite_hotels_user_created_idx
+  ON public.favorite_hotels (user_id, created_at DESC)
+  WHERE user_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS favorite_hotels_guest_session_idx
+  ON public.favorite_hotels (guest_session_id)
+  WHERE guest_session_id IS NOT NULL;
+
+COMMENT ON TABLE public.favorite_hotels IS 'Favorite hotels of users (profile wishlist) and guest sessions. Backend-only access.';
+COMMENT ON COLUMN public.favorite_hotels.user_id IS 'Account (profiles user) owning the favorite';
+COMMENT ON COLUMN public.favorite_hotels.guest_session_id IS 'Guest session owning the favorite until merged at login';
+COMMENT ON COLUMN public.favorite_hotels.hotel_id IS 'myGO hotel ID (enriched from inventory_hotels when listed)';
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE public.favorite_hotels ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for favorite_hotels
+-- Only service_role can access (owners go through the Worker API)
+-- No policies for anon/authenticated = access denied by default with RLS enabled
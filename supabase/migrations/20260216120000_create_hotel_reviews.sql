@@ -0,0 +1,70 @@
+-- Migration: Add guest reviews and ratings
+-- Customers with a completed booking review the hotel once per booking with
+-- four sub-scores and a text. Reviews stay hidden until an admin approves
+-- them; approved reviews feed the per-hotel scores shown in search and detail.
+
+-- Create hotel_reviews table
+CREATE TABLE IF NOT EXISTS public.hotel_reviews (
+  id bigserial PRIMARY KEY,
+  booking_id uuid NOT NULL UNIQUE REFERENCES public.bookings(id) ON DELETE CASCADE,
+  hotel_id integer NOT NULL CHECK (hotel_id > 0),
+  user_id uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  guest_session_id uuid REFERENCES public.guest_sessions(id) ON DELETE SET NULL,
+  author_name text NOT NULL,
+  check_in date NOT NULL,
+  check_out date NOT NULL,
+  cleanliness smallint NOT NULL CHECK (cleanliness BETWEEN 1 AND 10),
+  location smallint NOT NULL CHECK (location BETWEEN 1 AND 10),
+  staff smallint NOT NULL CHECK (staff BETWEEN 1 AND 10),
+  value smallint NOT NULL CHECK (value BETWEEN 1 AND 10),
+  overall_score numeric(3,1) NOT NULL CHECK (overall_score BETWEEN 1 AND 10),
+  title text,
+  comment text NOT NULL,
+  language text,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected')),
+  moderation_note text,
+  moderated_by uuid REFERENCES auth.users(id),
+  moderated_at timestamptz,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS hotel_reviews_hotel_approved_idx
+  ON public.hotel_reviews (hotel_id, created_at DESC)
+  WHERE status = 'approved';
+
+CREATE INDEX IF NOT EXISTS hotel_reviews_status_created_idx
+  ON public.hotel_reviews (status, created_at);
+
+COMMENT ON TABLE public.hotel_reviews IS 'Verified-stay hotel reviews (one per completed booking), moderated by admins. Backend-only access.';
+COMMENT ON COLUMN public.hotel_reviews.booking_id IS 'Completed booking the review is verified against';
+COMMENT ON COLUMN public.hotel_reviews.author_name IS 'Public display name: booking first name and last name initial';
+COMMENT ON COLUMN public.hotel_reviews.check_in IS 'Stay dates copied from the booking';
+COMMENT ON COLUMN public.hotel_reviews.overall_score IS 'Average of the four sub-scores (1-10), rounded to one decimal';
+COMMENT ON COLUMN public.hotel_reviews.status IS 'pending (moderation queue), approved (public), rejected';
+COMMENT ON COLUMN public.hotel_reviews.moderation_note IS 'Admin note, not shown to customers';
+COMMENT ON COLUMN public.hotel_reviews.moderated_by IS 'Admin who approved or rejected the review';
+
+-- Per-hotel scores of approved reviews
+CREATE OR REPLACE VIEW public.hotel_review_stats
+WITH (security_invoker = true) AS
+SELECT
+  hotel_id,
+  count(*)::integer AS review_count,
+  round(avg(overall_score), 1) AS overall_avg,
+  round(avg(cleanliness), 1) AS cleanliness_avg,
+  round(avg(location), 1) AS location_avg,
+  round(avg(staff), 1) AS staff_avg,
+  round(avg(value), 1) AS value_avg
+FROM public.hotel_reviews
+WHERE status = 'approved'
+GROUP BY hotel_id;
+
+COMMENT ON VIEW public.hotel_review_stats IS 'Aggregated scores of approved reviews per hotel (search and detail responses)';
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE public.hotel_reviews ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for hotel_reviews
+-- Only service_role can access (reviews go through the Worker API; the view
+-- runs with the caller's rights, so it is backend-only as well)
+-- No policies for anon/authenticated = access denied by default with RLS enabled
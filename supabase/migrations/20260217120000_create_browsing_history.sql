@@ -0,0 +1,43 @@
+-- Migration: Add browsing history (recent searches and viewed hotels)
+-- Recorded by the Worker for signed-in users and guest sessions, returned by
+-- /profile/history ("continue your search"). Each owner keeps a few recent
+-- entries per kind for a limited time; guest history goes with the session.
+
+-- Create browsing_history table
+CREATE TABLE IF NOT EXISTS public.browsing_history (
+  id bigserial PRIMARY KEY,
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE,
+  guest_session_id uuid REFERENCES public.guest_sessions(id) ON DELETE CASCADE,
+  kind text NOT NULL CHECK (kind IN ('search', 'hotel')),
+  entry_key text NOT NULL,
+  hotel_id integer CHECK (hotel_id IS NULL OR hotel_id > 0),
+  payload jsonb NOT NULL DEFAULT '{}'::jsonb,
+  viewed_at timestamptz NOT NULL DEFAULT now(),
+  CHECK ((user_id IS NULL) <> (guest_session_id IS NULL)),
+  CHECK ((kind = 'hotel') = (hotel_id IS NOT NULL)),
+  -- NULL owners never conflict, so each constraint only applies to its kind of owner
+  UNIQUE (user_id, kind, entry_key),
+  UNIQUE (guest_session_id, kind, entry_key)
+);
+
+CREATE INDEX IF NOT EXISTS browsing_history_user_viewed_idx
+  ON public.browsing_history (user_id, kind, viewed_at DESC)
+  WHERE user_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS browsing_history_guest_viewed_idx
+  ON public.browsing_history (guest_session_id, kind, viewed_at DESC)
+  WHERE guest_session_id IS NOT NULL;
+
+COMMENT ON TABLE public.browsing_history IS 'Recent searches and viewed hotels of users and guest sessions. Backend-only access.';
+COMMENT ON COLUMN public.browsing_history.guest_session_id IS 'Guest session owning the entry; deleted with the session';
+COMMENT ON COLUMN public.browsing_history.kind IS 'search (city search) or hotel (hotel detail view)';
+COMMENT ON COLUMN public.browsing_history.entry_key IS 'Deduplication key: same city, stay and occupancy, or same hotel';
+COMMENT ON COLUMN public.browsing_history.payload IS 'Search parameters to replay (cityId, checkIn, checkOut, rooms)';
+COMMENT ON COLUMN public.browsing_history.viewed_at IS 'Last time the search was run or the hotel viewed (entries expire after 30 days)';
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE public.browsing_history ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for browsing_history
+-- Only service_role can access (owners go through the Worker API)
+-- No policies for anon/authenticated = access denied by default with RLS enabled
@@ -0,0 +1,74 @@
+-- Migration: Add sampled deal prices (city landing pages and deals feed)
+-- Filled by the Worker deals cron job: myGO searches for popular cities and
+-- upcoming weekends (2 adults, 1 room), priced with the active pricing rules.
+-- One row per stay keeps the lowest customer price of each hotel and board;
+-- public /deals endpoints read the aggregates below.
+
+-- Create deal_prices table
+CREATE TABLE IF NOT EXISTS public.deal_prices (
+  id bigserial PRIMARY KEY,
+  city_id integer NOT NULL CHECK (city_id > 0),
+  hotel_id integer NOT NULL CHECK (hotel_id > 0),
+  board_type text NOT NULL CHECK (board_type IN ('RO', 'BB', 'HB', 'FB', 'AI', 'UAI')),
+  check_in date NOT NULL,
+  check_out date NOT NULL,
+  nights smallint NOT NULL CHECK (nights > 0),
+  price numeric(12,3) NOT NULL CHECK (price > 0),
+  price_per_night numeric(12,3) NOT NULL CHECK (price_per_night > 0),
+  room_id integer,
+  room_name text,
+  sampled_at timestamptz NOT NULL DEFAULT now(),
+  CHECK (check_out > check_in),
+  UNIQUE (hotel_id, board_type, check_in, check_out)
+);
+
+CREATE INDEX IF NOT EXISTS deal_prices_city_stay_idx
+  ON public.deal_prices (city_id, check_in, check_out);
+
+COMMENT ON TABLE public.deal_prices IS 'Lowest sampled customer price per hotel, board and upcoming weekend stay. Backend-only access.';
+COMMENT ON COLUMN public.deal_prices.board_type IS 'Canonical board (rooms without one are not sampled)';
+COMMENT ON COLUMN public.deal_prices.price IS 'Customer price of the stay in TND (pricing rules applied), 2 adults in 1 room';
+COMMENT ON COLUMN public.deal_prices.price_per_night IS 'price / nights, the "from" price shown on landing pages';
+COMMENT ON COLUMN public.deal_prices.sampled_at IS 'Run that last saw this price (rows of a stay not seen by its latest run are removed)';
+
+-- Cheapest upcoming stay per hotel and board, with the average over sampled
+-- stays (reference price of the deals feed)
+CREATE OR REPLACE VIEW public.deal_hotel_prices
+WITH (security_invoker = true) AS
+SELECT
+  city_id,
+  hotel_id,
+  board_type,
+  min(price_per_night) AS from_price_per_night,
+  round(avg(price_per_night), 3) AS average_price_per_night,
+  count(*)::integer AS stay_count,
+  (array_agg(price ORDER BY price_per_night, check_in))[1] AS from_price,
+  (array_agg(check_in ORDER BY price_per_night, check_in))[1] AS from_check_in,
+  (array_agg(check_out ORDER BY price_per_night, check_in))[1] AS from_check_out,
+  max(sampled_at) AS sampled_at
+FROM public.deal_prices
+WHERE check_in >= current_date
+GROUP BY city_id, hotel_id, board_type;
+
+COMMENT ON VIEW public.deal_hotel_prices IS 'Upcoming deal prices per hotel and board (from price, average, cheapest stay)';
+
+-- Last sampling run per city and stay (the job re-samples the oldest first)
+CREATE OR REPLACE VIEW public.deal_sampled_stays
+WITH (security_invoker = true) AS
+SELECT
+  city_id,
+  check_in,
+  check_out,
+  count(*)::integer AS price_count,
+  max(sampled_at) AS sampled_at
+FROM public.deal_prices
+GROUP BY city_id, check_in, check_out;
+
+COMMENT ON VIEW public.deal_sampled_stays IS 'Last deals job run per city and stay';
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE public.deal_prices ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for deal_prices
+-- Only service_role can access (public data is served by the Worker API)
+-- No policies for anon/authenticated = access denied by default with RLS enabled
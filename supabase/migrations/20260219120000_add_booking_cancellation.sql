@@ -0,0 +1,27 @@
+-- Migration: Add customer-initiated booking cancellation
+-- Customers cancel through /bookings/:id/cancel (quote, then confirm). The
+-- booking keeps the penalty and refund it was cancelled with; the payment
+-- records what ClicToPay captured or refunded to settle it.
+
+ALTER TABLE public.bookings
+  ADD COLUMN IF NOT EXISTS cancelled_at timestamptz,
+  ADD COLUMN IF NOT EXISTS cancellation_penalty numeric(12,3),
+  ADD COLUMN IF NOT EXISTS refund_amount numeric(12,3),
+  ADD COLUMN IF NOT EXISTS refund_status text
+    CHECK (refund_status IS NULL OR refund_status IN ('none', 'completed', 'failed'));
+
+COMMENT ON COLUMN public.bookings.cancelled_at IS 'When the customer cancelled the booking';
+COMMENT ON COLUMN public.bookings.cancellation_penalty IS 'Customer penalty (myGO fee share of total_price) kept on cancellation';
+COMMENT ON COLUMN public.bookings.refund_amount IS 'Amount released or refunded to the customer on cancellation';
+COMMENT ON COLUMN public.bookings.refund_status IS 'none (nothing paid), completed, or failed (ClicToPay settlement to be done by hand)';
+
+CREATE INDEX IF NOT EXISTS bookings_refund_failed_idx
+  ON public.bookings (cancelled_at)
+  WHERE refund_status = 'failed';
+
+ALTER TABLE public.payments
+  ADD COLUMN IF NOT EXISTS captured_amount numeric(12,3),
+  ADD COLUMN IF NOT EXISTS refunded_amount numeric(12,3) NOT NULL DEFAULT 0;
+
+COMMENT ON COLUMN public.payments.captured_amount IS 'Amount deposited (captured); a cancellation penalty captures only part of the pre-authorization';
+COMMENT ON COLUMN public.payments.refunded_amount IS 'Amount refunded after capture (status refunded)';
@@ -0,0 +1,70 @@
+-- Migration: Add booking amendments
+-- Customers change the dates or occupancy of a booking through
+-- /bookings/:id/amend (quote, confirm, complete). The change is a swap: a new
+-- myGO booking for the same hotel, then the previous one is cancelled under
+-- its cancellation policy. The booking row keeps its id and takes the new
+-- stay; each amendment records what was swapped and how it was paid.
+
+-- Create booking_amendments table
+CREATE TABLE IF NOT EXISTS public.booking_amendments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  booking_id uuid NOT NULL REFERENCES public.bookings(id) ON DELETE CASCADE,
+  status text NOT NULL CHECK (status IN ('awaiting_payment', 'processing', 'completed', 'failed')),
+  check_in date NOT NULL,
+  check_out date NOT NULL,
+  rooms jsonb NOT NULL,
+  room_id integer NOT NULL,
+  board_code text,
+  accepted_price_difference numeric(12,3) NOT NULL,
+  previous_mygo_booking_id integer,
+  new_mygo_booking_id integer,
+  previous_total numeric(12,3),
+  new_total numeric(12,3),
+  penalty numeric(12,3),
+  settlement text CHECK (settlement IS NULL OR settlement IN ('none', 'preauth', 'capture', 'refund')),
+  settlement_status text CHECK (settlement_status IS NULL OR settlement_status IN ('none', 'completed', 'failed')),
+  failure_reason text,
+  created_at timestamptz DEFAULT now(),
+  completed_at timestamptz,
+  CHECK (check_in < check_out)
+);
+
+CREATE INDEX IF NOT EXISTS booking_amendments_booking_idx
+  ON public.booking_amendments (booking_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS booking_amendments_settlement_failed_idx
+  ON public.booking_amendments (completed_at)
+  WHERE settlement_status = 'failed';
+
+COMMENT ON TABLE public.booking_amendments IS 'Date and occupancy changes of bookings (myGO booking swaps). Backend-only writes.';
+COMMENT ON COLUMN public.booking_amendments.status IS 'awaiting_payment (replacement pre-authorization not paid yet), processing (swap running), completed, failed (booking unchanged)';
+COMMENT ON COLUMN public.booking_amendments.rooms IS 'Requested occupancy: [{ adults, childrenAges }]';
+COMMENT ON COLUMN public.booking_amendments.accepted_price_difference IS 'Price difference shown to the customer (new total + penalty - previous total), in the booking currency';
+COMMENT ON COLUMN public.booking_amendments.penalty IS 'Cancellation penalty of the previous myGO booking, kept in the new total';
+COMMENT ON COLUMN public.booking_amendments.settlement IS 'ClicToPay operation settling the difference: preauth (replacement pre-authorization), capture (partial capture of the hold) or refund';
+COMMENT ON COLUMN public.booking_amendments.settlement_status IS 'failed = to be settled by hand (the swap itself stands)';
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE public.booking_amendments ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for booking_amendments
+-- Only service_role can access (written by the Worker booking routes)
+-- No policies for anon/authenticated = access denied by default with RLS enabled
+
+-- Link replacement pre-authorizations to their amendment
+ALTER TABLE public.payments
+  ADD COLUMN IF NOT EXISTS amendment_id uuid REFERENCES public.booking_amendments(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS payments_amendment_idx
+  ON public.payments (amendment_id)
+  WHERE amendment_id IS NOT NULL;
+
+COMMENT ON COLUMN public.payments.amendment_id IS 'Amendment paid by this replacement pre-authorization (its callback does not change the booking)';
+
+-- Penalties of previous swaps stay due whatever happens to the booking next
+ALTER TABLE public.bookings
+  ADD COLUMN IF NOT EXISTS amendment_fees numeric(12,3) NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS amended_at timestamptz;
+
+COMMENT ON COLUMN public.bookings.amendment_fees IS 'Cancellation penalties of amended-away myGO bookings, included in total_price and never refunded';
+COMMENT ON COLUMN public.bookings.amended_at IS 'Last date or occupancy change';
@@ -0,0 +1,11 @@
+-- Migration: Index the customer booking list
+-- GET /bookings lists the bookings of a user or guest session by tab
+-- (upcoming, past, cancelled), ordered by check-in date.
+
+CREATE INDEX IF NOT EXISTS bookings_user_check_in_idx
+  ON public.bookings (user_id, check_in DESC)
+  WHERE user_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS bookings_guest_session_check_in_idx
+  ON public.bookings (guest_session_id, check_in DESC)
+  WHERE guest_session_id IS NOT NULL;
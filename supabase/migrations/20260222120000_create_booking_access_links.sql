@@ -0,0 +1,35 @@
+-- Migration: Add guest booking lookup magic links
+-- Guests find their booking again through POST /bookings/lookup (booking
+-- reference + customer email). A match emails a magic link to the
+-- manage-booking page; the link carries a signed access token scoped to that
+-- booking and to one row of this table, which must still be active when the
+-- token is used. Lookups are rate limited in public.rate_limits.
+
+-- Create booking_access_links table
+CREATE TABLE IF NOT EXISTS public.booking_access_links (
+  id uuid PRIMARY KEY,
+  booking_id uuid NOT NULL REFERENCES public.bookings(id) ON DELETE CASCADE,
+  email text NOT NULL,
+  expires_at timestamptz NOT NULL,
+  revoked_at timestamptz,
+  delivery_status text NOT NULL DEFAULT 'pending' CHECK (delivery_status IN ('pending', 'sent', 'failed')),
+  delivered_at timestamptz,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS booking_access_links_booking_idx
+  ON public.booking_access_links (booking_id, created_at DESC);
+
+COMMENT ON TABLE public.booking_access_links IS 'Magic links emailed by guest booking lookups (the tokens themselves are not stored). Backend-only access.';
+COMMENT ON COLUMN public.booking_access_links.id IS 'Link id carried by the signed magic link token';
+COMMENT ON COLUMN public.booking_access_links.email IS 'Customer email of the booking (the link is only ever sent there)';
+COMMENT ON COLUMN public.booking_access_links.expires_at IS 'The link grants access to the booking until then';
+COMMENT ON COLUMN public.booking_access_links.revoked_at IS 'Set to revoke the link before it expires (also set when the email could not be sent)';
+COMMENT ON COLUMN public.booking_access_links.delivery_status IS 'pending while the email is being sent, then sent or failed';
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE public.booking_access_links ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for booking_access_links
+-- Only service_role can access (written by the Worker booking routes)
+-- No policies for anon/authenticated = access denied by default with RLS enabled
@@ -0,0 +1,84 @@
+-- Migration: Reserve promo code redemptions atomically
+-- Usage limits were checked by counting redemptions before the myGO booking
+-- call and the redemption was inserted afterwards, so concurrent bookings
+-- could all pass the count. Redemptions are now reserved before calling myGO
+-- by reserve_promo_redemption, which locks the promo code row, counts and
+-- inserts in one transaction; the booking is attached once stored.
+
+-- Reservations exist before their booking row
+ALTER TABLE public.promo_redemptions
+  ALTER COLUMN booking_id DROP NOT NULL;
+
+COMMENT ON COLUMN public.promo_redemptions.booking_id IS 'Booking holding the redemption (NULL while the booking is being made)';
+
+-- Reserve a use of a promo code, or renew the reservation of a booking
+-- (checkout of a reservation that stopped counting)
+-- Counts redeemed rows and rows reserved after p_counted_since, like the
+-- Worker; per-customer uses match the booking email or the account.
+-- Returns the redemption id, or the limit that was reached (USAGE_LIMIT,
+-- CUSTOMER_LIMIT, or NOT_FOUND for an unknown code or renewed row)
+CREATE OR REPLACE FUNCTION public.reserve_promo_redemption(
+  p_promo_code_id bigint,
+  p_customer_email text,
+  p_user_id uuid,
+  p_counted_since timestamptz,
+  p_renew_redemption_id bigint DEFAULT NULL
+)
+RETURNS TABLE (redemption_id bigint, rejection text)
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_code public.promo_codes%ROWTYPE;
+  v_email text := lower(trim(p_customer_email));
+  v_total integer;
+  v_customer integer;
+  v_id bigint;
+BEGIN
+  -- Serialises the reservations of one code
+  SELECT * INTO v_code FROM public.promo_codes WHERE id = p_promo_code_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN QUERY SELECT NULL::bigint, 'NOT_FOUND'::text;
+    RETURN;
+  END IF;
+
+  SELECT
+    count(*),
+    count(*) FILTER (WHERE r.customer_email = v_email OR (p_user_id IS NOT NULL AND r.user_id = p_user_id))
+  INTO v_total, v_customer
+  FROM public.promo_redemptions r
+  WHERE r.promo_code_id = p_promo_code_id
+    AND (r.status = 'redeemed' OR (r.status = 'reserved' AND r.reserved_at > p_counted_since))
+    AND (p_renew_redemption_id IS NULL OR r.id <> p_renew_redemption_id);
+
+  IF v_code.max_redemptions IS NOT NULL AND v_total >= v_code.max_redemptions THEN
+    RETURN QUERY SELECT NULL::bigint, 'USAGE_LIMIT'::text;
+    RETURN;
+  END IF;
+  IF v_code.max_redemptions_per_customer IS NOT NULL AND v_customer >= v_code.max_redemptions_per_customer THEN
+    RETURN QUERY SELECT NULL::bigint, 'CUSTOMER_LIMIT'::text;
+    RETURN;
+  END IF;
+
+  IF p_renew_redemption_id IS NOT NULL THEN
+    UPDATE public.promo_redemptions
+      SET reserved_at = now()
+      WHERE id = p_renew_redemption_id AND status = 'reserved'
+      RETURNING id INTO v_id;
+    IF v_id IS NULL THEN
+      RETURN QUERY SELECT NULL::bigint, 'NOT_FOUND'::text;
+      RETURN;
+    END IF;
+  ELSE
+    INSERT INTO public.promo_redemptions (promo_code_id, user_id, customer_email, discount_amount, status, reserved_at)
+      VALUES (p_promo_code_id, p_user_id, v_email, 0, 'reserved', now())
+      RETURNING id INTO v_id;
+  END IF;
+
+  RETURN QUERY SELECT v_id, NULL::text;
+END;
+$$;
+
+-- Only service_role (the Worker) may reserve
+REVOKE ALL ON FUNCTION public.reserve_promo_redemption(bigint, text, uuid, timestamptz, bigint) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.reserve_promo_redemption(bigint, text, uuid, timestamptz, bigint) TO service_role;